@@ -7,7 +7,7 @@ import { SafeAreaProvider } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
 import { I18nextProvider } from "react-i18next";
 
-import RootNavigator from "@/navigation/RootNavigator";
+import RootNavigator, { navigationRef } from "@/navigation/RootNavigator";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { WebSocketProvider } from "@/contexts/WebSocketContext";
@@ -48,7 +48,7 @@ function AppContent() {
               <NotificationsProvider>
                 <VideosProvider>
                   <CommunityProvider>
-                    <NavigationContainer>
+                    <NavigationContainer ref={navigationRef}>
                       <RootNavigator />
                     </NavigationContainer>
                     <StatusBar style="auto" />
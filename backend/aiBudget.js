@@ -0,0 +1,176 @@
+/**
+ * Daily AI spend budget
+ *
+ * Every provider call made while answering an AI request is priced from
+ * the usage the provider reports (providers/usage.ts) and added to the
+ * caller's spend for the UTC day in ai_spend. Callers are users, or IP
+ * addresses when signed out; background caption transcriptions are charged
+ * to the video's author. Once the day's spend reaches the budget,
+ * aiBudget() answers 429 AI_BUDGET_EXCEEDED until midnight UTC.
+ *
+ * Budgets in USD per day:
+ *   AI_DAILY_BUDGET_USD            signed-in free plan (default 0.50)
+ *   AI_DAILY_BUDGET_PREMIUM_USD    trial and paid plans (default 5.00)
+ *   AI_DAILY_BUDGET_ANONYMOUS_USD  signed out, per IP (default 0.10)
+ * Set one to "off" to leave that caller unlimited.
+ *
+ * Costs are estimates from list prices, recorded after the request has
+ * spent them, so a caller can go over by the cost of one request.
+ */
+const { pool } = require("./db");
+const { getUserSubscription } = require("./subscription");
+const { withUsageListener } = require("./providers/usage");
+const { ERROR_CODES, sendError } = require("./errors");
+
+const DEFAULT_BUDGETS = {
+  free: 0.5,
+  premium: 5,
+  anonymous: 0.1,
+};
+
+const BUDGET_VARIABLES = {
+  free: "AI_DAILY_BUDGET_USD",
+  premium: "AI_DAILY_BUDGET_PREMIUM_USD",
+  anonymous: "AI_DAILY_BUDGET_ANONYMOUS_USD",
+};
+
+/**
+ * List prices in USD: per million tokens, per image, per audio minute.
+ * Dated model names (gpt-4o-mini-2024-07-18) use their base model's price.
+ */
+const MODEL_PRICES = {
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "text-embedding-3-small": { inputPerMillion: 0.02 },
+  "dall-e-3": { perImage: { "1024x1024": 0.04, default: 0.08 } },
+  "whisper-1": { perMinute: 0.006 },
+};
+
+// Models without a price are charged as the most expensive chat model
+const FALLBACK_MODEL = "gpt-4o";
+
+const warnedModels = new Set();
+
+function priceOf(model) {
+  const base = Object.keys(MODEL_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (base) return MODEL_PRICES[base];
+
+  if (!warnedModels.has(model)) {
+    warnedModels.add(model);
+    console.warn(`[AIBudget] No price for model "${model}", charging it as ${FALLBACK_MODEL}`);
+  }
+  return MODEL_PRICES[FALLBACK_MODEL];
+}
+
+/**
+ * Estimated cost in USD of one provider call
+ * @param {import("./providers").AIUsage} usage
+ */
+function costOf(usage) {
+  const price = priceOf(usage.model);
+  let cost = 0;
+  if (price.inputPerMillion) cost += ((usage.inputTokens || 0) * price.inputPerMillion) / 1e6;
+  if (price.outputPerMillion) cost += ((usage.outputTokens || 0) * price.outputPerMillion) / 1e6;
+  if (price.perImage) {
+    cost += (usage.images || 0) * (price.perImage[usage.size] ?? price.perImage.default);
+  }
+  if (price.perMinute) cost += ((usage.audioSeconds || 0) / 60) * price.perMinute;
+  return cost;
+}
+
+function today() {
+  return new Date().toISOString().split("T")[0];
+}
+
+// Midnight UTC after `date`, when the day's spend starts over
+function nextResetAt(date) {
+  const reset = new Date(`${date}T00:00:00.000Z`);
+  reset.setUTCDate(reset.getUTCDate() + 1);
+  return reset.toISOString();
+}
+
+/**
+ * Daily budget in USD for a caller; null when unlimited
+ * @param {string | undefined} userId signed-in user, if any
+ */
+async function dailyBudget(userId) {
+  let tier = "anonymous";
+  if (userId) {
+    const subscription = await getUserSubscription(userId);
+    tier = subscription?.isPremium ? "premium" : "free";
+  }
+
+  const configured = process.env[BUDGET_VARIABLES[tier]];
+  if (!configured) return DEFAULT_BUDGETS[tier];
+  if (configured === "off") return null;
+  const budget = Number(configured);
+  if (!Number.isFinite(budget) || budget < 0) {
+    throw new Error(`${BUDGET_VARIABLES[tier]} must be an amount in USD or "off", got "${configured}"`);
+  }
+  return budget;
+}
+
+async function spentToday(subject) {
+  const result = await pool.query(`SELECT cost_usd FROM ai_spend WHERE subject = $1 AND spend_date = $2`, [
+    subject,
+    today(),
+  ]);
+  return result.rows.length > 0 ? Number(result.rows[0].cost_usd) : 0;
+}
+
+async function recordSpend(subject, costUsd) {
+  await pool.query(
+    `INSERT INTO ai_spend (subject, spend_date, cost_usd, calls)
+     VALUES ($1, $2, $3, 1)
+     ON CONFLICT (subject, spend_date)
+     DO UPDATE SET cost_usd = ai_spend.cost_usd + $3, calls = ai_spend.calls + 1, updated_at = NOW()`,
+    [subject, today(), costUsd]
+  );
+}
+
+/**
+ * Usage listener adding the cost of each provider call to `subject`'s spend
+ * @param {string} subject "user:<id>" or "ip:<address>"
+ */
+function spendRecorder(subject) {
+  return (usage) => {
+    recordSpend(subject, costOf(usage)).catch((error) => {
+      console.error("[AIBudget] Could not record spend:", error.message);
+    });
+  };
+}
+
+/**
+ * Middleware refusing AI requests over the caller's daily budget and
+ * recording what the others spend. Goes after auth, so signed-in callers
+ * are counted by user.
+ */
+function aiBudget() {
+  return async (req, res, next) => {
+    const subject = req.userId ? `user:${req.userId}` : `ip:${req.ip}`;
+
+    try {
+      const budget = await dailyBudget(req.userId);
+      if (budget === null) return next();
+
+      const spent = await spentToday(subject);
+      if (spent >= budget) {
+        return sendError(res, 429, ERROR_CODES.AI_BUDGET_EXCEEDED, "Daily AI allowance used up, it resets at midnight UTC", {
+          spentUsd: Number(spent.toFixed(4)),
+          budgetUsd: budget,
+          resetsAt: nextResetAt(today()),
+        });
+      }
+    } catch (error) {
+      // Failing open: a budget lookup error should not take AI features down
+      console.error("[AIBudget] Budget check failed:", error.message);
+      return next();
+    }
+
+    withUsageListener(spendRecorder(subject), next);
+  };
+}
+
+module.exports = { MODEL_PRICES, costOf, dailyBudget, spentToday, recordSpend, spendRecorder, aiBudget };
@@ -0,0 +1,79 @@
+/**
+ * Integration test: pricing provider usage and the daily AI budget in
+ * front of the AI routes, against a throwaway database
+ * (testing/harness.js). Skipped without Postgres. Run with `npm test` in
+ * backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("./testing/harness");
+const { NO_DATABASE } = require("./testing/postgres");
+
+let server = null;
+let aiBudget = null;
+
+before(async () => {
+  server = await startTestServer();
+  // Loaded after the harness has pointed the pool at the test database
+  if (server) aiBudget = require("./aiBudget");
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("usage is priced per model, including dated model names", (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { costOf } = aiBudget;
+
+  assert.strictEqual(costOf({ model: "gpt-4o-mini", inputTokens: 1e6, outputTokens: 1e6 }), 0.75);
+  assert.strictEqual(costOf({ model: "gpt-4o-2024-08-06", inputTokens: 1e6 }), 2.5);
+  assert.strictEqual(costOf({ model: "dall-e-3", images: 2, size: "1024x1024" }), 0.08);
+  assert.strictEqual(costOf({ model: "dall-e-3", images: 1, size: "1792x1024" }), 0.08);
+  assert.strictEqual(costOf({ model: "whisper-1", audioSeconds: 120 }), 0.012);
+});
+
+test("AI calls add their cost to the caller's spend for the day", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+
+  const answered = await server.request("POST", "/api/ai/ask-ai", {
+    token: await server.tokenFor(alice),
+    body: { question: "How do I fix a dripping tap?" },
+  });
+  assert.strictEqual(answered.status, 200);
+
+  // Spend is recorded without holding up the answer
+  let spent = 0;
+  for (let i = 0; i < 20 && spent === 0; i++) {
+    await sleep(50);
+    spent = await aiBudget.spentToday(`user:${alice.id}`);
+  }
+  assert.ok(spent > 0, "no spend recorded");
+});
+
+test("callers over their daily budget are turned away until midnight UTC", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob } = server.fixtures.users;
+
+  // Alice is on the free plan, Bob pays
+  await aiBudget.recordSpend(`user:${alice.id}`, 0.5);
+  await aiBudget.recordSpend(`user:${bob.id}`, 0.5);
+
+  const ask = async (user) =>
+    server.request("POST", "/api/ai/ask-ai", {
+      token: await server.tokenFor(user),
+      body: { question: "How do I bleed a radiator?" },
+    });
+
+  const refused = await ask(alice);
+  assert.strictEqual(refused.status, 429);
+  assert.strictEqual(refused.body.code, "AI_BUDGET_EXCEEDED");
+  assert.strictEqual(refused.body.retryable, false);
+  assert.strictEqual(refused.body.details.budgetUsd, 0.5);
+  assert.strictEqual(new Date(refused.body.details.resetsAt).getUTCHours(), 0);
+  assert.ok(new Date(refused.body.details.resetsAt) > new Date());
+
+  assert.strictEqual((await ask(bob)).status, 200);
+});
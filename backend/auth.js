@@ -1,19 +1,39 @@
+const crypto = require("crypto");
 const jwt = require("jsonwebtoken");
+const { ERROR_CODES, sendError } = require("./errors");
 
 const JWT_SECRET =
   process.env.SESSION_SECRET ||
   process.env.JWT_SECRET ||
   "quickfix-dev-secret";
 
+// Access tokens are short-lived; the app renews them with its refresh token
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+
 /* ===========================
    TOKEN HELPERS
 =========================== */
-function generateToken(userId) {
-  if (!userId) {
-    throw new Error("generateToken requires userId");
+/**
+ * Signed access token for one signed-in device. `sid` names the
+ * auth_sessions row it was issued for.
+ */
+function generateAccessToken(userId, sessionId) {
+  if (!userId || !sessionId) {
+    throw new Error("generateAccessToken requires userId and sessionId");
   }
 
-  return jwt.sign({ userId }, JWT_SECRET, { expiresIn: "30d" });
+  return jwt.sign({ userId, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+/**
+ * Opaque refresh token; only its hash is stored
+ */
+function generateRefreshToken() {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+function hashToken(token) {
+  return crypto.createHash("sha256").update(token).digest("hex");
 }
 
 function verifyToken(token) {
@@ -24,6 +44,32 @@ function verifyToken(token) {
   }
 }
 
+/**
+ * Check an access token
+ * @returns {{ userId: string, sessionId: string } | { code: string, message: string }}
+ */
+function checkAccessToken(token) {
+  let decoded;
+  try {
+    decoded = jwt.verify(token, JWT_SECRET);
+  } catch (error) {
+    // Expired tokens can be told apart so the app refreshes instead of failing quietly
+    return error.name === "TokenExpiredError"
+      ? { code: ERROR_CODES.AUTH_EXPIRED, message: "Access token expired" }
+      : { code: ERROR_CODES.AUTH_INVALID, message: "Invalid token" };
+  }
+
+  if (!decoded || !decoded.userId) {
+    return { code: ERROR_CODES.AUTH_INVALID, message: "Invalid token" };
+  }
+  // Long-lived tokens from before refresh sessions existed; sign in again to get a session
+  if (!decoded.sid) {
+    return { code: ERROR_CODES.AUTH_EXPIRED, message: "Session expired, please sign in again" };
+  }
+
+  return { userId: decoded.userId, sessionId: decoded.sid };
+}
+
 /* ===========================
    AUTH REQUIRED
 =========================== */
@@ -31,17 +77,16 @@ function authMiddleware(req, res, next) {
   const header = req.headers.authorization;
 
   if (!header || !header.startsWith("Bearer ")) {
-    return res.status(401).json({ error: "Authentication required" });
+    return sendError(res, 401, ERROR_CODES.AUTH_REQUIRED, "Authentication required");
   }
 
-  const token = header.split(" ")[1];
-  const decoded = verifyToken(token);
-
-  if (!decoded || !decoded.userId) {
-    return res.status(401).json({ error: "Invalid or expired token" });
+  const checked = checkAccessToken(header.split(" ")[1]);
+  if (checked.code) {
+    return sendError(res, 401, checked.code, checked.message);
   }
 
-  req.userId = decoded.userId;
+  req.userId = checked.userId;
+  req.sessionId = checked.sessionId;
   next();
 }
 
@@ -52,11 +97,11 @@ function optionalAuth(req, res, next) {
   const header = req.headers.authorization;
 
   if (header && header.startsWith("Bearer ")) {
-    const token = header.split(" ")[1];
-    const decoded = verifyToken(token);
+    const checked = checkAccessToken(header.split(" ")[1]);
 
-    if (decoded && decoded.userId) {
-      req.userId = decoded.userId;
+    if (!checked.code) {
+      req.userId = checked.userId;
+      req.sessionId = checked.sessionId;
     }
   }
 
@@ -64,8 +109,12 @@ function optionalAuth(req, res, next) {
 }
 
 module.exports = {
-  generateToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+  generateAccessToken,
+  generateRefreshToken,
+  hashToken,
   verifyToken,
+  checkAccessToken,
   authMiddleware,
   optionalAuth,
 };
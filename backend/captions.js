@@ -0,0 +1,246 @@
+/**
+ * Video caption tracks
+ *
+ * Each video has at most one track per language. A track's source is
+ * 'upload' (creator WebVTT), 'auto' (transcribed by the AI provider) or
+ * 'translation' (machine-translated from an original track the first time a
+ * signed-in viewer asks for that language).
+ * Original tracks feed videos.search_text so spoken content is searchable.
+ */
+const { pool } = require("./db");
+const { getAIProvider } = require("./providers");
+const { parseStructuredReply } = require("./structuredOutput");
+const { getStorage } = require("./storage");
+const { createJobQueue } = require("./jobQueue");
+const { cuesToTranscript } = require("./webvtt");
+const { withUsageListener } = require("./providers/usage");
+const { spendRecorder } = require("./aiBudget");
+
+// The app languages in utils/i18n.ts
+const CAPTION_LANGUAGES = ["en", "sv", "ar", "de", "fr", "es"];
+
+const LANGUAGE_NAMES = {
+  en: "English",
+  sv: "Swedish",
+  ar: "Arabic",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+};
+
+/**
+ * Rebuild the search document of a video from its metadata and original
+ * caption transcripts. Title weighs most, spoken content least.
+ * @param {string} videoId
+ * @param {import("pg").Pool | import("pg").PoolClient} [client] to run inside a transaction
+ */
+async function refreshVideoSearchText(videoId, client = pool) {
+  await client.query(
+    `UPDATE videos v SET search_text =
+       setweight(to_tsvector('simple', coalesce(v.title, '')), 'A') ||
+       setweight(to_tsvector('simple', coalesce(v.description, '') || ' ' || array_to_string(v.tags, ' ')), 'B') ||
+       setweight(to_tsvector('simple', coalesce((
+         SELECT string_agg(c.transcript, ' ') FROM video_captions c
+         WHERE c.video_id = v.id AND c.source <> 'translation'
+       ), '')), 'C')
+     WHERE v.id = $1`,
+    [videoId]
+  );
+}
+
+/**
+ * Store a track, replacing any track in the same language. Saving an
+ * original track drops translations made from the previous one.
+ */
+async function saveCaptionTrack(videoId, language, source, cues) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    if (source !== "translation") {
+      await client.query(
+        `DELETE FROM video_captions WHERE video_id = $1 AND source = 'translation'`,
+        [videoId]
+      );
+    }
+    await client.query(
+      `INSERT INTO video_captions (video_id, language, source, cues, transcript)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (video_id, language)
+       DO UPDATE SET source = $3, cues = $4, transcript = $5, updated_at = NOW()`,
+      [videoId, language, source, JSON.stringify(cues), cuesToTranscript(cues)]
+    );
+    if (source !== "translation") {
+      await client.query(
+        `UPDATE videos SET captions_status = 'ready' WHERE id = $1`,
+        [videoId]
+      );
+      await refreshVideoSearchText(videoId, client);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+function validateTranslatedLines(expectedCount) {
+  return (parsed) => {
+    const lines = parsed && Array.isArray(parsed.lines) ? parsed.lines : null;
+    if (!lines) {
+      return { value: null, issues: [{ path: "lines", message: "expected an array of strings" }] };
+    }
+    if (lines.length !== expectedCount) {
+      return {
+        value: null,
+        issues: [{ path: "lines", message: `expected ${expectedCount} lines, got ${lines.length}` }],
+      };
+    }
+    if (lines.some((line) => typeof line !== "string" || !line.trim())) {
+      return { value: null, issues: [{ path: "lines", message: "every line must be non-empty text" }] };
+    }
+    return { value: { lines: lines.map((line) => line.trim()) }, issues: [] };
+  };
+}
+
+/**
+ * Translate cue text, keeping timings
+ * @returns {Promise<object[] | null>} null when the model reply was unusable
+ */
+async function translateCues(ai, cues, language) {
+  const request = {
+    task: "captions.translate",
+    messages: [
+      {
+        role: "system",
+        content: `You translate video captions for a home-repair app into ${LANGUAGE_NAMES[language]}. The user sends JSON {"language", "lines"}. Translate every line on its own, keeping tool and part names accurate. Reply with ONLY a JSON object {"lines": [...]} containing exactly as many lines, in the same order.`,
+      },
+      {
+        role: "user",
+        content: JSON.stringify({ language, lines: cues.map((cue) => cue.text) }),
+      },
+    ],
+    temperature: 0.2,
+  };
+
+  const raw = (await ai.chat(request)).trim();
+  const { value } = await parseStructuredReply(ai, request, raw, validateTranslatedLines(cues.length));
+  if (!value) return null;
+  return cues.map((cue, index) => ({ ...cue, text: value.lines[index] }));
+}
+
+/**
+ * Stored track in the requested language
+ * @returns {Promise<{ language: string, source: string, cues: object[] } | null>}
+ */
+async function findCaptionTrack(videoId, language) {
+  const result = await pool.query(
+    `SELECT language, source, cues FROM video_captions WHERE video_id = $1 AND language = $2`,
+    [videoId, language]
+  );
+  return result.rows[0] || null;
+}
+
+// "<videoId>:<language>" -> translation in progress, so viewers asking at once share one model call
+const translations = new Map();
+
+/**
+ * Translate the video's original track into `language` and store it
+ * @returns {Promise<{ language: string, source: string, cues: object[] } | null>}
+ *   null without an original track, without AI or when the reply was unusable
+ */
+function translateCaptionTrack(videoId, language) {
+  const key = `${videoId}:${language}`;
+  if (!translations.has(key)) {
+    const translation = translateOriginal(videoId, language).finally(() => translations.delete(key));
+    translations.set(key, translation);
+  }
+  return translations.get(key);
+}
+
+async function translateOriginal(videoId, language) {
+  // A translation that finished since the caller looked is already stored
+  const stored = await findCaptionTrack(videoId, language);
+  if (stored) return stored;
+
+  const original = await pool.query(
+    `SELECT language, cues FROM video_captions
+     WHERE video_id = $1 AND source <> 'translation'
+     ORDER BY CASE source WHEN 'upload' THEN 0 ELSE 1 END, created_at
+     LIMIT 1`,
+    [videoId]
+  );
+  const ai = getAIProvider();
+  if (!original.rows[0] || !ai) return null;
+
+  const cues = await translateCues(ai, original.rows[0].cues, language);
+  if (!cues) return null;
+
+  await saveCaptionTrack(videoId, language, "translation", cues);
+  return { language, source: "translation", cues };
+}
+
+async function transcribeVideo({ videoId }) {
+  const result = await pool.query(
+    `SELECT v.id, v.author_id, u.storage_key FROM videos v
+     LEFT JOIN video_uploads u ON u.video_url = v.video_url
+     WHERE v.id = $1 AND v.captions_status = 'pending'`,
+    [videoId]
+  );
+  const video = result.rows[0];
+  if (!video) return;
+
+  const ai = getAIProvider();
+  if (!ai || !video.storage_key) {
+    await pool.query(`UPDATE videos SET captions_status = 'none' WHERE id = $1`, [videoId]);
+    return;
+  }
+
+  try {
+    // Charged to the author, who asked for the captions
+    const transcription = await withUsageListener(spendRecorder(`user:${video.author_id}`), () =>
+      ai.transcribe({ filePath: getStorage().resolveLocalPath(video.storage_key) })
+    );
+    const cues = transcription.segments.filter((segment) => segment.text && segment.end > segment.start);
+    if (cues.length === 0) {
+      // Nothing spoken; leave the video without captions
+      await pool.query(`UPDATE videos SET captions_status = 'none' WHERE id = $1`, [videoId]);
+      return;
+    }
+    const language = CAPTION_LANGUAGES.includes(transcription.language) ? transcription.language : "en";
+    await saveCaptionTrack(videoId, language, "auto", cues);
+    console.log(`[Captions] Transcribed video ${videoId} (${language}, ${cues.length} cues)`);
+  } catch (error) {
+    console.log(`[Captions] Transcription failed for video ${videoId}:`, error.message);
+    await pool.query(`UPDATE videos SET captions_status = 'failed' WHERE id = $1`, [videoId]);
+  }
+}
+
+const queue = createJobQueue("Captions", transcribeVideo);
+
+/**
+ * Transcribe an uploaded video in the background
+ */
+async function queueTranscription(videoId) {
+  await pool.query(`UPDATE videos SET captions_status = 'pending' WHERE id = $1`, [videoId]);
+  queue.push({ videoId });
+}
+
+/**
+ * Re-queue transcriptions that were pending when the server stopped
+ */
+async function resumeTranscriptionJobs() {
+  const result = await pool.query(`SELECT id FROM videos WHERE captions_status = 'pending'`);
+  result.rows.forEach((row) => queue.push({ videoId: row.id }));
+}
+
+module.exports = {
+  CAPTION_LANGUAGES,
+  refreshVideoSearchText,
+  saveCaptionTrack,
+  findCaptionTrack,
+  translateCaptionTrack,
+  queueTranscription,
+  resumeTranscriptionJobs,
+};
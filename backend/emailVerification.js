@@ -0,0 +1,208 @@
+/**
+ * Email verification and email changes
+ *
+ * New accounts get a link to confirm their address. Until it is opened,
+ * routes behind requireVerifiedEmail answer 403 EMAIL_NOT_VERIFIED;
+ * REQUIRE_EMAIL_VERIFICATION=false turns that gate off.
+ *
+ * Changing the address parks it in users.pending_email and sends a link to
+ * the new address and, when the current one is verified, another to the
+ * current address. The change applies once every link of it was opened.
+ * Links carry a random token stored hashed in email_tokens and work once.
+ */
+const crypto = require("crypto");
+
+const { pool } = require("./db");
+const { hashToken } = require("./auth");
+const { ERROR_CODES, sendError } = require("./errors");
+const { getMailer } = require("./mailer");
+const { verifyEmailEmail, confirmEmailChangeEmail } = require("./mailer/templates");
+
+const EMAIL_TOKEN_TTL_HOURS = 24;
+// Opened by the app's deep link handler, for every kind of email link
+const EMAIL_VERIFY_URL = process.env.EMAIL_VERIFY_URL || "quickfix://verify-email";
+
+const verificationRequired = process.env.REQUIRE_EMAIL_VERIFICATION !== "false";
+
+async function issueToken(db, userId, purpose, email) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  await db.query(
+    `INSERT INTO email_tokens (user_id, purpose, email, token_hash, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + make_interval(hours => $5))`,
+    [userId, purpose, email, hashToken(token), EMAIL_TOKEN_TTL_HOURS]
+  );
+  return `${EMAIL_VERIFY_URL}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * Mail a link confirming the user's current address
+ * @param {{ id: string, email: string, display_name: string }} user
+ */
+async function sendVerificationEmail(user) {
+  const verifyUrl = await issueToken(pool, user.id, "verify", user.email);
+  await getMailer().send({
+    to: user.email,
+    ...verifyEmailEmail({ displayName: user.display_name, verifyUrl, expiresInHours: EMAIL_TOKEN_TTL_HOURS }),
+  });
+}
+
+/**
+ * Park `newEmail` as the pending address and mail its links. An earlier
+ * pending change is replaced.
+ * @param {{ id: string, email: string, display_name: string, email_verified_at: Date | null }} user
+ */
+async function startEmailChange(user, newEmail) {
+  const client = await pool.connect();
+  let confirmUrl = null;
+  let verifyUrl;
+  try {
+    await client.query("BEGIN");
+    await client.query("UPDATE users SET pending_email = $1, updated_at = NOW() WHERE id = $2", [
+      newEmail,
+      user.id,
+    ]);
+    await client.query(
+      "DELETE FROM email_tokens WHERE user_id = $1 AND purpose IN ('change_old', 'change_new') AND used_at IS NULL",
+      [user.id]
+    );
+    // An unverified current address may be a typo, so only the new one has to answer
+    if (user.email_verified_at) {
+      confirmUrl = await issueToken(client, user.id, "change_old", newEmail);
+    }
+    verifyUrl = await issueToken(client, user.id, "change_new", newEmail);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  const mailer = getMailer();
+  await mailer.send({
+    to: newEmail,
+    ...verifyEmailEmail({ displayName: user.display_name, verifyUrl, expiresInHours: EMAIL_TOKEN_TTL_HOURS }),
+  });
+  if (confirmUrl) {
+    await mailer.send({
+      to: user.email,
+      ...confirmEmailChangeEmail({
+        displayName: user.display_name,
+        newEmail,
+        confirmUrl,
+        expiresInHours: EMAIL_TOKEN_TTL_HOURS,
+      }),
+    });
+  }
+}
+
+/**
+ * Drop a pending email change and its unopened links
+ */
+async function cancelEmailChange(userId) {
+  await pool.query("UPDATE users SET pending_email = NULL, updated_at = NOW() WHERE id = $1", [userId]);
+  await pool.query(
+    "DELETE FROM email_tokens WHERE user_id = $1 AND purpose IN ('change_old', 'change_new') AND used_at IS NULL",
+    [userId]
+  );
+}
+
+/**
+ * Use an email link's token
+ * @returns {Promise<{ status: "verified" | "pending" | "changed", user: object } | { code: import("../shared/types").ErrorCode, message: string }>}
+ *   `pending` means an email change still waits for its other link
+ */
+async function confirmEmailToken(token) {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const claimed = await client.query(
+      `UPDATE email_tokens SET used_at = NOW()
+       WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+       RETURNING user_id, purpose, email`,
+      [hashToken(token)]
+    );
+    const link = claimed.rows[0];
+    const userResult = link
+      ? await client.query("SELECT * FROM users WHERE id = $1 FOR UPDATE", [link.user_id])
+      : { rows: [] };
+    const user = userResult.rows[0];
+
+    // A verify link for an address the account has since left, or a link
+    // of a change that was replaced or canceled
+    const current = link && user && (link.purpose === "verify" ? user.email : user.pending_email) === link.email;
+    if (!current) {
+      await client.query("ROLLBACK");
+      return { code: ERROR_CODES.TOKEN_INVALID, message: "This link is invalid or has expired" };
+    }
+
+    if (link.purpose === "verify") {
+      const verified = await client.query(
+        `UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()), updated_at = NOW()
+         WHERE id = $1 RETURNING *`,
+        [user.id]
+      );
+      await client.query("COMMIT");
+      return { status: "verified", user: verified.rows[0] };
+    }
+
+    const waiting = await client.query(
+      `SELECT 1 FROM email_tokens
+       WHERE user_id = $1 AND purpose IN ('change_old', 'change_new') AND email = $2 AND used_at IS NULL`,
+      [user.id, link.email]
+    );
+    if (waiting.rows.length > 0) {
+      await client.query("COMMIT");
+      return { status: "pending", user };
+    }
+
+    const taken = await client.query("SELECT 1 FROM users WHERE email = $1 AND id <> $2", [link.email, user.id]);
+    if (taken.rows.length > 0) {
+      await client.query("UPDATE users SET pending_email = NULL WHERE id = $1", [user.id]);
+      await client.query("COMMIT");
+      return { code: ERROR_CODES.CONFLICT, message: "That email is already in use by another account" };
+    }
+
+    const changed = await client.query(
+      `UPDATE users
+       SET email = pending_email, pending_email = NULL, email_verified_at = NOW(), updated_at = NOW()
+       WHERE id = $1 RETURNING *`,
+      [user.id]
+    );
+    // Verify links for the old address stop working
+    await client.query("UPDATE email_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL", [user.id]);
+    await client.query("COMMIT");
+    return { status: "changed", user: changed.rows[0] };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Middleware for routes that publish content; mount after authMiddleware
+ */
+async function requireVerifiedEmail(req, res, next) {
+  if (!verificationRequired) return next();
+  try {
+    const result = await pool.query("SELECT email_verified_at FROM users WHERE id = $1", [req.userId]);
+    if (result.rows.length > 0 && !result.rows[0].email_verified_at) {
+      return sendError(res, 403, ERROR_CODES.EMAIL_NOT_VERIFIED, "Confirm your email address first");
+    }
+    next();
+  } catch (error) {
+    console.error("Email verification check error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+}
+
+module.exports = {
+  sendVerificationEmail,
+  startEmailChange,
+  cancelEmailChange,
+  confirmEmailToken,
+  requireVerifiedEmail,
+};
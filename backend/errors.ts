@@ -0,0 +1,113 @@
+/**
+ * Error envelope for API responses
+ *
+ * Every 4xx/5xx JSON body has the shape
+ *   { error, code, message, details?, retryable }
+ * `code` is one of ERROR_CODES and is what clients branch on; `message` is
+ * for people. `error` repeats the message for clients that predate codes.
+ *
+ * Routes with a specific failure call sendError. Older handlers that still
+ * answer res.status(4xx).json({ error }) get a code from their status via
+ * errorEnvelope, so no response leaves the server without one. The shapes
+ * are ErrorCode and ErrorBody in shared/types.
+ */
+import type { NextFunction, Request, Response } from "express";
+
+import type { ErrorBody, ErrorCode } from "../shared/types";
+
+export const ERROR_CODES = {
+  VALIDATION_FAILED: "VALIDATION_FAILED",
+  AUTH_REQUIRED: "AUTH_REQUIRED",
+  AUTH_INVALID: "AUTH_INVALID",
+  AUTH_EXPIRED: "AUTH_EXPIRED",
+  FORBIDDEN: "FORBIDDEN",
+  NOT_FOUND: "NOT_FOUND",
+  CONFLICT: "CONFLICT",
+  ACCOUNT_LINK_REQUIRED: "ACCOUNT_LINK_REQUIRED",
+  TOKEN_INVALID: "TOKEN_INVALID",
+  EMAIL_NOT_VERIFIED: "EMAIL_NOT_VERIFIED",
+  USER_BLOCKED: "USER_BLOCKED",
+  IMAGE_DAY_LIMIT: "IMAGE_DAY_LIMIT",
+  RATE_LIMITED: "RATE_LIMITED",
+  AI_BUDGET_EXCEEDED: "AI_BUDGET_EXCEEDED",
+  AI_UNAVAILABLE: "AI_UNAVAILABLE",
+  AI_FAILED: "AI_FAILED",
+  SERVICE_UNAVAILABLE: "SERVICE_UNAVAILABLE",
+  SERVER_ERROR: "SERVER_ERROR",
+} as const satisfies { [Code in ErrorCode]: Code };
+
+// Failures that may succeed if the same request is sent again later
+const RETRYABLE_CODES = new Set<ErrorCode>([
+  ERROR_CODES.RATE_LIMITED,
+  ERROR_CODES.AI_UNAVAILABLE,
+  ERROR_CODES.AI_FAILED,
+  ERROR_CODES.SERVICE_UNAVAILABLE,
+  ERROR_CODES.SERVER_ERROR,
+]);
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  400: ERROR_CODES.VALIDATION_FAILED,
+  401: ERROR_CODES.AUTH_REQUIRED,
+  403: ERROR_CODES.FORBIDDEN,
+  404: ERROR_CODES.NOT_FOUND,
+  409: ERROR_CODES.CONFLICT,
+  413: ERROR_CODES.VALIDATION_FAILED,
+  429: ERROR_CODES.RATE_LIMITED,
+  503: ERROR_CODES.SERVICE_UNAVAILABLE,
+};
+
+/**
+ * The envelope itself, also sent as the data of an SSE `error` event
+ */
+export function errorBody(code: ErrorCode, message: string, details?: Record<string, any>): ErrorBody {
+  return {
+    error: message,
+    code,
+    message,
+    ...(details !== undefined && { details }),
+    retryable: RETRYABLE_CODES.has(code),
+  };
+}
+
+/**
+ * Answer with the error envelope
+ * @param details machine-readable context, e.g. { imagesUsed, limit }
+ */
+export function sendError(
+  res: Response,
+  status: number,
+  code: ErrorCode,
+  message: string,
+  details?: Record<string, any>
+): Response {
+  return res.status(status).json(errorBody(code, message, details));
+}
+
+/**
+ * Middleware giving plain { error } answers the envelope, with a code
+ * taken from the HTTP status
+ */
+export function errorEnvelope() {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const json = res.json.bind(res);
+    res.json = (body?: any) => {
+      const isBareError =
+        res.statusCode >= 400 &&
+        body &&
+        typeof body.error === "string" &&
+        body.retryable === undefined;
+      if (!isBareError) return json(body);
+
+      const { error, code, message, details, ...rest } = body;
+      const status = res.statusCode;
+      return json(
+        errorBody(
+          code || STATUS_CODES[status] || (status >= 500 ? ERROR_CODES.SERVER_ERROR : ERROR_CODES.VALIDATION_FAILED),
+          message || error,
+          details !== undefined ? details : Object.keys(rest).length > 0 ? rest : undefined
+        )
+      );
+    };
+    next();
+  };
+}
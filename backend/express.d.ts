@@ -0,0 +1,15 @@
+/**
+ * What the middleware in auth.js adds to a request
+ */
+export {};
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Signed-in user; always set behind authMiddleware, optional behind optionalAuth */
+      userId?: string;
+      /** Session the access token belongs to */
+      sessionId?: string;
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Idempotency keys for mutating requests
+ *
+ * The app's offline outbox sends every queued POST/PUT/PATCH/DELETE with an
+ * Idempotency-Key header and may send it again when it is unsure whether
+ * the first attempt arrived. The first answer under a key is stored and
+ * later requests with that key get the same answer without running the
+ * route again. Keys are scoped to the signed-in user and kept for a day.
+ *
+ * Answers of 500 and above are not stored, so a failed request can be
+ * retried with the same key. Streamed answers (streaming.js) are stored as
+ * their final `done` payload, which is what the blocking route answers.
+ */
+const { pool } = require("./db");
+const { verifyToken } = require("./auth");
+const { ERROR_CODES, sendError } = require("./errors");
+
+const MUTATING_METHODS = new Set(["POST", "PUT", "PATCH", "DELETE"]);
+const MAX_KEY_LENGTH = 100;
+const KEY_TTL_HOURS = 24;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+let lastPrunedAt = 0;
+
+function requestScope(req) {
+  const header = req.headers.authorization;
+  if (header && header.startsWith("Bearer ")) {
+    const decoded = verifyToken(header.split(" ")[1]);
+    if (decoded && decoded.userId) return decoded.userId;
+  }
+  return "anonymous";
+}
+
+function pruneExpiredKeys() {
+  if (Date.now() - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = Date.now();
+  pool
+    .query(`DELETE FROM idempotency_keys WHERE created_at < NOW() - make_interval(hours => $1)`, [KEY_TTL_HOURS])
+    .catch((error) => console.error("Idempotency prune error:", error));
+}
+
+/**
+ * Middleware; mount before errorEnvelope so stored answers are the
+ * enveloped ones
+ */
+function idempotency() {
+  return async (req, res, next) => {
+    const key = req.headers["idempotency-key"];
+    if (!key || !MUTATING_METHODS.has(req.method)) return next();
+    if (typeof key !== "string" || key.length > MAX_KEY_LENGTH) {
+      return sendError(res, 400, ERROR_CODES.VALIDATION_FAILED, "Idempotency-Key must be at most 100 characters");
+    }
+
+    const scope = requestScope(req);
+    const path = req.originalUrl.split("?")[0];
+
+    try {
+      pruneExpiredKeys();
+      const claimed = await pool.query(
+        `INSERT INTO idempotency_keys (scope, key, method, path)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (scope, key) DO NOTHING
+         RETURNING key`,
+        [scope, key, req.method, path]
+      );
+
+      if (claimed.rows.length === 0) {
+        const stored = await pool.query(
+          `SELECT method, path, status_code, response FROM idempotency_keys WHERE scope = $1 AND key = $2`,
+          [scope, key]
+        );
+        const previous = stored.rows[0];
+        if (!previous) {
+          // Pruned between the two queries; run the request as new
+          return next();
+        }
+        if (previous.method !== req.method || previous.path !== path) {
+          return sendError(res, 400, ERROR_CODES.VALIDATION_FAILED, "Idempotency-Key was already used for another request");
+        }
+        if (previous.status_code === null) {
+          return sendError(res, 409, ERROR_CODES.CONFLICT, "A request with this Idempotency-Key is still in progress");
+        }
+        res.set("Idempotent-Replayed", "true");
+        return res.status(previous.status_code).json(previous.response);
+      }
+    } catch (error) {
+      console.error("Idempotency lookup error:", error);
+      return sendError(res, 500, ERROR_CODES.SERVER_ERROR, "Server error");
+    }
+
+    const forget = () =>
+      pool
+        .query(`DELETE FROM idempotency_keys WHERE scope = $1 AND key = $2`, [scope, key])
+        .catch((error) => console.error("Idempotency store error:", error));
+
+    let answered = false;
+    const remember = (status, body) => {
+      answered = true;
+      if (status >= 500) {
+        forget();
+        return;
+      }
+      // An upsert, so an answer given after the client hung up is still kept
+      pool
+        .query(
+          `INSERT INTO idempotency_keys (scope, key, method, path, status_code, response)
+           VALUES ($1, $2, $3, $4, $5, $6)
+           ON CONFLICT (scope, key) DO UPDATE SET status_code = $5, response = $6`,
+          [scope, key, req.method, path, status, JSON.stringify(body)]
+        )
+        .catch((error) => console.error("Idempotency store error:", error));
+    };
+
+    const json = res.json.bind(res);
+    res.json = (body) => {
+      remember(res.statusCode, body);
+      return json(body);
+    };
+    // An event stream keeps running after its client hangs up, so it
+    // reports its outcome itself (streaming.js)
+    res.locals.idempotency = {
+      remember: (body) => remember(200, body),
+      forget: () => {
+        answered = true;
+        forget();
+      },
+    };
+
+    // Answered without JSON, or not yet answered when the connection closed
+    res.on("close", () => {
+      const streaming = String(res.getHeader("Content-Type") || "").includes("text/event-stream");
+      if (!answered && !streaming) forget();
+    });
+
+    next();
+  };
+}
+
+module.exports = { idempotency };
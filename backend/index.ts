@@ -0,0 +1,175 @@
+/**
+ * QuickFix Backend Server (Railway-safe)
+ */
+
+import express from "express";
+import type { NextFunction, Request, Response } from "express";
+import path from "path";
+import http from "http";
+
+import { pool } from "./db";
+import { assertMigrated } from "./migrations";
+import { wsManager } from "./websocket";
+import { resumeThumbnailJobs } from "./thumbnails";
+import { scheduleUploadExpiry } from "./staleUploads";
+import { resumeTranscriptionJobs } from "./captions";
+import { ERROR_CODES, sendError, errorEnvelope } from "./errors";
+import { idempotency } from "./idempotency";
+import { rateLimitGroup } from "./rateLimit";
+import { apiDocs, openApiValidator } from "./openapi";
+import { WebhookHandlers } from "./webhookHandlers";
+
+/* ---------- ROUTES ---------- */
+import authRoutes from "./routes/auth";
+import videoRoutes from "./routes/videos";
+import userRoutes from "./routes/users";
+import toolboxRoutes from "./routes/toolbox";
+import notificationRoutes from "./routes/notifications";
+import aiRoutes from "./routes/ai";
+import communityRoutes from "./routes/community";
+import reportsRoutes from "./routes/reports";
+import uploadRoutes from "./routes/uploads";
+import captionRoutes from "./routes/captions";
+import { router as blockRoutes } from "./block";
+import subscriptionRoutes from "./routes/subscriptions";
+
+/* ---------- PORT ---------- */
+const PORT = Number(process.env.PORT) || 8080;
+
+const app = express();
+
+// Behind Railway's proxy; req.ip is the client address, which rate limits key on
+app.set("trust proxy", 1);
+
+/* ---------- STRIPE WEBHOOK ---------- */
+// Before the body parsers: the signature is checked against the raw body
+app.post("/api/stripe/webhook/:uuid", express.raw({ type: "application/json" }), async (req, res) => {
+  const signature = req.headers["stripe-signature"];
+  if (!signature) {
+    return sendError(res, 400, ERROR_CODES.VALIDATION_FAILED, "Missing stripe-signature header");
+  }
+  try {
+    await WebhookHandlers.processWebhook(req.body, signature, req.params.uuid);
+    res.json({ received: true });
+  } catch (err: any) {
+    console.error("❌ Stripe webhook error:", err.message);
+    sendError(res, 400, ERROR_CODES.VALIDATION_FAILED, "Webhook could not be processed");
+  }
+});
+
+/* ---------- BODY PARSERS ---------- */
+app.use(express.json({ limit: "50mb" }));
+app.use(express.urlencoded({ extended: true, limit: "50mb" }));
+
+/* ---------- LOGGING ---------- */
+app.use((req, res, next) => {
+  console.log("[REQ]", req.method, req.url);
+  next();
+});
+
+/* ---------- CORS ---------- */
+app.use((req, res, next) => {
+  res.header("Access-Control-Allow-Origin", req.headers.origin || "*");
+  res.header("Access-Control-Allow-Credentials", "true");
+  res.header(
+    "Access-Control-Allow-Methods",
+    "GET, POST, PUT, DELETE, PATCH, OPTIONS"
+  );
+  res.header("Access-Control-Allow-Headers", "Content-Type, Authorization, Idempotency-Key");
+
+  if (req.method === "OPTIONS") return res.sendStatus(204);
+  next();
+});
+
+/* ---------- STATIC FILES ---------- */
+app.use("/uploads", express.static(path.join(__dirname, "uploads")));
+
+/* ---------- HEALTH CHECK ---------- */
+app.get("/api/health", (req, res) => {
+  res.json({ status: "ok", time: new Date().toISOString() });
+});
+
+/* ---------- RATE LIMITS ---------- */
+// Per user or IP, see rateLimit.js. The ai group and the daily spend budget
+// (aiBudget.js) sit on the handlers that call the model.
+app.use("/api", rateLimitGroup("api"));
+app.use("/api/auth", rateLimitGroup("auth"));
+app.use("/api/uploads", rateLimitGroup("uploads"));
+
+/* ---------- API DOCUMENT ---------- */
+// /api/openapi.json and the browsable /api/docs
+app.use("/api", apiDocs());
+
+/* ---------- IDEMPOTENCY KEYS ---------- */
+app.use("/api", idempotency());
+
+/* ---------- REQUEST AND RESPONSE VALIDATION ---------- */
+app.use("/api", openApiValidator());
+
+/* ---------- ERROR ENVELOPE ---------- */
+app.use(errorEnvelope());
+
+/* ---------- API ROUTES ---------- */
+app.use("/api/auth", authRoutes);
+app.use("/api/videos/:videoId/captions", captionRoutes);
+app.use("/api/videos", videoRoutes);
+app.use("/api/users", userRoutes);
+app.use("/api/toolbox", toolboxRoutes);
+app.use("/api/notifications", notificationRoutes);
+app.use("/api/ai", aiRoutes);
+app.use("/api/community", communityRoutes);
+app.use("/api/reports", reportsRoutes);
+app.use("/api/uploads", uploadRoutes);
+app.use("/api", blockRoutes);
+app.use("/api/subscriptions", subscriptionRoutes);
+
+/* ---------- ERROR HANDLER ---------- */
+app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+  // Rejected by the body parsers before any route ran
+  if (err.type === "entity.too.large") {
+    return sendError(res, 413, ERROR_CODES.VALIDATION_FAILED, "Request body is too large");
+  }
+  if (err.type === "entity.parse.failed") {
+    return sendError(res, 400, ERROR_CODES.VALIDATION_FAILED, "Request body is not valid JSON");
+  }
+
+  console.error("❌ Server error:", err);
+  sendError(res, 500, ERROR_CODES.SERVER_ERROR, "Internal server error");
+});
+
+/* ---------- START SERVER ---------- */
+async function start() {
+  // Serving against a schema the code does not expect corrupts data
+  try {
+    await assertMigrated(pool);
+    console.log("✅ Database schema up to date");
+  } catch (err: any) {
+    console.error("❌ Not starting:", err.message);
+    console.error("   Run `npm run migrate -- up` in backend/ first.");
+    process.exit(1);
+  }
+
+  resumeThumbnailJobs().catch((err) => {
+    console.error("⚠️ Thumbnail jobs not resumed:", err.message);
+  });
+  resumeTranscriptionJobs().catch((err) => {
+    console.error("⚠️ Transcription jobs not resumed:", err.message);
+  });
+  scheduleUploadExpiry();
+
+  const server = http.createServer(app);
+
+  // ✅ INIT WEBSOCKET (LiveAssist)
+  wsManager.initialize(server);
+
+  server.listen(PORT, "0.0.0.0", () => {
+    console.log(`🚀 Backend running on port ${PORT}`);
+  });
+}
+
+// Tests load the app without starting the server (see testing/harness.js)
+if (require.main === module) {
+  start();
+}
+
+export { app };
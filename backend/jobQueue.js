@@ -0,0 +1,38 @@
+/**
+ * In-process background job queue
+ * Jobs run one at a time in the order they were pushed. Good enough for the
+ * short media jobs of a single server; nothing survives a restart, so each
+ * job module re-queues its pending work on startup.
+ */
+
+/**
+ * @param {string} name used in log lines
+ * @param {(job: any) => Promise<void>} worker handles its own expected failures
+ */
+function createJobQueue(name, worker) {
+  const jobs = [];
+  let running = false;
+
+  async function drain() {
+    if (running) return;
+    running = true;
+    while (jobs.length > 0) {
+      const job = jobs.shift();
+      try {
+        await worker(job);
+      } catch (error) {
+        console.error(`[${name}] Job failed:`, error.message);
+      }
+    }
+    running = false;
+  }
+
+  return {
+    push(job) {
+      jobs.push(job);
+      drain();
+    },
+  };
+}
+
+module.exports = { createJobQueue };
@@ -0,0 +1,36 @@
+/**
+ * Mailer interface
+ * Account email (password reset, verification, email changes) goes through one
+ * transport selected by MAIL_TRANSPORT, so routes never talk to an email
+ * vendor directly.
+ */
+
+export type MailTransportName = "local" | "resend";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface Mailer {
+  name: MailTransportName;
+  /** Rejects when the message could not be handed over */
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface LocalMailerOptions {
+  /** Also write each message to this directory as JSON */
+  directory?: string;
+}
+
+export interface ResendMailerOptions {
+  apiKey: string;
+  from: string;
+}
+
+export function getMailer(): Mailer;
+export function createMailer(name: MailTransportName): Mailer;
+export function createLocalMailer(options?: LocalMailerOptions): Mailer;
+export function createResendMailer(options: ResendMailerOptions): Mailer;
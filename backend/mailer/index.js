@@ -0,0 +1,50 @@
+/**
+ * Mailer selection
+ *
+ * MAIL_TRANSPORT=resend  Resend HTTP API (requires RESEND_API_KEY and MAIL_FROM)
+ * MAIL_TRANSPORT=local   log to the console, and write to MAIL_DIR when set;
+ *                        for development and tests
+ *
+ * Without MAIL_TRANSPORT, Resend is used when RESEND_API_KEY is set and the
+ * local transport otherwise. Types live in index.d.ts.
+ */
+const { createLocalMailer } = require("./local");
+const { createResendMailer } = require("./resend");
+
+let cachedMailer;
+
+function createMailer(name) {
+  switch (name) {
+    case "resend":
+      if (!process.env.RESEND_API_KEY || !process.env.MAIL_FROM) {
+        throw new Error("MAIL_TRANSPORT=resend requires RESEND_API_KEY and MAIL_FROM");
+      }
+      return createResendMailer({ apiKey: process.env.RESEND_API_KEY, from: process.env.MAIL_FROM });
+    case "local":
+      return createLocalMailer({ directory: process.env.MAIL_DIR });
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+  }
+}
+
+/**
+ * @returns {import("./index").Mailer}
+ */
+function getMailer() {
+  if (cachedMailer) {
+    return cachedMailer;
+  }
+
+  const name = process.env.MAIL_TRANSPORT || (process.env.RESEND_API_KEY ? "resend" : "local");
+  cachedMailer = createMailer(name);
+
+  console.log(`[Mail] Transport: ${cachedMailer.name}`);
+  return cachedMailer;
+}
+
+module.exports = {
+  getMailer,
+  createMailer,
+  createLocalMailer,
+  createResendMailer,
+};
@@ -0,0 +1,24 @@
+const fs = require("fs/promises");
+const path = require("path");
+
+/**
+ * Development transport: nothing leaves the machine. Messages are logged,
+ * and with a directory each one is also written there as
+ * <timestamp>-<recipient>.json for tests and local tooling to read.
+ * @returns {import("./index").Mailer}
+ */
+function createLocalMailer({ directory } = {}) {
+  return {
+    name: "local",
+    async send(message) {
+      console.log(`[Mail] To: ${message.to}\n[Mail] Subject: ${message.subject}\n${message.text}`);
+      if (!directory) return;
+
+      await fs.mkdir(directory, { recursive: true });
+      const fileName = `${Date.now()}-${message.to.replace(/[^a-z0-9@._-]/gi, "_")}.json`;
+      await fs.writeFile(path.join(directory, fileName), JSON.stringify(message, null, 2));
+    },
+  };
+}
+
+module.exports = { createLocalMailer };
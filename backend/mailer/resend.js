@@ -0,0 +1,34 @@
+const RESEND_URL = "https://api.resend.com/emails";
+
+/**
+ * Resend (resend.com) over its HTTP API
+ * @returns {import("./index").Mailer}
+ */
+function createResendMailer({ apiKey, from }) {
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch(RESEND_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from,
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          ...(message.html && { html: message.html }),
+        }),
+      });
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => "");
+        throw new Error(`Resend rejected the message (${response.status}): ${detail}`);
+      }
+    },
+  };
+}
+
+module.exports = { createResendMailer };
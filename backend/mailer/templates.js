@@ -0,0 +1,63 @@
+/**
+ * Account emails. Plain text first; every message must read fine without
+ * HTML.
+ */
+
+/**
+ * @param {{ displayName: string, resetUrl: string, expiresInMinutes: number }} params
+ */
+function passwordResetEmail({ displayName, resetUrl, expiresInMinutes }) {
+  return {
+    subject: "Reset your QuickFix password",
+    text: [
+      `Hi ${displayName},`,
+      "",
+      "Someone asked to reset the password for your QuickFix account. Open this link on your phone to choose a new one:",
+      "",
+      resetUrl,
+      "",
+      `The link works once and expires in ${expiresInMinutes} minutes. If you did not ask for this, ignore this email; your password stays the same.`,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Sent to a new account's address and to the new address of an email
+ * change
+ * @param {{ displayName: string, verifyUrl: string, expiresInHours: number }} params
+ */
+function verifyEmailEmail({ displayName, verifyUrl, expiresInHours }) {
+  return {
+    subject: "Confirm your email for QuickFix",
+    text: [
+      `Hi ${displayName},`,
+      "",
+      "Open this link on your phone to confirm this email address for your QuickFix account:",
+      "",
+      verifyUrl,
+      "",
+      `The link works once and expires in ${expiresInHours} hours. If you did not sign up for QuickFix, ignore this email.`,
+    ].join("\n"),
+  };
+}
+
+/**
+ * Sent to the current address when the account asks to move to `newEmail`
+ * @param {{ displayName: string, newEmail: string, confirmUrl: string, expiresInHours: number }} params
+ */
+function confirmEmailChangeEmail({ displayName, newEmail, confirmUrl, expiresInHours }) {
+  return {
+    subject: "Confirm your new QuickFix email",
+    text: [
+      `Hi ${displayName},`,
+      "",
+      `Someone asked to change the email of your QuickFix account to ${newEmail}. Open this link on your phone to approve it:`,
+      "",
+      confirmUrl,
+      "",
+      `The change also needs the link sent to ${newEmail}. This link works once and expires in ${expiresInHours} hours. If you did not ask for this, ignore this email and change your password.`,
+    ].join("\n"),
+  };
+}
+
+module.exports = { passwordResetEmail, verifyEmailEmail, confirmEmailChangeEmail };
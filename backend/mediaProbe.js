@@ -0,0 +1,82 @@
+/**
+ * Minimal media probing for uploaded videos
+ * Reads the duration of MP4 / MOV (ISO base media) files from the `mvhd`
+ * box, so no ffprobe binary is needed on the server.
+ */
+const fs = require("fs");
+
+const HEADER_SIZE = 8;
+
+async function readAt(handle, position, length) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+/**
+ * Find a child box by type between `start` and `end`
+ * @returns {Promise<{ start: number, size: number, headerSize: number } | null>}
+ */
+async function findBox(handle, type, start, end) {
+  let offset = start;
+  while (offset + HEADER_SIZE <= end) {
+    const header = await readAt(handle, offset, 16);
+    if (header.length < HEADER_SIZE) return null;
+
+    let size = header.readUInt32BE(0);
+    let headerSize = HEADER_SIZE;
+    if (size === 1) {
+      // 64-bit box size
+      size = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (size === 0) {
+      // Box extends to the end of the file
+      size = end - offset;
+    }
+    if (size < headerSize) return null;
+
+    if (header.toString("latin1", 4, 8) === type) {
+      return { start: offset, size, headerSize };
+    }
+    offset += size;
+  }
+  return null;
+}
+
+/**
+ * Duration of an MP4 / MOV file in seconds, or null if it cannot be read
+ */
+async function probeVideoDuration(filePath) {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const { size: fileSize } = await handle.stat();
+
+    const moov = await findBox(handle, "moov", 0, fileSize);
+    if (!moov) return null;
+
+    const mvhd = await findBox(handle, "mvhd", moov.start + moov.headerSize, moov.start + moov.size);
+    if (!mvhd) return null;
+
+    const body = await readAt(handle, mvhd.start + mvhd.headerSize, 32);
+    const version = body[0];
+    let timescale;
+    let duration;
+    if (version === 1) {
+      timescale = body.readUInt32BE(20);
+      duration = Number(body.readBigUInt64BE(24));
+    } else {
+      timescale = body.readUInt32BE(12);
+      duration = body.readUInt32BE(16);
+    }
+
+    if (!timescale) return null;
+    return duration / timescale;
+  } catch (error) {
+    console.log("[MediaProbe] Could not read video duration:", error.message);
+    return null;
+  } finally {
+    await handle.close();
+  }
+}
+
+module.exports = { probeVideoDuration };
@@ -0,0 +1,71 @@
+/**
+ * Database migrations CLI
+ *
+ *   npm run migrate -- up [--to <version>]                 apply pending migrations
+ *   npm run migrate -- down [--steps <n> | --to <version>] roll back, the last one by default
+ *   npm run migrate -- status                              list every migration and its state
+ *
+ * `status` exits with 1 when the server would refuse to start. Uses
+ * DATABASE_URL like the server does.
+ */
+const { pool } = require("./db");
+const { migrate, rollback, getMigrationStatus } = require("./migrations");
+
+const USAGE = "Usage: node migrate.js up [--to <version>] | down [--steps <n> | --to <version>] | status";
+
+function readNumberOption(args, name) {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1) return undefined;
+  const value = Number(args[index + 1]);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`--${name} needs a whole number\n${USAGE}`);
+  }
+  return value;
+}
+
+async function printStatus() {
+  const status = await getMigrationStatus(pool);
+  status.forEach((entry) => {
+    const when = entry.appliedAt ? new Date(entry.appliedAt).toISOString() : "";
+    const version = String(entry.version).padStart(4, "0");
+    console.log(`${version}  ${entry.name.padEnd(32)} ${entry.state.padEnd(8)} ${when}`);
+    if (entry.state === "failed") console.log(`      ${entry.error}`);
+  });
+  return status.some((entry) => ["pending", "failed", "changed"].includes(entry.state)) ? 1 : 0;
+}
+
+async function main(args) {
+  const [command] = args;
+
+  if (command === "up") {
+    const applied = await migrate(pool, { to: readNumberOption(args, "to") });
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : "Database is up to date");
+    return 0;
+  }
+
+  if (command === "down") {
+    const rolledBack = await rollback(pool, {
+      steps: readNumberOption(args, "steps"),
+      to: readNumberOption(args, "to"),
+    });
+    console.log(rolledBack.length > 0 ? `Rolled back ${rolledBack.length} migration(s)` : "Nothing to roll back");
+    return 0;
+  }
+
+  if (command === "status") {
+    return printStatus();
+  }
+
+  console.error(USAGE);
+  return 1;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(`❌ ${error.message}`);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,426 @@
+/**
+ * The schema as initializeDatabase in db.js left it before migrations.
+ *
+ * Every statement tolerates existing objects, so a database created by
+ * initializeDatabase is adopted as is, and the ADD COLUMN block brings one
+ * from an older release up to date.
+ */
+module.exports = {
+  up: `
+    CREATE TABLE IF NOT EXISTS users (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      email VARCHAR(255) UNIQUE NOT NULL,
+      -- NULL for accounts that only sign in with Apple / Google
+      password_hash VARCHAR(255),
+      display_name VARCHAR(100) NOT NULL,
+      bio VARCHAR(150),
+      avatar_url TEXT,
+      expertise_categories TEXT[] DEFAULT '{}',
+      followers_count INTEGER DEFAULT 0,
+      following_count INTEGER DEFAULT 0,
+      xp INTEGER DEFAULT 0,
+      level INTEGER DEFAULT 1,
+      blocked_user_ids UUID[] DEFAULT '{}',
+      subscription_plan VARCHAR(20) DEFAULT 'free',
+      subscription_status VARCHAR(20) DEFAULT 'none',
+      trial_started_at TIMESTAMP WITH TIME ZONE,
+      trial_ends_at TIMESTAMP WITH TIME ZONE,
+      paid_until TIMESTAMP WITH TIME ZONE,
+      stripe_customer_id TEXT,
+      stripe_subscription_id TEXT,
+      premium_xp_granted BOOLEAN DEFAULT false,
+      email_verified_at TIMESTAMP WITH TIME ZONE,
+      pending_email VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS videos (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      author_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(60) NOT NULL,
+      description VARCHAR(300),
+      category VARCHAR(50) NOT NULL,
+      tags TEXT[] DEFAULT '{}',
+      video_url TEXT,
+      thumbnail_url TEXT,
+      duration INTEGER NOT NULL CHECK (duration <= 60),
+      likes_count INTEGER DEFAULT 0,
+      comments_enabled BOOLEAN DEFAULT true,
+      is_flagged BOOLEAN DEFAULT false,
+      chapters JSONB DEFAULT '[]'::jsonb,
+      captions_status VARCHAR(20) DEFAULT 'none',
+      search_text TSVECTOR,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS video_likes (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(user_id, video_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS video_saves (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+      folder_id UUID,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(user_id, video_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS toolbox_folders (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS comments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      content TEXT NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS follows (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      follower_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      following_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(follower_id, following_id)
+    );
+
+    CREATE TABLE IF NOT EXISTS notifications (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      type VARCHAR(50) NOT NULL,
+      title VARCHAR(255) NOT NULL,
+      message TEXT,
+      related_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      related_video_id UUID REFERENCES videos(id) ON DELETE SET NULL,
+      is_read BOOLEAN DEFAULT false,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS video_reports (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+      reporter_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      reason VARCHAR(100) NOT NULL,
+      description TEXT,
+      status VARCHAR(20) DEFAULT 'pending',
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS reports (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      reporter_user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      target_user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      content_id UUID,
+      content_type VARCHAR(20) NOT NULL CHECK (content_type IN ('video', 'profile', 'comment')),
+      reason VARCHAR(100) NOT NULL,
+      message TEXT,
+      status VARCHAR(20) DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'resolved', 'dismissed')),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS community_posts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      author_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(150) NOT NULL,
+      description TEXT NOT NULL,
+      category VARCHAR(50) NOT NULL,
+      image_url TEXT,
+      status VARCHAR(20) DEFAULT 'open',
+      comments_count INTEGER DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS community_comments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      post_id UUID REFERENCES community_posts(id) ON DELETE CASCADE,
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      content TEXT NOT NULL,
+      linked_video_id UUID REFERENCES videos(id) ON DELETE SET NULL,
+      is_solution BOOLEAN DEFAULT false,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS xp_daily_logins (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      login_date DATE NOT NULL,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(user_id, login_date)
+    );
+
+    CREATE TABLE IF NOT EXISTS xp_post_comments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      post_id UUID REFERENCES community_posts(id) ON DELETE CASCADE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(user_id, post_id)
+    );
+
+    -- Daily LiveAssist image uploads, for the free plan's limit
+    CREATE TABLE IF NOT EXISTS liveassist_usage (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      usage_date DATE NOT NULL,
+      images_sent INTEGER DEFAULT 0,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(user_id, usage_date)
+    );
+
+    CREATE TABLE IF NOT EXISTS liveassist_sessions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      title TEXT,
+      step_progress JSONB DEFAULT '{}'::jsonb,
+      is_pinned BOOLEAN DEFAULT false,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS liveassist_messages (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      session_id UUID REFERENCES liveassist_sessions(id) ON DELETE CASCADE,
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      role VARCHAR(20) NOT NULL,
+      text TEXT,
+      image_urls JSONB DEFAULT '[]'::jsonb,
+      analysis_result JSONB,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    -- Resumable chunked video uploads
+    CREATE TABLE IF NOT EXISTS video_uploads (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      file_name TEXT,
+      mime_type VARCHAR(100),
+      total_size BIGINT NOT NULL,
+      received_bytes BIGINT DEFAULT 0,
+      status VARCHAR(20) DEFAULT 'uploading',
+      video_url TEXT,
+      duration INTEGER,
+      storage_key TEXT,
+      thumbnail_status VARCHAR(20) DEFAULT 'pending',
+      thumbnail_urls JSONB DEFAULT '[]',
+      thumbnail_url TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    -- Caption tracks (WebVTT cues), one per language
+    CREATE TABLE IF NOT EXISTS video_captions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+      language VARCHAR(10) NOT NULL,
+      source VARCHAR(20) NOT NULL,
+      cues JSONB NOT NULL DEFAULT '[]'::jsonb,
+      transcript TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(video_id, language)
+    );
+
+    -- Viewer signals for the recommended feed
+    CREATE TABLE IF NOT EXISTS video_watches (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      video_id UUID REFERENCES videos(id) ON DELETE CASCADE,
+      watched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    CREATE TABLE IF NOT EXISTS liveassist_scans (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      category VARCHAR(50) NOT NULL,
+      issue TEXT,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    -- Stored responses for requests replayed with an Idempotency-Key
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      scope TEXT NOT NULL,
+      key VARCHAR(100) NOT NULL,
+      method VARCHAR(10) NOT NULL,
+      path TEXT NOT NULL,
+      status_code INTEGER,
+      response JSONB,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      PRIMARY KEY (scope, key)
+    );
+
+    -- Refresh-token sessions, one per signed-in device
+    CREATE TABLE IF NOT EXISTS auth_sessions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      refresh_token_hash VARCHAR(64) UNIQUE NOT NULL,
+      previous_token_hash VARCHAR(64),
+      device_name VARCHAR(100),
+      platform VARCHAR(20),
+      user_agent TEXT,
+      ip_address VARCHAR(64),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      last_used_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      rotated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      revoked_at TIMESTAMP WITH TIME ZONE
+    );
+
+    CREATE TABLE IF NOT EXISTS password_reset_tokens (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      token_hash VARCHAR(64) UNIQUE NOT NULL,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    -- Email verification and the change-email flow
+    CREATE TABLE IF NOT EXISTS email_tokens (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('verify', 'change_old', 'change_new')),
+      email VARCHAR(255) NOT NULL,
+      token_hash VARCHAR(64) UNIQUE NOT NULL,
+      expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+      used_at TIMESTAMP WITH TIME ZONE,
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+    );
+
+    -- Sign in with Apple / Google
+    CREATE TABLE IF NOT EXISTS oauth_identities (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+      provider VARCHAR(20) NOT NULL,
+      subject VARCHAR(255) NOT NULL,
+      email VARCHAR(255),
+      created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+      UNIQUE(provider, subject),
+      UNIQUE(user_id, provider)
+    );
+
+    -- Columns added after their table first shipped
+    ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS xp INTEGER DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS level INTEGER DEFAULT 1,
+      ADD COLUMN IF NOT EXISTS blocked_user_ids UUID[] DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS subscription_plan VARCHAR(20) DEFAULT 'free',
+      ADD COLUMN IF NOT EXISTS subscription_status VARCHAR(20) DEFAULT 'none',
+      ADD COLUMN IF NOT EXISTS trial_started_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS trial_ends_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS paid_until TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS stripe_customer_id TEXT,
+      ADD COLUMN IF NOT EXISTS stripe_subscription_id TEXT,
+      ADD COLUMN IF NOT EXISTS premium_xp_granted BOOLEAN DEFAULT false,
+      ADD COLUMN IF NOT EXISTS email_verified_at TIMESTAMP WITH TIME ZONE,
+      ADD COLUMN IF NOT EXISTS pending_email VARCHAR(255),
+      ALTER COLUMN password_hash DROP NOT NULL;
+
+    ALTER TABLE videos
+      ADD COLUMN IF NOT EXISTS chapters JSONB DEFAULT '[]'::jsonb,
+      ADD COLUMN IF NOT EXISTS captions_status VARCHAR(20) DEFAULT 'none';
+
+    ALTER TABLE liveassist_sessions
+      ADD COLUMN IF NOT EXISTS step_progress JSONB DEFAULT '{}'::jsonb,
+      ADD COLUMN IF NOT EXISTS is_pinned BOOLEAN DEFAULT false;
+
+    ALTER TABLE video_uploads
+      ADD COLUMN IF NOT EXISTS storage_key TEXT,
+      ADD COLUMN IF NOT EXISTS thumbnail_status VARCHAR(20) DEFAULT 'pending',
+      ADD COLUMN IF NOT EXISTS thumbnail_urls JSONB DEFAULT '[]',
+      ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+
+    CREATE INDEX IF NOT EXISTS idx_reports_reporter ON reports(reporter_user_id);
+    CREATE INDEX IF NOT EXISTS idx_reports_target ON reports(target_user_id);
+    CREATE INDEX IF NOT EXISTS idx_reports_content ON reports(content_id);
+    CREATE INDEX IF NOT EXISTS idx_reports_status ON reports(status);
+    CREATE INDEX IF NOT EXISTS idx_reports_type ON reports(content_type);
+
+    CREATE INDEX IF NOT EXISTS idx_xp_daily_logins_user ON xp_daily_logins(user_id);
+    CREATE INDEX IF NOT EXISTS idx_xp_daily_logins_date ON xp_daily_logins(login_date);
+    CREATE INDEX IF NOT EXISTS idx_xp_post_comments_user ON xp_post_comments(user_id);
+    CREATE INDEX IF NOT EXISTS idx_xp_post_comments_post ON xp_post_comments(post_id);
+
+    CREATE INDEX IF NOT EXISTS idx_community_posts_author ON community_posts(author_id);
+    CREATE INDEX IF NOT EXISTS idx_community_posts_category ON community_posts(category);
+    CREATE INDEX IF NOT EXISTS idx_community_posts_status ON community_posts(status);
+    CREATE INDEX IF NOT EXISTS idx_community_posts_created ON community_posts(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_community_comments_post ON community_comments(post_id);
+
+    CREATE INDEX IF NOT EXISTS idx_videos_author ON videos(author_id);
+    CREATE INDEX IF NOT EXISTS idx_videos_category ON videos(category);
+    CREATE INDEX IF NOT EXISTS idx_videos_created ON videos(created_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_videos_created_id ON videos(created_at DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_videos_author_created ON videos(author_id, created_at DESC, id DESC);
+    CREATE INDEX IF NOT EXISTS idx_video_likes_video ON video_likes(video_id);
+    CREATE INDEX IF NOT EXISTS idx_video_saves_user ON video_saves(user_id);
+    CREATE INDEX IF NOT EXISTS idx_video_saves_user_created ON video_saves(user_id, created_at DESC, video_id DESC);
+    CREATE INDEX IF NOT EXISTS idx_comments_video ON comments(video_id);
+    CREATE INDEX IF NOT EXISTS idx_follows_follower ON follows(follower_id);
+    CREATE INDEX IF NOT EXISTS idx_follows_following ON follows(following_id);
+    CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id);
+    CREATE INDEX IF NOT EXISTS idx_videos_search ON videos USING gin(search_text);
+
+    CREATE INDEX IF NOT EXISTS idx_liveassist_usage_user ON liveassist_usage(user_id);
+    CREATE INDEX IF NOT EXISTS idx_liveassist_usage_date ON liveassist_usage(usage_date);
+    CREATE INDEX IF NOT EXISTS idx_liveassist_sessions_user ON liveassist_sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_liveassist_messages_session ON liveassist_messages(session_id);
+    CREATE INDEX IF NOT EXISTS idx_liveassist_messages_session_created ON liveassist_messages(session_id, created_at);
+    CREATE INDEX IF NOT EXISTS idx_liveassist_messages_user ON liveassist_messages(user_id);
+    CREATE INDEX IF NOT EXISTS idx_video_uploads_user ON video_uploads(user_id);
+    CREATE INDEX IF NOT EXISTS idx_video_captions_video ON video_captions(video_id);
+
+    CREATE INDEX IF NOT EXISTS idx_video_watches_user ON video_watches(user_id, watched_at DESC);
+    CREATE INDEX IF NOT EXISTS idx_video_watches_video ON video_watches(video_id);
+    CREATE INDEX IF NOT EXISTS idx_liveassist_scans_user ON liveassist_scans(user_id, created_at DESC);
+
+    CREATE INDEX IF NOT EXISTS idx_idempotency_keys_created ON idempotency_keys(created_at);
+    CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id);
+    CREATE INDEX IF NOT EXISTS idx_auth_sessions_previous ON auth_sessions(previous_token_hash);
+    CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id);
+    CREATE INDEX IF NOT EXISTS idx_email_tokens_user ON email_tokens(user_id);
+  `,
+
+  down: `
+    DROP TABLE IF EXISTS
+      oauth_identities,
+      email_tokens,
+      password_reset_tokens,
+      auth_sessions,
+      idempotency_keys,
+      liveassist_scans,
+      video_watches,
+      video_captions,
+      video_uploads,
+      liveassist_messages,
+      liveassist_sessions,
+      liveassist_usage,
+      xp_post_comments,
+      xp_daily_logins,
+      community_comments,
+      community_posts,
+      reports,
+      video_reports,
+      notifications,
+      follows,
+      comments,
+      toolbox_folders,
+      video_saves,
+      video_likes,
+      videos,
+      users;
+  `,
+};
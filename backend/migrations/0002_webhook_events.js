@@ -0,0 +1,21 @@
+/**
+ * Processed Stripe webhook events, for idempotency and auditing. Was created
+ * on first use by WebhookHandlers.ensureWebhookEventsTable.
+ */
+module.exports = {
+  up: `
+    CREATE TABLE IF NOT EXISTS webhook_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      event_id VARCHAR(255) UNIQUE NOT NULL,
+      event_type VARCHAR(100) NOT NULL,
+      session_id VARCHAR(255),
+      user_id UUID,
+      payload_summary JSONB,
+      processed_at TIMESTAMP DEFAULT NOW()
+    );
+  `,
+
+  down: `
+    DROP TABLE IF EXISTS webhook_events;
+  `,
+};
@@ -0,0 +1,21 @@
+/**
+ * Token buckets of the rate limits when RATE_LIMIT_STORE=postgres
+ * (rateLimit.js). full_at is when a bucket will have refilled; rows past
+ * it are swept, as a missing bucket counts as full.
+ */
+module.exports = {
+  up: `
+    CREATE TABLE IF NOT EXISTS rate_limit_buckets (
+      id VARCHAR(255) PRIMARY KEY,
+      tokens DOUBLE PRECISION NOT NULL,
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      full_at TIMESTAMP WITH TIME ZONE NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_full_at ON rate_limit_buckets(full_at);
+  `,
+
+  down: `
+    DROP TABLE IF EXISTS rate_limit_buckets;
+  `,
+};
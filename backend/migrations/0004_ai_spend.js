@@ -0,0 +1,20 @@
+/**
+ * Estimated AI spend per user (or IP address when signed out) and UTC day,
+ * checked against the daily budget in aiBudget.js
+ */
+module.exports = {
+  up: `
+    CREATE TABLE IF NOT EXISTS ai_spend (
+      subject VARCHAR(255) NOT NULL,
+      spend_date DATE NOT NULL,
+      cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+      calls INTEGER NOT NULL DEFAULT 0,
+      updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+      PRIMARY KEY (subject, spend_date)
+    );
+  `,
+
+  down: `
+    DROP TABLE IF EXISTS ai_spend;
+  `,
+};
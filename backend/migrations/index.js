@@ -0,0 +1,251 @@
+/**
+ * Versioned database migrations
+ *
+ * Each change to the schema is a file in this directory named
+ * `NNNN_description.js`, numbered from 0001 without gaps, that exports `up`
+ * and `down` SQL. A migration runs in a transaction unless it exports
+ * `transaction: false` (needed for e.g. CREATE INDEX CONCURRENTLY; such a
+ * migration must be safe to run again after failing halfway).
+ *
+ * schema_migrations records every migration that ran with a checksum of its
+ * `up` SQL, or the error it failed with. Applied migrations are never
+ * edited: an edit shows up as "changed" and blocks both `migrate` and boot.
+ * Runners take an advisory lock, so two deploys cannot migrate at once.
+ *
+ * Run them with `npm run migrate` (see migrate.js); index.ts only checks.
+ */
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+
+const MIGRATION_FILE = /^(\d{4})_(\w+)\.js$/;
+
+// Any constant works, as long as every runner uses the same one
+const MIGRATION_LOCK_KEY = 7210421;
+
+const CREATE_MIGRATIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS schema_migrations (
+    version INTEGER PRIMARY KEY,
+    name VARCHAR(100) NOT NULL,
+    checksum VARCHAR(64) NOT NULL,
+    status VARCHAR(10) NOT NULL CHECK (status IN ('applied', 'failed')),
+    error TEXT,
+    duration_ms INTEGER,
+    applied_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+  )
+`;
+
+function checksum(sql) {
+  return crypto.createHash("sha256").update(sql).digest("hex");
+}
+
+function label(migration) {
+  return `${String(migration.version).padStart(4, "0")}_${migration.name}`;
+}
+
+/**
+ * The migration files in `dir`, oldest first
+ * @returns {{ version: number, name: string, up: string, down: string, transaction: boolean, checksum: string }[]}
+ */
+function loadMigrations(dir = __dirname) {
+  const migrations = fs
+    .readdirSync(dir)
+    .map((file) => ({ file, match: file.match(MIGRATION_FILE) }))
+    .filter(({ match }) => match)
+    .map(({ file, match }) => {
+      const { up, down, transaction = true } = require(path.join(dir, file));
+      if (typeof up !== "string" || typeof down !== "string") {
+        throw new Error(`Migration ${file} must export \`up\` and \`down\` SQL`);
+      }
+      return { version: Number(match[1]), name: match[2], up, down, transaction, checksum: checksum(up) };
+    })
+    .sort((a, b) => a.version - b.version);
+
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(`Migrations must be numbered from 0001 without gaps or repeats; ${label(migration)} is out of place`);
+    }
+  });
+  return migrations;
+}
+
+async function readRecorded(db) {
+  const exists = await db.query("SELECT to_regclass('schema_migrations') AS name");
+  if (!exists.rows[0].name) return new Map();
+  const result = await db.query("SELECT * FROM schema_migrations ORDER BY version");
+  return new Map(result.rows.map((row) => [row.version, row]));
+}
+
+/**
+ * One entry per migration file plus any recorded version without a file.
+ * `state` is applied, pending, failed, changed (edited since it was applied)
+ * or unknown (applied by a newer release).
+ */
+function describeStatus(migrations, recorded) {
+  const status = migrations.map((migration) => {
+    const row = recorded.get(migration.version);
+    let state = "pending";
+    if (row && row.status === "failed") state = "failed";
+    else if (row) state = row.checksum === migration.checksum ? "applied" : "changed";
+    return {
+      version: migration.version,
+      name: migration.name,
+      state,
+      appliedAt: row && row.status === "applied" ? row.applied_at : null,
+      error: row ? row.error : null,
+    };
+  });
+
+  recorded.forEach((row, version) => {
+    if (version > migrations.length) {
+      status.push({ version, name: row.name, state: "unknown", appliedAt: row.applied_at, error: row.error });
+    }
+  });
+  return status;
+}
+
+async function withMigrationLock(db, fn) {
+  const client = await db.connect();
+  try {
+    await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_KEY]);
+    try {
+      await client.query(CREATE_MIGRATIONS_TABLE);
+      return await fn(client);
+    } finally {
+      await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_KEY]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function record(client, migration, status, error, durationMs) {
+  await client.query(
+    `INSERT INTO schema_migrations (version, name, checksum, status, error, duration_ms)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (version) DO UPDATE SET
+       name = EXCLUDED.name, checksum = EXCLUDED.checksum, status = EXCLUDED.status,
+       error = EXCLUDED.error, duration_ms = EXCLUDED.duration_ms, applied_at = NOW()`,
+    [migration.version, migration.name, migration.checksum, status, error, durationMs]
+  );
+}
+
+/**
+ * Run `sql` for `migration` in its own transaction when it allows one, and
+ * call `done` inside that same transaction
+ */
+async function runMigrationSql(client, migration, sql, done) {
+  if (!migration.transaction) {
+    await client.query(sql);
+    await done();
+    return;
+  }
+  try {
+    await client.query("BEGIN");
+    await client.query(sql);
+    await done();
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Current state of every migration; reads only, never creates anything
+ */
+async function getMigrationStatus(db, migrations = loadMigrations()) {
+  return describeStatus(migrations, await readRecorded(db));
+}
+
+/**
+ * Apply pending (and earlier failed) migrations in order, up to and
+ * including version `to`. Stops at the first failure, which is recorded and
+ * rethrown.
+ * @returns {Promise<string[]>} the migrations that were applied
+ */
+async function migrate(db, { to = Infinity, migrations = loadMigrations(), log = console.log } = {}) {
+  return withMigrationLock(db, async (client) => {
+    const status = describeStatus(migrations, await readRecorded(client));
+    const changed = status.filter((entry) => entry.state === "changed");
+    if (changed.length > 0) {
+      throw new Error(
+        `${changed.map(label).join(", ")} changed after being applied; revert the edit and add a new migration instead`
+      );
+    }
+
+    const todo = migrations.filter((migration, index) => {
+      const { state } = status[index];
+      return (state === "pending" || state === "failed") && migration.version <= to;
+    });
+
+    const applied = [];
+    for (const migration of todo) {
+      log(`[Migrations] Applying ${label(migration)}`);
+      const started = Date.now();
+      try {
+        await runMigrationSql(client, migration, migration.up, () =>
+          record(client, migration, "applied", null, Date.now() - started)
+        );
+      } catch (error) {
+        await record(client, migration, "failed", error.message, Date.now() - started);
+        throw new Error(`Migration ${label(migration)} failed: ${error.message}`);
+      }
+      applied.push(label(migration));
+    }
+    return applied;
+  });
+}
+
+/**
+ * Run the `down` SQL of the newest applied migrations: the last `steps` of
+ * them, or every one above version `to` when given
+ * @returns {Promise<string[]>} the migrations that were rolled back
+ */
+async function rollback(db, { steps = 1, to, migrations = loadMigrations(), log = console.log } = {}) {
+  return withMigrationLock(db, async (client) => {
+    const recorded = await readRecorded(client);
+    const applied = [...recorded.values()]
+      .filter((row) => row.status === "applied")
+      .sort((a, b) => b.version - a.version);
+    const targets = to === undefined ? applied.slice(0, steps) : applied.filter((row) => row.version > to);
+
+    const rolledBack = [];
+    for (const row of targets) {
+      const migration = migrations.find((candidate) => candidate.version === row.version);
+      if (!migration) {
+        throw new Error(`${label(row)} was applied by a newer release; roll it back from that release`);
+      }
+      log(`[Migrations] Rolling back ${label(migration)}`);
+      try {
+        await runMigrationSql(client, migration, migration.down, () =>
+          client.query("DELETE FROM schema_migrations WHERE version = $1", [migration.version])
+        );
+      } catch (error) {
+        throw new Error(`Rolling back ${label(migration)} failed: ${error.message}`);
+      }
+      rolledBack.push(label(migration));
+    }
+    return rolledBack;
+  });
+}
+
+/**
+ * Boot check: rejects unless every migration is applied as written.
+ * Versions from a newer release are only warned about, so rolling the code
+ * back does not take the server down.
+ */
+async function assertMigrated(db, migrations = loadMigrations()) {
+  const status = await getMigrationStatus(db, migrations);
+
+  status
+    .filter((entry) => entry.state === "unknown")
+    .forEach((entry) => console.warn(`[Migrations] ${label(entry)} is applied but unknown to this release`));
+
+  const problems = status.filter((entry) => ["pending", "failed", "changed"].includes(entry.state));
+  if (problems.length > 0) {
+    throw new Error(`Database schema is not up to date: ${problems.map((entry) => `${label(entry)} ${entry.state}`).join(", ")}`);
+  }
+}
+
+module.exports = { loadMigrations, getMigrationStatus, migrate, rollback, assertMigrated };
@@ -0,0 +1,147 @@
+/**
+ * Migrations test: applies every migration to a throwaway Postgres, rolls
+ * them all back and applies them again, and checks what the boot check
+ * makes of pending, failed and edited migrations.
+ *
+ * Needs Postgres (see testing/postgres.js); skipped without it. Run with
+ * `npm test` in backend/.
+ */
+const { test, before, after } = require("node:test");
+const assert = require("node:assert");
+
+const { loadMigrations, getMigrationStatus, migrate, rollback, assertMigrated } = require(".");
+const { createTestDatabase, NO_DATABASE } = require("../testing/postgres");
+
+const MIGRATIONS = loadMigrations();
+const quiet = { log: () => {} };
+
+let database = null;
+let db = null;
+
+before(async () => {
+  database = await createTestDatabase();
+  if (database) {
+    const { Pool } = require("pg");
+    db = new Pool({ connectionString: database.url });
+  }
+});
+
+after(async () => {
+  if (db) await db.end();
+  if (database) await database.drop();
+});
+
+async function tableNames() {
+  const result = await db.query(
+    "SELECT table_name FROM information_schema.tables WHERE table_schema = 'public' ORDER BY table_name"
+  );
+  return result.rows.map((row) => row.table_name);
+}
+
+test("migration files are numbered from 0001 and carry up and down SQL", () => {
+  assert.deepStrictEqual(
+    MIGRATIONS.map((migration) => migration.version),
+    MIGRATIONS.map((_, index) => index + 1)
+  );
+  MIGRATIONS.forEach((migration) => {
+    assert.match(migration.name, /^[a-z0-9_]+$/);
+    assert.ok(migration.up.trim(), `${migration.name} has no up SQL`);
+    assert.ok(migration.down.trim(), `${migration.name} has no down SQL`);
+    assert.match(migration.checksum, /^[0-9a-f]{64}$/);
+  });
+});
+
+test("an empty database has every migration pending and fails the boot check", async (t) => {
+  if (!db) return t.skip(NO_DATABASE);
+
+  const status = await getMigrationStatus(db);
+  assert.deepStrictEqual(
+    status.map((entry) => entry.state),
+    MIGRATIONS.map(() => "pending")
+  );
+  await assert.rejects(assertMigrated(db), /not up to date/);
+});
+
+test("migrate applies everything once and the boot check passes", async (t) => {
+  if (!db) return t.skip(NO_DATABASE);
+
+  const applied = await migrate(db, quiet);
+  assert.strictEqual(applied.length, MIGRATIONS.length);
+  await assertMigrated(db);
+
+  const tables = await tableNames();
+  ["schema_migrations", "users", "videos", "community_posts", "webhook_events"].forEach((table) => {
+    assert.ok(tables.includes(table), `${table} is missing`);
+  });
+
+  assert.deepStrictEqual(await migrate(db, quiet), []);
+});
+
+test("a database built before migrations is adopted", async (t) => {
+  if (!db) return t.skip(NO_DATABASE);
+
+  // Tables already exist but nothing is recorded, as after initializeDatabase
+  await db.query("DROP TABLE schema_migrations");
+  const applied = await migrate(db, quiet);
+  assert.strictEqual(applied.length, MIGRATIONS.length);
+  await assertMigrated(db);
+});
+
+test("rollback runs down migrations newest first, and everything applies again", async (t) => {
+  if (!db) return t.skip(NO_DATABASE);
+
+  const last = MIGRATIONS[MIGRATIONS.length - 1];
+  assert.deepStrictEqual(await rollback(db, quiet), [`${String(last.version).padStart(4, "0")}_${last.name}`]);
+  const status = await getMigrationStatus(db);
+  assert.strictEqual(status[status.length - 1].state, "pending");
+
+  const rolledBack = await rollback(db, { ...quiet, to: 0 });
+  assert.strictEqual(rolledBack.length, MIGRATIONS.length - 1);
+  assert.deepStrictEqual(await tableNames(), ["schema_migrations"]);
+
+  await migrate(db, quiet);
+  await assertMigrated(db);
+});
+
+test("a failed migration is recorded, blocks boot and is retried once fixed", async (t) => {
+  if (!db) return t.skip(NO_DATABASE);
+
+  const broken = {
+    version: MIGRATIONS.length + 1,
+    name: "broken",
+    up: "ALTER TABLE no_such_table ADD COLUMN x INTEGER",
+    down: "SELECT 1",
+    transaction: true,
+    checksum: "broken",
+  };
+  const withBroken = [...MIGRATIONS, broken];
+
+  await assert.rejects(migrate(db, { ...quiet, migrations: withBroken }), /broken failed: .*no_such_table/);
+  const status = await getMigrationStatus(db, withBroken);
+  assert.strictEqual(status[status.length - 1].state, "failed");
+  assert.match(status[status.length - 1].error, /no_such_table/);
+  await assert.rejects(assertMigrated(db, withBroken), /broken failed/);
+
+  const fixed = { ...broken, up: "SELECT 1", checksum: "fixed" };
+  const withFixed = [...MIGRATIONS, fixed];
+  assert.deepStrictEqual(await migrate(db, { ...quiet, migrations: withFixed }), [
+    `${String(fixed.version).padStart(4, "0")}_broken`,
+  ]);
+  await assertMigrated(db, withFixed);
+
+  // Without its file, the extra version only warns
+  await assertMigrated(db);
+  await rollback(db, { ...quiet, migrations: withFixed });
+});
+
+test("an applied migration that was edited blocks migrate and boot", async (t) => {
+  if (!db) return t.skip(NO_DATABASE);
+
+  const edited = MIGRATIONS.map((migration, index) =>
+    index === 0 ? { ...migration, checksum: "edited" } : migration
+  );
+  const status = await getMigrationStatus(db, edited);
+  assert.strictEqual(status[0].state, "changed");
+  await assert.rejects(migrate(db, { ...quiet, migrations: edited }), /changed after being applied/);
+  await assert.rejects(assertMigrated(db, edited), /changed/);
+});
@@ -0,0 +1,130 @@
+/**
+ * Sign in with Apple / Google: OpenID Connect ID token verification
+ *
+ * The app signs in with the provider's own SDK and sends the ID token it
+ * got. The token's signature is checked against the provider's published
+ * keys (JWKS), and its issuer and audience against the configuration below.
+ * Each part can be overridden so development and tests can point a
+ * provider at a local fake issuer:
+ *   <PROVIDER>_CLIENT_IDS  comma-separated accepted audiences; a provider
+ *                          without any is switched off
+ *   <PROVIDER>_OIDC_ISSUER expected `iss`
+ *   <PROVIDER>_JWKS_URL    where the provider's signing keys are published
+ */
+const crypto = require("crypto");
+const jwt = require("jsonwebtoken");
+
+const { ERROR_CODES } = require("./errors");
+
+const PROVIDERS = {
+  google: {
+    label: "Google",
+    issuers: ["https://accounts.google.com", "accounts.google.com"],
+    jwksUrl: "https://www.googleapis.com/oauth2/v3/certs",
+  },
+  apple: {
+    label: "Apple",
+    issuers: ["https://appleid.apple.com"],
+    jwksUrl: "https://appleid.apple.com/auth/keys",
+  },
+};
+
+const JWKS_TTL_MS = 60 * 60 * 1000;
+// A token naming an unknown key refetches, but not more often than this
+const JWKS_MIN_REFETCH_MS = 60 * 1000;
+
+const jwksCache = new Map(); // url -> { keys: Map<kid, KeyObject>, fetchedAt }
+
+/**
+ * Settings for a provider name from the URL, or null when unknown or off
+ */
+function getOidcProvider(name) {
+  const defaults = Object.prototype.hasOwnProperty.call(PROVIDERS, name) ? PROVIDERS[name] : null;
+  if (!defaults) return null;
+
+  const prefix = name.toUpperCase();
+  const clientIds = (process.env[`${prefix}_CLIENT_IDS`] || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  if (clientIds.length === 0) return null;
+
+  const issuer = process.env[`${prefix}_OIDC_ISSUER`];
+  return {
+    name,
+    label: defaults.label,
+    clientIds,
+    issuers: issuer ? [issuer] : defaults.issuers,
+    jwksUrl: process.env[`${prefix}_JWKS_URL`] || defaults.jwksUrl,
+  };
+}
+
+async function fetchKeys(jwksUrl) {
+  const response = await fetch(jwksUrl);
+  if (!response.ok) {
+    throw new Error(`JWKS request to ${jwksUrl} failed with ${response.status}`);
+  }
+  const { keys = [] } = await response.json();
+
+  const byKid = new Map();
+  keys.forEach((jwk) => {
+    try {
+      byKid.set(jwk.kid, crypto.createPublicKey({ key: jwk, format: "jwk" }));
+    } catch (error) {
+      console.error(`[OIDC] Skipping unreadable key ${jwk.kid} from ${jwksUrl}:`, error.message);
+    }
+  });
+  const entry = { keys: byKid, fetchedAt: Date.now() };
+  jwksCache.set(jwksUrl, entry);
+  return entry;
+}
+
+/**
+ * The provider's public key for `kid`; throws when the JWKS cannot be loaded
+ */
+async function getSigningKey(jwksUrl, kid) {
+  let entry = jwksCache.get(jwksUrl);
+  const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+  if (!entry || age > JWKS_TTL_MS || (!entry.keys.has(kid) && age > JWKS_MIN_REFETCH_MS)) {
+    entry = await fetchKeys(jwksUrl);
+  }
+  return entry.keys.get(kid) || null;
+}
+
+/**
+ * Check an ID token from `provider`
+ * @returns {Promise<{ subject: string, email: string | null, emailVerified: boolean, name: string | null } | { code: import("../shared/types").ErrorCode, message: string }>}
+ *   Rejects only when the provider's keys cannot be fetched
+ */
+async function verifyIdToken(provider, idToken) {
+  const invalid = { code: ERROR_CODES.AUTH_INVALID, message: `This ${provider.label} sign-in is invalid or has expired` };
+  if (!idToken || typeof idToken !== "string") return invalid;
+
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || !decoded.header || !decoded.header.kid) return invalid;
+
+  const key = await getSigningKey(provider.jwksUrl, decoded.header.kid);
+  if (!key) return invalid;
+
+  let claims;
+  try {
+    claims = jwt.verify(idToken, key, {
+      algorithms: ["RS256", "ES256"],
+      issuer: provider.issuers,
+      audience: provider.clientIds,
+    });
+  } catch {
+    return invalid;
+  }
+  if (!claims.sub) return invalid;
+
+  return {
+    subject: String(claims.sub),
+    email: typeof claims.email === "string" ? claims.email.trim().toLowerCase() : null,
+    // Apple sends the flag as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === "true",
+    name: typeof claims.name === "string" ? claims.name : null,
+  };
+}
+
+module.exports = { getOidcProvider, verifyIdToken };
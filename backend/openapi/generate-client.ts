@@ -0,0 +1,239 @@
+/**
+ * Generates the app's typed API client, utils/api.generated.ts, from the
+ * API document
+ *
+ * Components marked x-shared-type are imported from shared/ under their
+ * own names; the others become interfaces in the generated file. Each
+ * operation gets its request (path parameters, query, body) and response
+ * types in ApiOperations and its method, path and auth requirement in
+ * apiOperations, keyed by operationId.
+ *
+ * Run `npm run generate:client` in backend/ after changing openapi/;
+ * openapi.test.js fails while the checked-in file is out of date.
+ */
+import fs from "fs";
+import path from "path";
+
+import { openApiDocument } from ".";
+import type { Schema, SharedModule } from "./schemas";
+
+export const GENERATED_CLIENT_PATH = path.join(__dirname, "../../utils/api.generated.ts");
+
+const SHARED_IMPORTS: Record<SharedModule, string> = {
+  types: "@/shared/types",
+  liveAssistSchema: "@/shared/liveAssistSchema",
+};
+
+const HEADER = `/**
+ * Typed operations of the QuickFix API
+ *
+ * Generated from the API document (backend/openapi/) by
+ * backend/openapi/generate-client.ts; do not edit. Run
+ * \`npm run generate:client\` in backend/ after changing the document.
+ * ApiClient in utils/api.ts calls the API through these.
+ */`;
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * TypeScript for a schema, noting the shared declarations it uses
+ */
+function typeOf(schema: Schema, used: Set<string>, indent = ""): string {
+  const nullable = schema.nullable ? " | null" : "";
+
+  if (schema.$ref) {
+    const name = schema.$ref.split("/").pop()!;
+    used.add(name);
+    return name;
+  }
+  if (schema.allOf) {
+    return schema.allOf.map((part) => typeOf(part, used, indent)).join(" & ") + nullable;
+  }
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf || schema.anyOf)!.map((part) => typeOf(part, used, indent)).join(" | ") + nullable;
+  }
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ") + nullable;
+  }
+
+  switch (schema.type) {
+    case "string":
+      return (schema.format === "binary" ? "Blob" : "string") + nullable;
+    case "integer":
+    case "number":
+      return "number" + nullable;
+    case "boolean":
+      return "boolean" + nullable;
+    case "array": {
+      const item = typeOf(schema.items || {}, used, indent);
+      return (/[|&]/.test(item) ? `(${item})[]` : `${item}[]`) + nullable;
+    }
+    case "object": {
+      const properties = Object.entries(schema.properties || {});
+      if (properties.length === 0) {
+        const values =
+          typeof schema.additionalProperties === "object" && Object.keys(schema.additionalProperties).length > 0
+            ? typeOf(schema.additionalProperties, used, indent)
+            : "unknown";
+        return `Record<string, ${values}>` + nullable;
+      }
+      return objectType(schema, used, indent) + nullable;
+    }
+    default:
+      return "unknown";
+  }
+}
+
+function objectType(schema: Schema, used: Set<string>, indent: string): string {
+  const required = new Set(schema.required || []);
+  const inner = `${indent}  `;
+  const lines = Object.entries(schema.properties || {}).map(
+    ([name, property]) =>
+      `${inner}${propertyName(name)}${required.has(name) ? "" : "?"}: ${typeOf(property, used, inner)};`
+  );
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+function hasRequiredFields(schema: Schema): boolean {
+  const schemas: Record<string, Schema> = openApiDocument.components.schemas;
+  const resolved = schema.$ref ? schemas[schema.$ref.split("/").pop()!] : schema;
+  return (resolved.required || []).length > 0;
+}
+
+type OperationObject = ReturnType<typeof listOperations>[number]["operation"];
+
+// Every operation of the document with its method and path
+function listOperations() {
+  return Object.entries(openApiDocument.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ method: method.toUpperCase(), path, operation }))
+  );
+}
+
+function authOf(operation: OperationObject): "required" | "optional" | "none" {
+  if (operation.security.length === 0) return "none";
+  return operation.security.some((requirement) => Object.keys(requirement).length === 0) ? "optional" : "required";
+}
+
+function requestType(operation: OperationObject, used: Set<string>): string {
+  const indent = "    ";
+  const inner = `${indent}  `;
+  const fields: string[] = [];
+
+  (["path", "query"] as const).forEach((location) => {
+    const parameters = operation.parameters.filter((parameter) => parameter.in === location);
+    if (parameters.length === 0) return;
+    const schema: Schema = {
+      type: "object",
+      properties: Object.fromEntries(parameters.map((parameter) => [parameter.name, parameter.schema])),
+      required: parameters.filter((parameter) => parameter.required).map((parameter) => parameter.name),
+    };
+    const field = location === "path" ? "params" : "query?";
+    fields.push(`${inner}${field}: ${typeOf(schema, used, inner)};`);
+  });
+
+  if (operation.requestBody) {
+    // Raw bodies (upload chunks, Stripe events) are declared as binary strings
+    const [{ schema }] = Object.values(operation.requestBody.content) as { schema: Schema }[];
+    if (schema.format === "binary") {
+      fields.push(`${inner}body: Blob;`);
+    } else {
+      fields.push(`${inner}body${hasRequiredFields(schema) ? "" : "?"}: ${typeOf(schema, used, inner)};`);
+    }
+  }
+
+  return fields.length > 0 ? `{\n${fields.join("\n")}\n${indent}}` : "{}";
+}
+
+function responseType(operation: OperationObject, used: Set<string>): string {
+  const success = Object.entries(operation.responses).find(([status]) => status.startsWith("2"));
+  const content = success && "content" in success[1] ? success[1].content : undefined;
+  const json = content?.["application/json"];
+  return json ? typeOf(json.schema, used, "    ") : "string";
+}
+
+export function renderClient(): string {
+  const used = new Set<string>();
+  const sections: string[] = [];
+
+  const schemas: Record<string, Schema> = openApiDocument.components.schemas;
+  const generated = Object.entries(schemas).filter(([, schema]) => !schema["x-shared-type"]);
+  generated.forEach(([name, schema]) => {
+    if (schema.type === "object" && schema.properties) {
+      sections.push(`export interface ${name} ${objectType(schema, used, "")}`);
+    } else {
+      sections.push(`export type ${name} = ${typeOf(schema, used)};`);
+    }
+  });
+
+  const entries = listOperations().map(({ method, path, operation }) =>
+    [
+      `  /** ${method} ${path}: ${operation.summary} */`,
+      `  ${operation.operationId}: {`,
+      `    request: ${requestType(operation, used)};`,
+      `    response: ${responseType(operation, used)};`,
+      `  };`,
+    ].join("\n")
+  );
+  sections.push(`export interface ApiOperations {\n${entries.join("\n")}\n}`);
+
+  sections.push(
+    [
+      "export type OperationName = keyof ApiOperations;",
+      'export type OperationRequest<Name extends OperationName> = ApiOperations[Name]["request"];',
+      'export type OperationResponse<Name extends OperationName> = ApiOperations[Name]["response"];',
+    ].join("\n")
+  );
+
+  const table = listOperations().map(
+    ({ method, path, operation }) =>
+      `  ${operation.operationId}: { method: "${method}", path: "${path}", auth: "${authOf(operation)}" },`
+  );
+  sections.push(
+    [
+      "/**",
+      " * Method, path template and auth requirement of each operation; `auth`",
+      " * is `optional` where signed-in callers see more (blocks, likes)",
+      " */",
+      `export const apiOperations = {\n${table.join("\n")}\n} as const;`,
+    ].join("\n")
+  );
+
+  sections.push(`/**
+ * The endpoint of an operation, below the /api base URL, with its path
+ * parameters filled in and its query appended. Empty query values are left out.
+ */
+export function operationEndpoint<Name extends OperationName>(name: Name, request: OperationRequest<Name>): string {
+  const { params = {}, query = {} } = request as {
+    params?: Record<string, string | number>;
+    query?: Record<string, string | number | boolean | null | undefined>;
+  };
+  const path = apiOperations[name].path.replace(/\\{(\\w+)\\}/g, (_, key: string) =>
+    encodeURIComponent(String(params[key])),
+  );
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") search.set(key, String(value));
+  });
+  const queryString = search.toString();
+  return queryString ? \`\${path}?\${queryString}\` : path;
+}`);
+
+  const imports = (Object.keys(SHARED_IMPORTS) as SharedModule[])
+    .map((module) => {
+      const names = [...used].filter((name) => schemas[name]?.["x-shared-type"] === module).sort();
+      if (names.length === 0) return null;
+      return `import type {\n${names.map((name) => `  ${name},`).join("\n")}\n} from "${SHARED_IMPORTS[module]}";`;
+    })
+    .filter(Boolean);
+
+  return `${HEADER}\n${imports.join("\n")}\n\n${sections.join("\n\n")}\n`;
+}
+
+if (require.main === module) {
+  fs.writeFileSync(GENERATED_CLIENT_PATH, renderClient());
+  console.log(`Wrote ${path.relative(process.cwd(), GENERATED_CLIENT_PATH)}`);
+}
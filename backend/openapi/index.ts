@@ -0,0 +1,264 @@
+/**
+ * OpenAPI 3 document of the /api routes, and the middleware enforcing it
+ *
+ * The document is assembled from openapi/schemas.ts and openapi/paths.ts
+ * and served at /api/openapi.json, browsable at /api/docs. The typed
+ * client in utils/api.generated.ts is generated from it
+ * (`npm run generate:client`).
+ *
+ * openApiValidator() answers requests that do not fit their operation with
+ * VALIDATION_FAILED before any route runs, and checks JSON answers against
+ * the document. OPENAPI_RESPONSE_VALIDATION decides what a mismatched
+ * answer does: `warn` logs it (the default outside production), `strict`
+ * replaces it with a SERVER_ERROR (the test harness uses this), `off`
+ * skips the check (the default in production).
+ */
+import express from "express";
+import type { NextFunction, Request, Response } from "express";
+
+import type { SchemaIssue } from "../../shared/liveAssistSchema";
+import { ERROR_CODES, errorBody, sendError } from "../errors";
+import { operations, OperationSpec } from "./paths";
+import { components, ref, string, Schema } from "./schemas";
+import { fromParameter, validate } from "./validate";
+
+export type { OperationSpec } from "./paths";
+export type { Schema } from "./schemas";
+
+const DESCRIPTION =
+  "Every 4xx/5xx answer is an ErrorBody; clients branch on its `code`. " +
+  "Signed-in calls send `Authorization: Bearer <token>`. Mutations may send an " +
+  "`Idempotency-Key` header so a retried request is applied once.";
+
+const ERROR_RESPONSE = {
+  description: "Error envelope",
+  content: { "application/json": { schema: ref("ErrorBody") } },
+};
+
+// Templates in the document are {name}; these are their names in order
+function pathParameters(path: string): string[] {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => name);
+}
+
+export function successStatuses(operation: OperationSpec): number[] {
+  return [operation.status || 200, ...(operation.alsoStatus || [])];
+}
+
+function operationObject(operation: OperationSpec) {
+  const content: Record<string, { schema: Schema }> = {};
+  if (operation.response) content["application/json"] = { schema: operation.response };
+  (operation.alternatives || []).forEach((type) => {
+    content[type] = { schema: string };
+  });
+
+  const security =
+    operation.auth === "required" ? [{ bearerAuth: [] }] : operation.auth === "optional" ? [{ bearerAuth: [] }, {}] : [];
+
+  let requestBody;
+  if (operation.body) {
+    requestBody = { required: true, content: { "application/json": { schema: operation.body } } };
+  } else if (operation.rawBody) {
+    requestBody = { required: true, content: { [operation.rawBody]: { schema: { type: "string", format: "binary" } } } };
+  }
+
+  return {
+    operationId: operation.id,
+    tags: [operation.tag],
+    summary: operation.summary,
+    security,
+    parameters: [
+      ...pathParameters(operation.path).map((name) => ({
+        name,
+        in: "path",
+        required: true,
+        schema: operation.params?.[name] || string,
+      })),
+      ...Object.entries(operation.query || {}).map(([name, schema]) => ({
+        name,
+        in: "query",
+        required: false,
+        schema,
+      })),
+    ],
+    ...(requestBody && { requestBody }),
+    responses: {
+      ...Object.fromEntries(
+        successStatuses(operation).map((status) => [
+          String(status),
+          { description: "Success", ...(Object.keys(content).length > 0 && { content }) },
+        ])
+      ),
+      default: ERROR_RESPONSE,
+    },
+  };
+}
+
+function buildDocument() {
+  const paths: Record<string, Record<string, ReturnType<typeof operationObject>>> = {};
+  operations.forEach((operation) => {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: operationObject(operation) };
+  });
+
+  return {
+    openapi: "3.0.3",
+    info: { title: "QuickFix API", version: "1.0.0", description: DESCRIPTION },
+    servers: [{ url: "/api" }],
+    tags: [...new Set(operations.map((operation) => operation.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: components,
+      securitySchemes: { bearerAuth: { type: "http", scheme: "bearer", bearerFormat: "JWT" } },
+    },
+  };
+}
+
+export const openApiDocument = buildDocument();
+
+/* ---------- MATCHING REQUESTS ---------- */
+
+interface CompiledOperation {
+  operation: OperationSpec;
+  method: string;
+  pattern: RegExp;
+  params: string[];
+}
+
+const compiled: CompiledOperation[] = operations.map((operation) => ({
+  operation,
+  method: operation.method.toUpperCase(),
+  pattern: new RegExp(`^${operation.path.replace(/[.]/g, "\\.").replace(/\{\w+\}/g, "([^/]+)")}/?$`),
+  params: pathParameters(operation.path),
+}));
+
+/**
+ * The operation for a request path below /api, with its path parameters.
+ * Literal segments win over parameters, as with /videos/feed and
+ * /videos/{id}.
+ */
+export function findOperation(method: string, path: string) {
+  let found: { operation: OperationSpec; params: Record<string, string> } | null = null;
+  compiled.forEach((candidate) => {
+    if (candidate.method !== method) return;
+    const match = candidate.pattern.exec(path);
+    if (!match) return;
+    if (found && Object.keys(found.params).length <= candidate.params.length) return;
+    found = {
+      operation: candidate.operation,
+      params: Object.fromEntries(candidate.params.map((name, index) => [name, decodeURIComponent(match[index + 1])])),
+    };
+  });
+  return found as { operation: OperationSpec; params: Record<string, string> } | null;
+}
+
+function checkRequest(operation: OperationSpec, params: Record<string, string>, req: Request): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+
+  Object.entries(operation.params || {}).forEach(([name, schema]) => {
+    issues.push(...validate(fromParameter(params[name], schema, components), schema, components, `path.${name}`));
+  });
+  Object.entries(operation.query || {}).forEach(([name, schema]) => {
+    const raw = req.query[name];
+    if (raw === undefined) return;
+    issues.push(...validate(fromParameter(raw, schema, components), schema, components, `query.${name}`));
+  });
+  if (operation.body) {
+    issues.push(...validate(req.body ?? {}, operation.body, components, "body"));
+  }
+  return issues;
+}
+
+/**
+ * Problems with a JSON answer: errors must be the envelope, successes
+ * the operation's response
+ */
+export function checkResponse(operation: OperationSpec, status: number, body: unknown): SchemaIssue[] {
+  // As the client will read it: dates become strings, Infinity null
+  const sent = body === undefined ? undefined : JSON.parse(JSON.stringify(body));
+
+  if (status >= 400) return validate(sent, ref("ErrorBody"), components, "response");
+  if (!successStatuses(operation).includes(status)) {
+    return [{ path: "response", message: `status ${status} is not in the document` }];
+  }
+  if (!operation.response) {
+    return [{ path: "response", message: "is JSON, the document has none" }];
+  }
+  return validate(sent, operation.response, components, "response");
+}
+
+export type ResponseValidation = "off" | "warn" | "strict";
+
+function responseValidationMode(): ResponseValidation {
+  const configured = process.env.OPENAPI_RESPONSE_VALIDATION;
+  if (configured === "off" || configured === "warn" || configured === "strict") return configured;
+  return process.env.NODE_ENV === "production" ? "off" : "warn";
+}
+
+/**
+ * Middleware enforcing the document; mount on /api after idempotency()
+ * and before errorEnvelope(), so answers are checked as finally sent and
+ * a replaced answer is not stored under an Idempotency-Key
+ */
+export function openApiValidator({ responses = responseValidationMode() }: { responses?: ResponseValidation } = {}) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const found = findOperation(req.method, req.path);
+    if (!found) return next();
+    const { operation, params } = found;
+
+    const issues = checkRequest(operation, params, req);
+    if (issues.length > 0) {
+      const [first] = issues;
+      return sendError(res, 400, ERROR_CODES.VALIDATION_FAILED, `Invalid request: ${first.path} ${first.message}`, {
+        issues,
+      });
+    }
+
+    if (responses !== "off") {
+      const json = res.json.bind(res);
+      res.json = (body?: any) => {
+        const problems = checkResponse(operation, res.statusCode, body);
+        if (problems.length === 0) return json(body);
+
+        console.warn(
+          `[OpenAPI] ${req.method} ${req.originalUrl} answered ${res.statusCode} outside the document:`,
+          problems.slice(0, 5)
+        );
+        if (responses === "warn") return json(body);
+        res.status(500);
+        return json(
+          errorBody(ERROR_CODES.SERVER_ERROR, "The response did not match the API document", { issues: problems })
+        );
+      };
+    }
+
+    next();
+  };
+}
+
+const DOCS_PAGE = `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>QuickFix API</title>
+    <link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@5/swagger-ui.css" />
+  </head>
+  <body>
+    <div id="docs"></div>
+    <script src="https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js"></script>
+    <script>SwaggerUIBundle({ url: "openapi.json", dom_id: "#docs" });</script>
+  </body>
+</html>
+`;
+
+/**
+ * GET /openapi.json and GET /docs (Swagger UI, loaded from a CDN); mount on /api
+ */
+export function apiDocs() {
+  const router = express.Router();
+  router.get("/openapi.json", (req, res) => {
+    res.json(openApiDocument);
+  });
+  router.get("/docs", (req, res) => {
+    res.type("html").send(DOCS_PAGE);
+  });
+  return router;
+}
@@ -0,0 +1,266 @@
+/**
+ * Contract test: the API document (openapi/) against the routes it
+ * describes, the shared declarations it mirrors and the client generated
+ * from it; and openApiValidator() turning away requests and answers that
+ * do not fit. Routes are read from the source, shared types parsed as in
+ * serializers.test.js.
+ *
+ * Run with `npm test` in backend/.
+ */
+const test = require("node:test");
+const assert = require("node:assert");
+const fs = require("node:fs");
+const http = require("node:http");
+const path = require("node:path");
+const express = require("express");
+
+const { openApiDocument, openApiValidator, findOperation } = require(".");
+const { validate } = require("./validate");
+const { GENERATED_CLIENT_PATH, renderClient } = require("./generate-client");
+const { errorEnvelope } = require("../errors");
+const { readSharedTypes } = require("../testing/sharedTypes");
+
+const BACKEND = path.join(__dirname, "..");
+const { schemas } = openApiDocument.components;
+
+/**
+ * "METHOD /path" for every route the app serves below /api, with Express
+ * parameters written as {name}
+ */
+function servedRoutes() {
+  const index = fs.readFileSync(path.join(BACKEND, "index.ts"), "utf8");
+  const routes = [];
+
+  const declared = (file, mount) => {
+    const source = fs.readFileSync(path.join(BACKEND, file), "utf8");
+    for (const [, method, route] of source.matchAll(/router\.(get|post|put|patch|delete)\(\s*["']([^"']+)["']/g)) {
+      routes.push({ method, path: mount + (route === "/" ? "" : route) });
+    }
+  };
+
+  const modules = {};
+  for (const [, name, file] of index.matchAll(/^import (\w+) from "\.\/(routes\/\w+)";/gm)) {
+    modules[name] = `${file}.ts`;
+  }
+  for (const [, name, file] of index.matchAll(/^import \{ router as (\w+) \} from "\.\/(\w+)";/gm)) {
+    modules[name] = `${file}.js`;
+  }
+  for (const [, mount, name] of index.matchAll(/^app\.use\("([^"]+)", (\w+)\);/gm)) {
+    if (modules[name]) declared(modules[name], mount);
+  }
+  declared("openapi/index.ts", "/api");
+  for (const [, method, route] of index.matchAll(/^app\.(get|post|put|patch|delete)\("(\/api\/[^"]+)"/gm)) {
+    routes.push({ method, path: route });
+  }
+
+  return routes.map(
+    ({ method, path: route }) =>
+      `${method.toUpperCase()} ${route.replace(/^\/api/, "").replace(/:(\w+)/g, "{$1}").replace(/\/$/, "")}`
+  );
+}
+
+function documentedRoutes() {
+  return Object.entries(openApiDocument.paths).flatMap(([route, methods]) =>
+    Object.keys(methods).map((method) => `${method.toUpperCase()} ${route}`)
+  );
+}
+
+test("every route is in the document, and every documented route exists", () => {
+  const served = servedRoutes().sort();
+  const documented = documentedRoutes().sort();
+
+  assert.ok(served.length > 80, `only found ${served.length} routes; did the route syntax change?`);
+  assert.deepStrictEqual(
+    served.filter((route) => !documented.includes(route)),
+    [],
+    "served but not documented"
+  );
+  assert.deepStrictEqual(
+    documented.filter((route) => !served.includes(route)),
+    [],
+    "documented but not served"
+  );
+});
+
+test("operation ids are unique", () => {
+  const ids = Object.values(openApiDocument.paths).flatMap((methods) =>
+    Object.values(methods).map((operation) => operation.operationId)
+  );
+  assert.deepStrictEqual(
+    ids.filter((id, index) => ids.indexOf(id) !== index),
+    []
+  );
+});
+
+test("every $ref points at a component", () => {
+  const missing = [];
+  const walk = (value, at) => {
+    if (!value || typeof value !== "object") return;
+    if (typeof value.$ref === "string" && !schemas[value.$ref.replace("#/components/schemas/", "")]) {
+      missing.push(`${at}: ${value.$ref}`);
+    }
+    Object.entries(value).forEach(([key, child]) => walk(child, `${at}.${key}`));
+  };
+  walk(openApiDocument, "document");
+  assert.deepStrictEqual(missing, []);
+});
+
+// The primitive a declared type comes down to, or null for anything richer
+function primitiveOf(type) {
+  const options = type.split("|").map((option) => option.trim()).filter((option) => option !== "null");
+  if (options.length !== 1) return null;
+  return ["string", "number", "boolean"].includes(options[0]) ? options[0] : null;
+}
+
+function schemaPrimitive(schema) {
+  const target = schema.allOf ? schema.allOf[0] : schema;
+  if (target.$ref || target.enum) return null;
+  if (target.type === "integer") return "number";
+  return ["string", "number", "boolean"].includes(target.type) ? target.type : null;
+}
+
+test("shared components match their declarations in shared/", () => {
+  const shared = {
+    types: readSharedTypes("types"),
+    liveAssistSchema: readSharedTypes("liveAssistSchema"),
+  };
+
+  const problems = [];
+  Object.entries(schemas).forEach(([name, schema]) => {
+    const module = schema["x-shared-type"];
+    if (!module) return;
+    const { interfaces, aliases } = shared[module];
+
+    if (schema.enum) {
+      const declared = aliases[name];
+      if (!declared) return problems.push(`${name}: not a type alias in shared/${module}`);
+      const values = declared
+        .split("|")
+        .map((value) => value.trim())
+        .filter(Boolean)
+        .map((value) => JSON.parse(value));
+      if (JSON.stringify([...values].sort()) !== JSON.stringify([...schema.enum].sort())) {
+        problems.push(`${name}: enum ${schema.enum.join(", ")} vs ${declared}`);
+      }
+      return;
+    }
+
+    const fields = interfaces[name];
+    if (!fields) return problems.push(`${name}: not an interface in shared/${module}`);
+    const properties = schema.properties || {};
+    const required = new Set(schema.required || []);
+
+    Object.keys(fields).forEach((field) => {
+      if (!properties[field]) problems.push(`${name}.${field}: declared but not documented`);
+    });
+    Object.entries(properties).forEach(([field, property]) => {
+      const declared = fields[field];
+      if (!declared) return problems.push(`${name}.${field}: documented but not declared`);
+      if (required.has(field) === declared.optional) {
+        problems.push(`${name}.${field}: ${declared.optional ? "optional" : "required"} in shared/${module}`);
+      }
+      const primitive = primitiveOf(declared.type);
+      const documented = schemaPrimitive(property);
+      if (primitive && documented && primitive !== documented) {
+        problems.push(`${name}.${field}: ${documented} vs ${declared.type}`);
+      }
+    });
+  });
+
+  assert.deepStrictEqual(problems, []);
+});
+
+test("the checked-in client is generated from the current document", () => {
+  const checkedIn = fs.readFileSync(GENERATED_CLIENT_PATH, "utf8");
+  assert.ok(checkedIn === renderClient(), "utils/api.generated.ts is stale; run `npm run generate:client`");
+});
+
+test("literal segments win over path parameters", () => {
+  assert.strictEqual(findOperation("GET", "/videos/feed").operation.id, "getFeed");
+  assert.deepStrictEqual(findOperation("GET", "/videos/abc").params, { id: "abc" });
+  assert.strictEqual(findOperation("GET", "/nowhere"), null);
+});
+
+test("validate reports the path of each problem", () => {
+  assert.deepStrictEqual(validate({ path: 1 }, schemas.SchemaIssue, schemas), [
+    { path: "message", message: "is required" },
+    { path: "path", message: "expected string, got number" },
+  ]);
+  assert.deepStrictEqual(validate({ sessions: [{}] }, schemas.LiveAssistSessionList, schemas, "response")[0], {
+    path: "response.sessions[0].id",
+    message: "is required",
+  });
+  assert.deepStrictEqual(validate(null, { type: "string", nullable: true }, schemas), []);
+});
+
+test("validate checks the uuid and date-time formats", () => {
+  const uuid = { type: "string", format: "uuid" };
+  const dateTime = { type: "string", format: "date-time" };
+  assert.deepStrictEqual(validate("0b6c3a52-5f43-4c0e-9d3e-3f1c8e0a7b21", uuid, schemas), []);
+  assert.deepStrictEqual(validate("abc", uuid, schemas), [{ path: "(root)", message: "must be a UUID" }]);
+  assert.deepStrictEqual(validate("2026-03-01T09:30:00.123Z", dateTime, schemas), []);
+  assert.deepStrictEqual(validate("2026-03-01T09:30:00+01:00", dateTime, schemas), []);
+  for (const value of ["2026-03-01", "2026-03-01 09:30:00", "2026-13-01T09:30:00Z"]) {
+    assert.deepStrictEqual(validate(value, dateTime, schemas), [{ path: "(root)", message: "must be an RFC 3339 date-time" }], value);
+  }
+  // Formats the document only describes pass
+  assert.deepStrictEqual(validate("anything", { type: "string", format: "binary" }, schemas), []);
+});
+
+async function serve(app) {
+  const server = http.createServer(app);
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${server.address().port}/api`;
+  return {
+    async request(method, route, body) {
+      const response = await fetch(base + route, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      return { status: response.status, body: await response.json() };
+    },
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+test("openApiValidator rejects requests and, when strict, answers outside the document", async (t) => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api", openApiValidator({ responses: "strict" }));
+  app.use(errorEnvelope());
+  app.get("/api/videos/feed", (req, res) => res.json({ items: [], nextCursor: null }));
+  app.get("/api/notifications/unread-count", (req, res) => res.json({ count: "three" }));
+  app.post("/api/toolbox/folders", (req, res) => res.status(201).json({ never: "reached" }));
+
+  const server = await serve(app);
+  t.after(() => server.close());
+
+  const fits = await server.request("GET", "/videos/feed?section=new&limit=5");
+  assert.strictEqual(fits.status, 200);
+
+  const badQuery = await server.request("GET", "/videos/feed?section=trending");
+  assert.strictEqual(badQuery.status, 400);
+  assert.strictEqual(badQuery.body.code, "VALIDATION_FAILED");
+  assert.strictEqual(badQuery.body.details.issues[0].path, "query.section");
+
+  const badId = await server.request("DELETE", "/toolbox/folders/42");
+  assert.strictEqual(badId.status, 400);
+  assert.deepStrictEqual(badId.body.details.issues, [{ path: "path.id", message: "must be a UUID" }]);
+
+  const badBody = await server.request("POST", "/toolbox/folders", { name: 42 });
+  assert.strictEqual(badBody.status, 400);
+  assert.deepStrictEqual(badBody.body.details.issues, [{ path: "body.name", message: "expected string, got number" }]);
+
+  const original = console.warn;
+  console.warn = () => {};
+  t.after(() => {
+    console.warn = original;
+  });
+  const badAnswer = await server.request("GET", "/notifications/unread-count");
+  assert.strictEqual(badAnswer.status, 500);
+  assert.strictEqual(badAnswer.body.code, "SERVER_ERROR");
+  assert.deepStrictEqual(badAnswer.body.details.issues, [
+    { path: "response.count", message: "expected integer, got string" },
+  ]);
+});
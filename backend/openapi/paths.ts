@@ -0,0 +1,1061 @@
+/**
+ * Operations of the API document, one entry per route
+ *
+ * Paths are relative to the /api server URL and use the routers' parameter
+ * names. `id` is the operationId, which is also the name the generated
+ * client (utils/api.generated.ts) knows the operation by. Request bodies
+ * list the fields handlers read; other fields are allowed and ignored.
+ * Query parameters arrive as strings and are checked after conversion.
+ */
+import {
+  Schema,
+  arrayOf,
+  boolean,
+  enumOf,
+  integer,
+  nullable,
+  object,
+  ref,
+  string,
+  uuid,
+} from "./schemas";
+
+export type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+
+/**
+ * authMiddleware routes are `required`, optionalAuth ones `optional`
+ */
+export type AuthRequirement = "required" | "optional" | "none";
+
+export interface OperationSpec {
+  method: HttpMethod;
+  path: string;
+  id: string;
+  tag: string;
+  summary: string;
+  auth: AuthRequirement;
+  /** Path parameters; plain strings unless given, `uuid` for row ids */
+  params?: Record<string, Schema>;
+  query?: Record<string, Schema>;
+  /** JSON request body */
+  body?: Schema;
+  /** Content type of a non-JSON request body */
+  rawBody?: string;
+  /** Status of the success answer, 200 unless given */
+  status?: number;
+  /** Other success statuses answered with the same body */
+  alsoStatus?: number[];
+  /** JSON success body; null when the answer is not JSON */
+  response: Schema | null;
+  /** Content types the success answer may also come as */
+  alternatives?: string[];
+}
+
+const page = { cursor: string, limit: integer };
+
+function pageOf(item: string): Schema {
+  return object({ items: arrayOf(ref(item)), nextCursor: nullable(string) });
+}
+
+// Recorded on the session for the signed-in devices screen
+const device = { deviceName: string, platform: string };
+
+const targetUser = object({ targetUserId: uuid });
+
+export const operations: OperationSpec[] = [
+  /* ---------- META ---------- */
+  {
+    method: "get",
+    path: "/health",
+    id: "getHealth",
+    tag: "meta",
+    summary: "Liveness check",
+    auth: "none",
+    response: ref("Health"),
+  },
+  {
+    method: "get",
+    path: "/openapi.json",
+    id: "getOpenApiDocument",
+    tag: "meta",
+    summary: "This document",
+    auth: "none",
+    response: object({}),
+  },
+  {
+    method: "get",
+    path: "/docs",
+    id: "getApiDocs",
+    tag: "meta",
+    summary: "This document, browsable (HTML)",
+    auth: "none",
+    response: null,
+    alternatives: ["text/html"],
+  },
+  {
+    method: "post",
+    path: "/stripe/webhook/{uuid}",
+    id: "receiveStripeWebhook",
+    tag: "meta",
+    summary: "Stripe event delivery, checked against the stripe-signature header",
+    auth: "none",
+    rawBody: "application/json",
+    response: ref("WebhookReceipt"),
+  },
+
+  /* ---------- AUTH ---------- */
+  {
+    method: "post",
+    path: "/auth/register",
+    id: "register",
+    tag: "auth",
+    summary: "Create an account and sign in",
+    auth: "none",
+    body: object({ email: string, password: string, displayName: string }, device),
+    status: 201,
+    response: ref("SignInResult"),
+  },
+  {
+    method: "post",
+    path: "/auth/login",
+    id: "login",
+    tag: "auth",
+    summary: "Sign in with email and password",
+    auth: "none",
+    body: object({ email: string, password: string }, device),
+    response: ref("SignInResult"),
+  },
+  {
+    method: "post",
+    path: "/auth/oauth/{provider}",
+    id: "signInWithProvider",
+    tag: "auth",
+    summary:
+      "Sign in with an Apple or Google ID token; 201 when the account is new. " +
+      "ACCOUNT_LINK_REQUIRED when the email has a password account, which `password` links.",
+    auth: "none",
+    params: { provider: ref("OAuthProvider") },
+    body: object({ idToken: string }, { displayName: string, password: string, ...device }),
+    alsoStatus: [201],
+    response: ref("SignInResult"),
+  },
+  {
+    method: "post",
+    path: "/auth/refresh",
+    id: "refreshSession",
+    tag: "auth",
+    summary: "Trade a refresh token for a new token pair",
+    auth: "none",
+    body: object({ refreshToken: string }),
+    response: ref("SessionTokens"),
+  },
+  {
+    method: "post",
+    path: "/auth/logout",
+    id: "logout",
+    tag: "auth",
+    summary: "End the session of a refresh token",
+    auth: "none",
+    body: object({}, { refreshToken: string }),
+    response: ref("Message"),
+  },
+  {
+    method: "post",
+    path: "/auth/forgot-password",
+    id: "forgotPassword",
+    tag: "auth",
+    summary: "Email a password reset link",
+    auth: "none",
+    body: object({ email: string }),
+    response: ref("Message"),
+  },
+  {
+    method: "post",
+    path: "/auth/reset-password",
+    id: "resetPassword",
+    tag: "auth",
+    summary: "Set a new password with an emailed reset token",
+    auth: "none",
+    body: object({ token: string, newPassword: string }),
+    response: ref("Message"),
+  },
+  {
+    method: "get",
+    path: "/auth/me",
+    id: "getMe",
+    tag: "auth",
+    summary: "The signed-in account",
+    auth: "required",
+    response: ref("User"),
+  },
+  {
+    method: "put",
+    path: "/auth/me",
+    id: "updateProfile",
+    tag: "auth",
+    summary: "Change profile fields; missing fields are kept",
+    auth: "required",
+    body: object(
+      {},
+      { displayName: string, bio: { type: "string", maxLength: 150 }, avatarUrl: string, expertiseCategories: arrayOf(string) }
+    ),
+    response: ref("User"),
+  },
+  {
+    method: "put",
+    path: "/auth/password",
+    id: "changePassword",
+    tag: "auth",
+    summary: "Change the password",
+    auth: "required",
+    body: object({ currentPassword: string, newPassword: string }),
+    response: ref("Message"),
+  },
+  {
+    method: "post",
+    path: "/auth/verify-email",
+    id: "verifyEmail",
+    tag: "auth",
+    summary: "Open an emailed verification or email change link",
+    auth: "none",
+    body: object({ token: string }),
+    response: ref("EmailVerificationResult"),
+  },
+  {
+    method: "post",
+    path: "/auth/verify-email/resend",
+    id: "resendVerificationEmail",
+    tag: "auth",
+    summary: "Send the verification email again",
+    auth: "required",
+    response: ref("Message"),
+  },
+  {
+    method: "post",
+    path: "/auth/change-email",
+    id: "changeEmail",
+    tag: "auth",
+    summary: "Start an email change; it takes effect once both emailed links are opened",
+    auth: "required",
+    body: object({ newEmail: string, password: string }),
+    response: ref("User"),
+  },
+  {
+    method: "delete",
+    path: "/auth/change-email",
+    id: "cancelEmailChange",
+    tag: "auth",
+    summary: "Cancel a pending email change",
+    auth: "required",
+    response: ref("User"),
+  },
+  {
+    method: "get",
+    path: "/auth/identities",
+    id: "getLinkedIdentities",
+    tag: "auth",
+    summary: "Apple and Google sign-ins linked to the account",
+    auth: "required",
+    response: arrayOf(ref("LinkedIdentity")),
+  },
+  {
+    method: "post",
+    path: "/auth/identities/{provider}",
+    id: "linkIdentity",
+    tag: "auth",
+    summary: "Link an Apple or Google sign-in",
+    auth: "required",
+    params: { provider: ref("OAuthProvider") },
+    body: object({ idToken: string }),
+    response: arrayOf(ref("LinkedIdentity")),
+  },
+  {
+    method: "delete",
+    path: "/auth/identities/{provider}",
+    id: "unlinkIdentity",
+    tag: "auth",
+    summary: "Unlink an Apple or Google sign-in",
+    auth: "required",
+    params: { provider: ref("OAuthProvider") },
+    response: arrayOf(ref("LinkedIdentity")),
+  },
+  {
+    method: "get",
+    path: "/auth/sessions",
+    id: "getSessions",
+    tag: "auth",
+    summary: "Devices signed in to the account",
+    auth: "required",
+    response: arrayOf(ref("AuthSession")),
+  },
+  {
+    method: "delete",
+    path: "/auth/sessions",
+    id: "revokeOtherSessions",
+    tag: "auth",
+    summary: "Sign out every device except this one",
+    auth: "required",
+    response: ref("RevokedSessions"),
+  },
+  {
+    method: "delete",
+    path: "/auth/sessions/{id}",
+    id: "revokeSession",
+    tag: "auth",
+    summary: "Sign out one device",
+    auth: "required",
+    params: { id: uuid },
+    response: ref("RevokedSessions"),
+  },
+
+  /* ---------- VIDEOS ---------- */
+  {
+    method: "get",
+    path: "/videos",
+    id: "getVideos",
+    tag: "videos",
+    summary: "Browse and search videos",
+    auth: "optional",
+    query: { category: string, tag: string, search: string, sort: enumOf("recent", "popular"), ...page },
+    response: pageOf("Video"),
+  },
+  {
+    method: "get",
+    path: "/videos/feed",
+    id: "getFeed",
+    tag: "videos",
+    summary: "A section of the home feed",
+    auth: "optional",
+    query: { section: ref("FeedSection"), ...page },
+    response: pageOf("Video"),
+  },
+  {
+    method: "post",
+    path: "/videos",
+    id: "createVideo",
+    tag: "videos",
+    summary: "Publish a video",
+    auth: "required",
+    body: ref("CreateVideoData"),
+    status: 201,
+    response: ref("Video"),
+  },
+  {
+    method: "post",
+    path: "/videos/import-local",
+    id: "importLocalActivity",
+    tag: "videos",
+    summary: "Import likes, saves and comments made before signing in",
+    auth: "required",
+    body: ref("LocalActivity"),
+    response: ref("LocalActivityImport"),
+  },
+  {
+    method: "get",
+    path: "/videos/{id}",
+    id: "getVideo",
+    tag: "videos",
+    summary: "One video",
+    auth: "optional",
+    params: { id: uuid },
+    response: ref("Video"),
+  },
+  {
+    method: "delete",
+    path: "/videos/{id}",
+    id: "deleteVideo",
+    tag: "videos",
+    summary: "Delete one of your videos",
+    auth: "required",
+    params: { id: uuid },
+    response: ref("Message"),
+  },
+  {
+    method: "post",
+    path: "/videos/{id}/like",
+    id: "likeVideo",
+    tag: "videos",
+    summary: "Like or unlike; toggles when `liked` is missing",
+    auth: "required",
+    params: { id: uuid },
+    body: object({}, { liked: boolean }),
+    response: ref("VideoLike"),
+  },
+  {
+    method: "post",
+    path: "/videos/{id}/save",
+    id: "saveVideo",
+    tag: "videos",
+    summary: "Save to or remove from the toolbox; toggles when `saved` is missing",
+    auth: "required",
+    params: { id: uuid },
+    body: object({}, { saved: boolean, folderId: uuid }),
+    response: ref("VideoSave"),
+  },
+  {
+    method: "post",
+    path: "/videos/{id}/watch",
+    id: "recordVideoWatch",
+    tag: "videos",
+    summary: "Record a watch, awarding XP the first time",
+    auth: "required",
+    params: { id: uuid },
+    response: ref("VideoWatch"),
+  },
+  {
+    method: "get",
+    path: "/videos/{id}/comments",
+    id: "getComments",
+    tag: "videos",
+    summary: "Comments on a video",
+    auth: "optional",
+    params: { id: uuid },
+    response: arrayOf(ref("Comment")),
+  },
+  {
+    method: "post",
+    path: "/videos/{id}/comments",
+    id: "addComment",
+    tag: "videos",
+    summary: "Comment on a video",
+    auth: "required",
+    params: { id: uuid },
+    body: object({ content: string }),
+    status: 201,
+    response: ref("Comment"),
+  },
+  {
+    method: "post",
+    path: "/videos/{id}/report",
+    id: "reportVideo",
+    tag: "videos",
+    summary: "Report a video",
+    auth: "required",
+    params: { id: uuid },
+    body: object({ reason: string }, { description: string }),
+    status: 201,
+    response: ref("Message"),
+  },
+
+  /* ---------- CAPTIONS ---------- */
+  {
+    method: "get",
+    path: "/videos/{videoId}/captions",
+    id: "getVideoCaptionTracks",
+    tag: "captions",
+    summary: "Caption tracks of a video",
+    auth: "optional",
+    params: { videoId: uuid },
+    response: ref("VideoCaptionTrackList"),
+  },
+  {
+    method: "get",
+    path: "/videos/{videoId}/captions/{language}",
+    id: "getVideoCaptions",
+    tag: "captions",
+    summary: "Cues in one language, machine-translated on first request when signed in; WebVTT with ?format=vtt",
+    auth: "optional",
+    params: { videoId: uuid },
+    query: { format: enumOf("vtt") },
+    response: ref("VideoCaptions"),
+    alternatives: ["text/vtt"],
+  },
+  {
+    method: "put",
+    path: "/videos/{videoId}/captions/{language}",
+    id: "uploadVideoCaptions",
+    tag: "captions",
+    summary: "Replace a track with a WebVTT file",
+    auth: "required",
+    params: { videoId: uuid },
+    body: object({ vtt: string }),
+    response: ref("VideoCaptions"),
+  },
+  {
+    method: "post",
+    path: "/videos/{videoId}/captions/transcribe",
+    id: "transcribeVideo",
+    tag: "captions",
+    summary: "Transcribe the video into captions in the background",
+    auth: "required",
+    params: { videoId: uuid },
+    status: 202,
+    response: ref("CaptionTranscription"),
+  },
+  {
+    method: "delete",
+    path: "/videos/{videoId}/captions/{language}",
+    id: "deleteVideoCaptions",
+    tag: "captions",
+    summary: "Delete a track",
+    auth: "required",
+    params: { videoId: uuid },
+    response: ref("Success"),
+  },
+
+  /* ---------- UPLOADS ---------- */
+  {
+    method: "post",
+    path: "/uploads",
+    id: "createVideoUpload",
+    tag: "uploads",
+    summary: "Start a resumable video upload",
+    auth: "required",
+    body: object({ totalSize: integer }, { fileName: string, mimeType: string }),
+    status: 201,
+    response: ref("VideoUploadStatus"),
+  },
+  {
+    method: "get",
+    path: "/uploads/{uploadId}",
+    id: "getVideoUpload",
+    tag: "uploads",
+    summary: "Progress of an upload",
+    auth: "required",
+    params: { uploadId: uuid },
+    response: ref("VideoUploadStatus"),
+  },
+  {
+    method: "put",
+    path: "/uploads/{uploadId}/chunk",
+    id: "uploadVideoChunk",
+    tag: "uploads",
+    summary:
+      "Append raw bytes at the Upload-Offset header; CONFLICT with the current status as details on a mismatch",
+    auth: "required",
+    params: { uploadId: uuid },
+    rawBody: "application/octet-stream",
+    response: ref("VideoUploadStatus"),
+  },
+  {
+    method: "post",
+    path: "/uploads/{uploadId}/complete",
+    id: "completeVideoUpload",
+    tag: "uploads",
+    summary: "Finish an upload once every byte has arrived",
+    auth: "required",
+    params: { uploadId: uuid },
+    response: ref("VideoUploadStatus"),
+  },
+  {
+    method: "delete",
+    path: "/uploads/{uploadId}",
+    id: "cancelVideoUpload",
+    tag: "uploads",
+    summary: "Cancel an upload",
+    auth: "required",
+    params: { uploadId: uuid },
+    response: ref("Success"),
+  },
+
+  /* ---------- USERS ---------- */
+  {
+    method: "get",
+    path: "/users/me/export",
+    id: "exportData",
+    tag: "users",
+    summary: "Everything stored for the account, as a download",
+    auth: "required",
+    response: ref("DataExport"),
+  },
+  {
+    method: "delete",
+    path: "/users/me",
+    id: "deleteAccount",
+    tag: "users",
+    summary: "Cancel any subscription and delete the account and everything in it",
+    auth: "required",
+    response: ref("Message"),
+  },
+  {
+    method: "get",
+    path: "/users/{id}",
+    id: "getUser",
+    tag: "users",
+    summary: "Someone's public profile",
+    auth: "optional",
+    params: { id: uuid },
+    response: ref("UserProfile"),
+  },
+  {
+    method: "get",
+    path: "/users/{id}/videos",
+    id: "getUserVideos",
+    tag: "users",
+    summary: "Someone's videos",
+    auth: "optional",
+    params: { id: uuid },
+    query: page,
+    response: pageOf("Video"),
+  },
+  {
+    method: "post",
+    path: "/users/{id}/follow",
+    id: "followUser",
+    tag: "users",
+    summary: "Follow or unfollow",
+    auth: "required",
+    params: { id: uuid },
+    response: ref("FollowState"),
+  },
+  {
+    method: "post",
+    path: "/block",
+    id: "blockUser",
+    tag: "users",
+    summary: "Block a user",
+    auth: "required",
+    body: targetUser,
+    response: ref("BlockResult"),
+  },
+  {
+    method: "post",
+    path: "/unblock",
+    id: "unblockUser",
+    tag: "users",
+    summary: "Unblock a user",
+    auth: "required",
+    body: targetUser,
+    response: ref("BlockResult"),
+  },
+
+  /* ---------- TOOLBOX ---------- */
+  {
+    method: "get",
+    path: "/toolbox/saved",
+    id: "getSavedVideos",
+    tag: "toolbox",
+    summary: "Saved videos, optionally of one folder",
+    auth: "required",
+    query: { folderId: { anyOf: [uuid, enumOf("uncategorized")] }, ...page },
+    response: pageOf("SavedVideo"),
+  },
+  {
+    method: "get",
+    path: "/toolbox/folders",
+    id: "getFolders",
+    tag: "toolbox",
+    summary: "Toolbox folders",
+    auth: "required",
+    response: ref("FolderList"),
+  },
+  {
+    method: "post",
+    path: "/toolbox/folders",
+    id: "createFolder",
+    tag: "toolbox",
+    summary: "Create a folder",
+    auth: "required",
+    body: object({ name: string }),
+    status: 201,
+    response: ref("Folder"),
+  },
+  {
+    method: "put",
+    path: "/toolbox/folders/{id}",
+    id: "updateFolder",
+    tag: "toolbox",
+    summary: "Rename a folder",
+    auth: "required",
+    params: { id: uuid },
+    body: object({ name: string }),
+    response: ref("Folder"),
+  },
+  {
+    method: "delete",
+    path: "/toolbox/folders/{id}",
+    id: "deleteFolder",
+    tag: "toolbox",
+    summary: "Delete a folder; its videos stay saved",
+    auth: "required",
+    params: { id: uuid },
+    response: ref("Message"),
+  },
+  {
+    method: "put",
+    path: "/toolbox/saved/{videoId}/folder",
+    id: "moveVideoToFolder",
+    tag: "toolbox",
+    summary: "File a saved video in a folder, or none",
+    auth: "required",
+    params: { videoId: uuid },
+    body: object({ folderId: nullable(uuid) }),
+    response: ref("Message"),
+  },
+
+  /* ---------- NOTIFICATIONS ---------- */
+  {
+    method: "get",
+    path: "/notifications",
+    id: "getNotifications",
+    tag: "notifications",
+    summary: "Recent notifications",
+    auth: "required",
+    response: arrayOf(ref("Notification")),
+  },
+  {
+    method: "get",
+    path: "/notifications/unread-count",
+    id: "getUnreadCount",
+    tag: "notifications",
+    summary: "Number of unread notifications",
+    auth: "required",
+    response: ref("UnreadCount"),
+  },
+  {
+    method: "put",
+    path: "/notifications/{id}/read",
+    id: "markNotificationRead",
+    tag: "notifications",
+    summary: "Mark one notification read",
+    auth: "required",
+    params: { id: uuid },
+    response: ref("Message"),
+  },
+  {
+    method: "put",
+    path: "/notifications/read-all",
+    id: "markAllNotificationsRead",
+    tag: "notifications",
+    summary: "Mark every notification read",
+    auth: "required",
+    response: ref("Message"),
+  },
+  {
+    method: "delete",
+    path: "/notifications/{id}",
+    id: "deleteNotification",
+    tag: "notifications",
+    summary: "Delete a notification",
+    auth: "required",
+    params: { id: uuid },
+    response: ref("Message"),
+  },
+
+  /* ---------- COMMUNITY ---------- */
+  {
+    method: "get",
+    path: "/community",
+    id: "getCommunityPosts",
+    tag: "community",
+    summary: "Questions, newest first",
+    auth: "optional",
+    query: { category: string, status: string, limit: integer, offset: integer },
+    response: arrayOf(ref("CommunityPost")),
+  },
+  {
+    method: "get",
+    path: "/community/{id}",
+    id: "getCommunityPost",
+    tag: "community",
+    summary: "One question",
+    auth: "optional",
+    params: { id: uuid },
+    response: ref("CommunityPost"),
+  },
+  {
+    method: "post",
+    path: "/community",
+    id: "createCommunityPost",
+    tag: "community",
+    summary: "Ask a question",
+    auth: "required",
+    body: ref("CreatePostData"),
+    status: 201,
+    response: ref("CommunityPost"),
+  },
+  {
+    method: "get",
+    path: "/community/{id}/comments",
+    id: "getPostComments",
+    tag: "community",
+    summary: "Answers to a question",
+    auth: "optional",
+    params: { id: uuid },
+    response: arrayOf(ref("CommunityComment")),
+  },
+  {
+    method: "post",
+    path: "/community/{id}/comments",
+    id: "addPostComment",
+    tag: "community",
+    summary: "Answer a question, optionally linking a video",
+    auth: "required",
+    params: { id: uuid },
+    body: object({ content: string }, { linkedVideoId: uuid }),
+    status: 201,
+    response: ref("CommunityComment"),
+  },
+  {
+    method: "put",
+    path: "/community/{postId}/comments/{commentId}/solution",
+    id: "markCommentAsSolution",
+    tag: "community",
+    summary: "Mark an answer to your question as the solution",
+    auth: "required",
+    params: { postId: uuid, commentId: uuid },
+    response: ref("Success"),
+  },
+
+  /* ---------- REPORTS ---------- */
+  {
+    method: "post",
+    path: "/reports",
+    id: "submitReport",
+    tag: "reports",
+    summary: "Report a video, profile or comment",
+    auth: "required",
+    body: object(
+      { contentType: enumOf("video", "profile", "comment"), reason: string },
+      { targetUserId: uuid, contentId: uuid, message: string }
+    ),
+    status: 201,
+    response: ref("ReportReceipt"),
+  },
+
+  /* ---------- SUBSCRIPTIONS ---------- */
+  {
+    method: "get",
+    path: "/subscriptions/status",
+    id: "getSubscriptionStatus",
+    tag: "subscriptions",
+    summary: "Plan, today's usage and prices",
+    auth: "required",
+    response: ref("SubscriptionStatus"),
+  },
+  {
+    method: "get",
+    path: "/subscriptions/check-image-limit",
+    id: "checkImageLimit",
+    tag: "subscriptions",
+    summary: "Whether another image may be analysed today",
+    auth: "required",
+    response: ref("ImageLimitCheck"),
+  },
+  {
+    method: "post",
+    path: "/subscriptions/start-trial",
+    id: "startTrial",
+    tag: "subscriptions",
+    summary: "Start the free trial",
+    auth: "required",
+    response: ref("TrialStarted"),
+  },
+  {
+    method: "post",
+    path: "/subscriptions/create-checkout",
+    id: "createCheckoutSession",
+    tag: "subscriptions",
+    summary: "Stripe Checkout for the paid plan",
+    auth: "required",
+    response: ref("CheckoutSession"),
+  },
+  {
+    method: "post",
+    path: "/subscriptions/cancel",
+    id: "cancelSubscription",
+    tag: "subscriptions",
+    summary: "Cancel at the end of the paid period",
+    auth: "required",
+    response: ref("SubscriptionChange"),
+  },
+  {
+    method: "post",
+    path: "/subscriptions/reactivate",
+    id: "reactivateSubscription",
+    tag: "subscriptions",
+    summary: "Undo a cancellation before the period ends",
+    auth: "required",
+    response: ref("SubscriptionChange"),
+  },
+
+  /* ---------- AI ---------- */
+  {
+    method: "post",
+    path: "/ai/ask-ai",
+    id: "askAI",
+    tag: "ai",
+    summary: "One-off question",
+    auth: "optional",
+    body: object({ question: string }, { language: string }),
+    response: ref("AIAnswer"),
+  },
+  {
+    method: "post",
+    path: "/ai/chat",
+    id: "chat",
+    tag: "ai",
+    summary: "Chat reply; streamed as Server-Sent Events with Accept: text/event-stream",
+    auth: "optional",
+    body: object(
+      { messages: { ...arrayOf(object({ role: string, content: string })), minItems: 1 } },
+      { language: string, imageBase64: string, videoFileName: string }
+    ),
+    response: ref("AIAnswer"),
+    alternatives: ["text/event-stream"],
+  },
+  {
+    method: "post",
+    path: "/ai/liveassist",
+    id: "liveAssist",
+    tag: "ai",
+    summary: "Analyse a photo of the problem",
+    auth: "optional",
+    body: object({ imageBase64: string }, { language: string }),
+    response: ref("LiveAssistResponse"),
+  },
+  {
+    method: "post",
+    path: "/ai/liveassist/session",
+    id: "createLiveAssistSession",
+    tag: "ai",
+    summary: "Start a LiveAssist conversation",
+    auth: "optional",
+    body: object({}, { title: string }),
+    response: ref("LiveAssistSessionCreated"),
+  },
+  {
+    method: "get",
+    path: "/ai/liveassist/sessions",
+    id: "getLiveAssistSessions",
+    tag: "ai",
+    summary: "Your LiveAssist conversations, pinned first",
+    auth: "required",
+    response: ref("LiveAssistSessionList"),
+  },
+  {
+    method: "get",
+    path: "/ai/liveassist/latest-session",
+    id: "getLatestLiveAssistSession",
+    tag: "ai",
+    summary: "Your most recent LiveAssist conversation",
+    auth: "required",
+    response: ref("LatestLiveAssistSession"),
+  },
+  {
+    method: "patch",
+    path: "/ai/liveassist/session/{sessionId}",
+    id: "updateLiveAssistSession",
+    tag: "ai",
+    summary: "Rename or pin a conversation",
+    auth: "required",
+    params: { sessionId: uuid },
+    body: object({}, { title: { type: "string", maxLength: 100 }, isPinned: boolean }),
+    response: ref("LiveAssistSessionUpdate"),
+  },
+  {
+    method: "delete",
+    path: "/ai/liveassist/session/{sessionId}",
+    id: "deleteLiveAssistSession",
+    tag: "ai",
+    summary: "Delete a conversation",
+    auth: "required",
+    params: { sessionId: uuid },
+    response: ref("Message"),
+  },
+  {
+    method: "get",
+    path: "/ai/liveassist/session/{sessionId}/thumbnail",
+    id: "getLiveAssistSessionThumbnail",
+    tag: "ai",
+    summary: "First photo of one of your conversations; redirects for linked images",
+    auth: "required",
+    params: { sessionId: uuid },
+    response: null,
+    alternatives: ["image/jpeg", "image/png", "image/webp", "image/gif", "image/heic"],
+  },
+  {
+    method: "get",
+    path: "/ai/liveassist/session/{sessionId}/messages",
+    id: "getLiveAssistSessionMessages",
+    tag: "ai",
+    summary: "Messages of a conversation and its step progress",
+    auth: "optional",
+    params: { sessionId: uuid },
+    response: ref("LiveAssistThread"),
+  },
+  {
+    method: "post",
+    path: "/ai/liveassist/session/{sessionId}/message",
+    id: "sendLiveAssistMessage",
+    tag: "ai",
+    summary: "Send text and photos; streamed as Server-Sent Events with Accept: text/event-stream",
+    auth: "optional",
+    params: { sessionId: uuid },
+    body: object({}, { text: string, images: arrayOf(string), language: string }),
+    response: ref("LiveAssistSessionMessage"),
+    alternatives: ["text/event-stream"],
+  },
+  {
+    method: "patch",
+    path: "/ai/liveassist/session/{sessionId}/steps/{stepId}",
+    id: "updateLiveAssistStepProgress",
+    tag: "ai",
+    summary: "Check off a step of a conversation",
+    auth: "optional",
+    params: { sessionId: uuid },
+    body: object({}, { completed: boolean }),
+    response: ref("LiveAssistStepProgress"),
+  },
+  {
+    method: "patch",
+    path: "/ai/liveassist/messages/{messageId}/steps/{stepIndex}",
+    id: "toggleMessageStep",
+    tag: "ai",
+    summary: "Set a step of a reply in one of your conversations done; toggles when `done` is missing",
+    auth: "required",
+    params: { messageId: uuid, stepIndex: integer },
+    body: object({}, { done: boolean }),
+    response: ref("LiveAssistMessageUpdate"),
+  },
+  {
+    method: "post",
+    path: "/ai/suggest-tags",
+    id: "suggestTags",
+    tag: "ai",
+    summary: "Tags for a new video",
+    auth: "required",
+    body: object({ title: string }, { description: string, category: string }),
+    response: ref("TagSuggestions"),
+  },
+  {
+    method: "post",
+    path: "/ai/generate-description",
+    id: "generateDescription",
+    tag: "ai",
+    summary: "Description for a new video",
+    auth: "required",
+    body: object({ title: string }, { category: string, tags: arrayOf(string) }),
+    response: ref("GeneratedDescription"),
+  },
+  {
+    method: "post",
+    path: "/ai/moderate-content",
+    id: "moderateContent",
+    tag: "ai",
+    summary: "Check a new video's text before publishing",
+    auth: "required",
+    body: object({}, { title: string, description: string, tags: arrayOf(string) }),
+    response: ref("ModerationResult"),
+  },
+  {
+    method: "post",
+    path: "/ai/generate-guide",
+    id: "generateGuide",
+    tag: "ai",
+    summary: "Step-by-step guide, with illustrations unless includeImages is false",
+    auth: "optional",
+    body: object({ query: string }, { language: string, includeImages: boolean }),
+    response: ref("AIGuide"),
+  },
+  {
+    method: "post",
+    path: "/ai/semantic-search",
+    id: "semanticSearch",
+    tag: "ai",
+    summary: "Videos by meaning rather than keywords",
+    auth: "optional",
+    body: object({ query: string }, { category: string, limit: integer }),
+    response: arrayOf(ref("Video")),
+  },
+];
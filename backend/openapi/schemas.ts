@@ -0,0 +1,617 @@
+/**
+ * Component schemas of the API document
+ *
+ * Written with the small builders below instead of raw JSON Schema. Every
+ * component marked `x-shared-type` mirrors the declaration of the same name
+ * in shared/types (or shared/liveAssistSchema) field for field, which
+ * openapi.test.js checks; the generated client imports those declarations
+ * instead of redeclaring them. The rest exist only here and are generated
+ * into utils/api.generated.ts.
+ *
+ * Optional fields may also be null: serializers pass NULL columns through
+ * and the app reads null and missing alike.
+ */
+
+/**
+ * The part of OpenAPI 3.0 Schema Objects this API uses; openapi/validate.ts
+ * checks values against it and generate-client.ts turns it into types
+ */
+export interface Schema {
+  type?: "string" | "number" | "integer" | "boolean" | "object" | "array";
+  format?: string;
+  description?: string;
+  nullable?: boolean;
+  enum?: (string | number | boolean)[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  items?: Schema;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  additionalProperties?: boolean | Schema;
+  $ref?: string;
+  allOf?: Schema[];
+  oneOf?: Schema[];
+  anyOf?: Schema[];
+  /** Declared with the same name in shared/types or shared/liveAssistSchema */
+  "x-shared-type"?: SharedModule;
+}
+
+export type SharedModule = "types" | "liveAssistSchema";
+
+export const string: Schema = { type: "string" };
+export const number: Schema = { type: "number" };
+export const integer: Schema = { type: "integer" };
+export const boolean: Schema = { type: "boolean" };
+export const dateTime: Schema = { type: "string", format: "date-time" };
+// Row ids, which Postgres generates with gen_random_uuid()
+export const uuid: Schema = { type: "string", format: "uuid" };
+
+export function ref(name: string): Schema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+export function arrayOf(items: Schema): Schema {
+  return { type: "array", items };
+}
+
+export function enumOf(...values: string[]): Schema {
+  return { type: "string", enum: values };
+}
+
+// $ref cannot carry siblings in 3.0, so a nullable reference is wrapped
+export function nullable(schema: Schema): Schema {
+  return schema.$ref ? { allOf: [schema], nullable: true } : { ...schema, nullable: true };
+}
+
+export function recordOf(values: Schema): Schema {
+  return { type: "object", additionalProperties: values };
+}
+
+/**
+ * Object with `required` fields that must be present and `optional` ones
+ * that may be missing or null
+ */
+export function object(required: Record<string, Schema>, optional: Record<string, Schema> = {}): Schema {
+  const properties = { ...required };
+  Object.entries(optional).forEach(([name, schema]) => {
+    properties[name] = nullable(schema);
+  });
+  return {
+    type: "object",
+    properties,
+    ...(Object.keys(required).length > 0 && { required: Object.keys(required) }),
+  };
+}
+
+function shared(schema: Schema, module: SharedModule = "types"): Schema {
+  return { ...schema, "x-shared-type": module };
+}
+
+/* ---------- LIVEASSIST CONTENT (shared/liveAssistSchema) ---------- */
+
+const liveAssist = {
+  RiskSeverity: shared(enumOf("low", "medium", "high"), "liveAssistSchema"),
+  SparePartPriority: shared(enumOf("primary", "optional"), "liveAssistSchema"),
+  LiveAssistStep: shared(object({ stepNumber: number, text: string }), "liveAssistSchema"),
+  LiveAssistOverlay: shared(
+    object({
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      stepIndex: nullable(integer),
+      label: string,
+    }),
+    "liveAssistSchema"
+  ),
+  RiskEntry: shared(
+    object({ label: string, severity: ref("RiskSeverity"), recommendation: string }),
+    "liveAssistSchema"
+  ),
+  RiskOverlay: shared(
+    object({
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      riskLabel: string,
+      severity: ref("RiskSeverity"),
+    }),
+    "liveAssistSchema"
+  ),
+  SparePart: shared(
+    object({
+      name: string,
+      category: string,
+      description: string,
+      specs: arrayOf(string),
+      compatibility: string,
+      priority: ref("SparePartPriority"),
+      notes: string,
+      overlayIndex: nullable(integer),
+    }),
+    "liveAssistSchema"
+  ),
+  LiveAssistSessionStep: shared(
+    object({ id: string, text: string, detail: string, tools: arrayOf(string) }, { done: boolean }),
+    "liveAssistSchema"
+  ),
+  LiveAssistYouTubeLink: shared(object({ title: string, url: string }), "liveAssistSchema"),
+  SchemaIssue: shared(object({ path: string, message: string }), "liveAssistSchema"),
+};
+
+/* ---------- SHARED API TYPES (shared/types) ---------- */
+
+const userPreview = {
+  id: string,
+  displayName: string,
+};
+
+const userPreviewOptional = {
+  avatarUrl: string,
+  bio: string,
+};
+
+const videoRequired = {
+  id: string,
+  title: string,
+  category: string,
+  tags: arrayOf(string),
+  duration: number,
+  likesCount: integer,
+  commentsEnabled: boolean,
+  authorId: string,
+  authorName: string,
+  isLiked: boolean,
+  isSaved: boolean,
+  createdAt: dateTime,
+};
+
+const videoOptional = {
+  description: string,
+  videoUrl: string,
+  thumbnailUrl: string,
+  authorAvatar: string,
+  isYouTube: boolean,
+  youtubeId: string,
+  chapters: arrayOf(ref("VideoChapter")),
+  captionsStatus: ref("VideoCaptionsStatus"),
+  reason: ref("RecommendationReason"),
+  similarity: number,
+  xpAwarded: integer,
+};
+
+const commentRequired = {
+  id: string,
+  content: string,
+  authorId: string,
+  authorName: string,
+  createdAt: dateTime,
+};
+
+const commentOptional = {
+  authorAvatar: string,
+  pending: boolean,
+};
+
+const communityCommentRequired = {
+  id: string,
+  content: string,
+  isSolution: boolean,
+  authorId: string,
+  authorName: string,
+  createdAt: dateTime,
+};
+
+// XP fields are set on what createCommunityPost and addPostComment return
+const communityCommentOptional = {
+  authorAvatar: string,
+  linkedVideoId: string,
+  linkedVideoTitle: string,
+  linkedVideoThumbnail: string,
+  xpAwarded: integer,
+  totalXp: integer,
+  level: integer,
+  leveledUp: boolean,
+  pending: boolean,
+};
+
+const guideStep = { stepNumber: integer, text: string };
+
+const api = {
+  ErrorCode: shared(
+    enumOf(
+      "VALIDATION_FAILED",
+      "AUTH_REQUIRED",
+      "AUTH_INVALID",
+      "AUTH_EXPIRED",
+      "FORBIDDEN",
+      "NOT_FOUND",
+      "CONFLICT",
+      "ACCOUNT_LINK_REQUIRED",
+      "TOKEN_INVALID",
+      "EMAIL_NOT_VERIFIED",
+      "USER_BLOCKED",
+      "IMAGE_DAY_LIMIT",
+      "RATE_LIMITED",
+      "AI_BUDGET_EXCEEDED",
+      "AI_UNAVAILABLE",
+      "AI_FAILED",
+      "SERVICE_UNAVAILABLE",
+      "SERVER_ERROR"
+    )
+  ),
+  ErrorBody: shared(
+    object(
+      { error: string, code: ref("ErrorCode"), message: string, retryable: boolean },
+      { details: recordOf({}) }
+    )
+  ),
+  User: shared(
+    object(
+      {
+        id: string,
+        email: string,
+        emailVerified: boolean,
+        displayName: string,
+        followersCount: integer,
+        followingCount: integer,
+        xp: integer,
+        level: integer,
+        nextLevelXp: integer,
+        currentLevelXp: integer,
+      },
+      {
+        pendingEmail: string,
+        bio: string,
+        avatarUrl: string,
+        expertiseCategories: arrayOf(string),
+        createdAt: dateTime,
+        subscription_status: string,
+        subscription_expiry: string,
+        image_counter: integer,
+      }
+    )
+  ),
+  EmailVerificationResult: shared(
+    object({ status: enumOf("verified", "pending", "changed"), user: ref("User") })
+  ),
+  OAuthProvider: shared(enumOf("google", "apple")),
+  LinkedIdentity: shared(
+    object({ provider: ref("OAuthProvider"), createdAt: dateTime }, { email: string })
+  ),
+  SessionPlatform: shared(enumOf("ios", "android", "web")),
+  AuthSession: shared(
+    object(
+      { id: string, createdAt: dateTime, lastUsedAt: dateTime, current: boolean },
+      { deviceName: string, platform: ref("SessionPlatform") }
+    )
+  ),
+  UserPreview: shared(object(userPreview, userPreviewOptional)),
+  UserProfile: shared(
+    object(
+      { ...userPreview, followersCount: integer, followingCount: integer, isFollowing: boolean },
+      { ...userPreviewOptional, expertiseCategories: arrayOf(string), createdAt: dateTime, isBlocked: boolean }
+    )
+  ),
+  Video: shared(object(videoRequired, videoOptional)),
+  SavedVideo: shared(object(videoRequired, { ...videoOptional, folderId: string, folderName: string })),
+  FeedSection: shared(enumOf("recommended", "new", "popular")),
+  RecommendationReason: shared(
+    object(
+      {
+        type: enumOf("scan", "saved", "liked", "watched", "community", "expertise", "following", "new", "popular"),
+      },
+      { category: string, label: string }
+    )
+  ),
+  CreateVideoData: shared(
+    object(
+      { title: string, category: string, uploadId: uuid },
+      {
+        description: string,
+        tags: arrayOf(string),
+        thumbnailUrl: string,
+        commentsEnabled: boolean,
+        chapters: arrayOf(ref("VideoChapter")),
+        autoCaptions: boolean,
+      }
+    )
+  ),
+  VideoCaptionsStatus: shared(enumOf("none", "pending", "ready", "failed")),
+  CaptionCue: shared(object({ start: number, end: number, text: string })),
+  VideoCaptions: shared(
+    object({
+      language: string,
+      source: enumOf("upload", "auto", "translation"),
+      cues: arrayOf(ref("CaptionCue")),
+    })
+  ),
+  VideoCaptionTrackList: shared(
+    object({
+      status: ref("VideoCaptionsStatus"),
+      tracks: arrayOf(object({ language: string, source: enumOf("upload", "auto", "translation") })),
+      languages: arrayOf(string),
+    })
+  ),
+  VideoUploadStatus: shared(
+    object({
+      uploadId: string,
+      status: enumOf("uploading", "processing", "complete", "failed", "published"),
+      totalSize: integer,
+      receivedBytes: integer,
+      chunkSize: integer,
+      videoUrl: nullable(string),
+      duration: nullable(number),
+      thumbnailStatus: enumOf("pending", "ready", "failed", "unavailable"),
+      thumbnailUrls: arrayOf(string),
+      thumbnailUrl: nullable(string),
+    })
+  ),
+  Comment: shared(object(commentRequired, commentOptional)),
+  LocalActivity: shared(
+    object({
+      likedIds: arrayOf(string),
+      savedIds: arrayOf(string),
+      comments: arrayOf(object({ videoId: string, content: string, createdAt: dateTime })),
+    })
+  ),
+  Folder: shared(object({ id: string, name: string, videoCount: integer, createdAt: dateTime })),
+  Notification: shared(
+    object(
+      { id: string, type: string, title: string, isRead: boolean, createdAt: dateTime },
+      {
+        message: string,
+        relatedUserId: string,
+        relatedUserName: string,
+        relatedUserAvatar: string,
+        relatedVideoId: string,
+        relatedVideoTitle: string,
+      }
+    )
+  ),
+  GuideStep: shared(object(guideStep)),
+  VideoChapter: shared(object({ ...guideStep, startTime: number })),
+  GuideImage: shared(object({ url: string, caption: string })),
+  AIGuide: shared(
+    object(
+      { query: string, steps: arrayOf(ref("GuideStep")), images: arrayOf(ref("GuideImage")), language: string },
+      { id: string, createdAt: dateTime }
+    )
+  ),
+  CommunityPost: shared(
+    object(
+      {
+        id: string,
+        title: string,
+        description: string,
+        category: string,
+        status: enumOf("open", "answered", "solved"),
+        commentsCount: integer,
+        authorId: string,
+        authorName: string,
+        createdAt: dateTime,
+        updatedAt: dateTime,
+      },
+      {
+        imageUrl: string,
+        authorAvatar: string,
+        xpAwarded: integer,
+        totalXp: integer,
+        level: integer,
+        leveledUp: boolean,
+        pending: boolean,
+      }
+    )
+  ),
+  CreatePostData: shared(
+    object({ title: string, description: string, category: string }, { imageUrl: string })
+  ),
+  CommunityComment: shared(object(communityCommentRequired, communityCommentOptional)),
+  LiveAssistResponse: shared(
+    object(
+      {
+        success: boolean,
+        analysis: object(
+          {
+            summary: string,
+            possibleIssue: string,
+            steps: arrayOf(ref("LiveAssistStep")),
+            rawResponse: string,
+          },
+          {
+            safetyNote: string,
+            overlays: arrayOf(ref("LiveAssistOverlay")),
+            riskLevel: ref("RiskSeverity"),
+            riskSummary: string,
+            risks: arrayOf(ref("RiskEntry")),
+            riskOverlays: arrayOf(ref("RiskOverlay")),
+            spareParts: arrayOf(ref("SparePart")),
+          }
+        ),
+      },
+      {
+        validationErrors: arrayOf(ref("SchemaIssue")),
+        error: string,
+        subscription: ref("LiveAssistUsage"),
+      }
+    )
+  ),
+  LiveAssistUsage: shared(
+    object(
+      { isPremium: boolean, imagesUsedToday: integer, dailyLimit: nullable(integer) },
+      { remaining: integer }
+    )
+  ),
+  LiveAssistSessionMessage: shared(
+    object(
+      {
+        text: string,
+        steps: arrayOf(ref("LiveAssistSessionStep")),
+        youtube_links: arrayOf(ref("LiveAssistYouTubeLink")),
+        images_to_show: arrayOf(string),
+        safety_warnings: arrayOf(string),
+        structured: boolean,
+      },
+      { id: string, validationErrors: arrayOf(ref("SchemaIssue")) }
+    )
+  ),
+  LiveAssistSessionSummary: shared(
+    object({
+      id: string,
+      title: nullable(string),
+      isPinned: boolean,
+      hasImage: boolean,
+      thumbnailUrl: nullable(string),
+      messageCount: integer,
+      totalSteps: integer,
+      completedSteps: integer,
+      createdAt: dateTime,
+      updatedAt: dateTime,
+    })
+  ),
+  DataExport: shared(
+    object({
+      exportedAt: dateTime,
+      profile: ref("User"),
+      videos: arrayOf(ref("Video")),
+      comments: arrayOf(ref("ExportedComment")),
+      communityPosts: arrayOf(ref("CommunityPost")),
+      communityComments: arrayOf(ref("ExportedCommunityComment")),
+      liveAssistSessions: arrayOf(ref("ExportedLiveAssistSession")),
+      xpHistory: arrayOf(ref("XpHistoryEntry")),
+      notifications: arrayOf(ref("Notification")),
+    })
+  ),
+  ExportedComment: shared(object({ ...commentRequired, videoId: string }, commentOptional)),
+  ExportedCommunityComment: shared(
+    object({ ...communityCommentRequired, postId: string }, communityCommentOptional)
+  ),
+  ExportedLiveAssistSession: shared(
+    object({
+      id: string,
+      title: nullable(string),
+      isPinned: boolean,
+      stepProgress: recordOf(boolean),
+      createdAt: dateTime,
+      updatedAt: dateTime,
+      messages: arrayOf(ref("ExportedLiveAssistMessage")),
+    })
+  ),
+  ExportedLiveAssistMessage: shared(
+    object(
+      {
+        id: string,
+        role: enumOf("user", "assistant"),
+        text: string,
+        imageUrls: arrayOf(string),
+        createdAt: dateTime,
+      },
+      { analysisResult: ref("LiveAssistSessionMessage") }
+    )
+  ),
+  XpReason: shared(enumOf("daily_login", "community_answer")),
+  XpHistoryEntry: shared(object({ reason: ref("XpReason"), createdAt: dateTime }, { postId: string })),
+};
+
+/* ---------- RESPONSE SHAPES OF SINGLE ROUTES ---------- */
+
+const sessionTokens = {
+  token: string,
+  refreshToken: string,
+  // Seconds until the access token expires
+  expiresIn: integer,
+};
+
+const routes = {
+  SessionTokens: object(sessionTokens),
+  // Daily login XP is reported on the first sign-in of the day
+  SignInResult: object({ ...sessionTokens, user: ref("User") }, { xpAwarded: integer, leveledUp: boolean }),
+  Message: object({ message: string }),
+  Success: object({ success: boolean }),
+  RevokedSessions: object({ revoked: integer }),
+  VideoLike: object({ liked: boolean, likesCount: integer }),
+  VideoSave: object({ saved: boolean }),
+  VideoWatch: object({ success: boolean, xpAwarded: integer }, { totalXp: integer, level: integer }),
+  LocalActivityImport: object({ likesImported: integer, savesImported: integer, commentsImported: integer }),
+  FollowState: object({ following: boolean }),
+  FolderList: object({ folders: arrayOf(ref("Folder")), uncategorizedCount: integer }),
+  UnreadCount: object({ count: integer }),
+  ReportReceipt: object({ success: boolean, reportId: string, createdAt: dateTime }),
+  BlockResult: object({ status: string }, { message: string }),
+  CaptionTranscription: object({ status: ref("VideoCaptionsStatus") }),
+  SubscriptionStatus: object({
+    subscription: object({
+      plan: enumOf("free", "trial", "paid"),
+      status: nullable(string),
+      isActive: boolean,
+      isPremium: boolean,
+      trialEndsAt: nullable(dateTime),
+      paidUntil: nullable(dateTime),
+    }),
+    usage: object({
+      imagesUsedToday: integer,
+      // null for premium plans
+      dailyImageLimit: nullable(integer),
+      canUploadVideo: boolean,
+    }),
+    config: object({ priceSek: number, trialDays: integer }),
+  }),
+  // limit is null (unlimited) for premium plans
+  ImageLimitCheck: object(
+    { allowed: boolean },
+    {
+      reason: string,
+      isPremium: boolean,
+      imagesUsed: integer,
+      limit: integer,
+      remaining: integer,
+      message: string,
+    }
+  ),
+  TrialStarted: object({ success: boolean, trialStartedAt: dateTime, trialEndsAt: dateTime, message: string }),
+  CheckoutSession: object({ url: string, sessionId: string }),
+  SubscriptionChange: object({ success: boolean, message: string }, { accessUntil: dateTime }),
+  AIAnswer: object({ answer: string }),
+  LiveAssistSessionCreated: object({ sessionId: string }),
+  LiveAssistSessionList: object({ sessions: arrayOf(ref("LiveAssistSessionSummary")) }),
+  LiveAssistSessionUpdate: object({ id: string, title: nullable(string), isPinned: boolean, updatedAt: dateTime }),
+  LiveAssistThreadMessage: object(
+    {
+      id: string,
+      role: enumOf("user", "assistant"),
+      text: string,
+      imageUrls: arrayOf(string),
+      createdAt: dateTime,
+    },
+    { analysisResult: ref("LiveAssistSessionMessage") }
+  ),
+  LiveAssistThread: object({
+    messages: arrayOf(ref("LiveAssistThreadMessage")),
+    stepProgress: recordOf(boolean),
+  }),
+  LatestLiveAssistSession: object({ sessionId: nullable(string) }),
+  LiveAssistStepProgress: object({ success: boolean, stepId: string, completed: boolean }),
+  // Also pushed to the session's sockets as message.updated
+  LiveAssistMessageUpdate: object({
+    id: string,
+    sessionId: string,
+    sender: enumOf("user", "assistant"),
+    type: string,
+    content: string,
+    meta: ref("LiveAssistSessionMessage"),
+    createdAt: dateTime,
+    status: string,
+  }),
+  TagSuggestions: object({ tags: arrayOf(string) }),
+  GeneratedDescription: object({ description: string }),
+  ModerationResult: object({ approved: boolean, reason: nullable(string) }),
+  Health: object({ status: string, time: dateTime }),
+  WebhookReceipt: object({ received: boolean }),
+};
+
+export const components: Record<string, Schema> = { ...liveAssist, ...api, ...routes };
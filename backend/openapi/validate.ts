@@ -0,0 +1,165 @@
+/**
+ * Checks JSON values against the Schema subset in openapi/schemas.ts
+ *
+ * Small on purpose: the document only uses types, nullable, enums, the
+ * uuid and date-time formats, string and array lengths, number bounds,
+ * properties, $ref and the allOf/oneOf/anyOf combinators. Problems come back in the SchemaIssue shape the
+ * LiveAssist validators use, with the path of the offending field.
+ */
+import type { SchemaIssue } from "../../shared/liveAssistSchema";
+import type { Schema } from "./schemas";
+
+export type Components = Record<string, Schema>;
+
+const REF_PREFIX = "#/components/schemas/";
+
+export function resolve(schema: Schema, components: Components): Schema {
+  if (!schema.$ref) return schema;
+  const target = components[schema.$ref.slice(REF_PREFIX.length)];
+  if (!schema.$ref.startsWith(REF_PREFIX) || !target) {
+    throw new Error(`Unknown schema reference ${schema.$ref}`);
+  }
+  return resolve(target, components);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function hasType(value: unknown, type: NonNullable<Schema["type"]>): boolean {
+  switch (type) {
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return typeof value === "object" && value !== null && !Array.isArray(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+// RFC 3339, as Date#toISOString writes it
+const DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Formats this document checks; others, such as binary, only describe
+const FORMATS: Record<string, { test: (value: string) => boolean; message: string }> = {
+  uuid: { test: (value) => UUID_PATTERN.test(value), message: "must be a UUID" },
+  "date-time": {
+    test: (value) => DATE_TIME_PATTERN.test(value) && !Number.isNaN(Date.parse(value)),
+    message: "must be an RFC 3339 date-time",
+  },
+};
+
+function child(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * Problems with `value` against `schema`; empty when it fits.
+ * Properties set to undefined count as missing, as they would once sent.
+ */
+export function validate(value: unknown, schema: Schema, components: Components, path = ""): SchemaIssue[] {
+  const issue = (message: string): SchemaIssue[] => [{ path: path || "(root)", message }];
+  const resolved = resolve(schema, components);
+
+  if (value === null && (schema.nullable || resolved.nullable)) return [];
+
+  if (resolved.allOf) {
+    const problems = resolved.allOf.flatMap((part) => validate(value, part, components, path));
+    if (problems.length > 0) return problems;
+  }
+  if (resolved.anyOf && !resolved.anyOf.some((part) => validate(value, part, components, path).length === 0)) {
+    return issue("does not match any of the allowed shapes");
+  }
+  if (resolved.oneOf) {
+    const fits = resolved.oneOf.filter((part) => validate(value, part, components, path).length === 0);
+    if (fits.length !== 1) return issue("must match exactly one of the allowed shapes");
+  }
+
+  if (resolved.type && !hasType(value, resolved.type)) {
+    return issue(`expected ${resolved.type}, got ${describeType(value)}`);
+  }
+  if (resolved.enum && !resolved.enum.includes(value as string | number | boolean)) {
+    return issue(`must be one of ${resolved.enum.join(", ")}`);
+  }
+
+  if (typeof value === "string") {
+    if (resolved.minLength !== undefined && value.length < resolved.minLength) {
+      return issue(`must be at least ${resolved.minLength} characters`);
+    }
+    if (resolved.maxLength !== undefined && value.length > resolved.maxLength) {
+      return issue(`must be at most ${resolved.maxLength} characters`);
+    }
+    const format = resolved.format && FORMATS[resolved.format];
+    if (format && !format.test(value)) {
+      return issue(format.message);
+    }
+  }
+  if (typeof value === "number") {
+    if (resolved.minimum !== undefined && value < resolved.minimum) {
+      return issue(`must be at least ${resolved.minimum}`);
+    }
+    if (resolved.maximum !== undefined && value > resolved.maximum) {
+      return issue(`must be at most ${resolved.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (resolved.minItems !== undefined && value.length < resolved.minItems) {
+      return issue(`must have at least ${resolved.minItems} items`);
+    }
+    if (resolved.maxItems !== undefined && value.length > resolved.maxItems) {
+      return issue(`must have at most ${resolved.maxItems} items`);
+    }
+    const items = resolved.items;
+    return items ? value.flatMap((item, index) => validate(item, items, components, child(path, index))) : [];
+  }
+
+  if (hasType(value, "object") && (resolved.properties || resolved.required || resolved.additionalProperties)) {
+    const record = value as Record<string, unknown>;
+    const properties = resolved.properties || {};
+    const problems: SchemaIssue[] = [];
+
+    (resolved.required || []).forEach((name) => {
+      if (record[name] === undefined) problems.push({ path: child(path, name), message: "is required" });
+    });
+    Object.entries(record).forEach(([name, field]) => {
+      if (field === undefined) return;
+      const fieldSchema = properties[name];
+      if (fieldSchema) {
+        problems.push(...validate(field, fieldSchema, components, child(path, name)));
+      } else if (resolved.additionalProperties === false) {
+        problems.push({ path: child(path, name), message: "is not allowed" });
+      } else if (typeof resolved.additionalProperties === "object") {
+        problems.push(...validate(field, resolved.additionalProperties, components, child(path, name)));
+      }
+    });
+    return problems;
+  }
+
+  return [];
+}
+
+/**
+ * A path or query parameter, which arrives as a string, as the type its
+ * schema declares; left alone when it does not convert, so it fails
+ * validation with its original value
+ */
+export function fromParameter(raw: unknown, schema: Schema, components: Components): unknown {
+  if (typeof raw !== "string") return raw;
+  const { type } = resolve(schema, components);
+  if ((type === "integer" || type === "number") && raw.trim() !== "" && !Number.isNaN(Number(raw))) {
+    return Number(raw);
+  }
+  if (type === "boolean" && (raw === "true" || raw === "false")) {
+    return raw === "true";
+  }
+  return raw;
+}
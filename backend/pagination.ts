@@ -0,0 +1,117 @@
+/**
+ * Cursor (keyset) pagination for list endpoints
+ *
+ * A cursor is the opaque, base64url-encoded sort key of the last row of a
+ * page. The next page continues strictly after that key, so rows inserted
+ * while a user scrolls never shift or repeat items the way OFFSET would.
+ *
+ * Timestamps travel as Postgres text (microsecond precision) and are cast
+ * back with ::timestamptz; a JS Date would round to milliseconds and skip
+ * or repeat rows created in the same millisecond.
+ *
+ * Responses use the envelope { items, nextCursor }; nextCursor is null on
+ * the last page.
+ */
+
+import type { QueryResultRow } from "pg";
+
+import type { Page } from "../shared/types";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 50;
+
+// Extra select column holding the sort timestamp as text; stripped from items
+export const CURSOR_COLUMN = "cursor_created_at";
+
+/** Page size and the key of the last item already seen */
+export type PageQuery = { limit: number; after: any[] | null };
+
+/** A page request, or why the query could not be read */
+export type PageRequest = PageQuery | { error: string };
+
+/**
+ * Type of each value in an endpoint's sort key: a row timestamp as
+ * Postgres text, a row id, or a non-negative integer (a count or position)
+ */
+export type CursorField = "timestamp" | "uuid" | "count";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// 2026-03-01 09:30:00.123456+00 from ::text, or an ISO 8601 timestamp
+const TIMESTAMP_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})[ T]([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d{1,6})?(Z|[+-]\d{2}(:?\d{2})?)$/;
+
+function isTimestamp(value: unknown): boolean {
+  const match = typeof value === "string" ? TIMESTAMP_PATTERN.exec(value) : null;
+  if (!match) return false;
+  // Rejects days a month does not have, which Postgres would fail on
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+const FIELD_CHECKS: Record<CursorField, (value: unknown) => boolean> = {
+  timestamp: isTimestamp,
+  uuid: (value) => typeof value === "string" && UUID_PATTERN.test(value),
+  count: (value) => Number.isSafeInteger(value) && (value as number) >= 0,
+};
+
+export function encodeCursor(key: unknown[]): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): any[] | null {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Array.isArray(key) ? key : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Read ?limit= and ?cursor= from a request query
+ * @param key type of each value in the endpoint's sort key, in ORDER BY order
+ */
+export function parsePageParams(query: Record<string, unknown>, key: CursorField[]): PageRequest {
+  const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    return { error: "limit must be a positive integer" };
+  }
+
+  if (!query.cursor) {
+    return { limit: Math.min(limit, MAX_PAGE_SIZE), after: null };
+  }
+  const after = decodeCursor(String(query.cursor));
+  if (!after || after.length !== key.length || !key.every((field, i) => FIELD_CHECKS[field](after[i]))) {
+    return { error: "Invalid cursor" };
+  }
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), after };
+}
+
+/**
+ * SELECT expression exposing a timestamp for the cursor
+ */
+export function cursorColumn(expression: string): string {
+  return `${expression}::text AS ${CURSOR_COLUMN}`;
+}
+
+/**
+ * Build a page from rows fetched with LIMIT limit + 1
+ * @param keyOf sort key of a row, in ORDER BY order
+ */
+export function toPage(
+  rows: QueryResultRow[],
+  limit: number,
+  keyOf: (row: QueryResultRow) => unknown[]
+): Page<QueryResultRow> {
+  const hasMore = rows.length > limit;
+  const pageRows = hasMore ? rows.slice(0, limit) : rows;
+  const nextCursor = hasMore ? encodeCursor(keyOf(pageRows[pageRows.length - 1])) : null;
+
+  const items = pageRows.map((row) => {
+    const { [CURSOR_COLUMN]: _cursor, ...item } = row;
+    return item;
+  });
+  return { items, nextCursor };
+}
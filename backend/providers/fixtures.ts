@@ -0,0 +1,136 @@
+/**
+ * Deterministic responses for the stub provider, keyed by AI task.
+ * JSON fixtures follow the exact format each route's prompt asks for, so the
+ * routes parse them into valid LiveAssistResponse / LiveAssistSessionMessage
+ * payloads without any network access.
+ */
+import type { AITask, ChatRequest, TranscriptSegment } from "./types";
+
+/**
+ * Text of the last user message, used to make replies recognisable in tests
+ */
+function lastUserText(request: ChatRequest): string {
+  const last = [...request.messages].reverse().find((msg) => msg.role === "user");
+  if (!last) return "";
+  if (typeof last.content === "string") return last.content;
+  return last.content
+    .filter((part) => part.type === "text")
+    .map((part) => part.text)
+    .join(" ");
+}
+
+function hasImage(request: ChatRequest): boolean {
+  return request.messages.some(
+    (msg) => Array.isArray(msg.content) && msg.content.some((part) => part.type === "image")
+  );
+}
+
+// One per task, so every prompt the routes send has a reply in its format
+export const STUB_FIXTURES: Record<AITask, (request: ChatRequest) => string> = {
+  ask: (request) =>
+    `Stub answer: start by turning off the power or water supply, then inspect the part you asked about ("${lastUserText(request)}").`,
+
+  chat: (request) =>
+    hasImage(request)
+      ? "Thanks for the photo! It looks like a worn washer under the faucet handle. Is the drip constant, or only when the tap is turned on?"
+      : `I can help with that ("${lastUserText(request)}"). Where exactly do you see the problem, and could you send a photo of it?`,
+
+  "liveassist.session": () =>
+    JSON.stringify({
+      text: "This looks like a loose faucet cartridge. Follow the steps below.",
+      steps: [
+        {
+          id: "s1",
+          text: "Shut off the water",
+          detail: "Close both shut-off valves under the sink and open the tap to release pressure.",
+          tools: [],
+        },
+        {
+          id: "s2",
+          text: "Remove the handle",
+          detail: "Pry off the decorative cap and unscrew the handle screw.",
+          tools: ["Philips #2 screwdriver"],
+        },
+        {
+          id: "s3",
+          text: "Replace the cartridge",
+          detail: "Pull out the old cartridge, insert the new one in the same orientation and reassemble.",
+          tools: ["Adjustable wrench", "Replacement cartridge"],
+        },
+      ],
+      youtube_links: [
+        { title: "How to replace a faucet cartridge", url: "https://youtube.com/watch?v=stub-faucet-cartridge" },
+      ],
+      images_to_show: [],
+      safety_warnings: ["Make sure the water supply is fully shut off before starting."],
+    }),
+
+  "liveassist.analyze": () =>
+    JSON.stringify({
+      whatISee: "A kitchen faucet with water pooling around its base.",
+      likelyIssue: "A worn O-ring or cartridge seal is letting water escape at the base.",
+      steps: [
+        { stepNumber: 1, text: "Turn off the water supply under the sink." },
+        { stepNumber: 2, text: "Remove the faucet handle and retaining nut." },
+        { stepNumber: 3, text: "Replace the O-rings on the cartridge and reassemble." },
+      ],
+      safetyNote: "",
+      overlays: [
+        { x: 0.35, y: 0.55, width: 0.3, height: 0.2, stepIndex: 3, label: "Leaking base" },
+      ],
+      riskLevel: "medium",
+      riskSummary: "Standing water near the cabinet can damage wood over time.",
+      risks: [
+        {
+          label: "Water damage to cabinet",
+          severity: "medium",
+          recommendation: "Dry the area and check the cabinet floor for soft spots.",
+        },
+      ],
+      riskOverlays: [
+        { x: 0.3, y: 0.7, width: 0.4, height: 0.2, riskLabel: "Pooling water", severity: "medium" },
+      ],
+      spareParts: [
+        {
+          name: "Faucet cartridge O-ring kit",
+          category: "O-ring",
+          description: "Seals the cartridge against the faucet body",
+          specs: ["Rubber", "Assorted sizes"],
+          compatibility: "Most single-handle kitchen faucets",
+          priority: "primary",
+          notes: "Bring the old O-rings to the store to match sizes",
+          overlayIndex: 1,
+        },
+      ],
+    }),
+
+  "video.tags": () => JSON.stringify(["diy", "repair", "home", "how-to", "quick fix"]),
+
+  "video.description": () => "A quick, practical walkthrough that gets this fix done in minutes.",
+
+  "guide.steps": () =>
+    JSON.stringify([
+      { stepNumber: 1, text: "Gather the tools and switch off the power or water supply." },
+      { stepNumber: 2, text: "Remove the cover to reach the damaged part." },
+      { stepNumber: 3, text: "Replace the part and test that everything works." },
+    ]),
+
+  // Echoes each caption line tagged with the target language, keeping the count
+  "captions.translate": (request) => {
+    const { language, lines } = JSON.parse(lastUserText(request)) as { language: string; lines: string[] };
+    return JSON.stringify({ lines: lines.map((line) => `[${language}] ${line}`) });
+  },
+
+  "guide.imagePrompts": () =>
+    JSON.stringify([
+      { prompt: "Simple line illustration of hands closing a shut-off valve", caption: "Shut off the supply" },
+      { prompt: "Simple line illustration of a screwdriver removing a cover plate", caption: "Remove the cover" },
+    ]),
+};
+
+// Transcript returned by stub transcription, whatever the media
+export const STUB_TRANSCRIPT: TranscriptSegment[] = [
+  { start: 0, end: 4, text: "First, shut off the water under the sink." },
+  { start: 4, end: 9, text: "Then pop off the cap and unscrew the handle." },
+  { start: 9, end: 15, text: "Swap in the new cartridge and turn the water back on." },
+];
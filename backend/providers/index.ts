@@ -0,0 +1,51 @@
+/**
+ * AI provider selection
+ *
+ * AI_PROVIDER=openai  OpenAI (requires OPENAI_API_KEY)
+ * AI_PROVIDER=stub    deterministic offline fixtures for development and tests
+ *
+ * Without AI_PROVIDER, OpenAI is used when OPENAI_API_KEY is set and AI is
+ * otherwise reported as not configured. The interface is in types.ts.
+ */
+import { createOpenAIProvider } from "./openai";
+import { createStubProvider } from "./stub";
+import type { AIProvider, AIProviderName } from "./types";
+
+export type * from "./types";
+export { createOpenAIProvider, createStubProvider };
+
+let cachedProvider: AIProvider | null | undefined;
+
+export function createProvider(name: AIProviderName): AIProvider {
+  switch (name) {
+    case "openai":
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("AI_PROVIDER=openai requires OPENAI_API_KEY");
+      }
+      return createOpenAIProvider({
+        apiKey: process.env.OPENAI_API_KEY,
+        chatModel: process.env.OPENAI_CHAT_MODEL,
+        visionModel: process.env.OPENAI_VISION_MODEL,
+      });
+    case "stub":
+      return createStubProvider();
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}"`);
+  }
+}
+
+/**
+ * The configured provider, or null when AI is not configured
+ * (no AI_PROVIDER and no OPENAI_API_KEY).
+ */
+export function getAIProvider(): AIProvider | null {
+  if (cachedProvider !== undefined) {
+    return cachedProvider;
+  }
+
+  const name = process.env.AI_PROVIDER || (process.env.OPENAI_API_KEY ? "openai" : null);
+  cachedProvider = name ? createProvider(name as AIProviderName) : null;
+
+  console.log(`[AI] Provider: ${cachedProvider ? cachedProvider.name : "not configured"}`);
+  return cachedProvider;
+}
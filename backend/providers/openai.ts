@@ -0,0 +1,152 @@
+import fs from "fs";
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam, ChatCompletionCreateParamsNonStreaming } from "openai/resources/chat/completions";
+
+import { reportUsage } from "./usage";
+import type { AIProvider, ChatMessage, ChatRequest } from "./types";
+
+// Whisper reports the detected language by name
+const WHISPER_LANGUAGES: Record<string, string> = {
+  english: "en",
+  swedish: "sv",
+  arabic: "ar",
+  german: "de",
+  french: "fr",
+  spanish: "es",
+};
+
+/**
+ * Convert provider-neutral messages to the OpenAI chat format
+ */
+function toOpenAIMessages(messages: ChatMessage[]): ChatCompletionMessageParam[] {
+  return messages.map((msg): ChatCompletionMessageParam => {
+    if (typeof msg.content === "string") {
+      return { role: msg.role, content: msg.content };
+    }
+    // Image parts are only allowed in user messages
+    if (msg.role !== "user") {
+      return { role: msg.role, content: msg.content.map((part) => (part.type === "text" ? part.text : "")).join("") };
+    }
+    return {
+      role: msg.role,
+      content: msg.content.map((part) =>
+        part.type === "image"
+          ? { type: "image_url", image_url: { url: part.url, detail: part.detail || "auto" } }
+          : { type: "text", text: part.text }
+      ),
+    };
+  });
+}
+
+/**
+ * OpenAI provider
+ */
+export function createOpenAIProvider({
+  apiKey,
+  chatModel,
+  visionModel,
+}: {
+  apiKey: string;
+  chatModel?: string;
+  visionModel?: string;
+}): AIProvider {
+  const client = new OpenAI({ apiKey });
+  const models = {
+    chat: chatModel || "gpt-4o-mini",
+    vision: visionModel || "gpt-4o",
+  };
+
+  const completionOptions = (request: ChatRequest): ChatCompletionCreateParamsNonStreaming => ({
+    model: request.vision ? models.vision : models.chat,
+    messages: toOpenAIMessages(request.messages),
+    temperature: request.temperature ?? 0.7,
+    max_tokens: request.maxTokens,
+  });
+
+  return {
+    name: "openai",
+
+    async chat(request) {
+      const options = completionOptions(request);
+      const completion = await client.chat.completions.create(options);
+      reportUsage({
+        model: options.model,
+        inputTokens: completion.usage?.prompt_tokens,
+        outputTokens: completion.usage?.completion_tokens,
+      });
+      return completion.choices[0]?.message?.content || "";
+    },
+
+    async *streamChat(request, { signal } = {}) {
+      const options = completionOptions(request);
+      const stream = await client.chat.completions.create(
+        // The last chunk then carries the usage of the whole completion
+        { ...options, stream: true, stream_options: { include_usage: true } },
+        { signal }
+      );
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          reportUsage({
+            model: options.model,
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens,
+          });
+        }
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+
+    async moderate(input) {
+      const response = await client.moderations.create({ input });
+      const result = response.results[0];
+      return {
+        flagged: result.flagged,
+        categories: Object.entries(result.categories)
+          .filter(([_, flagged]) => flagged)
+          .map(([category]) => category),
+      };
+    },
+
+    async embed(input) {
+      const response = await client.embeddings.create({
+        model: "text-embedding-3-small",
+        input,
+      });
+      reportUsage({ model: "text-embedding-3-small", inputTokens: response.usage?.prompt_tokens });
+      return response.data[0].embedding;
+    },
+
+    async generateImage(prompt, { size = "1024x1024" } = {}) {
+      const response = await client.images.generate({
+        model: "dall-e-3",
+        prompt,
+        n: 1,
+        size: size as OpenAI.ImageGenerateParams["size"],
+        quality: "standard",
+      });
+      reportUsage({ model: "dall-e-3", images: 1, size });
+      const url = response.data?.[0]?.url;
+      if (!url) throw new Error("OpenAI returned no image URL");
+      return { url };
+    },
+
+    async transcribe({ filePath, language }) {
+      const response = await client.audio.transcriptions.create({
+        model: "whisper-1",
+        file: fs.createReadStream(filePath),
+        response_format: "verbose_json",
+        language,
+      });
+      reportUsage({ model: "whisper-1", audioSeconds: response.duration });
+      return {
+        language: language || WHISPER_LANGUAGES[response.language] || null,
+        segments: (response.segments || []).map((segment) => ({
+          start: segment.start,
+          end: segment.end,
+          text: segment.text.trim(),
+        })),
+      };
+    },
+  };
+}
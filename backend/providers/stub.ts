@@ -0,0 +1,113 @@
+import { STUB_FIXTURES, STUB_TRANSCRIPT } from "./fixtures";
+import { reportUsage, estimateTokens } from "./usage";
+import type { AIProvider, ChatRequest } from "./types";
+
+// Dimensions of text-embedding-3-small, so stub vectors fit the same column
+const EMBEDDING_DIMENSIONS = 1536;
+
+// Content containing this marker is flagged by stub moderation
+export const STUB_FLAG_MARKER = "[flag]";
+
+// Characters per streamed chunk
+const STREAM_CHUNK_SIZE = 12;
+
+// 1x1 grey PNG, so generated images render without network access
+const PLACEHOLDER_IMAGE =
+  "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mN8+x8AAuMB8DtXNJsAAAAASUVORK5CYII=";
+
+/**
+ * Estimated usage under the OpenAI model the stub stands in for, so AI
+ * budgets behave the same offline
+ */
+function reportChatUsage(request: ChatRequest, content: string) {
+  const prompt = request.messages
+    .map((message) =>
+      typeof message.content === "string"
+        ? message.content
+        : message.content.map((part) => (part.type === "text" ? part.text : "")).join(" ")
+    )
+    .join("\n");
+  reportUsage({
+    model: request.vision ? "gpt-4o" : "gpt-4o-mini",
+    inputTokens: estimateTokens(prompt),
+    outputTokens: estimateTokens(content),
+  });
+}
+
+/**
+ * 32-bit FNV-1a hash, used to seed deterministic embeddings
+ */
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function abortError() {
+  const error = new Error("Request was aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+/**
+ * Deterministic offline provider
+ * Same input always gives the same output; no network access.
+ */
+export function createStubProvider(): AIProvider {
+  const complete = (request: ChatRequest) => {
+    const content = STUB_FIXTURES[request.task](request);
+    reportChatUsage(request, content);
+    return content;
+  };
+
+  return {
+    name: "stub",
+
+    async chat(request) {
+      return complete(request);
+    },
+
+    async *streamChat(request, { signal } = {}) {
+      const content = complete(request);
+      for (let i = 0; i < content.length; i += STREAM_CHUNK_SIZE) {
+        // Yield to the event loop so client disconnects are noticed
+        await new Promise((resolve) => setImmediate(resolve));
+        if (signal?.aborted) throw abortError();
+        yield content.slice(i, i + STREAM_CHUNK_SIZE);
+      }
+    },
+
+    async moderate(input) {
+      const flagged = input.toLowerCase().includes(STUB_FLAG_MARKER);
+      return { flagged, categories: flagged ? ["harassment"] : [] };
+    },
+
+    async embed(input) {
+      reportUsage({ model: "text-embedding-3-small", inputTokens: estimateTokens(input) });
+      // Seeded LCG, normalised to a unit vector
+      let seed = hashString(input.trim().toLowerCase());
+      const vector: number[] = [];
+      for (let i = 0; i < EMBEDDING_DIMENSIONS; i++) {
+        seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+        vector.push(seed / 0xffffffff - 0.5);
+      }
+      const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+      return vector.map((v) => v / norm);
+    },
+
+    async generateImage(prompt, { size = "1024x1024" } = {}) {
+      reportUsage({ model: "dall-e-3", images: 1, size });
+      return { url: PLACEHOLDER_IMAGE };
+    },
+
+    async transcribe({ language }) {
+      const last = STUB_TRANSCRIPT[STUB_TRANSCRIPT.length - 1];
+      reportUsage({ model: "whisper-1", audioSeconds: last ? last.end : 0 });
+      return { language: language || "en", segments: STUB_TRANSCRIPT };
+    },
+  };
+}
+
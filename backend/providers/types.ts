@@ -0,0 +1,101 @@
+/**
+ * AI provider interface
+ * Every AI feature (chat, vision, moderation, embeddings, image generation,
+ * transcription)
+ * goes through one provider selected by AI_PROVIDER, so routes never talk to
+ * a vendor SDK directly. openai.ts and stub.ts implement AIProvider.
+ */
+
+export type AIProviderName = "openai" | "stub";
+
+/**
+ * What a request is for. Providers may ignore it; the stub provider uses it
+ * to pick the fixture that matches the prompt's expected output format.
+ */
+export type AITask =
+  | "ask"
+  | "chat"
+  | "liveassist.analyze"
+  | "liveassist.session"
+  | "video.tags"
+  | "video.description"
+  | "guide.steps"
+  | "guide.imagePrompts"
+  | "captions.translate";
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string; detail?: "auto" | "low" | "high" };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  task: AITask;
+  messages: ChatMessage[];
+  /** Use the vision-capable model (required when messages contain images) */
+  vision?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[];
+}
+
+export interface GeneratedImage {
+  url: string;
+}
+
+export interface TranscriptionRequest {
+  /** Local media file; providers read the audio track */
+  filePath: string;
+  /** ISO 639-1 hint, detected when omitted */
+  language?: string;
+}
+
+export interface TranscriptSegment {
+  /** Seconds from the start of the media */
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface Transcription {
+  /** ISO 639-1 code, or null when the provider could not tell */
+  language: string | null;
+  segments: TranscriptSegment[];
+}
+
+/**
+ * What one vendor call consumed, reported through providers/usage.ts.
+ * Text models report tokens, image models images, audio models seconds.
+ */
+export interface AIUsage {
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  images?: number;
+  /** Image size, e.g. "1024x1024" */
+  size?: string;
+  audioSeconds?: number;
+}
+
+export interface AIProvider {
+  readonly name: AIProviderName;
+  /** Full completion text */
+  chat(request: ChatRequest): Promise<string>;
+  /** Completion text as it is generated */
+  streamChat(request: ChatRequest, options?: StreamOptions): AsyncIterable<string>;
+  moderate(input: string): Promise<ModerationResult>;
+  embed(input: string): Promise<number[]>;
+  generateImage(prompt: string, options?: { size?: string }): Promise<GeneratedImage>;
+  transcribe(request: TranscriptionRequest): Promise<Transcription>;
+}
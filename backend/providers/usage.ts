@@ -0,0 +1,37 @@
+/**
+ * Usage reporting from providers
+ *
+ * Providers call reportUsage() after each vendor call with the model and
+ * what it consumed. Whoever wants to know (aiBudget.js per request,
+ * captions.js per transcription job) runs its work inside
+ * withUsageListener(); calls made outside one are reported to nobody.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+
+import type { AIUsage } from "./types";
+
+export type UsageListener = (usage: AIUsage) => void;
+
+const listeners = new AsyncLocalStorage<UsageListener>();
+
+/**
+ * Run `fn` with `listener` receiving the usage of every provider call it makes
+ */
+export function withUsageListener<T>(listener: UsageListener, fn: () => T): T {
+  return listeners.run(listener, fn);
+}
+
+export function reportUsage(usage: AIUsage): void {
+  const listener = listeners.getStore();
+  if (!listener) return;
+  try {
+    listener(usage);
+  } catch (error: any) {
+    console.error("[AI] Usage listener failed:", error.message);
+  }
+}
+
+// Rough token count for providers that do not report one
+export function estimateTokens(text: string | null | undefined): number {
+  return Math.ceil(String(text || "").length / 4);
+}
@@ -0,0 +1,225 @@
+/**
+ * Token-bucket rate limits
+ *
+ * A limit of `max` per `windowMs` is a bucket of `max` tokens that refills
+ * at max/windowMs: a client may burst up to `max` requests, then gets one
+ * more each windowMs/max. Each request takes a token; an empty bucket
+ * answers 429 RATE_LIMITED with a Retry-After header.
+ *
+ * Buckets live in memory, so each server process counts on its own and
+ * restarts forget them. RATE_LIMIT_STORE=postgres keeps them in the
+ * rate_limit_buckets table instead, shared by every process.
+ *
+ * Route groups (rateLimitGroup) limit whole parts of the API per signed-in
+ * user, or per IP address without a valid token. Each group's default can
+ * be changed with RATE_LIMIT_<GROUP>=<max>/<seconds>, or turned off with
+ * RATE_LIMIT_<GROUP>=off. The auth routes add their own, stricter limits.
+ */
+const { pool } = require("./db");
+const { checkAccessToken } = require("./auth");
+const { ERROR_CODES, sendError } = require("./errors");
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Default limit of each route group; see index.ts for what they cover
+ * @type {Record<string, { windowMs: number, max: number }>}
+ */
+const ROUTE_GROUPS = {
+  // Every /api request
+  api: { windowMs: MINUTE_MS, max: 600 },
+  auth: { windowMs: MINUTE_MS, max: 30 },
+  // Handlers that call the model, each call costing money; see aiBudget.js for the daily spend cap
+  ai: { windowMs: MINUTE_MS, max: 20 },
+  // Guides with pictures, up to four image generations each
+  ai_images: { windowMs: HOUR_MS, max: 10 },
+  // Chunked uploads send a request per chunk
+  uploads: { windowMs: MINUTE_MS, max: 300 },
+};
+
+/* ---------- MEMORY STORE ---------- */
+
+const buckets = new Map(); // "<name>:<key>" -> { tokens, updatedAt, fullAt }
+let lastSweptAt = 0;
+
+function sweep(now) {
+  if (now - lastSweptAt < SWEEP_INTERVAL_MS) return;
+  lastSweptAt = now;
+  // A bucket that has refilled is the same as no bucket
+  buckets.forEach((bucket, id) => {
+    if (bucket.fullAt <= now) buckets.delete(id);
+  });
+}
+
+const memoryStore = {
+  async take(id, capacity, perMs) {
+    const now = Date.now();
+    sweep(now);
+
+    const bucket = buckets.get(id);
+    const tokens = bucket ? Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs) : capacity;
+    const taken = tokens >= 1;
+    const left = taken ? tokens - 1 : tokens;
+    buckets.set(id, { tokens: left, updatedAt: now, fullAt: now + (capacity - left) / perMs });
+    return { taken, tokens: left };
+  },
+
+  async reset() {
+    buckets.clear();
+  },
+};
+
+/* ---------- POSTGRES STORE ---------- */
+
+// Tokens in the bucket now, counting the refill since it was last touched
+const REFILLED = `LEAST($2::float8, bucket.tokens + EXTRACT(EPOCH FROM NOW() - bucket.updated_at)::float8 * $3::float8)`;
+
+const postgresStore = {
+  async take(id, capacity, perMs) {
+    const perSecond = perMs * 1000;
+    maybeSweepPostgres();
+
+    // Takes a token only where one is left; no row back means the bucket is empty
+    const taken = await pool.query(
+      `INSERT INTO rate_limit_buckets AS bucket (id, tokens, updated_at, full_at)
+       VALUES ($1, $2::float8 - 1, NOW(), NOW() + make_interval(secs => 1 / $3::float8))
+       ON CONFLICT (id) DO UPDATE SET
+         tokens = ${REFILLED} - 1,
+         updated_at = NOW(),
+         full_at = NOW() + make_interval(secs => ($2::float8 - ${REFILLED} + 1) / $3::float8)
+       WHERE ${REFILLED} >= 1
+       RETURNING tokens`,
+      [id, capacity, perSecond]
+    );
+    if (taken.rows.length > 0) return { taken: true, tokens: taken.rows[0].tokens };
+
+    const current = await pool.query(`SELECT ${REFILLED} AS tokens FROM rate_limit_buckets bucket WHERE id = $1`, [
+      id,
+      capacity,
+      perSecond,
+    ]);
+    return { taken: false, tokens: current.rows[0]?.tokens ?? 0 };
+  },
+
+  async reset() {
+    await pool.query("DELETE FROM rate_limit_buckets");
+  },
+};
+
+let lastPostgresSweepAt = 0;
+
+function maybeSweepPostgres() {
+  const now = Date.now();
+  if (now - lastPostgresSweepAt < SWEEP_INTERVAL_MS) return;
+  lastPostgresSweepAt = now;
+  pool.query("DELETE FROM rate_limit_buckets WHERE full_at <= NOW()").catch((error) => {
+    console.error("[RateLimit] Sweep failed:", error.message);
+  });
+}
+
+function store() {
+  return process.env.RATE_LIMIT_STORE === "postgres" ? postgresStore : memoryStore;
+}
+
+/* ---------- LIMITS ---------- */
+
+/**
+ * Take one token from a bucket
+ * @returns {Promise<{ limited: boolean, retryAfter: number, remaining: number }>}
+ *   retryAfter in seconds until the next token, remaining whole tokens left
+ */
+async function hit(name, key, { windowMs, max }) {
+  const perMs = max / windowMs;
+  const { taken, tokens } = await store().take(`${name}:${key}`, max, perMs);
+
+  return {
+    limited: !taken,
+    retryAfter: taken ? 0 : Math.max(1, Math.ceil((1 - tokens) / perMs / 1000)),
+    remaining: Math.floor(tokens),
+  };
+}
+
+/**
+ * Forget every bucket (the test harness resets between tests)
+ */
+async function resetRateLimits() {
+  await store().reset();
+}
+
+/**
+ * Answer 429 RATE_LIMITED with a Retry-After header
+ */
+function sendRateLimited(res, retryAfter) {
+  res.set("Retry-After", String(retryAfter));
+  return sendError(res, 429, ERROR_CODES.RATE_LIMITED, "Too many requests, please try again later", {
+    retryAfter,
+  });
+}
+
+/**
+ * Middleware limiting requests per client IP, or per `key(req)` when given
+ * @param {{ name: string, windowMs: number, max: number, key?: (req) => string }} options
+ */
+function rateLimit({ name, windowMs, max, key = (req) => req.ip }) {
+  return async (req, res, next) => {
+    try {
+      const { limited, retryAfter } = await hit(name, key(req), { windowMs, max });
+      if (limited) return sendRateLimited(res, retryAfter);
+    } catch (error) {
+      // A broken store must not take the API down with it
+      console.error(`[RateLimit] ${name} failed:`, error.message);
+    }
+    next();
+  };
+}
+
+/**
+ * The signed-in user, from the access token when auth middleware has not
+ * run yet, or else the client IP
+ */
+function clientKey(req) {
+  if (req.userId) return `user:${req.userId}`;
+  const header = req.headers.authorization;
+  if (header && header.startsWith("Bearer ")) {
+    const checked = checkAccessToken(header.split(" ")[1]);
+    if (!checked.code) return `user:${checked.userId}`;
+  }
+  return `ip:${req.ip}`;
+}
+
+/**
+ * A group's limit: the default, or RATE_LIMIT_<GROUP>; null when off
+ * @returns {{ windowMs: number, max: number } | null}
+ */
+function groupLimit(group) {
+  const configured = process.env[`RATE_LIMIT_${group.toUpperCase()}`];
+  if (!configured) return ROUTE_GROUPS[group];
+  if (configured === "off") return null;
+
+  const match = configured.match(/^(\d+)\/(\d+)$/);
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    throw new Error(`RATE_LIMIT_${group.toUpperCase()} must be <max>/<seconds> or "off", got "${configured}"`);
+  }
+  return { max: Number(match[1]), windowMs: Number(match[2]) * 1000 };
+}
+
+/**
+ * Middleware applying a route group's limit (ROUTE_GROUPS)
+ */
+function rateLimitGroup(group) {
+  if (!ROUTE_GROUPS[group]) throw new Error(`Unknown rate limit group "${group}"`);
+  const limit = groupLimit(group);
+  if (!limit) return (req, res, next) => next();
+  return rateLimit({ name: `group:${group}`, ...limit, key: clientKey });
+}
+
+module.exports = {
+  ROUTE_GROUPS,
+  rateLimit,
+  rateLimitGroup,
+  hit,
+  sendRateLimited,
+  resetRateLimits,
+};
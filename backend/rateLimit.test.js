@@ -0,0 +1,93 @@
+/**
+ * Integration test: token buckets in memory and in Postgres, and the route
+ * group limits in front of the API, against a throwaway database
+ * (testing/harness.js). Skipped without Postgres. Run with `npm test` in
+ * backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("./testing/harness");
+const { NO_DATABASE } = require("./testing/postgres");
+
+let server = null;
+let rateLimit = null;
+
+// Small enough to run into from a test
+process.env.RATE_LIMIT_AI = "3/60";
+
+before(async () => {
+  server = await startTestServer();
+  // Loaded after the harness has pointed the pool at the test database
+  if (server) rateLimit = require("./rateLimit");
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+for (const store of ["memory", "postgres"]) {
+  test(`${store} buckets allow a burst of max, then refill over the window`, async (t) => {
+    if (!server) return t.skip(NO_DATABASE);
+    process.env.RATE_LIMIT_STORE = store;
+    t.after(() => delete process.env.RATE_LIMIT_STORE);
+
+    const limit = { windowMs: 3000, max: 3 };
+    const hits = [];
+    for (let i = 0; i < 4; i++) hits.push(await rateLimit.hit("test", "client", limit));
+
+    assert.deepStrictEqual(
+      hits.map((hit) => hit.limited),
+      [false, false, false, true]
+    );
+    assert.strictEqual(hits[0].remaining, 2);
+    assert.strictEqual(hits[3].retryAfter, 1);
+
+    // Another key has its own bucket
+    assert.strictEqual((await rateLimit.hit("test", "other", limit)).limited, false);
+
+    // One token comes back every windowMs / max
+    await sleep(1100);
+    assert.strictEqual((await rateLimit.hit("test", "client", limit)).limited, false);
+    assert.strictEqual((await rateLimit.hit("test", "client", limit)).limited, true);
+  });
+}
+
+test("a route group limits each signed-in user on their own", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob } = server.fixtures.users;
+  const aliceToken = await server.tokenFor(alice);
+
+  const ask = (token) =>
+    server.request("POST", "/api/ai/moderate-content", { token, body: { content: "Is this fine?" } });
+
+  for (let i = 0; i < 3; i++) assert.strictEqual((await ask(aliceToken)).status, 200);
+  const limited = await ask(aliceToken);
+  assert.strictEqual(limited.status, 429);
+  assert.strictEqual(limited.body.code, "RATE_LIMITED");
+  assert.strictEqual(limited.body.retryable, true);
+  assert.strictEqual(limited.headers.get("retry-after"), String(limited.body.details.retryAfter));
+
+  assert.strictEqual((await ask(await server.tokenFor(bob))).status, 200);
+  // Other groups are not affected
+  assert.strictEqual((await server.request("GET", "/api/videos/feed?section=new", { token: aliceToken })).status, 200);
+  // Nor are the AI routes that do not call the model
+  for (let i = 0; i < 5; i++) {
+    const sessions = await server.request("GET", "/api/ai/liveassist/sessions", { token: aliceToken });
+    assert.strictEqual(sessions.status, 200);
+  }
+});
+
+test("group limits are configured per environment", (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { ROUTE_GROUPS, rateLimitGroup } = rateLimit;
+  assert.deepStrictEqual(Object.keys(ROUTE_GROUPS).sort(), ["ai", "ai_images", "api", "auth", "uploads"]);
+  assert.throws(() => rateLimitGroup("nope"), /Unknown rate limit group/);
+
+  process.env.RATE_LIMIT_UPLOADS = "lots";
+  try {
+    assert.throws(() => rateLimitGroup("uploads"), /RATE_LIMIT_UPLOADS must be/);
+  } finally {
+    delete process.env.RATE_LIMIT_UPLOADS;
+  }
+});
@@ -0,0 +1,260 @@
+/**
+ * Personalized ranking for the Home "Recommended" feed
+ *
+ * Candidates are recent videos. Each one is scored for the viewer from
+ * category affinity (watches, likes, saves, LiveAssist scans, community
+ * posts, profile expertise), followed creators, freshness and popularity.
+ * The strongest signal behind a video becomes its reason, e.g.
+ * { type: "scan", category: "plumbing", label: "Leaking faucet" }, which
+ * the app renders as "Because you scanned a leaking faucet".
+ */
+const { pool } = require("./db");
+const { encodeCursor } = require("./pagination");
+
+// Video categories in constants/categories.ts
+const CATEGORIES = [
+  "kitchen",
+  "bathroom",
+  "cleaning",
+  "laundry",
+  "electronics",
+  "car",
+  "tools",
+  "plumbing",
+  "emergency",
+  "other",
+];
+
+// LiveAssist scans carry no category; infer one from what was scanned
+const CATEGORY_KEYWORDS = {
+  emergency: ["gas smell", "smell gas", "smoke", "fire", "flood", "sparking", "sparks", "burning smell", "carbon monoxide"],
+  plumbing: ["faucet", "tap", "leak", "pipe", "drain", "clog", "valve", "water heater", "boiler", "radiator"],
+  bathroom: ["toilet", "shower", "bathtub", "bath", "tile", "grout", "flush"],
+  kitchen: ["kitchen", "fridge", "refrigerator", "freezer", "oven", "stove", "dishwasher", "microwave", "cabinet"],
+  laundry: ["washing machine", "washer", "dryer", "laundry", "iron"],
+  electronics: ["phone", "laptop", "computer", "tv", "television", "charger", "remote", "router", "outlet", "socket", "switch", "cable"],
+  car: ["car", "tire", "tyre", "engine", "brake", "headlight", "wiper", "dashboard"],
+  cleaning: ["stain", "mold", "mould", "grease", "limescale", "rust", "dirt"],
+  tools: ["drill", "screwdriver", "saw", "wrench", "hammer", "pliers"],
+};
+
+// How much one interaction says about interest in its category
+const SIGNAL_WEIGHTS = {
+  scan: 3,
+  save: 2.5,
+  like: 2,
+  expertise: 2,
+  community: 1.5,
+  watch: 1,
+};
+
+const SIGNAL_WINDOW_DAYS = 90;
+const SCAN_WINDOW_DAYS = 30;
+const CANDIDATE_LIMIT = 300;
+
+const FOLLOW_BOOST = 3;
+const FRESHNESS_WEIGHT = 2;
+const FRESHNESS_HALF_LIFE_DAYS = 7;
+const POPULARITY_WEIGHT = 0.5;
+// Already-watched videos sink but are not hidden
+const WATCHED_FACTOR = 0.4;
+
+/**
+ * Best-matching video category for free text, or null
+ */
+function inferCategory(text) {
+  if (!text) return null;
+  const lower = String(text).toLowerCase();
+  let best = null;
+  let bestHits = 0;
+  for (const [category, keywords] of Object.entries(CATEGORY_KEYWORDS)) {
+    // Whole words with simple inflections: "leaking" counts, "carpet" is not a car
+    const hits = keywords.filter((keyword) => new RegExp(`\\b${keyword}(s|es|ing|ed)?\\b`).test(lower)).length;
+    if (hits > bestHits) {
+      best = category;
+      bestHits = hits;
+    }
+  }
+  return best;
+}
+
+/**
+ * Remember what a user scanned with LiveAssist so the feed can follow up
+ * @param {string} text scanned problem, e.g. the user's message and the reply
+ * @param {string} [issue] short issue label for the reason, e.g. "Leaking faucet"
+ */
+async function recordScanInterest(userId, text, issue) {
+  const category = inferCategory(`${issue || ""} ${text || ""}`);
+  if (!userId || !category) return;
+  await pool.query(
+    `INSERT INTO liveassist_scans (user_id, category, issue) VALUES ($1, $2, $3)`,
+    [userId, category, issue ? String(issue).slice(0, 120) : null]
+  );
+}
+
+/**
+ * Per-category interest of a user, with the detail needed to explain it
+ * @returns {Promise<Record<string, { score: number, top: { signal: string, weight: number }, scanIssue: string | null }>>}
+ */
+async function loadInterests(userId) {
+  const [interactions, scans, user] = await Promise.all([
+    pool.query(
+      `SELECT v.category, 'watch' AS signal, COUNT(*)::int AS count
+       FROM video_watches w JOIN videos v ON v.id = w.video_id
+       WHERE w.user_id = $1 AND w.watched_at > NOW() - make_interval(days => $2)
+       GROUP BY v.category
+       UNION ALL
+       SELECT v.category, 'like', COUNT(*)::int
+       FROM video_likes l JOIN videos v ON v.id = l.video_id
+       WHERE l.user_id = $1 AND l.created_at > NOW() - make_interval(days => $2)
+       GROUP BY v.category
+       UNION ALL
+       SELECT v.category, 'save', COUNT(*)::int
+       FROM video_saves s JOIN videos v ON v.id = s.video_id
+       WHERE s.user_id = $1 AND s.created_at > NOW() - make_interval(days => $2)
+       GROUP BY v.category
+       UNION ALL
+       SELECT category, 'community', COUNT(*)::int
+       FROM community_posts
+       WHERE author_id = $1 AND created_at > NOW() - make_interval(days => $2)
+       GROUP BY category`,
+      [userId, SIGNAL_WINDOW_DAYS]
+    ),
+    pool.query(
+      `SELECT category, issue FROM liveassist_scans
+       WHERE user_id = $1 AND created_at > NOW() - make_interval(days => $2)
+       ORDER BY created_at DESC
+       LIMIT 50`,
+      [userId, SCAN_WINDOW_DAYS]
+    ),
+    pool.query(`SELECT expertise_categories FROM users WHERE id = $1`, [userId]),
+  ]);
+
+  const interests = {};
+  const add = (category, signal, count) => {
+    if (!CATEGORIES.includes(category)) return;
+    const weight = SIGNAL_WEIGHTS[signal] * count;
+    const interest = interests[category] || (interests[category] = { raw: 0, top: null, scanIssue: null });
+    interest.raw += weight;
+    if (!interest.top || weight > interest.top.weight) {
+      interest.top = { signal, weight };
+    }
+  };
+
+  interactions.rows.forEach((row) => add(row.category, row.signal, row.count));
+
+  const scanCounts = {};
+  scans.rows.forEach((row) => {
+    scanCounts[row.category] = (scanCounts[row.category] || 0) + 1;
+  });
+  Object.entries(scanCounts).forEach(([category, count]) => add(category, "scan", count));
+  // Newest scan first, so the reason names the latest issue
+  scans.rows.forEach((row) => {
+    const interest = interests[row.category];
+    if (interest && !interest.scanIssue && row.issue) interest.scanIssue = row.issue;
+  });
+
+  (user.rows[0]?.expertise_categories || []).forEach((category) => add(category, "expertise", 1));
+
+  // Diminishing returns, so one heavy category does not drown out the rest
+  Object.values(interests).forEach((interest) => {
+    interest.score = Math.log1p(interest.raw);
+  });
+  return interests;
+}
+
+const REASON_TYPES = {
+  scan: "scan",
+  save: "saved",
+  like: "liked",
+  watch: "watched",
+  community: "community",
+  expertise: "expertise",
+};
+
+function explain(video, interest, followed, personalScore, genericScore) {
+  if (followed && FOLLOW_BOOST >= (interest?.score || 0)) {
+    return { type: "following", label: video.author_name };
+  }
+  if (interest && personalScore >= genericScore) {
+    const type = REASON_TYPES[interest.top.signal];
+    return type === "scan" && interest.scanIssue
+      ? { type, category: video.category, label: interest.scanIssue }
+      : { type, category: video.category };
+  }
+  return video.age_days < FRESHNESS_HALF_LIFE_DAYS ? { type: "new" } : { type: "popular" };
+}
+
+/**
+ * Score and explain candidate videos for a viewer (null when signed out)
+ */
+async function rankVideos(userId, blockedUserIds) {
+  const conditions = ["v.is_flagged = false"];
+  const params = [];
+  if (userId) {
+    params.push(userId);
+    conditions.push(`v.author_id != $${params.length}`);
+  }
+  if (blockedUserIds.length > 0) {
+    params.push(blockedUserIds);
+    conditions.push(`v.author_id != ALL($${params.length})`);
+  }
+
+  const viewerSelect = userId
+    ? `EXISTS(SELECT 1 FROM video_watches w WHERE w.video_id = v.id AND w.user_id = $1) AS watched,
+             EXISTS(SELECT 1 FROM follows f WHERE f.following_id = v.author_id AND f.follower_id = $1) AS followed,
+             EXISTS(SELECT 1 FROM video_likes l WHERE l.video_id = v.id AND l.user_id = $1) AS is_liked,
+             EXISTS(SELECT 1 FROM video_saves s WHERE s.video_id = v.id AND s.user_id = $1) AS is_saved`
+    : "false AS watched, false AS followed, false AS is_liked, false AS is_saved";
+  params.push(CANDIDATE_LIMIT);
+
+  const [candidates, interests] = await Promise.all([
+    pool.query(
+      `SELECT v.*, u.display_name AS author_name, u.avatar_url AS author_avatar,
+             (EXTRACT(EPOCH FROM NOW() - v.created_at) / 86400)::float8 AS age_days,
+             ${viewerSelect}
+       FROM videos v
+       JOIN users u ON v.author_id = u.id
+       WHERE ${conditions.join(" AND ")}
+       ORDER BY v.created_at DESC
+       LIMIT $${params.length}`,
+      params
+    ),
+    userId ? loadInterests(userId) : {},
+  ]);
+
+  return candidates.rows
+    .map((row) => {
+      const interest = interests[row.category];
+      const personalScore = (interest?.score || 0) + (row.followed ? FOLLOW_BOOST : 0);
+      const genericScore =
+        FRESHNESS_WEIGHT * Math.pow(0.5, row.age_days / FRESHNESS_HALF_LIFE_DAYS) +
+        POPULARITY_WEIGHT * Math.log1p(row.likes_count || 0);
+      const score = (personalScore + genericScore) * (row.watched ? WATCHED_FACTOR : 1);
+      const reason = explain(row, interest, row.followed, personalScore, genericScore);
+
+      const { age_days: _age, watched: _watched, followed: _followed, ...video } = row;
+      return { video: { ...video, reason }, score };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.video);
+}
+
+/**
+ * One page of the ranked feed. Rankings are recomputed per request, so the
+ * cursor is a position; a video that moves up between pages can repeat and
+ * clients drop duplicates.
+ * @param {{ limit: number, after: number[] | null }} page from parsePageParams(query, ["count"])
+ */
+async function getRecommendedPage(userId, blockedUserIds, page) {
+  const ranked = await rankVideos(userId, blockedUserIds);
+  const offset = page.after ? Math.max(0, Number(page.after[0]) || 0) : 0;
+  const items = ranked.slice(offset, offset + page.limit);
+  const nextOffset = offset + items.length;
+  return {
+    items,
+    nextCursor: nextOffset < ranked.length ? encodeCursor([nextOffset]) : null,
+  };
+}
+
+module.exports = { inferCategory, recordScanInterest, getRecommendedPage };
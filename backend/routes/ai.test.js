@@ -0,0 +1,124 @@
+/**
+ * Integration test: LiveAssist session history, against the app on a
+ * throwaway database (testing/harness.js). Skipped without Postgres. Run
+ * with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("../testing/harness");
+const { NO_DATABASE } = require("../testing/postgres");
+
+let server = null;
+
+before(async () => {
+  server = await startTestServer();
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+const PHOTO = `data:image/jpeg;base64,${"A".repeat(50000)}`;
+
+test("the session list links photos to a thumbnail instead of sending them", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob } = server.fixtures.users;
+  const sessions = server.fixtures.liveAssistSessions;
+
+  const addImage = (session, url) =>
+    server.pool.query(
+      `INSERT INTO liveassist_messages (session_id, user_id, role, text, image_urls)
+       VALUES ($1, $2, 'user', 'What is this?', $3)`,
+      [session.id, session.user_id, JSON.stringify([url])]
+    );
+  await addImage(sessions.alice, PHOTO);
+  await addImage(sessions.bob, "https://images.quickfix.test/faucet.jpg");
+
+  const list = async (user) =>
+    (await server.request("GET", "/api/ai/liveassist/sessions", { token: await server.tokenFor(user) })).body
+      .sessions[0];
+
+  const photo = await list(alice);
+  assert.strictEqual(photo.hasImage, true);
+  const thumbnailPath = `/api/ai/liveassist/session/${sessions.alice.id}/thumbnail`;
+  assert.ok(photo.thumbnailUrl.endsWith(thumbnailPath));
+
+  const thumbnail = await server.request("GET", thumbnailPath, { token: await server.tokenFor(alice) });
+  assert.strictEqual(thumbnail.status, 200);
+  assert.strictEqual(thumbnail.headers.get("content-type"), "image/jpeg");
+  assert.strictEqual(thumbnail.body.length, 37500);
+
+  const notBobs = await server.request("GET", thumbnailPath, { token: await server.tokenFor(bob) });
+  assert.strictEqual(notBobs.status, 404);
+
+  const linked = await list(bob);
+  assert.strictEqual(linked.hasImage, true);
+  assert.strictEqual(linked.thumbnailUrl, "https://images.quickfix.test/faucet.jpg");
+});
+
+test("a blocking retry of a streamed message gets the stored reply instead of sending it twice", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+  const session = server.fixtures.liveAssistSessions.alice;
+  const token = await server.tokenFor(alice);
+  const send = (headers) =>
+    server.request("POST", `/api/ai/liveassist/session/${session.id}/message`, {
+      token,
+      body: { text: "The tap drips" },
+      headers: { "Idempotency-Key": "stream-then-retry", ...headers },
+    });
+
+  const streamed = await send({ Accept: "text/event-stream" });
+  assert.strictEqual(streamed.status, 200);
+  assert.match(String(streamed.body), /event: done/);
+
+  // The done payload is stored without holding up the stream
+  let stored = null;
+  for (let i = 0; i < 20 && !stored; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    const row = await server.pool.query(
+      "SELECT status_code FROM idempotency_keys WHERE key = 'stream-then-retry' AND status_code IS NOT NULL"
+    );
+    stored = row.rows[0];
+  }
+  assert.ok(stored, "stream answer not stored");
+
+  const retried = await send({});
+  assert.strictEqual(retried.status, 200);
+  assert.strictEqual(retried.headers.get("idempotent-replayed"), "true");
+  const done = /event: done\ndata: (.*)\n/.exec(String(streamed.body));
+  assert.deepStrictEqual(retried.body, JSON.parse(done[1]));
+
+  const messages = await server.pool.query("SELECT role FROM liveassist_messages WHERE session_id = $1", [session.id]);
+  assert.deepStrictEqual(messages.rows.map((row) => row.role).sort(), ["assistant", "user"]);
+});
+
+const REPLY = {
+  text: "Replace the washer",
+  steps: [{ id: "step-1", text: "Shut off the water", detail: "Turn the valve under the sink", tools: [], done: false }],
+  youtube_links: [],
+  images_to_show: [],
+  safety_warnings: [],
+  structured: true,
+};
+
+test("only the session's owner can check off a step of a reply", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob } = server.fixtures.users;
+  const session = server.fixtures.liveAssistSessions.alice;
+  const { rows } = await server.pool.query(
+    `INSERT INTO liveassist_messages (session_id, user_id, role, text, analysis_result)
+     VALUES ($1, $2, 'assistant', 'Replace the washer', $3) RETURNING id`,
+    [session.id, session.user_id, JSON.stringify(REPLY)]
+  );
+  const path = `/api/ai/liveassist/messages/${rows[0].id}/steps/0`;
+
+  const anonymous = await server.request("PATCH", path, { body: { done: true } });
+  assert.strictEqual(anonymous.status, 401);
+
+  const notBobs = await server.request("PATCH", path, { token: await server.tokenFor(bob), body: { done: true } });
+  assert.strictEqual(notBobs.status, 404);
+
+  const own = await server.request("PATCH", path, { token: await server.tokenFor(alice), body: { done: true } });
+  assert.strictEqual(own.status, 200);
+  assert.strictEqual(own.body.meta.steps[0].done, true);
+});
@@ -1,60 +1,62 @@
-const express = require("express");
-const OpenAI = require("openai");
-const { pool } = require("../db");
-const { authMiddleware, optionalAuth } = require("../middleware/auth");
-const { awardXp } = require("../services/xp");
-const { 
+import express from "express";
+import { pool } from "../db";
+import { authMiddleware, optionalAuth } from "../auth";
+import { awardXp } from "../xp";
+import { 
   checkImageLimit, 
   incrementImageUsage, 
   getUserSubscription,
   SUBSCRIPTION_CONFIG 
-} = require("../services/subscription");
-const { wsManager } = require("../services/websocket");
+} from "../subscription";
+import { wsManager } from "../websocket";
+import {
+  wantsEventStream,
+  openEventStream,
+  streamCompletion,
+  JsonFieldStreamer,
+} from "../streaming";
+import { getAIProvider } from "../providers";
+import type { ChatContentPart, ChatMessage, ChatRequest } from "../providers";
+import { parseStructuredReply } from "../structuredOutput";
+import { recordScanInterest } from "../recommendations";
+import { serializeVideo } from "../serializers";
+import { ERROR_CODES, errorBody, sendError } from "../errors";
+import { rateLimitGroup } from "../rateLimit";
+import { aiBudget } from "../aiBudget";
+import { getPublicBaseUrl } from "../storage";
+import {
+  validateLiveAssistAnalysis,
+  validateSessionMessage,
+  validateSessionMessageField,
+} from "../../shared/liveAssistSchema";
+import type { LiveAssistSessionContent, LiveAssistStep } from "../../shared/liveAssistSchema";
+import type { GuideStep } from "../../shared/types";
 
 const router = express.Router();
-const crypto = require("crypto");
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+type EventStream = ReturnType<typeof openEventStream>;
 
-// In-memory session storage for LiveAssist conversations (MVP)
-const liveAssistSessions = new Map();
+// Number of most recent messages sent to the model as conversation context
+const LIVEASSIST_CONTEXT_MESSAGES = 10;
 
-// Session cleanup - remove sessions older than 2 hours
-setInterval(() => {
-  const now = Date.now();
-  const TWO_HOURS = 2 * 60 * 60 * 1000;
-  for (const [sessionId, session] of liveAssistSessions) {
-    if (now - session.createdAt > TWO_HOURS) {
-      liveAssistSessions.delete(sessionId);
-    }
-  }
-}, 30 * 60 * 1000); // Run cleanup every 30 minutes
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
-const openai = OPENAI_API_KEY ? new OpenAI({ apiKey: OPENAI_API_KEY }) : null;
+// Photos sent from the app: data URLs of the image types the thumbnail endpoint serves
+const SESSION_PHOTO_PATTERN = /^data:(image\/(?:jpeg|png|webp|gif|heic));base64,([A-Za-z0-9+/=\s]+)$/;
 
-async function callOpenAI(endpoint, body) {
-  if (!OPENAI_API_KEY) {
-    throw new Error("OpenAI API key not configured");
-  }
+// Configured AI provider (OpenAI or the offline stub), null when AI is off
+const ai = getAIProvider();
 
-  const response = await fetch(`https://api.openai.com/v1/${endpoint}`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error?.message || "OpenAI API error");
-  }
+// Handlers that call the model; the rest of /api/ai only counts toward the api group
+const aiLimit = rateLimitGroup("ai");
 
-  return response.json();
-}
+// Guides with pictures generate up to four images each, so they have a limit of their own
+const imageGuideLimit = rateLimitGroup("ai_images");
+const limitImageGuides: express.RequestHandler = (req, res, next) =>
+  req.body?.includeImages === false ? next() : imageGuideLimit(req, res, next);
 
-router.post("/ask-ai", async (req, res) => {
+router.post("/ask-ai", optionalAuth, aiLimit, aiBudget(), async (req, res) => {
   try {
     const { question, language = "en" } = req.body;
 
@@ -62,14 +64,16 @@ router.post("/ask-ai", async (req, res) => {
       return res.status(400).json({ error: "Question is required" });
     }
 
-    if (!openai) {
-      return res.json({
-        answer:
-          "AI service is not configured. Please check your OpenAI API key.",
-      });
+    if (!ai) {
+      return sendError(
+        res,
+        503,
+        ERROR_CODES.AI_UNAVAILABLE,
+        "AI service is not configured. Please check your OpenAI API key."
+      );
     }
 
-    const languageNames = {
+    const languageNames: Record<string, string> = {
       en: "English",
       sv: "Swedish",
       ar: "Arabic",
@@ -86,22 +90,22 @@ Be friendly and encouraging.
 If a problem seems dangerous or requires professional help, say so.
 Respond in ${languageName}.`;
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
+    const completion = await ai.chat({
+      task: "ask",
       messages: [
         { role: "system", content: systemPrompt },
         { role: "user", content: question },
       ],
       temperature: 0.7,
-      max_tokens: 500,
+      maxTokens: 500,
     });
 
-    const answer = completion.choices[0].message.content.trim();
+    const answer = completion.trim();
 
     res.json({ answer });
   } catch (error) {
     console.error("Ask AI error:", error);
-    res.status(500).json({ error: "Failed to get AI response" });
+    sendError(res, 500, ERROR_CODES.AI_FAILED, "Failed to get AI response");
   }
 });
 
@@ -114,7 +118,8 @@ Respond in ${languageName}.`;
  * FIX: Ensured proper message formatting for OpenAI API and added
  * better error handling with descriptive error messages.
  */
-router.post("/chat", optionalAuth, async (req, res) => {
+router.post("/chat", optionalAuth, aiLimit, aiBudget(), async (req, res) => {
+  let stream: EventStream | null = null;
   try {
     const { messages, language = "en", imageBase64, videoFileName } = req.body;
 
@@ -122,14 +127,16 @@ router.post("/chat", optionalAuth, async (req, res) => {
       return res.status(400).json({ error: "Messages array is required" });
     }
 
-    if (!openai) {
-      return res.json({
-        answer:
-          "AI service is not configured. Please check your OpenAI API key.",
-      });
+    if (!ai) {
+      return sendError(
+        res,
+        503,
+        ERROR_CODES.AI_UNAVAILABLE,
+        "AI service is not configured. Please check your OpenAI API key."
+      );
     }
 
-    const languageNames = {
+    const languageNames: Record<string, string> = {
       en: "English",
       sv: "Swedish",
       ar: "Arabic",
@@ -186,7 +193,7 @@ When a photo would really help diagnose the issue, explicitly ask:
 
 Remember: A real technician asks questions first, diagnoses second, and fixes last. You should do the same!`;
 
-    const formattedMessages = [{ role: "system", content: systemPrompt }];
+    const formattedMessages: ChatMessage[] = [{ role: "system", content: systemPrompt }];
 
     for (let i = 0; i < messages.length; i++) {
       const msg = messages[i];
@@ -197,7 +204,7 @@ Remember: A real technician asks questions first, diagnoses second, and fixes la
         messageContent = msg.content;
       } else if (Array.isArray(msg.content)) {
         messageContent = msg.content
-          .map((c) => {
+          .map((c: any) => {
             if (typeof c === "string") return c;
             if (c?.type === "text" && c?.text) return c.text;
             if (c?.type === "output_text" && c?.text) return c.text;
@@ -224,11 +231,9 @@ Remember: A real technician asks questions first, diagnoses second, and fixes la
                 "What can you see in this image? Please help me fix this problem.",
             },
             {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${imageBase64}`,
-                detail: "auto",
-              },
+              type: "image",
+              url: `data:image/jpeg;base64,${imageBase64}`,
+              detail: "auto",
             },
           ],
         });
@@ -250,20 +255,38 @@ Remember: A real technician asks questions first, diagnoses second, and fixes la
       messageCount: formattedMessages.length,
       hasImage: !!imageBase64,
       hasVideo: !!videoFileName,
-      model: imageBase64 ? "gpt-4o" : "gpt-4o-mini",
+      provider: ai.name,
     });
 
-    const completion = await openai.chat.completions.create({
-      model: imageBase64 ? "gpt-4o" : "gpt-4o-mini",
+    const chatRequest: ChatRequest = {
+      task: "chat",
       messages: formattedMessages,
+      vision: !!imageBase64,
       temperature: 0.7,
-      max_tokens: 800,
-    });
+      maxTokens: 800,
+    };
 
-    const answer = completion.choices[0]?.message?.content?.trim();
+    let answer;
+    if (wantsEventStream(req)) {
+      stream = openEventStream(res);
+      const content = await streamCompletion(ai, chatRequest, res, (delta: string) => {
+        stream!.send("delta", { text: delta });
+      });
+      if (content === null) {
+        console.log("[AI Chat] Client cancelled stream");
+        return stream.end();
+      }
+      answer = content.trim();
+    } else {
+      answer = (await ai.chat(chatRequest)).trim();
+    }
 
     if (!answer) {
-      return res.status(500).json({ error: "No response from AI" });
+      if (stream) {
+        stream.send("error", errorBody(ERROR_CODES.AI_FAILED, "No response from AI"));
+        return stream.end();
+      }
+      return sendError(res, 500, ERROR_CODES.AI_FAILED, "No response from AI");
     }
 
     // Award XP for successful AI chat message (non-blocking)
@@ -273,48 +296,92 @@ Remember: A real technician asks questions first, diagnoses second, and fixes la
       });
     }
 
+    if (stream) {
+      stream.send("done", { answer });
+      return stream.end();
+    }
+
     res.json({ answer });
-  } catch (error) {
+  } catch (error: any) {
     console.error("Chat error:", error.message || error);
     const errorMessage = error.message?.includes("API key")
       ? "OpenAI API key is invalid or expired"
       : "Failed to get AI response. Please try again.";
-    res.status(500).json({ error: errorMessage });
+    if (stream) {
+      stream.send("error", errorBody(ERROR_CODES.AI_FAILED, errorMessage));
+      return stream.end();
+    }
+    sendError(res, 500, ERROR_CODES.AI_FAILED, errorMessage);
   }
 });
 
+/**
+ * Load a LiveAssist session row if the caller may access it.
+ * Anonymous sessions (user_id NULL) are reachable by id alone; owned
+ * sessions only by their owner. Returns null when not found or not allowed.
+ */
+async function getLiveAssistSession(sessionId: string, userId: string | undefined) {
+  if (!sessionId || !UUID_PATTERN.test(sessionId)) {
+    return null;
+  }
+
+  const result = await pool.query(
+    `SELECT id, user_id, title, step_progress, created_at, updated_at
+     FROM liveassist_sessions
+     WHERE id = $1`,
+    [sessionId]
+  );
+
+  const session = result.rows[0];
+  if (!session) {
+    return null;
+  }
+
+  if (session.user_id && session.user_id !== userId) {
+    return null;
+  }
+
+  return session;
+}
+
+/**
+ * Get the most recent messages of a session in chronological order
+ */
+async function getLiveAssistHistory(sessionId: string, limit: number) {
+  const result = await pool.query(
+    `SELECT id, role, text, image_urls, analysis_result, created_at
+     FROM (
+       SELECT id, role, text, image_urls, analysis_result, created_at
+       FROM liveassist_messages
+       WHERE session_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2
+     ) recent
+     ORDER BY created_at ASC`,
+    [sessionId, limit]
+  );
+  return result.rows;
+}
+
 /**
  * LiveAssist Session API - MVP Conversation Thread
- * Creates a new session for multi-turn LiveAssist conversations
- * Now persists to database for history
+ * Creates a new session for multi-turn LiveAssist conversations.
+ * Sessions always live in the database so they survive restarts and
+ * work across backend instances; anonymous sessions have no user_id.
  */
 router.post("/liveassist/session", optionalAuth, async (req, res) => {
   try {
     const { title } = req.body;
-    
-    // Create session in database if user is authenticated
-    let dbSessionId = null;
-    if (req.userId) {
-      const result = await pool.query(
-        `INSERT INTO liveassist_sessions (user_id, title) 
-         VALUES ($1, $2) 
-         RETURNING id`,
-        [req.userId, title || 'New Analysis']
-      );
-      dbSessionId = result.rows[0].id;
-    }
-    
-    const sessionId = dbSessionId || crypto.randomUUID();
-    const session = {
-      id: sessionId,
-      userId: req.userId || null,
-      messages: [],
-      stepProgress: {},
-      createdAt: Date.now(),
-      dbSessionId: dbSessionId,
-    };
-    liveAssistSessions.set(sessionId, session);
-    console.log("[LiveAssist Session] Created session:", sessionId, dbSessionId ? "(persisted)" : "(in-memory)");
+
+    const result = await pool.query(
+      `INSERT INTO liveassist_sessions (user_id, title) 
+       VALUES ($1, $2) 
+       RETURNING id`,
+      [req.userId || null, title || 'New Analysis']
+    );
+    const sessionId = result.rows[0].id;
+
+    console.log("[LiveAssist Session] Created session:", sessionId, req.userId ? "(user)" : "(anonymous)");
     res.json({ sessionId });
   } catch (error) {
     console.error("LiveAssist session creation error:", error);
@@ -324,46 +391,210 @@ router.post("/liveassist/session", optionalAuth, async (req, res) => {
 
 /**
  * Get user's LiveAssist sessions (history)
+ * Pinned sessions first, then most recent activity. Each entry says whether
+ * an image was sent, with the first one as thumbnail: linked images by
+ * their URL, photos taken in the app (stored as data URLs, too big for a
+ * list) through the session's thumbnail endpoint. Also step completion
+ * across all answers.
  */
 router.get("/liveassist/sessions", authMiddleware, async (req, res) => {
   try {
     const result = await pool.query(
-      `SELECT id, title, created_at, updated_at 
-       FROM liveassist_sessions 
-       WHERE user_id = $1 
-       ORDER BY updated_at DESC 
-       LIMIT 20`,
+      `SELECT s.id, s.title, s.is_pinned, s.created_at, s.updated_at,
+              first_image.has_image,
+              first_image.linked_image_url,
+              (SELECT COUNT(*) FROM liveassist_messages m WHERE m.session_id = s.id) AS message_count,
+              COALESCE(steps.total_steps, 0) AS total_steps,
+              COALESCE(steps.completed_steps, 0) AS completed_steps
+       FROM liveassist_sessions s
+       LEFT JOIN LATERAL (
+         SELECT COUNT(*) AS total_steps,
+                COUNT(*) FILTER (WHERE (step->>'done')::boolean IS TRUE) AS completed_steps
+         FROM liveassist_messages m
+         CROSS JOIN LATERAL jsonb_array_elements(
+           CASE WHEN jsonb_typeof(m.analysis_result->'steps') = 'array'
+                THEN m.analysis_result->'steps'
+                ELSE '[]'::jsonb END
+         ) AS step
+         WHERE m.session_id = s.id AND m.role = 'assistant'
+       ) steps ON true
+       LEFT JOIN LATERAL (
+         -- Photos sent from the app are data URLs, served by the thumbnail endpoint instead
+         SELECT true AS has_image,
+                CASE WHEN m.image_urls->>0 ~ '^https?://' THEN m.image_urls->>0 END AS linked_image_url
+         FROM liveassist_messages m
+         WHERE m.session_id = s.id
+           AND jsonb_typeof(m.image_urls) = 'array'
+           AND jsonb_array_length(m.image_urls) > 0
+         ORDER BY m.created_at ASC
+         LIMIT 1
+       ) first_image ON true
+       WHERE s.user_id = $1 
+       ORDER BY s.is_pinned DESC, s.updated_at DESC 
+       LIMIT 50`,
       [req.userId]
     );
-    res.json({ sessions: result.rows });
+
+    const baseUrl = getPublicBaseUrl(req);
+    const sessions = result.rows.map(row => ({
+      id: row.id,
+      title: row.title,
+      isPinned: row.is_pinned || false,
+      hasImage: row.has_image || false,
+      thumbnailUrl: row.has_image
+        ? row.linked_image_url || `${baseUrl}/api/ai/liveassist/session/${row.id}/thumbnail`
+        : null,
+      messageCount: parseInt(row.message_count),
+      totalSteps: parseInt(row.total_steps),
+      completedSteps: parseInt(row.completed_steps),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }));
+
+    res.json({ sessions });
   } catch (error) {
     console.error("Get sessions error:", error);
     res.status(500).json({ error: "Failed to get sessions" });
   }
 });
 
+/**
+ * First photo of one of your sessions, for the session list
+ * Photos taken in the app are stored as data URLs; this sends the decoded
+ * image. Linked images redirect to their URL.
+ */
+router.get("/liveassist/session/:sessionId/thumbnail", authMiddleware, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!UUID_PATTERN.test(sessionId)) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const result = await pool.query(
+      `SELECT m.image_urls->>0 AS image
+       FROM liveassist_messages m
+       JOIN liveassist_sessions s ON s.id = m.session_id
+       WHERE m.session_id = $1 AND s.user_id = $2
+         AND jsonb_typeof(m.image_urls) = 'array'
+         AND jsonb_array_length(m.image_urls) > 0
+       ORDER BY m.created_at ASC
+       LIMIT 1`,
+      [sessionId, req.userId]
+    );
+    const image: string | undefined = result.rows[0]?.image;
+
+    if (image && /^https?:\/\//.test(image)) {
+      return res.redirect(image);
+    }
+    const photo = image && SESSION_PHOTO_PATTERN.exec(image);
+    if (!photo) {
+      return res.status(404).json({ error: "No photo in this session" });
+    }
+
+    // The photos of a sent message never change, so neither does this answer
+    res.set("Cache-Control", "private, max-age=86400");
+    res.type(photo[1]).send(Buffer.from(photo[2], "base64"));
+  } catch (error) {
+    console.error("Get session thumbnail error:", error);
+    res.status(500).json({ error: "Failed to get thumbnail" });
+  }
+});
+
+/**
+ * Rename and/or pin a session
+ */
+router.patch("/liveassist/session/:sessionId", authMiddleware, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const { title, isPinned } = req.body;
+
+    if (title === undefined && isPinned === undefined) {
+      return res.status(400).json({ error: "Nothing to update" });
+    }
+
+    if (title !== undefined && (typeof title !== "string" || title.trim().length === 0)) {
+      return res.status(400).json({ error: "Title is required" });
+    }
+
+    if (title !== undefined && title.trim().length > 100) {
+      return res.status(400).json({ error: "Title cannot exceed 100 characters" });
+    }
+
+    if (!UUID_PATTERN.test(sessionId)) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const result = await pool.query(
+      `UPDATE liveassist_sessions
+       SET title = COALESCE($1, title),
+           is_pinned = COALESCE($2, is_pinned)
+       WHERE id = $3 AND user_id = $4
+       RETURNING id, title, is_pinned, updated_at`,
+      [
+        title !== undefined ? title.trim() : null,
+        isPinned !== undefined ? !!isPinned : null,
+        sessionId,
+        req.userId
+      ]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const row = result.rows[0];
+    res.json({
+      id: row.id,
+      title: row.title,
+      isPinned: row.is_pinned,
+      updatedAt: row.updated_at
+    });
+  } catch (error) {
+    console.error("Update session error:", error);
+    res.status(500).json({ error: "Failed to update session" });
+  }
+});
+
+/**
+ * Delete a session and all of its messages
+ */
+router.delete("/liveassist/session/:sessionId", authMiddleware, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    if (!UUID_PATTERN.test(sessionId)) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    const result = await pool.query(
+      "DELETE FROM liveassist_sessions WHERE id = $1 AND user_id = $2 RETURNING id",
+      [sessionId, req.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+
+    res.json({ message: "Session deleted" });
+  } catch (error) {
+    console.error("Delete session error:", error);
+    res.status(500).json({ error: "Failed to delete session" });
+  }
+});
+
 /**
  * Get messages for a specific session
  */
 router.get("/liveassist/session/:sessionId/messages", optionalAuth, async (req, res) => {
   try {
     const { sessionId } = req.params;
-    
-    // First try to get from memory
-    const memSession = liveAssistSessions.get(sessionId);
-    if (memSession && memSession.messages.length > 0) {
-      return res.json({ 
-        messages: memSession.messages.map(m => ({
-          role: m.role,
-          text: m.text,
-          imageUrls: m.images || m.imageUrls || [],
-          analysisResult: m.analysisResult,
-          createdAt: m.timestamp ? new Date(m.timestamp).toISOString() : new Date().toISOString()
-        }))
-      });
+
+    const session = await getLiveAssistSession(sessionId, req.userId);
+    if (!session) {
+      return res.status(404).json({ error: "Session not found" });
     }
-    
-    // Otherwise get from database
+
     const result = await pool.query(
       `SELECT id, role, text, image_urls, analysis_result, created_at 
        FROM liveassist_messages 
@@ -381,26 +612,7 @@ router.get("/liveassist/session/:sessionId/messages", optionalAuth, async (req,
       createdAt: row.created_at
     }));
     
-    // Hydrate memory session with DB messages
-    if (messages.length > 0) {
-      const session = {
-        id: sessionId,
-        userId: req.userId || null,
-        messages: messages.map(m => ({
-          role: m.role,
-          text: m.text,
-          images: m.imageUrls,
-          analysisResult: m.analysisResult,
-          timestamp: new Date(m.createdAt).getTime()
-        })),
-        stepProgress: {},
-        createdAt: Date.now(),
-        dbSessionId: sessionId,
-      };
-      liveAssistSessions.set(sessionId, session);
-    }
-    
-    res.json({ messages });
+    res.json({ messages, stepProgress: session.step_progress || {} });
   } catch (error) {
     console.error("Get session messages error:", error);
     res.status(500).json({ error: "Failed to get messages" });
@@ -439,12 +651,13 @@ router.get("/liveassist/latest-session", authMiddleware, async (req, res) => {
  * - Free users: 2 images per day
  * - Premium/Trial users: Unlimited
  */
-router.post("/liveassist/session/:sessionId/message", optionalAuth, async (req, res) => {
+router.post("/liveassist/session/:sessionId/message", optionalAuth, aiLimit, aiBudget(), async (req, res) => {
+  let stream: EventStream | null = null;
   try {
     const { sessionId } = req.params;
     const { text, images = [], language = "en" } = req.body;
 
-    const session = liveAssistSessions.get(sessionId);
+    const session = await getLiveAssistSession(sessionId, req.userId);
     if (!session) {
       return res.status(404).json({ error: "Session not found" });
     }
@@ -455,10 +668,7 @@ router.post("/liveassist/session/:sessionId/message", optionalAuth, async (req,
       
       if (!limitCheck.allowed) {
         console.log(`[LiveAssist Session] User ${req.userId} hit daily image limit`);
-        return res.status(403).json({
-          error: "limit_exceeded",
-          code: "IMAGE_DAY_LIMIT",
-          message: limitCheck.message,
+        return sendError(res, 403, ERROR_CODES.IMAGE_DAY_LIMIT, limitCheck.message!, {
           imagesUsed: limitCheck.imagesUsed,
           limit: limitCheck.limit,
           isPremium: false,
@@ -467,22 +677,30 @@ router.post("/liveassist/session/:sessionId/message", optionalAuth, async (req,
       }
     }
 
-    if (!openai) {
-      return res.status(503).json({
-        error: "AI service is not configured. Please check your OpenAI API key.",
-      });
+    if (!ai) {
+      return sendError(
+        res,
+        503,
+        ERROR_CODES.AI_UNAVAILABLE,
+        "AI service is not configured. Please check your OpenAI API key."
+      );
     }
 
-    // Add user message to history
-    const userMessage = {
-      role: "user",
-      text: text || "",
-      images: images || [],
-      timestamp: Date.now(),
-    };
-    session.messages.push(userMessage);
+    // Rebuild the conversation from the database and append the new user turn
+    const storedMessages = await getLiveAssistHistory(
+      sessionId,
+      LIVEASSIST_CONTEXT_MESSAGES - 1
+    );
+    const conversation = [
+      ...storedMessages.map((row) => ({
+        role: row.role,
+        text: row.text,
+        images: row.image_urls || [],
+      })),
+      { role: "user", text: text || "", images: images || [] },
+    ];
 
-    const languageNames = {
+    const languageNames: Record<string, string> = {
       en: "English",
       sv: "Swedish",
       ar: "Arabic",
@@ -518,25 +736,15 @@ router.post("/liveassist/session/:sessionId/message", optionalAuth, async (req,
 - Return ONLY valid JSON, no markdown`;
 
     // Build conversation history (last 5 turns)
-    const historyMessages = session.messages.slice(-10).map((msg) => {
+    const historyMessages = conversation.map((msg): ChatMessage => {
       if (msg.role === "user") {
-        const content = [];
+        const content: ChatContentPart[] = [];
         if (msg.text) {
           content.push({ type: "text", text: msg.text });
         }
         if (msg.images && msg.images.length > 0) {
-          msg.images.forEach((imgUrl) => {
-            if (imgUrl.startsWith("data:")) {
-              content.push({
-                type: "image_url",
-                image_url: { url: imgUrl, detail: "auto" },
-              });
-            } else {
-              content.push({
-                type: "image_url",
-                image_url: { url: imgUrl, detail: "auto" },
-              });
-            }
+          msg.images.forEach((imgUrl: string) => {
+            content.push({ type: "image", url: imgUrl, detail: "auto" });
           });
         }
         return { role: "user", content: content.length > 0 ? content : msg.text || "Hello" };
@@ -545,7 +753,7 @@ router.post("/liveassist/session/:sessionId/message", optionalAuth, async (req,
       }
     });
 
-    const formattedMessages = [
+    const formattedMessages: ChatMessage[] = [
       { role: "system", content: systemPrompt },
       ...historyMessages,
     ];
@@ -556,94 +764,99 @@ router.post("/liveassist/session/:sessionId/message", optionalAuth, async (req,
       hasImages: images.length > 0,
     });
 
-    const completion = await openai.chat.completions.create({
-      model: images.length > 0 ? "gpt-4o" : "gpt-4o-mini",
+    const chatRequest: ChatRequest = {
+      task: "liveassist.session",
       messages: formattedMessages,
+      vision: images.length > 0,
       temperature: 0.7,
-      max_tokens: 1200,
-    });
+      maxTokens: 1200,
+    };
 
-    const rawAnswer = completion.choices[0]?.message?.content?.trim();
+    let rawAnswer;
+    if (wantsEventStream(req)) {
+      // Stream the reply text as it is generated and each structured
+      // field (steps, youtube_links, ...) as soon as its JSON value closes
+      stream = openEventStream(res);
+      const fieldStreamer = new JsonFieldStreamer("text");
+      const content = await streamCompletion(ai, chatRequest, res, (delta: string) => {
+        const { textDelta, fields } = fieldStreamer.feed(delta);
+        if (textDelta) {
+          stream!.send("delta", { text: textDelta });
+        }
+        fields.forEach(([name, value]) => {
+          const field = validateSessionMessageField(name, value);
+          if (field) {
+            stream!.send("field", { name, value: field.value });
+          }
+        });
+      });
+      if (content === null) {
+        // Nothing is persisted for a cancelled reply
+        console.log("[LiveAssist Session] Client cancelled stream:", sessionId);
+        return stream.end();
+      }
+      rawAnswer = content.trim();
+    } else {
+      rawAnswer = (await ai.chat(chatRequest)).trim();
+    }
 
     if (!rawAnswer) {
-      return res.status(500).json({ error: "No response from AI" });
+      if (stream) {
+        stream.send("error", errorBody(ERROR_CODES.AI_FAILED, "No response from AI"));
+        return stream.end();
+      }
+      return sendError(res, 500, ERROR_CODES.AI_FAILED, "No response from AI");
     }
 
-    // Parse AI response
-    let aiResponse = {
-      text: "",
-      steps: [],
-      youtube_links: [],
-      images_to_show: [],
-      safety_warnings: [],
-      structured: true,
-    };
-
-    try {
-      // Extract JSON from response (handle markdown code blocks)
-      let jsonStr = rawAnswer;
-      const jsonMatch = rawAnswer.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1].trim();
-      }
-      const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
-      if (jsonObjectMatch) {
-        jsonStr = jsonObjectMatch[0];
-      }
+    // Validate against the shared schema; malformed JSON is re-asked
+    const parsed = await parseStructuredReply(ai, chatRequest, rawAnswer, validateSessionMessage);
 
-      const parsed = JSON.parse(jsonStr);
-      aiResponse.text = parsed.text || "";
-      aiResponse.steps = Array.isArray(parsed.steps) ? parsed.steps.map((s, idx) => ({
-        id: s.id || `s${idx + 1}`,
-        text: s.text || "",
-        detail: s.detail || "",
-        tools: Array.isArray(s.tools) ? s.tools : [],
-      })) : [];
-      aiResponse.youtube_links = Array.isArray(parsed.youtube_links) ? parsed.youtube_links.filter(
-        (yt) => yt.title && yt.url
-      ) : [];
-      aiResponse.images_to_show = Array.isArray(parsed.images_to_show) ? parsed.images_to_show : [];
-      aiResponse.safety_warnings = Array.isArray(parsed.safety_warnings) ? parsed.safety_warnings : [];
-      
-      console.log("[LiveAssist Session] Parsed JSON response successfully");
-    } catch (parseError) {
-      console.log("[LiveAssist Session] JSON parse failed, using plain text:", parseError.message);
-      aiResponse.text = rawAnswer;
-      aiResponse.structured = false;
+    let aiResponse: LiveAssistSessionContent & { id?: string; structured: boolean };
+    if (parsed.value) {
+      aiResponse = { ...parsed.value, structured: true };
+      console.log("[LiveAssist Session] Parsed JSON response:", {
+        repairs: parsed.repairs,
+        issues: parsed.issues.length,
+      });
+    } else {
+      console.log("[LiveAssist Session] No usable JSON, using plain text");
+      aiResponse = {
+        text: parsed.raw,
+        steps: [],
+        youtube_links: [],
+        images_to_show: [],
+        safety_warnings: [],
+        structured: false,
+      };
     }
 
-    // Add assistant message to history
-    const assistantMessage = {
-      role: "assistant",
-      text: aiResponse.text,
-      steps: aiResponse.steps,
-      youtube_links: aiResponse.youtube_links,
-      safety_warnings: aiResponse.safety_warnings,
-      timestamp: Date.now(),
-    };
-    session.messages.push(assistantMessage);
-
-    // Persist messages to database (non-blocking)
-    if (req.userId && session.dbSessionId) {
-      // Save user message
-      pool.query(
-        `INSERT INTO liveassist_messages (session_id, user_id, role, text, image_urls)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [session.dbSessionId, req.userId, 'user', text || '', JSON.stringify(images)]
-      ).catch(err => console.log("[LiveAssist] Error saving user message:", err.message));
-      
-      // Save assistant message
-      pool.query(
-        `INSERT INTO liveassist_messages (session_id, user_id, role, text, analysis_result)
-         VALUES ($1, $2, $3, $4, $5)`,
-        [session.dbSessionId, req.userId, 'assistant', aiResponse.text, JSON.stringify(aiResponse)]
-      ).catch(err => console.log("[LiveAssist] Error saving assistant message:", err.message));
-      
-      // Update session timestamp
-      pool.query(
+    // Persist both turns so the session can be resumed on any instance.
+    // clock_timestamp() keeps the two rows ordered inside one transaction.
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await client.query(
+        `INSERT INTO liveassist_messages (session_id, user_id, role, text, image_urls, created_at)
+         VALUES ($1, $2, 'user', $3, $4, clock_timestamp())`,
+        [sessionId, req.userId || null, text || '', JSON.stringify(images)]
+      );
+      const assistantResult = await client.query(
+        `INSERT INTO liveassist_messages (session_id, user_id, role, text, analysis_result, created_at)
+         VALUES ($1, $2, 'assistant', $3, $4, clock_timestamp())
+         RETURNING id`,
+        [sessionId, req.userId || null, aiResponse.text, JSON.stringify(aiResponse)]
+      );
+      await client.query(
         `UPDATE liveassist_sessions SET updated_at = NOW() WHERE id = $1`,
-        [session.dbSessionId]
-      ).catch(err => console.log("[LiveAssist] Error updating session:", err.message));
+        [sessionId]
+      );
+      await client.query("COMMIT");
+      aiResponse.id = assistantResult.rows[0].id;
+    } catch (dbError) {
+      await client.query("ROLLBACK").catch(() => {});
+      throw dbError;
+    } finally {
+      client.release();
     }
 
     // Track image usage for subscription limits (if images were sent) and award XP (non-blocking)
@@ -652,19 +865,34 @@ router.post("/liveassist/session/:sessionId/message", optionalAuth, async (req,
         incrementImageUsage(req.userId).catch((err) => {
           console.log("[Subscription] Non-blocking image usage tracking error:", err.message);
         });
+        recordScanInterest(req.userId, `${text || ""} ${aiResponse.text}`).catch((err) => {
+          console.log("[Recommendations] Non-blocking scan tracking error:", err.message);
+        });
       }
       awardXp(req.userId, "liveassist_scan").catch((err) => {
         console.log("[XP] Non-blocking XP award error:", err.message);
       });
     }
 
-    res.json(aiResponse);
-  } catch (error) {
+    // Fields the schema corrected or dropped, reported but not persisted
+    const payload = { ...aiResponse, validationErrors: parsed.issues };
+
+    if (stream) {
+      stream.send("done", payload);
+      return stream.end();
+    }
+
+    res.json(payload);
+  } catch (error: any) {
     console.error("LiveAssist session message error:", error.message || error);
     const errorMessage = error.message?.includes("API key")
       ? "OpenAI API key is invalid or expired"
       : "Failed to get AI response. Please try again.";
-    res.status(500).json({ error: errorMessage });
+    if (stream) {
+      stream.send("error", errorBody(ERROR_CODES.AI_FAILED, errorMessage));
+      return stream.end();
+    }
+    sendError(res, 500, ERROR_CODES.AI_FAILED, errorMessage);
   }
 });
 
@@ -676,12 +904,19 @@ router.patch("/liveassist/session/:sessionId/steps/:stepId", optionalAuth, async
     const { sessionId, stepId } = req.params;
     const { completed } = req.body;
 
-    const session = liveAssistSessions.get(sessionId);
+    const session = await getLiveAssistSession(sessionId, req.userId);
     if (!session) {
       return res.status(404).json({ error: "Session not found" });
     }
 
-    session.stepProgress[stepId] = !!completed;
+    await pool.query(
+      `UPDATE liveassist_sessions
+       SET step_progress = COALESCE(step_progress, '{}'::jsonb) || jsonb_build_object($1::text, $2::boolean),
+           updated_at = NOW()
+       WHERE id = $3`,
+      [stepId, !!completed, sessionId]
+    );
+
     res.json({ success: true, stepId, completed: !!completed });
   } catch (error) {
     console.error("Step progress update error:", error);
@@ -692,9 +927,11 @@ router.patch("/liveassist/session/:sessionId/steps/:stepId", optionalAuth, async
 /**
  * Fix 1: Toggle step done state in a persisted message
  * PATCH /api/liveassist/messages/:messageId/steps/:stepIndex
- * Toggles meta.steps[stepIndex].done, persists to DB, emits websocket message.updated
+ * Toggles meta.steps[stepIndex].done, or sets it from a boolean { done },
+ * persists to DB, emits websocket message.updated. Only for messages in
+ * your own sessions.
  */
-router.patch("/liveassist/messages/:messageId/steps/:stepIndex", optionalAuth, async (req, res) => {
+router.patch("/liveassist/messages/:messageId/steps/:stepIndex", authMiddleware, async (req, res) => {
   try {
     const { messageId, stepIndex } = req.params;
     const idx = parseInt(stepIndex, 10);
@@ -702,13 +939,18 @@ router.patch("/liveassist/messages/:messageId/steps/:stepIndex", optionalAuth, a
     if (isNaN(idx) || idx < 0) {
       return res.status(400).json({ error: "Invalid step index" });
     }
+
+    if (!UUID_PATTERN.test(messageId)) {
+      return res.status(404).json({ error: "Message not found" });
+    }
     
     // Fetch message from database
     const msgResult = await pool.query(
-      `SELECT id, session_id, role, text, image_urls, analysis_result, created_at 
-       FROM liveassist_messages 
-       WHERE id = $1`,
-      [messageId]
+      `SELECT m.id, m.session_id, m.role, m.text, m.image_urls, m.analysis_result, m.created_at 
+       FROM liveassist_messages m
+       JOIN liveassist_sessions s ON s.id = m.session_id
+       WHERE m.id = $1 AND s.user_id = $2`,
+      [messageId, req.userId]
     );
     
     if (msgResult.rows.length === 0) {
@@ -723,8 +965,8 @@ router.patch("/liveassist/messages/:messageId/steps/:stepIndex", optionalAuth, a
       return res.status(400).json({ error: "Invalid step index - out of range" });
     }
     
-    // Toggle done state
-    steps[idx].done = !steps[idx].done;
+    // Explicit state from the offline outbox, otherwise toggle
+    steps[idx].done = typeof req.body.done === "boolean" ? req.body.done : !steps[idx].done;
     meta.steps = steps;
     
     // Persist to database
@@ -750,8 +992,6 @@ router.patch("/liveassist/messages/:messageId/steps/:stepIndex", optionalAuth, a
     // Emit websocket message.updated to session subscribers
     wsManager.emitMessageUpdated(msg.session_id, updatedMessage);
     
-    console.log(`[LiveAssist] Step ${idx} toggled to done=${steps[idx].done} for message ${messageId}`);
-    
     res.json(updatedMessage);
   } catch (error) {
     console.error("Toggle step error:", error);
@@ -767,7 +1007,7 @@ router.patch("/liveassist/messages/:messageId/steps/:stepIndex", optionalAuth, a
  * - Free users: 2 images per day
  * - Premium/Trial users: Unlimited
  */
-router.post("/liveassist", optionalAuth, async (req, res) => {
+router.post("/liveassist", optionalAuth, aiLimit, aiBudget(), async (req, res) => {
   try {
     const { imageBase64, language = "en" } = req.body;
 
@@ -781,10 +1021,7 @@ router.post("/liveassist", optionalAuth, async (req, res) => {
       
       if (!limitCheck.allowed) {
         console.log(`[LiveAssist] User ${req.userId} hit daily image limit`);
-        return res.status(403).json({
-          error: "limit_exceeded",
-          code: "IMAGE_DAY_LIMIT",
-          message: limitCheck.message,
+        return sendError(res, 403, ERROR_CODES.IMAGE_DAY_LIMIT, limitCheck.message!, {
           imagesUsed: limitCheck.imagesUsed,
           limit: limitCheck.limit,
           isPremium: false,
@@ -793,14 +1030,16 @@ router.post("/liveassist", optionalAuth, async (req, res) => {
       }
     }
 
-    if (!openai) {
-      return res.status(503).json({
-        error:
-          "AI service is not configured. Please check your OpenAI API key.",
-      });
+    if (!ai) {
+      return sendError(
+        res,
+        503,
+        ERROR_CODES.AI_UNAVAILABLE,
+        "AI service is not configured. Please check your OpenAI API key."
+      );
     }
 
-    const languageNames = {
+    const languageNames: Record<string, string> = {
       en: "English",
       sv: "Swedish",
       ar: "Arabic",
@@ -934,8 +1173,9 @@ When you see an image, respond with EXACTLY this JSON format. Return ONLY valid
 
     console.log("[LiveAssist] Processing image analysis request");
 
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o",
+    const analysisRequest: ChatRequest = {
+      task: "liveassist.analyze",
+      vision: true,
       messages: [
         { role: "system", content: systemPrompt },
         {
@@ -946,193 +1186,64 @@ When you see an image, respond with EXACTLY this JSON format. Return ONLY valid
               text: "Please analyze this image and help me fix the problem.",
             },
             {
-              type: "image_url",
-              image_url: {
-                url: `data:image/jpeg;base64,${imageBase64}`,
-                detail: "high",
-              },
+              type: "image",
+              url: `data:image/jpeg;base64,${imageBase64}`,
+              detail: "high",
             },
           ],
         },
       ],
       temperature: 0.7,
-      max_tokens: 1500,
-    });
+      maxTokens: 1500,
+    };
 
-    const answer = completion.choices[0]?.message?.content?.trim();
+    const answer = (await ai.chat(analysisRequest)).trim();
 
     if (!answer) {
-      return res.status(500).json({ error: "No response from AI" });
+      return sendError(res, 500, ERROR_CODES.AI_FAILED, "No response from AI");
     }
 
-    // Parse the JSON response
-    let summary = "";
-    let possibleIssue = "";
-    let steps = [];
-    let safetyNote = "";
-    let overlays = [];
-    // RiskScanner fields
-    let riskLevel = "low";
-    let riskSummary = "";
-    let risks = [];
-    let riskOverlays = [];
-    // Spare Parts Finder fields
-    let spareParts = [];
-
-    try {
-      // Try to extract JSON from the response (handle cases where AI adds markdown)
-      let jsonStr = answer;
-
-      // Remove markdown code blocks if present
-      const jsonMatch = answer.match(/```(?:json)?\s*([\s\S]*?)```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1].trim();
-      }
-
-      // Try to find JSON object in the response
-      const jsonObjectMatch = jsonStr.match(/\{[\s\S]*\}/);
-      if (jsonObjectMatch) {
-        jsonStr = jsonObjectMatch[0];
-      }
-
-      const parsed = JSON.parse(jsonStr);
-
-      summary = parsed.whatISee || "";
-      possibleIssue = parsed.likelyIssue || "";
-      safetyNote = parsed.safetyNote || "";
-
-      // Parse steps
-      if (Array.isArray(parsed.steps)) {
-        steps = parsed.steps.map((step, idx) => ({
-          stepNumber: step.stepNumber || idx + 1,
-          text: step.text || "",
-        }));
-      }
-
-      // Parse overlays with validation
-      if (Array.isArray(parsed.overlays)) {
-        overlays = parsed.overlays
-          .filter((o) => typeof o.x === "number" && typeof o.y === "number")
-          .map((o) => ({
-            x: Math.max(0, Math.min(1, o.x)),
-            y: Math.max(0, Math.min(1, o.y)),
-            width: Math.max(0.05, Math.min(1, o.width || 0.2)),
-            height: Math.max(0.05, Math.min(1, o.height || 0.2)),
-            stepIndex: typeof o.stepIndex === "number" ? o.stepIndex : null,
-            label: o.label || "",
-          }));
-      }
-
-      // Parse RiskScanner fields
-      if (
-        parsed.riskLevel &&
-        ["low", "medium", "high"].includes(parsed.riskLevel.toLowerCase())
-      ) {
-        riskLevel = parsed.riskLevel.toLowerCase();
-      }
-
-      riskSummary = parsed.riskSummary || "";
-
-      // Parse risks array
-      if (Array.isArray(parsed.risks)) {
-        risks = parsed.risks
-          .filter((r) => r.label)
-          .map((r) => ({
-            label: r.label || "",
-            severity: ["low", "medium", "high"].includes(
-              r.severity?.toLowerCase(),
-            )
-              ? r.severity.toLowerCase()
-              : "medium",
-            recommendation: r.recommendation || "",
-          }));
-      }
-
-      // Parse risk overlays with validation
-      if (Array.isArray(parsed.riskOverlays)) {
-        riskOverlays = parsed.riskOverlays
-          .filter((o) => typeof o.x === "number" && typeof o.y === "number")
-          .map((o) => ({
-            x: Math.max(0, Math.min(1, o.x)),
-            y: Math.max(0, Math.min(1, o.y)),
-            width: Math.max(0.05, Math.min(1, o.width || 0.15)),
-            height: Math.max(0.05, Math.min(1, o.height || 0.15)),
-            riskLabel: o.riskLabel || "",
-            severity: ["low", "medium", "high"].includes(
-              o.severity?.toLowerCase(),
-            )
-              ? o.severity.toLowerCase()
-              : "medium",
-          }));
-      }
-
-      // Parse spare parts with validation
-      // overlayIndex is 1-based (matches the displayed marker numbers in the UI)
-      if (Array.isArray(parsed.spareParts)) {
-        const maxOverlayIndex = overlays.length; // Max valid 1-based index
-        spareParts = parsed.spareParts
-          .filter((p) => p.name)
-          .map((p) => {
-            // Coerce and validate overlayIndex to finite positive integer or null
-            // overlayIndex is 1-based to match UI display (marker #1, #2, etc.)
-            let validOverlayIndex = null;
-            if (p.overlayIndex !== null && p.overlayIndex !== undefined) {
-              const parsedIdx =
-                typeof p.overlayIndex === "number"
-                  ? p.overlayIndex
-                  : Number(p.overlayIndex);
-              // Must be a positive integer within valid range (1 to number of overlays)
-              if (
-                Number.isFinite(parsedIdx) &&
-                parsedIdx >= 1 &&
-                parsedIdx <= maxOverlayIndex
-              ) {
-                validOverlayIndex = Math.floor(parsedIdx);
-              }
-            }
+    // Validate against the shared schema (clamps coordinates, coerces
+    // severities, checks cross references); malformed JSON is re-asked
+    const parsed = await parseStructuredReply(ai, analysisRequest, answer, (reply: any) =>
+      validateLiveAssistAnalysis(
+        reply && typeof reply === "object"
+          ? { ...reply, summary: reply.whatISee, possibleIssue: reply.likelyIssue }
+          : reply,
+      ),
+    );
 
-            return {
-              name: p.name || "",
-              category: p.category || "part",
-              description: p.description || "",
-              specs: Array.isArray(p.specs)
-                ? p.specs.filter((s) => typeof s === "string")
-                : [],
-              compatibility: p.compatibility || "",
-              priority: ["primary", "optional"].includes(
-                p.priority?.toLowerCase(),
-              )
-                ? p.priority.toLowerCase()
-                : "optional",
-              notes: p.notes || "",
-              overlayIndex: validOverlayIndex,
-            };
-          });
-      }
+    let analysis = parsed.value;
+    if (analysis) {
+      console.log("[LiveAssist] Parsed JSON response:", {
+        repairs: parsed.repairs,
+        issues: parsed.issues.length,
+      });
+    } else {
+      console.log("[LiveAssist] No usable JSON, falling back to text parsing");
 
-      console.log("[LiveAssist] Parsed JSON response successfully");
-    } catch (parseError) {
-      console.log(
-        "[LiveAssist] JSON parse failed, falling back to text parsing:",
-        parseError.message,
-      );
+      let summary = "";
+      let possibleIssue = "";
+      let steps: LiveAssistStep[] = [];
+      let safetyNote = "";
+      const text = parsed.raw;
 
       // Fallback to legacy text parsing for backward compatibility
-      const seeMatch = answer.match(
+      const seeMatch = text.match(
         /\*\*What I See:\*\*\s*\n?([\s\S]*?)(?=\n\*\*|$)/i,
       );
       if (seeMatch) {
         summary = seeMatch[1].trim();
       }
 
-      const issueMatch = answer.match(
+      const issueMatch = text.match(
         /\*\*Likely Issue:\*\*\s*\n?([\s\S]*?)(?=\n\*\*|$)/i,
       );
       if (issueMatch) {
         possibleIssue = issueMatch[1].trim();
       }
 
-      const stepsMatch = answer.match(
+      const stepsMatch = text.match(
         /\*\*Steps to Fix:\*\*\s*\n?([\s\S]*?)(?=\n\*\*Safety|$)/i,
       );
       if (stepsMatch) {
@@ -1146,7 +1257,7 @@ When you see an image, respond with EXACTLY this JSON format. Return ONLY valid
         }));
       }
 
-      const safetyMatch = answer.match(
+      const safetyMatch = text.match(
         /\*\*Safety Note:\*\*\s*\n?([\s\S]*?)$/i,
       );
       if (safetyMatch) {
@@ -1154,23 +1265,29 @@ When you see an image, respond with EXACTLY this JSON format. Return ONLY valid
       }
 
       // No overlays, risk data, or spare parts in fallback mode
-      overlays = [];
-      riskLevel = "low";
-      riskSummary = "";
-      risks = [];
-      riskOverlays = [];
-      spareParts = [];
+      analysis = {
+        summary,
+        possibleIssue,
+        steps,
+        safetyNote,
+        overlays: [],
+        riskLevel: "low",
+        riskSummary: "",
+        risks: [],
+        riskOverlays: [],
+        spareParts: [],
+      };
     }
 
     console.log("[LiveAssist] Analysis complete:", {
-      hasSummary: !!summary,
-      hasIssue: !!possibleIssue,
-      stepsCount: steps.length,
-      overlaysCount: overlays.length,
-      riskLevel,
-      risksCount: risks.length,
-      riskOverlaysCount: riskOverlays.length,
-      sparePartsCount: spareParts.length,
+      hasSummary: !!analysis.summary,
+      hasIssue: !!analysis.possibleIssue,
+      stepsCount: analysis.steps.length,
+      overlaysCount: analysis.overlays.length,
+      riskLevel: analysis.riskLevel,
+      risksCount: analysis.risks.length,
+      riskOverlaysCount: analysis.riskOverlays.length,
+      sparePartsCount: analysis.spareParts.length,
     });
 
     // Track image usage for subscription limits and award XP (non-blocking)
@@ -1181,6 +1298,9 @@ When you see an image, respond with EXACTLY this JSON format. Return ONLY valid
       awardXp(req.userId, "liveassist_scan").catch((err) => {
         console.log("[XP] Non-blocking XP award error:", err.message);
       });
+      recordScanInterest(req.userId, analysis.summary, analysis.possibleIssue).catch((err) => {
+        console.log("[Recommendations] Non-blocking scan tracking error:", err.message);
+      });
     }
 
     // Get subscription info for response
@@ -1195,7 +1315,7 @@ When you see an image, respond with EXACTLY this JSON format. Return ONLY valid
           dailyLimit: subscription?.isPremium ? null : SUBSCRIPTION_CONFIG.FREE_DAILY_IMAGES,
           remaining: limitCheck.remaining
         };
-      } catch (err) {
+      } catch (err: any) {
         console.log("[Subscription] Could not get subscription info:", err.message);
       }
     }
@@ -1203,30 +1323,22 @@ When you see an image, respond with EXACTLY this JSON format. Return ONLY valid
     res.json({
       success: true,
       analysis: {
-        summary,
-        possibleIssue,
-        steps,
-        safetyNote,
-        overlays,
-        riskLevel,
-        riskSummary,
-        risks,
-        riskOverlays,
-        spareParts,
-        rawResponse: answer,
+        ...analysis,
+        rawResponse: parsed.raw,
       },
+      validationErrors: parsed.issues,
       subscription: subscriptionInfo,
     });
-  } catch (error) {
+  } catch (error: any) {
     console.error("LiveAssist error:", error.message || error);
     const errorMessage = error.message?.includes("API key")
       ? "OpenAI API key is invalid or expired"
       : "Failed to analyze image. Please try again.";
-    res.status(500).json({ error: errorMessage });
+    sendError(res, 500, ERROR_CODES.AI_FAILED, errorMessage);
   }
 });
 
-router.post("/suggest-tags", authMiddleware, async (req, res) => {
+router.post("/suggest-tags", authMiddleware, aiLimit, aiBudget(), async (req, res) => {
   try {
     const { title, description, category } = req.body;
 
@@ -1234,7 +1346,7 @@ router.post("/suggest-tags", authMiddleware, async (req, res) => {
       return res.status(400).json({ error: "Title is required" });
     }
 
-    if (!OPENAI_API_KEY) {
+    if (!ai) {
       const defaultTags = ["DIY", "fix", "home", category || "repair"].filter(
         Boolean,
       );
@@ -1248,15 +1360,14 @@ Category: ${category || "general"}
 
 Return only a JSON array of lowercase tags, no other text. Example: ["plumbing", "faucet", "diy", "repair"]`;
 
-    const response = await callOpenAI("chat/completions", {
-      model: "gpt-4o-mini",
+    const response = await ai.chat({
+      task: "video.tags",
       messages: [{ role: "user", content: prompt }],
       temperature: 0.7,
-      max_tokens: 100,
+      maxTokens: 100,
     });
 
-    const content = response.choices[0].message.content.trim();
-    const tags = JSON.parse(content);
+    const tags = JSON.parse(response.trim());
 
     res.json({ tags: tags.slice(0, 8) });
   } catch (error) {
@@ -1265,7 +1376,7 @@ Return only a JSON array of lowercase tags, no other text. Example: ["plumbing",
   }
 });
 
-router.post("/generate-description", authMiddleware, async (req, res) => {
+router.post("/generate-description", authMiddleware, aiLimit, aiBudget(), async (req, res) => {
   try {
     const { title, category, tags } = req.body;
 
@@ -1273,7 +1384,7 @@ router.post("/generate-description", authMiddleware, async (req, res) => {
       return res.status(400).json({ error: "Title is required" });
     }
 
-    if (!OPENAI_API_KEY) {
+    if (!ai) {
       return res.json({
         description: `Learn how to ${title.toLowerCase()}. Quick and easy fix!`,
       });
@@ -1286,14 +1397,14 @@ Tags: ${(tags || []).join(", ") || "none"}
 
 The description should be practical, encouraging, and highlight the key benefit. Return only the description text.`;
 
-    const response = await callOpenAI("chat/completions", {
-      model: "gpt-4o-mini",
+    const response = await ai.chat({
+      task: "video.description",
       messages: [{ role: "user", content: prompt }],
       temperature: 0.8,
-      max_tokens: 100,
+      maxTokens: 100,
     });
 
-    const description = response.choices[0].message.content
+    const description = response
       .trim()
       .replace(/^["']|["']$/g, "");
 
@@ -1304,30 +1415,22 @@ The description should be practical, encouraging, and highlight the key benefit.
   }
 });
 
-router.post("/moderate-content", authMiddleware, async (req, res) => {
+router.post("/moderate-content", authMiddleware, aiLimit, aiBudget(), async (req, res) => {
   try {
     const { title, description, tags } = req.body;
 
-    if (!OPENAI_API_KEY) {
+    if (!ai) {
       return res.json({ approved: true, reason: null });
     }
 
     const content = `${title} ${description || ""} ${(tags || []).join(" ")}`;
 
-    const response = await callOpenAI("moderations", {
-      input: content,
-    });
-
-    const result = response.results[0];
+    const result = await ai.moderate(content);
 
     if (result.flagged) {
-      const categories = Object.entries(result.categories)
-        .filter(([_, flagged]) => flagged)
-        .map(([category]) => category);
-
       return res.json({
         approved: false,
-        reason: `Content flagged for: ${categories.join(", ")}`,
+        reason: `Content flagged for: ${result.categories.join(", ")}`,
       });
     }
 
@@ -1338,7 +1441,7 @@ router.post("/moderate-content", authMiddleware, async (req, res) => {
   }
 });
 
-router.post("/generate-guide", optionalAuth, async (req, res) => {
+router.post("/generate-guide", optionalAuth, aiLimit, limitImageGuides, aiBudget(), async (req, res) => {
   try {
     const { query, language = "en", includeImages = true } = req.body;
 
@@ -1346,7 +1449,7 @@ router.post("/generate-guide", optionalAuth, async (req, res) => {
       return res.status(400).json({ error: "Query is required" });
     }
 
-    const languageNames = {
+    const languageNames: Record<string, string> = {
       en: "English",
       sv: "Swedish",
       ar: "Arabic",
@@ -1356,7 +1459,7 @@ router.post("/generate-guide", optionalAuth, async (req, res) => {
     };
     const languageName = languageNames[language] || "English";
 
-    if (!OPENAI_API_KEY) {
+    if (!ai) {
       const fallbackSteps = [
         { stepNumber: 1, text: `Search for "${query}" tutorials online` },
         { stepNumber: 2, text: "Watch video guides from verified experts" },
@@ -1388,23 +1491,21 @@ Requirements:
 Return ONLY a JSON array of objects with "stepNumber" and "text" fields. Example:
 [{"stepNumber": 1, "text": "Turn off the water supply valve under the sink."}, {"stepNumber": 2, "text": "..."}]`;
 
-    const stepsResponse = await callOpenAI("chat/completions", {
-      model: "gpt-4o-mini",
+    const stepsResponse = await ai.chat({
+      task: "guide.steps",
       messages: [{ role: "user", content: stepsPrompt }],
       temperature: 0.7,
-      max_tokens: 800,
+      maxTokens: 800,
     });
 
-    let steps;
+    let steps: GuideStep[];
     try {
-      const content = stepsResponse.choices[0].message.content.trim();
+      const content = stepsResponse.trim();
       const jsonMatch = content.match(/\[[\s\S]*\]/);
       steps = jsonMatch ? JSON.parse(jsonMatch[0]) : JSON.parse(content);
     } catch (parseError) {
       console.error("Failed to parse steps:", parseError);
-      steps = [
-        { stepNumber: 1, text: stepsResponse.choices[0].message.content },
-      ];
+      steps = [{ stepNumber: 1, text: stepsResponse }];
     }
 
     let images = [];
@@ -1426,32 +1527,28 @@ Return ONLY a JSON array of objects with "prompt" and "caption" (in ${languageNa
 [{"prompt": "Clean instructional illustration of hands turning off a water valve under a sink, simple diagram style", "caption": "Turn off the water valve"}]`;
 
       try {
-        const imagePromptsResponse = await callOpenAI("chat/completions", {
-          model: "gpt-4o-mini",
+        const imagePromptsResponse = await ai.chat({
+          task: "guide.imagePrompts",
           messages: [{ role: "user", content: imagePromptsRequest }],
           temperature: 0.7,
-          max_tokens: 500,
+          maxTokens: 500,
         });
 
         let imagePrompts;
-        const promptContent =
-          imagePromptsResponse.choices[0].message.content.trim();
+        const promptContent = imagePromptsResponse.trim();
         const promptJsonMatch = promptContent.match(/\[[\s\S]*\]/);
         imagePrompts = promptJsonMatch
           ? JSON.parse(promptJsonMatch[0])
           : JSON.parse(promptContent);
 
         const imageResults = await Promise.allSettled(
-          imagePrompts.slice(0, 4).map(async (item) => {
-            const imageResponse = await callOpenAI("images/generations", {
-              model: "dall-e-3",
-              prompt: `Clean, simple instructional diagram illustration: ${item.prompt}. Style: clear line art, minimal colors, no text or labels, educational diagram style.`,
-              n: 1,
-              size: "1024x1024",
-              quality: "standard",
-            });
+          imagePrompts.slice(0, 4).map(async (item: { prompt: string; caption: string }) => {
+            const image = await ai.generateImage(
+              `Clean, simple instructional diagram illustration: ${item.prompt}. Style: clear line art, minimal colors, no text or labels, educational diagram style.`,
+              { size: "1024x1024" },
+            );
             return {
-              url: imageResponse.data[0].url,
+              url: image.url,
               caption: item.caption,
             };
           }),
@@ -1473,11 +1570,11 @@ Return ONLY a JSON array of objects with "prompt" and "caption" (in ${languageNa
     });
   } catch (error) {
     console.error("Generate guide error:", error);
-    res.status(500).json({ error: "Failed to generate guide" });
+    sendError(res, 500, ERROR_CODES.AI_FAILED, "Failed to generate guide");
   }
 });
 
-router.post("/semantic-search", optionalAuth, async (req, res) => {
+router.post("/semantic-search", optionalAuth, aiLimit, aiBudget(), async (req, res) => {
   try {
     const { query, category, limit = 20 } = req.body;
 
@@ -1485,7 +1582,7 @@ router.post("/semantic-search", optionalAuth, async (req, res) => {
       return res.status(400).json({ error: "Search query is required" });
     }
 
-    if (!OPENAI_API_KEY) {
+    if (!ai) {
       let sqlQuery = `
         SELECT v.*, u.display_name as author_name, u.avatar_url as author_avatar,
                EXISTS(SELECT 1 FROM video_likes WHERE video_id = v.id AND user_id = $1) as is_liked,
@@ -1508,34 +1605,10 @@ router.post("/semantic-search", optionalAuth, async (req, res) => {
 
       const result = await pool.query(sqlQuery, params);
 
-      const videos = result.rows.map((row) => ({
-        id: row.id,
-        title: row.title,
-        description: row.description,
-        category: row.category,
-        tags: row.tags,
-        videoUrl: row.video_url,
-        thumbnailUrl: row.thumbnail_url,
-        duration: row.duration,
-        likesCount: row.likes_count,
-        commentsEnabled: row.comments_enabled,
-        authorId: row.author_id,
-        authorName: row.author_name,
-        authorAvatar: row.author_avatar,
-        isLiked: row.is_liked,
-        isSaved: row.is_saved,
-        createdAt: row.created_at,
-      }));
-
-      return res.json(videos);
+      return res.json(result.rows.map(serializeVideo));
     }
 
-    const embeddingResponse = await callOpenAI("embeddings", {
-      model: "text-embedding-3-small",
-      input: query,
-    });
-
-    const queryEmbedding = embeddingResponse.data[0].embedding;
+    const queryEmbedding = await ai.embed(query);
 
     let sqlQuery = `
       SELECT v.*, u.display_name as author_name, u.avatar_url as author_avatar,
@@ -1559,31 +1632,13 @@ router.post("/semantic-search", optionalAuth, async (req, res) => {
 
     const result = await pool.query(sqlQuery, params);
 
-    const videos = result.rows.map((row) => ({
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      category: row.category,
-      tags: row.tags,
-      videoUrl: row.video_url,
-      thumbnailUrl: row.thumbnail_url,
-      duration: row.duration,
-      likesCount: row.likes_count,
-      commentsEnabled: row.comments_enabled,
-      authorId: row.author_id,
-      authorName: row.author_name,
-      authorAvatar: row.author_avatar,
-      isLiked: row.is_liked,
-      isSaved: row.is_saved,
-      similarity: row.similarity,
-      createdAt: row.created_at,
-    }));
-
-    res.json(videos);
+    res.json(
+      result.rows.map((row) => ({ ...serializeVideo(row), similarity: row.similarity }))
+    );
   } catch (error) {
     console.error("Semantic search error:", error);
-    res.status(500).json({ error: "Search failed" });
+    sendError(res, 500, ERROR_CODES.AI_FAILED, "Search failed");
   }
 });
 
-module.exports = router;
+export default router;
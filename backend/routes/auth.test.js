@@ -0,0 +1,136 @@
+/**
+ * Integration test: registration, sign-in and the daily login XP, against
+ * the app on a throwaway database (testing/harness.js). Skipped without
+ * Postgres. Run with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("../testing/harness");
+const { NO_DATABASE } = require("../testing/postgres");
+
+let server = null;
+
+before(async () => {
+  server = await startTestServer();
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+test("register creates an account and signs it in", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+
+  const registered = await server.request("POST", "/api/auth/register", {
+    body: { email: "New.User@Quickfix.test", password: "password123", displayName: "New User" },
+  });
+  assert.strictEqual(registered.status, 201);
+  assert.strictEqual(registered.body.user.email, "new.user@quickfix.test");
+  assert.strictEqual(registered.body.user.emailVerified, false);
+  assert.ok(registered.body.token);
+  assert.ok(registered.body.refreshToken);
+
+  const me = await server.request("GET", "/api/auth/me", { token: registered.body.token });
+  assert.strictEqual(me.status, 200);
+  assert.strictEqual(me.body.displayName, "New User");
+
+  const again = await server.request("POST", "/api/auth/register", {
+    body: { email: "new.user@quickfix.test", password: "password123", displayName: "Twice" },
+  });
+  assert.strictEqual(again.status, 409);
+  assert.strictEqual(again.body.code, "CONFLICT");
+});
+
+test("login rejects a wrong password and accepts the right one", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+
+  const wrong = await server.request("POST", "/api/auth/login", {
+    body: { email: alice.email, password: "not-the-password" },
+  });
+  assert.strictEqual(wrong.status, 401);
+  assert.strictEqual(wrong.body.code, "AUTH_INVALID");
+
+  const right = await server.request("POST", "/api/auth/login", {
+    body: { email: alice.email.toUpperCase(), password: alice.password },
+  });
+  assert.strictEqual(right.status, 200);
+  assert.strictEqual(right.body.user.id, alice.id);
+
+  const me = await server.request("GET", "/api/auth/me", { token: right.body.token });
+  assert.strictEqual(me.status, 200);
+  assert.strictEqual(me.body.id, alice.id);
+});
+
+test("protected routes answer 401 without a valid token", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+
+  const missing = await server.request("GET", "/api/auth/me");
+  assert.strictEqual(missing.status, 401);
+
+  const garbage = await server.request("GET", "/api/auth/me", { token: "not-a-token" });
+  assert.strictEqual(garbage.status, 401);
+});
+
+test("the first login of the day earns daily XP, later ones do not", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+  const credentials = { email: alice.email, password: alice.password };
+
+  const first = await server.request("POST", "/api/auth/login", { body: credentials });
+  assert.strictEqual(first.body.xpAwarded, 10);
+  assert.strictEqual(first.body.user.xp, 10);
+
+  const second = await server.request("POST", "/api/auth/login", { body: credentials });
+  assert.strictEqual(second.body.xpAwarded, undefined);
+  assert.strictEqual(second.body.user.xp, 10);
+
+  const logins = await server.pool.query("SELECT COUNT(*)::int AS count FROM xp_daily_logins WHERE user_id = $1", [
+    alice.id,
+  ]);
+  assert.strictEqual(logins.rows[0].count, 1);
+});
+
+test("a password reset works once and signs out every session in the same step", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { hashToken } = require("../auth");
+  const { wsManager } = require("../websocket");
+  const { alice } = server.fixtures.users;
+
+  // Sockets are closed once the revocation is committed
+  const disconnected = [];
+  const disconnect = wsManager.disconnectAuthSessions;
+  wsManager.disconnectAuthSessions = (ids) => disconnected.push(...ids);
+  t.after(() => (wsManager.disconnectAuthSessions = disconnect));
+
+  const signedIn = await server.request("POST", "/api/auth/login", {
+    body: { email: alice.email, password: alice.password },
+  });
+  await server.pool.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at) VALUES ($1, $2, NOW() + INTERVAL '1 hour')`,
+    [alice.id, hashToken("reset-link-token")]
+  );
+
+  const reset = () =>
+    server.request("POST", "/api/auth/reset-password", {
+      body: { token: "reset-link-token", newPassword: "a-new-password" },
+    });
+  assert.strictEqual((await reset()).status, 200);
+  assert.strictEqual((await reset()).body.code, "TOKEN_INVALID");
+
+  const live = await server.pool.query(
+    "SELECT 1 FROM auth_sessions WHERE user_id = $1 AND revoked_at IS NULL",
+    [alice.id]
+  );
+  assert.strictEqual(live.rows.length, 0);
+  const revoked = await server.pool.query("SELECT id FROM auth_sessions WHERE user_id = $1", [alice.id]);
+  assert.deepStrictEqual(disconnected.sort(), revoked.rows.map((row) => row.id).sort());
+  const refreshed = await server.request("POST", "/api/auth/refresh", {
+    body: { refreshToken: signedIn.body.refreshToken },
+  });
+  assert.strictEqual(refreshed.status, 401);
+
+  const again = await server.request("POST", "/api/auth/login", {
+    body: { email: alice.email, password: "a-new-password" },
+  });
+  assert.strictEqual(again.status, 200);
+});
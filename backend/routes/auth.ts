@@ -0,0 +1,757 @@
+import express from "express";
+import type { Request, Response } from "express";
+import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import type { QueryResultRow } from "pg";
+
+import { pool } from "../db";
+
+import { authMiddleware, optionalAuth, hashToken } from "../auth";
+import { ERROR_CODES, sendError } from "../errors";
+import {
+  createSession,
+  rotateSession,
+  listSessions,
+  revokeSessions,
+  revokeOtherSessions,
+  revokeSessionByToken,
+} from "../sessions";
+import { awardDailyLoginXp } from "../xp";
+import { wsManager } from "../websocket";
+import { rateLimit, hit, sendRateLimited } from "../rateLimit";
+import { getMailer } from "../mailer";
+import { passwordResetEmail } from "../mailer/templates";
+import {
+  sendVerificationEmail,
+  startEmailChange,
+  cancelEmailChange,
+  confirmEmailToken,
+} from "../emailVerification";
+import { getOidcProvider, verifyIdToken } from "../oidc";
+
+// Response shapes
+import { serializeUser, serializeAuthSession, serializeLinkedIdentity } from "../serializers";
+
+const router = express.Router();
+
+type OidcProvider = NonNullable<ReturnType<typeof getOidcProvider>>;
+
+const MIN_PASSWORD_LENGTH = 6;
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+// Opened by the app's deep link handler; web deployments can point this at their own page
+const PASSWORD_RESET_URL = process.env.PASSWORD_RESET_URL || "quickfix://reset-password";
+
+const FIFTEEN_MINUTES_MS = 15 * 60 * 1000;
+const ONE_HOUR_MS = 60 * 60 * 1000;
+
+function deviceFromRequest(req: Request) {
+  return {
+    deviceName: req.body.deviceName,
+    platform: req.body.platform,
+    userAgent: req.headers["user-agent"],
+    ipAddress: req.ip,
+  };
+}
+
+// Accounts made with Apple or Google have no password until one is set
+async function passwordMatches(password: string, passwordHash: string | null) {
+  if (!password || !passwordHash) return false;
+  return bcrypt.compare(password, passwordHash);
+}
+
+/**
+ * Claims of a provider's ID token, or null once an error was answered
+ */
+async function checkIdToken(res: Response, provider: OidcProvider, idToken: unknown) {
+  let verified;
+  try {
+    verified = await verifyIdToken(provider, idToken);
+  } catch (error) {
+    console.error(`${provider.label} keys error:`, error);
+    sendError(res, 503, ERROR_CODES.SERVICE_UNAVAILABLE, `${provider.label} sign-in is unavailable right now`);
+    return null;
+  }
+  if ("code" in verified) {
+    sendError(res, 401, verified.code, verified.message);
+    return null;
+  }
+  return verified;
+}
+
+/**
+ * Start a session for `found` and answer with it, plus the daily login XP
+ */
+async function signIn(req: Request, res: Response, found: QueryResultRow, status = 200) {
+  const { token, refreshToken, expiresIn } = await createSession(found.id, deviceFromRequest(req));
+
+  const daily = await awardDailyLoginXp(found.id);
+  const user = daily.awarded ? { ...found, xp: daily.xp, level: daily.level } : found;
+
+  res.status(status).json({
+    user: serializeUser(user),
+    token,
+    refreshToken,
+    expiresIn,
+    ...(daily.awarded && { xpAwarded: daily.xpAwarded, leveledUp: daily.leveledUp }),
+  });
+}
+
+/* ===========================
+   REGISTER
+=========================== */
+router.post("/register", async (req, res) => {
+  try {
+    const { email, password, displayName } = req.body;
+
+    if (!email || !password || !displayName) {
+      return res.status(400).json({ error: "Email, password and display name are required" });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const existing = await pool.query("SELECT id FROM users WHERE email = $1", [normalizedEmail]);
+    if (existing.rows.length > 0) {
+      return sendError(res, 409, ERROR_CODES.CONFLICT, "Email already registered");
+    }
+
+    const passwordHash = await bcrypt.hash(password, 10);
+    const result = await pool.query(
+      `INSERT INTO users (email, password_hash, display_name)
+       VALUES ($1, $2, $3)
+       RETURNING *`,
+      [normalizedEmail, passwordHash, displayName.trim().slice(0, 100)]
+    );
+    const user = result.rows[0];
+    const { token, refreshToken, expiresIn } = await createSession(user.id, deviceFromRequest(req));
+
+    // The account works without it; the app offers to resend the link
+    sendVerificationEmail(user).catch((mailError) => console.error("Verification mail error:", mailError));
+
+    res.status(201).json({ user: serializeUser(user), token, refreshToken, expiresIn });
+  } catch (error) {
+    console.error("Register error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   LOGIN
+=========================== */
+router.post("/login", async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json({ error: "Email and password are required" });
+    }
+
+    const result = await pool.query("SELECT * FROM users WHERE email = $1", [email.trim().toLowerCase()]);
+    const found = result.rows[0];
+    if (!found || !(await passwordMatches(password, found.password_hash))) {
+      return sendError(res, 401, ERROR_CODES.AUTH_INVALID, "Invalid email or password");
+    }
+
+    await signIn(req, res, found);
+  } catch (error) {
+    console.error("Login error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   SIGN IN WITH APPLE / GOOGLE
+   The app sends the provider's ID token. A known identity signs in; a new
+   one creates an account, unless its email already has one: then the
+   answer is 409 ACCOUNT_LINK_REQUIRED and the app asks for that account's
+   password and sends it along to link the two.
+=========================== */
+router.post(
+  "/oauth/:provider",
+  rateLimit({ name: "oauth", windowMs: FIFTEEN_MINUTES_MS, max: 20 }),
+  async (req, res) => {
+    try {
+      const provider = getOidcProvider(req.params.provider);
+      if (!provider) {
+        return res.status(404).json({ error: "Sign-in provider not available" });
+      }
+
+      const verified = await checkIdToken(res, provider, req.body.idToken);
+      if (!verified) return;
+
+      const linked = await pool.query(
+        `SELECT u.* FROM oauth_identities oi JOIN users u ON oi.user_id = u.id
+         WHERE oi.provider = $1 AND oi.subject = $2`,
+        [provider.name, verified.subject]
+      );
+      if (linked.rows.length > 0) {
+        return await signIn(req, res, linked.rows[0]);
+      }
+
+      if (!verified.email) {
+        return res.status(400).json({ error: `Your ${provider.label} account did not share an email address` });
+      }
+
+      const existing = await pool.query("SELECT * FROM users WHERE email = $1", [verified.email]);
+      const account = existing.rows[0];
+      if (account) {
+        if (!req.body.password) {
+          return sendError(
+            res,
+            409,
+            ERROR_CODES.ACCOUNT_LINK_REQUIRED,
+            `An account with ${verified.email} already exists. Enter its password to link ${provider.label}.`,
+            { email: verified.email }
+          );
+        }
+        if (!(await passwordMatches(req.body.password, account.password_hash))) {
+          return sendError(res, 401, ERROR_CODES.AUTH_INVALID, "Invalid email or password");
+        }
+
+        await pool.query(
+          `INSERT INTO oauth_identities (user_id, provider, subject, email) VALUES ($1, $2, $3, $4)
+           ON CONFLICT (user_id, provider) DO UPDATE SET subject = $3, email = $4`,
+          [account.id, provider.name, verified.subject, verified.email]
+        );
+        const user = verified.emailVerified
+          ? (
+              await pool.query(
+                `UPDATE users SET email_verified_at = COALESCE(email_verified_at, NOW()) WHERE id = $1 RETURNING *`,
+                [account.id]
+              )
+            ).rows[0]
+          : account;
+        return await signIn(req, res, user);
+      }
+
+      // Apple shares the name only with the app, and only on the first sign-in
+      const displayName =
+        (typeof req.body.displayName === "string" && req.body.displayName.trim()) ||
+        verified.name ||
+        verified.email.split("@")[0];
+
+      const client = await pool.connect();
+      let user;
+      try {
+        await client.query("BEGIN");
+        const created = await client.query(
+          `INSERT INTO users (email, password_hash, display_name, email_verified_at)
+           VALUES ($1, NULL, $2, $3)
+           RETURNING *`,
+          [verified.email, displayName.slice(0, 100), verified.emailVerified ? new Date() : null]
+        );
+        user = created.rows[0];
+        await client.query(
+          "INSERT INTO oauth_identities (user_id, provider, subject, email) VALUES ($1, $2, $3, $4)",
+          [user.id, provider.name, verified.subject, verified.email]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+
+      if (!user.email_verified_at) {
+        sendVerificationEmail(user).catch((mailError) => console.error("Verification mail error:", mailError));
+      }
+
+      await signIn(req, res, user, 201);
+    } catch (error) {
+      console.error("OAuth sign-in error:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/* ===========================
+   REFRESH
+=========================== */
+router.post("/refresh", async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (!refreshToken || typeof refreshToken !== "string") {
+      return res.status(400).json({ error: "Refresh token is required" });
+    }
+
+    const rotated = await rotateSession(refreshToken);
+    if ("code" in rotated) {
+      return sendError(res, 401, rotated.code, rotated.message);
+    }
+
+    res.json({ token: rotated.token, refreshToken: rotated.refreshToken, expiresIn: rotated.expiresIn });
+  } catch (error) {
+    console.error("Refresh error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   LOGOUT
+=========================== */
+// Takes the refresh token rather than the access token, which may already have expired
+router.post("/logout", async (req, res) => {
+  try {
+    const { refreshToken } = req.body;
+    if (refreshToken && typeof refreshToken === "string") {
+      await revokeSessionByToken(refreshToken);
+    }
+    res.json({ message: "Signed out" });
+  } catch (error) {
+    console.error("Logout error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   PASSWORD RESET
+=========================== */
+// Always answers the same way, so the form cannot be used to find out who has an account
+router.post(
+  "/forgot-password",
+  rateLimit({ name: "forgot-password", windowMs: FIFTEEN_MINUTES_MS, max: 5 }),
+  async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ error: "Email is required" });
+      }
+
+      const normalizedEmail = email.trim().toLowerCase();
+      const perEmail = await hit("forgot-password-email", normalizedEmail, { windowMs: ONE_HOUR_MS, max: 3 });
+      if (perEmail.limited) return sendRateLimited(res, perEmail.retryAfter);
+
+      const result = await pool.query("SELECT id, display_name FROM users WHERE email = $1", [normalizedEmail]);
+      const user = result.rows[0];
+
+      if (user) {
+        const token = crypto.randomBytes(32).toString("base64url");
+        await pool.query(
+          `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+           VALUES ($1, $2, NOW() + make_interval(mins => $3))`,
+          [user.id, hashToken(token), RESET_TOKEN_TTL_MINUTES]
+        );
+
+        const resetUrl = `${PASSWORD_RESET_URL}?token=${encodeURIComponent(token)}`;
+        try {
+          await getMailer().send({
+            to: normalizedEmail,
+            ...passwordResetEmail({
+              displayName: user.display_name,
+              resetUrl,
+              expiresInMinutes: RESET_TOKEN_TTL_MINUTES,
+            }),
+          });
+        } catch (mailError) {
+          // Logged rather than answered, which would tell the caller the account exists
+          console.error("Password reset mail error:", mailError);
+        }
+      }
+
+      res.json({ message: "If that email has an account, a reset link is on its way" });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+router.post(
+  "/reset-password",
+  rateLimit({ name: "reset-password", windowMs: FIFTEEN_MINUTES_MS, max: 10 }),
+  async (req, res) => {
+    const { token, newPassword } = req.body;
+
+    if (!token || typeof token !== "string" || !newPassword) {
+      return res.status(400).json({ error: "Reset token and new password are required" });
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      // Claiming the token and changing the password commit together, so a token works once
+      const claimed = await client.query(
+        `UPDATE password_reset_tokens SET used_at = NOW()
+         WHERE token_hash = $1 AND used_at IS NULL AND expires_at > NOW()
+         RETURNING user_id`,
+        [hashToken(token)]
+      );
+      if (claimed.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return sendError(res, 400, ERROR_CODES.TOKEN_INVALID, "This reset link is invalid or has expired");
+      }
+      const userId = claimed.rows[0].user_id;
+
+      const passwordHash = await bcrypt.hash(newPassword, 10);
+      await client.query("UPDATE users SET password_hash = $1, updated_at = NOW() WHERE id = $2", [
+        passwordHash,
+        userId,
+      ]);
+      // Older links for the same account stop working too
+      await client.query(
+        "UPDATE password_reset_tokens SET used_at = NOW() WHERE user_id = $1 AND used_at IS NULL",
+        [userId]
+      );
+      // Whoever knew the old password is signed out everywhere
+      const revoked = await revokeOtherSessions(userId, null, client);
+
+      await client.query("COMMIT");
+      wsManager.disconnectAuthSessions(revoked);
+
+      res.json({ message: "Password updated, please sign in" });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      console.error("Reset password error:", error);
+      res.status(500).json({ error: "Server error" });
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/* ===========================
+   CURRENT USER
+=========================== */
+router.get("/me", authMiddleware, async (req, res) => {
+  try {
+    const result = await pool.query("SELECT * FROM users WHERE id = $1", [req.userId]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(serializeUser(result.rows[0]));
+  } catch (error) {
+    console.error("Get me error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+router.put("/me", authMiddleware, async (req, res) => {
+  try {
+    const { displayName, bio, avatarUrl, expertiseCategories } = req.body;
+
+    if (displayName !== undefined && (typeof displayName !== "string" || !displayName.trim())) {
+      return res.status(400).json({ error: "Display name cannot be empty" });
+    }
+    if (bio && bio.length > 150) {
+      return res.status(400).json({ error: "Bio must be at most 150 characters" });
+    }
+    if (expertiseCategories !== undefined && !Array.isArray(expertiseCategories)) {
+      return res.status(400).json({ error: "Expertise categories must be a list" });
+    }
+
+    const result = await pool.query(
+      `UPDATE users SET
+         display_name = COALESCE($2, display_name),
+         bio = COALESCE($3, bio),
+         avatar_url = COALESCE($4, avatar_url),
+         expertise_categories = COALESCE($5, expertise_categories),
+         updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        req.userId,
+        displayName !== undefined ? displayName.trim().slice(0, 100) : null,
+        bio !== undefined ? bio : null,
+        avatarUrl !== undefined ? avatarUrl : null,
+        expertiseCategories !== undefined ? expertiseCategories : null,
+      ]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(serializeUser(result.rows[0]));
+  } catch (error) {
+    console.error("Update me error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   CHANGE PASSWORD
+=========================== */
+router.put("/password", authMiddleware, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ error: "Current and new password are required" });
+    }
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+    }
+
+    const result = await pool.query("SELECT password_hash FROM users WHERE id = $1", [req.userId]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if (!(await passwordMatches(currentPassword, result.rows[0].password_hash))) {
+      return res.status(400).json({ error: "Current password is incorrect" });
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, 10);
+    await pool.query("UPDATE users SET password_hash = $1, updated_at = NOW() WHERE id = $2", [
+      passwordHash,
+      req.userId,
+    ]);
+
+    // Anyone signed in with the old password is signed out; this device stays
+    await revokeOtherSessions(req.userId, req.sessionId);
+
+    res.json({ message: "Password updated" });
+  } catch (error) {
+    console.error("Change password error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   EMAIL VERIFICATION
+   One link format for every email link; the token says whether it
+   verifies the address or approves one side of an email change.
+=========================== */
+router.post(
+  "/verify-email",
+  rateLimit({ name: "verify-email", windowMs: FIFTEEN_MINUTES_MS, max: 10 }),
+  async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ error: "Verification token is required" });
+      }
+
+      const result = await confirmEmailToken(token);
+      if ("code" in result) {
+        return sendError(res, result.code === ERROR_CODES.CONFLICT ? 409 : 400, result.code, result.message);
+      }
+      res.json({ status: result.status, user: serializeUser(result.user) });
+    } catch (error) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+router.post(
+  "/verify-email/resend",
+  authMiddleware,
+  rateLimit({ name: "verify-email-resend", windowMs: ONE_HOUR_MS, max: 3, key: (req) => req.userId }),
+  async (req, res) => {
+    try {
+      const result = await pool.query("SELECT id, email, display_name, email_verified_at FROM users WHERE id = $1", [
+        req.userId,
+      ]);
+      const user = result.rows[0];
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (user.email_verified_at) {
+        return res.status(400).json({ error: "Email is already verified" });
+      }
+
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error("Verification mail error:", mailError);
+        return sendError(res, 503, ERROR_CODES.SERVICE_UNAVAILABLE, "Could not send the email, please try again later");
+      }
+
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+router.post(
+  "/change-email",
+  authMiddleware,
+  rateLimit({ name: "change-email", windowMs: ONE_HOUR_MS, max: 5, key: (req) => req.userId }),
+  async (req, res) => {
+    try {
+      const { newEmail, password } = req.body;
+      if (!newEmail || typeof newEmail !== "string" || !password) {
+        return res.status(400).json({ error: "New email and password are required" });
+      }
+
+      const normalizedEmail = newEmail.trim().toLowerCase();
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail) || normalizedEmail.length > 255) {
+        return res.status(400).json({ error: "Enter a valid email address" });
+      }
+
+      const result = await pool.query("SELECT * FROM users WHERE id = $1", [req.userId]);
+      const user = result.rows[0];
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      if (!(await passwordMatches(password, user.password_hash))) {
+        return res.status(400).json({ error: "Password is incorrect" });
+      }
+      if (normalizedEmail === user.email) {
+        return res.status(400).json({ error: "That is already your email" });
+      }
+
+      const existing = await pool.query("SELECT id FROM users WHERE email = $1", [normalizedEmail]);
+      if (existing.rows.length > 0) {
+        return sendError(res, 409, ERROR_CODES.CONFLICT, "That email is already in use by another account");
+      }
+
+      try {
+        await startEmailChange(user, normalizedEmail);
+      } catch (mailError) {
+        console.error("Email change mail error:", mailError);
+        return sendError(res, 503, ERROR_CODES.SERVICE_UNAVAILABLE, "Could not send the email, please try again later");
+      }
+
+      res.json(serializeUser({ ...user, pending_email: normalizedEmail }));
+    } catch (error) {
+      console.error("Change email error:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+router.delete("/change-email", authMiddleware, async (req, res) => {
+  try {
+    await cancelEmailChange(req.userId);
+    const result = await pool.query("SELECT * FROM users WHERE id = $1", [req.userId]);
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(serializeUser(result.rows[0]));
+  } catch (error) {
+    console.error("Cancel email change error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   LINKED SIGN-INS
+=========================== */
+async function listIdentities(userId: string) {
+  const result = await pool.query(
+    "SELECT * FROM oauth_identities WHERE user_id = $1 ORDER BY created_at",
+    [userId]
+  );
+  return result.rows.map((row) => serializeLinkedIdentity(row));
+}
+
+router.get("/identities", authMiddleware, async (req, res) => {
+  try {
+    res.json(await listIdentities(req.userId!));
+  } catch (error) {
+    console.error("List identities error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+router.post("/identities/:provider", authMiddleware, async (req, res) => {
+  try {
+    const provider = getOidcProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: "Sign-in provider not available" });
+    }
+
+    const verified = await checkIdToken(res, provider, req.body.idToken);
+    if (!verified) return;
+
+    const taken = await pool.query(
+      "SELECT user_id FROM oauth_identities WHERE provider = $1 AND subject = $2",
+      [provider.name, verified.subject]
+    );
+    if (taken.rows.length > 0 && taken.rows[0].user_id !== req.userId) {
+      return sendError(
+        res,
+        409,
+        ERROR_CODES.CONFLICT,
+        `This ${provider.label} account is already linked to another QuickFix account`
+      );
+    }
+
+    await pool.query(
+      `INSERT INTO oauth_identities (user_id, provider, subject, email) VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, provider) DO UPDATE SET subject = $3, email = $4`,
+      [req.userId, provider.name, verified.subject, verified.email]
+    );
+
+    res.json(await listIdentities(req.userId!));
+  } catch (error) {
+    console.error("Link identity error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+router.delete("/identities/:provider", authMiddleware, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT u.password_hash IS NOT NULL AS has_password,
+              (SELECT COUNT(*)::int FROM oauth_identities WHERE user_id = u.id AND provider <> $2) AS other_identities
+       FROM users u WHERE u.id = $1`,
+      [req.userId, req.params.provider]
+    );
+    const account = result.rows[0];
+    if (!account) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    // Keep at least one way to sign in
+    if (!account.has_password && account.other_identities === 0) {
+      return res.status(400).json({ error: "Set a password before removing your only sign-in method" });
+    }
+
+    await pool.query("DELETE FROM oauth_identities WHERE user_id = $1 AND provider = $2", [
+      req.userId,
+      req.params.provider,
+    ]);
+
+    res.json(await listIdentities(req.userId!));
+  } catch (error) {
+    console.error("Unlink identity error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   SIGNED-IN DEVICES
+=========================== */
+router.get("/sessions", authMiddleware, async (req, res) => {
+  try {
+    const sessions = await listSessions(req.userId);
+    res.json(sessions.map((session) => serializeAuthSession(session, req.sessionId)));
+  } catch (error) {
+    console.error("List sessions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+// Sign out every other device
+router.delete("/sessions", authMiddleware, async (req, res) => {
+  try {
+    const revoked = await revokeOtherSessions(req.userId, req.sessionId);
+    res.json({ revoked: revoked.length });
+  } catch (error) {
+    console.error("Revoke sessions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+router.delete("/sessions/:id", authMiddleware, async (req, res) => {
+  try {
+    const revoked = await revokeSessions(req.userId, [req.params.id]);
+    if (revoked.length === 0) {
+      return res.status(404).json({ error: "Session not found" });
+    }
+    res.json({ revoked: revoked.length });
+  } catch (error) {
+    console.error("Revoke session error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,93 @@
+/**
+ * Integration test: caption translations and transcriptions are paid for by
+ * someone, against the app on a throwaway database (testing/harness.js).
+ * Skipped without Postgres. Run with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("../testing/harness");
+const { NO_DATABASE } = require("../testing/postgres");
+
+let server = null;
+
+before(async () => {
+  server = await startTestServer();
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const VTT = `WEBVTT
+
+00:00.000 --> 00:03.000
+Turn off the water under the sink.
+
+00:03.000 --> 00:06.000
+Loosen the slip nut by hand.
+`;
+
+async function spendOf(subject, minCalls) {
+  let row = null;
+  // Spend is recorded without holding up the answer
+  for (let i = 0; i < 40 && !(row && row.calls >= minCalls); i++) {
+    await sleep(50);
+    row = (await server.pool.query("SELECT calls, cost_usd FROM ai_spend WHERE subject = $1", [subject])).rows[0];
+  }
+  return row;
+}
+
+test("translations are for signed-in viewers, one model call per language", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob } = server.fixtures.users;
+  const video = server.fixtures.videos.bobKitchen;
+  const base = `/api/videos/${video.id}/captions`;
+
+  const uploaded = await server.request("PUT", `${base}/en`, { token: await server.tokenFor(bob), body: { vtt: VTT } });
+  assert.strictEqual(uploaded.status, 200);
+
+  // Stored tracks stay public; signed out, only they are offered
+  assert.strictEqual((await server.request("GET", `${base}/en`)).status, 200);
+  assert.deepStrictEqual((await server.request("GET", base)).body.languages, ["en"]);
+  const anonymous = await server.request("GET", `${base}/sv`);
+  assert.strictEqual(anonymous.status, 401);
+
+  const token = await server.tokenFor(alice);
+  assert.strictEqual((await server.request("GET", base, { token })).body.languages.length, 6);
+  const answers = await Promise.all([1, 2, 3].map(() => server.request("GET", `${base}/sv`, { token })));
+  assert.deepStrictEqual(
+    answers.map((answer) => answer.status),
+    [200, 200, 200]
+  );
+  assert.strictEqual(answers[0].body.source, "translation");
+  assert.strictEqual(answers[0].body.cues.length, 2);
+
+  // Give calls from any duplicate translation time to be recorded too
+  await sleep(100);
+  const spend = await spendOf(`user:${alice.id}`, 1);
+  assert.ok(spend, "no spend recorded");
+  assert.strictEqual(spend.calls, 1);
+
+  // Stored now, so the next viewer does not need to sign in
+  assert.strictEqual((await server.request("GET", `${base}/sv`)).status, 200);
+});
+
+test("transcriptions are charged to the video's author", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { bob } = server.fixtures.users;
+  const video = server.fixtures.videos.bobKitchen;
+
+  await server.pool.query(
+    `INSERT INTO video_uploads (user_id, total_size, received_bytes, status, video_url, storage_key)
+     VALUES ($1, 1024, 1024, 'published', $2, 'videos/kitchen.mp4')`,
+    [bob.id, video.video_url]
+  );
+  const queued = await server.request("POST", `/api/videos/${video.id}/captions/transcribe`, {
+    token: await server.tokenFor(bob),
+  });
+  assert.strictEqual(queued.status, 202);
+
+  const spend = await spendOf(`user:${bob.id}`, 1);
+  assert.ok(spend && Number(spend.cost_usd) > 0, "no spend recorded");
+});
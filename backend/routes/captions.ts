@@ -0,0 +1,228 @@
+import express from "express";
+import type { Request } from "express";
+
+// DB
+import { pool } from "../db";
+
+// Auth
+import { authMiddleware, optionalAuth } from "../auth";
+
+// Captions
+import {
+  CAPTION_LANGUAGES,
+  saveCaptionTrack,
+  findCaptionTrack,
+  translateCaptionTrack,
+  refreshVideoSearchText,
+  queueTranscription,
+} from "../captions";
+import { parseWebVTT, formatWebVTT } from "../webvtt";
+import { getAIProvider } from "../providers";
+import { ERROR_CODES, sendError } from "../errors";
+import { rateLimitGroup } from "../rateLimit";
+import { aiBudget } from "../aiBudget";
+
+// Mounted at /api/videos/:videoId/captions
+const router = express.Router({ mergeParams: true });
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// :videoId is a param of the parent path, merged into req.params
+async function getVideo(req: Request) {
+  const { videoId } = req.params;
+  if (!UUID_PATTERN.test(videoId)) return null;
+  const result = await pool.query(
+    `SELECT id, author_id, captions_status FROM videos WHERE id = $1 AND is_flagged = false`,
+    [videoId]
+  );
+  return result.rows[0] || null;
+}
+
+/* ===========================
+   LIST TRACKS
+=========================== */
+router.get("/", optionalAuth, async (req, res) => {
+  try {
+    const video = await getVideo(req);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const result = await pool.query(
+      `SELECT language, source FROM video_captions WHERE video_id = $1 ORDER BY created_at`,
+      [video.id]
+    );
+    const hasOriginal = result.rows.some((track) => track.source !== "translation");
+
+    res.json({
+      status: video.captions_status,
+      tracks: result.rows,
+      // Languages that can be requested; missing ones are translated on demand for signed-in viewers
+      languages:
+        hasOriginal && req.userId && getAIProvider() ? CAPTION_LANGUAGES : result.rows.map((t) => t.language),
+    });
+  } catch (error) {
+    console.error("List captions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   GET TRACK
+   JSON cues by default; ?format=vtt returns the WebVTT file.
+   A missing language is machine-translated, which costs an AI call, so
+   only signed-in viewers can ask for one, within their AI limits.
+=========================== */
+function sendTrack(req: Request, res: express.Response, track: { cues: any[] }) {
+  if (req.query.format === "vtt") {
+    res.type("text/vtt").send(formatWebVTT(track.cues));
+    return;
+  }
+  res.json(track);
+}
+
+const sendStoredTrack: express.RequestHandler = async (req, res, next) => {
+  try {
+    const { language } = req.params;
+    if (!CAPTION_LANGUAGES.includes(language)) {
+      return res.status(400).json({ error: "Unsupported caption language" });
+    }
+
+    const video = await getVideo(req);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const track = await findCaptionTrack(video.id, language);
+    if (track) return sendTrack(req, res, track);
+    if (!getAIProvider()) {
+      return res.status(404).json({ error: "No captions in this language" });
+    }
+
+    res.locals.video = video;
+    next();
+  } catch (error) {
+    console.error("Get captions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+const sendTranslatedTrack: express.RequestHandler = async (req, res) => {
+  try {
+    const track = await translateCaptionTrack(res.locals.video.id, req.params.language);
+    if (!track) {
+      return res.status(404).json({ error: "No captions in this language" });
+    }
+    sendTrack(req, res, track);
+  } catch (error) {
+    console.error("Translate captions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+};
+
+router.get(
+  "/:language",
+  optionalAuth,
+  sendStoredTrack,
+  authMiddleware,
+  rateLimitGroup("ai"),
+  aiBudget(),
+  sendTranslatedTrack
+);
+
+/* ===========================
+   UPLOAD TRACK (AUTHOR)
+   Body: { vtt: "WEBVTT ..." }
+=========================== */
+router.put("/:language", authMiddleware, async (req, res) => {
+  try {
+    const { language } = req.params;
+    if (!CAPTION_LANGUAGES.includes(language)) {
+      return res.status(400).json({ error: "Unsupported caption language" });
+    }
+
+    const video = await getVideo(req);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    if (video.author_id !== req.userId) {
+      return res.status(403).json({ error: "Only the author can change captions" });
+    }
+
+    const parsed = parseWebVTT(req.body.vtt);
+    if ("error" in parsed) {
+      return sendError(res, 400, ERROR_CODES.VALIDATION_FAILED, parsed.error);
+    }
+
+    await saveCaptionTrack(video.id, language, "upload", parsed.cues);
+    res.json({ language, source: "upload", cues: parsed.cues });
+  } catch (error) {
+    console.error("Upload captions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   AUTO-TRANSCRIBE (AUTHOR)
+=========================== */
+router.post("/transcribe", authMiddleware, async (req, res) => {
+  try {
+    const video = await getVideo(req);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    if (video.author_id !== req.userId) {
+      return res.status(403).json({ error: "Only the author can change captions" });
+    }
+    if (!getAIProvider()) {
+      return sendError(res, 503, ERROR_CODES.AI_UNAVAILABLE, "Transcription is not configured");
+    }
+    if (video.captions_status === "pending") {
+      return res.status(202).json({ status: "pending" });
+    }
+
+    await queueTranscription(video.id);
+    res.status(202).json({ status: "pending" });
+  } catch (error) {
+    console.error("Transcribe captions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   DELETE TRACK (AUTHOR)
+=========================== */
+router.delete("/:language", authMiddleware, async (req, res) => {
+  try {
+    const video = await getVideo(req);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    if (video.author_id !== req.userId) {
+      return res.status(403).json({ error: "Only the author can change captions" });
+    }
+
+    await pool.query(
+      `DELETE FROM video_captions WHERE video_id = $1 AND language = $2`,
+      [video.id, req.params.language]
+    );
+    const remaining = await pool.query(
+      `SELECT 1 FROM video_captions WHERE video_id = $1 AND source <> 'translation' LIMIT 1`,
+      [video.id]
+    );
+    if (remaining.rows.length === 0) {
+      // Translations of a removed original would go stale
+      await pool.query(`DELETE FROM video_captions WHERE video_id = $1`, [video.id]);
+      await pool.query(`UPDATE videos SET captions_status = 'none' WHERE id = $1`, [video.id]);
+    }
+    await refreshVideoSearchText(video.id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Delete captions error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+/**
+ * Integration test: answering community questions and marking a solution,
+ * against the app on a throwaway database (testing/harness.js). Skipped
+ * without Postgres. Run with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("../testing/harness");
+const { NO_DATABASE } = require("../testing/postgres");
+
+let server = null;
+
+before(async () => {
+  server = await startTestServer();
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+test("only the author of a question can mark the solution", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { users, posts, answers } = server.fixtures;
+  const solutionPath = (commentId) => `/api/community/${posts.faucet.id}/comments/${commentId}/solution`;
+
+  const byBob = await server.request("PUT", solutionPath(answers.carol.id), { token: await server.tokenFor(users.bob) });
+  assert.strictEqual(byBob.status, 403);
+
+  const aliceToken = await server.tokenFor(users.alice);
+  const unknown = await server.request("PUT", solutionPath("00000000-0000-0000-0000-000000000000"), { token: aliceToken });
+  assert.strictEqual(unknown.status, 404);
+
+  const marked = await server.request("PUT", solutionPath(answers.bob.id), { token: aliceToken });
+  assert.strictEqual(marked.status, 200);
+
+  const post = await server.request("GET", `/api/community/${posts.faucet.id}`, { token: aliceToken });
+  assert.strictEqual(post.body.status, "solved");
+
+  // Marking another answer moves the solution rather than adding a second one
+  await server.request("PUT", solutionPath(answers.carol.id), { token: aliceToken });
+  const comments = await server.request("GET", `/api/community/${posts.faucet.id}/comments`, { token: aliceToken });
+  const solutions = comments.body.filter((comment) => comment.isSolution);
+  assert.deepStrictEqual(solutions.map((comment) => comment.id), [answers.carol.id]);
+  assert.strictEqual(comments.body[0].id, answers.carol.id);
+});
+
+test("answering a question earns comment XP once per question", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { users, posts } = server.fixtures;
+  const erinToken = await server.tokenFor(users.erin);
+  const commentsPath = `/api/community/${posts.faucet.id}/comments`;
+
+  const first = await server.request("POST", commentsPath, { token: erinToken, body: { content: "Check the washer" } });
+  assert.strictEqual(first.status, 201);
+  assert.strictEqual(first.body.xpAwarded, 10);
+
+  const second = await server.request("POST", commentsPath, { token: erinToken, body: { content: "Or the O-ring" } });
+  assert.strictEqual(second.status, 201);
+  assert.ok(!second.body.xpAwarded);
+
+  const me = await server.request("GET", "/api/auth/me", { token: erinToken });
+  assert.strictEqual(me.body.xp, 10);
+
+  const post = await server.request("GET", `/api/community/${posts.faucet.id}`, { token: erinToken });
+  assert.strictEqual(post.body.commentsCount, 4);
+});
@@ -1,19 +1,17 @@
-const express = require("express");
+import express from "express";
 
 // DB (correct path)
-const db = require("../db");
-const pool = db.pool;
+import { pool } from "../db";
 
-// Auth (safe import from routes/auth.js)
-const auth = require("./auth");
-const authMiddleware = auth.authMiddleware;
-const optionalAuth = auth.optionalAuth;
+// Auth
+import { authMiddleware, optionalAuth } from "../auth";
+import { requireVerifiedEmail } from "../emailVerification";
 
 // XP services
-const xp = require("../services/xp");
-const awardXpDirect = xp.awardXpDirect;
-const awardCommentXp = xp.awardCommentXp;
-const XP_REWARDS = xp.XP_REWARDS;
+import { awardXpDirect, awardCommentXp, XP_REWARDS } from "../xp";
+
+// Response shapes
+import { serializeCommunityPost, serializeCommunityComment } from "../serializers";
 
 const router = express.Router();
 
@@ -47,26 +45,11 @@ router.get("/", optionalAuth, async (req, res) => {
     }
 
     query += ` ORDER BY cp.created_at DESC LIMIT $${paramIndex} OFFSET $${paramIndex + 1}`;
-    params.push(parseInt(limit), parseInt(offset));
+    params.push(parseInt(String(limit)), parseInt(String(offset)));
 
     const result = await pool.query(query, params);
 
-    res.json(
-      result.rows.map(row => ({
-        id: row.id,
-        title: row.title,
-        description: row.description,
-        category: row.category,
-        imageUrl: row.image_url,
-        status: row.status,
-        commentsCount: row.comments_count,
-        authorId: row.author_id,
-        authorName: row.author_name,
-        authorAvatar: row.author_avatar,
-        createdAt: row.created_at,
-        updatedAt: row.updated_at
-      }))
-    );
+    res.json(result.rows.map(serializeCommunityPost));
   } catch (error) {
     console.error("Get community posts error:", error);
     res.status(500).json({ error: "Server error" });
@@ -89,21 +72,7 @@ router.get("/:id", optionalAuth, async (req, res) => {
       return res.status(404).json({ error: "Post not found" });
     }
 
-    const row = result.rows[0];
-    res.json({
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      category: row.category,
-      imageUrl: row.image_url,
-      status: row.status,
-      commentsCount: row.comments_count,
-      authorId: row.author_id,
-      authorName: row.author_name,
-      authorAvatar: row.author_avatar,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at
-    });
+    res.json(serializeCommunityPost(result.rows[0]));
   } catch (error) {
     console.error("Get post error:", error);
     res.status(500).json({ error: "Server error" });
@@ -113,7 +82,7 @@ router.get("/:id", optionalAuth, async (req, res) => {
 /* ===========================
    CREATE POST
 =========================== */
-router.post("/", authMiddleware, async (req, res) => {
+router.post("/", authMiddleware, requireVerifiedEmail, async (req, res) => {
   try {
     const { title, description, category, imageUrl } = req.body;
 
@@ -133,27 +102,19 @@ router.post("/", authMiddleware, async (req, res) => {
     );
 
     const xpResult = await awardXpDirect(
-      req.userId,
+      req.userId!,
       XP_REWARDS.community_post,
       "community_post"
     );
 
-    const row = result.rows[0];
     const user = userResult.rows[0];
 
     res.status(201).json({
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      category: row.category,
-      imageUrl: row.image_url,
-      status: row.status,
-      commentsCount: row.comments_count,
-      authorId: row.author_id,
-      authorName: user.display_name,
-      authorAvatar: user.avatar_url,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
+      ...serializeCommunityPost({
+        ...result.rows[0],
+        author_name: user.display_name,
+        author_avatar: user.avatar_url
+      }),
       xpAwarded: xpResult.success ? xpResult.xpAwarded : 0
     });
   } catch (error) {
@@ -177,27 +138,14 @@ router.get("/:id/comments", optionalAuth, async (req, res) => {
       ORDER BY cc.is_solution DESC, cc.created_at ASC
     `, [req.params.id]);
 
-    res.json(
-      result.rows.map(row => ({
-        id: row.id,
-        content: row.content,
-        isSolution: row.is_solution,
-        authorId: row.user_id,
-        authorName: row.author_name,
-        authorAvatar: row.author_avatar,
-        linkedVideoId: row.linked_video_id,
-        linkedVideoTitle: row.video_title,
-        linkedVideoThumbnail: row.video_thumbnail,
-        createdAt: row.created_at
-      }))
-    );
+    res.json(result.rows.map(serializeCommunityComment));
   } catch (error) {
     console.error("Get comments error:", error);
     res.status(500).json({ error: "Server error" });
   }
 });
 
-router.post("/:id/comments", authMiddleware, async (req, res) => {
+router.post("/:id/comments", authMiddleware, requireVerifiedEmail, async (req, res) => {
   try {
     const { content, linkedVideoId } = req.body;
 
@@ -206,9 +154,16 @@ router.post("/:id/comments", authMiddleware, async (req, res) => {
     }
 
     const result = await pool.query(`
-      INSERT INTO community_comments (post_id, user_id, content, linked_video_id)
-      VALUES ($1, $2, $3, $4)
-      RETURNING *
+      WITH inserted AS (
+        INSERT INTO community_comments (post_id, user_id, content, linked_video_id)
+        VALUES ($1, $2, $3, $4)
+        RETURNING *
+      )
+      SELECT inserted.*, u.display_name as author_name, u.avatar_url as author_avatar,
+             v.title as video_title, v.thumbnail_url as video_thumbnail
+      FROM inserted
+      JOIN users u ON inserted.user_id = u.id
+      LEFT JOIN videos v ON inserted.linked_video_id = v.id
     `, [req.params.id, req.userId, content, linkedVideoId || null]);
 
     await pool.query(
@@ -216,14 +171,10 @@ router.post("/:id/comments", authMiddleware, async (req, res) => {
       [req.params.id]
     );
 
-    const xpResult = await awardCommentXp(req.userId, req.params.id);
-    const row = result.rows[0];
+    const xpResult = await awardCommentXp(req.userId!, req.params.id);
 
     res.status(201).json({
-      id: row.id,
-      content: row.content,
-      authorId: row.user_id,
-      createdAt: row.created_at,
+      ...serializeCommunityComment(result.rows[0]),
       xpAwarded: xpResult.success ? xpResult.xpAwarded : 0
     });
   } catch (error) {
@@ -272,4 +223,4 @@ router.put("/:postId/comments/:commentId/solution", authMiddleware, async (req,
   }
 });
 
-module.exports = router;
+export default router;
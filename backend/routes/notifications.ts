@@ -1,6 +1,7 @@
-const express = require('express');
-const { pool } = require('../db');
-const { authMiddleware } = require('../middleware/auth');
+import express from 'express';
+import { pool } from '../db';
+import { authMiddleware } from '../auth';
+import { serializeNotification } from '../serializers';
 
 const router = express.Router();
 
@@ -19,21 +20,7 @@ router.get('/', authMiddleware, async (req, res) => {
       LIMIT 50
     `, [req.userId]);
     
-    const notifications = result.rows.map(n => ({
-      id: n.id,
-      type: n.type,
-      title: n.title,
-      message: n.message,
-      isRead: n.is_read,
-      relatedUserId: n.related_user_id,
-      relatedUserName: n.related_user_name,
-      relatedUserAvatar: n.related_user_avatar,
-      relatedVideoId: n.related_video_id,
-      relatedVideoTitle: n.related_video_title,
-      createdAt: n.created_at
-    }));
-    
-    res.json(notifications);
+    res.json(result.rows.map(serializeNotification));
   } catch (error) {
     console.error('Get notifications error:', error);
     res.status(500).json({ error: 'Server error' });
@@ -96,4 +83,4 @@ router.delete('/:id', authMiddleware, async (req, res) => {
   }
 });
 
-module.exports = router;
+export default router;
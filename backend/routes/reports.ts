@@ -1,6 +1,6 @@
-const express = require('express');
-const { pool } = require('../db');
-const { authMiddleware } = require('../middleware/auth');
+import express from 'express';
+import { pool } from '../db';
+import { authMiddleware } from '../auth';
 
 const router = express.Router();
 
@@ -61,4 +61,4 @@ router.post('/', authMiddleware, async (req, res) => {
   }
 });
 
-module.exports = router;
+export default router;
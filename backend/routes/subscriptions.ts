@@ -0,0 +1,183 @@
+import express from "express";
+
+import { authMiddleware } from "../auth";
+import { ERROR_CODES, sendError } from "../errors";
+import {
+  SUBSCRIPTION_CONFIG,
+  getUserSubscription,
+  getDailyImageUsage,
+  checkImageLimit,
+  canUploadVideo,
+  updateUserSubscription,
+  startTrial,
+  cancelSubscription,
+} from "../subscription";
+import { pool } from "../db";
+import { getUncachableStripeClient } from "../../stripeClient";
+
+const router = express.Router();
+
+/* ===========================
+   STATUS
+=========================== */
+router.get("/status", authMiddleware, async (req, res) => {
+  try {
+    const subscription = await getUserSubscription(req.userId);
+    if (!subscription) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const [imagesUsedToday, upload] = await Promise.all([
+      getDailyImageUsage(req.userId),
+      canUploadVideo(req.userId),
+    ]);
+
+    res.json({
+      subscription: {
+        plan: subscription.plan,
+        status: subscription.status,
+        isActive: subscription.isActive,
+        isPremium: subscription.isPremium,
+        trialEndsAt: subscription.trialEndsAt,
+        paidUntil: subscription.paidUntil,
+      },
+      usage: {
+        imagesUsedToday,
+        dailyImageLimit: subscription.isPremium ? null : SUBSCRIPTION_CONFIG.FREE_DAILY_IMAGES,
+        canUploadVideo: upload.allowed,
+      },
+      config: {
+        priceSek: SUBSCRIPTION_CONFIG.PRICE_SEK,
+        trialDays: SUBSCRIPTION_CONFIG.TRIAL_DAYS,
+      },
+    });
+  } catch (error) {
+    console.error("Subscription status error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+router.get("/check-image-limit", authMiddleware, async (req, res) => {
+  try {
+    res.json(await checkImageLimit(req.userId));
+  } catch (error) {
+    console.error("Check image limit error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   TRIAL
+=========================== */
+router.post("/start-trial", authMiddleware, async (req, res) => {
+  try {
+    const result = await startTrial(req.userId);
+    if (!result.success) {
+      return sendError(res, 409, ERROR_CODES.CONFLICT, result.error!);
+    }
+    res.json({
+      success: true,
+      trialStartedAt: result.trialStartedAt,
+      trialEndsAt: result.trialEndsAt,
+      message: `Your ${SUBSCRIPTION_CONFIG.TRIAL_DAYS}-day trial has started`,
+    });
+  } catch (error) {
+    console.error("Start trial error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   CHECKOUT
+   Stripe Checkout for STRIPE_PRICE_ID; the webhook activates the plan
+   once it is paid. The app is sent back to APP_URL (or the caller's
+   origin) with ?subscription=success|canceled.
+=========================== */
+router.post("/create-checkout", authMiddleware, async (req, res) => {
+  try {
+    const priceId = process.env.STRIPE_PRICE_ID;
+    const returnUrl = process.env.APP_URL || req.headers.origin;
+    if (!priceId || !returnUrl) {
+      return sendError(res, 503, ERROR_CODES.SERVICE_UNAVAILABLE, "Checkout is not configured");
+    }
+
+    const userResult = await pool.query("SELECT id, email, stripe_customer_id FROM users WHERE id = $1", [
+      req.userId,
+    ]);
+    const user = userResult.rows[0];
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const stripe = await getUncachableStripeClient();
+    let customerId = user.stripe_customer_id;
+    if (!customerId) {
+      const customer = await stripe.customers.create({ email: user.email, metadata: { userId: user.id } });
+      customerId = customer.id;
+      await updateUserSubscription(user.id, { stripe_customer_id: customerId });
+    }
+
+    const session = await stripe.checkout.sessions.create({
+      mode: "subscription",
+      customer: customerId,
+      client_reference_id: user.id,
+      line_items: [{ price: priceId, quantity: 1 }],
+      metadata: { userId: user.id },
+      subscription_data: { metadata: { userId: user.id } },
+      success_url: `${returnUrl}?subscription=success`,
+      cancel_url: `${returnUrl}?subscription=canceled`,
+    });
+
+    res.json({ url: session.url, sessionId: session.id });
+  } catch (error) {
+    console.error("Create checkout error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   CANCEL / REACTIVATE
+   A paid plan runs until the end of the period it was paid for.
+=========================== */
+router.post("/cancel", authMiddleware, async (req, res) => {
+  try {
+    const subscription = await getUserSubscription(req.userId);
+    if (subscription && subscription.plan === "paid" && subscription.stripeSubscriptionId) {
+      const stripe = await getUncachableStripeClient();
+      await stripe.subscriptions.update(subscription.stripeSubscriptionId, { cancel_at_period_end: true });
+    }
+
+    const result = await cancelSubscription(req.userId);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json({
+      success: true,
+      message: "Your subscription has been canceled",
+      accessUntil: subscription?.paidUntil || subscription?.trialEndsAt,
+    });
+  } catch (error) {
+    console.error("Cancel subscription error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+router.post("/reactivate", authMiddleware, async (req, res) => {
+  try {
+    const subscription = await getUserSubscription(req.userId);
+    if (!subscription || subscription.plan !== "paid" || subscription.status !== "canceled") {
+      return res.status(400).json({ error: "No canceled subscription to reactivate" });
+    }
+
+    const stripe = await getUncachableStripeClient();
+    await stripe.subscriptions.update(subscription.stripeSubscriptionId, { cancel_at_period_end: false });
+    await updateUserSubscription(req.userId, { subscription_status: "active" });
+
+    res.json({ success: true, message: "Your subscription is active again" });
+  } catch (error) {
+    console.error("Reactivate subscription error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+export default router;
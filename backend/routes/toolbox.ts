@@ -1,16 +1,23 @@
-const express = require('express');
-const { pool } = require('../db');
-const { authMiddleware } = require('../middleware/auth');
+import express from 'express';
+import { pool } from '../db';
+import { authMiddleware } from '../auth';
+import { parsePageParams, cursorColumn, toPage, CURSOR_COLUMN } from '../pagination';
+import { serializePage, serializeSavedVideo, serializeFolder } from '../serializers';
 
 const router = express.Router();
 
 router.get('/saved', authMiddleware, async (req, res) => {
   try {
     const { folderId } = req.query;
+    const page = parsePageParams(req.query, ['timestamp', 'uuid']);
+    if ("error" in page) {
+      return res.status(400).json({ error: page.error });
+    }
     
+    // Saved lists page by save time, newest first
     let query = `
       SELECT v.*, u.display_name as author_name, u.avatar_url as author_avatar,
-             vs.folder_id, tf.name as folder_name,
+             vs.folder_id, tf.name as folder_name, ${cursorColumn('vs.created_at')},
              true as is_saved,
              EXISTS(SELECT 1 FROM video_likes WHERE video_id = v.id AND user_id = $1) as is_liked
       FROM video_saves vs
@@ -20,43 +27,28 @@ router.get('/saved', authMiddleware, async (req, res) => {
       WHERE vs.user_id = $1
     `;
     
-    const params = [req.userId];
+    const params: unknown[] = [req.userId];
     
     if (folderId) {
       if (folderId === 'uncategorized') {
         query += ' AND vs.folder_id IS NULL';
       } else {
-        query += ' AND vs.folder_id = $2';
         params.push(folderId);
+        query += ` AND vs.folder_id = $${params.length}`;
       }
     }
     
-    query += ' ORDER BY vs.created_at DESC';
+    if (page.after) {
+      params.push(...page.after);
+      query += ` AND (vs.created_at, vs.video_id) < ($${params.length - 1}::timestamptz, $${params.length})`;
+    }
     
-    const result = await pool.query(query, params);
+    params.push(page.limit + 1);
+    query += ` ORDER BY vs.created_at DESC, vs.video_id DESC LIMIT $${params.length}`;
     
-    const videos = result.rows.map(row => ({
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      category: row.category,
-      tags: row.tags,
-      videoUrl: row.video_url,
-      thumbnailUrl: row.thumbnail_url,
-      duration: row.duration,
-      likesCount: row.likes_count,
-      commentsEnabled: row.comments_enabled,
-      authorId: row.author_id,
-      authorName: row.author_name,
-      authorAvatar: row.author_avatar,
-      isLiked: row.is_liked,
-      isSaved: true,
-      folderId: row.folder_id,
-      folderName: row.folder_name,
-      createdAt: row.created_at
-    }));
-    
-    res.json(videos);
+    const result = await pool.query(query, params);
+    const videos = toPage(result.rows, page.limit, row => [row[CURSOR_COLUMN], row.id]);
+    res.json(serializePage(videos, serializeSavedVideo));
   } catch (error) {
     console.error('Get saved videos error:', error);
     res.status(500).json({ error: 'Server error' });
@@ -79,15 +71,8 @@ router.get('/folders', authMiddleware, async (req, res) => {
       [req.userId]
     );
     
-    const folders = foldersResult.rows.map(f => ({
-      id: f.id,
-      name: f.name,
-      videoCount: parseInt(f.video_count),
-      createdAt: f.created_at
-    }));
-    
     res.json({
-      folders,
+      folders: foldersResult.rows.map(serializeFolder),
       uncategorizedCount: parseInt(uncategorizedResult.rows[0].count)
     });
   } catch (error) {
@@ -123,13 +108,7 @@ router.post('/folders', authMiddleware, async (req, res) => {
       RETURNING *
     `, [req.userId, name.trim()]);
     
-    const folder = result.rows[0];
-    res.status(201).json({
-      id: folder.id,
-      name: folder.name,
-      videoCount: 0,
-      createdAt: folder.created_at
-    });
+    res.status(201).json(serializeFolder(result.rows[0]));
   } catch (error) {
     console.error('Create folder error:', error);
     res.status(500).json({ error: 'Server error' });
@@ -148,18 +127,14 @@ router.put('/folders/:id', authMiddleware, async (req, res) => {
       UPDATE toolbox_folders 
       SET name = $1, updated_at = NOW()
       WHERE id = $2 AND user_id = $3
-      RETURNING *
+      RETURNING *, (SELECT COUNT(*) FROM video_saves WHERE folder_id = toolbox_folders.id) as video_count
     `, [name.trim(), req.params.id, req.userId]);
     
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'Folder not found' });
     }
     
-    res.json({
-      id: result.rows[0].id,
-      name: result.rows[0].name,
-      createdAt: result.rows[0].created_at
-    });
+    res.json(serializeFolder(result.rows[0]));
   } catch (error) {
     console.error('Update folder error:', error);
     res.status(500).json({ error: 'Server error' });
@@ -221,4 +196,4 @@ router.put('/saved/:videoId/folder', authMiddleware, async (req, res) => {
   }
 });
 
-module.exports = router;
+export default router;
@@ -0,0 +1,229 @@
+/**
+ * Integration test: unfinished uploads stay private and expire, completing
+ * one happens once, videos are only published from a finished upload,
+ * which becomes one video, and deleting the video deletes its files,
+ * against the app on a throwaway database (testing/harness.js). Skipped
+ * without Postgres. Run with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+const fs = require("node:fs");
+const path = require("node:path");
+
+const { startTestServer } = require("../testing/harness");
+const { NO_DATABASE } = require("../testing/postgres");
+const { TMP_DIR, getStorage, thumbnailKey } = require("../storage");
+
+let server = null;
+
+before(async () => {
+  server = await startTestServer();
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+test("a partially received upload cannot be downloaded", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const token = await server.tokenFor(server.fixtures.users.alice);
+
+  const started = await server.request("POST", "/api/uploads", {
+    token,
+    body: { fileName: "tap.mp4", mimeType: "video/mp4", totalSize: 1024 },
+  });
+  assert.strictEqual(started.status, 201);
+  const partFile = path.join(TMP_DIR, `${started.body.uploadId}.part`);
+  t.after(() => fs.promises.rm(partFile, { force: true }));
+  assert.ok(fs.existsSync(partFile));
+
+  for (const url of [`/uploads/tmp/${started.body.uploadId}.part`, `/uploads/${started.body.uploadId}.part`]) {
+    assert.strictEqual((await server.request("GET", url)).status, 404, url);
+  }
+});
+
+// The smallest MP4 the duration probe reads: a moov box holding a version 0 mvhd
+function tinyVideo(seconds) {
+  const mvhd = Buffer.alloc(8 + 32);
+  mvhd.writeUInt32BE(mvhd.length, 0);
+  mvhd.write("mvhd", 4, "latin1");
+  mvhd.writeUInt32BE(1000, 8 + 12);
+  mvhd.writeUInt32BE(seconds * 1000, 8 + 16);
+  const moov = Buffer.alloc(8);
+  moov.writeUInt32BE(moov.length + mvhd.length, 0);
+  moov.write("moov", 4, "latin1");
+  return Buffer.concat([moov, mvhd]);
+}
+
+test("racing requests to complete an upload get it once, and no server error", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const token = await server.tokenFor(server.fixtures.users.alice);
+  const video = tinyVideo(12);
+
+  const started = await server.request("POST", "/api/uploads", {
+    token,
+    body: { fileName: "tap.mp4", mimeType: "video/mp4", totalSize: video.length },
+  });
+  const { uploadId } = started.body;
+  t.after(() => fs.promises.rm(getStorage().resolveLocalPath(`videos/${uploadId}.mp4`), { force: true }));
+  const sent = await server.request("PUT", `/api/uploads/${uploadId}/chunk`, {
+    token,
+    body: video,
+    headers: { "Content-Type": "application/octet-stream", "Upload-Offset": "0" },
+  });
+  assert.strictEqual(sent.status, 200);
+
+  const answers = await Promise.all(
+    [1, 2, 3].map(() => server.request("POST", `/api/uploads/${uploadId}/complete`, { token }))
+  );
+  for (const answer of answers) {
+    assert.ok([200, 409].includes(answer.status), `status ${answer.status}`);
+    if (answer.status === 409) assert.strictEqual(answer.body.details.uploadId, uploadId);
+  }
+  assert.ok(answers.some((answer) => answer.status === 200 && answer.body.duration === 12));
+
+  const again = await server.request("POST", `/api/uploads/${uploadId}/complete`, { token });
+  assert.strictEqual(again.status, 200);
+  assert.strictEqual(again.body.status, "complete");
+});
+
+test("uploads abandoned for a day are deleted with their part files", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { expireStaleUploads } = require("../staleUploads");
+  const { alice } = server.fixtures.users;
+
+  const addUpload = async (status, age) => {
+    const { rows } = await server.pool.query(
+      `INSERT INTO video_uploads (user_id, total_size, received_bytes, status, updated_at)
+       VALUES ($1, 1024, 512, $2, NOW() - $3::interval)
+       RETURNING id`,
+      [alice.id, status, age]
+    );
+    const partFile = path.join(TMP_DIR, `${rows[0].id}.part`);
+    await fs.promises.mkdir(TMP_DIR, { recursive: true });
+    await fs.promises.writeFile(partFile, "");
+    t.after(() => fs.promises.rm(partFile, { force: true }));
+    return { id: rows[0].id, partFile };
+  };
+  const abandoned = await addUpload("uploading", "25 hours");
+  const stuck = await addUpload("processing", "25 hours");
+  const recent = await addUpload("uploading", "1 hour");
+
+  assert.strictEqual(await expireStaleUploads(), 2);
+
+  const left = await server.pool.query("SELECT id FROM video_uploads");
+  assert.deepStrictEqual(
+    left.rows.map((row) => row.id),
+    [recent.id]
+  );
+  assert.strictEqual(fs.existsSync(abandoned.partFile), false);
+  assert.strictEqual(fs.existsSync(stuck.partFile), false);
+  assert.strictEqual(fs.existsSync(recent.partFile), true);
+});
+
+test("a finished upload is published as one video, however many requests race for it", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+  const token = await server.tokenFor(alice);
+
+  const upload = await server.pool.query(
+    `INSERT INTO video_uploads (user_id, total_size, received_bytes, status, video_url, duration, thumbnail_status)
+     VALUES ($1, 1024, 1024, 'complete', 'https://media.quickfix.test/videos/tap.mp4', 30, 'unavailable')
+     RETURNING id`,
+    [alice.id]
+  );
+  const body = { title: "Fix a dripping tap", category: "plumbing", uploadId: upload.rows[0].id, autoCaptions: false };
+
+  const answers = await Promise.all([1, 2, 3].map(() => server.request("POST", "/api/videos", { token, body })));
+  assert.deepStrictEqual(answers.map((answer) => answer.status).sort(), [201, 409, 409]);
+  assert.strictEqual(answers.find((answer) => answer.status === 409).body.code, "CONFLICT");
+
+  const videos = await server.pool.query("SELECT id FROM videos WHERE title = $1", [body.title]);
+  assert.strictEqual(videos.rows.length, 1);
+
+  // Once published, later attempts are conflicts too
+  assert.strictEqual((await server.request("POST", "/api/videos", { token, body })).status, 409);
+});
+
+test("a malformed uploadId is a validation error", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const token = await server.tokenFor(server.fixtures.users.alice);
+
+  const created = await server.request("POST", "/api/videos", {
+    token,
+    body: { title: "Fix a dripping tap", category: "plumbing", uploadId: "not-an-id" },
+  });
+  assert.strictEqual(created.status, 400);
+  assert.strictEqual(created.body.code, "VALIDATION_FAILED");
+});
+
+test("a video is only published from an upload, with the upload's URL and duration", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+  const token = await server.tokenFor(alice);
+  const upload = await server.pool.query(
+    `INSERT INTO video_uploads (user_id, total_size, received_bytes, status, video_url, duration, thumbnail_status)
+     VALUES ($1, 1024, 1024, 'complete', 'https://media.quickfix.test/videos/tap.mp4', 30, 'unavailable')
+     RETURNING id`,
+    [alice.id]
+  );
+  const body = { title: "Fix a dripping tap", category: "plumbing", autoCaptions: false };
+
+  const linked = await server.request("POST", "/api/videos", {
+    token,
+    body: { ...body, videoUrl: "https://media.quickfix.test/videos/other.mp4", duration: 5 },
+  });
+  assert.strictEqual(linked.status, 400);
+
+  const claimed = await server.request("POST", "/api/videos", {
+    token,
+    body: { ...body, uploadId: upload.rows[0].id, duration: 5 },
+  });
+  assert.strictEqual(claimed.status, 400);
+  assert.strictEqual(claimed.body.code, "VALIDATION_FAILED");
+
+  const created = await server.request("POST", "/api/videos", { token, body: { ...body, uploadId: upload.rows[0].id } });
+  assert.strictEqual(created.status, 201);
+  assert.strictEqual(created.body.videoUrl, "https://media.quickfix.test/videos/tap.mp4");
+  assert.strictEqual(created.body.duration, 30);
+});
+
+test("deleting a video removes its stored file and thumbnails", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+  const token = await server.tokenFor(alice);
+
+  const upload = (
+    await server.pool.query(
+      `INSERT INTO video_uploads (user_id, total_size, received_bytes, status, video_url, duration, thumbnail_status)
+       VALUES ($1, 1024, 1024, 'complete', 'https://media.quickfix.test/videos/shelf.mp4', 30, 'ready')
+       RETURNING id`,
+      [alice.id]
+    )
+  ).rows[0];
+  const keys = [`videos/${upload.id}.mp4`, thumbnailKey(upload.id, 0), thumbnailKey(upload.id, 1)];
+  await server.pool.query(`UPDATE video_uploads SET storage_key = $2, thumbnail_urls = $3 WHERE id = $1`, [
+    upload.id,
+    keys[0],
+    JSON.stringify(keys.slice(1).map((key) => `https://media.quickfix.test/uploads/${key}`)),
+  ]);
+  const files = keys.map((key) => getStorage().resolveLocalPath(key));
+  for (const file of files) {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    await fs.promises.writeFile(file, "");
+  }
+  t.after(() => Promise.all(files.map((file) => fs.promises.rm(file, { force: true }))));
+
+  const created = await server.request("POST", "/api/videos", {
+    token,
+    body: { title: "Hang a shelf", category: "carpentry", uploadId: upload.id, autoCaptions: false },
+  });
+  assert.strictEqual(created.status, 201);
+
+  const deleted = await server.request("DELETE", `/api/videos/${created.body.id}`, { token });
+  assert.strictEqual(deleted.status, 200);
+  assert.deepStrictEqual(
+    files.filter((file) => fs.existsSync(file)),
+    []
+  );
+  const left = await server.pool.query("SELECT 1 FROM video_uploads WHERE id = $1", [upload.id]);
+  assert.strictEqual(left.rows.length, 0);
+});
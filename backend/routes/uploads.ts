@@ -0,0 +1,296 @@
+import express from "express";
+import fs from "fs";
+import path from "path";
+import type { QueryResultRow } from "pg";
+import type { VideoUploadStatus } from "../../shared/types";
+
+// DB
+import { pool } from "../db";
+
+// Auth
+import { authMiddleware } from "../auth";
+import { requireVerifiedEmail } from "../emailVerification";
+import { ERROR_CODES, sendError } from "../errors";
+
+// Storage + probing
+import { getStorage, getPublicBaseUrl, TMP_DIR } from "../storage";
+import { probeVideoDuration } from "../mediaProbe";
+import { queueThumbnails } from "../thumbnails";
+
+const router = express.Router();
+
+// Videos are capped at 60 seconds; this keeps uploads of that length generous
+const MAX_UPLOAD_BYTES = 200 * 1024 * 1024;
+
+// Size the client should send per chunk; a little slack is accepted
+const CHUNK_SIZE = 2 * 1024 * 1024;
+
+// Matches the videos.duration CHECK constraint
+const MAX_VIDEO_SECONDS = 60;
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function tmpPath(uploadId: string) {
+  return path.join(TMP_DIR, `${uploadId}.part`);
+}
+
+function formatUpload(row: QueryResultRow): VideoUploadStatus {
+  return {
+    uploadId: row.id,
+    status: row.status,
+    totalSize: Number(row.total_size),
+    receivedBytes: Number(row.received_bytes),
+    chunkSize: CHUNK_SIZE,
+    videoUrl: row.video_url,
+    duration: row.duration,
+    thumbnailStatus: row.thumbnail_status,
+    thumbnailUrls: row.thumbnail_urls || [],
+    thumbnailUrl: row.thumbnail_url,
+  };
+}
+
+async function getOwnUpload(uploadId: string, userId: string) {
+  if (!UUID_PATTERN.test(uploadId)) return null;
+  const result = await pool.query(
+    `SELECT * FROM video_uploads WHERE id = $1 AND user_id = $2`,
+    [uploadId, userId]
+  );
+  return result.rows[0] || null;
+}
+
+async function failUpload(uploadId: string) {
+  await pool.query(
+    `UPDATE video_uploads SET status = 'failed', updated_at = NOW() WHERE id = $1`,
+    [uploadId]
+  );
+  await fs.promises.rm(tmpPath(uploadId), { force: true });
+}
+
+/* ===========================
+   START UPLOAD
+=========================== */
+router.post("/", authMiddleware, requireVerifiedEmail, async (req, res) => {
+  try {
+    const { fileName, mimeType, totalSize } = req.body;
+    const size = Number(totalSize);
+
+    if (!Number.isInteger(size) || size <= 0) {
+      return res.status(400).json({ error: "totalSize is required" });
+    }
+    if (size > MAX_UPLOAD_BYTES) {
+      return sendError(res, 413, ERROR_CODES.VALIDATION_FAILED, "Video file is too large");
+    }
+    if (mimeType && !String(mimeType).startsWith("video/")) {
+      return res.status(400).json({ error: "Only video files can be uploaded" });
+    }
+
+    const result = await pool.query(
+      `INSERT INTO video_uploads (user_id, file_name, mime_type, total_size)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [req.userId, fileName || null, mimeType || null, size]
+    );
+    const upload = result.rows[0];
+
+    await fs.promises.mkdir(TMP_DIR, { recursive: true });
+    await fs.promises.writeFile(tmpPath(upload.id), Buffer.alloc(0));
+
+    res.status(201).json(formatUpload(upload));
+  } catch (error) {
+    console.error("Start upload error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   UPLOAD STATUS (RESUME)
+=========================== */
+router.get("/:uploadId", authMiddleware, async (req, res) => {
+  try {
+    const upload = await getOwnUpload(req.params.uploadId, req.userId!);
+    if (!upload) {
+      return res.status(404).json({ error: "Upload not found" });
+    }
+    res.json(formatUpload(upload));
+  } catch (error) {
+    console.error("Get upload error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   UPLOAD CHUNK
+   Raw bytes at the offset given by the Upload-Offset header. The offset
+   must equal the bytes already received, so a retried chunk is rejected
+   with the current offset instead of being written twice.
+=========================== */
+router.put(
+  "/:uploadId/chunk",
+  authMiddleware,
+  express.raw({ type: "application/octet-stream", limit: CHUNK_SIZE * 2 }),
+  async (req, res) => {
+    try {
+      const upload = await getOwnUpload(req.params.uploadId, req.userId!);
+      if (!upload) {
+        return res.status(404).json({ error: "Upload not found" });
+      }
+      if (upload.status !== "uploading") {
+        return sendError(res, 409, ERROR_CODES.CONFLICT, "Upload is not in progress", formatUpload(upload));
+      }
+
+      const offset = Number(req.headers["upload-offset"]);
+      const chunk = Buffer.isBuffer(req.body) ? req.body : null;
+      const receivedBytes = Number(upload.received_bytes);
+      const totalSize = Number(upload.total_size);
+
+      if (!chunk || chunk.length === 0) {
+        return res.status(400).json({ error: "Chunk body is required" });
+      }
+      if (offset !== receivedBytes) {
+        return sendError(res, 409, ERROR_CODES.CONFLICT, "Offset mismatch", formatUpload(upload));
+      }
+      if (offset + chunk.length > totalSize) {
+        return res.status(400).json({ error: "Chunk exceeds declared file size" });
+      }
+
+      const handle = await fs.promises.open(tmpPath(upload.id), "r+");
+      try {
+        await handle.write(chunk, 0, chunk.length, offset);
+      } finally {
+        await handle.close();
+      }
+
+      const result = await pool.query(
+        `UPDATE video_uploads
+         SET received_bytes = received_bytes + $1, updated_at = NOW()
+         WHERE id = $2 AND received_bytes = $3
+         RETURNING *`,
+        [chunk.length, upload.id, offset]
+      );
+      if (result.rows.length === 0) {
+        // Another request for the same offset won the race
+        const current = await getOwnUpload(upload.id, req.userId!);
+        return sendError(res, 409, ERROR_CODES.CONFLICT, "Offset mismatch", formatUpload(current));
+      }
+
+      res.json(formatUpload(result.rows[0]));
+    } catch (error) {
+      console.error("Upload chunk error:", error);
+      res.status(500).json({ error: "Server error" });
+    }
+  }
+);
+
+/* ===========================
+   COMPLETE UPLOAD
+   Probes the duration server-side and moves the file into storage.
+   Thumbnails are generated afterwards in the background; poll the upload
+   status until thumbnailStatus is no longer 'pending'. The first request
+   claims the upload ('processing'); one arriving meanwhile gets 409 with
+   the upload, or the finished upload once the first is done.
+=========================== */
+router.post("/:uploadId/complete", authMiddleware, async (req, res) => {
+  try {
+    const upload = await getOwnUpload(req.params.uploadId, req.userId!);
+    if (!upload) {
+      return res.status(404).json({ error: "Upload not found" });
+    }
+    if (upload.status === "complete") {
+      return res.json(formatUpload(upload));
+    }
+    if (upload.status === "processing") {
+      return sendError(res, 409, ERROR_CODES.CONFLICT, "Upload is already being completed", formatUpload(upload));
+    }
+    if (upload.status !== "uploading") {
+      return sendError(res, 409, ERROR_CODES.CONFLICT, "Upload is not in progress", formatUpload(upload));
+    }
+    if (Number(upload.received_bytes) !== Number(upload.total_size)) {
+      return sendError(res, 409, ERROR_CODES.CONFLICT, "Upload is incomplete", formatUpload(upload));
+    }
+
+    const claimed = await pool.query(
+      `UPDATE video_uploads SET status = 'processing', updated_at = NOW()
+       WHERE id = $1 AND status = 'uploading'
+       RETURNING id`,
+      [upload.id]
+    );
+    if (claimed.rows.length === 0) {
+      // Another request got here first
+      const current = (await getOwnUpload(upload.id, req.userId!)) || upload;
+      if (current.status === "complete") {
+        return res.json(formatUpload(current));
+      }
+      return sendError(res, 409, ERROR_CODES.CONFLICT, "Upload is already being completed", formatUpload(current));
+    }
+
+    try {
+      const seconds = await probeVideoDuration(tmpPath(upload.id));
+      if (seconds === null) {
+        await failUpload(upload.id);
+        return sendError(
+          res,
+          422,
+          ERROR_CODES.VALIDATION_FAILED,
+          "Unsupported video format. Please upload an MP4 or MOV file."
+        );
+      }
+
+      const duration = Math.max(1, Math.round(seconds));
+      if (duration > MAX_VIDEO_SECONDS) {
+        await failUpload(upload.id);
+        return sendError(res, 422, ERROR_CODES.VALIDATION_FAILED, `Video must be ${MAX_VIDEO_SECONDS} seconds or less`, {
+          duration,
+        });
+      }
+
+      const extension = upload.mime_type === "video/quicktime" ? ".mov" : ".mp4";
+      const storageKey = `videos/${upload.id}${extension}`;
+      const baseUrl = getPublicBaseUrl(req);
+      const videoUrl = await getStorage().save(tmpPath(upload.id), storageKey, baseUrl);
+
+      const result = await pool.query(
+        `UPDATE video_uploads
+         SET status = 'complete', video_url = $1, duration = $2, storage_key = $3, updated_at = NOW()
+         WHERE id = $4
+         RETURNING *`,
+        [videoUrl, duration, storageKey, upload.id]
+      );
+
+      queueThumbnails(upload.id, baseUrl);
+
+      res.json(formatUpload(result.rows[0]));
+    } catch (error) {
+      // Hand the upload back so completing can be retried
+      await pool.query(
+        `UPDATE video_uploads SET status = 'uploading', updated_at = NOW() WHERE id = $1 AND status = 'processing'`,
+        [upload.id]
+      );
+      throw error;
+    }
+  } catch (error) {
+    console.error("Complete upload error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   CANCEL UPLOAD
+=========================== */
+router.delete("/:uploadId", authMiddleware, async (req, res) => {
+  try {
+    const upload = await getOwnUpload(req.params.uploadId, req.userId!);
+    if (!upload) {
+      return res.status(404).json({ error: "Upload not found" });
+    }
+    if (upload.status === "uploading") {
+      await failUpload(upload.id);
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Cancel upload error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,339 @@
+import express from "express";
+
+// ✅ Correct DB import
+import { pool } from "../db";
+
+// ✅ Correct auth import
+import {
+  authMiddleware,
+  optionalAuth
+} from "../auth";
+
+// Block helpers
+import { isBlocked } from "../block";
+
+import { ERROR_CODES, sendError } from "../errors";
+
+import { removeUploadFiles } from "../storage";
+import { endBillingForDeletedUser } from "../subscription";
+import { wsManager } from "../websocket";
+
+// Pagination
+import { parsePageParams, cursorColumn, toPage, CURSOR_COLUMN } from "../pagination";
+
+// Response shapes
+import { serializeDataExport, serializePage, serializeUserProfile, serializeVideo } from "../serializers";
+
+const router = express.Router();
+
+/* ---------------- EXPORT MY DATA ----------------
+   Everything stored for the account as one JSON download. Declared before
+   /:id so "me" is not taken for a user id.
+*/
+router.get("/me/export", authMiddleware, async (req, res) => {
+  try {
+    const userResult = await pool.query("SELECT * FROM users WHERE id = $1", [req.userId]);
+    if (userResult.rows.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const [
+      videos,
+      comments,
+      communityPosts,
+      communityComments,
+      liveAssistSessions,
+      liveAssistMessages,
+      dailyLogins,
+      answerRewards,
+      notifications,
+    ] = await Promise.all([
+      pool.query(
+        `SELECT v.*, u.display_name AS author_name, u.avatar_url AS author_avatar
+         FROM videos v JOIN users u ON v.author_id = u.id
+         WHERE v.author_id = $1 ORDER BY v.created_at`,
+        [req.userId]
+      ),
+      pool.query(
+        `SELECT c.*, u.display_name AS author_name, u.avatar_url AS author_avatar
+         FROM comments c JOIN users u ON c.user_id = u.id
+         WHERE c.user_id = $1 ORDER BY c.created_at`,
+        [req.userId]
+      ),
+      pool.query(
+        `SELECT cp.*, u.display_name AS author_name, u.avatar_url AS author_avatar
+         FROM community_posts cp JOIN users u ON cp.author_id = u.id
+         WHERE cp.author_id = $1 ORDER BY cp.created_at`,
+        [req.userId]
+      ),
+      pool.query(
+        `SELECT cc.*, u.display_name AS author_name, u.avatar_url AS author_avatar,
+                v.title AS video_title, v.thumbnail_url AS video_thumbnail
+         FROM community_comments cc
+         JOIN users u ON cc.user_id = u.id
+         LEFT JOIN videos v ON cc.linked_video_id = v.id
+         WHERE cc.user_id = $1 ORDER BY cc.created_at`,
+        [req.userId]
+      ),
+      pool.query(
+        "SELECT * FROM liveassist_sessions WHERE user_id = $1 ORDER BY created_at",
+        [req.userId]
+      ),
+      pool.query(
+        `SELECT m.* FROM liveassist_messages m
+         JOIN liveassist_sessions s ON m.session_id = s.id
+         WHERE s.user_id = $1 ORDER BY m.created_at`,
+        [req.userId]
+      ),
+      pool.query("SELECT * FROM xp_daily_logins WHERE user_id = $1", [req.userId]),
+      pool.query("SELECT * FROM xp_post_comments WHERE user_id = $1", [req.userId]),
+      pool.query(
+        `SELECT n.*, ru.display_name AS related_user_name, ru.avatar_url AS related_user_avatar,
+                rv.title AS related_video_title
+         FROM notifications n
+         LEFT JOIN users ru ON n.related_user_id = ru.id
+         LEFT JOIN videos rv ON n.related_video_id = rv.id
+         WHERE n.user_id = $1 ORDER BY n.created_at`,
+        [req.userId]
+      ),
+    ]);
+
+    const day = new Date().toISOString().split("T")[0];
+    res.set("Content-Disposition", `attachment; filename="quickfix-data-${day}.json"`);
+    res.json(
+      serializeDataExport({
+        user: userResult.rows[0],
+        videos: videos.rows,
+        comments: comments.rows,
+        communityPosts: communityPosts.rows,
+        communityComments: communityComments.rows,
+        liveAssistSessions: liveAssistSessions.rows,
+        liveAssistMessages: liveAssistMessages.rows,
+        dailyLogins: dailyLogins.rows,
+        answerRewards: answerRewards.rows,
+        notifications: notifications.rows,
+      })
+    );
+  } catch (error) {
+    console.error("Export user data error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ---------------- DELETE MY ACCOUNT ----------------
+   Billing is ended on Stripe first; if that fails nothing is deleted.
+   Everything the user made (videos, comments, community posts and answers,
+   LiveAssist sessions, uploads, XP, notifications, sessions) cascades with
+   the users row. Counters on other people's content are corrected in the
+   same transaction, then the uploaded files are removed and any signed-in
+   sockets are closed.
+*/
+router.delete("/me", authMiddleware, async (req, res) => {
+  try {
+    try {
+      await endBillingForDeletedUser(req.userId);
+    } catch (error) {
+      console.error("Delete account billing error:", error);
+      return sendError(
+        res,
+        503,
+        ERROR_CODES.SERVICE_UNAVAILABLE,
+        "Could not cancel your subscription. Please try again later."
+      );
+    }
+
+    const client = await pool.connect();
+    let sessionIds;
+    let uploads;
+    try {
+      await client.query("BEGIN");
+
+      const user = await client.query("SELECT id FROM users WHERE id = $1 FOR UPDATE", [req.userId]);
+      if (user.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      // Answers on other people's questions
+      await client.query(
+        `UPDATE community_posts cp
+         SET comments_count = GREATEST(cp.comments_count - mine.count, 0)
+         FROM (
+           SELECT post_id, COUNT(*)::int AS count FROM community_comments
+           WHERE user_id = $1 GROUP BY post_id
+         ) mine
+         WHERE cp.id = mine.post_id AND cp.author_id IS DISTINCT FROM $1`,
+        [req.userId]
+      );
+
+      // Likes on other people's videos; recounted once the likes are gone
+      const liked = await client.query(
+        "SELECT video_id FROM video_likes WHERE user_id = $1",
+        [req.userId]
+      );
+
+      sessionIds = (
+        await client.query("SELECT id FROM auth_sessions WHERE user_id = $1", [req.userId])
+      ).rows.map((row) => row.id);
+      uploads = (
+        await client.query(
+          "SELECT id, storage_key, thumbnail_urls FROM video_uploads WHERE user_id = $1",
+          [req.userId]
+        )
+      ).rows;
+
+      await client.query("DELETE FROM users WHERE id = $1", [req.userId]);
+
+      await client.query(
+        `UPDATE videos
+         SET likes_count = (SELECT COUNT(*) FROM video_likes WHERE video_id = videos.id)
+         WHERE id = ANY($1::uuid[])`,
+        [liked.rows.map((row) => row.video_id)]
+      );
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    wsManager.disconnectAuthSessions(sessionIds);
+
+    await removeUploadFiles(uploads);
+
+    console.log(`[Account] Deleted user ${req.userId}`);
+    res.json({ message: "Account deleted" });
+  } catch (error) {
+    console.error("Delete account error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ---------------- GET USER PROFILE ---------------- */
+router.get("/:id", optionalAuth, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `
+      SELECT id, display_name, bio, avatar_url, expertise_categories,
+             followers_count, following_count, created_at, blocked_user_ids
+      FROM users WHERE id = $1
+    `,
+      [req.params.id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const user = result.rows[0];
+
+    if (
+      req.userId &&
+      Array.isArray(user.blocked_user_ids) &&
+      user.blocked_user_ids.includes(req.userId)
+    ) {
+      return sendError(res, 403, ERROR_CODES.USER_BLOCKED, "User not available");
+    }
+
+    let isFollowing = false;
+    let userIsBlocked = false;
+
+    if (req.userId) {
+      const [followResult, blockedCheck] = await Promise.all([
+        pool.query(
+          "SELECT id FROM follows WHERE follower_id = $1 AND following_id = $2",
+          [req.userId, req.params.id]
+        ),
+        isBlocked(req.userId, req.params.id)
+      ]);
+
+      isFollowing = followResult.rows.length > 0;
+      userIsBlocked = blockedCheck;
+    }
+
+    res.json(serializeUserProfile(user, { isFollowing, isBlocked: userIsBlocked }));
+  } catch (error) {
+    console.error("Get user error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ---------------- GET USER VIDEOS ---------------- */
+router.get("/:id/videos", optionalAuth, async (req, res) => {
+  try {
+    const page = parsePageParams(req.query, ["timestamp", "uuid"]);
+    if ("error" in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    if (req.userId) {
+      const userBlockedTarget = await isBlocked(req.userId, req.params.id);
+      if (userBlockedTarget) return res.json({ items: [], nextCursor: null });
+    }
+
+    const params: unknown[] = [req.params.id, req.userId || null];
+    let keyset = "";
+    if (page.after) {
+      params.push(...page.after);
+      keyset = "AND (v.created_at, v.id) < ($3::timestamptz, $4)";
+    }
+    params.push(page.limit + 1);
+
+    const result = await pool.query(
+      `
+      SELECT v.*, u.display_name AS author_name, u.avatar_url AS author_avatar,
+             EXISTS(SELECT 1 FROM video_likes WHERE video_id = v.id AND user_id = $2) AS is_liked,
+             EXISTS(SELECT 1 FROM video_saves WHERE video_id = v.id AND user_id = $2) AS is_saved,
+             ${cursorColumn("v.created_at")}
+      FROM videos v
+      JOIN users u ON v.author_id = u.id
+      WHERE v.author_id = $1 AND v.is_flagged = false ${keyset}
+      ORDER BY v.created_at DESC, v.id DESC
+      LIMIT $${params.length}
+    `,
+      params
+    );
+
+    const videos = toPage(result.rows, page.limit, (row) => [row[CURSOR_COLUMN], row.id]);
+    res.json(serializePage(videos, serializeVideo));
+  } catch (error) {
+    console.error("Get user videos error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ---------------- FOLLOW / UNFOLLOW ---------------- */
+router.post("/:id/follow", authMiddleware, async (req, res) => {
+  try {
+    if (req.params.id === req.userId) {
+      return res.status(400).json({ error: "Cannot follow yourself" });
+    }
+
+    const existing = await pool.query(
+      "SELECT id FROM follows WHERE follower_id = $1 AND following_id = $2",
+      [req.userId, req.params.id]
+    );
+
+    if (existing.rows.length > 0) {
+      await pool.query(
+        "DELETE FROM follows WHERE follower_id = $1 AND following_id = $2",
+        [req.userId, req.params.id]
+      );
+      return res.json({ following: false });
+    }
+
+    await pool.query(
+      "INSERT INTO follows (follower_id, following_id) VALUES ($1, $2)",
+      [req.userId, req.params.id]
+    );
+
+    res.json({ following: true });
+  } catch (error) {
+    console.error("Follow user error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,177 @@
+/**
+ * Integration test: the video feed and how blocking hides videos, against
+ * the app on a throwaway database (testing/harness.js). Skipped without
+ * Postgres. Run with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("../testing/harness");
+const { NO_DATABASE } = require("../testing/postgres");
+
+let server = null;
+
+before(async () => {
+  server = await startTestServer();
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+async function feedIds(section, token) {
+  const feed = await server.request("GET", `/api/videos/feed?section=${section}`, { token });
+  assert.strictEqual(feed.status, 200);
+  return feed.body.items.map((video) => video.id);
+}
+
+test("every feed section lists the seeded videos to a signed-out viewer", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { videos } = server.fixtures;
+
+  for (const section of ["recommended", "new", "popular"]) {
+    const ids = await feedIds(section);
+    assert.deepStrictEqual(
+      [...ids].sort(),
+      Object.values(videos).map((video) => video.id).sort(),
+      `${section} section`
+    );
+  }
+
+  const unknown = await server.request("GET", "/api/videos/feed?section=trending");
+  assert.strictEqual(unknown.status, 400);
+});
+
+test("the new section pages newest first with a cursor", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+
+  const first = await server.request("GET", "/api/videos/feed?section=new&limit=2");
+  assert.strictEqual(first.body.items.length, 2);
+  assert.ok(first.body.nextCursor);
+
+  const second = await server.request(
+    "GET",
+    `/api/videos/feed?section=new&limit=2&cursor=${encodeURIComponent(first.body.nextCursor)}`
+  );
+  assert.strictEqual(second.body.items.length, 1);
+  assert.strictEqual(second.body.nextCursor, null);
+
+  const all = [...first.body.items, ...second.body.items];
+  const times = all.map((video) => new Date(video.createdAt).getTime());
+  assert.deepStrictEqual(times, [...times].sort((a, b) => b - a));
+});
+
+test("cursors of the wrong shape are validation errors, not server errors", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const cursor = (key) => Buffer.from(JSON.stringify(key)).toString("base64url");
+  const video = server.fixtures.videos.bobKitchen;
+
+  // A real cursor from each section still pages
+  for (const section of ["recommended", "new", "popular"]) {
+    const first = await server.request("GET", `/api/videos/feed?section=${section}&limit=1`);
+    const next = await server.request("GET", `/api/videos/feed?section=${section}&limit=1&cursor=${first.body.nextCursor}`);
+    assert.strictEqual(next.status, 200, section);
+  }
+
+  const forged = [
+    ["new", "not base64 json"],
+    ["new", cursor(["yesterday", video.id])],
+    ["new", cursor(["2026-02-30 10:00:00+00", video.id])],
+    ["new", cursor(["2026-03-01 10:00:00.123456+00", "42"])],
+    ["popular", cursor(["many", "2026-03-01T10:00:00Z", video.id])],
+    ["popular", cursor([3, "2026-03-01T10:00:00Z"])],
+    ["recommended", cursor([-1])],
+    ["recommended", cursor(["1"])],
+  ];
+  for (const [section, value] of forged) {
+    const answer = await server.request("GET", `/api/videos/feed?section=${section}&cursor=${encodeURIComponent(value)}`);
+    assert.strictEqual(answer.status, 400, `${section} ${value}`);
+    assert.strictEqual(answer.body.code, "VALIDATION_FAILED");
+  }
+
+  const saved = await server.request("GET", `/api/toolbox/saved?cursor=${cursor(["2026-03-01T10:00:00Z", "x"])}`, {
+    token: await server.tokenFor(server.fixtures.users.alice),
+  });
+  assert.strictEqual(saved.status, 400);
+});
+
+test("videos of a blocked user are left out of feeds and answer 404, both ways", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { users, videos } = server.fixtures;
+  const aliceToken = await server.tokenFor(users.alice);
+  const daveToken = await server.tokenFor(users.dave);
+
+  // Alice blocked Dave in the fixtures
+  for (const section of ["recommended", "new", "popular"]) {
+    assert.ok(!(await feedIds(section, aliceToken)).includes(videos.davePlumbing.id), `${section} section`);
+  }
+  const hidden = await server.request("GET", `/api/videos/${videos.davePlumbing.id}`, { token: aliceToken });
+  assert.strictEqual(hidden.status, 404);
+
+  const list = await server.request("GET", "/api/videos", { token: aliceToken });
+  assert.ok(!list.body.items.some((video) => video.authorId === users.dave.id));
+
+  // Dave does not see Alice's content either, but still sees everyone else's
+  await server.pool.query("INSERT INTO videos (author_id, title, category, duration) VALUES ($1, 'Alice fixes', 'other', 30)", [
+    users.alice.id,
+  ]);
+  const daveFeed = await server.request("GET", "/api/videos/feed?section=new", { token: daveToken });
+  assert.ok(!daveFeed.body.items.some((video) => video.authorId === users.alice.id));
+  assert.ok(daveFeed.body.items.some((video) => video.id === videos.bobKitchen.id));
+});
+
+test("blocking and unblocking through the API updates the feed", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { users, videos } = server.fixtures;
+  const carolToken = await server.tokenFor(users.carol);
+
+  assert.ok((await feedIds("new", carolToken)).includes(videos.bobKitchen.id));
+
+  const blocked = await server.request("POST", "/api/block", { token: carolToken, body: { targetUserId: users.bob.id } });
+  assert.strictEqual(blocked.status, 200);
+  const whileBlocked = await feedIds("new", carolToken);
+  assert.ok(!whileBlocked.includes(videos.bobKitchen.id));
+  assert.ok(!whileBlocked.includes(videos.bobBathroom.id));
+
+  const self = await server.request("POST", "/api/block", { token: carolToken, body: { targetUserId: users.carol.id } });
+  assert.strictEqual(self.status, 400);
+
+  await server.request("POST", "/api/unblock", { token: carolToken, body: { targetUserId: users.bob.id } });
+  assert.ok((await feedIds("new", carolToken)).includes(videos.bobKitchen.id));
+});
+
+test("saving into a malformed folder id is a validation error", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const saved = await server.request("POST", `/api/videos/${server.fixtures.videos.bobKitchen.id}/save`, {
+    token: await server.tokenFor(server.fixtures.users.alice),
+    body: { folderId: "garage" },
+  });
+  assert.strictEqual(saved.status, 400);
+  assert.strictEqual(saved.body.code, "VALIDATION_FAILED");
+});
+
+test("lists show the viewer's likes and saves, so another device sees them", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob } = server.fixtures.users;
+  const video = server.fixtures.videos.bobKitchen;
+  const token = await server.tokenFor(alice);
+
+  assert.strictEqual((await server.request("POST", `/api/videos/${video.id}/like`, { token, body: { liked: true } })).status, 200);
+  assert.strictEqual((await server.request("POST", `/api/videos/${video.id}/save`, { token, body: { saved: true } })).status, 200);
+
+  const lists = [
+    "/api/videos/feed?section=recommended",
+    "/api/videos/feed?section=new",
+    "/api/videos/feed?section=popular",
+    "/api/videos",
+    `/api/users/${bob.id}/videos`,
+  ];
+  for (const url of lists) {
+    const listed = (await server.request("GET", url, { token })).body.items.find((item) => item.id === video.id);
+    assert.ok(listed, url);
+    assert.strictEqual(listed.isLiked, true, url);
+    assert.strictEqual(listed.isSaved, true, url);
+
+    // Signed out, nothing is liked
+    const anonymous = (await server.request("GET", url)).body.items.find((item) => item.id === video.id);
+    assert.strictEqual(anonymous.isLiked, false, url);
+  }
+});
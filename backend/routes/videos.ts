@@ -0,0 +1,757 @@
+import express from "express";
+import type { FeedSection } from "../../shared/types";
+
+// DB
+import { pool } from "../db";
+
+// ✅ AUTH – RÄTT PATH
+import { authMiddleware, optionalAuth } from "../auth";
+import { requireVerifiedEmail } from "../emailVerification";
+
+// XP services
+import { awardXpDirect, XP_REWARDS } from "../xp";
+
+// Block helpers
+import { getBlockedUserIds } from "../block";
+
+// Captions + search
+import { queueTranscription, refreshVideoSearchText } from "../captions";
+import { getAIProvider } from "../providers";
+
+// Uploaded files
+import { removeUploadFiles } from "../storage";
+
+// Pagination + ranking
+import { parsePageParams, cursorColumn, toPage, CURSOR_COLUMN } from "../pagination";
+import type { CursorField, PageQuery } from "../pagination";
+import { getRecommendedPage } from "../recommendations";
+
+// Response shapes
+import { serializePage, serializeVideo, serializeComment } from "../serializers";
+
+const router = express.Router();
+
+const MAX_CHAPTERS = 10;
+const MAX_CHAPTER_TEXT_LENGTH = 80;
+
+/**
+ * Validate creator chapters ({ text, startTime } in seconds) against the
+ * video duration. Returns them sorted and numbered like AI guide steps.
+ */
+function normalizeChapters(chapters: unknown, duration: number) {
+  if (chapters === undefined || chapters === null) return { chapters: [] };
+  if (!Array.isArray(chapters) || chapters.length > MAX_CHAPTERS) {
+    return { error: `Chapters must be a list of at most ${MAX_CHAPTERS} steps` };
+  }
+
+  const seen = new Set();
+  const normalized = [];
+  for (const chapter of chapters) {
+    const text = typeof chapter?.text === "string" ? chapter.text.trim() : "";
+    const startTime = Number(chapter?.startTime);
+    if (!text || text.length > MAX_CHAPTER_TEXT_LENGTH) {
+      return { error: `Chapter text must be 1-${MAX_CHAPTER_TEXT_LENGTH} characters` };
+    }
+    if (!Number.isInteger(startTime) || startTime < 0 || startTime >= duration) {
+      return { error: "Chapter start times must be within the video" };
+    }
+    if (seen.has(startTime)) {
+      return { error: "Two chapters cannot start at the same time" };
+    }
+    seen.add(startTime);
+    normalized.push({ text, startTime });
+  }
+
+  normalized.sort((a, b) => a.startTime - b.startTime);
+  return {
+    chapters: normalized.map((chapter, index) => ({ stepNumber: index + 1, ...chapter })),
+  };
+}
+
+// Sort keys of the video lists: (created_at, id), (likes, created_at, id), a ranking position
+const RECENT_KEY: CursorField[] = ["timestamp", "uuid"];
+const POPULAR_KEY: CursorField[] = ["count", "timestamp", "uuid"];
+const RANK_KEY: CursorField[] = ["count"];
+
+/**
+ * One keyset page of videos, newest or most liked first. Popular pages are
+ * keyed by (likes, created_at, id), recent ones by (created_at, id).
+ */
+interface VideoFilter {
+  // Signed-in viewer, for is_liked and is_saved
+  viewerId: string | null;
+  blockedUserIds: string[];
+  category?: string;
+  tag?: string;
+  search?: string;
+  popular: boolean;
+}
+
+async function queryVideoPage(
+  { viewerId, blockedUserIds, category, tag, search, popular }: VideoFilter,
+  page: PageQuery
+) {
+  let query = `
+    SELECT v.*, u.display_name AS author_name, u.avatar_url AS author_avatar,
+           EXISTS(SELECT 1 FROM video_likes WHERE video_id = v.id AND user_id = $1) AS is_liked,
+           EXISTS(SELECT 1 FROM video_saves WHERE video_id = v.id AND user_id = $1) AS is_saved,
+           ${cursorColumn("v.created_at")}
+    FROM videos v
+    JOIN users u ON v.author_id = u.id
+    WHERE v.is_flagged = false
+  `;
+
+  const params: unknown[] = [viewerId];
+  let paramIndex = 2;
+
+  if (blockedUserIds.length > 0) {
+    query += ` AND v.author_id != ALL($${paramIndex})`;
+    params.push(blockedUserIds);
+    paramIndex++;
+  }
+
+  if (category && category !== "all") {
+    query += ` AND v.category = $${paramIndex}`;
+    params.push(category);
+    paramIndex++;
+  }
+
+  if (tag) {
+    query += ` AND EXISTS (SELECT 1 FROM unnest(v.tags) t WHERE lower(t) = lower($${paramIndex}))`;
+    params.push(tag);
+    paramIndex++;
+  }
+
+  if (search) {
+    // search_text also covers tags and spoken content from captions
+    query += ` AND (v.title ILIKE $${paramIndex} OR v.description ILIKE $${paramIndex}
+      OR v.search_text @@ plainto_tsquery('simple', $${paramIndex + 1}))`;
+    params.push(`%${search}%`, search);
+    paramIndex += 2;
+  }
+
+  if (page.after && popular) {
+    query += ` AND (v.likes_count, v.created_at, v.id) < ($${paramIndex}, $${paramIndex + 1}::timestamptz, $${paramIndex + 2})`;
+    params.push(...page.after);
+    paramIndex += 3;
+  } else if (page.after) {
+    query += ` AND (v.created_at, v.id) < ($${paramIndex}::timestamptz, $${paramIndex + 1})`;
+    params.push(...page.after);
+    paramIndex += 2;
+  }
+
+  query += popular
+    ? " ORDER BY v.likes_count DESC, v.created_at DESC, v.id DESC"
+    : " ORDER BY v.created_at DESC, v.id DESC";
+
+  query += ` LIMIT $${paramIndex}`;
+  params.push(page.limit + 1);
+
+  const result = await pool.query(query, params);
+  return toPage(result.rows, page.limit, (row) =>
+    popular
+      ? [row.likes_count, row[CURSOR_COLUMN], row.id]
+      : [row[CURSOR_COLUMN], row.id]
+  );
+}
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Rewatching the same video within this window earns no XP
+const WATCH_XP_COOLDOWN_HOURS = 24;
+const MAX_COMMENT_LENGTH = 500;
+
+/**
+ * A video the viewer may see: not flagged (unless their own) and not by a
+ * user either side has blocked. Null otherwise, so callers answer 404.
+ */
+async function getVisibleVideo(videoId: string, userId: string | null | undefined) {
+  if (!UUID_PATTERN.test(videoId)) return null;
+  const result = await pool.query(`
+    SELECT v.*, u.display_name AS author_name, u.avatar_url AS author_avatar,
+           EXISTS(SELECT 1 FROM video_likes WHERE video_id = v.id AND user_id = $2) AS is_liked,
+           EXISTS(SELECT 1 FROM video_saves WHERE video_id = v.id AND user_id = $2) AS is_saved
+    FROM videos v
+    JOIN users u ON v.author_id = u.id
+    WHERE v.id = $1 AND (v.is_flagged = false OR v.author_id = $2)
+  `, [videoId, userId]);
+
+  const video = result.rows[0];
+  if (!video) return null;
+  const blockedUserIds = await getBlockedUserIds(userId);
+  return blockedUserIds.includes(video.author_id) ? null : video;
+}
+
+// likes_count is recounted rather than incremented so it cannot drift
+const RECOUNT_LIKES = `
+  UPDATE videos
+  SET likes_count = (SELECT COUNT(*) FROM video_likes WHERE video_id = videos.id)
+  WHERE id = ANY($1::uuid[])
+  RETURNING id, likes_count
+`;
+
+/* ===========================
+   GET VIDEOS (LIST)
+=========================== */
+router.get("/", optionalAuth, async (req, res) => {
+  try {
+    const { category, search, tag, sort = "recent" } = req.query as Record<string, string | undefined>;
+    const userId = req.userId || null;
+
+    const popular = sort === "popular";
+    const page = parsePageParams(req.query, popular ? POPULAR_KEY : RECENT_KEY);
+    if ("error" in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const blockedUserIds = await getBlockedUserIds(userId);
+
+    const videos = await queryVideoPage({ viewerId: userId, blockedUserIds, category, tag, search, popular }, page);
+    res.json(serializePage(videos, serializeVideo));
+  } catch (error) {
+    console.error("Get videos error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   GET FEED
+   ?section=recommended (default, ranked per viewer with a reason on each
+   video) | new | popular
+=========================== */
+const FEED_SECTIONS: FeedSection[] = ["recommended", "new", "popular"];
+
+router.get("/feed", optionalAuth, async (req, res) => {
+  try {
+    const { section = "recommended" } = req.query as { section?: FeedSection };
+    if (!FEED_SECTIONS.includes(section)) {
+      return res.status(400).json({ error: `section must be one of ${FEED_SECTIONS.join(", ")}` });
+    }
+
+    // Recommended pages are positions in the ranking
+    const key = { recommended: RANK_KEY, new: RECENT_KEY, popular: POPULAR_KEY }[section];
+    const page = parsePageParams(req.query, key);
+    if ("error" in page) {
+      return res.status(400).json({ error: page.error });
+    }
+
+    const userId = req.userId || null;
+    const blockedUserIds = await getBlockedUserIds(userId);
+
+    const videos = section === "recommended"
+      ? await getRecommendedPage(userId, blockedUserIds, page)
+      : await queryVideoPage({ viewerId: userId, blockedUserIds, popular: section === "popular" }, page);
+    res.json(serializePage(videos, serializeVideo));
+  } catch (error) {
+    console.error("Get feed error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   CREATE VIDEO
+   From a finished upload (POST /api/uploads); publishing uses it up.
+=========================== */
+router.post("/", authMiddleware, requireVerifiedEmail, async (req, res) => {
+  try {
+    const {
+      title,
+      description,
+      category,
+      tags = [],
+      uploadId,
+      chapters,
+      autoCaptions = true,
+      commentsEnabled = true
+    } = req.body;
+    let { thumbnailUrl } = req.body;
+
+    if (!title || !category) {
+      return res.status(400).json({ error: "Title and category are required" });
+    }
+
+    // Videos are published from a finished upload, which carries the
+    // server-probed URL and duration; the client sends neither
+    if (!uploadId) {
+      return res.status(400).json({ error: "uploadId is required; upload the file first" });
+    }
+    if (req.body.videoUrl !== undefined || req.body.duration !== undefined) {
+      return res.status(400).json({ error: "videoUrl and duration come from the upload; send only uploadId" });
+    }
+    if (typeof uploadId !== "string" || !UUID_PATTERN.test(uploadId)) {
+      return res.status(400).json({ error: "uploadId is not a valid id" });
+    }
+    const upload = await pool.query(
+      `SELECT status, video_url, duration, thumbnail_urls, thumbnail_url FROM video_uploads
+       WHERE id = $1 AND user_id = $2 AND status IN ('complete', 'published')`,
+      [uploadId, req.userId]
+    );
+    if (upload.rows.length === 0) {
+      return res.status(400).json({ error: "Upload not found or not finished" });
+    }
+    if (upload.rows[0].status === "published") {
+      return res.status(409).json({ error: "This upload has already been published" });
+    }
+    const { video_url: videoUrl, duration } = upload.rows[0];
+
+    // The cover must be one of the generated frames; default otherwise
+    const candidates = upload.rows[0].thumbnail_urls || [];
+    if (thumbnailUrl && !candidates.includes(thumbnailUrl)) {
+      return res.status(400).json({ error: "thumbnailUrl must be one of the upload's frames" });
+    }
+    thumbnailUrl = thumbnailUrl || upload.rows[0].thumbnail_url;
+
+    const chapterResult = normalizeChapters(chapters, Number(duration));
+    if (chapterResult.error) {
+      return res.status(400).json({ error: chapterResult.error });
+    }
+
+    // Publishing the upload and creating the video happen together, so two
+    // requests racing with the same upload cannot both make a video from it
+    const client = await pool.connect();
+    let videoId: string;
+    try {
+      await client.query("BEGIN");
+
+      const published = await client.query(
+        `UPDATE video_uploads SET status = 'published', updated_at = NOW()
+         WHERE id = $1 AND user_id = $2 AND status = 'complete'
+         RETURNING id`,
+        [uploadId, req.userId]
+      );
+      if (published.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "This upload has already been published" });
+      }
+
+      const result = await client.query(`
+        INSERT INTO videos
+          (author_id, title, description, category, tags, video_url, thumbnail_url, duration, comments_enabled, chapters)
+        VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
+        RETURNING id
+      `, [
+        req.userId,
+        title,
+        description,
+        category,
+        tags,
+        videoUrl,
+        thumbnailUrl,
+        duration,
+        commentsEnabled,
+        JSON.stringify(chapterResult.chapters)
+      ]);
+      videoId = result.rows[0].id;
+
+      await refreshVideoSearchText(videoId, client);
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (autoCaptions && getAIProvider()) {
+      await queueTranscription(videoId);
+    }
+
+    const xpResult = await awardXpDirect(
+      req.userId!,
+      XP_REWARDS.video_upload,
+      "video_upload"
+    );
+
+    // Re-read for the author join and the captions status set above
+    const video = await getVisibleVideo(videoId, req.userId);
+    res.status(201).json({
+      ...serializeVideo(video),
+      xpAwarded: xpResult?.xpAwarded || 0
+    });
+  } catch (error) {
+    console.error("Create video error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   IMPORT LOCAL ACTIVITY
+   Likes, saves and comments made while offline, sent once after sign-in.
+   Replays are harmless: likes and saves are set (not toggled) and a
+   comment is skipped when the same text already exists at its timestamp.
+=========================== */
+const MAX_IMPORT_ITEMS = 200;
+
+router.post("/import-local", authMiddleware, requireVerifiedEmail, async (req, res) => {
+  const likedIds = Array.isArray(req.body.likedIds) ? req.body.likedIds : [];
+  const savedIds = Array.isArray(req.body.savedIds) ? req.body.savedIds : [];
+  const comments = Array.isArray(req.body.comments) ? req.body.comments : [];
+
+  if (likedIds.length + savedIds.length + comments.length > MAX_IMPORT_ITEMS) {
+    return res.status(400).json({ error: `At most ${MAX_IMPORT_ITEMS} items can be imported at once` });
+  }
+
+  // Sample and local-only videos have no server row; skip them quietly
+  const validIds = (ids: unknown[]) => [...new Set(ids.filter((id) => UUID_PATTERN.test(String(id))))];
+  const validComments = comments.filter((comment: any) =>
+    UUID_PATTERN.test(String(comment?.videoId)) &&
+    typeof comment.content === "string" &&
+    comment.content.trim() &&
+    comment.content.length <= MAX_COMMENT_LENGTH &&
+    !Number.isNaN(Date.parse(comment.createdAt))
+  );
+
+  const client = await pool.connect();
+  try {
+    const blockedUserIds = await getBlockedUserIds(req.userId);
+
+    await client.query("BEGIN");
+    const liked = await client.query(`
+      INSERT INTO video_likes (user_id, video_id)
+      SELECT $1, v.id FROM videos v
+      WHERE v.id = ANY($2::uuid[]) AND v.author_id != ALL($3::uuid[])
+      ON CONFLICT (user_id, video_id) DO NOTHING
+      RETURNING video_id
+    `, [req.userId, validIds(likedIds), blockedUserIds]);
+
+    const saved = await client.query(`
+      INSERT INTO video_saves (user_id, video_id)
+      SELECT $1, v.id FROM videos v
+      WHERE v.id = ANY($2::uuid[]) AND v.author_id != ALL($3::uuid[])
+      ON CONFLICT (user_id, video_id) DO NOTHING
+      RETURNING video_id
+    `, [req.userId, validIds(savedIds), blockedUserIds]);
+
+    let commentsImported = 0;
+    for (const comment of validComments) {
+      const inserted = await client.query(`
+        INSERT INTO comments (video_id, user_id, content, created_at)
+        SELECT v.id, $2, $3, $4::timestamptz FROM videos v
+        WHERE v.id = $1 AND v.comments_enabled = true AND v.author_id != ALL($5::uuid[])
+          AND NOT EXISTS (
+            SELECT 1 FROM comments c
+            WHERE c.video_id = v.id AND c.user_id = $2 AND c.content = $3 AND c.created_at = $4::timestamptz
+          )
+      `, [comment.videoId, req.userId, comment.content.trim(), comment.createdAt, blockedUserIds]);
+      commentsImported += inserted.rowCount ?? 0;
+    }
+
+    await client.query(RECOUNT_LIKES, [liked.rows.map((row) => row.video_id)]);
+    await client.query("COMMIT");
+
+    res.json({
+      likesImported: liked.rowCount,
+      savesImported: saved.rowCount,
+      commentsImported
+    });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Import local activity error:", error);
+    res.status(500).json({ error: "Server error" });
+  } finally {
+    client.release();
+  }
+});
+
+/* ===========================
+   GET VIDEO
+=========================== */
+router.get("/:id", optionalAuth, async (req, res) => {
+  try {
+    const video = await getVisibleVideo(req.params.id, req.userId || null);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    res.json(serializeVideo(video));
+  } catch (error) {
+    console.error("Get video error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   DELETE VIDEO
+=========================== */
+router.delete("/:id", authMiddleware, async (req, res) => {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const video = await pool.query(
+      "SELECT author_id FROM videos WHERE id = $1",
+      [req.params.id]
+    );
+    if (video.rows.length === 0) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    if (video.rows[0].author_id !== req.userId) {
+      return res.status(403).json({ error: "Only the author can delete this video" });
+    }
+
+    // Likes, saves, comments, watches, captions and reports cascade; the
+    // upload the video was published from goes too, files and all
+    const uploads = await pool.query(
+      `WITH deleted AS (DELETE FROM videos WHERE id = $1 RETURNING video_url, author_id)
+       DELETE FROM video_uploads u USING deleted d
+       WHERE u.video_url = d.video_url AND u.user_id = d.author_id
+       RETURNING u.id, u.storage_key, u.thumbnail_urls`,
+      [req.params.id]
+    );
+    await removeUploadFiles(uploads.rows);
+
+    res.json({ message: "Video deleted" });
+  } catch (error) {
+    console.error("Delete video error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   LIKE (TOGGLE)
+   A boolean { liked } sets the state instead, which is what the app's
+   offline outbox sends so a late replay cannot flip it back.
+=========================== */
+router.post("/:id/like", authMiddleware, async (req, res) => {
+  try {
+    const video = await getVisibleVideo(req.params.id, req.userId);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      // Serialize likes per video so the recount sees every committed like
+      await client.query("SELECT id FROM videos WHERE id = $1 FOR UPDATE", [video.id]);
+
+      const existing = await client.query(
+        "SELECT 1 FROM video_likes WHERE user_id = $1 AND video_id = $2",
+        [req.userId, video.id]
+      );
+      const liked = typeof req.body.liked === "boolean" ? req.body.liked : existing.rows.length === 0;
+      if (liked) {
+        await client.query(
+          "INSERT INTO video_likes (user_id, video_id) VALUES ($1, $2) ON CONFLICT (user_id, video_id) DO NOTHING",
+          [req.userId, video.id]
+        );
+      } else {
+        await client.query(
+          "DELETE FROM video_likes WHERE user_id = $1 AND video_id = $2",
+          [req.userId, video.id]
+        );
+      }
+
+      const counted = await client.query(RECOUNT_LIKES, [[video.id]]);
+      await client.query("COMMIT");
+
+      res.json({ liked, likesCount: counted.rows[0].likes_count });
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error("Like video error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   SAVE (TOGGLE)
+   With a folderId, an already saved video moves to that folder instead of
+   being unsaved. A boolean { saved } sets the state, as for likes.
+=========================== */
+router.post("/:id/save", authMiddleware, async (req, res) => {
+  try {
+    const { folderId } = req.body;
+    if (folderId && (typeof folderId !== "string" || !UUID_PATTERN.test(folderId))) {
+      return res.status(400).json({ error: "folderId is not a valid id" });
+    }
+
+    const video = await getVisibleVideo(req.params.id, req.userId);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    if (folderId) {
+      const folder = await pool.query(
+        "SELECT id FROM toolbox_folders WHERE id = $1 AND user_id = $2",
+        [folderId, req.userId]
+      );
+      if (folder.rows.length === 0) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+
+      await pool.query(`
+        INSERT INTO video_saves (user_id, video_id, folder_id)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (user_id, video_id) DO UPDATE SET folder_id = $3
+      `, [req.userId, video.id, folderId]);
+      return res.json({ saved: true });
+    }
+
+    const saved = typeof req.body.saved === "boolean" ? req.body.saved : !video.is_saved;
+    if (saved) {
+      await pool.query(
+        "INSERT INTO video_saves (user_id, video_id) VALUES ($1, $2) ON CONFLICT (user_id, video_id) DO NOTHING",
+        [req.userId, video.id]
+      );
+    } else {
+      await pool.query(
+        "DELETE FROM video_saves WHERE user_id = $1 AND video_id = $2",
+        [req.userId, video.id]
+      );
+    }
+    res.json({ saved });
+  } catch (error) {
+    console.error("Save video error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   WATCH
+   Every watch feeds recommendations; XP is awarded once per video per
+   cooldown window and never for watching your own video.
+=========================== */
+router.post("/:id/watch", authMiddleware, async (req, res) => {
+  try {
+    const video = await getVisibleVideo(req.params.id, req.userId);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const watch = await pool.query(`
+      WITH previous AS (
+        SELECT 1 FROM video_watches
+        WHERE user_id = $1 AND video_id = $2
+          AND watched_at > NOW() - make_interval(hours => $3)
+        LIMIT 1
+      )
+      INSERT INTO video_watches (user_id, video_id)
+      VALUES ($1, $2)
+      RETURNING NOT EXISTS (SELECT 1 FROM previous) AS earns_xp
+    `, [req.userId, video.id, WATCH_XP_COOLDOWN_HOURS]);
+
+    if (!watch.rows[0].earns_xp || video.author_id === req.userId) {
+      return res.json({ success: true, xpAwarded: 0 });
+    }
+
+    const xpResult = await awardXpDirect(req.userId!, XP_REWARDS.video_watch, "video_watch");
+    res.json({
+      success: true,
+      xpAwarded: xpResult.success ? xpResult.xpAwarded : 0,
+      totalXp: xpResult.xp,
+      level: xpResult.level
+    });
+  } catch (error) {
+    console.error("Record watch error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   COMMENTS
+=========================== */
+router.get("/:id/comments", optionalAuth, async (req, res) => {
+  try {
+    const userId = req.userId || null;
+    const video = await getVisibleVideo(req.params.id, userId);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const blockedUserIds = await getBlockedUserIds(userId);
+    const result = await pool.query(`
+      SELECT c.*, u.display_name AS author_name, u.avatar_url AS author_avatar
+      FROM comments c
+      JOIN users u ON c.user_id = u.id
+      WHERE c.video_id = $1 AND c.user_id != ALL($2::uuid[])
+      ORDER BY c.created_at DESC
+    `, [video.id, blockedUserIds]);
+
+    res.json(result.rows.map(serializeComment));
+  } catch (error) {
+    console.error("Get comments error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+router.post("/:id/comments", authMiddleware, requireVerifiedEmail, async (req, res) => {
+  try {
+    const content = typeof req.body.content === "string" ? req.body.content.trim() : "";
+    if (!content) {
+      return res.status(400).json({ error: "Content is required" });
+    }
+    if (content.length > MAX_COMMENT_LENGTH) {
+      return res.status(400).json({ error: `Comments can be at most ${MAX_COMMENT_LENGTH} characters` });
+    }
+
+    const video = await getVisibleVideo(req.params.id, req.userId);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    if (!video.comments_enabled) {
+      return res.status(403).json({ error: "Comments are turned off for this video" });
+    }
+
+    const result = await pool.query(`
+      WITH inserted AS (
+        INSERT INTO comments (video_id, user_id, content)
+        VALUES ($1, $2, $3)
+        RETURNING *
+      )
+      SELECT inserted.*, u.display_name AS author_name, u.avatar_url AS author_avatar
+      FROM inserted
+      JOIN users u ON inserted.user_id = u.id
+    `, [video.id, req.userId, content]);
+
+    res.status(201).json(serializeComment(result.rows[0]));
+  } catch (error) {
+    console.error("Add comment error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+/* ===========================
+   REPORT
+=========================== */
+router.post("/:id/report", authMiddleware, async (req, res) => {
+  try {
+    const { reason, description } = req.body;
+    if (!reason || !String(reason).trim()) {
+      return res.status(400).json({ error: "Reason is required" });
+    }
+
+    const video = await getVisibleVideo(req.params.id, req.userId);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    if (video.author_id === req.userId) {
+      return res.status(400).json({ error: "You cannot report your own video" });
+    }
+
+    const existing = await pool.query(
+      "SELECT id FROM video_reports WHERE video_id = $1 AND reporter_id = $2 AND status = 'pending'",
+      [video.id, req.userId]
+    );
+    if (existing.rows.length > 0) {
+      return res.status(409).json({ error: "You have already reported this video" });
+    }
+
+    await pool.query(
+      "INSERT INTO video_reports (video_id, reporter_id, reason, description) VALUES ($1, $2, $3, $4)",
+      [video.id, req.userId, String(reason).trim().slice(0, 100), description || null]
+    );
+
+    res.status(201).json({ message: "Report submitted" });
+  } catch (error) {
+    console.error("Report video error:", error);
+    res.status(500).json({ error: "Server error" });
+  }
+});
+
+export default router;
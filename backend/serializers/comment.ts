@@ -0,0 +1,36 @@
+import type { QueryResultRow } from "pg";
+
+import type { Comment, CommunityComment } from "../../shared/types";
+
+/**
+ * Video comment (Comment), joined with its author
+ */
+export function serializeComment(row: QueryResultRow): Comment {
+  return {
+    id: row.id,
+    content: row.content,
+    authorId: row.user_id,
+    authorName: row.author_name,
+    authorAvatar: row.author_avatar,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Community answer (CommunityComment), joined with its author and the
+ * linked video's title and thumbnail when there is one
+ */
+export function serializeCommunityComment(row: QueryResultRow): CommunityComment {
+  return {
+    id: row.id,
+    content: row.content,
+    isSolution: row.is_solution === true,
+    authorId: row.user_id,
+    authorName: row.author_name,
+    authorAvatar: row.author_avatar,
+    linkedVideoId: row.linked_video_id,
+    linkedVideoTitle: row.video_title,
+    linkedVideoThumbnail: row.video_thumbnail,
+    createdAt: row.created_at,
+  };
+}
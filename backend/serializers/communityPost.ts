@@ -0,0 +1,23 @@
+import type { QueryResultRow } from "pg";
+
+import type { CommunityPost } from "../../shared/types";
+
+/**
+ * Community question (CommunityPost), joined with its author
+ */
+export function serializeCommunityPost(row: QueryResultRow): CommunityPost {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    category: row.category,
+    imageUrl: row.image_url,
+    status: row.status,
+    commentsCount: row.comments_count || 0,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    authorAvatar: row.author_avatar,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,92 @@
+import type { QueryResultRow } from "pg";
+
+import type { DataExport, ExportedLiveAssistSession, XpHistoryEntry } from "../../shared/types";
+import { serializeUser } from "./user";
+import { serializeVideo } from "./video";
+import { serializeComment, serializeCommunityComment } from "./comment";
+import { serializeCommunityPost } from "./communityPost";
+import { serializeNotification } from "./notification";
+
+/** The rows GET /api/users/me/export selects */
+export interface DataExportRows {
+  user: QueryResultRow;
+  videos: QueryResultRow[];
+  comments: QueryResultRow[];
+  communityPosts: QueryResultRow[];
+  communityComments: QueryResultRow[];
+  liveAssistSessions: QueryResultRow[];
+  liveAssistMessages: QueryResultRow[];
+  dailyLogins: QueryResultRow[];
+  answerRewards: QueryResultRow[];
+  notifications: QueryResultRow[];
+}
+
+/**
+ * One LiveAssist conversation with its messages (ExportedLiveAssistSession)
+ */
+function serializeExportedLiveAssistSession(
+  row: QueryResultRow,
+  messageRows: QueryResultRow[]
+): ExportedLiveAssistSession {
+  return {
+    id: row.id,
+    title: row.title,
+    isPinned: row.is_pinned === true,
+    stepProgress: row.step_progress || {},
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    messages: messageRows.map((message) => ({
+      id: message.id,
+      role: message.role,
+      text: message.text,
+      imageUrls: message.image_urls || [],
+      analysisResult: message.analysis_result,
+      createdAt: message.created_at,
+    })),
+  };
+}
+
+/**
+ * The account's data download (DataExport), from the rows GET
+ * /api/users/me/export selects; messages are grouped under their session
+ */
+export function serializeDataExport({
+  user,
+  videos,
+  comments,
+  communityPosts,
+  communityComments,
+  liveAssistSessions,
+  liveAssistMessages,
+  dailyLogins,
+  answerRewards,
+  notifications,
+}: DataExportRows): DataExport {
+  const messagesBySession = new Map<string, QueryResultRow[]>();
+  liveAssistMessages.forEach((message) => {
+    const list = messagesBySession.get(message.session_id) || [];
+    list.push(message);
+    messagesBySession.set(message.session_id, list);
+  });
+
+  const xpHistory: XpHistoryEntry[] = [
+    ...dailyLogins.map((row): XpHistoryEntry => ({ reason: "daily_login", createdAt: row.created_at })),
+    ...answerRewards.map(
+      (row): XpHistoryEntry => ({ reason: "community_answer", postId: row.post_id, createdAt: row.created_at })
+    ),
+  ].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  return {
+    exportedAt: new Date().toISOString(),
+    profile: serializeUser(user),
+    videos: videos.map((row) => serializeVideo(row)),
+    comments: comments.map((row) => ({ ...serializeComment(row), videoId: row.video_id })),
+    communityPosts: communityPosts.map((row) => serializeCommunityPost(row)),
+    communityComments: communityComments.map((row) => ({ ...serializeCommunityComment(row), postId: row.post_id })),
+    liveAssistSessions: liveAssistSessions.map((row) =>
+      serializeExportedLiveAssistSession(row, messagesBySession.get(row.id) || [])
+    ),
+    xpHistory,
+    notifications: notifications.map((row) => serializeNotification(row)),
+  };
+}
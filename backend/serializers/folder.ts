@@ -0,0 +1,16 @@
+import type { QueryResultRow } from "pg";
+
+import type { Folder } from "../../shared/types";
+
+/**
+ * Toolbox folder (Folder). video_count is a COUNT(*), which pg returns as
+ * a string.
+ */
+export function serializeFolder(row: QueryResultRow): Folder {
+  return {
+    id: row.id,
+    name: row.name,
+    videoCount: Number(row.video_count || 0),
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,14 @@
+import type { QueryResultRow } from "pg";
+
+import type { LinkedIdentity } from "../../shared/types";
+
+/**
+ * An Apple or Google sign-in linked to the account (LinkedIdentity)
+ */
+export function serializeLinkedIdentity(row: QueryResultRow): LinkedIdentity {
+  return {
+    provider: row.provider,
+    email: row.email,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * API response shapes
+ *
+ * Postgres rows are snake_case; the app reads the camelCase interfaces in
+ * shared/types. Each serializer is typed with the interface it produces,
+ * routes send rows through them instead of returning result.rows or
+ * mapping fields inline, and serializers.test.js also checks the actual
+ * output against the interface.
+ */
+import type { Page } from "../../shared/types";
+
+/**
+ * A { items, nextCursor } page with every item serialized
+ */
+export function serializePage<Row, Item>(page: Page<Row>, serialize: (row: Row) => Item): Page<Item> {
+  return {
+    items: page.items.map((item) => serialize(item)),
+    nextCursor: page.nextCursor,
+  };
+}
+
+export * from "./user";
+export * from "./video";
+export * from "./comment";
+export * from "./communityPost";
+export * from "./notification";
+export * from "./folder";
+export * from "./session";
+export * from "./identity";
+export * from "./dataExport";
@@ -0,0 +1,22 @@
+import type { QueryResultRow } from "pg";
+
+import type { Notification } from "../../shared/types";
+
+/**
+ * Notification, joined with the related user and video when set
+ */
+export function serializeNotification(row: QueryResultRow): Notification {
+  return {
+    id: row.id,
+    type: row.type,
+    title: row.title,
+    message: row.message,
+    isRead: row.is_read === true,
+    relatedUserId: row.related_user_id,
+    relatedUserName: row.related_user_name,
+    relatedUserAvatar: row.related_user_avatar,
+    relatedVideoId: row.related_video_id,
+    relatedVideoTitle: row.related_video_title,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,372 @@
+/**
+ * Contract test: every serializer's output must match the interface the app
+ * reads it as in shared/types. The type check covers what a serializer
+ * declares; this covers what it actually returns for real rows (a column
+ * missing from a query reads as undefined, which no type catches).
+ * Interfaces are parsed from the source.
+ *
+ * Run with `npm test` in backend/.
+ */
+const test = require("node:test");
+const assert = require("node:assert");
+
+const {
+  serializePage,
+  serializeUser,
+  serializeUserProfile,
+  serializeVideo,
+  serializeSavedVideo,
+  serializeComment,
+  serializeCommunityComment,
+  serializeCommunityPost,
+  serializeNotification,
+  serializeFolder,
+  serializeAuthSession,
+  serializeLinkedIdentity,
+  serializeDataExport,
+} = require(".");
+const { readSharedTypes } = require("../testing/sharedTypes");
+
+const { interfaces, aliases } = readSharedTypes("types");
+
+/**
+ * Problems with a JSON value against a TypeScript type expression
+ */
+function checkType(value, type, at) {
+  const options = type.split("|").map((option) => option.trim());
+  if (options.length > 1) {
+    const fits = options.some((option) => checkType(value, option, at).length === 0);
+    return fits ? [] : [`${at}: ${JSON.stringify(value)} is not ${type}`];
+  }
+
+  if (type.endsWith("[]")) {
+    if (!Array.isArray(value)) return [`${at}: expected ${type}`];
+    return value.flatMap((item, index) => checkType(item, type.slice(0, -2), `${at}[${index}]`));
+  }
+  if (/^".*"$/.test(type)) {
+    return value === JSON.parse(type) ? [] : [`${at}: expected ${type}`];
+  }
+  const record = type.match(/^Record<string, (.+)>$/);
+  if (record) {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return [`${at}: expected ${type}`];
+    return Object.entries(value).flatMap(([key, item]) => checkType(item, record[1], `${at}.${key}`));
+  }
+  if (type === "null") {
+    return value === null ? [] : [`${at}: expected null`];
+  }
+  if (["string", "number", "boolean"].includes(type)) {
+    return typeof value === type ? [] : [`${at}: expected ${type}, got ${JSON.stringify(value)}`];
+  }
+  if (aliases[type]) {
+    return checkType(value, aliases[type], at);
+  }
+  if (interfaces[type]) {
+    return checkInterface(value, type, at);
+  }
+  throw new Error(`No checker for type ${type} at ${at}`);
+}
+
+function checkInterface(value, name, at = name) {
+  if (!value || typeof value !== "object") return [`${at}: expected ${name} object`];
+  const fields = interfaces[name];
+  const problems = [];
+
+  Object.keys(value).forEach((key) => {
+    if (!fields[key]) problems.push(`${at}.${key}: not declared on ${name}`);
+  });
+  Object.entries(fields).forEach(([key, { type, optional }]) => {
+    const present = value[key] !== undefined && value[key] !== null;
+    if (!present) {
+      if (!optional) problems.push(`${at}.${key}: missing`);
+      return;
+    }
+    problems.push(...checkType(value[key], type, `${at}.${key}`));
+  });
+  return problems;
+}
+
+// What goes over the wire: Dates become strings, undefined fields vanish
+function asJson(payload) {
+  return JSON.parse(JSON.stringify(payload));
+}
+
+const CREATED_AT = new Date("2025-03-01T12:00:00.000Z");
+
+const userRow = {
+  id: "5b1f0c4e-8c55-4c1d-9a4f-0f8d2f7c1a01",
+  email: "sam@example.com",
+  password_hash: "$2a$10$hash",
+  display_name: "Sam",
+  bio: null,
+  avatar_url: null,
+  expertise_categories: ["plumbing"],
+  followers_count: 4,
+  following_count: 2,
+  xp: 120,
+  level: 2,
+  blocked_user_ids: [],
+  subscription_plan: "free",
+  stripe_customer_id: null,
+  email_verified_at: CREATED_AT,
+  pending_email: null,
+  created_at: CREATED_AT,
+  updated_at: CREATED_AT,
+};
+
+const videoRow = {
+  id: "7d2c6f1a-3b4e-4f5a-8c9d-0e1f2a3b4c5d",
+  author_id: userRow.id,
+  title: "Fix a dripping tap",
+  description: "Replace the washer",
+  category: "plumbing",
+  tags: ["tap", "leak"],
+  video_url: "https://cdn.example.com/v.mp4",
+  thumbnail_url: null,
+  duration: 45,
+  likes_count: 3,
+  comments_enabled: true,
+  is_flagged: false,
+  chapters: [{ stepNumber: 1, text: "Shut off the water", startTime: 0 }],
+  captions_status: "ready",
+  search_text: "'tap':1",
+  embedding: null,
+  created_at: CREATED_AT,
+  updated_at: CREATED_AT,
+  author_name: "Sam",
+  author_avatar: null,
+  is_liked: true,
+  is_saved: false,
+};
+
+const CONTRACTS = [
+  {
+    endpoint: "GET /api/auth/me",
+    type: "User",
+    payload: () => serializeUser(userRow),
+  },
+  {
+    endpoint: "POST /api/auth/verify-email",
+    type: "EmailVerificationResult",
+    payload: () => ({ status: "pending", user: serializeUser({ ...userRow, pending_email: "sam@example.org" }) }),
+  },
+  {
+    endpoint: "GET /api/users/:id",
+    type: "UserProfile",
+    payload: () => serializeUserProfile(userRow, { isFollowing: true, isBlocked: false }),
+  },
+  {
+    endpoint: "GET /api/videos/:id",
+    type: "Video",
+    payload: () => serializeVideo(videoRow),
+  },
+  {
+    endpoint: "GET /api/videos/feed?section=recommended",
+    type: "Video",
+    payload: () => serializeVideo({
+      ...videoRow,
+      is_liked: undefined,
+      is_saved: undefined,
+      reason: { type: "scan", category: "plumbing", label: "Leaking faucet" },
+    }),
+  },
+  {
+    endpoint: "POST /api/ai/semantic-search",
+    type: "Video",
+    payload: () => ({ ...serializeVideo(videoRow), similarity: 0.82 }),
+  },
+  {
+    endpoint: "GET /api/toolbox/saved",
+    type: "SavedVideo",
+    payload: () => serializeSavedVideo({ ...videoRow, folder_id: null, folder_name: null }),
+  },
+  {
+    endpoint: "GET /api/videos/:id/comments",
+    type: "Comment",
+    payload: () => serializeComment({
+      id: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d",
+      video_id: videoRow.id,
+      user_id: userRow.id,
+      content: "Worked for me",
+      created_at: CREATED_AT,
+      author_name: "Sam",
+      author_avatar: null,
+    }),
+  },
+  {
+    endpoint: "GET /api/community",
+    type: "CommunityPost",
+    payload: () => serializeCommunityPost({
+      id: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+      author_id: userRow.id,
+      title: "Fridge is humming",
+      description: "Loud hum since yesterday",
+      category: "kitchen",
+      image_url: null,
+      status: "open",
+      comments_count: 0,
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+      author_name: "Sam",
+      author_avatar: null,
+    }),
+  },
+  {
+    endpoint: "GET /api/community/:id/comments",
+    type: "CommunityComment",
+    payload: () => serializeCommunityComment({
+      id: "2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a",
+      post_id: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+      user_id: userRow.id,
+      content: "Check the condenser fan",
+      linked_video_id: videoRow.id,
+      is_solution: false,
+      created_at: CREATED_AT,
+      author_name: "Sam",
+      author_avatar: null,
+      video_title: videoRow.title,
+      video_thumbnail: null,
+    }),
+  },
+  {
+    endpoint: "GET /api/notifications",
+    type: "Notification",
+    payload: () => serializeNotification({
+      id: "3e4f5a6b-7c8d-4e9f-0a1b-2c3d4e5f6a7b",
+      user_id: userRow.id,
+      type: "follow",
+      title: "New follower",
+      message: null,
+      related_user_id: userRow.id,
+      related_video_id: null,
+      is_read: false,
+      created_at: CREATED_AT,
+      related_user_name: "Sam",
+      related_user_avatar: null,
+      related_video_title: null,
+    }),
+  },
+  {
+    endpoint: "GET /api/toolbox/folders",
+    type: "Folder",
+    payload: () => serializeFolder({
+      id: "4f5a6b7c-8d9e-4f0a-1b2c-3d4e5f6a7b8c",
+      user_id: userRow.id,
+      name: "Kitchen",
+      video_count: "5",
+      created_at: CREATED_AT,
+      updated_at: CREATED_AT,
+    }),
+  },
+  {
+    endpoint: "GET /api/auth/sessions",
+    type: "AuthSession",
+    payload: () => serializeAuthSession(
+      {
+        id: "5a6b7c8d-9e0f-4a1b-2c3d-4e5f6a7b8c9d",
+        device_name: "Sam's iPhone",
+        platform: "ios",
+        user_agent: "Expo/1017699 CFNetwork/1485 Darwin/23.1.0",
+        created_at: CREATED_AT,
+        last_used_at: CREATED_AT,
+      },
+      "5a6b7c8d-9e0f-4a1b-2c3d-4e5f6a7b8c9d"
+    ),
+  },
+  {
+    endpoint: "GET /api/auth/identities",
+    type: "LinkedIdentity",
+    payload: () => serializeLinkedIdentity({
+      id: "0b1c2d3e-4f5a-4b6c-7d8e-9f0a1b2c3d4e",
+      user_id: userRow.id,
+      provider: "apple",
+      subject: "001234.abcdef",
+      email: "abc123@privaterelay.appleid.com",
+      created_at: CREATED_AT,
+    }),
+  },
+  {
+    endpoint: "GET /api/users/me/export",
+    type: "DataExport",
+    payload: () => serializeDataExport({
+      user: userRow,
+      videos: [{ ...videoRow, author_name: "Sam", author_avatar: null }],
+      comments: [{
+        id: "0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d",
+        video_id: videoRow.id,
+        user_id: userRow.id,
+        content: "Worked for me",
+        created_at: CREATED_AT,
+        author_name: "Sam",
+        author_avatar: null,
+      }],
+      communityPosts: [],
+      communityComments: [{
+        id: "2d3e4f5a-6b7c-4d8e-9f0a-1b2c3d4e5f6a",
+        post_id: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+        user_id: userRow.id,
+        content: "Check the condenser fan",
+        linked_video_id: null,
+        is_solution: true,
+        created_at: CREATED_AT,
+        author_name: "Sam",
+        author_avatar: null,
+      }],
+      liveAssistSessions: [{
+        id: "6b7c8d9e-0f1a-4b2c-3d4e-5f6a7b8c9d0e",
+        user_id: userRow.id,
+        title: "Dripping tap",
+        step_progress: { 1: true },
+        is_pinned: false,
+        created_at: CREATED_AT,
+        updated_at: CREATED_AT,
+      }],
+      liveAssistMessages: [{
+        id: "7c8d9e0f-1a2b-4c3d-4e5f-6a7b8c9d0e1f",
+        session_id: "6b7c8d9e-0f1a-4b2c-3d4e-5f6a7b8c9d0e",
+        user_id: userRow.id,
+        role: "user",
+        text: "The kitchen tap drips",
+        image_urls: [],
+        analysis_result: null,
+        created_at: CREATED_AT,
+      }],
+      dailyLogins: [{ id: "8d9e0f1a-2b3c-4d4e-5f6a-7b8c9d0e1f2a", user_id: userRow.id, login_date: "2025-03-01", created_at: CREATED_AT }],
+      answerRewards: [{
+        id: "9e0f1a2b-3c4d-4e5f-6a7b-8c9d0e1f2a3b",
+        user_id: userRow.id,
+        post_id: "1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f",
+        created_at: CREATED_AT,
+      }],
+      notifications: [],
+    }),
+  },
+];
+
+for (const contract of CONTRACTS) {
+  test(`${contract.endpoint} matches ${contract.type}`, () => {
+    assert.ok(interfaces[contract.type], `${contract.type} not found in shared/types`);
+    assert.deepStrictEqual(checkInterface(asJson(contract.payload()), contract.type), []);
+  });
+}
+
+test("private columns never reach a payload", () => {
+  const payloads = CONTRACTS.map((contract) => JSON.stringify(contract.payload()));
+  ["password_hash", "$2a$10$hash", "blocked_user_ids", "stripe_customer_id", "search_text", "embedding"].forEach(
+    (secret) => payloads.forEach((payload) => assert.ok(!payload.includes(secret), `${secret} leaked`))
+  );
+});
+
+test("public profiles leave out account fields", () => {
+  const profile = serializeUserProfile(userRow);
+  ["email", "xp", "level"].forEach((field) => assert.ok(!(field in profile), `${field} exposed`));
+});
+
+test("serializePage maps items and keeps the cursor", () => {
+  const page = serializePage({ items: [videoRow], nextCursor: "abc" }, serializeVideo);
+  assert.strictEqual(page.nextCursor, "abc");
+  assert.deepStrictEqual(checkInterface(asJson(page.items[0]), "Video"), []);
+});
+
+test("the checker itself rejects a snake_case row", () => {
+  assert.ok(checkInterface(asJson(videoRow), "Video").length > 0);
+});
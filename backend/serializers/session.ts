@@ -0,0 +1,17 @@
+import type { QueryResultRow } from "pg";
+
+import type { AuthSession } from "../../shared/types";
+
+/**
+ * A signed-in device (AuthSession); `current` marks the one asking
+ */
+export function serializeAuthSession(row: QueryResultRow, currentSessionId?: string): AuthSession {
+  return {
+    id: row.id,
+    deviceName: row.device_name,
+    platform: row.platform,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+    current: row.id === currentSessionId,
+  };
+}
@@ -0,0 +1,50 @@
+import type { QueryResultRow } from "pg";
+
+import type { User, UserProfile } from "../../shared/types";
+import { getNextLevelXp, getCurrentLevelXp } from "../xp";
+
+/**
+ * The signed-in user's own account (User)
+ */
+export function serializeUser(row: QueryResultRow): User {
+  const level = row.level || 1;
+  return {
+    id: row.id,
+    email: row.email,
+    emailVerified: Boolean(row.email_verified_at),
+    // Set while an email change waits for its confirmation links
+    pendingEmail: row.pending_email,
+    displayName: row.display_name,
+    bio: row.bio,
+    avatarUrl: row.avatar_url,
+    expertiseCategories: row.expertise_categories || [],
+    followersCount: row.followers_count || 0,
+    followingCount: row.following_count || 0,
+    xp: row.xp || 0,
+    level,
+    nextLevelXp: getNextLevelXp(level),
+    currentLevelXp: getCurrentLevelXp(level),
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Someone else's public profile (UserProfile); no email or XP
+ */
+export function serializeUserProfile(
+  row: QueryResultRow,
+  { isFollowing = false, isBlocked = false }: { isFollowing?: boolean; isBlocked?: boolean } = {}
+): UserProfile {
+  return {
+    id: row.id,
+    displayName: row.display_name,
+    bio: row.bio,
+    avatarUrl: row.avatar_url,
+    expertiseCategories: row.expertise_categories || [],
+    followersCount: row.followers_count || 0,
+    followingCount: row.following_count || 0,
+    isFollowing,
+    isBlocked,
+    createdAt: row.created_at,
+  };
+}
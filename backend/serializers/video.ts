@@ -0,0 +1,45 @@
+import type { QueryResultRow } from "pg";
+
+import type { SavedVideo, Video } from "../../shared/types";
+
+/**
+ * Video, from a videos row joined with its author as author_name and
+ * author_avatar. Viewer state (is_liked, is_saved) is false when the query
+ * did not select it.
+ */
+export function serializeVideo(row: QueryResultRow): Video {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    category: row.category,
+    tags: row.tags || [],
+    videoUrl: row.video_url,
+    thumbnailUrl: row.thumbnail_url,
+    duration: row.duration,
+    likesCount: row.likes_count || 0,
+    commentsEnabled: row.comments_enabled,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    authorAvatar: row.author_avatar,
+    isLiked: row.is_liked === true,
+    isSaved: row.is_saved === true,
+    chapters: row.chapters || [],
+    captionsStatus: row.captions_status,
+    // Only on recommended feed items
+    reason: row.reason,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Toolbox entry (SavedVideo): the video plus the folder it is filed in
+ */
+export function serializeSavedVideo(row: QueryResultRow): SavedVideo {
+  return {
+    ...serializeVideo(row),
+    isSaved: true,
+    folderId: row.folder_id,
+    folderName: row.folder_name,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Refresh-token sessions
+ *
+ * Signing in creates one auth_sessions row per device. The app holds a
+ * 15-minute access token naming the session (`sid`) and an opaque refresh
+ * token whose hash is stored here. Every refresh replaces the refresh token;
+ * presenting a replaced one again means it was copied, so the session is
+ * revoked. A short grace window lets the app retry a refresh whose answer
+ * it never received.
+ *
+ * Revoking a session stops its refreshes and closes its WebSocket at once;
+ * an access token it already holds keeps working until it expires.
+ */
+const { pool } = require("./db");
+const { ACCESS_TOKEN_TTL_SECONDS, generateAccessToken, generateRefreshToken, hashToken } = require("./auth");
+const { ERROR_CODES } = require("./errors");
+const { wsManager } = require("./websocket");
+
+const SESSION_TTL_DAYS = 30;
+const REUSE_GRACE_SECONDS = 60;
+const PLATFORMS = new Set(["ios", "android", "web"]);
+
+/**
+ * Start a session for a user who just signed in
+ * @param {object} device { deviceName, platform } from the app, plus userAgent and ipAddress
+ * @returns {Promise<{ token: string, refreshToken: string, expiresIn: number, sessionId: string }>}
+ */
+async function createSession(userId, device = {}) {
+  const refreshToken = generateRefreshToken();
+  const deviceName = typeof device.deviceName === "string" ? device.deviceName.trim().slice(0, 100) : "";
+  const platform = PLATFORMS.has(device.platform) ? device.platform : null;
+
+  const result = await pool.query(
+    `INSERT INTO auth_sessions (user_id, refresh_token_hash, device_name, platform, user_agent, ip_address, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(days => $7))
+     RETURNING id`,
+    [
+      userId,
+      hashToken(refreshToken),
+      deviceName || null,
+      platform,
+      device.userAgent || null,
+      device.ipAddress || null,
+      SESSION_TTL_DAYS,
+    ]
+  );
+  const sessionId = result.rows[0].id;
+
+  return {
+    token: generateAccessToken(userId, sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    sessionId,
+  };
+}
+
+/**
+ * Trade a refresh token for a new access token and refresh token
+ * @returns {Promise<{ token: string, refreshToken: string, expiresIn: number } | { code: import("../shared/types").ErrorCode, message: string }>}
+ */
+async function rotateSession(refreshToken) {
+  const presented = hashToken(refreshToken);
+  const next = generateRefreshToken();
+
+  const current = await pool.query(
+    `UPDATE auth_sessions
+     SET previous_token_hash = refresh_token_hash,
+         refresh_token_hash = $2,
+         rotated_at = NOW(),
+         last_used_at = NOW(),
+         expires_at = NOW() + make_interval(days => $3)
+     WHERE refresh_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     RETURNING id, user_id`,
+    [presented, hashToken(next), SESSION_TTL_DAYS]
+  );
+
+  if (current.rows.length === 0) {
+    const reused = await pool.query(
+      `SELECT id, user_id, rotated_at > NOW() - make_interval(secs => $2) AS within_grace
+       FROM auth_sessions
+       WHERE previous_token_hash = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [presented, REUSE_GRACE_SECONDS]
+    );
+    const session = reused.rows[0];
+    if (!session) {
+      return { code: ERROR_CODES.AUTH_EXPIRED, message: "Session expired, please sign in again" };
+    }
+
+    if (!session.within_grace) {
+      console.warn(`[Auth] Refresh token reused for session ${session.id}; revoking it`);
+      await revokeSessions(session.user_id, [session.id]);
+      return { code: ERROR_CODES.AUTH_EXPIRED, message: "Session expired, please sign in again" };
+    }
+
+    // The previous answer was lost in transit; hand out a fresh pair instead
+    await pool.query(
+      `UPDATE auth_sessions SET refresh_token_hash = $2, rotated_at = NOW(), last_used_at = NOW() WHERE id = $1`,
+      [session.id, hashToken(next)]
+    );
+    return {
+      token: generateAccessToken(session.user_id, session.id),
+      refreshToken: next,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    };
+  }
+
+  const { id, user_id: userId } = current.rows[0];
+  return { token: generateAccessToken(userId, id), refreshToken: next, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+/**
+ * The user's live sessions, most recently used first
+ */
+async function listSessions(userId) {
+  const result = await pool.query(
+    `SELECT id, device_name, platform, user_agent, created_at, last_used_at
+     FROM auth_sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+     ORDER BY last_used_at DESC`,
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * Revoke some of a user's sessions and disconnect their sockets. Inside a
+ * transaction nothing is disconnected: the caller passes the returned ids
+ * to wsManager.disconnectAuthSessions after COMMIT.
+ * @param {import("pg").Pool | import("pg").PoolClient} [client] to run inside a transaction
+ * @returns {Promise<string[]>} ids actually revoked
+ */
+async function revokeSessions(userId, sessionIds, client = pool) {
+  if (sessionIds.length === 0) return [];
+  const result = await client.query(
+    `UPDATE auth_sessions SET revoked_at = NOW()
+     WHERE user_id = $1 AND id = ANY($2::uuid[]) AND revoked_at IS NULL
+     RETURNING id`,
+    [userId, sessionIds]
+  );
+  const revoked = result.rows.map((row) => row.id);
+  if (client === pool) wsManager.disconnectAuthSessions(revoked);
+  return revoked;
+}
+
+/**
+ * Revoke every session of a user except `keepSessionId`; sockets as in
+ * revokeSessions
+ * @param {import("pg").Pool | import("pg").PoolClient} [client] to run inside a transaction
+ * @returns {Promise<string[]>} ids actually revoked
+ */
+async function revokeOtherSessions(userId, keepSessionId, client = pool) {
+  const result = await client.query(
+    `SELECT id FROM auth_sessions
+     WHERE user_id = $1 AND revoked_at IS NULL AND id IS DISTINCT FROM $2::uuid`,
+    [userId, keepSessionId || null]
+  );
+  return revokeSessions(userId, result.rows.map((row) => row.id), client);
+}
+
+/**
+ * Sign out the device holding this refresh token
+ */
+async function revokeSessionByToken(refreshToken) {
+  const result = await pool.query(
+    `SELECT id, user_id FROM auth_sessions WHERE refresh_token_hash = $1 AND revoked_at IS NULL`,
+    [hashToken(refreshToken)]
+  );
+  const session = result.rows[0];
+  if (session) await revokeSessions(session.user_id, [session.id]);
+}
+
+module.exports = {
+  createSession,
+  rotateSession,
+  listSessions,
+  revokeSessions,
+  revokeOtherSessions,
+  revokeSessionByToken,
+};
@@ -0,0 +1,52 @@
+/**
+ * Expiry of abandoned uploads
+ *
+ * An upload that stops receiving chunks keeps its row and its .part file in
+ * tmp-uploads until it is resumed. Uploads untouched for
+ * UPLOAD_EXPIRY_HOURS (default 24) are deleted with their files: on
+ * startup, then every hour. Uploads stuck completing, when the server
+ * stopped in the middle, go the same way.
+ */
+const { pool } = require("./db");
+const { removeUploadFiles } = require("./storage");
+
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+function expiryHours() {
+  const hours = Number(process.env.UPLOAD_EXPIRY_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : 24;
+}
+
+/**
+ * Delete unfinished uploads not updated within the expiry, and their files
+ * @returns {Promise<number>} how many were deleted
+ */
+async function expireStaleUploads() {
+  const result = await pool.query(
+    `DELETE FROM video_uploads
+     WHERE status IN ('uploading', 'processing')
+       AND updated_at < NOW() - make_interval(hours => $1)
+     RETURNING id, storage_key, thumbnail_urls`,
+    [expiryHours()]
+  );
+  if (result.rows.length > 0) {
+    console.log(`[Uploads] Expired ${result.rows.length} abandoned upload(s)`);
+    await removeUploadFiles(result.rows);
+  }
+  return result.rows.length;
+}
+
+/**
+ * Run expireStaleUploads now and every hour; the timer does not keep the
+ * process alive
+ */
+function scheduleUploadExpiry() {
+  const sweep = () =>
+    expireStaleUploads().catch((error) => {
+      console.error("[Uploads] Expiry sweep failed:", error.message);
+    });
+  sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
+
+module.exports = { expireStaleUploads, scheduleUploadExpiry };
@@ -0,0 +1,104 @@
+/**
+ * File storage for uploaded media
+ *
+ * STORAGE_DRIVER=local (default) stores files under backend/uploads, which
+ * index.ts serves at /uploads. Other drivers (S3, GCS, ...) need to
+ * implement `save` and `remove`, plus `resolveLocalPath` for background jobs
+ * that read stored files (e.g. by downloading to a temp file) and
+ * `baseUrlOf` for jobs that store more files next to them.
+ */
+const fs = require("fs");
+const path = require("path");
+
+const UPLOADS_DIR = path.join(__dirname, "uploads");
+
+// Partially received uploads and frame grabs; outside UPLOADS_DIR, so never served
+const TMP_DIR = path.join(__dirname, "tmp-uploads");
+
+function createLocalStorage() {
+  return {
+    name: "local",
+
+    /**
+     * Move a finished file into storage
+     * @param {string} sourcePath local file to store (moved, not copied)
+     * @param {string} key relative path such as "videos/<id>.mp4"
+     * @param {string} baseUrl public origin of this server
+     * @returns {Promise<string>} public URL of the stored file
+     */
+    async save(sourcePath, key, baseUrl) {
+      const target = path.join(UPLOADS_DIR, key);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      await fs.promises.rename(sourcePath, target);
+      return `${baseUrl}/uploads/${key}`;
+    },
+
+    async remove(key) {
+      await fs.promises.rm(path.join(UPLOADS_DIR, key), { force: true });
+    },
+
+    /**
+     * Local filesystem path of a stored file
+     * @param {string} key relative path passed to `save`
+     */
+    resolveLocalPath(key) {
+      return path.join(UPLOADS_DIR, key);
+    },
+
+    /**
+     * Public origin a file was stored under, from the URL `save` returned
+     * @returns {string | null} null when `url` is not that file's URL
+     */
+    baseUrlOf(url, key) {
+      const suffix = `/uploads/${key}`;
+      return typeof url === "string" && url.endsWith(suffix) ? url.slice(0, -suffix.length) : null;
+    },
+  };
+}
+
+let storage;
+
+function getStorage() {
+  if (storage) return storage;
+
+  const driver = process.env.STORAGE_DRIVER || "local";
+  if (driver !== "local") {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}"`);
+  }
+  storage = createLocalStorage();
+  return storage;
+}
+
+/**
+ * Storage key of an upload's thumbnail frame
+ */
+function thumbnailKey(uploadId, index) {
+  return `thumbnails/${uploadId}-${index}.jpg`;
+}
+
+/**
+ * Delete everything kept for uploads: the stored video, its thumbnail
+ * frames and any unfinished .part file. Failures are logged, not thrown,
+ * since the rows are already gone by the time this runs.
+ * @param {{ id: string, storage_key: string | null, thumbnail_urls: string[] | null }[]} uploads
+ */
+async function removeUploadFiles(uploads) {
+  const storage = getStorage();
+  const keys = uploads.flatMap((upload) => [
+    ...(upload.storage_key ? [upload.storage_key] : []),
+    ...(upload.thumbnail_urls || []).map((_, index) => thumbnailKey(upload.id, index)),
+  ]);
+  await Promise.all([
+    ...keys.map((key) => storage.remove(key)),
+    ...uploads.map((upload) => fs.promises.rm(path.join(TMP_DIR, `${upload.id}.part`), { force: true })),
+  ]).catch((error) => console.error("[Storage] Could not remove upload files:", error.message));
+}
+
+/**
+ * Public origin for stored files: PUBLIC_URL when set, else the request host
+ */
+function getPublicBaseUrl(req) {
+  return (process.env.PUBLIC_URL || `${req.protocol}://${req.get("host")}`).replace(/\/$/, "");
+}
+
+module.exports = { getStorage, getPublicBaseUrl, thumbnailKey, removeUploadFiles, TMP_DIR };
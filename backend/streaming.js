@@ -0,0 +1,266 @@
+/**
+ * Streaming helpers for AI responses
+ * Responses are sent as Server-Sent Events when the client asks for
+ * `Accept: text/event-stream`; every other client keeps the blocking JSON mode.
+ *
+ * Events:
+ * - delta: { text }          partial assistant text
+ * - field: { name, value }   a structured field that finished streaming
+ * - done:  <final payload>   same shape as the blocking JSON response
+ * - error: error envelope    the request failed after the stream was opened
+ *                             (see errors.ts)
+ *
+ * Under an Idempotency-Key (idempotency.js) the done payload is stored as the
+ * answer, so a blocking retry of the same request gets it instead of running
+ * again; a stream that ends without one frees the key for a retry.
+ */
+
+function wantsEventStream(req) {
+  return (req.headers.accept || "").includes("text/event-stream");
+}
+
+/**
+ * Switch the response into SSE mode and return a small writer
+ */
+function openEventStream(res) {
+  res.status(200);
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  let finished = false;
+  return {
+    send(event, data) {
+      if (event === "done" && !finished) {
+        finished = true;
+        res.locals.idempotency?.remember(data);
+      }
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    /** Call on every way out, including when the client went away */
+    end() {
+      if (!finished) {
+        finished = true;
+        res.locals.idempotency?.forget();
+      }
+      if (!res.writableEnded) res.end();
+    },
+  };
+}
+
+/**
+ * Run a streaming chat completion and forward each content delta.
+ * Aborts the upstream request when the client disconnects.
+ * @param {import("./providers").AIProvider} provider
+ * @param {import("./providers").ChatRequest} request
+ * @returns {Promise<string|null>} full content, or null if the client cancelled
+ */
+async function streamCompletion(provider, request, res, onDelta) {
+  const controller = new AbortController();
+  let cancelled = false;
+
+  const handleClose = () => {
+    if (!res.writableFinished) {
+      cancelled = true;
+      controller.abort();
+    }
+  };
+  res.on("close", handleClose);
+
+  let content = "";
+  try {
+    for await (const delta of provider.streamChat(request, { signal: controller.signal })) {
+      content += delta;
+      onDelta(delta);
+    }
+  } catch (error) {
+    if (cancelled) return null;
+    throw error;
+  } finally {
+    res.off("close", handleClose);
+  }
+
+  return cancelled ? null : content;
+}
+
+/**
+ * Incremental scanner for a streamed top-level JSON object.
+ * feed() returns the newly decoded characters of the `text` field and every
+ * top-level field whose value became complete with this chunk.
+ * Anything before the first "{" (e.g. a markdown fence) is ignored.
+ */
+class JsonFieldStreamer {
+  constructor(textField = "text") {
+    this.textField = textField;
+    this.buffer = "";
+    this.pos = 0;
+    this.started = false;
+    this.finished = false;
+    this.depth = 0;
+    this.inString = false;
+    this.escape = false;
+    this.expectKey = false;
+    this.readingKey = false;
+    this.keyStart = -1;
+    this.key = null;
+    this.awaitingValue = false;
+    this.valueStart = -1;
+    this.valueKind = null; // "string" | "container" | "primitive"
+    this.textEmitted = 0;
+  }
+
+  feed(chunk) {
+    this.buffer += chunk;
+    const fields = [];
+    let textDelta = "";
+
+    const complete = (end) => {
+      const raw = this.buffer.slice(this.valueStart, end).trim();
+      if (this.key === this.textField) {
+        textDelta += this.decodeText(raw.slice(1, -1), true);
+      }
+      try {
+        fields.push([this.key, JSON.parse(raw)]);
+      } catch {
+        // Malformed value; the final parse decides how to handle it
+      }
+      this.valueStart = -1;
+      this.valueKind = null;
+      this.awaitingValue = false;
+    };
+
+    for (; this.pos < this.buffer.length && !this.finished; this.pos++) {
+      const c = this.buffer[this.pos];
+      const i = this.pos;
+
+      if (this.inString) {
+        if (this.escape) {
+          this.escape = false;
+        } else if (c === "\\") {
+          this.escape = true;
+        } else if (c === '"') {
+          this.inString = false;
+          if (this.depth === 1 && this.readingKey) {
+            try {
+              this.key = JSON.parse(this.buffer.slice(this.keyStart, i + 1));
+            } catch {
+              this.key = null;
+            }
+            this.readingKey = false;
+          } else if (this.depth === 1 && this.valueKind === "string") {
+            complete(i + 1);
+          }
+        }
+        continue;
+      }
+
+      if (!this.started) {
+        if (c === "{") {
+          this.started = true;
+          this.depth = 1;
+          this.expectKey = true;
+        }
+        continue;
+      }
+
+      if (c === '"') {
+        this.inString = true;
+        if (this.depth === 1 && this.expectKey) {
+          this.readingKey = true;
+          this.keyStart = i;
+          this.expectKey = false;
+        } else if (this.depth === 1 && this.awaitingValue && this.valueStart < 0) {
+          this.valueStart = i;
+          this.valueKind = "string";
+        }
+        continue;
+      }
+
+      if (this.depth === 1 && c === ":") {
+        this.awaitingValue = true;
+        continue;
+      }
+
+      if (c === "{" || c === "[") {
+        if (this.depth === 1 && this.awaitingValue && this.valueStart < 0) {
+          this.valueStart = i;
+          this.valueKind = "container";
+        }
+        this.depth++;
+        continue;
+      }
+
+      if (c === "}" || c === "]") {
+        this.depth--;
+        if (this.depth === 1 && this.valueKind === "container") {
+          complete(i + 1);
+        } else if (this.depth === 0) {
+          if (this.valueKind === "primitive") complete(i);
+          this.finished = true;
+        }
+        continue;
+      }
+
+      if (this.depth === 1 && c === ",") {
+        if (this.valueKind === "primitive") complete(i);
+        this.expectKey = true;
+        this.awaitingValue = false;
+        continue;
+      }
+
+      if (
+        this.depth === 1 &&
+        this.awaitingValue &&
+        this.valueStart < 0 &&
+        !/\s/.test(c)
+      ) {
+        this.valueStart = i;
+        this.valueKind = "primitive";
+      }
+    }
+
+    // Partially streamed text value
+    if (
+      this.inString &&
+      this.depth === 1 &&
+      this.valueKind === "string" &&
+      this.key === this.textField
+    ) {
+      textDelta += this.decodeText(this.buffer.slice(this.valueStart + 1, this.pos), false);
+    }
+
+    return { textDelta, fields };
+  }
+
+  /**
+   * Decode the raw (still escaped) text value and return only the part
+   * that has not been emitted yet. Incomplete escape sequences at the end
+   * of a partial value are held back until the next chunk.
+   */
+  decodeText(raw, isComplete) {
+    let decoded = null;
+    for (let trim = 0; trim <= (isComplete ? 0 : 5) && decoded === null; trim++) {
+      try {
+        decoded = JSON.parse(`"${raw.slice(0, raw.length - trim)}"`);
+      } catch {
+        decoded = null;
+      }
+    }
+    if (decoded === null || decoded.length <= this.textEmitted) return "";
+    const delta = decoded.slice(this.textEmitted);
+    this.textEmitted = decoded.length;
+    return delta;
+  }
+}
+
+module.exports = {
+  wantsEventStream,
+  openEventStream,
+  streamCompletion,
+  JsonFieldStreamer,
+};
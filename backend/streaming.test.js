@@ -0,0 +1,56 @@
+/**
+ * Unit test: JsonFieldStreamer decoding a streamed JSON reply however the
+ * model's output is split into chunks. Run with `npm test` in backend/.
+ */
+const test = require("node:test");
+const assert = require("node:assert");
+
+const { JsonFieldStreamer } = require("./streaming");
+
+const REPLY = {
+  text: 'Turn the valve "clockwise" \\ then wait.\nDone: café ✓',
+  steps: [{ title: "Close {the} valve", done: false }],
+  confidence: 0.8,
+  safe: true,
+};
+
+// Feed `source` in chunks of `size` characters, collecting text and fields
+function stream(source, size) {
+  const streamer = new JsonFieldStreamer();
+  let text = "";
+  const fields = {};
+  for (let i = 0; i < source.length; i += size) {
+    const { textDelta, fields: completed } = streamer.feed(source.slice(i, i + size));
+    text += textDelta;
+    completed.forEach(([name, value]) => {
+      assert.ok(!(name in fields), `${name} completed twice`);
+      fields[name] = value;
+    });
+  }
+  return { text, fields };
+}
+
+test("every chunk size decodes the same text and fields", () => {
+  const source = JSON.stringify(REPLY);
+  for (const size of [1, 2, 3, 7, 16, source.length]) {
+    assert.deepStrictEqual(stream(source, size), { text: REPLY.text, fields: REPLY }, `chunks of ${size}`);
+  }
+});
+
+test("escape sequences split across chunks are held back until complete", () => {
+  const streamer = new JsonFieldStreamer();
+  assert.strictEqual(streamer.feed('{"text": "say \\').textDelta, "say ");
+  assert.strictEqual(streamer.feed('"hi\\').textDelta, '"hi');
+  assert.strictEqual(streamer.feed('" caf\\u00').textDelta, '" caf');
+  assert.strictEqual(streamer.feed('e9"}').textDelta, "é");
+});
+
+test("quotes and brackets inside strings do not end a field", () => {
+  const source = '{"text": "a \\"}\\" b", "note": "[not, a] {list}", "n": 1}';
+  assert.deepStrictEqual(stream(source, 1).fields, { text: 'a "}" b', note: "[not, a] {list}", n: 1 });
+});
+
+test("text before the object, such as a markdown fence, is ignored", () => {
+  const source = '```json\n{"text": "ok", "steps": []}\n```';
+  assert.deepStrictEqual(stream(source, 4), { text: "ok", fields: { text: "ok", steps: [] } });
+});
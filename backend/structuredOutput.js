@@ -0,0 +1,86 @@
+/**
+ * Structured (JSON) model output
+ * Parses a model reply, validates it against a shared schema and re-asks the
+ * model to fix its reply when the JSON is malformed.
+ */
+
+// Re-asks per request when the model returns unusable JSON
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Parse the JSON value of a model reply, ignoring markdown fences and any
+ * text around the top-level object
+ */
+function extractJson(text) {
+  let jsonStr = text;
+  const fenceMatch = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  if (fenceMatch) {
+    jsonStr = fenceMatch[1].trim();
+  }
+  const objectMatch = jsonStr.match(/\{[\s\S]*\}/);
+  if (objectMatch) {
+    jsonStr = objectMatch[0];
+  }
+  return JSON.parse(jsonStr);
+}
+
+/**
+ * Validate a model reply, repairing malformed JSON with a bounded re-ask.
+ * Only the system prompt and the broken reply are sent back, so repairs do
+ * not resend images.
+ * @template T
+ * @param {import("./providers").AIProvider} ai
+ * @param {import("./providers").ChatRequest} request the original request
+ * @param {string} raw the model reply
+ * @param {(parsed: unknown) => { value: T|null, issues: object[] }} validate
+ * @returns {Promise<{ value: T|null, issues: object[], raw: string, repairs: number }>}
+ */
+async function parseStructuredReply(ai, request, raw, validate) {
+  let reply = raw;
+
+  for (let repairs = 0; ; repairs++) {
+    let reason;
+    try {
+      const result = validate(extractJson(reply));
+      if (result.value) {
+        return { ...result, raw: reply, repairs };
+      }
+      reason = result.issues.map((i) => `${i.path}: ${i.message}`).join("; ");
+    } catch (parseError) {
+      reason = `invalid JSON (${parseError.message})`;
+    }
+
+    if (repairs >= MAX_REPAIR_ATTEMPTS) {
+      console.log(`[AI] Structured reply unusable after ${repairs} repair(s):`, reason);
+      return {
+        value: null,
+        issues: [{ path: "(root)", message: reason }],
+        raw: reply,
+        repairs,
+      };
+    }
+
+    console.log(`[AI] Re-asking for valid JSON (${request.task}):`, reason);
+    reply = (
+      await ai.chat({
+        task: request.task,
+        messages: [
+          ...request.messages.filter((msg) => msg.role === "system"),
+          { role: "assistant", content: reply },
+          {
+            role: "user",
+            content: `Your previous reply could not be used: ${reason}. Reply again with ONLY the corrected JSON object in the required format, no markdown or other text.`,
+          },
+        ],
+        temperature: 0,
+        maxTokens: request.maxTokens,
+      })
+    ).trim();
+  }
+}
+
+module.exports = {
+  MAX_REPAIR_ATTEMPTS,
+  extractJson,
+  parseStructuredReply,
+};
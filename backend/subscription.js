@@ -1,4 +1,4 @@
-const { pool } = require('../db');
+const { pool } = require('./db');
 const { awardXpDirect } = require('./xp');
 
 const SUBSCRIPTION_CONFIG = {
@@ -250,6 +250,39 @@ async function downgradeToFree(userId) {
   return { success: true };
 }
 
+/**
+ * Stop billing before an account is deleted: cancel the Stripe
+ * subscription at once (no proration) and delete the customer, which also
+ * removes saved payment methods. Throws if Stripe cannot be reached, so the
+ * account is not deleted while it can still be charged.
+ */
+async function endBillingForDeletedUser(userId) {
+  const subscription = await getUserSubscription(userId);
+  if (!subscription || (!subscription.stripeSubscriptionId && !subscription.stripeCustomerId)) {
+    return { success: true };
+  }
+
+  const { getUncachableStripeClient } = require('../stripeClient');
+  const stripe = await getUncachableStripeClient();
+
+  // Already gone on Stripe's side (e.g. canceled from the dashboard)
+  const ignoreMissing = (error) => {
+    if (error && error.code === 'resource_missing') return null;
+    throw error;
+  };
+
+  if (subscription.stripeSubscriptionId) {
+    await stripe.subscriptions.cancel(subscription.stripeSubscriptionId).catch(ignoreMissing);
+  }
+  if (subscription.stripeCustomerId) {
+    await stripe.customers.del(subscription.stripeCustomerId).catch(ignoreMissing);
+  }
+
+  console.log(`[Subscription] Ended billing for deleted user ${userId}`);
+
+  return { success: true };
+}
+
 async function getUserByStripeCustomerId(stripeCustomerId) {
   const result = await pool.query(
     `SELECT id, email, display_name FROM users WHERE stripe_customer_id = $1`,
@@ -270,5 +303,6 @@ module.exports = {
   activatePaidSubscription,
   cancelSubscription,
   downgradeToFree,
+  endBillingForDeletedUser,
   getUserByStripeCustomerId
 };
@@ -0,0 +1,118 @@
+/**
+ * Integration test: plan limits for free, trial and paid users, in the
+ * service and at the LiveAssist image gate, against a throwaway database
+ * (testing/harness.js). Skipped without Postgres. Run with `npm test` in
+ * backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("./testing/harness");
+const { NO_DATABASE } = require("./testing/postgres");
+
+let server = null;
+let subscription = null;
+
+before(async () => {
+  server = await startTestServer();
+  // Loaded after the harness has pointed the pool at the test database
+  if (server) subscription = require("./subscription");
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+const IMAGE = "https://images.quickfix.test/faucet.jpg";
+
+test("the effective plan follows trial and paid end dates", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob, carol, dave } = server.fixtures.users;
+
+  const plans = {};
+  for (const user of [alice, bob, carol, dave]) {
+    const current = await subscription.getUserSubscription(user.id);
+    plans[user.display_name] = [current.plan, current.isPremium];
+  }
+  assert.deepStrictEqual(plans, {
+    Alice: ["free", false],
+    Bob: ["paid", true],
+    Carol: ["trial", true],
+    Dave: ["free", false],
+  });
+});
+
+test("free users get two images a day, premium users are not counted", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice, bob, dave } = server.fixtures.users;
+
+  assert.strictEqual((await subscription.checkImageLimit(alice.id)).remaining, 2);
+  await subscription.incrementImageUsage(alice.id);
+  await subscription.incrementImageUsage(alice.id);
+  const blocked = await subscription.checkImageLimit(alice.id);
+  assert.strictEqual(blocked.allowed, false);
+  assert.strictEqual(blocked.reason, "daily_limit_reached");
+  assert.strictEqual(blocked.imagesUsed, 2);
+
+  // An ended trial is the free plan again
+  await subscription.incrementImageUsage(dave.id);
+  await subscription.incrementImageUsage(dave.id);
+  assert.strictEqual((await subscription.checkImageLimit(dave.id)).allowed, false);
+
+  for (let i = 0; i < 3; i++) await subscription.incrementImageUsage(bob.id);
+  const premium = await subscription.checkImageLimit(bob.id);
+  assert.strictEqual(premium.allowed, true);
+  assert.strictEqual(premium.isPremium, true);
+
+  const route = await server.request("GET", "/api/subscriptions/check-image-limit", {
+    token: await server.tokenFor(alice),
+  });
+  assert.strictEqual(route.status, 200);
+  assert.strictEqual(route.body.allowed, false);
+});
+
+test("LiveAssist refuses images over the free limit with IMAGE_DAY_LIMIT", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { users, liveAssistSessions } = server.fixtures;
+  const messagePath = (session) => `/api/ai/liveassist/session/${session.id}/message`;
+
+  const aliceToken = await server.tokenFor(users.alice);
+  await subscription.incrementImageUsage(users.alice.id);
+  await subscription.incrementImageUsage(users.alice.id);
+
+  const refused = await server.request("POST", messagePath(liveAssistSessions.alice), {
+    token: aliceToken,
+    body: { text: "What is this part?", images: [IMAGE] },
+  });
+  assert.strictEqual(refused.status, 403);
+  assert.strictEqual(refused.body.code, "IMAGE_DAY_LIMIT");
+  assert.strictEqual(refused.body.details.upgradeRequired, true);
+
+  // Text alone is still answered
+  const textOnly = await server.request("POST", messagePath(liveAssistSessions.alice), {
+    token: aliceToken,
+    body: { text: "My faucet drips" },
+  });
+  assert.strictEqual(textOnly.status, 200);
+
+  const premium = await server.request("POST", messagePath(liveAssistSessions.bob), {
+    token: await server.tokenFor(users.bob),
+    body: { text: "What is this part?", images: [IMAGE] },
+  });
+  assert.strictEqual(premium.status, 200);
+  assert.strictEqual(premium.body.structured, true);
+});
+
+test("starting a trial works once and shows in the status", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const erinToken = await server.tokenFor(server.fixtures.users.erin);
+
+  const started = await server.request("POST", "/api/subscriptions/start-trial", { token: erinToken });
+  assert.strictEqual(started.status, 200);
+
+  const status = await server.request("GET", "/api/subscriptions/status", { token: erinToken });
+  assert.strictEqual(status.body.subscription.plan, "trial");
+  assert.strictEqual(status.body.usage.dailyImageLimit, null);
+
+  const again = await server.request("POST", "/api/subscriptions/start-trial", { token: erinToken });
+  assert.strictEqual(again.status, 409);
+  assert.strictEqual(again.body.code, "CONFLICT");
+});
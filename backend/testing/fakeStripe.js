@@ -0,0 +1,125 @@
+/**
+ * In-memory stand-in for Stripe and stripe-replit-sync
+ *
+ * installFakeStripe() puts it in place of stripeClient.js before anything
+ * loads that module, so routes and webhook handlers talk to it without
+ * credentials or network. Tests add subscriptions to it, look at the calls
+ * made and build webhook events with stripeEvent().
+ */
+const Module = require("module");
+const path = require("path");
+
+const STRIPE_CLIENT_PATH = path.join(__dirname, "../../stripeClient.js");
+
+function createFakeStripe() {
+  const subscriptions = new Map();
+  const calls = [];
+  const syncedEvents = [];
+  let nextId = 1;
+
+  const record = (method, args) => calls.push({ method, args });
+  const newId = (prefix) => `${prefix}_test_${nextId++}`;
+  const findSubscription = (subscriptionId) => {
+    const subscription = subscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw Object.assign(new Error(`No such subscription: '${subscriptionId}'`), { code: "resource_missing" });
+    }
+    return subscription;
+  };
+
+  const client = {
+    customers: {
+      async create(params) {
+        record("customers.create", params);
+        return { id: newId("cus"), ...params };
+      },
+      async del(customerId) {
+        record("customers.del", customerId);
+        return { id: customerId, deleted: true };
+      },
+    },
+    subscriptions: {
+      async retrieve(subscriptionId) {
+        record("subscriptions.retrieve", subscriptionId);
+        return findSubscription(subscriptionId);
+      },
+      async update(subscriptionId, params) {
+        record("subscriptions.update", { subscriptionId, ...params });
+        return Object.assign(findSubscription(subscriptionId), params);
+      },
+      async cancel(subscriptionId) {
+        record("subscriptions.cancel", subscriptionId);
+        const subscription = findSubscription(subscriptionId);
+        subscription.status = "canceled";
+        return subscription;
+      },
+    },
+    checkout: {
+      sessions: {
+        async create(params) {
+          record("checkout.sessions.create", params);
+          const id = newId("cs");
+          return { id, url: `https://checkout.stripe.test/${id}`, ...params };
+        },
+      },
+    },
+  };
+
+  // stripe-replit-sync checks the signature and mirrors the event; here it only notes it
+  const sync = {
+    async processWebhook(payload) {
+      syncedEvents.push(JSON.parse(payload.toString()).id);
+    },
+  };
+
+  return {
+    client,
+    sync,
+    calls,
+    syncedEvents,
+    /** Make a subscription exist on "Stripe" */
+    addSubscription({ id, customer, status = "active", periodEnd, metadata = {} }) {
+      const end = periodEnd || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+      const subscription = {
+        id,
+        customer,
+        status,
+        current_period_end: Math.floor(end.getTime() / 1000),
+        metadata,
+      };
+      subscriptions.set(id, subscription);
+      return subscription;
+    },
+    callsTo(method) {
+      return calls.filter((call) => call.method === method);
+    },
+    reset() {
+      subscriptions.clear();
+      calls.length = 0;
+      syncedEvents.length = 0;
+    },
+  };
+}
+
+/**
+ * Serve `fake` as stripeClient.js to every later require of it
+ */
+function installFakeStripe(fake) {
+  const stub = new Module(STRIPE_CLIENT_PATH, null);
+  stub.filename = STRIPE_CLIENT_PATH;
+  stub.loaded = true;
+  stub.exports = {
+    getUncachableStripeClient: async () => fake.client,
+    getStripeSync: async () => fake.sync,
+    getStripePublishableKey: async () => "pk_test_fake",
+    getStripeSecretKey: async () => "sk_test_fake",
+  };
+  require.cache[STRIPE_CLIENT_PATH] = stub;
+}
+
+/** A webhook event as Stripe delivers it */
+function stripeEvent(id, type, object) {
+  return { id, type, data: { object } };
+}
+
+module.exports = { createFakeStripe, installFakeStripe, stripeEvent };
@@ -0,0 +1,115 @@
+/**
+ * Integration test harness
+ *
+ * startTestServer() gets a throwaway Postgres (testing/postgres.js),
+ * applies the migrations, seeds the fixtures (testing/seed.js) and serves
+ * the Express app from index.ts on a free local port. The AI provider is
+ * the offline stub and Stripe is the in-memory fake (testing/fakeStripe.js);
+ * mail is only logged. Every JSON answer is checked against the API
+ * document (openapi/) and turned into a 500 when it does not fit.
+ * Resolves null when no Postgres is available, so suites skip.
+ *
+ * The environment is set before the app is loaded and each test file runs
+ * in its own process, so one server per file:
+ *
+ *   before(async () => { server = await startTestServer(); });
+ *   beforeEach(() => server && server.reset());
+ *   after(() => server && server.close());
+ */
+const http = require("http");
+
+const { createTestDatabase } = require("./postgres");
+const { createFakeStripe, installFakeStripe } = require("./fakeStripe");
+
+async function parseBody(response) {
+  const text = await response.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    return text;
+  }
+}
+
+async function startTestServer() {
+  const database = await createTestDatabase();
+  if (!database) return null;
+
+  Object.assign(process.env, {
+    DATABASE_URL: database.url,
+    SESSION_SECRET: "quickfix-test-secret",
+    AI_PROVIDER: "stub",
+    MAIL_TRANSPORT: "local",
+    // Answers outside the API document fail the request, and so the test
+    OPENAPI_RESPONSE_VALIDATION: "strict",
+  });
+
+  const stripe = createFakeStripe();
+  installFakeStripe(stripe);
+
+  // Loaded only now: the app modules read the environment above when first required
+  const { seedFixtures } = require("./seed");
+  const { pool } = require("../db");
+  const { migrate } = require("../migrations");
+  const { createSession } = require("../sessions");
+  const { resetRateLimits } = require("../rateLimit");
+  const { app } = require("..");
+
+  await migrate(pool, { log: () => {} });
+  let fixtures = await seedFixtures(pool);
+
+  const server = http.createServer(app);
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+
+  return {
+    baseUrl,
+    pool,
+    stripe,
+    get fixtures() {
+      return fixtures;
+    },
+
+    /**
+     * Call the API; `body` is sent as JSON unless it is a Buffer
+     * @returns {Promise<{ status: number, body: any, headers: Headers }>}
+     */
+    async request(method, path, { token, body, headers = {} } = {}) {
+      const raw = Buffer.isBuffer(body);
+      const response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(body !== undefined && { "Content-Type": "application/json" }),
+          ...(token && { Authorization: `Bearer ${token}` }),
+          ...headers,
+        },
+        body: body === undefined ? undefined : raw ? body : JSON.stringify(body),
+      });
+      return { status: response.status, body: await parseBody(response), headers: response.headers };
+    },
+
+    /** Access token for a seeded user, without the side effects of signing in */
+    async tokenFor(user) {
+      const { token } = await createSession(user.id, { deviceName: "Test" });
+      return token;
+    },
+
+    /** Empty every table, forget rate limits and seed the fixtures again */
+    async reset() {
+      const tables = await pool.query(
+        "SELECT tablename FROM pg_tables WHERE schemaname = 'public' AND tablename <> 'schema_migrations'"
+      );
+      await pool.query(`TRUNCATE ${tables.rows.map((row) => row.tablename).join(", ")} CASCADE`);
+      stripe.reset();
+      await resetRateLimits();
+      fixtures = await seedFixtures(pool);
+    },
+
+    async close() {
+      await new Promise((resolve) => server.close(resolve));
+      await pool.end();
+      await database.drop();
+    },
+  };
+}
+
+module.exports = { startTestServer };
@@ -0,0 +1,105 @@
+/**
+ * Throwaway Postgres databases for tests
+ *
+ * With TEST_DATABASE_URL set, each call creates a fresh database on that
+ * server and drops it afterwards. Otherwise, when the Postgres binaries
+ * (initdb, pg_ctl) are on PATH, a private server is started in a temp
+ * directory on a free port and deleted afterwards; initdb does not run as
+ * root. Without either there is nothing to test against and callers skip.
+ */
+const crypto = require("crypto");
+const fs = require("fs");
+const net = require("net");
+const os = require("os");
+const path = require("path");
+const { spawnSync } = require("child_process");
+
+const NO_DATABASE = "no Postgres available: set TEST_DATABASE_URL or put initdb and pg_ctl on PATH";
+
+function hasBinary(name) {
+  return spawnSync(name, ["--version"], { stdio: "ignore" }).status === 0;
+}
+
+function run(command, args) {
+  const result = spawnSync(command, args, { encoding: "utf8" });
+  if (result.status !== 0) {
+    throw new Error(`${command} failed: ${result.stderr || (result.error && result.error.message)}`);
+  }
+}
+
+function findFreePort() {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.on("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+async function createOnServer(serverUrl) {
+  const { Pool } = require("pg");
+  const name = `quickfix_test_${crypto.randomBytes(6).toString("hex")}`;
+  const admin = new Pool({ connectionString: serverUrl, max: 1 });
+  await admin.query(`CREATE DATABASE ${name}`);
+
+  const url = new URL(serverUrl);
+  url.pathname = `/${name}`;
+  return {
+    url: url.toString(),
+    async drop() {
+      try {
+        // pool.end() returns before the server has let its sessions go, and
+        // a session killed by FORCE errors in the test process
+        for (let attempt = 0; attempt < 50; attempt++) {
+          const sessions = await admin.query("SELECT 1 FROM pg_stat_activity WHERE datname = $1", [name]);
+          if (sessions.rows.length === 0) break;
+          await new Promise((resolve) => setTimeout(resolve, 20));
+        }
+        await admin.query(`DROP DATABASE IF EXISTS ${name} WITH (FORCE)`);
+      } finally {
+        await admin.end();
+      }
+    },
+  };
+}
+
+async function startTempServer() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "quickfix-pg-"));
+  const dataDir = path.join(dir, "data");
+  const port = await findFreePort();
+  try {
+    run("initdb", ["-D", dataDir, "-U", "postgres", "--auth=trust", "--encoding=UTF8", "--no-sync"]);
+    run("pg_ctl", [
+      "-D", dataDir,
+      "-l", path.join(dir, "server.log"),
+      "-o", `-p ${port} -k ${dir} -c listen_addresses=127.0.0.1 -c fsync=off`,
+      "-w",
+      "start",
+    ]);
+  } catch (error) {
+    fs.rmSync(dir, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    url: `postgres://postgres@127.0.0.1:${port}/postgres`,
+    async drop() {
+      spawnSync("pg_ctl", ["-D", dataDir, "-m", "immediate", "-w", "stop"], { stdio: "ignore" });
+      fs.rmSync(dir, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * An empty database to test against, or null when none can be had
+ * @returns {Promise<{ url: string, drop: () => Promise<void> } | null>}
+ */
+async function createTestDatabase() {
+  if (process.env.TEST_DATABASE_URL) return createOnServer(process.env.TEST_DATABASE_URL);
+  if (hasBinary("initdb") && hasBinary("pg_ctl")) return startTempServer();
+  return null;
+}
+
+module.exports = { createTestDatabase, NO_DATABASE };
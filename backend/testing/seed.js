@@ -0,0 +1,115 @@
+/**
+ * Fixtures for integration tests
+ *
+ *   alice  free plan; posted the community question; has blocked dave
+ *   bob    paid subscription (sub_bob on the fake Stripe); two videos and an answer
+ *   carol  trial with days left; one answer
+ *   dave   trial that has ended, so free again; one video, hidden from alice
+ *   erin   free plan with a Stripe customer (cus_erin) but no subscription yet
+ *
+ * Everyone signs in with PASSWORD and has a verified email.
+ */
+const bcrypt = require("bcryptjs");
+
+const PASSWORD = "password123";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function insertUser(db, passwordHash, { name, ...fields }) {
+  const columns = ["email", "password_hash", "display_name", "email_verified_at", ...Object.keys(fields)];
+  const values = [`${name}@quickfix.test`, passwordHash, name[0].toUpperCase() + name.slice(1), new Date(), ...Object.values(fields)];
+  const result = await db.query(
+    `INSERT INTO users (${columns.join(", ")})
+     VALUES (${values.map((_, index) => `$${index + 1}`).join(", ")})
+     RETURNING *`,
+    values
+  );
+  return { ...result.rows[0], password: PASSWORD };
+}
+
+async function insertVideo(db, authorId, title, category) {
+  const description = `How to: ${title.toLowerCase()}`;
+  const result = await db.query(
+    `INSERT INTO videos (author_id, title, description, category, tags, video_url, duration, search_text)
+     VALUES ($1, $2, $3, $4, $5, $6, 45, to_tsvector('simple', $7))
+     RETURNING *`,
+    [authorId, title, description, category, [category], `https://videos.quickfix.test/${category}.mp4`, `${title} ${description}`]
+  );
+  return result.rows[0];
+}
+
+async function insertAnswer(db, postId, userId, content) {
+  const result = await db.query(
+    "INSERT INTO community_comments (post_id, user_id, content) VALUES ($1, $2, $3) RETURNING *",
+    [postId, userId, content]
+  );
+  await db.query("UPDATE community_posts SET comments_count = comments_count + 1 WHERE id = $1", [postId]);
+  return result.rows[0];
+}
+
+/**
+ * Insert the fixtures into an empty, migrated database
+ */
+async function seedFixtures(db) {
+  const passwordHash = bcrypt.hashSync(PASSWORD, 4);
+  const now = Date.now();
+
+  const bob = await insertUser(db, passwordHash, {
+    name: "bob",
+    subscription_plan: "paid",
+    subscription_status: "active",
+    paid_until: new Date(now + 30 * DAY_MS),
+    stripe_customer_id: "cus_bob",
+    stripe_subscription_id: "sub_bob",
+    premium_xp_granted: true,
+  });
+  const carol = await insertUser(db, passwordHash, {
+    name: "carol",
+    subscription_plan: "trial",
+    subscription_status: "trialing",
+    trial_started_at: new Date(now - 2 * DAY_MS),
+    trial_ends_at: new Date(now + 3 * DAY_MS),
+  });
+  const dave = await insertUser(db, passwordHash, {
+    name: "dave",
+    subscription_plan: "trial",
+    subscription_status: "trialing",
+    trial_started_at: new Date(now - 6 * DAY_MS),
+    trial_ends_at: new Date(now - DAY_MS),
+  });
+  const alice = await insertUser(db, passwordHash, { name: "alice", blocked_user_ids: [dave.id] });
+  const erin = await insertUser(db, passwordHash, { name: "erin", stripe_customer_id: "cus_erin" });
+
+  const videos = {
+    bobKitchen: await insertVideo(db, bob.id, "Unclog a kitchen sink", "kitchen"),
+    bobBathroom: await insertVideo(db, bob.id, "Recaulk a bathtub", "bathroom"),
+    davePlumbing: await insertVideo(db, dave.id, "Fix a running toilet", "plumbing"),
+  };
+
+  const postResult = await db.query(
+    `INSERT INTO community_posts (author_id, title, description, category)
+     VALUES ($1, 'Leaking faucet', 'The kitchen faucet drips all night', 'plumbing')
+     RETURNING *`,
+    [alice.id]
+  );
+  const faucetPost = postResult.rows[0];
+  const answers = {
+    bob: await insertAnswer(db, faucetPost.id, bob.id, "Replace the cartridge"),
+    carol: await insertAnswer(db, faucetPost.id, carol.id, "Tighten the packing nut"),
+  };
+
+  const sessionResult = await db.query(
+    "INSERT INTO liveassist_sessions (user_id, title) VALUES ($1, 'Faucet'), ($2, 'Faucet') RETURNING *",
+    [alice.id, bob.id]
+  );
+  const liveAssistSessions = { alice: sessionResult.rows[0], bob: sessionResult.rows[1] };
+
+  return {
+    users: { alice, bob, carol, dave, erin },
+    videos,
+    posts: { faucet: faucetPost },
+    answers,
+    liveAssistSessions,
+  };
+}
+
+module.exports = { seedFixtures, PASSWORD };
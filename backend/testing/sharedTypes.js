@@ -0,0 +1,53 @@
+/**
+ * Reads the declarations in shared/ for contract tests, so tests can
+ * compare what the server sends and documents with what the app is typed
+ * against. Parsed from the source; nothing is compiled.
+ */
+const fs = require("node:fs");
+const path = require("node:path");
+
+const SHARED_SOURCES = {
+  types: path.join(__dirname, "../../shared/types/index.d.ts"),
+  liveAssistSchema: path.join(__dirname, "../../shared/liveAssistSchema.d.ts"),
+};
+
+/**
+ * { Name: { field: { type, optional } } } for each exported interface,
+ * with inherited fields merged in, plus string-literal type aliases
+ */
+function readTypes(source) {
+  const aliases = {};
+  for (const [, name, type] of source.matchAll(/^export type (\w+) =\s*([^;{]+);/gm)) {
+    aliases[name] = type.trim();
+  }
+
+  const declared = {};
+  for (const [, name, parents, body] of source.matchAll(
+    /^export interface (\w+)(?: extends ([\w, ]+))? \{\n([\s\S]*?)^\}/gm
+  )) {
+    const fields = {};
+    for (const [, field, optional, type] of body.matchAll(/^ {2}(\w+)(\?)?: ([^;]+);/gm)) {
+      fields[field] = { type: type.trim(), optional: optional === "?" };
+    }
+    declared[name] = { parents: parents ? parents.split(",").map((p) => p.trim()) : [], fields };
+  }
+
+  const resolve = (name) => {
+    const { parents, fields } = declared[name];
+    return Object.assign({}, ...parents.map(resolve), fields);
+  };
+  const interfaces = {};
+  Object.keys(declared).forEach((name) => {
+    interfaces[name] = resolve(name);
+  });
+  return { interfaces, aliases };
+}
+
+/**
+ * readTypes() of one of the shared modules: "types" or "liveAssistSchema"
+ */
+function readSharedTypes(module) {
+  return readTypes(fs.readFileSync(SHARED_SOURCES[module], "utf8"));
+}
+
+module.exports = { readTypes, readSharedTypes };
@@ -0,0 +1,136 @@
+/**
+ * Thumbnail generation for uploaded videos
+ *
+ * A background job extracts candidate poster frames with ffmpeg (FFMPEG_PATH,
+ * default "ffmpeg") and stores them next to the video. Uploads still pending
+ * after a restart are queued again on startup. Without ffmpeg uploads are
+ * marked 'unavailable' and publish without a thumbnail.
+ */
+const fs = require("fs");
+const path = require("path");
+const { execFile } = require("child_process");
+const { pool } = require("./db");
+const { getStorage, thumbnailKey, TMP_DIR } = require("./storage");
+const { createJobQueue } = require("./jobQueue");
+
+// Candidate frames, as fractions of the video duration
+const FRAME_POSITIONS = [0.1, 0.3, 0.5, 0.7];
+
+const FFMPEG_TIMEOUT_MS = 30000;
+
+function runFfmpeg(args) {
+  return new Promise((resolve, reject) => {
+    execFile(
+      process.env.FFMPEG_PATH || "ffmpeg",
+      args,
+      { timeout: FFMPEG_TIMEOUT_MS },
+      (error) => (error ? reject(error) : resolve())
+    );
+  });
+}
+
+/**
+ * Extract the candidate frames of one upload and store them.
+ * The default is the largest JPEG: more detail usually means the frame is
+ * not black, blurred or a fade.
+ */
+async function generateThumbnails(upload, baseUrl) {
+  const storage = getStorage();
+  const videoPath = storage.resolveLocalPath(upload.storage_key);
+  const frames = [];
+
+  await fs.promises.mkdir(TMP_DIR, { recursive: true });
+
+  for (const [index, position] of FRAME_POSITIONS.entries()) {
+    const framePath = path.join(TMP_DIR, `${upload.id}-${index}.jpg`);
+    const seconds = (upload.duration * position).toFixed(2);
+    await runFfmpeg([
+      "-y",
+      "-ss", seconds,
+      "-i", videoPath,
+      "-frames:v", "1",
+      "-vf", "scale=640:-2",
+      "-q:v", "3",
+      framePath,
+    ]);
+    const { size } = await fs.promises.stat(framePath);
+    const url = await storage.save(framePath, thumbnailKey(upload.id, index), baseUrl);
+    frames.push({ url, size });
+  }
+
+  const best = frames.reduce((a, b) => (b.size > a.size ? b : a));
+  return { urls: frames.map((f) => f.url), defaultUrl: best.url };
+}
+
+async function processUpload({ uploadId, baseUrl }) {
+  const result = await pool.query(
+    `SELECT id, storage_key, duration FROM video_uploads
+     WHERE id = $1 AND thumbnail_status = 'pending'`,
+    [uploadId]
+  );
+  const upload = result.rows[0];
+  if (!upload || !upload.storage_key) return;
+
+  try {
+    const { urls, defaultUrl } = await generateThumbnails(upload, baseUrl);
+    await pool.query(
+      `UPDATE video_uploads
+       SET thumbnail_urls = $1, thumbnail_url = $2, thumbnail_status = 'ready', updated_at = NOW()
+       WHERE id = $3`,
+      [JSON.stringify(urls), defaultUrl, uploadId]
+    );
+    // Videos published before the job finished get the default cover
+    await pool.query(
+      `UPDATE videos SET thumbnail_url = $1
+       WHERE thumbnail_url IS NULL
+         AND video_url = (SELECT video_url FROM video_uploads WHERE id = $2)`,
+      [defaultUrl, uploadId]
+    );
+    console.log(`[Thumbnails] Generated ${urls.length} frames for upload ${uploadId}`);
+  } catch (error) {
+    const status = error.code === "ENOENT" ? "unavailable" : "failed";
+    console.log(`[Thumbnails] Upload ${uploadId} ${status}:`, error.message);
+    await pool.query(
+      `UPDATE video_uploads SET thumbnail_status = $1, updated_at = NOW() WHERE id = $2`,
+      [status, uploadId]
+    );
+  }
+}
+
+const queue = createJobQueue("Thumbnails", processUpload);
+
+/**
+ * Queue thumbnail generation for a completed upload
+ * @param {string} baseUrl public origin used for the stored frame URLs
+ */
+function queueThumbnails(uploadId, baseUrl) {
+  queue.push({ uploadId, baseUrl });
+}
+
+/**
+ * Re-queue uploads whose thumbnails were pending when the server stopped.
+ * Frames go under the same origin as the video, which the upload route took
+ * from the request; an upload whose video URL does not show it cannot get
+ * thumbnails and is marked 'unavailable'.
+ */
+async function resumeThumbnailJobs() {
+  const result = await pool.query(
+    `SELECT id, video_url, storage_key FROM video_uploads
+     WHERE thumbnail_status = 'pending' AND status IN ('complete', 'published')`
+  );
+  const storage = getStorage();
+  for (const row of result.rows) {
+    const baseUrl = storage.baseUrlOf(row.video_url, row.storage_key);
+    if (baseUrl) {
+      queue.push({ uploadId: row.id, baseUrl });
+      continue;
+    }
+    console.log(`[Thumbnails] Upload ${row.id} unavailable: no public origin in its video URL`);
+    await pool.query(
+      `UPDATE video_uploads SET thumbnail_status = 'unavailable', updated_at = NOW() WHERE id = $1`,
+      [row.id]
+    );
+  }
+}
+
+module.exports = { queueThumbnails, resumeThumbnailJobs };
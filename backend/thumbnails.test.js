@@ -0,0 +1,56 @@
+/**
+ * Integration test: thumbnail jobs pending at startup are picked up again,
+ * against a throwaway database (testing/harness.js). Skipped without
+ * Postgres. Run with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+const { randomUUID } = require("node:crypto");
+
+const { startTestServer } = require("./testing/harness");
+const { NO_DATABASE } = require("./testing/postgres");
+
+let server = null;
+let thumbnails = null;
+
+before(async () => {
+  server = await startTestServer();
+  // Loaded after the harness has pointed the pool at the test database
+  if (server) thumbnails = require("./thumbnails");
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("pending thumbnails resume under the video's origin, or are given up on", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  // An ffmpeg that always fails, so a job that runs ends up 'failed'
+  process.env.FFMPEG_PATH = "/bin/false";
+  t.after(() => delete process.env.FFMPEG_PATH);
+
+  const addUpload = async (id, videoUrl) => {
+    await server.pool.query(
+      `INSERT INTO video_uploads (id, user_id, total_size, received_bytes, status, video_url, storage_key, duration, thumbnail_status)
+       VALUES ($1, $2, 1024, 1024, 'complete', $3, $4, 30, 'pending')`,
+      [id, server.fixtures.users.alice.id, videoUrl, `videos/${id}.mp4`]
+    );
+    return id;
+  };
+  const stored = randomUUID();
+  await addUpload(stored, `https://media.quickfix.test/uploads/videos/${stored}.mp4`);
+  const elsewhere = await addUpload(randomUUID(), "https://cdn.example.test/tap.mp4");
+
+  await thumbnails.resumeThumbnailJobs();
+
+  const statusOf = async (id) =>
+    (await server.pool.query("SELECT thumbnail_status FROM video_uploads WHERE id = $1", [id])).rows[0]
+      .thumbnail_status;
+  assert.strictEqual(await statusOf(elsewhere), "unavailable");
+  let status = "pending";
+  for (let i = 0; i < 40 && status === "pending"; i++) {
+    await sleep(50);
+    status = await statusOf(stored);
+  }
+  assert.strictEqual(status, "failed");
+});
@@ -1,24 +1,9 @@
-const { getStripeSync, getUncachableStripeClient } = require('./stripeClient');
+const { getStripeSync, getUncachableStripeClient } = require('../stripeClient');
 const { pool } = require('./db');
-const { activatePaidSubscription, downgradeToFree, getUserByStripeCustomerId, getUserSubscription } = require('./backend/subscription');
-const { wsManager } = require('./backend/websocket');
+const { activatePaidSubscription, downgradeToFree, getUserByStripeCustomerId, getUserSubscription } = require('./subscription');
+const { wsManager } = require('./websocket');
 
 class WebhookHandlers {
-  // Ensure webhook_events table exists for idempotency and auditing
-  static async ensureWebhookEventsTable() {
-    await pool.query(`
-      CREATE TABLE IF NOT EXISTS webhook_events (
-        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-        event_id VARCHAR(255) UNIQUE NOT NULL,
-        event_type VARCHAR(100) NOT NULL,
-        session_id VARCHAR(255),
-        user_id UUID,
-        payload_summary JSONB,
-        processed_at TIMESTAMP DEFAULT NOW()
-      )
-    `);
-  }
-
   // Fix B: Check if webhook was already processed (idempotency)
   static async isWebhookProcessed(eventId) {
     const result = await pool.query(
@@ -119,9 +104,6 @@ class WebhookHandlers {
 
     // Then handle app-specific logic by parsing the event
     try {
-      // Ensure webhook_events table exists
-      await this.ensureWebhookEventsTable();
-      
       const stripe = await getUncachableStripeClient();
       const event = JSON.parse(payload.toString());
       
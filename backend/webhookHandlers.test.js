@@ -0,0 +1,135 @@
+/**
+ * Integration test: checkout, Stripe webhooks and cancelling, through the
+ * app on a throwaway database with the fake Stripe (testing/harness.js).
+ * Skipped without Postgres. Run with `npm test` in backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("./testing/harness");
+const { NO_DATABASE } = require("./testing/postgres");
+const { stripeEvent } = require("./testing/fakeStripe");
+
+let server = null;
+
+before(async () => {
+  server = await startTestServer();
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+function deliver(event, headers = { "stripe-signature": "t=0,v1=test" }) {
+  return server.request("POST", "/api/stripe/webhook/test", {
+    body: Buffer.from(JSON.stringify(event)),
+    headers,
+  });
+}
+
+async function userRow(userId) {
+  const result = await server.pool.query(
+    "SELECT subscription_plan, stripe_subscription_id, xp, premium_xp_granted FROM users WHERE id = $1",
+    [userId]
+  );
+  return result.rows[0];
+}
+
+test("checkout goes to Stripe with the user's customer and price", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { erin, alice } = server.fixtures.users;
+  process.env.STRIPE_PRICE_ID = "price_test";
+  process.env.APP_URL = "https://app.quickfix.test";
+  t.after(() => {
+    delete process.env.STRIPE_PRICE_ID;
+    delete process.env.APP_URL;
+  });
+
+  const checkout = await server.request("POST", "/api/subscriptions/create-checkout", {
+    token: await server.tokenFor(erin),
+  });
+  assert.strictEqual(checkout.status, 200);
+  assert.ok(checkout.body.url);
+  const [session] = server.stripe.callsTo("checkout.sessions.create");
+  assert.strictEqual(session.args.customer, "cus_erin");
+  assert.strictEqual(session.args.line_items[0].price, "price_test");
+  assert.strictEqual(session.args.success_url, "https://app.quickfix.test?subscription=success");
+
+  // A user without a Stripe customer gets one first
+  await server.request("POST", "/api/subscriptions/create-checkout", { token: await server.tokenFor(alice) });
+  assert.strictEqual(server.stripe.callsTo("customers.create").length, 1);
+  const linked = await server.pool.query("SELECT stripe_customer_id FROM users WHERE id = $1", [alice.id]);
+  assert.ok(linked.rows[0].stripe_customer_id);
+});
+
+test("a completed checkout activates the paid plan and grants the premium XP once", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { erin } = server.fixtures.users;
+  server.stripe.addSubscription({ id: "sub_erin", customer: "cus_erin" });
+  const completed = stripeEvent("evt_checkout_erin", "checkout.session.completed", {
+    id: "cs_erin",
+    mode: "subscription",
+    customer: "cus_erin",
+    subscription: "sub_erin",
+    client_reference_id: erin.id,
+  });
+
+  const first = await deliver(completed);
+  assert.strictEqual(first.status, 200);
+  assert.deepStrictEqual(first.body, { received: true });
+  assert.deepStrictEqual(await userRow(erin.id), {
+    subscription_plan: "paid",
+    stripe_subscription_id: "sub_erin",
+    xp: 250,
+    premium_xp_granted: true,
+  });
+
+  // Stripe retries deliveries; a replay changes nothing
+  const replay = await deliver(completed);
+  assert.strictEqual(replay.status, 200);
+  assert.strictEqual((await userRow(erin.id)).xp, 250);
+  assert.strictEqual(server.stripe.callsTo("subscriptions.retrieve").length, 1);
+  assert.deepStrictEqual(server.stripe.syncedEvents, ["evt_checkout_erin", "evt_checkout_erin"]);
+
+  const recorded = await server.pool.query("SELECT user_id FROM webhook_events WHERE event_id = $1", [
+    "evt_checkout_erin",
+  ]);
+  assert.deepStrictEqual(recorded.rows, [{ user_id: erin.id }]);
+});
+
+test("a deleted subscription downgrades the user to free", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { bob } = server.fixtures.users;
+
+  await deliver(
+    stripeEvent("evt_deleted_bob", "customer.subscription.deleted", { id: "sub_bob", customer: "cus_bob", metadata: {} })
+  );
+  assert.strictEqual((await userRow(bob.id)).subscription_plan, "free");
+});
+
+test("a delivery without a signature is refused", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+
+  const unsigned = await deliver(stripeEvent("evt_unsigned", "customer.subscription.deleted", {}), {});
+  assert.strictEqual(unsigned.status, 400);
+  assert.strictEqual(unsigned.body.code, "VALIDATION_FAILED");
+  assert.deepStrictEqual(server.stripe.syncedEvents, []);
+});
+
+test("cancelling keeps access until the end of the paid period", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { bob } = server.fixtures.users;
+  server.stripe.addSubscription({ id: "sub_bob", customer: "cus_bob" });
+  const bobToken = await server.tokenFor(bob);
+
+  const canceled = await server.request("POST", "/api/subscriptions/cancel", { token: bobToken });
+  assert.strictEqual(canceled.status, 200);
+  assert.strictEqual(new Date(canceled.body.accessUntil).getTime(), new Date(bob.paid_until).getTime());
+  const [update] = server.stripe.callsTo("subscriptions.update");
+  assert.deepStrictEqual(update.args, { subscriptionId: "sub_bob", cancel_at_period_end: true });
+
+  const status = await server.request("GET", "/api/subscriptions/status", { token: bobToken });
+  assert.strictEqual(status.body.subscription.isPremium, true);
+
+  const reactivated = await server.request("POST", "/api/subscriptions/reactivate", { token: bobToken });
+  assert.strictEqual(reactivated.status, 200);
+  assert.strictEqual(server.stripe.callsTo("subscriptions.update")[1].args.cancel_at_period_end, false);
+});
@@ -6,19 +6,23 @@
  */
 
 const WebSocket = require('ws');
-const jwt = require('jsonwebtoken');
 const { pool } = require('./db');
-
-const JWT_SECRET = process.env.SESSION_SECRET || 'quickfix-jwt-secret-key';
+const { checkAccessToken } = require('./auth');
 
 /**
- * Verify JWT token and return decoded payload or null
+ * Whether a refresh session is still signed in; access tokens outlive a
+ * revoke by up to 15 minutes, sockets should not
  */
-function verifyToken(token) {
+async function isAuthSessionActive(authSessionId) {
   try {
-    return jwt.verify(token, JWT_SECRET);
-  } catch (error) {
-    return null;
+    const result = await pool.query(
+      'SELECT id FROM auth_sessions WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()',
+      [authSessionId]
+    );
+    return result.rows.length > 0;
+  } catch (err) {
+    console.log('[WebSocket] Error checking auth session:', err.message);
+    return false;
   }
 }
 
@@ -56,6 +60,7 @@ class WebSocketManager {
       
       ws.isAlive = true;
       ws.userId = null;
+      ws.authSessionId = null;
       ws.sessionId = null;
       
       ws.on('pong', () => {
@@ -111,15 +116,22 @@ class WebSocketManager {
         return;
       }
       
-      const decoded = verifyToken(token);
-      if (!decoded || !decoded.userId) {
-        console.log('[WebSocket] Auth rejected: invalid or expired token');
-        ws.send(JSON.stringify({ type: 'auth.error', error: 'Invalid or expired token' }));
+      // An AUTH_EXPIRED code tells the app to refresh its token and send auth again
+      const checked = checkAccessToken(token);
+      if (checked.code) {
+        console.log('[WebSocket] Auth rejected:', checked.code);
+        ws.send(JSON.stringify({ type: 'auth.error', code: checked.code, error: checked.message }));
+        return;
+      }
+      if (!(await isAuthSessionActive(checked.sessionId))) {
+        console.log('[WebSocket] Auth rejected: session revoked');
+        ws.send(JSON.stringify({ type: 'auth.error', code: 'AUTH_EXPIRED', error: 'Session expired, please sign in again' }));
         return;
       }
       
-      const userId = decoded.userId;
+      const userId = checked.userId;
       ws.userId = userId;
+      ws.authSessionId = checked.sessionId;
       if (!this.userSockets.has(userId)) {
         this.userSockets.set(userId, new Set());
       }
@@ -186,6 +198,21 @@ class WebSocketManager {
     }
   }
 
+  /**
+   * Close the sockets of revoked refresh sessions
+   */
+  disconnectAuthSessions(authSessionIds) {
+    if (!authSessionIds || authSessionIds.length === 0) return;
+    const revoked = new Set(authSessionIds);
+    this.userSockets.forEach((sockets) => {
+      sockets.forEach((ws) => {
+        if (revoked.has(ws.authSessionId) && ws.readyState === WebSocket.OPEN) {
+          ws.close(4001, 'Session revoked');
+        }
+      });
+    });
+  }
+
   /**
    * Emit to all sockets for a specific user
    */
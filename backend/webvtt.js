@@ -0,0 +1,94 @@
+/**
+ * WebVTT caption parsing and formatting
+ * Only the parts captions need: cue timings and text. Styling, regions and
+ * cue settings are dropped.
+ */
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})$/;
+
+// Generous for 60-second videos; keeps stored tracks small
+const MAX_CUES = 500;
+const MAX_CUE_TEXT_LENGTH = 500;
+
+function parseTimestamp(value) {
+  const match = value.trim().match(TIMESTAMP);
+  if (!match) return null;
+  const [, hours = "0", minutes, seconds, millis] = match;
+  return Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(millis) / 1000;
+}
+
+function formatTimestamp(seconds) {
+  const totalMillis = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMillis / 3600000);
+  const minutes = Math.floor((totalMillis % 3600000) / 60000);
+  const secs = Math.floor((totalMillis % 60000) / 1000);
+  const millis = totalMillis % 1000;
+  const pad = (n, width = 2) => String(n).padStart(width, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}.${pad(millis, 3)}`;
+}
+
+/**
+ * Parse a WebVTT document
+ * @returns {{ cues: { start: number, end: number, text: string }[] } | { error: string }}
+ */
+function parseWebVTT(input) {
+  if (typeof input !== "string") return { error: "Captions must be WebVTT text" };
+
+  const blocks = input.replace(/^﻿/, "").replace(/\r\n?/g, "\n").split(/\n{2,}/);
+  if (!/^WEBVTT(\s|$)/.test(blocks[0] || "")) {
+    return { error: "Captions must start with WEBVTT" };
+  }
+
+  const cues = [];
+  for (const block of blocks.slice(1)) {
+    const lines = block.split("\n").filter((line) => line.trim() !== "");
+    if (lines.length === 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) continue;
+
+    // Optional cue identifier line before the timings
+    const timingIndex = lines[0].includes("-->") ? 0 : 1;
+    const timing = lines[timingIndex];
+    if (!timing || !timing.includes("-->")) {
+      return { error: `Invalid cue: "${lines[0]}"` };
+    }
+
+    const [startText, rest] = timing.split("-->");
+    const start = parseTimestamp(startText);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null || end <= start) {
+      return { error: `Invalid cue timing: "${timing}"` };
+    }
+
+    const text = lines
+      .slice(timingIndex + 1)
+      .join("\n")
+      .replace(/<[^>]+>/g, "")
+      .trim();
+    if (!text) continue;
+    if (text.length > MAX_CUE_TEXT_LENGTH) {
+      return { error: "Caption cue text is too long" };
+    }
+    cues.push({ start, end, text });
+  }
+
+  if (cues.length === 0) return { error: "Captions contain no cues" };
+  if (cues.length > MAX_CUES) return { error: `Captions may have at most ${MAX_CUES} cues` };
+
+  cues.sort((a, b) => a.start - b.start);
+  return { cues };
+}
+
+function formatWebVTT(cues) {
+  const body = cues
+    .map((cue) => `${formatTimestamp(cue.start)} --> ${formatTimestamp(cue.end)}\n${cue.text}`)
+    .join("\n\n");
+  return `WEBVTT\n\n${body}\n`;
+}
+
+/**
+ * Plain transcript text, used for search
+ */
+function cuesToTranscript(cues) {
+  return cues.map((cue) => cue.text.replace(/\s+/g, " ")).join(" ");
+}
+
+module.exports = { parseWebVTT, formatWebVTT, cuesToTranscript };
@@ -0,0 +1,67 @@
+/**
+ * Integration test: XP awards and levels against a throwaway database
+ * (testing/harness.js). Skipped without Postgres. Run with `npm test` in
+ * backend/.
+ */
+const { test, before, beforeEach, after } = require("node:test");
+const assert = require("node:assert");
+
+const { startTestServer } = require("./testing/harness");
+const { NO_DATABASE } = require("./testing/postgres");
+
+let server = null;
+let xp = null;
+
+before(async () => {
+  server = await startTestServer();
+  // Loaded after the harness has pointed the pool at the test database
+  if (server) xp = require("./xp");
+});
+beforeEach(() => server && server.reset());
+after(() => server && server.close());
+
+test("levels follow the XP thresholds", () => {
+  const { calculateLevelFromXp } = require("./xp");
+  assert.strictEqual(calculateLevelFromXp(0), 1);
+  assert.strictEqual(calculateLevelFromXp(99), 1);
+  assert.strictEqual(calculateLevelFromXp(100), 2);
+  assert.strictEqual(calculateLevelFromXp(250), 3);
+  assert.strictEqual(calculateLevelFromXp(5000), 5);
+  assert.strictEqual(calculateLevelFromXp(-1), 1);
+});
+
+test("awards add up on the user and raise the level", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { alice } = server.fixtures.users;
+
+  const scan = await xp.awardXp(alice.id, "liveassist_scan");
+  assert.deepStrictEqual(
+    { success: scan.success, xp: scan.xp, level: scan.level, xpAwarded: scan.xpAwarded },
+    { success: true, xp: 10, level: 1, xpAwarded: 10 }
+  );
+
+  const bonus = await xp.awardXpDirect(alice.id, 90, "test");
+  assert.strictEqual(bonus.xp, 100);
+  assert.strictEqual(bonus.level, 2);
+  assert.strictEqual(bonus.leveledUp, true);
+
+  const stored = await server.pool.query("SELECT xp, level FROM users WHERE id = $1", [alice.id]);
+  assert.deepStrictEqual(stored.rows[0], { xp: 100, level: 2 });
+
+  const unknown = await xp.awardXp(alice.id, "not_an_action");
+  assert.strictEqual(unknown.success, false);
+});
+
+test("daily login and comment XP are only awarded once", async (t) => {
+  if (!server) return t.skip(NO_DATABASE);
+  const { users, posts } = server.fixtures;
+
+  assert.strictEqual((await xp.awardDailyLoginXp(users.carol.id)).awarded, true);
+  assert.strictEqual((await xp.awardDailyLoginXp(users.carol.id)).awarded, false);
+
+  assert.strictEqual((await xp.awardCommentXp(users.carol.id, posts.faucet.id)).awarded, true);
+  assert.strictEqual((await xp.awardCommentXp(users.carol.id, posts.faucet.id)).awarded, false);
+
+  const stored = await server.pool.query("SELECT xp FROM users WHERE id = $1", [users.carol.id]);
+  assert.strictEqual(stored.rows[0].xp, 20);
+});
@@ -21,7 +21,7 @@ import * as ImagePicker from "expo-image-picker";
 import { ThemedText } from "@/components/ThemedText";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
-import { api } from "@/utils/api";
+import { api, isStreamCancelled, StreamHandle } from "@/utils/api";
 
 interface ChatMessage {
   id: string;
@@ -45,6 +45,12 @@ export default function AIChatView() {
   const [inputText, setInputText] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [pendingImages, setPendingImages] = useState<{ uri: string; base64: string }[]>([]);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const streamRef = useRef<StreamHandle<{ answer: string }> | null>(null);
+
+  useEffect(() => {
+    return () => streamRef.current?.cancel();
+  }, []);
 
   const generateId = () =>
     `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -131,20 +137,48 @@ export default function AIChatView() {
         content: msg.content,
       }));
 
-      const result = await api.chat({
-        messages: conversationHistory,
-        language,
-        imageBase64: imagesToSend.length > 0 ? imagesToSend[0].base64 : undefined,
-      });
-
-      const assistantMessage: ChatMessage = {
-        id: generateId(),
-        role: "assistant",
-        content: result.answer || t("chat.noResponse"),
-        timestamp: new Date(),
-      };
+      // Render the answer token by token as it streams in
+      const assistantId = generateId();
+      setMessages((prev) => [
+        ...prev,
+        { id: assistantId, role: "assistant", content: "", timestamp: new Date() },
+      ]);
+      setStreamingId(assistantId);
+
+      const handle = api.chatStream(
+        {
+          messages: conversationHistory,
+          language,
+          imageBase64: imagesToSend.length > 0 ? imagesToSend[0].base64 : undefined,
+        },
+        {
+          onDelta: (text) => {
+            setMessages((prev) =>
+              prev.map((m) => (m.id === assistantId ? { ...m, content: m.content + text } : m))
+            );
+          },
+        }
+      );
+      streamRef.current = handle;
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      try {
+        const result = await handle.result;
+        setMessages((prev) =>
+          prev.map((m) =>
+            m.id === assistantId ? { ...m, content: result.answer || t("chat.noResponse") } : m
+          )
+        );
+      } catch (streamError: any) {
+        if (isStreamCancelled(streamError)) {
+          // Keep whatever arrived before the user stopped the reply
+          setMessages((prev) =>
+            prev.filter((m) => m.id !== assistantId || m.content.length > 0)
+          );
+          return;
+        }
+        setMessages((prev) => prev.filter((m) => m.id !== assistantId));
+        throw streamError;
+      }
     } catch (error: any) {
       console.log("[AIChatView] Chat error:", error?.message || error);
 
@@ -156,10 +190,16 @@ export default function AIChatView() {
       };
       setMessages((prev) => [...prev, errorMessage]);
     } finally {
+      streamRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
     }
   };
 
+  const cancelStream = () => {
+    streamRef.current?.cancel();
+  };
+
   const renderMessage = useCallback(
     ({ item }: { item: ChatMessage }) => {
       const isUser = item.role === "user";
@@ -265,7 +305,7 @@ export default function AIChatView() {
         showsVerticalScrollIndicator={false}
       />
 
-      {isLoading ? (
+      {isLoading && !messages.some((m) => m.id === streamingId && m.content.length > 0) ? (
         <View style={[styles.typingIndicator, { backgroundColor: theme.backgroundSecondary }]}>
           <ActivityIndicator size="small" color={theme.link} />
           <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}>
@@ -334,19 +374,33 @@ export default function AIChatView() {
             maxLength={2000}
           />
 
-          <Pressable
-            onPress={sendMessage}
-            disabled={isLoading || (!inputText.trim() && pendingImages.length === 0)}
-            style={({ pressed }) => [
-              styles.sendButton,
-              {
-                backgroundColor: theme.link,
-                opacity: pressed || isLoading || (!inputText.trim() && pendingImages.length === 0) ? 0.5 : 1,
-              },
-            ]}
-          >
-            <Feather name="send" size={18} color="#FFFFFF" />
-          </Pressable>
+          {isLoading ? (
+            <Pressable
+              onPress={cancelStream}
+              accessibilityLabel={t("chat.stopGenerating")}
+              accessibilityRole="button"
+              style={({ pressed }) => [
+                styles.sendButton,
+                { backgroundColor: theme.error, opacity: pressed ? 0.7 : 1 },
+              ]}
+            >
+              <Feather name="square" size={16} color="#FFFFFF" />
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={sendMessage}
+              disabled={!inputText.trim() && pendingImages.length === 0}
+              style={({ pressed }) => [
+                styles.sendButton,
+                {
+                  backgroundColor: theme.link,
+                  opacity: pressed || (!inputText.trim() && pendingImages.length === 0) ? 0.5 : 1,
+                },
+              ]}
+            >
+              <Feather name="send" size={18} color="#FFFFFF" />
+            </Pressable>
+          )}
         </View>
       </View>
     </KeyboardAvoidingView>
@@ -2,6 +2,7 @@ import React from "react";
 import { View, StyleSheet, Image } from "react-native";
 
 import { ThemedText } from "@/components/ThemedText";
+import { SyncIndicator } from "@/components/SyncIndicator";
 import { Spacing } from "@/constants/theme";
 
 interface HeaderTitleProps {
@@ -17,6 +18,7 @@ export function HeaderTitle({ title }: HeaderTitleProps) {
         resizeMode="contain"
       />
       <ThemedText style={styles.title}>{title}</ThemedText>
+      <SyncIndicator />
     </View>
   );
 }
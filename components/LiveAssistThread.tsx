@@ -18,9 +18,12 @@ import * as ImagePicker from "expo-image-picker";
 import { ThemedText } from "@/components/ThemedText";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
 import { useWebSocket } from "@/contexts/WebSocketContext";
 import {
   api,
+  isStreamCancelled,
+  StreamHandle,
   LiveAssistSessionMessage,
   LiveAssistSessionStep,
   LiveAssistYouTubeLink,
@@ -41,7 +44,7 @@ interface ThreadMessage {
 interface LiveAssistThreadProps {
   sessionId: string;
   language: string;
-  onError?: (error: string) => void;
+  onError?: (error: unknown) => void;
 }
 
 export default function LiveAssistThread({
@@ -50,6 +53,7 @@ export default function LiveAssistThread({
   onError,
 }: LiveAssistThreadProps) {
   const { theme, isDark } = useTheme();
+  const { isAuthenticated } = useAuth();
   const { subscribeToSession, unsubscribeFromSession, onMessage } = useWebSocket();
   const [messages, setMessages] = useState<ThreadMessage[]>([]);
   const [inputText, setInputText] = useState("");
@@ -60,6 +64,12 @@ export default function LiveAssistThread({
   const [expandedSteps, setExpandedSteps] = useState<Set<string>>(new Set());
   const flatListRef = useRef<FlatList>(null);
   const messagesLoadedRef = useRef(false);
+  const streamRef = useRef<StreamHandle<LiveAssistSessionMessage> | null>(null);
+
+  // Stop any in-flight reply when the thread unmounts
+  useEffect(() => {
+    return () => streamRef.current?.cancel();
+  }, []);
 
   // Fix 2: Subscribe to WebSocket session and handle message.updated events
   useEffect(() => {
@@ -125,7 +135,7 @@ export default function LiveAssistThread({
         if (result.messages && result.messages.length > 0) {
           const loadedMessages: ThreadMessage[] = result.messages.map((m, index) => {
             // Fix 1: Preserve actual DB message ID and step done states from meta
-            const meta = m.analysisResult || {};
+            const meta: Partial<LiveAssistSessionMessage> = m.analysisResult || {};
             const steps = meta.steps || [];
             // Restore done states from meta.steps
             steps.forEach((step: any, idx: number) => {
@@ -149,6 +159,13 @@ export default function LiveAssistThread({
           setMessages(loadedMessages);
           console.log("[LiveAssistThread] Loaded", loadedMessages.length, "messages from history");
         }
+        // Restore step progress recorded through the legacy session endpoint
+        const legacyDone = Object.entries(result.stepProgress || {})
+          .filter(([, done]) => done)
+          .map(([stepKey]) => stepKey);
+        if (legacyDone.length > 0) {
+          setCompletedSteps(prev => new Set([...prev, ...legacyDone]));
+        }
       } catch (err) {
         console.log("[LiveAssistThread] Failed to load messages:", err);
       } finally {
@@ -158,6 +175,46 @@ export default function LiveAssistThread({
     loadMessages();
   }, [sessionId]);
 
+  // Update local message steps from a PATCH response
+  const applyServerSteps = (message: { id: string; meta?: { steps?: any[] } }) => {
+    if (!message.meta?.steps) return;
+    const updatedSteps: LiveAssistSessionStep[] = message.meta.steps.map((s, idx) => ({
+      id: s.id || `step-${idx}`,
+      text: s.text,
+      detail: s.detail || "",
+      tools: s.tools || [],
+      done: s.done,
+    }));
+    setMessages(prev => prev.map(m =>
+      m.id === message.id
+        ? { ...m, steps: updatedSteps }
+        : m
+    ));
+  };
+
+  // Settle step changes the outbox replayed: take the server's steps, or
+  // undo the change if the server refused it
+  useEffect(() => {
+    return api.onOutboxReplay((event) => {
+      const { entry } = event;
+      if (entry.kind !== "liveassist.step") return;
+      if (event.type === "replayed") {
+        applyServerSteps(event.data);
+        return;
+      }
+      const wanted = entry.body.done ?? entry.body.completed;
+      setCompletedSteps(prev => {
+        const next = new Set(prev);
+        if (wanted) {
+          next.delete(entry.target);
+        } else {
+          next.add(entry.target);
+        }
+        return next;
+      });
+    });
+  }, []);
+
   // Fix 1: Toggle step with PATCH endpoint for persistent messages
   const toggleStepComplete = async (stepId: string, messageId?: string, stepIndex?: number) => {
     const newCompleted = new Set(completedSteps);
@@ -172,27 +229,18 @@ export default function LiveAssistThread({
     setCompletedSteps(newCompleted);
 
     try {
-      // If we have a messageId and stepIndex, use the new PATCH endpoint for DB persistence
-      if (messageId && typeof stepIndex === 'number' && !messageId.startsWith('temp-')) {
-        const result = await api.toggleMessageStep(messageId, stepIndex);
-        console.log("[LiveAssistThread] Step toggled via PATCH:", result);
-        // Update local message steps with the response
-        if (result.meta?.steps) {
-          const updatedSteps: LiveAssistSessionStep[] = result.meta.steps.map((s, idx) => ({
-            id: s.id || `step-${idx}`,
-            text: s.text,
-            detail: s.detail || "",
-            tools: s.tools || [],
-            done: s.done,
-          }));
-          setMessages(prev => prev.map(m => 
-            m.id === messageId 
-              ? { ...m, steps: updatedSteps }
-              : m
-          ));
+      // Signed in with a messageId and stepIndex: use the new PATCH endpoint for DB persistence
+      if (isAuthenticated && messageId && typeof stepIndex === 'number' && !messageId.startsWith('temp-')) {
+        const result = await api.toggleMessageStep(messageId, stepIndex, !isCompleted, stepId);
+        if (result.queued) {
+          // Offline: the outbox sends it later, keep the optimistic state
+          console.log("[LiveAssistThread] Step change queued:", stepId);
+        } else {
+          console.log("[LiveAssistThread] Step toggled via PATCH:", result.data);
+          applyServerSteps(result.data);
         }
       } else {
-        // Fallback to legacy endpoint for in-memory sessions
+        // Fallback to legacy endpoint for guest sessions and unsaved messages
         await api.updateLiveAssistStepProgress(sessionId, stepId, !isCompleted);
       }
     } catch (e) {
@@ -287,15 +335,40 @@ export default function LiveAssistThread({
     setPendingImages([]);
     setIsLoading(true);
 
-    try {
-      const response = await api.sendLiveAssistMessage(sessionId, {
+    // Placeholder that fills in as text and structured fields stream in
+    const streamingId = `streaming-${Date.now()}`;
+    setMessages((prev) => [
+      ...prev,
+      { id: streamingId, role: "assistant", text: "", timestamp: Date.now() },
+    ]);
+
+    const updateStreaming = (update: (msg: ThreadMessage) => ThreadMessage) => {
+      setMessages((prev) => prev.map((msg) => (msg.id === streamingId ? update(msg) : msg)));
+    };
+
+    const handle = api.sendLiveAssistMessageStream(
+      sessionId,
+      {
         text: userMessage.text,
         images: userMessage.images,
         language,
-      });
+      },
+      {
+        onDelta: (text) => updateStreaming((msg) => ({ ...msg, text: msg.text + text })),
+        onField: (name, value) => {
+          if (name === "steps" || name === "youtube_links" || name === "safety_warnings") {
+            updateStreaming((msg) => ({ ...msg, [name]: value }));
+          }
+        },
+      }
+    );
+    streamRef.current = handle;
+
+    try {
+      const response = await handle.result;
 
       const assistantMessage: ThreadMessage = {
-        id: `assistant-${Date.now()}`,
+        id: response.id || `assistant-${Date.now()}`,
         role: "assistant",
         text: response.text,
         steps: response.steps,
@@ -304,19 +377,27 @@ export default function LiveAssistThread({
         timestamp: Date.now(),
       };
 
-      setMessages((prev) => [...prev, assistantMessage]);
+      setMessages((prev) => prev.map((msg) => (msg.id === streamingId ? assistantMessage : msg)));
       
       setTimeout(() => {
         flatListRef.current?.scrollToEnd({ animated: true });
       }, 100);
     } catch (error: any) {
+      // The server does not save a cancelled reply, so drop the partial one
+      setMessages((prev) => prev.filter((msg) => msg.id !== streamingId));
+      if (isStreamCancelled(error)) return;
       console.error("[LiveAssistThread] Error:", error);
-      onError?.(error?.message || "Failed to get response");
+      onError?.(error);
     } finally {
+      streamRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    streamRef.current?.cancel();
+  };
+
   const openYouTubeLink = (url: string) => {
     Linking.openURL(url).catch((err) =>
       console.error("[LiveAssistThread] Failed to open URL:", err)
@@ -620,20 +701,30 @@ export default function LiveAssistThread({
             multiline
             maxLength={1000}
           />
-          <Pressable
-            onPress={handleSend}
-            disabled={isLoading || (!inputText.trim() && pendingImages.length === 0)}
-            style={[
-              styles.sendButton,
-              {
-                backgroundColor:
-                  inputText.trim() || pendingImages.length > 0 ? theme.link : theme.border,
-                opacity: isLoading ? 0.5 : 1,
-              },
-            ]}
-          >
-            <Feather name="send" size={20} color="#FFFFFF" />
-          </Pressable>
+          {isLoading ? (
+            <Pressable
+              onPress={handleCancel}
+              accessibilityLabel="Stop response"
+              accessibilityRole="button"
+              style={[styles.sendButton, { backgroundColor: theme.error }]}
+            >
+              <Feather name="square" size={18} color="#FFFFFF" />
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={handleSend}
+              disabled={!inputText.trim() && pendingImages.length === 0}
+              style={[
+                styles.sendButton,
+                {
+                  backgroundColor:
+                    inputText.trim() || pendingImages.length > 0 ? theme.link : theme.border,
+                },
+              ]}
+            >
+              <Feather name="send" size={20} color="#FFFFFF" />
+            </Pressable>
+          )}
         </View>
       </View>
     </KeyboardAvoidingView>
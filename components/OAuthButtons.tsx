@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { View, StyleSheet, TextInput, ActivityIndicator, Alert } from "react-native";
+import { useTranslation } from "react-i18next";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
+import { OAuthCredential, useOAuthSignIn } from "@/hooks/useOAuthSignIn";
+import { OAuthProvider } from "@/utils/api";
+
+const PROVIDER_BUTTONS: Record<OAuthProvider, { icon: string; labelKey: string }> = {
+  google: { icon: "mail", labelKey: "auth.continueWithGoogle" },
+  apple: { icon: "smartphone", labelKey: "auth.continueWithApple" },
+};
+
+/**
+ * "Continue with Apple / Google" for the sign-in and sign-up screens.
+ * When the provider's email already has an account, asks for that
+ * account's password and links the two.
+ */
+export function OAuthButtons() {
+  const { t } = useTranslation();
+  const { theme, isDark } = useTheme();
+  const { loginWithProvider } = useAuth();
+  const { providers, getCredential } = useOAuthSignIn();
+
+  const [busyProvider, setBusyProvider] = useState<OAuthProvider | null>(null);
+  const [pendingLink, setPendingLink] = useState<{
+    provider: OAuthProvider;
+    credential: OAuthCredential;
+    email: string;
+  } | null>(null);
+  const [password, setPassword] = useState("");
+
+  if (providers.length === 0) return null;
+
+  const handleProvider = async (provider: OAuthProvider) => {
+    setBusyProvider(provider);
+    try {
+      const credential = await getCredential(provider);
+      if (!credential) return;
+
+      const result = await loginWithProvider(provider, credential);
+      if (result.linkEmail) {
+        setPendingLink({ provider, credential, email: result.linkEmail });
+      } else if (!result.success) {
+        Alert.alert(t("common.error"), result.error || t("errors.somethingWentWrong"));
+      }
+    } catch {
+      Alert.alert(t("common.error"), t("errors.somethingWentWrong"));
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  const handleLink = async () => {
+    if (!pendingLink) return;
+    if (!password) {
+      Alert.alert(t("common.error"), t("auth.passwordRequired"));
+      return;
+    }
+
+    setBusyProvider(pendingLink.provider);
+    try {
+      const result = await loginWithProvider(pendingLink.provider, pendingLink.credential, password);
+      if (!result.success) {
+        Alert.alert(t("common.error"), result.error || t("auth.invalidCredentials"));
+      }
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  if (pendingLink) {
+    return (
+      <View style={styles.container}>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          {t("auth.linkAccountPrompt", {
+            email: pendingLink.email,
+            provider: pendingLink.provider === "apple" ? "Apple" : "Google",
+          })}
+        </ThemedText>
+        <TextInput
+          style={[
+            styles.input,
+            { backgroundColor: theme.backgroundDefault, borderColor: theme.border, color: theme.text },
+          ]}
+          value={password}
+          onChangeText={setPassword}
+          placeholder={t("auth.password")}
+          placeholderTextColor={isDark ? Colors.dark.placeholder : Colors.light.placeholder}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Button onPress={handleLink} disabled={busyProvider !== null} style={styles.button}>
+          {busyProvider ? <ActivityIndicator color={theme.buttonText} /> : t("auth.linkAndSignIn")}
+        </Button>
+        <Button
+          onPress={() => {
+            setPendingLink(null);
+            setPassword("");
+          }}
+          style={[styles.button, { backgroundColor: theme.backgroundDefault }]}
+        >
+          <ThemedText style={styles.buttonText}>{t("common.cancel")}</ThemedText>
+        </Button>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {providers.map((provider) => (
+        <Button
+          key={provider}
+          onPress={() => handleProvider(provider)}
+          disabled={busyProvider !== null}
+          style={[styles.button, styles.socialButton, { backgroundColor: theme.backgroundDefault }]}
+        >
+          {busyProvider === provider ? (
+            <ActivityIndicator color={theme.text} />
+          ) : (
+            <>
+              <Feather
+                name={PROVIDER_BUTTONS[provider].icon as any}
+                size={20}
+                color={theme.text}
+                style={styles.socialIcon}
+              />
+              <ThemedText style={styles.buttonText}>{t(PROVIDER_BUTTONS[provider].labelKey)}</ThemedText>
+            </>
+          )}
+        </Button>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing.lg,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  button: {
+    borderRadius: BorderRadius.sm,
+  },
+  socialButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  socialIcon: {
+    marginRight: Spacing.sm,
+  },
+  buttonText: {
+    fontWeight: "500",
+  },
+});
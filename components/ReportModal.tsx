@@ -16,7 +16,8 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { ThemedText } from "@/components/ThemedText";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
-import { api } from "@/utils/api";
+import { api, isApiError } from "@/utils/api";
+import { describeError } from "@/utils/errors";
 
 export type ReportContentType = "video" | "profile" | "comment";
 
@@ -86,7 +87,11 @@ export default function ReportModal({
       });
       setIsSuccess(true);
     } catch (err: any) {
-      setError(err.message || t("report.errorSubmitting"));
+      setError(
+        isApiError(err, "CONFLICT")
+          ? t("report.alreadyReported")
+          : describeError(t, err, "report.errorSubmitting"),
+      );
     } finally {
       setIsSubmitting(false);
     }
@@ -0,0 +1,51 @@
+import React from "react";
+import { Pressable, StyleSheet } from "react-native";
+import { useTranslation } from "react-i18next";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { usePendingSync } from "@/hooks/usePendingSync";
+import { api } from "@/utils/api";
+
+/**
+ * Header badge for offline changes waiting to sync; tapping retries now
+ */
+export function SyncIndicator() {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const pending = usePendingSync();
+
+  if (pending === 0) return null;
+
+  return (
+    <Pressable
+      onPress={() => api.flushOutbox()}
+      hitSlop={8}
+      accessibilityRole="button"
+      accessibilityLabel={t("sync.pending", { count: pending })}
+      style={[styles.container, { backgroundColor: theme.backgroundSecondary }]}
+    >
+      <Feather name="upload-cloud" size={14} color={theme.textSecondary} />
+      <ThemedText type="small" style={[styles.count, { color: theme.textSecondary }]}>
+        {pending}
+      </ThemedText>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginLeft: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
+  count: {
+    marginLeft: 4,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet } from "react-native";
+import { useTranslation } from "react-i18next";
+
+import { ThemedText } from "./ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { api, CaptionCue, VideoCaptions, VideoCaptionTrackList } from "@/utils/api";
+
+/**
+ * Caption cues for a video in the app language, falling back to the
+ * original track. Cues are only fetched once captions are turned on.
+ */
+export function useVideoCaptions(videoId: string, enabled: boolean) {
+  const { i18n } = useTranslation();
+  const [trackList, setTrackList] = useState<VideoCaptionTrackList | null>(null);
+  const [captions, setCaptions] = useState<VideoCaptions | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .getVideoCaptionTracks(videoId)
+      .then((list) => {
+        if (!cancelled) setTrackList(list);
+      })
+      .catch(() => {
+        // Sample and local videos have no server-side captions
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId]);
+
+  useEffect(() => {
+    if (!enabled || !trackList || trackList.tracks.length === 0) return;
+    const language = trackList.languages.includes(i18n.language)
+      ? i18n.language
+      : trackList.tracks[0].language;
+    if (captions?.language === language) return;
+
+    let cancelled = false;
+    api
+      .getVideoCaptions(videoId, language)
+      .then((track) => {
+        if (!cancelled) setCaptions(track);
+      })
+      .catch((error: any) => {
+        console.log("[Captions] Failed to load:", error?.message || error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [videoId, enabled, trackList, i18n.language]);
+
+  return { available: (trackList?.tracks.length ?? 0) > 0, captions };
+}
+
+export function getActiveCue(cues: CaptionCue[], time: number): CaptionCue | null {
+  return cues.find((cue) => time >= cue.start && time < cue.end) || null;
+}
+
+interface CaptionOverlayProps {
+  cue: CaptionCue | null;
+  bottom: number;
+}
+
+export function CaptionOverlay({ cue, bottom }: CaptionOverlayProps) {
+  if (!cue) return null;
+  return (
+    <View pointerEvents="none" style={[styles.container, { bottom }]}>
+      <ThemedText type="body" style={styles.text}>
+        {cue.text}
+      </ThemedText>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    left: Spacing.xl,
+    right: Spacing.xl,
+    alignItems: "center",
+    zIndex: 5,
+  },
+  text: {
+    color: "#FFFFFF",
+    textAlign: "center",
+    backgroundColor: "rgba(0,0,0,0.7)",
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.xs,
+    overflow: "hidden",
+  },
+});
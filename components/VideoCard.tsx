@@ -1,5 +1,5 @@
 import React from "react";
-import { View, StyleSheet, Pressable } from "react-native";
+import { View, StyleSheet, Pressable, Image } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useTranslation } from "react-i18next";
@@ -12,6 +12,7 @@ import { useTheme } from "@/hooks/useTheme";
 import { Video } from "@/utils/api";
 import { RootStackParamList } from "@/navigation/RootNavigator";
 import { getCategoryByKey } from "@/constants/categories";
+import { describeReason } from "@/utils/recommendations";
 
 type VideoCardNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -87,13 +88,17 @@ export function VideoCard({
     >
       <View style={styles.thumbnailContainer}>
         <View style={[styles.thumbnail, { backgroundColor: theme.backgroundSecondary }]}>
-          <LinearGradient
-            colors={isDark 
-              ? ['rgba(10,132,255,0.15)', 'rgba(10,132,255,0.05)']
-              : ['rgba(0,102,255,0.1)', 'rgba(0,102,255,0.03)']
-            }
-            style={styles.thumbnailGradient}
-          />
+          {video.thumbnailUrl ? (
+            <Image source={{ uri: video.thumbnailUrl }} style={styles.thumbnailImage} resizeMode="cover" />
+          ) : (
+            <LinearGradient
+              colors={isDark 
+                ? ['rgba(10,132,255,0.15)', 'rgba(10,132,255,0.05)']
+                : ['rgba(0,102,255,0.1)', 'rgba(0,102,255,0.03)']
+              }
+              style={styles.thumbnailGradient}
+            />
+          )}
           <View style={styles.playIconContainer}>
             <View style={[
               styles.playIcon, 
@@ -111,6 +116,14 @@ export function VideoCard({
       </View>
 
       <View style={styles.content}>
+        {video.reason ? (
+          <View style={styles.reasonRow}>
+            <Feather name="zap" size={11} color={theme.link} />
+            <ThemedText type="caption" numberOfLines={1} style={[styles.reasonText, { color: theme.link }]}>
+              {describeReason(t, video.reason)}
+            </ThemedText>
+          </View>
+        ) : null}
         <ThemedText type="h4" numberOfLines={2} style={styles.title}>
           {video.title}
         </ThemedText>
@@ -235,6 +248,9 @@ const styles = StyleSheet.create({
   thumbnailGradient: {
     ...StyleSheet.absoluteFillObject,
   },
+  thumbnailImage: {
+    ...StyleSheet.absoluteFillObject,
+  },
   playIconContainer: {
     justifyContent: "center",
     alignItems: "center",
@@ -263,6 +279,15 @@ const styles = StyleSheet.create({
     padding: Spacing.lg,
     paddingTop: Spacing.md,
   },
+  reasonRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  reasonText: {
+    marginLeft: Spacing.xs,
+    flexShrink: 1,
+  },
   title: {
     marginBottom: Spacing.sm,
     lineHeight: 22,
@@ -0,0 +1,311 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, ScrollView, LayoutChangeEvent } from "react-native";
+import { useTranslation } from "react-i18next";
+import { Feather } from "@expo/vector-icons";
+import { useEvent } from "expo";
+import { VideoPlayer } from "expo-video";
+
+import { ThemedText } from "./ThemedText";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { VideoChapter } from "@/utils/api";
+import { formatTimestamp, getActiveChapterIndex } from "@/utils/chapters";
+
+/**
+ * Playback position, the current chapter and which chapters the viewer has
+ * checked off. Tapping a chapter seeks; completion works like LiveAssist steps.
+ */
+export function useChapterPlayback(player: VideoPlayer, chapters: VideoChapter[]) {
+  const [completedSteps, setCompletedSteps] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    player.timeUpdateEventInterval = 0.25;
+  }, [player]);
+
+  const { currentTime } = useEvent(player, "timeUpdate", {
+    currentTime: player.currentTime,
+    currentLiveTimestamp: null,
+    currentOffsetFromLive: null,
+    bufferedPosition: 0,
+  });
+
+  const seekTo = (seconds: number) => {
+    player.currentTime = seconds;
+    player.play();
+  };
+
+  const toggleStepComplete = (index: number) => {
+    setCompletedSteps((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) {
+        next.delete(index);
+      } else {
+        next.add(index);
+      }
+      return next;
+    });
+  };
+
+  return {
+    currentTime,
+    activeIndex: getActiveChapterIndex(chapters, currentTime),
+    completedSteps,
+    seekTo,
+    toggleStepComplete,
+  };
+}
+
+interface ChapterScrubberProps {
+  chapters: VideoChapter[];
+  duration: number;
+  currentTime: number;
+  activeIndex: number;
+  completedSteps: Set<number>;
+  onSeek: (seconds: number) => void;
+}
+
+/**
+ * Progress bar split into chapter segments; completed steps are tinted
+ */
+export function ChapterScrubber({
+  chapters,
+  duration,
+  currentTime,
+  activeIndex,
+  completedSteps,
+  onSeek,
+}: ChapterScrubberProps) {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+  const activeChapter = activeIndex >= 0 ? chapters[activeIndex] : null;
+
+  const handleLayout = (e: LayoutChangeEvent) => setTrackWidth(e.nativeEvent.layout.width);
+
+  const handlePress = (e: any) => {
+    if (trackWidth <= 0 || duration <= 0) return;
+    const ratio = Math.max(0, Math.min(1, e.nativeEvent.locationX / trackWidth));
+    onSeek(ratio * duration);
+  };
+
+  return (
+    <View style={styles.scrubber}>
+      {activeChapter ? (
+        <ThemedText type="caption" style={styles.scrubberLabel} numberOfLines={1}>
+          {t("player.stepOf", { current: activeChapter.stepNumber, total: chapters.length })}
+          {" · "}
+          {activeChapter.text}
+        </ThemedText>
+      ) : null}
+      <Pressable onPress={handlePress} onLayout={handleLayout} hitSlop={12} style={styles.track}>
+        {chapters.map((chapter, index) => {
+          const end = index + 1 < chapters.length ? chapters[index + 1].startTime : duration;
+          return completedSteps.has(index) ? (
+            <View
+              key={chapter.stepNumber}
+              style={[
+                styles.segmentDone,
+                {
+                  backgroundColor: theme.success,
+                  left: `${(chapter.startTime / duration) * 100}%`,
+                  width: `${((end - chapter.startTime) / duration) * 100}%`,
+                },
+              ]}
+            />
+          ) : null;
+        })}
+        <View style={[styles.fill, { backgroundColor: theme.link, width: `${progress * 100}%` }]} />
+        {chapters.map((chapter) =>
+          chapter.startTime > 0 ? (
+            <View
+              key={chapter.stepNumber}
+              style={[styles.marker, { left: `${(chapter.startTime / duration) * 100}%` }]}
+            />
+          ) : null,
+        )}
+      </Pressable>
+    </View>
+  );
+}
+
+interface ChapterListProps {
+  chapters: VideoChapter[];
+  activeIndex: number;
+  completedSteps: Set<number>;
+  onSeek: (seconds: number) => void;
+  onToggleComplete: (index: number) => void;
+  onClose: () => void;
+}
+
+export function ChapterList({
+  chapters,
+  activeIndex,
+  completedSteps,
+  onSeek,
+  onToggleComplete,
+  onClose,
+}: ChapterListProps) {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const allDone = completedSteps.size === chapters.length;
+
+  return (
+    <View style={[styles.panel, { backgroundColor: theme.backgroundRoot }]}>
+      <View style={styles.panelHeader}>
+        <ThemedText type="h4">{t("player.steps")}</ThemedText>
+        {allDone ? (
+          <View style={[styles.allDoneBadge, { backgroundColor: theme.success + "20" }]}>
+            <Feather name="check-circle" size={14} color={theme.success} />
+            <ThemedText type="caption" style={{ color: theme.success, fontWeight: "600" }}>
+              {t("player.allStepsDone")}
+            </ThemedText>
+          </View>
+        ) : null}
+        <Pressable onPress={onClose} hitSlop={12} style={styles.closeButton}>
+          <Feather name="x" size={22} color={theme.text} />
+        </Pressable>
+      </View>
+      <ScrollView contentContainerStyle={styles.panelList}>
+        {chapters.map((chapter, index) => {
+          const isCompleted = completedSteps.has(index);
+          const isActive = index === activeIndex;
+          return (
+            <Pressable
+              key={chapter.stepNumber}
+              onPress={() => onSeek(chapter.startTime)}
+              style={({ pressed }) => [
+                styles.stepRow,
+                isActive && { backgroundColor: theme.backgroundSecondary },
+                isCompleted && { backgroundColor: theme.success + "15" },
+                { opacity: pressed ? 0.7 : 1 },
+              ]}
+            >
+              <Pressable
+                onPress={() => onToggleComplete(index)}
+                hitSlop={8}
+                accessibilityLabel={t("player.markStepDone")}
+                style={[styles.stepNumber, { backgroundColor: isCompleted ? theme.success : theme.link }]}
+              >
+                {isCompleted ? (
+                  <Feather name="check" size={14} color="#FFFFFF" />
+                ) : (
+                  <ThemedText type="caption" style={styles.stepNumberText}>
+                    {chapter.stepNumber}
+                  </ThemedText>
+                )}
+              </Pressable>
+              <ThemedText
+                type="body"
+                style={[styles.stepText, isCompleted && styles.stepTextCompleted]}
+                numberOfLines={2}
+              >
+                {chapter.text}
+              </ThemedText>
+              <ThemedText type="caption" style={{ color: isActive ? theme.link : theme.textSecondary }}>
+                {formatTimestamp(chapter.startTime)}
+              </ThemedText>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrubber: {
+    marginTop: Spacing.md,
+  },
+  scrubberLabel: {
+    color: "#FFFFFF",
+    marginBottom: Spacing.xs,
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: "rgba(255,255,255,0.3)",
+  },
+  fill: {
+    position: "absolute",
+    left: 0,
+    top: 0,
+    bottom: 0,
+    borderRadius: 2,
+  },
+  segmentDone: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    opacity: 0.6,
+  },
+  marker: {
+    position: "absolute",
+    top: -2,
+    width: 2,
+    height: 8,
+    marginLeft: -1,
+    backgroundColor: "#FFFFFF",
+  },
+  panel: {
+    position: "absolute",
+    bottom: 0,
+    left: 0,
+    right: 0,
+    maxHeight: "55%",
+    borderTopLeftRadius: BorderRadius.lg,
+    borderTopRightRadius: BorderRadius.lg,
+    overflow: "hidden",
+    zIndex: 20,
+  },
+  panelHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.1)",
+  },
+  allDoneBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
+  closeButton: {
+    marginLeft: "auto",
+  },
+  panelList: {
+    padding: Spacing.md,
+    paddingBottom: Spacing["2xl"],
+  },
+  stepRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  stepNumber: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  stepNumberText: {
+    color: "#FFFFFF",
+    fontWeight: "600",
+  },
+  stepText: {
+    flex: 1,
+  },
+  stepTextCompleted: {
+    textDecorationLine: "line-through",
+    opacity: 0.6,
+  },
+});
@@ -1,7 +1,7 @@
 import React, { createContext, useContext, useState, useEffect, useRef, ReactNode, useCallback } from "react";
 import { Platform } from "react-native";
 import * as Linking from "expo-linking";
-import { api, User } from "@/utils/api";
+import { api, isApiError, OAuthProvider, User } from "@/utils/api";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { cleanLegacyDemoToken } from "@/src/demoTokenGuard";
 
@@ -14,13 +14,22 @@ interface LoginResult {
   error?: string;
   xpAwarded?: number;
   leveledUp?: boolean;
+  /** Set when an account with this email exists; retry with its password to link */
+  linkEmail?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   isLoading: boolean;
   isAuthenticated: boolean;
+  /** Signed out because the server reported the session as expired */
+  sessionExpired: boolean;
   login: (email: string, password: string) => Promise<LoginResult>;
+  loginWithProvider: (
+    provider: OAuthProvider,
+    credential: { idToken: string; displayName?: string },
+    password?: string
+  ) => Promise<LoginResult>;
   register: (email: string, password: string, displayName: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
   updateProfile: (updates: Partial<User>) => Promise<{ success: boolean; error?: string }>;
@@ -38,6 +47,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [pendingXpNotification, setPendingXpNotification] = useState<{ xpAwarded: number; leveledUp: boolean } | null>(null);
   const [wsConnected, setWsConnected] = useState(false);
+  const [sessionExpired, setSessionExpired] = useState(false);
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   
   const clearPendingXpNotification = () => {
@@ -53,6 +63,17 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     loadUser();
   }, []);
 
+  useEffect(() => {
+    api.onAuthExpired(() => {
+      console.log("[AuthContext] Session expired, signing out");
+      setSessionExpired(true);
+      setUser(null);
+      api.setToken(null);
+      AsyncStorage.removeItem(LOCAL_USER_KEY);
+    });
+    return () => api.onAuthExpired(null);
+  }, []);
+
   // Fix B: Detect ?subscription=success URL and refresh user immediately
   const subscriptionCheckDone = useRef(false);
   useEffect(() => {
@@ -176,7 +197,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       try {
         const userData = await api.getMe();
         setUser(userData);
-      } catch {
+      } catch (error) {
+        if (isApiError(error, "AUTH_EXPIRED")) {
+          await api.setToken(null);
+          await AsyncStorage.removeItem(LOCAL_USER_KEY);
+          setSessionExpired(true);
+          setUser(null);
+          return;
+        }
         const localUserJson = await AsyncStorage.getItem(LOCAL_USER_KEY);
         if (localUserJson) {
           setUser(JSON.parse(localUserJson));
@@ -199,6 +227,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     try {
       const result = await api.login(email, password);
       setUser(result.user);
+      setSessionExpired(false);
       
       if (result.xpAwarded && result.xpAwarded > 0) {
         setPendingXpNotification({
@@ -209,10 +238,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       
       return { 
         success: true,
-        xpAwarded: result.xpAwarded,
-        leveledUp: result.leveledUp,
+        xpAwarded: result.xpAwarded ?? undefined,
+        leveledUp: result.leveledUp ?? undefined,
       };
     } catch (error: any) {
+      // Local accounts are only for when the server cannot be reached
+      if (isApiError(error) && !error.isNetworkError) {
+        return { success: false, error: error.message };
+      }
       try {
         const usersJson = await AsyncStorage.getItem(LOCAL_USERS_KEY);
         const users = usersJson ? JSON.parse(usersJson) : {};
@@ -236,12 +269,42 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const loginWithProvider = async (
+    provider: OAuthProvider,
+    credential: { idToken: string; displayName?: string },
+    password?: string
+  ): Promise<LoginResult> => {
+    try {
+      const result = await api.signInWithProvider(provider, credential, password);
+      setUser(result.user);
+      setSessionExpired(false);
+
+      if (result.xpAwarded && result.xpAwarded > 0) {
+        setPendingXpNotification({
+          xpAwarded: result.xpAwarded,
+          leveledUp: result.leveledUp || false,
+        });
+      }
+
+      return { success: true, xpAwarded: result.xpAwarded ?? undefined, leveledUp: result.leveledUp ?? undefined };
+    } catch (error) {
+      if (isApiError(error, "ACCOUNT_LINK_REQUIRED")) {
+        return { success: false, error: error.message, linkEmail: error.details?.email };
+      }
+      return { success: false, error: isApiError(error) ? error.message : undefined };
+    }
+  };
+
   const register = async (email: string, password: string, displayName: string): Promise<{ success: boolean; error?: string }> => {
     try {
       const result = await api.register(email, password, displayName);
       setUser(result.user);
+      setSessionExpired(false);
       return { success: true };
     } catch (error: any) {
+      if (isApiError(error) && !error.isNetworkError) {
+        return { success: false, error: error.message };
+      }
       try {
         const usersJson = await AsyncStorage.getItem(LOCAL_USERS_KEY);
         const users = usersJson ? JSON.parse(usersJson) : {};
@@ -251,6 +314,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         const newUser: User = {
           id: `local_${Date.now()}`,
           email: email.toLowerCase(),
+          emailVerified: false,
           displayName,
           avatarUrl: undefined,
           bio: undefined,
@@ -347,7 +411,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         user,
         isLoading,
         isAuthenticated: !!user,
+        sessionExpired,
         login,
+        loginWithProvider,
         register,
         logout,
         updateProfile,
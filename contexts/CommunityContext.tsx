@@ -1,6 +1,6 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from "react";
 import { Platform } from "react-native";
-import { api, CommunityPost, CommunityComment, CreatePostData } from "@/utils/api";
+import { api, CommunityPost, CommunityComment, CreatePostData, OutboxEntry } from "@/utils/api";
 import { useAuth } from "./AuthContext";
 
 interface CommunityContextType {
@@ -24,6 +24,43 @@ export function CommunityProvider({ children }: { children: ReactNode }) {
   const [posts, setPosts] = useState<CommunityPost[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
+  const toPendingPost = (entry: OutboxEntry): CommunityPost => ({
+    id: entry.id,
+    title: entry.body.title,
+    description: entry.body.description,
+    category: entry.body.category,
+    imageUrl: entry.body.imageUrl,
+    status: "open",
+    commentsCount: 0,
+    authorId: user?.id ?? "",
+    authorName: user?.displayName ?? "",
+    authorAvatar: user?.avatarUrl,
+    createdAt: entry.createdAt,
+    updatedAt: entry.createdAt,
+    pending: true,
+  });
+
+  const toPendingComment = (entry: OutboxEntry): CommunityComment => ({
+    id: entry.id,
+    content: entry.body.content,
+    isSolution: false,
+    authorId: user?.id ?? "",
+    authorName: user?.displayName ?? "",
+    authorAvatar: user?.avatarUrl,
+    linkedVideoId: entry.body.linkedVideoId,
+    createdAt: entry.createdAt,
+    pending: true,
+  });
+
+  // Posts still waiting in the outbox stay on top until they are sent
+  const withPendingPosts = async (apiPosts: CommunityPost[]): Promise<CommunityPost[]> => {
+    const pending = (await api.getOutbox())
+      .filter((entry) => entry.kind === "community.post")
+      .reverse()
+      .map(toPendingPost);
+    return [...pending, ...apiPosts];
+  };
+
   const loadData = useCallback(async () => {
     const prefix = getLogPrefix();
     console.log(`${prefix} Fetching /api/community...`);
@@ -31,10 +68,10 @@ export function CommunityProvider({ children }: { children: ReactNode }) {
     try {
       const apiPosts = await api.getCommunityPosts();
       console.log(`${prefix} Received ${apiPosts?.length || 0} posts from backend`);
-      setPosts(apiPosts || []);
+      setPosts(await withPendingPosts(apiPosts || []));
     } catch (error: any) {
       console.log(`${prefix} Failed to fetch posts:`, error?.message || error);
-      setPosts([]);
+      setPosts(await withPendingPosts([]));
     } finally {
       setIsLoading(false);
     }
@@ -44,6 +81,27 @@ export function CommunityProvider({ children }: { children: ReactNode }) {
     loadData();
   }, []);
 
+  // Settle optimistic posts, comment counts and statuses once queued
+  // requests reach the server
+  useEffect(() => {
+    return api.onOutboxReplay((event) => {
+      const { entry } = event;
+      if (entry.kind === "community.post") {
+        setPosts(prev =>
+          event.type === "replayed"
+            ? prev.map(p => p.id === entry.id ? event.data : p)
+            : prev.filter(p => p.id !== entry.id)
+        );
+      } else if (entry.kind === "community.comment" && event.type === "rejected") {
+        setPosts(prev => prev.map(p =>
+          p.id === entry.target ? { ...p, commentsCount: Math.max(0, p.commentsCount - 1) } : p
+        ));
+      } else if ((entry.kind === "community.status" || entry.kind === "community.solution") && event.type === "rejected") {
+        refreshPosts();
+      }
+    });
+  }, []);
+
   const refreshPosts = async () => {
     const prefix = getLogPrefix();
     console.log(`${prefix} Refreshing /api/community...`);
@@ -51,10 +109,10 @@ export function CommunityProvider({ children }: { children: ReactNode }) {
     try {
       const apiPosts = await api.getCommunityPosts();
       console.log(`${prefix} Refresh received ${apiPosts?.length || 0} posts from backend`);
-      setPosts(apiPosts || []);
+      setPosts(await withPendingPosts(apiPosts || []));
     } catch (error: any) {
       console.log(`${prefix} Failed to refresh posts:`, error?.message || error);
-      setPosts([]);
+      setPosts(await withPendingPosts([]));
     } finally {
       setIsLoading(false);
     }
@@ -78,8 +136,9 @@ export function CommunityProvider({ children }: { children: ReactNode }) {
     console.log(`${prefix} Creating post via /api/community...`);
     
     try {
-      const newPost = await api.createCommunityPost(data);
-      console.log(`${prefix} Post created successfully:`, newPost.id);
+      const result = await api.createCommunityPost(data);
+      const newPost = result.queued ? toPendingPost(result.entry) : result.data;
+      console.log(`${prefix} Post ${result.queued ? "queued" : "created"}:`, newPost.id);
       setPosts(prev => [newPost, ...prev]);
       return newPost;
     } catch (error: any) {
@@ -103,24 +162,29 @@ export function CommunityProvider({ children }: { children: ReactNode }) {
   const getComments = async (postId: string): Promise<CommunityComment[]> => {
     const prefix = getLogPrefix();
     console.log(`${prefix} Fetching comments for post ${postId}...`);
+    const pending = (await api.getOutbox())
+      .filter((entry) => entry.kind === "community.comment" && entry.target === postId)
+      .map(toPendingComment);
     try {
       const comments = await api.getPostComments(postId);
       console.log(`${prefix} Received ${comments?.length || 0} comments from backend`);
-      return comments;
+      return [...comments, ...pending];
     } catch (error: any) {
       console.log(`${prefix} Failed to fetch comments:`, error?.message || error);
-      return [];
+      return pending;
     }
   };
 
   const addComment = async (postId: string, content: string, linkedVideoId?: string): Promise<CommunityComment | null> => {
-    if (!user) return null;
+    // A post that is not on the server yet cannot take comments
+    if (!user || posts.some(p => p.id === postId && p.pending)) return null;
     const prefix = getLogPrefix();
     console.log(`${prefix} Adding comment to post ${postId}...`);
     
     try {
-      const newComment = await api.addPostComment(postId, content, linkedVideoId);
-      console.log(`${prefix} Comment added successfully:`, newComment.id);
+      const result = await api.addPostComment(postId, content, linkedVideoId);
+      const newComment = result.queued ? toPendingComment(result.entry) : result.data;
+      console.log(`${prefix} Comment ${result.queued ? "queued" : "added"}:`, newComment.id);
       setPosts(prev => prev.map(p => 
         p.id === postId ? { ...p, commentsCount: p.commentsCount + 1 } : p
       ));
@@ -7,7 +7,8 @@ import { useWebSocket } from "./WebSocketContext";
 
 export interface SubscriptionState {
   plan: "free" | "trial" | "paid";
-  status: string;
+  // Stripe's status; null before the first subscription
+  status: string | null;
   isActive: boolean;
   isPremium: boolean;
   trialEndsAt: string | null;
@@ -31,7 +32,7 @@ interface SubscriptionContextType {
   startTrial: () => Promise<{ success: boolean; error?: string }>;
   createCheckout: () => Promise<{ url?: string; error?: string }>;
   cancelSubscription: () => Promise<{ success: boolean; message?: string; error?: string }>;
-  checkImageLimit: () => Promise<{ allowed: boolean; remaining?: number; message?: string }>;
+  checkImageLimit: () => Promise<{ allowed: boolean; remaining?: number | null; message?: string | null }>;
 }
 
 const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined);
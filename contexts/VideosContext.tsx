@@ -1,13 +1,51 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from "react";
-import { api, Video, Comment, CreateVideoData, AIGuide } from "@/utils/api";
+import { api, Video, Comment, CreateVideoData, AIGuide, Page, VideoSource, FeedSection, OutboxEntry } from "@/utils/api";
 import { useAuth } from "./AuthContext";
 import { sampleVideos } from "@/utils/sampleData";
+import { rankLocally, LocalSignals } from "@/utils/recommendations";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
-interface FeedData {
-  recommended: Video[];
-  new: Video[];
-  popular: Video[];
+// First page of each home section, and where each one continues
+interface FeedData extends Record<FeedSection, Video[]> {
+  nextCursors: Record<FeedSection, string | null>;
+}
+
+const NO_CURSORS: Record<FeedSection, string | null> = { recommended: null, new: null, popular: null };
+
+async function fetchFeed(): Promise<FeedData> {
+  const [recommended, recent, popular] = await Promise.all([
+    api.getFeed({ section: "recommended" }),
+    api.getFeed({ section: "new" }),
+    api.getFeed({ section: "popular" }),
+  ]);
+  return {
+    recommended: recommended.items,
+    new: recent.items,
+    popular: popular.items,
+    nextCursors: {
+      recommended: recommended.nextCursor,
+      new: recent.nextCursor,
+      popular: popular.nextCursor,
+    },
+  };
+}
+
+// Offline feed sections built from videos already on the device
+function arrangeLocalFeed(
+  videos: Video[],
+  section: FeedSection,
+  signals: LocalSignals,
+): Video[] {
+  switch (section) {
+    case "recommended":
+      return rankLocally(videos, signals);
+    case "new":
+      return [...videos].sort((a, b) =>
+        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+      );
+    case "popular":
+      return [...videos].sort((a, b) => b.likesCount - a.likesCount);
+  }
 }
 
 interface VideosContextType {
@@ -23,8 +61,7 @@ interface VideosContextType {
   toggleLike: (videoId: string) => Promise<{ liked: boolean; likesCount: number }>;
   getComments: (videoId: string) => Promise<Comment[]>;
   addComment: (videoId: string, text: string) => Promise<Comment | null>;
-  getVideosByAuthor: (authorId: string) => Promise<Video[]>;
-  getSavedVideos: () => Promise<Video[]>;
+  getVideoPage: (source: VideoSource, cursor?: string | null) => Promise<Page<Video>>;
   searchVideos: (query: string, category?: string) => Promise<Video[]>;
   semanticSearch: (query: string, category?: string) => Promise<Video[]>;
   reportVideo: (videoId: string, reason: string, description?: string) => Promise<boolean>;
@@ -36,6 +73,13 @@ interface VideosContextType {
   loadSavedGuides: () => Promise<AIGuide[]>;
 }
 
+// Interactions kept on the device when the API could not be reached
+interface LocalState {
+  savedIds: Set<string>;
+  likedIds: Set<string>;
+  comments: Record<string, Comment[]>;
+}
+
 const VideosContext = createContext<VideosContextType | undefined>(undefined);
 
 const SAVED_VIDEOS_KEY = "quickfix_saved_videos";
@@ -51,18 +95,19 @@ const filterValidVideos = (videos: Video[]): Video[] => {
 export function VideosProvider({ children }: { children: ReactNode }) {
   const { user, isAuthenticated } = useAuth();
   const [videos, setVideos] = useState<Video[]>([]);
-  const [feed, setFeed] = useState<FeedData>({ recommended: [], new: [], popular: [] });
+  const [feed, setFeed] = useState<FeedData>({
+    recommended: [],
+    new: [],
+    popular: [],
+    nextCursors: NO_CURSORS,
+  });
   const [isLoading, setIsLoading] = useState(true);
   const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
   const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
   const [localComments, setLocalComments] = useState<Record<string, Comment[]>>({});
   const [savedGuides, setSavedGuides] = useState<AIGuide[]>([]);
 
-  const loadSavedState = useCallback(async (): Promise<{
-    savedIds: Set<string>;
-    likedIds: Set<string>;
-    comments: Record<string, Comment[]>;
-  }> => {
+  const loadSavedState = useCallback(async (): Promise<LocalState> => {
     try {
       const [savedJson, likedJson, commentsJson] = await Promise.all([
         AsyncStorage.getItem(SAVED_VIDEOS_KEY),
@@ -84,6 +129,43 @@ export function VideosProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  // Hand offline likes, saves and the signed-in user's offline comments to
+  // the server, then forget them locally so they are not sent twice
+  const importLocalActivity = useCallback(async (local: LocalState): Promise<LocalState> => {
+    if (!user) return local;
+    const ownComments = Object.entries(local.comments).flatMap(([videoId, comments]) =>
+      comments
+        .filter((comment) => comment.authorId === user.id)
+        .map((comment) => ({ videoId, content: comment.content, createdAt: comment.createdAt }))
+    );
+    if (local.likedIds.size === 0 && local.savedIds.size === 0 && ownComments.length === 0) {
+      return local;
+    }
+
+    try {
+      await api.importLocalActivity({
+        likedIds: [...local.likedIds],
+        savedIds: [...local.savedIds],
+        comments: ownComments,
+      });
+    } catch (error) {
+      console.log("[VideosContext] Local activity not imported, will retry:", error);
+      return local;
+    }
+
+    const otherComments: Record<string, Comment[]> = {};
+    Object.entries(local.comments).forEach(([videoId, comments]) => {
+      const remaining = comments.filter((comment) => comment.authorId !== user.id);
+      if (remaining.length > 0) otherComments[videoId] = remaining;
+    });
+    await AsyncStorage.multiRemove([LIKED_VIDEOS_KEY, SAVED_VIDEOS_KEY]);
+    await AsyncStorage.setItem(COMMENTS_KEY, JSON.stringify(otherComments));
+    setLikedIds(new Set());
+    setSavedIds(new Set());
+    setLocalComments(otherComments);
+    return { savedIds: new Set(), likedIds: new Set(), comments: otherComments };
+  }, [user?.id]);
+
   const loadSampleData = useCallback((persistedLikedIds: Set<string>, persistedSavedIds: Set<string>) => {
     const validVideos = filterValidVideos(sampleVideos);
     const allVideos = validVideos.map(v => ({
@@ -93,29 +175,29 @@ export function VideosProvider({ children }: { children: ReactNode }) {
     }));
     
     setVideos(allVideos);
-    const sorted = [...allVideos].sort((a, b) => b.likesCount - a.likesCount);
-    const recent = [...allVideos].sort((a, b) => 
-      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
+    const signals = {
+      likedIds: persistedLikedIds,
+      savedIds: persistedSavedIds,
+      expertiseCategories: user?.expertiseCategories,
+    };
     
     setFeed({
-      recommended: sorted.slice(0, 8),
-      new: recent.slice(0, 8),
-      popular: sorted.slice(0, 8),
+      recommended: arrangeLocalFeed(allVideos, "recommended", signals).slice(0, 8),
+      new: arrangeLocalFeed(allVideos, "new", signals).slice(0, 8),
+      popular: arrangeLocalFeed(allVideos, "popular", signals).slice(0, 8),
+      nextCursors: NO_CURSORS,
     });
-  }, []);
+  }, [user?.expertiseCategories]);
 
   const loadData = useCallback(async () => {
-    const { savedIds: persistedSavedIds, likedIds: persistedLikedIds } = await loadSavedState();
+    const { savedIds: persistedSavedIds, likedIds: persistedLikedIds } =
+      await importLocalActivity(await loadSavedState());
     
     try {
-      const [feedData, allVideos] = await Promise.all([
-        api.getFeed(),
-        api.getVideos(),
-      ]);
-      if (feedData && allVideos && allVideos.length > 0) {
+      const feedData = await fetchFeed();
+      if (feedData.new.length > 0) {
         setFeed(feedData);
-        setVideos(allVideos);
+        setVideos(feedData.new);
       } else {
         loadSampleData(persistedLikedIds, persistedSavedIds);
       }
@@ -125,7 +207,8 @@ export function VideosProvider({ children }: { children: ReactNode }) {
     } finally {
       setIsLoading(false);
     }
-  }, [loadSavedState, loadSampleData]);
+    // Recommendations are per viewer, so reload when the signed-in user changes
+  }, [loadSavedState, importLocalActivity, loadSampleData, user?.id]);
 
   useEffect(() => {
     loadData();
@@ -134,8 +217,8 @@ export function VideosProvider({ children }: { children: ReactNode }) {
   const refreshVideos = async () => {
     setIsLoading(true);
     try {
-      const allVideos = await api.getVideos();
-      setVideos(allVideos);
+      const recentPage = await api.getVideos();
+      setVideos(recentPage.items);
     } catch (error) {
       console.log("[VideosContext] Failed to refresh videos:", error);
     } finally {
@@ -146,8 +229,7 @@ export function VideosProvider({ children }: { children: ReactNode }) {
   const refreshFeed = async () => {
     setIsLoading(true);
     try {
-      const feedData = await api.getFeed();
-      setFeed(feedData);
+      setFeed(await fetchFeed());
     } catch (error) {
       console.log("[VideosContext] Failed to refresh feed:", error);
     } finally {
@@ -169,9 +251,8 @@ export function VideosProvider({ children }: { children: ReactNode }) {
         description: videoData.description || "",
         category: videoData.category,
         tags: videoData.tags || [],
-        videoUrl: videoData.videoUrl,
-        thumbnailUrl: undefined,
-        duration: videoData.duration,
+        thumbnailUrl: videoData.thumbnailUrl,
+        duration: 0,
         likesCount: 0,
         commentsEnabled: videoData.commentsEnabled ?? true,
         authorId: user.id,
@@ -201,16 +282,43 @@ export function VideosProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // Settle optimistic likes and saves once queued requests reach the server
+  useEffect(() => {
+    return api.onOutboxReplay((event) => {
+      const { entry } = event;
+      if (entry.kind === "video.like") {
+        setVideos((prev) =>
+          prev.map((v) => {
+            if (v.id !== entry.target) return v;
+            if (event.type === "replayed") {
+              return { ...v, isLiked: event.data.liked, likesCount: event.data.likesCount };
+            }
+            return {
+              ...v,
+              isLiked: !entry.body.liked,
+              likesCount: Math.max(0, v.likesCount + (entry.body.liked ? -1 : 1)),
+            };
+          })
+        );
+      } else if (entry.kind === "video.save" && event.type === "rejected") {
+        setVideos((prev) =>
+          prev.map((v) => (v.id === entry.target ? { ...v, isSaved: !entry.body.saved } : v))
+        );
+      }
+    });
+  }, []);
+
   const toggleSave = async (videoId: string): Promise<boolean> => {
+    const currentVideo = videos.find(v => v.id === videoId);
+    const newSaved = !(currentVideo?.isSaved || savedIds.has(videoId));
     try {
-      const result = await api.saveVideo(videoId);
+      const result = await api.saveVideo(videoId, newSaved);
+      const saved = result.queued ? newSaved : result.data.saved;
       setVideos((prev) =>
-        prev.map((v) => (v.id === videoId ? { ...v, isSaved: result.saved } : v))
+        prev.map((v) => (v.id === videoId ? { ...v, isSaved: saved } : v))
       );
-      return result.saved;
+      return saved;
     } catch (error) {
-      const currentVideo = videos.find(v => v.id === videoId);
-      const newSaved = !currentVideo?.isSaved;
       const newSavedIds = new Set(savedIds);
       if (newSaved) {
         newSavedIds.add(videoId);
@@ -227,22 +335,25 @@ export function VideosProvider({ children }: { children: ReactNode }) {
   };
 
   const toggleLike = async (videoId: string): Promise<{ liked: boolean; likesCount: number }> => {
+    const currentVideo = videos.find(v => v.id === videoId);
+    const wasLiked = currentVideo?.isLiked || likedIds.has(videoId);
+    const newLiked = !wasLiked;
+    const newLikesCount = (currentVideo?.likesCount || 0) + (newLiked ? 1 : -1);
     try {
-      const result = await api.likeVideo(videoId);
+      const result = await api.likeVideo(videoId, newLiked);
+      const state = result.queued
+        ? { liked: newLiked, likesCount: Math.max(0, newLikesCount) }
+        : result.data;
       setVideos((prev) =>
         prev.map((v) =>
           v.id === videoId
-            ? { ...v, isLiked: result.liked, likesCount: result.likesCount }
+            ? { ...v, isLiked: state.liked, likesCount: state.likesCount }
             : v
         )
       );
-      return result;
+      return state;
     } catch (error) {
-      const currentVideo = videos.find(v => v.id === videoId);
-      const wasLiked = currentVideo?.isLiked || likedIds.has(videoId);
-      const newLiked = !wasLiked;
-      const newLikesCount = (currentVideo?.likesCount || 0) + (newLiked ? 1 : -1);
-      
+      // No server session: keep it on the device until sign-in imports it
       const newLikedIds = new Set(likedIds);
       if (newLiked) {
         newLikedIds.add(videoId);
@@ -263,18 +374,34 @@ export function VideosProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const toPendingComment = (entry: OutboxEntry): Comment => ({
+    id: entry.id,
+    content: entry.body.content,
+    authorId: user?.id ?? "",
+    authorName: user?.displayName ?? "",
+    authorAvatar: user?.avatarUrl,
+    createdAt: entry.createdAt,
+    pending: true,
+  });
+
+  // Queued comments come first, newest on top, until the outbox sends them
   const getComments = async (videoId: string): Promise<Comment[]> => {
+    const pending = (await api.getOutbox())
+      .filter((entry) => entry.kind === "video.comment" && entry.target === videoId)
+      .reverse()
+      .map(toPendingComment);
     try {
-      return await api.getComments(videoId);
+      return [...pending, ...(await api.getComments(videoId))];
     } catch (error) {
-      return localComments[videoId] || [];
+      return [...pending, ...(localComments[videoId] || [])];
     }
   };
 
   const addComment = async (videoId: string, text: string): Promise<Comment | null> => {
     if (!user) return null;
     try {
-      return await api.addComment(videoId, text);
+      const result = await api.addComment(videoId, text);
+      return result.queued ? toPendingComment(result.entry) : result.data;
     } catch (error) {
       const newComment: Comment = {
         id: `local_${Date.now()}`,
@@ -294,35 +421,66 @@ export function VideosProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const getVideosByAuthor = async (authorId: string): Promise<Video[]> => {
-    try {
-      return await api.getUserVideos(authorId);
-    } catch (error) {
-      return videos.filter(v => v.authorId === authorId);
+  const matchesSearch = (video: Video, query: string) => {
+    const lowerQuery = query.toLowerCase();
+    return video.title.toLowerCase().includes(lowerQuery) ||
+      (video.description && video.description.toLowerCase().includes(lowerQuery)) ||
+      video.tags.some(t => t.toLowerCase().includes(lowerQuery));
+  };
+
+  // Offline fallback: the whole source filtered from the videos already loaded, as one page
+  const getLocalVideoPage = (source: VideoSource): Page<Video> => {
+    let items: Video[];
+    switch (source.type) {
+      case "user":
+        items = videos.filter(v => v.authorId === source.userId);
+        break;
+      case "saved":
+        items = videos.filter(v => savedIds.has(v.id) || v.isSaved);
+        break;
+      case "feed":
+        items = arrangeLocalFeed(videos, source.section ?? "recommended", {
+          likedIds,
+          savedIds,
+          expertiseCategories: user?.expertiseCategories,
+        });
+        break;
+      case "videos":
+        items = videos.filter(v =>
+          (!source.category || source.category === "all" || v.category === source.category) &&
+          (!source.tag || v.tags.some(t => t.toLowerCase() === source.tag!.toLowerCase())) &&
+          (!source.search || matchesSearch(v, source.search))
+        );
+        if (source.sort === "popular") {
+          items = [...items].sort((a, b) => b.likesCount - a.likesCount);
+        }
+        break;
     }
+    return { items, nextCursor: null };
   };
 
-  const getSavedVideos = async (): Promise<Video[]> => {
+  const getVideoPage = async (source: VideoSource, cursor: string | null = null): Promise<Page<Video>> => {
     try {
-      return await api.getSavedVideos();
+      switch (source.type) {
+        case "user":
+          return await api.getUserVideos(source.userId, { cursor });
+        case "saved":
+          return await api.getSavedVideos(source.folderId, { cursor });
+        case "feed":
+          return await api.getFeed({ section: source.section, cursor });
+        case "videos":
+          return await api.getVideos({ ...source, cursor });
+      }
     } catch (error) {
-      return videos.filter(v => savedIds.has(v.id) || v.isSaved);
+      // A failed follow-up page ends the list instead of repeating the fallback
+      if (cursor) return { items: [], nextCursor: null };
+      return getLocalVideoPage(source);
     }
   };
 
   const searchVideos = async (query: string, category?: string): Promise<Video[]> => {
-    try {
-      return await api.getVideos({ search: query, category });
-    } catch (error) {
-      const lowerQuery = query.toLowerCase();
-      return videos.filter(v => {
-        const matchesQuery = v.title.toLowerCase().includes(lowerQuery) ||
-          (v.description && v.description.toLowerCase().includes(lowerQuery)) ||
-          v.tags.some(t => t.toLowerCase().includes(lowerQuery));
-        const matchesCategory = !category || category === "all" || v.category === category;
-        return matchesQuery && matchesCategory;
-      });
-    }
+    const page = await getVideoPage({ type: "videos", search: query, category });
+    return page.items;
   };
 
   const semanticSearch = async (query: string, category?: string): Promise<Video[]> => {
@@ -448,8 +606,7 @@ export function VideosProvider({ children }: { children: ReactNode }) {
         toggleLike,
         getComments,
         addComment,
-        getVideosByAuthor,
-        getSavedVideos,
+        getVideoPage,
         searchVideos,
         semanticSearch,
         reportVideo,
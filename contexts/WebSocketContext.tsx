@@ -3,11 +3,14 @@
  * Provides real-time communication for:
  * - message.updated: LiveAssist step progress updates  
  * - subscription.updated: Subscription status changes
+ *
+ * The auth handshake renews an expired access token and retries, so the
+ * socket stays signed in for as long as the refresh session lasts.
  */
 
 import React, { createContext, useContext, useEffect, useRef, useState, useCallback } from 'react';
 import { Platform } from 'react-native';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import { api } from '@/utils/api';
 import { useAuth } from './AuthContext';
 
 type WebSocketEventHandler = (data: any) => void;
@@ -63,8 +66,7 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
       const wsUrl = getWebSocketUrl();
       console.log('[WebSocket] Connecting to:', wsUrl);
       
-      // Get auth token from AsyncStorage
-      const authToken = await AsyncStorage.getItem('authToken');
+      const authToken = await api.getToken();
       if (!authToken) {
         console.log('[WebSocket] No auth token found, skipping connection');
         return;
@@ -101,6 +103,18 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
             }
           }
           
+          // The access token ran out or was revoked; renew it and authenticate again.
+          // If the session has ended, refreshSession signs the user out instead.
+          if (data.type === 'auth.error' && data.code === 'AUTH_EXPIRED') {
+            api.refreshSession()
+              .then((token) => {
+                if (token && ws.readyState === WebSocket.OPEN) {
+                  ws.send(JSON.stringify({ type: 'auth', token }));
+                }
+              })
+              .catch((err) => console.log('[WebSocket] Token refresh failed:', err));
+          }
+          
           // Log subscription.updated events specially
           if (data.type === 'subscription.updated') {
             console.log('[WebSocket] *** SUBSCRIPTION.UPDATED EVENT ***');
@@ -127,6 +141,12 @@ export const WebSocketProvider: React.FC<{ children: React.ReactNode }> = ({ chi
         setWebSocketConnected(false);
         wsRef.current = null;
 
+        // This device was signed out from another one; refreshing fails and signs out here too
+        if (event.code === 4001) {
+          api.refreshSession().catch(() => {});
+          return;
+        }
+
         // Reconnect after 5 seconds if we were authenticated
         if (isAuthenticated) {
           reconnectTimeoutRef.current = setTimeout(() => {
@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from "react";
+import { Platform } from "react-native";
+import * as AppleAuthentication from "expo-apple-authentication";
+import * as Google from "expo-auth-session/providers/google";
+import * as WebBrowser from "expo-web-browser";
+
+import { OAuthProvider } from "@/utils/api";
+
+// Closes the Google popup when it redirects back on web
+WebBrowser.maybeCompleteAuthSession();
+
+const GOOGLE_CLIENT_IDS = {
+  iosClientId: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+  androidClientId: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+  webClientId: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID,
+};
+
+const googleClientId =
+  Platform.OS === "ios"
+    ? GOOGLE_CLIENT_IDS.iosClientId
+    : Platform.OS === "android"
+      ? GOOGLE_CLIENT_IDS.androidClientId
+      : GOOGLE_CLIENT_IDS.webClientId;
+
+/** What the backend needs from a provider sign-in */
+export interface OAuthCredential {
+  idToken: string;
+  /** Apple shares the name only once, on the first sign-in */
+  displayName?: string;
+}
+
+/**
+ * Sign in with the provider's own UI and get its ID token. Apple is
+ * offered on iOS only; Google wherever a client id is configured.
+ * `getCredential` resolves null when the user cancels.
+ */
+export function useOAuthSignIn() {
+  const [appleAvailable, setAppleAvailable] = useState(false);
+  const [googleRequest, , promptGoogle] = Google.useIdTokenAuthRequest({
+    ...GOOGLE_CLIENT_IDS,
+    clientId: googleClientId || "unconfigured",
+  });
+
+  useEffect(() => {
+    if (Platform.OS !== "ios") return;
+    AppleAuthentication.isAvailableAsync().then(setAppleAvailable);
+  }, []);
+
+  const providers: OAuthProvider[] = [
+    ...(googleClientId && googleRequest ? (["google"] as const) : []),
+    ...(appleAvailable ? (["apple"] as const) : []),
+  ];
+
+  const getCredential = useCallback(
+    async (provider: OAuthProvider): Promise<OAuthCredential | null> => {
+      if (provider === "google") {
+        const result = await promptGoogle();
+        if (result.type !== "success" || !result.params.id_token) return null;
+        return { idToken: result.params.id_token };
+      }
+
+      try {
+        const result = await AppleAuthentication.signInAsync({
+          requestedScopes: [
+            AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+            AppleAuthentication.AppleAuthenticationScope.EMAIL,
+          ],
+        });
+        if (!result.identityToken) return null;
+        const name = [result.fullName?.givenName, result.fullName?.familyName].filter(Boolean).join(" ");
+        return { idToken: result.identityToken, displayName: name || undefined };
+      } catch (error: any) {
+        if (error?.code === "ERR_REQUEST_CANCELED") return null;
+        throw error;
+      }
+    },
+    [promptGoogle]
+  );
+
+  return { providers, getCredential };
+}
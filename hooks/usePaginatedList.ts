@@ -0,0 +1,135 @@
+import { DependencyList, useCallback, useEffect, useRef, useState } from "react";
+import { NativeScrollEvent, NativeSyntheticEvent } from "react-native";
+
+import { Page } from "@/utils/api";
+
+interface PaginatedListOptions<T> {
+  // Already-loaded first page (e.g. passed through navigation); skips the initial fetch
+  initialItems?: T[];
+  initialCursor?: string | null;
+}
+
+/**
+ * Cursor-paginated list state for infinite scroll. Spread listProps into a
+ * FlatList or ScreenFlatList; the list reloads from the first page whenever
+ * deps change.
+ */
+export function usePaginatedList<T extends { id: string }>(
+  fetchPage: (cursor: string | null) => Promise<Page<T>>,
+  deps: DependencyList,
+  options: PaginatedListOptions<T> = {},
+) {
+  const hasInitialPage = options.initialItems !== undefined;
+  const [items, setItems] = useState<T[]>(options.initialItems ?? []);
+  const [isLoading, setIsLoading] = useState(!hasInitialPage);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(hasInitialPage ? !!options.initialCursor : true);
+
+  const fetchPageRef = useRef(fetchPage);
+  fetchPageRef.current = fetchPage;
+  const cursorRef = useRef<string | null>(options.initialCursor ?? null);
+  // Bumped on every reload so late pages of a previous list are dropped
+  const generationRef = useRef(0);
+  const loadingMoreRef = useRef(false);
+  const skipInitialLoadRef = useRef(hasInitialPage);
+
+  const loadFirstPage = useCallback(async () => {
+    const generation = ++generationRef.current;
+    loadingMoreRef.current = false;
+    try {
+      const page = await fetchPageRef.current(null);
+      if (generation !== generationRef.current) return;
+      cursorRef.current = page.nextCursor;
+      setItems(page.items);
+      setHasMore(page.nextCursor !== null);
+    } catch (error) {
+      console.log("[usePaginatedList] Failed to load page:", error);
+    } finally {
+      if (generation === generationRef.current) {
+        setIsLoading(false);
+        setIsRefreshing(false);
+        setIsLoadingMore(false);
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    if (skipInitialLoadRef.current) {
+      skipInitialLoadRef.current = false;
+      return;
+    }
+    setIsLoading(true);
+    loadFirstPage();
+  }, deps);
+
+  const refresh = useCallback(async () => {
+    setIsRefreshing(true);
+    await loadFirstPage();
+  }, [loadFirstPage]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current || !cursorRef.current) return;
+    const generation = generationRef.current;
+    loadingMoreRef.current = true;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchPageRef.current(cursorRef.current);
+      if (generation !== generationRef.current) return;
+      cursorRef.current = page.nextCursor;
+      setItems((prev) => {
+        // A popular list can reorder between pages; keep the first copy
+        const seen = new Set(prev.map((item) => item.id));
+        return [...prev, ...page.items.filter((item) => !seen.has(item.id))];
+      });
+      setHasMore(page.nextCursor !== null);
+    } catch (error) {
+      console.log("[usePaginatedList] Failed to load more:", error);
+    } finally {
+      if (generation === generationRef.current) {
+        loadingMoreRef.current = false;
+        setIsLoadingMore(false);
+      }
+    }
+  }, []);
+
+  const updateItem = useCallback((id: string, changes: Partial<T>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  return {
+    items,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    refresh,
+    updateItem,
+    removeItem,
+    nextCursor: cursorRef.current,
+    listProps: {
+      data: items,
+      onEndReached: loadMore,
+      onEndReachedThreshold: 0.5,
+      refreshing: isRefreshing,
+      onRefresh: refresh,
+    },
+  };
+}
+
+// How close to the bottom a ScrollView may get before the next page loads
+const END_REACHED_OFFSET = 400;
+
+/**
+ * For paginated grids rendered inside a ScrollView, where FlatList's
+ * onEndReached is not available
+ */
+export function isCloseToEnd({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) {
+  const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+  return layoutMeasurement.height + contentOffset.y >= contentSize.height - END_REACHED_OFFSET;
+}
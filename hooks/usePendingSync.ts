@@ -0,0 +1,14 @@
+import { useEffect, useState } from "react";
+
+import { api } from "@/utils/api";
+
+/**
+ * Number of changes made offline that are still waiting in the outbox
+ */
+export function usePendingSync(): number {
+  const [count, setCount] = useState(0);
+
+  useEffect(() => api.subscribeOutbox((entries) => setCount(entries.length)), []);
+
+  return count;
+}
@@ -0,0 +1,29 @@
+import { useEffect, useRef } from "react";
+import { Platform } from "react-native";
+import * as Linking from "expo-linking";
+
+/**
+ * Calls `onToken` for a quickfix://<path>?token=… link (password reset,
+ * email verification), whether it opened the app or arrived while the app
+ * was running
+ */
+export function useTokenLink(path: string, onToken: (token: string) => void) {
+  const url = Linking.useURL();
+  const handledUrl = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!url || handledUrl.current === url) return;
+
+    const parsed = Linking.parse(url);
+    const token = parsed.queryParams?.token;
+    if ((parsed.path || parsed.hostname) !== path || typeof token !== "string" || !token) return;
+
+    handledUrl.current = url;
+    onToken(token);
+
+    // Keep the single-use token out of the address bar and history
+    if (Platform.OS === "web" && typeof window !== "undefined") {
+      window.history.replaceState({}, document.title, "/");
+    }
+  }, [url, path, onToken]);
+}
@@ -1,18 +1,22 @@
 import React from "react";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
+import { useTranslation } from "react-i18next";
 
 import LiveAssistScreen from "@/screens/LiveAssistScreen";
+import LiveAssistSessionsScreen from "@/screens/LiveAssistSessionsScreen";
 import { useTheme } from "@/hooks/useTheme";
 import { getCommonScreenOptions } from "./screenOptions";
 
 export type LiveAssistStackParamList = {
-  LiveAssist: undefined;
+  LiveAssist: { resumeSessionId?: string; deletedSessionId?: string } | undefined;
+  LiveAssistSessions: undefined;
 };
 
 const Stack = createNativeStackNavigator<LiveAssistStackParamList>();
 
 export default function LiveAssistStackNavigator() {
   const { theme, isDark } = useTheme();
+  const { t } = useTranslation();
 
   return (
     <Stack.Navigator
@@ -27,6 +31,13 @@ export default function LiveAssistStackNavigator() {
           headerShown: false,
         }}
       />
+      <Stack.Screen
+        name="LiveAssistSessions"
+        component={LiveAssistSessionsScreen}
+        options={{
+          title: t("liveAssist.history"),
+        }}
+      />
     </Stack.Navigator>
   );
 }
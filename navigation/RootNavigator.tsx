@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useCallback } from "react";
+import { createNavigationContainerRef } from "@react-navigation/native";
 import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import { View, ActivityIndicator, StyleSheet } from "react-native";
 
@@ -11,6 +12,9 @@ import UploadScreen from "@/screens/UploadScreen";
 import SettingsScreen from "@/screens/SettingsScreen";
 import EditProfileScreen from "@/screens/EditProfileScreen";
 import LanguagePickerScreen from "@/screens/LanguagePickerScreen";
+import DevicesScreen from "@/screens/DevicesScreen";
+import ResetPasswordScreen from "@/screens/ResetPasswordScreen";
+import VerifyEmailScreen from "@/screens/VerifyEmailScreen";
 import CategoryFeedScreen from "@/screens/CategoryFeedScreen";
 import TagFeedScreen from "@/screens/TagFeedScreen";
 import CategoriesScreen from "@/screens/CategoriesScreen";
@@ -23,20 +27,28 @@ import NotificationsScreen from "@/screens/NotificationsScreen";
 import FollowerListScreen, { FollowerListParams } from "@/screens/FollowerListScreen";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTheme } from "@/hooks/useTheme";
+import { useTokenLink } from "@/hooks/useTokenLink";
 import { getCommonScreenOptions } from "./screenOptions";
 import { storage } from "@/utils/storage";
-import { Video } from "@/utils/api";
+import { Video, VideoSource } from "@/utils/api";
 
 export type RootStackParamList = {
   Onboarding: undefined;
   Auth: undefined;
   MainTabs: undefined;
   VideoPlayer: { video: Video };
-  SwipeVideoPlayer: { videos: Video[]; startIndex: number };
+  // With a source, the player keeps paging that list from nextCursor
+  SwipeVideoPlayer: {
+    videos: Video[];
+    startIndex: number;
+    source?: VideoSource;
+    nextCursor?: string | null;
+  };
   Upload: undefined;
   Settings: undefined;
   EditProfile: undefined;
   LanguagePicker: undefined;
+  Devices: undefined;
   CategoryFeed: { categoryKey: string; categoryLabel: string };
   TagFeed: { tag: string };
   Categories: undefined;
@@ -48,19 +60,45 @@ export type RootStackParamList = {
   PrivacyTerms: { type: "privacy" | "terms" | "guidelines" };
   Notifications: undefined;
   FollowerList: FollowerListParams;
+  // Opened from the emailed quickfix://reset-password?token= link, signed in or not
+  ResetPassword: { token: string };
+  // Opened from an emailed quickfix://verify-email?token= link, signed in or not
+  VerifyEmail: { token: string };
 };
 
+type TokenLinkScreen = "ResetPassword" | "VerifyEmail";
+
 const Stack = createNativeStackNavigator<RootStackParamList>();
 
+// For navigating from outside a screen, e.g. when a deep link arrives
+export const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
 export default function RootNavigator() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const { theme, isDark } = useTheme();
   const [showOnboarding, setShowOnboarding] = useState<boolean | null>(null);
+  const [pendingLink, setPendingLink] = useState<{ screen: TokenLinkScreen; token: string } | null>(null);
 
   useEffect(() => {
     checkOnboarding();
   }, []);
 
+  useTokenLink(
+    "reset-password",
+    useCallback((token: string) => setPendingLink({ screen: "ResetPassword", token }), [])
+  );
+  useTokenLink(
+    "verify-email",
+    useCallback((token: string) => setPendingLink({ screen: "VerifyEmail", token }), [])
+  );
+
+  // Wait for the navigator below to mount before opening the linked screen
+  useEffect(() => {
+    if (!pendingLink || authLoading || showOnboarding === null || !navigationRef.isReady()) return;
+    navigationRef.navigate(pendingLink.screen, { token: pendingLink.token });
+    setPendingLink(null);
+  }, [pendingLink, authLoading, showOnboarding]);
+
   const checkOnboarding = async () => {
     const completed = await storage.isOnboardingCompleted();
     setShowOnboarding(!completed);
@@ -147,6 +185,15 @@ export default function RootNavigator() {
               title: "",
             }}
           />
+          <Stack.Screen
+            name="Devices"
+            component={DevicesScreen}
+            options={{
+              ...getCommonScreenOptions({ theme, isDark, transparent: false }),
+              headerShown: true,
+              title: "",
+            }}
+          />
           <Stack.Screen
             name="CategoryFeed"
             component={CategoryFeedScreen}
@@ -238,6 +285,26 @@ export default function RootNavigator() {
           />
         </>
       )}
+      <Stack.Screen
+        name="ResetPassword"
+        component={ResetPasswordScreen}
+        options={{
+          presentation: "modal",
+          ...getCommonScreenOptions({ theme, isDark, transparent: false }),
+          headerShown: true,
+          title: "",
+        }}
+      />
+      <Stack.Screen
+        name="VerifyEmail"
+        component={VerifyEmailScreen}
+        options={{
+          presentation: "modal",
+          ...getCommonScreenOptions({ theme, isDark, transparent: false }),
+          headerShown: true,
+          title: "",
+        }}
+      />
     </Stack.Navigator>
   );
 }
@@ -21,7 +21,8 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
-import { api, LiveAssistResponse } from "@/utils/api";
+import { api, isApiError, LiveAssistResponse } from "@/utils/api";
+import { describeError } from "@/utils/errors";
 
 export interface ChatMessage {
   id: string;
@@ -253,11 +254,7 @@ export default function AIChatScreen() {
     } catch (error: any) {
       console.log("[AIChatScreen] LiveAssist error:", error?.message || error);
 
-      const isNetworkError =
-        error?.message?.includes("Network") ||
-        error?.message?.includes("fetch") ||
-        error?.name === "TypeError";
-
+      const isNetworkError = isApiError(error, "NETWORK_ERROR");
       if (isNetworkError) {
         setIsOffline(true);
       }
@@ -267,7 +264,7 @@ export default function AIChatScreen() {
         role: "assistant",
         content: isNetworkError
           ? t("chat.offlineMessage")
-          : t("chat.liveAssistError"),
+          : describeError(t, error, "chat.liveAssistError"),
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, errorMessage]);
@@ -340,30 +337,22 @@ export default function AIChatScreen() {
     } catch (error: any) {
       console.log("[AIChatScreen] Chat error:", error?.message || error);
 
-      const errorMsg = error?.message || "";
-      const errorName = error?.name || "";
-      const isNetworkError =
-        errorMsg.includes("Network error") ||
-        errorMsg.includes("Failed to fetch") ||
-        errorMsg.includes("fetch") ||
-        errorMsg.includes("network") ||
-        errorMsg.includes("timeout") ||
-        errorMsg.includes("abort") ||
-        errorName === "TypeError" ||
-        errorName === "AbortError" ||
-        error?.cause?.code === "ECONNREFUSED" ||
-        error?.cause?.code === "ENOTFOUND";
-
+      const isNetworkError = isApiError(error, "NETWORK_ERROR");
       if (isNetworkError) {
         setIsOffline(true);
       }
 
+      let content = describeError(t, error, "chat.errorMessage");
+      if (isNetworkError) {
+        content = t("chat.offlineMessage");
+      } else if (isApiError(error, "AI_UNAVAILABLE")) {
+        content = t("chat.serviceUnavailableMessage");
+      }
+
       const errorMessage: ChatMessage = {
         id: generateId(),
         role: "assistant",
-        content: isNetworkError
-          ? t("chat.offlineMessage")
-          : t("chat.errorMessage"),
+        content,
         timestamp: new Date(),
       };
       setMessages((prev) => [...prev, errorMessage]);
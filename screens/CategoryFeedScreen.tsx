@@ -18,8 +18,9 @@ import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useVideos } from "@/contexts/VideosContext";
 import { useScreenInsets } from "@/hooks/useScreenInsets";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
 import { RootStackParamList } from "@/navigation/RootNavigator";
-import { Video } from "@/utils/api";
+import { Video, VideoSource } from "@/utils/api";
 import { getCategoryByKey } from "@/constants/categories";
 
 type CategoryFeedRouteProp = RouteProp<RootStackParamList, "CategoryFeed">;
@@ -31,7 +32,7 @@ export default function CategoryFeedScreen() {
   const navigation = useNavigation<CategoryFeedNavigationProp>();
   const route = useRoute<CategoryFeedRouteProp>();
   const { categoryKey, categoryLabel } = route.params;
-  const { videos, isLoading, refreshVideos, toggleSave, toggleLike } = useVideos();
+  const { getVideoPage, toggleSave, toggleLike } = useVideos();
   const { paddingTop, paddingBottom } = useScreenInsets();
 
   const category = getCategoryByKey(categoryKey);
@@ -42,22 +43,44 @@ export default function CategoryFeedScreen() {
     });
   }, [navigation, categoryLabel]);
 
-  const filteredVideos = useMemo(() => {
-    return videos.filter((v) => v.category === categoryKey && v.videoUrl);
-  }, [videos, categoryKey]);
+  const source = useMemo<VideoSource>(() => ({ type: "videos", category: categoryKey }), [categoryKey]);
+  const {
+    items,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    hasMore,
+    refresh,
+    updateItem,
+    nextCursor,
+    listProps,
+  } = usePaginatedList((cursor) => getVideoPage(source, cursor), [source]);
+
+  const filteredVideos = useMemo(() => items.filter((v) => v.videoUrl), [items]);
 
   const handleVideoPress = useCallback(
     (video: Video, index: number) => {
-      const playableVideos = filteredVideos.filter(v => v.videoUrl);
-      const adjustedIndex = playableVideos.findIndex(v => v.id === video.id);
+      const adjustedIndex = filteredVideos.findIndex(v => v.id === video.id);
       navigation.navigate("SwipeVideoPlayer", { 
-        videos: playableVideos, 
-        startIndex: adjustedIndex >= 0 ? adjustedIndex : 0 
+        videos: filteredVideos, 
+        startIndex: adjustedIndex >= 0 ? adjustedIndex : 0,
+        source,
+        nextCursor,
       });
     },
-    [navigation, filteredVideos]
+    [navigation, filteredVideos, source, nextCursor]
   );
 
+  const handleToggleSave = async (videoId: string) => {
+    const saved = await toggleSave(videoId);
+    updateItem(videoId, { isSaved: saved });
+  };
+
+  const handleToggleLike = async (videoId: string) => {
+    const { liked, likesCount } = await toggleLike(videoId);
+    updateItem(videoId, { isLiked: liked, likesCount });
+  };
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <View style={[styles.emptyIconContainer, { backgroundColor: category ? `${category.color}15` : theme.backgroundSecondary }]}>
@@ -79,11 +102,18 @@ export default function CategoryFeedScreen() {
   const renderHeader = () => (
     <View style={styles.headerInfo}>
       <ThemedText type="small" style={{ color: theme.textSecondary }}>
-        {filteredVideos.length} {filteredVideos.length === 1 ? 'video' : 'videos'}
+        {filteredVideos.length}{hasMore ? '+' : ''} {filteredVideos.length === 1 && !hasMore ? 'video' : 'videos'}
       </ThemedText>
     </View>
   );
 
+  const renderFooter = () =>
+    isLoadingMore ? (
+      <View style={styles.footer}>
+        <ActivityIndicator color={theme.link} />
+      </View>
+    ) : null;
+
   if (isLoading && filteredVideos.length === 0) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: theme.backgroundRoot }]}>
@@ -94,6 +124,7 @@ export default function CategoryFeedScreen() {
 
   return (
     <FlatList
+      {...listProps}
       data={filteredVideos}
       keyExtractor={(item) => item.id}
       contentContainerStyle={[
@@ -103,8 +134,8 @@ export default function CategoryFeedScreen() {
       style={{ backgroundColor: theme.backgroundRoot }}
       refreshControl={
         <RefreshControl
-          refreshing={isLoading}
-          onRefresh={refreshVideos}
+          refreshing={isRefreshing}
+          onRefresh={refresh}
           tintColor={theme.link}
         />
       }
@@ -114,13 +145,14 @@ export default function CategoryFeedScreen() {
           video={item}
           isSaved={item.isSaved}
           isLiked={item.isLiked}
-          onSave={() => toggleSave(item.id)}
-          onLike={() => toggleLike(item.id)}
+          onSave={() => handleToggleSave(item.id)}
+          onLike={() => handleToggleLike(item.id)}
           onPress={() => handleVideoPress(item, index)}
         />
       )}
       ItemSeparatorComponent={() => <View style={{ height: Spacing.lg }} />}
       ListEmptyComponent={renderEmptyState}
+      ListFooterComponent={renderFooter}
     />
   );
 }
@@ -137,6 +169,10 @@ const styles = StyleSheet.create({
   headerInfo: {
     marginBottom: Spacing.lg,
   },
+  footer: {
+    paddingVertical: Spacing.xl,
+    alignItems: "center",
+  },
   emptyState: {
     alignItems: "center",
     paddingVertical: Spacing["5xl"],
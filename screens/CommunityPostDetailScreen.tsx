@@ -23,7 +23,7 @@ import { useCommunity } from "@/contexts/CommunityContext";
 import { useAuth } from "@/contexts/AuthContext";
 import { useXp } from "@/contexts/XpContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
-import { CommunityPost, CommunityComment } from "@/utils/api";
+import { api, CommunityPost, CommunityComment, isApiError } from "@/utils/api";
 import { getCategoryIcon, getCategoryColor } from "@/constants/categories";
 
 type RouteParams = RouteProp<RootStackParamList, "CommunityPostDetail">;
@@ -65,7 +65,7 @@ function CommentItem({ comment, isPostAuthor, onMarkSolution, onAuthorPress }: C
   const { t } = useTranslation();
 
   return (
-    <View style={[styles.commentCard, { backgroundColor: theme.backgroundDefault }]}>
+    <View style={[styles.commentCard, { backgroundColor: theme.backgroundDefault }, comment.pending && styles.commentPending]}>
       {comment.isSolution ? (
         <View style={[styles.solutionBadge, { backgroundColor: "#34C759" + "20" }]}>
           <Feather name="check-circle" size={14} color="#34C759" />
@@ -87,7 +87,7 @@ function CommentItem({ comment, isPostAuthor, onMarkSolution, onAuthorPress }: C
           </ThemedText>
         </Pressable>
         <ThemedText type="small" style={{ color: theme.textSecondary }}>
-          {formatTimeAgo(comment.createdAt)}
+          {comment.pending ? t("sync.waitingToSend") : formatTimeAgo(comment.createdAt)}
         </ThemedText>
       </View>
 
@@ -104,7 +104,7 @@ function CommentItem({ comment, isPostAuthor, onMarkSolution, onAuthorPress }: C
         </View>
       ) : null}
 
-      {isPostAuthor && !comment.isSolution ? (
+      {isPostAuthor && !comment.isSolution && !comment.pending ? (
         <Pressable
           onPress={onMarkSolution}
           style={[styles.markSolutionButton, { borderColor: "#34C759" }]}
@@ -157,6 +157,18 @@ export default function CommunityPostDetailScreen() {
     loadData();
   }, [loadData]);
 
+  // Swap a pending comment for the server's copy once the outbox sends it
+  useEffect(() => {
+    return api.onOutboxReplay((event) => {
+      if (event.entry.kind !== "community.comment" || event.entry.target !== postId) return;
+      setComments((prev) =>
+        event.type === "replayed"
+          ? prev.map((comment) => (comment.id === event.entry.id ? event.data : comment))
+          : prev.filter((comment) => comment.id !== event.entry.id)
+      );
+    });
+  }, [postId]);
+
   const handleSubmitComment = async () => {
     if (!newComment.trim() || isSubmitting) return;
 
@@ -176,13 +188,8 @@ export default function CommunityPostDetailScreen() {
         }
       }
     } catch (error: any) {
-      const errorMessage = (error?.message || '').toLowerCase();
       console.log('[CommunityPostDetail] Comment error:', error?.message);
-      const isAuthError = errorMessage.includes('token') || 
-                          errorMessage.includes('expired') || 
-                          errorMessage.includes('authentication') || 
-                          errorMessage.includes('unauthorized');
-      if (isAuthError) {
+      if (isApiError(error, "AUTH_REQUIRED", "AUTH_INVALID", "AUTH_EXPIRED")) {
         Alert.alert(
           t("common.error"),
           t("community.authError", "Please log out and log back in to comment. Your session may have expired.")
@@ -442,6 +449,9 @@ const styles = StyleSheet.create({
   commentsList: {
     gap: Spacing.md,
   },
+  commentPending: {
+    opacity: 0.6,
+  },
   commentCard: {
     padding: Spacing.lg,
     borderRadius: BorderRadius.lg,
@@ -78,7 +78,7 @@ function PostCard({ post, onPress, onAuthorPress }: PostCardProps) {
   const statusColor = getStatusColor(post.status, theme);
 
   return (
-    <View style={[styles.postCard, { backgroundColor: theme.backgroundDefault }]}>
+    <View style={[styles.postCard, { backgroundColor: theme.backgroundDefault }, post.pending && styles.postPending]}>
       <Pressable
         onPress={onPress}
         style={({ pressed }) => [
@@ -136,7 +136,7 @@ function PostCard({ post, onPress, onAuthorPress }: PostCardProps) {
             {post.commentsCount}
           </ThemedText>
           <ThemedText type="small" style={{ color: theme.textSecondary }}>
-            {formatTimeAgo(post.createdAt)}
+            {post.pending ? t("sync.waitingToSend") : formatTimeAgo(post.createdAt)}
           </ThemedText>
         </Pressable>
       </View>
@@ -365,6 +365,9 @@ const styles = StyleSheet.create({
     padding: Spacing.lg,
     borderRadius: BorderRadius.lg,
   },
+  postPending: {
+    opacity: 0.6,
+  },
   postContent: {
   },
   postHeader: {
@@ -21,6 +21,7 @@ import { useTheme } from "@/hooks/useTheme";
 import { useCommunity } from "@/contexts/CommunityContext";
 import { useXp } from "@/contexts/XpContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
+import { isApiError } from "@/utils/api";
 import { CATEGORIES, getCategoryIcon, getCategoryColor } from "@/constants/categories";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -88,13 +89,8 @@ export default function CreatePostScreen() {
         Alert.alert(t("common.error"), t("community.createPostError"));
       }
     } catch (error: any) {
-      const errorMessage = (error?.message || '').toLowerCase();
       console.log('[CreatePost] Error:', error?.message);
-      const isAuthError = errorMessage.includes('token') || 
-                          errorMessage.includes('expired') || 
-                          errorMessage.includes('authentication') || 
-                          errorMessage.includes('unauthorized');
-      if (isAuthError) {
+      if (isApiError(error, "AUTH_REQUIRED", "AUTH_INVALID", "AUTH_EXPIRED")) {
         Alert.alert(
           t("common.error"),
           t("community.authError", "Please log out and log back in to post. Your session may have expired.")
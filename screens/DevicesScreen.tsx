@@ -0,0 +1,213 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, Alert, Platform, ActivityIndicator } from "react-native";
+import { useNavigation } from "@react-navigation/native";
+import { useTranslation } from "react-i18next";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
+import { api, AuthSession } from "@/utils/api";
+import { describeError } from "@/utils/errors";
+
+const PLATFORM_ICONS: Record<string, string> = {
+  ios: "smartphone",
+  android: "smartphone",
+  web: "monitor",
+};
+
+export default function DevicesScreen() {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const navigation = useNavigation();
+  const { logout } = useAuth();
+
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  React.useLayoutEffect(() => {
+    navigation.setOptions({
+      headerTitle: t("devices.title"),
+    });
+  }, [navigation, t]);
+
+  const loadSessions = useCallback(async () => {
+    try {
+      setSessions(await api.getSessions());
+      setLoadError(null);
+    } catch (error) {
+      console.log("[DevicesScreen] Failed to load sessions:", error);
+      setLoadError(describeError(t, error));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const confirm = (title: string, message: string, onConfirm: () => void) => {
+    if (Platform.OS === "web") {
+      if (window.confirm(message)) onConfirm();
+      return;
+    }
+    Alert.alert(title, message, [
+      { text: t("common.cancel"), style: "cancel" },
+      { text: t("devices.signOut"), style: "destructive", onPress: onConfirm },
+    ]);
+  };
+
+  const revoke = (session: AuthSession) => {
+    if (session.current) {
+      confirm(t("auth.logout"), t("auth.logoutConfirm"), () => logout());
+      return;
+    }
+    confirm(t("devices.signOut"), t("devices.signOutConfirm"), async () => {
+      try {
+        await api.revokeSession(session.id);
+        setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      } catch (error) {
+        Alert.alert(t("common.error"), describeError(t, error));
+      }
+    });
+  };
+
+  const revokeOthers = () => {
+    confirm(t("devices.signOutOthers"), t("devices.signOutOthersConfirm"), async () => {
+      try {
+        await api.revokeOtherSessions();
+        setSessions((prev) => prev.filter((s) => s.current));
+      } catch (error) {
+        Alert.alert(t("common.error"), describeError(t, error));
+      }
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}>
+        <ActivityIndicator color={theme.link} />
+      </View>
+    );
+  }
+
+  const hasOthers = sessions.some((session) => !session.current);
+
+  return (
+    <ScreenScrollView contentContainerStyle={styles.content}>
+      {loadError ? (
+        <ThemedText type="small" style={[styles.message, { color: theme.error }]}>
+          {loadError}
+        </ThemedText>
+      ) : null}
+
+      <View style={[styles.list, { backgroundColor: theme.cardBackground }]}>
+        {sessions.map((session, index) => (
+          <React.Fragment key={session.id}>
+            <View style={styles.sessionRow}>
+              <View style={[styles.iconContainer, { backgroundColor: theme.backgroundTertiary }]}>
+                <Feather
+                  name={(PLATFORM_ICONS[session.platform || ""] || "help-circle") as any}
+                  size={18}
+                  color={theme.text}
+                />
+              </View>
+              <View style={styles.sessionInfo}>
+                <ThemedText type="body">{session.deviceName || t("devices.unknownDevice")}</ThemedText>
+                <ThemedText type="small" style={{ color: session.current ? theme.link : theme.textSecondary }}>
+                  {session.current
+                    ? t("devices.thisDevice")
+                    : t("devices.lastActive", { date: new Date(session.lastUsedAt).toLocaleDateString() })}
+                </ThemedText>
+              </View>
+              <Pressable
+                onPress={() => revoke(session)}
+                hitSlop={8}
+                style={({ pressed }) => ({ opacity: pressed ? 0.6 : 1 })}
+                accessibilityLabel={t("devices.signOut")}
+                accessibilityRole="button"
+              >
+                <Feather name="log-out" size={20} color={theme.error} />
+              </Pressable>
+            </View>
+            {index < sessions.length - 1 ? (
+              <View style={[styles.divider, { backgroundColor: theme.border }]} />
+            ) : null}
+          </React.Fragment>
+        ))}
+      </View>
+
+      {hasOthers ? (
+        <Pressable
+          onPress={revokeOthers}
+          style={({ pressed }) => [
+            styles.revokeAllButton,
+            { backgroundColor: `${theme.error}15`, opacity: pressed ? 0.85 : 1 },
+          ]}
+        >
+          <ThemedText type="body" style={[styles.revokeAllText, { color: theme.error }]}>
+            {t("devices.signOutOthers")}
+          </ThemedText>
+        </Pressable>
+      ) : null}
+
+      <ThemedText type="small" style={[styles.message, { color: theme.textSecondary }]}>
+        {t("devices.hint")}
+      </ThemedText>
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingBottom: Spacing["5xl"],
+  },
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  list: {
+    borderRadius: BorderRadius.md,
+    overflow: "hidden",
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.lg,
+  },
+  iconContainer: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: "center",
+    alignItems: "center",
+    marginRight: Spacing.md,
+  },
+  sessionInfo: {
+    flex: 1,
+    gap: Spacing.xs,
+  },
+  divider: {
+    height: 1,
+    marginLeft: Spacing.lg + 36 + Spacing.md,
+  },
+  revokeAllButton: {
+    alignItems: "center",
+    paddingVertical: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    marginTop: Spacing["2xl"],
+  },
+  revokeAllText: {
+    fontWeight: "600",
+  },
+  message: {
+    marginVertical: Spacing.md,
+    paddingHorizontal: Spacing.xs,
+  },
+});
@@ -20,18 +20,23 @@ import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
 import { CATEGORIES, Category } from "@/constants/categories";
+import { api } from "@/utils/api";
+import { describeError } from "@/utils/errors";
 
 export default function EditProfileScreen() {
   const { t } = useTranslation();
   const { theme, isDark } = useTheme();
   const navigation = useNavigation();
-  const { user, updateProfile } = useAuth();
+  const { user, updateProfile, refreshUser } = useAuth();
 
   const [displayName, setDisplayName] = useState(user?.displayName || "");
   const [bio, setBio] = useState(user?.bio || "");
   const [avatar, setAvatar] = useState(user?.avatar || "");
   const [expertise, setExpertise] = useState<string[]>(user?.expertise || []);
   const [isSaving, setIsSaving] = useState(false);
+  const [newEmail, setNewEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [isChangingEmail, setIsChangingEmail] = useState(false);
 
   React.useLayoutEffect(() => {
     navigation.setOptions({
@@ -101,6 +106,44 @@ export default function EditProfileScreen() {
     }
   };
 
+  const handleResendVerification = async () => {
+    try {
+      await api.resendVerificationEmail();
+      Alert.alert(t("auth.verifyEmail"), t("auth.verificationSent", { email: user?.email }));
+    } catch (error) {
+      Alert.alert(t("common.error"), describeError(t, error));
+    }
+  };
+
+  const handleChangeEmail = async () => {
+    if (!newEmail.trim() || !emailPassword) {
+      Alert.alert(t("common.error"), t(newEmail.trim() ? "auth.passwordRequired" : "auth.emailRequired"));
+      return;
+    }
+
+    setIsChangingEmail(true);
+    try {
+      const updated = await api.changeEmail(newEmail.trim(), emailPassword);
+      setNewEmail("");
+      setEmailPassword("");
+      await refreshUser();
+      Alert.alert(t("profile.changeEmail"), t("auth.emailChangeSent", { email: updated.pendingEmail }));
+    } catch (error) {
+      Alert.alert(t("common.error"), describeError(t, error));
+    } finally {
+      setIsChangingEmail(false);
+    }
+  };
+
+  const handleCancelEmailChange = async () => {
+    try {
+      await api.cancelEmailChange();
+      await refreshUser();
+    } catch (error) {
+      Alert.alert(t("common.error"), describeError(t, error));
+    }
+  };
+
   const inputStyle = [
     styles.input,
     {
@@ -167,6 +210,82 @@ export default function EditProfileScreen() {
         </ThemedText>
       </View>
 
+      <View style={styles.section}>
+        <ThemedText type="small" style={styles.label}>
+          {t("auth.email")}
+        </ThemedText>
+        <View style={styles.emailRow}>
+          <ThemedText type="body" style={styles.emailText}>
+            {user?.email}
+          </ThemedText>
+          <Feather
+            name={user?.emailVerified ? "check-circle" : "alert-circle"}
+            size={16}
+            color={user?.emailVerified ? theme.success : theme.error}
+          />
+          <ThemedText type="caption" style={{ color: theme.textSecondary }}>
+            {user?.emailVerified ? t("profile.emailVerified") : t("profile.emailNotVerified")}
+          </ThemedText>
+        </View>
+        {user && !user.emailVerified ? (
+          <Pressable onPress={handleResendVerification} hitSlop={8}>
+            <ThemedText type="link" style={{ color: theme.link }}>
+              {t("profile.resendVerification")}
+            </ThemedText>
+          </Pressable>
+        ) : null}
+
+        {user?.pendingEmail ? (
+          <View style={[styles.pendingEmail, { backgroundColor: theme.backgroundDefault }]}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {t("profile.pendingEmail", { email: user.pendingEmail })}
+            </ThemedText>
+            <Pressable onPress={handleCancelEmailChange} hitSlop={8}>
+              <ThemedText type="link" style={{ color: theme.link }}>
+                {t("common.cancel")}
+              </ThemedText>
+            </Pressable>
+          </View>
+        ) : null}
+
+        <TextInput
+          style={[inputStyle, styles.stackedInput]}
+          value={newEmail}
+          onChangeText={setNewEmail}
+          placeholder={t("profile.newEmail")}
+          placeholderTextColor={isDark ? Colors.dark.placeholder : Colors.light.placeholder}
+          keyboardType="email-address"
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <TextInput
+          style={[inputStyle, styles.stackedInput]}
+          value={emailPassword}
+          onChangeText={setEmailPassword}
+          placeholder={t("settings.currentPassword")}
+          placeholderTextColor={isDark ? Colors.dark.placeholder : Colors.light.placeholder}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        <Pressable
+          onPress={handleChangeEmail}
+          disabled={isChangingEmail}
+          style={({ pressed }) => [
+            styles.changeEmailButton,
+            { borderColor: theme.border, opacity: pressed || isChangingEmail ? 0.6 : 1 },
+          ]}
+        >
+          {isChangingEmail ? (
+            <ActivityIndicator size="small" color={theme.link} />
+          ) : (
+            <ThemedText type="body" style={{ color: theme.link, fontWeight: "600" }}>
+              {t("profile.changeEmail")}
+            </ThemedText>
+          )}
+        </Pressable>
+      </View>
+
       <View style={styles.section}>
         <ThemedText type="small" style={styles.label}>
           {t("profile.expertise")}
@@ -253,6 +372,36 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.lg,
     fontSize: 16,
   },
+  emailRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginBottom: Spacing.sm,
+  },
+  emailText: {
+    flexShrink: 1,
+    marginRight: Spacing.xs,
+  },
+  pendingEmail: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: Spacing.md,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    marginTop: Spacing.md,
+  },
+  stackedInput: {
+    marginTop: Spacing.md,
+  },
+  changeEmailButton: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    marginTop: Spacing.md,
+  },
   textArea: {
     height: 80,
     paddingTop: Spacing.md,
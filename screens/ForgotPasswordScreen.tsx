@@ -14,6 +14,8 @@ import { Button } from "@/components/Button";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
+import { api } from "@/utils/api";
+import { describeError } from "@/utils/errors";
 
 export default function ForgotPasswordScreen() {
   const { t } = useTranslation();
@@ -33,12 +35,16 @@ export default function ForgotPasswordScreen() {
     setError("");
     setIsLoading(true);
     
-    await new Promise((resolve) => setTimeout(resolve, 1000));
-    
-    setIsLoading(false);
-    Alert.alert(t("auth.passwordReset"), t("auth.resetEmailSent"), [
-      { text: t("common.ok"), onPress: () => navigation.goBack() },
-    ]);
+    try {
+      await api.forgotPassword(email.trim());
+      Alert.alert(t("auth.passwordReset"), t("auth.resetEmailSent"), [
+        { text: t("common.ok"), onPress: () => navigation.goBack() },
+      ]);
+    } catch (err) {
+      setError(describeError(t, err));
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -48,7 +54,7 @@ export default function ForgotPasswordScreen() {
       </ThemedText>
       
       <ThemedText type="body" style={[styles.description, { color: theme.textSecondary }]}>
-        {t("auth.resetEmailSent")}
+        {t("auth.resetPasswordHint")}
       </ThemedText>
 
       <View style={styles.inputContainer}>
@@ -20,10 +20,17 @@ import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useVideos } from "@/contexts/VideosContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
-import { Video } from "@/utils/api";
+import { Video, VideoSource, FeedSection } from "@/utils/api";
 
 type HomeScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+// The lists behind each section, so the swipe player can keep paging them
+const FEED_SOURCES: Record<FeedSection, VideoSource> = {
+  recommended: { type: "feed", section: "recommended" },
+  new: { type: "feed", section: "new" },
+  popular: { type: "feed", section: "popular" },
+};
+
 export default function HomeScreen() {
   const { t } = useTranslation();
   const { theme } = useTheme();
@@ -48,66 +55,74 @@ export default function HomeScreen() {
     [feed, filterByCategory]
   );
 
-  const handleVideoPress = useCallback((video: Video, videoList: Video[], index: number) => {
-    const playableVideos = videoList.filter(v => v.videoUrl);
+  const handleVideoPress = useCallback((video: Video, section: FeedSection) => {
+    const playableVideos = filteredFeed[section].filter(v => v.videoUrl);
     const adjustedIndex = playableVideos.findIndex(v => v.id === video.id);
+    // A category-filtered section no longer lines up with the server cursor
+    const continuation = selectedCategory === "all"
+      ? { source: FEED_SOURCES[section], nextCursor: feed.nextCursors[section] }
+      : {};
     navigation.navigate("SwipeVideoPlayer", { 
       videos: playableVideos, 
-      startIndex: adjustedIndex >= 0 ? adjustedIndex : 0 
+      startIndex: adjustedIndex >= 0 ? adjustedIndex : 0,
+      ...continuation,
     });
-  }, [navigation]);
+  }, [navigation, filteredFeed, selectedCategory, feed.nextCursors]);
 
-  const renderSection = (title: string, data: Video[], showViewAll = false) => (
-    <View style={styles.section}>
-      <View style={styles.sectionHeader}>
-        <ThemedText type="h3" style={styles.sectionTitle}>
-          {title}
-        </ThemedText>
-        {showViewAll ? (
-          <Pressable 
-            onPress={() => navigation.navigate("VideoLibrary")}
-            style={({ pressed }) => [styles.viewAllButton, { opacity: pressed ? 0.7 : 1 }]}
-          >
-            <ThemedText type="small" style={{ color: theme.link }}>
-              {t("videoLibrary.allVideos")}
-            </ThemedText>
-            <Feather name="chevron-right" size={14} color={theme.link} />
-          </Pressable>
-        ) : (
-          <ThemedText type="small" style={{ color: theme.textSecondary }}>
-            {data.length} {data.length === 1 ? 'video' : 'videos'}
+  const renderSection = (title: string, section: FeedSection, showViewAll = false) => {
+    const data = filteredFeed[section];
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <ThemedText type="h3" style={styles.sectionTitle}>
+            {title}
           </ThemedText>
-        )}
-      </View>
-      <FlatList
-        data={data}
-        horizontal
-        showsHorizontalScrollIndicator={false}
-        keyExtractor={(item) => `${title}-${item.id}`}
-        contentContainerStyle={styles.horizontalList}
-        renderItem={({ item, index }) => (
-          <View style={styles.cardWrapper}>
-            <VideoCard
-              video={item}
-              isSaved={item.isSaved}
-              isLiked={item.isLiked}
-              onSave={() => toggleSave(item.id)}
-              onLike={() => toggleLike(item.id)}
-              onPress={() => handleVideoPress(item, data, index)}
-              horizontal
-            />
-          </View>
-        )}
-        ListEmptyComponent={
-          <View style={styles.emptySection}>
-            <ThemedText type="body" style={{ color: theme.textSecondary }}>
-              {t("common.noVideos")}
+          {showViewAll ? (
+            <Pressable 
+              onPress={() => navigation.navigate("VideoLibrary")}
+              style={({ pressed }) => [styles.viewAllButton, { opacity: pressed ? 0.7 : 1 }]}
+            >
+              <ThemedText type="small" style={{ color: theme.link }}>
+                {t("videoLibrary.allVideos")}
+              </ThemedText>
+              <Feather name="chevron-right" size={14} color={theme.link} />
+            </Pressable>
+          ) : (
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {data.length} {data.length === 1 ? 'video' : 'videos'}
             </ThemedText>
-          </View>
-        }
-      />
-    </View>
-  );
+          )}
+        </View>
+        <FlatList
+          data={data}
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          keyExtractor={(item) => `${title}-${item.id}`}
+          contentContainerStyle={styles.horizontalList}
+          renderItem={({ item }) => (
+            <View style={styles.cardWrapper}>
+              <VideoCard
+                video={item}
+                isSaved={item.isSaved}
+                isLiked={item.isLiked}
+                onSave={() => toggleSave(item.id)}
+                onLike={() => toggleLike(item.id)}
+                onPress={() => handleVideoPress(item, section)}
+                horizontal
+              />
+            </View>
+          )}
+          ListEmptyComponent={
+            <View style={styles.emptySection}>
+              <ThemedText type="body" style={{ color: theme.textSecondary }}>
+                {t("common.noVideos")}
+              </ThemedText>
+            </View>
+          }
+        />
+      </View>
+    );
+  };
 
   const hasFilteredContent =
     filteredFeed.recommended.length > 0 ||
@@ -139,13 +154,13 @@ export default function HomeScreen() {
       ) : hasFilteredContent ? (
         <>
           {filteredFeed.recommended.length > 0
-            ? renderSection(t("home.recommended"), filteredFeed.recommended, true)
+            ? renderSection(t("home.recommended"), "recommended", true)
             : null}
           {filteredFeed.new.length > 0
-            ? renderSection(t("home.new"), filteredFeed.new)
+            ? renderSection(t("home.new"), "new")
             : null}
           {filteredFeed.popular.length > 0
-            ? renderSection(t("home.popular"), filteredFeed.popular)
+            ? renderSection(t("home.popular"), "popular")
             : null}
         </>
       ) : (
@@ -11,6 +11,8 @@ import {
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useTranslation } from "react-i18next";
 import { Feather } from "@expo/vector-icons";
 import * as ImagePicker from "expo-image-picker";
@@ -25,9 +27,14 @@ import { UpgradeModal } from "@/components/UpgradeModal";
 import { Spacing, BorderRadius, Typography } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useSubscription } from "@/contexts/SubscriptionContext";
-import { api, LiveAssistResponse, LiveAssistOverlay, RiskSeverity, RiskEntry, RiskOverlay, SparePart, SparePartPriority } from "@/utils/api";
+import { useAuth } from "@/contexts/AuthContext";
+import { LiveAssistStackParamList } from "@/navigation/LiveAssistStackNavigator";
+import { describeError } from "@/utils/errors";
+import { api, ApiError, isApiError, LiveAssistResponse, LiveAssistOverlay, RiskSeverity, RiskEntry, RiskOverlay, SparePart, SparePartPriority } from "@/utils/api";
 
 type LiveAssistMode = "analysis" | "chat";
+type LiveAssistRouteProp = RouteProp<LiveAssistStackParamList, "LiveAssist">;
+type LiveAssistNavigationProp = NativeStackNavigationProp<LiveAssistStackParamList>;
 
 interface AnalysisResult {
   summary: string;
@@ -49,6 +56,11 @@ export default function LiveAssistScreen() {
   const insets = useSafeAreaInsets();
   const tabBarHeight = useBottomTabBarHeight();
   const { usage, refreshSubscription } = useSubscription();
+  const { isAuthenticated } = useAuth();
+  const navigation = useNavigation<LiveAssistNavigationProp>();
+  const route = useRoute<LiveAssistRouteProp>();
+  const resumeSessionId = route.params?.resumeSessionId;
+  const deletedSessionId = route.params?.deletedSessionId;
   const language = i18n.language;
 
   // Mode toggle: Analysis vs AI Chat
@@ -91,6 +103,15 @@ export default function LiveAssistScreen() {
     loadSession();
   }, []);
 
+  // Resume a session picked from the history screen
+  useEffect(() => {
+    if (!resumeSessionId) return;
+    setActiveMode("analysis");
+    setSessionId(resumeSessionId);
+    setIsThreadMode(true);
+    navigation.setParams({ resumeSessionId: undefined });
+  }, [resumeSessionId, navigation]);
+
   const toggleStepComplete = (stepIndex: number) => {
     setCompletedSteps((prev) => {
       const newSet = new Set(prev);
@@ -103,6 +124,14 @@ export default function LiveAssistScreen() {
     });
   };
 
+  const showImageLimit = (err: ApiError) => {
+    setLimitInfo({
+      imagesUsed: err.details?.imagesUsed ?? usage?.imagesUsedToday ?? 0,
+      limit: err.details?.limit ?? usage?.dailyImageLimit ?? limitInfo.limit,
+    });
+    setShowUpgradeModal(true);
+  };
+
   // Fix C: Check image limit BEFORE capturing/selecting image
   const checkLimitBeforeImage = async (): Promise<boolean> => {
     try {
@@ -110,8 +139,8 @@ export default function LiveAssistScreen() {
       if (!limitCheck.allowed) {
         console.log("[LiveAssistScreen] Image limit reached before capture");
         setLimitInfo({
-          imagesUsed: limitCheck.imagesUsed || 2,
-          limit: limitCheck.limit || 2,
+          imagesUsed: limitCheck.imagesUsed,
+          limit: limitCheck.limit,
         });
         setShowUpgradeModal(true);
         return false;
@@ -204,30 +233,25 @@ export default function LiveAssistScreen() {
         // Refresh subscription status to get updated usage count
         refreshSubscription();
       } else {
-        setError("AI_UNAVAILABLE");
+        setError(t("errors.aiUnavailable"));
       }
     } catch (err: any) {
       console.log("[LiveAssistScreen] Error:", err?.message || err);
       
-      // Check if it's a daily limit error (IMAGE_DAY_LIMIT)
-      if (err?.code === "IMAGE_DAY_LIMIT" || err?.response?.code === "IMAGE_DAY_LIMIT" || err?.message?.includes("IMAGE_DAY_LIMIT") || err?.message?.includes("limit_exceeded")) {
-        const errorData = err?.response || {};
-        setLimitInfo({
-          imagesUsed: errorData.imagesUsed || usage?.imagesUsedToday || 2,
-          limit: errorData.limit || usage?.dailyImageLimit || 2,
-        });
-        setShowUpgradeModal(true);
+      if (isApiError(err, "IMAGE_DAY_LIMIT")) {
+        showImageLimit(err);
         setCapturedImage(null);
         return;
       }
       
-      setError("AI_UNAVAILABLE");
+      // Over a rate limit or the daily AI budget, say so instead of "unavailable"
+      setError(describeError(t, err, "errors.aiUnavailable"));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleReset = async () => {
+  const handleReset = useCallback(async () => {
     setCapturedImage(null);
     setAnalysisResult(null);
     setError(null);
@@ -235,14 +259,24 @@ export default function LiveAssistScreen() {
     setCompletedSteps(new Set());
     setSessionId(null);
     setIsThreadMode(false);
-    // Fix A: Clear sessionId from AsyncStorage on reset
+    // Fix A: Clear sessionId from AsyncStorage on reset.
+    // The session itself stays on the server and can be resumed from history.
     try {
       await AsyncStorage.removeItem("liveassistSessionId");
       console.log("[LiveAssistScreen] Cleared session from storage");
     } catch (err) {
       console.log("[LiveAssistScreen] Failed to clear session from storage:", err);
     }
-  };
+  }, []);
+
+  // A session deleted from the history screen: start over if it is the open one
+  useEffect(() => {
+    if (!deletedSessionId) return;
+    navigation.setParams({ deletedSessionId: undefined });
+    if (deletedSessionId === sessionId) {
+      handleReset();
+    }
+  }, [deletedSessionId, sessionId, navigation, handleReset]);
 
   const handleStartConversation = async () => {
     setIsCreatingSession(true);
@@ -831,10 +865,8 @@ export default function LiveAssistScreen() {
         </View>
       ) : error ? (
         <View style={styles.errorBanner}>
-          <Feather name="wifi-off" size={20} color="#FFFFFF" />
-          <ThemedText style={styles.errorBannerText}>
-            AI-analys är otillgänglig just nu. Försök igen senare.
-          </ThemedText>
+          <Feather name="alert-circle" size={20} color="#FFFFFF" />
+          <ThemedText style={styles.errorBannerText}>{error}</ThemedText>
         </View>
       ) : null}
 
@@ -893,9 +925,13 @@ export default function LiveAssistScreen() {
       </View>
       {sessionId ? (
         <LiveAssistThread
+          key={sessionId}
           sessionId={sessionId}
           language={language}
-          onError={(err) => console.log("[LiveAssistScreen] Thread error:", err)}
+          onError={(err) => {
+            console.log("[LiveAssistScreen] Thread error:", err);
+            if (isApiError(err, "IMAGE_DAY_LIMIT")) showImageLimit(err);
+          }}
         />
       ) : null}
     </View>
@@ -920,6 +956,17 @@ export default function LiveAssistScreen() {
           <ThemedText style={[styles.headerTitle, { color: theme.text }]}>
             {activeMode === "analysis" ? t("liveAssist.title") : t("chat.title")}
           </ThemedText>
+          {isAuthenticated && activeMode === "analysis" ? (
+            <Pressable
+              onPress={() => navigation.navigate("LiveAssistSessions")}
+              hitSlop={8}
+              style={({ pressed }) => [styles.historyButton, { opacity: pressed ? 0.6 : 1 }]}
+              accessibilityLabel={t("liveAssist.history")}
+              accessibilityRole="button"
+            >
+              <Feather name="clock" size={22} color={theme.text} />
+            </Pressable>
+          ) : null}
         </View>
 
         <View style={[styles.modeToggle, { backgroundColor: theme.backgroundSecondary }]}>
@@ -1020,6 +1067,9 @@ const styles = StyleSheet.create({
   headerTitle: {
     ...Typography.h3,
   },
+  historyButton: {
+    marginLeft: "auto",
+  },
   modeToggle: {
     flexDirection: "row",
     padding: 4,
@@ -0,0 +1,449 @@
+import React, { useState, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  FlatList,
+  ActivityIndicator,
+  Image,
+  Alert,
+  Modal,
+  TextInput,
+  RefreshControl,
+} from "react-native";
+import { CommonActions, useNavigation, useFocusEffect } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useTranslation } from "react-i18next";
+import { Feather } from "@expo/vector-icons";
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { LiveAssistStackParamList } from "@/navigation/LiveAssistStackNavigator";
+import { api, ImageSource, LiveAssistSessionSummary } from "@/utils/api";
+
+type NavigationProp = NativeStackNavigationProp<LiveAssistStackParamList>;
+
+export default function LiveAssistSessionsScreen() {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const navigation = useNavigation<NavigationProp>();
+
+  const [sessions, setSessions] = useState<LiveAssistSessionSummary[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<string, ImageSource>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [renameTarget, setRenameTarget] = useState<LiveAssistSessionSummary | null>(null);
+  const [renameText, setRenameText] = useState("");
+  const [isSavingRename, setIsSavingRename] = useState(false);
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      const result = await api.getLiveAssistSessions();
+      const list = result.sessions || [];
+      const sources = await Promise.all(
+        list.flatMap(({ id, thumbnailUrl }) =>
+          thumbnailUrl ? [api.getLiveAssistThumbnailSource(thumbnailUrl).then((source) => [id, source] as const)] : []
+        )
+      );
+      setThumbnails(Object.fromEntries(sources));
+      setSessions(list);
+    } catch (err: any) {
+      console.log("[LiveAssistSessions] Failed to load sessions:", err?.message);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      setIsLoading(true);
+      fetchSessions().finally(() => setIsLoading(false));
+    }, [fetchSessions])
+  );
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await fetchSessions();
+    setIsRefreshing(false);
+  };
+
+  const sortSessions = (list: LiveAssistSessionSummary[]) =>
+    [...list].sort((a, b) => {
+      if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
+      return new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+    });
+
+  const handleResume = async (session: LiveAssistSessionSummary) => {
+    await AsyncStorage.setItem("liveassistSessionId", session.id);
+    navigation.navigate("LiveAssist", { resumeSessionId: session.id });
+  };
+
+  const handleTogglePin = async (session: LiveAssistSessionSummary) => {
+    const isPinned = !session.isPinned;
+    setSessions((prev) =>
+      sortSessions(prev.map((s) => (s.id === session.id ? { ...s, isPinned } : s)))
+    );
+    try {
+      await api.updateLiveAssistSession(session.id, { isPinned });
+    } catch (err: any) {
+      console.log("[LiveAssistSessions] Failed to pin session:", err?.message);
+      setSessions((prev) =>
+        sortSessions(prev.map((s) => (s.id === session.id ? { ...s, isPinned: !isPinned } : s)))
+      );
+    }
+  };
+
+  const openRename = (session: LiveAssistSessionSummary) => {
+    setRenameTarget(session);
+    setRenameText(session.title || "");
+  };
+
+  const handleSaveRename = async () => {
+    if (!renameTarget || !renameText.trim()) return;
+    setIsSavingRename(true);
+    try {
+      const result = await api.updateLiveAssistSession(renameTarget.id, {
+        title: renameText.trim(),
+      });
+      setSessions((prev) =>
+        prev.map((s) => (s.id === result.id ? { ...s, title: result.title } : s))
+      );
+      setRenameTarget(null);
+    } catch (err: any) {
+      Alert.alert(t("common.error"), err?.message || t("liveAssist.renameFailed"));
+    } finally {
+      setIsSavingRename(false);
+    }
+  };
+
+  const handleDelete = (session: LiveAssistSessionSummary) => {
+    Alert.alert(t("liveAssist.deleteSession"), t("liveAssist.deleteSessionConfirm"), [
+      { text: t("common.cancel"), style: "cancel" },
+      {
+        text: t("common.delete"),
+        style: "destructive",
+        onPress: async () => {
+          try {
+            await api.deleteLiveAssistSession(session.id);
+            setSessions((prev) => prev.filter((s) => s.id !== session.id));
+            const storedSessionId = await AsyncStorage.getItem("liveassistSessionId");
+            if (storedSessionId === session.id) {
+              await AsyncStorage.removeItem("liveassistSessionId");
+            }
+            // LiveAssist below this screen starts over if it has the session open
+            const liveAssist = navigation.getState().routes.find((route) => route.name === "LiveAssist");
+            if (liveAssist) {
+              navigation.dispatch({
+                ...CommonActions.setParams({ deletedSessionId: session.id }),
+                source: liveAssist.key,
+              });
+            }
+          } catch (err: any) {
+            Alert.alert(t("common.error"), err?.message || t("liveAssist.deleteFailed"));
+          }
+        },
+      },
+    ]);
+  };
+
+  const formatTimeAgo = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffMins = Math.floor(diffMs / 60000);
+    const diffHours = Math.floor(diffMins / 60);
+    const diffDays = Math.floor(diffHours / 24);
+
+    if (diffMins < 1) return t("notifications.justNow", { defaultValue: "Just now" });
+    if (diffMins < 60) return t("notifications.minutesAgo", { defaultValue: "{{count}}m ago", count: diffMins });
+    if (diffHours < 24) return t("notifications.hoursAgo", { defaultValue: "{{count}}h ago", count: diffHours });
+    return t("notifications.daysAgo", { defaultValue: "{{count}}d ago", count: diffDays });
+  };
+
+  const renderSessionItem = ({ item }: { item: LiveAssistSessionSummary }) => {
+    const progress = item.totalSteps > 0 ? item.completedSteps / item.totalSteps : 0;
+
+    return (
+      <Pressable
+        onPress={() => handleResume(item)}
+        style={({ pressed }) => [
+          styles.sessionItem,
+          { backgroundColor: theme.backgroundSecondary, opacity: pressed ? 0.8 : 1 },
+        ]}
+      >
+        {thumbnails[item.id] ? (
+          <Image source={thumbnails[item.id]} style={styles.thumbnail} />
+        ) : (
+          <View style={[styles.thumbnail, styles.thumbnailPlaceholder, { backgroundColor: theme.link + "20" }]}>
+            <Feather name={item.hasImage ? "image" : "message-circle"} size={22} color={theme.link} />
+          </View>
+        )}
+
+        <View style={styles.sessionContent}>
+          <View style={styles.titleRow}>
+            {item.isPinned ? (
+              <Feather name="bookmark" size={14} color={theme.link} style={styles.pinIcon} />
+            ) : null}
+            <ThemedText type="body" style={styles.sessionTitle} numberOfLines={1}>
+              {item.title || t("liveAssist.untitledSession")}
+            </ThemedText>
+          </View>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {formatTimeAgo(item.updatedAt)}
+          </ThemedText>
+          {item.totalSteps > 0 ? (
+            <View style={styles.progressRow}>
+              <View style={[styles.progressTrack, { backgroundColor: theme.backgroundTertiary }]}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${Math.round(progress * 100)}%`, backgroundColor: theme.success },
+                  ]}
+                />
+              </View>
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                {t("liveAssist.stepsCompleted", {
+                  completed: item.completedSteps,
+                  total: item.totalSteps,
+                })}
+              </ThemedText>
+            </View>
+          ) : null}
+        </View>
+
+        <View style={styles.actions}>
+          <Pressable
+            onPress={() => handleTogglePin(item)}
+            hitSlop={8}
+            accessibilityLabel={item.isPinned ? t("liveAssist.unpin") : t("liveAssist.pin")}
+            accessibilityRole="button"
+          >
+            <Feather name="bookmark" size={18} color={item.isPinned ? theme.link : theme.textSecondary} />
+          </Pressable>
+          <Pressable
+            onPress={() => openRename(item)}
+            hitSlop={8}
+            accessibilityLabel={t("liveAssist.rename")}
+            accessibilityRole="button"
+          >
+            <Feather name="edit-2" size={18} color={theme.textSecondary} />
+          </Pressable>
+          <Pressable
+            onPress={() => handleDelete(item)}
+            hitSlop={8}
+            accessibilityLabel={t("common.delete")}
+            accessibilityRole="button"
+          >
+            <Feather name="trash-2" size={18} color={theme.error} />
+          </Pressable>
+        </View>
+      </Pressable>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyContainer}>
+      <View style={[styles.emptyIconContainer, { backgroundColor: theme.backgroundSecondary }]}>
+        <Feather name="clock" size={40} color={theme.textSecondary} />
+      </View>
+      <ThemedText type="body" style={{ color: theme.textSecondary, textAlign: "center" }}>
+        {t("liveAssist.noSessions")}
+      </ThemedText>
+    </View>
+  );
+
+  return (
+    <ThemedView style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+      {isLoading && sessions.length === 0 ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color={theme.link} />
+        </View>
+      ) : sessions.length === 0 ? (
+        renderEmptyState()
+      ) : (
+        <FlatList
+          data={sessions}
+          keyExtractor={(item) => item.id}
+          renderItem={renderSessionItem}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          refreshControl={
+            <RefreshControl refreshing={isRefreshing} onRefresh={handleRefresh} tintColor={theme.link} />
+          }
+        />
+      )}
+
+      <Modal
+        visible={renameTarget !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setRenameTarget(null)}
+      >
+        <View style={[styles.modalOverlay, { backgroundColor: theme.overlay }]}>
+          <View style={[styles.modalContent, { backgroundColor: theme.backgroundRoot }]}>
+            <ThemedText type="h4" style={styles.modalTitle}>
+              {t("liveAssist.renameSession")}
+            </ThemedText>
+            <TextInput
+              value={renameText}
+              onChangeText={setRenameText}
+              maxLength={100}
+              autoFocus
+              placeholder={t("liveAssist.untitledSession")}
+              placeholderTextColor={theme.placeholder}
+              style={[
+                styles.input,
+                { color: theme.text, backgroundColor: theme.backgroundSecondary, borderColor: theme.border },
+              ]}
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => setRenameTarget(null)}
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  { backgroundColor: theme.backgroundSecondary, opacity: pressed ? 0.8 : 1 },
+                ]}
+              >
+                <ThemedText type="body">{t("common.cancel")}</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleSaveRename}
+                disabled={isSavingRename || !renameText.trim()}
+                style={({ pressed }) => [
+                  styles.modalButton,
+                  {
+                    backgroundColor: theme.link,
+                    opacity: pressed || !renameText.trim() ? 0.7 : 1,
+                  },
+                ]}
+              >
+                {isSavingRename ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <ThemedText type="body" style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                    {t("common.save")}
+                  </ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+    </ThemedView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    padding: Spacing.lg,
+    paddingBottom: Spacing["4xl"],
+  },
+  sessionItem: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    marginBottom: Spacing.sm,
+    borderRadius: BorderRadius.lg,
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.sm,
+    marginRight: Spacing.md,
+  },
+  thumbnailPlaceholder: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  sessionContent: {
+    flex: 1,
+  },
+  titleRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.xs,
+  },
+  pinIcon: {
+    marginRight: Spacing.xs,
+  },
+  sessionTitle: {
+    flex: 1,
+    fontWeight: "600",
+  },
+  progressRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.xs,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 4,
+    borderRadius: 2,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 2,
+  },
+  actions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    marginLeft: Spacing.sm,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing["2xl"],
+  },
+  emptyIconContainer: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    justifyContent: "center",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  modalOverlay: {
+    flex: 1,
+    justifyContent: "center",
+    padding: Spacing["2xl"],
+  },
+  modalContent: {
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+  },
+  modalTitle: {
+    marginBottom: Spacing.lg,
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.xl,
+  },
+  modalButton: {
+    flex: 1,
+    height: 44,
+    borderRadius: BorderRadius.sm,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+});
@@ -18,6 +18,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Button } from "@/components/Button";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { OAuthButtons } from "@/components/OAuthButtons";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
@@ -30,7 +31,7 @@ export default function LoginScreen() {
   const { theme, isDark } = useTheme();
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<LoginScreenNavigationProp>();
-  const { login } = useAuth();
+  const { login, sessionExpired } = useAuth();
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -99,6 +100,12 @@ export default function LoginScreen() {
           {t("auth.welcomeBack")}
         </ThemedText>
 
+        {sessionExpired ? (
+          <ThemedText type="small" style={[styles.sessionExpired, { color: theme.error }]}>
+            {t("errors.sessionExpired")}
+          </ThemedText>
+        ) : null}
+
         <View style={styles.form}>
           <View style={styles.inputContainer}>
             <ThemedText type="small" style={styles.label}>
@@ -179,25 +186,7 @@ export default function LoginScreen() {
             <View style={[styles.dividerLine, { backgroundColor: theme.border }]} />
           </View>
 
-          <Button
-            onPress={() => handleLogin()}
-            style={[styles.socialButton, { backgroundColor: theme.backgroundDefault }]}
-          >
-            <Feather name="mail" size={20} color={theme.text} style={styles.socialIcon} />
-            <ThemedText style={styles.socialButtonText}>
-              {t("auth.continueWithGoogle")}
-            </ThemedText>
-          </Button>
-
-          <Button
-            onPress={() => handleLogin()}
-            style={[styles.socialButton, { backgroundColor: theme.backgroundDefault }]}
-          >
-            <Feather name="smartphone" size={20} color={theme.text} style={styles.socialIcon} />
-            <ThemedText style={styles.socialButtonText}>
-              {t("auth.continueWithApple")}
-            </ThemedText>
-          </Button>
+          <OAuthButtons />
         </View>
 
         <View style={styles.footer}>
@@ -235,6 +224,10 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginBottom: Spacing["3xl"],
   },
+  sessionExpired: {
+    textAlign: "center",
+    marginBottom: Spacing.lg,
+  },
   form: {
     gap: Spacing.lg,
   },
@@ -280,18 +273,6 @@ const styles = StyleSheet.create({
   dividerLine: {
     height: 1,
   },
-  socialButton: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "center",
-    borderRadius: BorderRadius.sm,
-  },
-  socialIcon: {
-    marginRight: Spacing.sm,
-  },
-  socialButtonText: {
-    fontWeight: "500",
-  },
   footer: {
     flexDirection: "row",
     justifyContent: "center",
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { View, StyleSheet, Pressable, Image, Dimensions, ActivityIndicator } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
@@ -10,6 +10,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
+import { usePaginatedList, isCloseToEnd } from "@/hooks/usePaginatedList";
 import { useAuth } from "@/contexts/AuthContext";
 import { useVideos } from "@/contexts/VideosContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
@@ -27,34 +28,21 @@ export default function ProfileScreen() {
   const { theme, isDark } = useTheme();
   const navigation = useNavigation<ProfileScreenNavigationProp>();
   const { user } = useAuth();
-  const { getVideosByAuthor, getSavedVideos } = useVideos();
+  const { getVideoPage } = useVideos();
 
   const [activeTab, setActiveTab] = useState<"uploads" | "saved">("uploads");
-  const [userVideos, setUserVideos] = useState<Video[]>([]);
-  const [savedVideos, setSavedVideos] = useState<Video[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    loadVideos();
-  }, [user?.id]);
-
-  const loadVideos = async () => {
-    setIsLoading(true);
-    try {
-      if (user?.id) {
-        const uploads = await getVideosByAuthor(user.id);
-        setUserVideos(uploads ?? []);
-      }
-      const saved = await getSavedVideos();
-      setSavedVideos(saved ?? []);
-    } catch (error) {
-      console.log("Error loading videos:", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const uploads = usePaginatedList(
+    (cursor) =>
+      user?.id
+        ? getVideoPage({ type: "user", userId: user.id }, cursor)
+        : Promise.resolve({ items: [], nextCursor: null }),
+    [user?.id],
+  );
+  const saved = usePaginatedList((cursor) => getVideoPage({ type: "saved" }, cursor), [user?.id]);
 
-  const displayVideos = activeTab === "uploads" ? userVideos : savedVideos;
+  const activeList = activeTab === "uploads" ? uploads : saved;
+  const displayVideos = activeList.items;
+  const isLoading = activeList.isLoading;
 
   const handleVideoPress = (video: Video) => {
     navigation.navigate("VideoPlayer", { video });
@@ -119,7 +107,13 @@ export default function ProfileScreen() {
   };
 
   return (
-    <ScreenScrollView contentContainerStyle={styles.content}>
+    <ScreenScrollView
+      contentContainerStyle={styles.content}
+      onScroll={(event) => {
+        if (isCloseToEnd(event)) activeList.loadMore();
+      }}
+      scrollEventThrottle={200}
+    >
       <View style={styles.profileHeader}>
         <Pressable
           onPress={() => navigation.navigate("EditProfile")}
@@ -187,7 +181,7 @@ export default function ProfileScreen() {
           </Pressable>
           <View style={[styles.statDivider, { backgroundColor: theme.border }]} />
           <View style={styles.stat}>
-            <ThemedText type="h3" style={{ fontWeight: '700' }}>{userVideos.length}</ThemedText>
+            <ThemedText type="h3" style={{ fontWeight: '700' }}>{uploads.items.length}{uploads.hasMore ? "+" : ""}</ThemedText>
             <ThemedText type="small" style={{ color: theme.textSecondary }}>
               {t("profile.uploads")}
             </ThemedText>
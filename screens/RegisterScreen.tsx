@@ -18,6 +18,7 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Button } from "@/components/Button";
 import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { OAuthButtons } from "@/components/OAuthButtons";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/contexts/AuthContext";
@@ -193,6 +194,10 @@ export default function RegisterScreen() {
               t("auth.signUp")
             )}
           </Button>
+
+          <View style={[styles.dividerLine, { backgroundColor: theme.border }]} />
+
+          <OAuthButtons />
         </View>
 
         <View style={styles.footer}>
@@ -266,6 +271,10 @@ const styles = StyleSheet.create({
     marginTop: Spacing.lg,
     borderRadius: BorderRadius.sm,
   },
+  dividerLine: {
+    height: 1,
+    marginVertical: Spacing.lg,
+  },
   footer: {
     flexDirection: "row",
     justifyContent: "center",
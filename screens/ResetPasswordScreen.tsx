@@ -0,0 +1,160 @@
+import React, { useState } from "react";
+import {
+  View,
+  StyleSheet,
+  TextInput,
+  Alert,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useTranslation } from "react-i18next";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { ScreenKeyboardAwareScrollView } from "@/components/ScreenKeyboardAwareScrollView";
+import { Spacing, BorderRadius, Colors } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
+import { RootStackParamList } from "@/navigation/RootNavigator";
+import { api } from "@/utils/api";
+import { describeError } from "@/utils/errors";
+
+export default function ResetPasswordScreen() {
+  const { t } = useTranslation();
+  const { theme, isDark } = useTheme();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "ResetPassword">>();
+  const { isAuthenticated, logout } = useAuth();
+
+  const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const handleSubmit = async () => {
+    if (password.length < 6) {
+      setError(t("auth.passwordMinLength"));
+      return;
+    }
+    if (password !== confirmPassword) {
+      setError(t("auth.passwordsDoNotMatch"));
+      return;
+    }
+
+    setError("");
+    setIsLoading(true);
+
+    try {
+      await api.resetPassword(route.params.token, password);
+      // Every session was signed out by the reset, this one included
+      if (isAuthenticated) await logout();
+      Alert.alert(t("auth.passwordReset"), t("auth.passwordResetDone"), [
+        {
+          text: t("common.ok"),
+          onPress: () => (navigation.canGoBack() ? navigation.goBack() : navigation.replace("Auth")),
+        },
+      ]);
+    } catch (err) {
+      setError(describeError(t, err));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const inputStyle = [
+    styles.input,
+    {
+      backgroundColor: theme.backgroundDefault,
+      borderColor: error ? theme.error : theme.border,
+      color: theme.text,
+    },
+  ];
+  const placeholderTextColor = isDark ? Colors.dark.placeholder : Colors.light.placeholder;
+
+  return (
+    <ScreenKeyboardAwareScrollView contentContainerStyle={styles.content}>
+      <ThemedText type="h2" style={styles.title}>
+        {t("auth.chooseNewPassword")}
+      </ThemedText>
+
+      <View style={styles.inputContainer}>
+        <ThemedText type="small" style={styles.label}>
+          {t("settings.newPassword")}
+        </ThemedText>
+        <TextInput
+          style={inputStyle}
+          value={password}
+          onChangeText={setPassword}
+          placeholder={t("settings.newPassword")}
+          placeholderTextColor={placeholderTextColor}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <ThemedText type="small" style={styles.label}>
+          {t("auth.confirmPassword")}
+        </ThemedText>
+        <TextInput
+          style={inputStyle}
+          value={confirmPassword}
+          onChangeText={setConfirmPassword}
+          placeholder={t("auth.confirmPassword")}
+          placeholderTextColor={placeholderTextColor}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+        {error ? (
+          <ThemedText type="small" style={[styles.error, { color: theme.error }]}>
+            {error}
+          </ThemedText>
+        ) : null}
+      </View>
+
+      <Button
+        onPress={handleSubmit}
+        disabled={isLoading}
+        style={styles.button}
+      >
+        {isLoading ? (
+          <ActivityIndicator color={theme.buttonText} />
+        ) : (
+          t("auth.resetPassword")
+        )}
+      </Button>
+    </ScreenKeyboardAwareScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: Spacing["2xl"],
+  },
+  title: {
+    marginBottom: Spacing["3xl"],
+  },
+  inputContainer: {
+    gap: Spacing.xs,
+    marginBottom: Spacing["2xl"],
+  },
+  label: {
+    fontWeight: "500",
+  },
+  input: {
+    height: Spacing.inputHeight,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 1,
+    paddingHorizontal: Spacing.lg,
+    fontSize: 16,
+  },
+  error: {
+    marginTop: Spacing.xs,
+  },
+  button: {
+    borderRadius: BorderRadius.sm,
+  },
+});
@@ -22,7 +22,8 @@ import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useVideos } from "@/contexts/VideosContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
-import { Video, AIGuide, api } from "@/utils/api";
+import { Video, AIGuide, api, isApiError } from "@/utils/api";
+import { describeError } from "@/utils/errors";
 import { CATEGORIES_WITH_ALL, Category } from "@/constants/categories";
 
 type SearchScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -45,6 +46,8 @@ export default function SearchScreen() {
   const [otherVideos, setOtherVideos] = useState<Video[]>([]);
   const [aiGuide, setAiGuide] = useState<AIGuide | null>(null);
   const [aiAnswer, setAiAnswer] = useState<string | null>(null);
+  // Why there is no AI answer when the server turned the search away (rate limit, daily AI budget)
+  const [aiLimitMessage, setAiLimitMessage] = useState<string | null>(null);
   const [isGeneratingGuide, setIsGeneratingGuide] = useState(false);
   const [isSaved, setIsSaved] = useState(false);
 
@@ -58,6 +61,7 @@ export default function SearchScreen() {
     setOtherVideos([]);
     setAiGuide(null);
     setAiAnswer(null);
+    setAiLimitMessage(null);
     setIsSaved(false);
 
     try {
@@ -69,6 +73,9 @@ export default function SearchScreen() {
         }),
         api.askAI(problemQuery, language).catch((err) => {
           console.log("[SearchScreen] askAI error:", err?.message || err);
+          if (isApiError(err, "RATE_LIMITED", "AI_BUDGET_EXCEEDED")) {
+            setAiLimitMessage(describeError(t, err));
+          }
           return null;
         })
       ]);
@@ -125,6 +132,7 @@ export default function SearchScreen() {
     setOtherVideos([]);
     setAiGuide(null);
     setAiAnswer(null);
+    setAiLimitMessage(null);
     setIsSaved(false);
   };
 
@@ -517,7 +525,7 @@ export default function SearchScreen() {
             <View style={styles.errorContainer}>
               <Feather name="alert-circle" size={24} color={theme.error} />
               <ThemedText type="body" style={[styles.errorText, { color: theme.textSecondary }]}>
-                {t("aiGuide.noGuide")}
+                {aiLimitMessage || t("aiGuide.noGuide")}
               </ThemedText>
               <Pressable
                 onPress={handleFindSolution}
@@ -1,5 +1,5 @@
-import React, { useState } from "react";
-import { View, StyleSheet, Pressable, Switch, Alert, Platform, Linking } from "react-native";
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, Pressable, Switch, Alert, Platform, Linking, Share } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { useTranslation } from "react-i18next";
@@ -9,9 +9,12 @@ import { ThemedText } from "@/components/ThemedText";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
+import { useOAuthSignIn } from "@/hooks/useOAuthSignIn";
 import { useAuth } from "@/contexts/AuthContext";
 import { useSubscription } from "@/contexts/SubscriptionContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
+import { api, LinkedIdentity, OAuthProvider } from "@/utils/api";
+import { describeError } from "@/utils/errors";
 import { languages } from "@/utils/i18n";
 import i18n from "@/utils/i18n";
 
@@ -21,12 +24,15 @@ export default function SettingsScreen() {
   const { t } = useTranslation();
   const { theme } = useTheme();
   const navigation = useNavigation<SettingsScreenNavigationProp>();
-  const { logout } = useAuth();
+  const { user, logout } = useAuth();
   const { subscription, usage, config, createCheckout, cancelSubscription, refreshStatus } = useSubscription();
 
   const [pushNotifications, setPushNotifications] = useState(true);
   const [emailNotifications, setEmailNotifications] = useState(true);
   const [isSubscriptionLoading, setIsSubscriptionLoading] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+  const { providers: signInProviders, getCredential } = useOAuthSignIn();
 
   React.useLayoutEffect(() => {
     navigation.setOptions({
@@ -56,13 +62,92 @@ export default function SettingsScreen() {
     }
   };
 
+  useEffect(() => {
+    api
+      .getLinkedIdentities()
+      .then(setIdentities)
+      .catch((error) => console.log("[SettingsScreen] Failed to load linked sign-ins:", error));
+  }, []);
+
+  // Providers this device can sign in with, plus any linked elsewhere so they can be removed
+  const identityProviders = Array.from(
+    new Set<OAuthProvider>([...signInProviders, ...identities.map((identity) => identity.provider)])
+  );
+
+  const handleIdentityRow = async (provider: OAuthProvider) => {
+    const linked = identities.some((identity) => identity.provider === provider);
+    try {
+      if (linked) {
+        setIdentities(await api.unlinkIdentity(provider));
+      } else {
+        const credential = await getCredential(provider);
+        if (!credential) return;
+        setIdentities(await api.linkIdentity(provider, credential.idToken));
+      }
+    } catch (error) {
+      showError(describeError(t, error));
+    }
+  };
+
+  const confirmIdentityRow = (provider: OAuthProvider) => {
+    const linked = identities.some((identity) => identity.provider === provider);
+    if (!linked) {
+      handleIdentityRow(provider);
+      return;
+    }
+    const message = t("settings.unlinkSignInConfirm", { provider: provider === "apple" ? "Apple" : "Google" });
+    if (Platform.OS === "web") {
+      if (window.confirm(message)) handleIdentityRow(provider);
+      return;
+    }
+    Alert.alert(t("settings.unlinkSignIn"), message, [
+      { text: t("common.cancel"), style: "cancel" },
+      { text: t("settings.unlinkSignIn"), style: "destructive", onPress: () => handleIdentityRow(provider) },
+    ]);
+  };
+
+  const handleEmailRow = async () => {
+    if (user?.emailVerified) {
+      navigation.navigate("EditProfile");
+      return;
+    }
+    try {
+      await api.resendVerificationEmail();
+      const message = t("auth.verificationSent", { email: user?.email });
+      if (Platform.OS === "web") {
+        window.alert(message);
+      } else {
+        Alert.alert(t("auth.verifyEmail"), message);
+      }
+    } catch (error) {
+      showError(describeError(t, error));
+    }
+  };
+
+  const showError = (message: string) => {
+    if (Platform.OS === "web") {
+      window.alert(message);
+    } else {
+      Alert.alert(t("common.error"), message);
+    }
+  };
+
+  const deleteAccount = async () => {
+    try {
+      await api.deleteAccount();
+      await logout();
+    } catch (error) {
+      showError(describeError(t, error));
+    }
+  };
+
   const handleDeleteAccount = async () => {
     if (Platform.OS === "web") {
       const confirmed = window.confirm(t("settings.deleteAccountConfirm"));
       if (confirmed) {
-        const doubleConfirm = window.confirm("Are you absolutely sure?");
+        const doubleConfirm = window.confirm(t("settings.deleteAccountFinal"));
         if (doubleConfirm) {
-          await logout();
+          await deleteAccount();
         }
       }
     } else {
@@ -72,14 +157,12 @@ export default function SettingsScreen() {
           text: t("common.delete"),
           style: "destructive",
           onPress: () => {
-            Alert.alert(t("settings.deleteAccount"), "Are you absolutely sure?", [
+            Alert.alert(t("settings.deleteAccount"), t("settings.deleteAccountFinal"), [
               { text: t("common.cancel"), style: "cancel" },
               {
                 text: t("common.yes"),
                 style: "destructive",
-                onPress: async () => {
-                  await logout();
-                },
+                onPress: deleteAccount,
               },
             ]);
           },
@@ -88,6 +171,30 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleExportData = async () => {
+    if (isExporting) return;
+    setIsExporting(true);
+    try {
+      const data = await api.exportData();
+      const json = JSON.stringify(data, null, 2);
+      const fileName = `quickfix-data-${data.exportedAt.split("T")[0]}.json`;
+      if (Platform.OS === "web") {
+        const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+      } else {
+        await Share.share({ title: fileName, message: json });
+      }
+    } catch (error) {
+      showError(describeError(t, error));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleSubscribe = async () => {
     setIsSubscriptionLoading(true);
     try {
@@ -265,10 +372,39 @@ export default function SettingsScreen() {
           {t("settings.account").toUpperCase()}
         </ThemedText>
         <View style={[styles.sectionContent, { backgroundColor: theme.cardBackground }]}>
+          {renderSettingRow(
+            "mail",
+            user?.email || t("auth.email"),
+            handleEmailRow,
+            <ThemedText type="small" style={{ color: user?.emailVerified ? theme.success : theme.error }}>
+              {user?.emailVerified ? t("profile.emailVerified") : t("profile.resendVerification")}
+            </ThemedText>
+          )}
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
           {renderSettingRow("lock", t("settings.changePassword"), () => {
             Alert.alert(t("settings.changePassword"), "This feature is coming soon.");
           })}
           <View style={[styles.divider, { backgroundColor: theme.border }]} />
+          {renderSettingRow("smartphone", t("settings.signedInDevices"), () => navigation.navigate("Devices"))}
+          {identityProviders.map((provider) => {
+            const linked = identities.some((identity) => identity.provider === provider);
+            return (
+              <React.Fragment key={provider}>
+                <View style={[styles.divider, { backgroundColor: theme.border }]} />
+                {renderSettingRow(
+                  "link",
+                  provider === "apple" ? "Apple" : "Google",
+                  () => confirmIdentityRow(provider),
+                  <ThemedText type="small" style={{ color: linked ? theme.textSecondary : theme.link }}>
+                    {linked ? t("settings.unlinkSignIn") : t("settings.linkSignIn")}
+                  </ThemedText>
+                )}
+              </React.Fragment>
+            );
+          })}
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+          {renderSettingRow("download", t("settings.exportData"), handleExportData)}
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
           {renderSettingRow("trash-2", t("settings.deleteAccount"), handleDeleteAccount, undefined, true)}
         </View>
       </View>
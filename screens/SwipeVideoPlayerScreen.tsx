@@ -19,8 +19,10 @@ import { useVideoPlayer, VideoView } from "expo-video";
 import { useEvent } from "expo";
 
 import { ThemedText } from "@/components/ThemedText";
+import { ChapterList, ChapterScrubber, useChapterPlayback } from "@/components/VideoChapters";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
 import { useAuth } from "@/contexts/AuthContext";
 import { useVideos } from "@/contexts/VideosContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
@@ -30,6 +32,9 @@ import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
 const { width, height } = Dimensions.get("window");
 
+// Fetch the next page while this many videos are still ahead
+const PREFETCH_DISTANCE = 3;
+
 type SwipeVideoPlayerRouteProp = RouteProp<RootStackParamList, "SwipeVideoPlayer">;
 type SwipeVideoPlayerNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
@@ -64,6 +69,11 @@ function VideoItem({ video, isActive, onCategoryPress, onTagPress }: VideoItemPr
 
   const { isPlaying } = useEvent(player, "playingChange", { isPlaying: player.playing });
 
+  const chapters = video.chapters ?? [];
+  const [showChapters, setShowChapters] = useState(false);
+  const { currentTime, activeIndex, completedSteps, seekTo, toggleStepComplete } =
+    useChapterPlayback(player, chapters);
+
   useEffect(() => {
     if (isActive) {
       player.play();
@@ -263,6 +273,18 @@ function VideoItem({ video, isActive, onCategoryPress, onTagPress }: VideoItemPr
                   </ThemedText>
                 </Pressable>
 
+                {chapters.length > 0 ? (
+                  <Pressable
+                    onPress={() => setShowChapters(true)}
+                    style={({ pressed }) => [styles.actionButton, { opacity: pressed ? 0.6 : 1 }]}
+                  >
+                    <Feather name="list" size={26} color="#FFFFFF" />
+                    <ThemedText type="small" style={styles.actionText}>
+                      {t("player.steps")}
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+
                 <Pressable
                   onPress={handleShare}
                   style={({ pressed }) => [styles.actionButton, { opacity: pressed ? 0.6 : 1 }]}
@@ -274,9 +296,31 @@ function VideoItem({ video, isActive, onCategoryPress, onTagPress }: VideoItemPr
                 </Pressable>
               </View>
             </View>
+
+            {chapters.length > 0 ? (
+              <ChapterScrubber
+                chapters={chapters}
+                duration={video.duration}
+                currentTime={currentTime}
+                activeIndex={activeIndex}
+                completedSteps={completedSteps}
+                onSeek={seekTo}
+              />
+            ) : null}
           </LinearGradient>
         </>
       ) : null}
+
+      {showChapters ? (
+        <ChapterList
+          chapters={chapters}
+          activeIndex={activeIndex}
+          completedSteps={completedSteps}
+          onSeek={seekTo}
+          onToggleComplete={toggleStepComplete}
+          onClose={() => setShowChapters(false)}
+        />
+      ) : null}
     </View>
   );
 }
@@ -286,17 +330,33 @@ export default function SwipeVideoPlayerScreen() {
   const insets = useSafeAreaInsets();
   const navigation = useNavigation<SwipeVideoPlayerNavigationProp>();
   const route = useRoute<SwipeVideoPlayerRouteProp>();
-  const { videos: contextVideos } = useVideos();
+  const { videos: contextVideos, getVideoPage } = useVideos();
+
+  const { videos: routeVideos, startIndex, source, nextCursor } = route.params;
+
+  const { items, hasMore, loadMore } = usePaginatedList<VideoType>(
+    async (cursor) => {
+      if (!source) return { items: [], nextCursor: null };
+      const page = await getVideoPage(source, cursor);
+      return { ...page, items: page.items.filter((v) => v.videoUrl) };
+    },
+    [],
+    { initialItems: routeVideos, initialCursor: source ? nextCursor : null },
+  );
 
-  const { videos: routeVideos, startIndex } = route.params;
-  
-  const videos = routeVideos.map(rv => 
+  const videos = items.map(rv => 
     contextVideos.find(v => v.id === rv.id) || rv as unknown as VideoType
   );
 
   const [activeIndex, setActiveIndex] = useState(startIndex);
   const flatListRef = useRef<FlatList>(null);
 
+  useEffect(() => {
+    if (hasMore && activeIndex >= items.length - PREFETCH_DISTANCE) {
+      loadMore();
+    }
+  }, [activeIndex, items.length, hasMore, loadMore]);
+
   const onViewableItemsChanged = useCallback(({ viewableItems }: { viewableItems: ViewToken[] }) => {
     if (viewableItems.length > 0 && viewableItems[0].index !== null) {
       setActiveIndex(viewableItems[0].index);
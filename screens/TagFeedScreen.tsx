@@ -18,8 +18,9 @@ import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useVideos } from "@/contexts/VideosContext";
 import { useScreenInsets } from "@/hooks/useScreenInsets";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
 import { RootStackParamList } from "@/navigation/RootNavigator";
-import { Video } from "@/utils/api";
+import { Video, VideoSource } from "@/utils/api";
 
 type TagFeedRouteProp = RouteProp<RootStackParamList, "TagFeed">;
 type TagFeedNavigationProp = NativeStackNavigationProp<RootStackParamList>;
@@ -30,7 +31,7 @@ export default function TagFeedScreen() {
   const navigation = useNavigation<TagFeedNavigationProp>();
   const route = useRoute<TagFeedRouteProp>();
   const { tag } = route.params;
-  const { videos, isLoading, refreshVideos, toggleSave, toggleLike } = useVideos();
+  const { getVideoPage, toggleSave, toggleLike } = useVideos();
   const { paddingBottom } = useScreenInsets();
 
   React.useLayoutEffect(() => {
@@ -39,24 +40,44 @@ export default function TagFeedScreen() {
     });
   }, [navigation, tag]);
 
-  const filteredVideos = useMemo(() => {
-    return videos.filter((v) =>
-      v.videoUrl && v.tags?.some((t) => t.toLowerCase() === tag.toLowerCase())
-    );
-  }, [videos, tag]);
+  const source = useMemo<VideoSource>(() => ({ type: "videos", tag }), [tag]);
+  const {
+    items,
+    isLoading,
+    isRefreshing,
+    isLoadingMore,
+    hasMore,
+    refresh,
+    updateItem,
+    nextCursor,
+    listProps,
+  } = usePaginatedList((cursor) => getVideoPage(source, cursor), [source]);
+
+  const filteredVideos = useMemo(() => items.filter((v) => v.videoUrl), [items]);
 
   const handleVideoPress = useCallback(
     (video: Video, index: number) => {
-      const playableVideos = filteredVideos.filter(v => v.videoUrl);
-      const adjustedIndex = playableVideos.findIndex(v => v.id === video.id);
+      const adjustedIndex = filteredVideos.findIndex(v => v.id === video.id);
       navigation.navigate("SwipeVideoPlayer", { 
-        videos: playableVideos, 
-        startIndex: adjustedIndex >= 0 ? adjustedIndex : 0 
+        videos: filteredVideos, 
+        startIndex: adjustedIndex >= 0 ? adjustedIndex : 0,
+        source,
+        nextCursor,
       });
     },
-    [navigation, filteredVideos]
+    [navigation, filteredVideos, source, nextCursor]
   );
 
+  const handleToggleSave = async (videoId: string) => {
+    const saved = await toggleSave(videoId);
+    updateItem(videoId, { isSaved: saved });
+  };
+
+  const handleToggleLike = async (videoId: string) => {
+    const { liked, likesCount } = await toggleLike(videoId);
+    updateItem(videoId, { isLiked: liked, likesCount });
+  };
+
   const renderEmptyState = () => (
     <View style={styles.emptyState}>
       <View style={[styles.emptyIconContainer, { backgroundColor: theme.backgroundSecondary }]}>
@@ -79,11 +100,18 @@ export default function TagFeedScreen() {
         </ThemedText>
       </View>
       <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
-        {filteredVideos.length} {filteredVideos.length === 1 ? 'video' : 'videos'}
+        {filteredVideos.length}{hasMore ? '+' : ''} {filteredVideos.length === 1 && !hasMore ? 'video' : 'videos'}
       </ThemedText>
     </View>
   );
 
+  const renderFooter = () =>
+    isLoadingMore ? (
+      <View style={styles.footer}>
+        <ActivityIndicator color={theme.link} />
+      </View>
+    ) : null;
+
   if (isLoading && filteredVideos.length === 0) {
     return (
       <View style={[styles.loadingContainer, { backgroundColor: theme.backgroundRoot }]}>
@@ -94,6 +122,7 @@ export default function TagFeedScreen() {
 
   return (
     <FlatList
+      {...listProps}
       data={filteredVideos}
       keyExtractor={(item) => item.id}
       contentContainerStyle={[
@@ -103,8 +132,8 @@ export default function TagFeedScreen() {
       style={{ backgroundColor: theme.backgroundRoot }}
       refreshControl={
         <RefreshControl
-          refreshing={isLoading}
-          onRefresh={refreshVideos}
+          refreshing={isRefreshing}
+          onRefresh={refresh}
           tintColor={theme.link}
         />
       }
@@ -114,13 +143,14 @@ export default function TagFeedScreen() {
           video={item}
           isSaved={item.isSaved}
           isLiked={item.isLiked}
-          onSave={() => toggleSave(item.id)}
-          onLike={() => toggleLike(item.id)}
+          onSave={() => handleToggleSave(item.id)}
+          onLike={() => handleToggleLike(item.id)}
           onPress={() => handleVideoPress(item, index)}
         />
       )}
       ItemSeparatorComponent={() => <View style={{ height: Spacing.lg }} />}
       ListEmptyComponent={renderEmptyState}
+      ListFooterComponent={renderFooter}
     />
   );
 }
@@ -137,6 +167,10 @@ const styles = StyleSheet.create({
   headerInfo: {
     marginBottom: Spacing.xl,
   },
+  footer: {
+    paddingVertical: Spacing.xl,
+    alignItems: "center",
+  },
   tagBadge: {
     alignSelf: "flex-start",
     paddingHorizontal: Spacing.lg,
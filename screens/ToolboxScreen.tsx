@@ -12,45 +12,44 @@ import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useVideos } from "@/contexts/VideosContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
-import { Video, AIGuide } from "@/utils/api";
+import { Video, AIGuide, VideoSource } from "@/utils/api";
 import { useScreenInsets } from "@/hooks/useScreenInsets";
+import { usePaginatedList } from "@/hooks/usePaginatedList";
 
 type ToolboxScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+const SAVED_SOURCE: VideoSource = { type: "saved" };
+
 export default function ToolboxScreen() {
   const { t } = useTranslation();
   const { theme } = useTheme();
   const navigation = useNavigation<ToolboxScreenNavigationProp>();
-  const { getSavedVideos, toggleSave, toggleLike, savedGuides, deleteGuide, loadSavedGuides } = useVideos();
+  const { getVideoPage, toggleSave, toggleLike, savedGuides, deleteGuide, loadSavedGuides } = useVideos();
   const { paddingTop, paddingBottom } = useScreenInsets();
 
-  const [savedVideos, setSavedVideos] = useState<Video[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [activeTab, setActiveTab] = useState<'videos' | 'guides'>('videos');
   const [expandedGuides, setExpandedGuides] = useState<Set<string>>(new Set());
 
-  const loadSavedVideos = async () => {
-    try {
-      const videos = await getSavedVideos();
-      setSavedVideos(videos ?? []);
-    } catch (error) {
-      console.log("Failed to load saved videos:", error);
-      setSavedVideos([]);
-    } finally {
-      setIsLoading(false);
-      setIsRefreshing(false);
-    }
-  };
+  const {
+    items: savedVideos,
+    isLoading,
+    isLoadingMore,
+    hasMore,
+    loadMore,
+    refresh: refreshSavedVideos,
+    updateItem,
+    removeItem,
+    nextCursor,
+  } = usePaginatedList((cursor) => getVideoPage(SAVED_SOURCE, cursor), []);
 
   useEffect(() => {
-    loadSavedVideos();
     loadSavedGuides();
   }, []);
 
   const handleRefresh = async () => {
     setIsRefreshing(true);
-    await Promise.all([loadSavedVideos(), loadSavedGuides()]);
+    await Promise.all([refreshSavedVideos(), loadSavedGuides()]);
     setIsRefreshing(false);
   };
 
@@ -59,17 +58,24 @@ export default function ToolboxScreen() {
     const adjustedIndex = playableVideos.findIndex(v => v.id === video.id);
     navigation.navigate("SwipeVideoPlayer", { 
       videos: playableVideos, 
-      startIndex: adjustedIndex >= 0 ? adjustedIndex : 0 
+      startIndex: adjustedIndex >= 0 ? adjustedIndex : 0,
+      source: SAVED_SOURCE,
+      nextCursor,
     });
-  }, [navigation, savedVideos]);
+  }, [navigation, savedVideos, nextCursor]);
 
   const handleToggleSave = async (videoId: string) => {
     const saved = await toggleSave(videoId);
     if (!saved) {
-      setSavedVideos((prev) => prev.filter((v) => v.id !== videoId));
+      removeItem(videoId);
     }
   };
 
+  const handleToggleLike = async (videoId: string) => {
+    const { liked, likesCount } = await toggleLike(videoId);
+    updateItem(videoId, { isLiked: liked, likesCount });
+  };
+
   const handleDeleteGuide = async (guideId: string) => {
     await deleteGuide(guideId);
   };
@@ -228,7 +234,7 @@ export default function ToolboxScreen() {
             fontWeight: activeTab === 'videos' ? "600" : "500"
           }}
         >
-          Videos ({savedVideos.length})
+          Videos ({savedVideos.length}{hasMore ? "+" : ""})
         </ThemedText>
       </Pressable>
       <Pressable
@@ -292,6 +298,8 @@ export default function ToolboxScreen() {
           <FlatList
             data={savedVideos}
             keyExtractor={(item) => item.id}
+            onEndReached={loadMore}
+            onEndReachedThreshold={0.5}
             contentContainerStyle={[
               styles.listContent,
               { paddingBottom },
@@ -309,11 +317,18 @@ export default function ToolboxScreen() {
                 isSaved={item.isSaved}
                 isLiked={item.isLiked}
                 onSave={() => handleToggleSave(item.id)}
-                onLike={() => toggleLike(item.id)}
+                onLike={() => handleToggleLike(item.id)}
                 onPress={() => handleVideoPress(item, index)}
               />
             )}
             ItemSeparatorComponent={() => <View style={{ height: Spacing.lg }} />}
+            ListFooterComponent={
+              isLoadingMore ? (
+                <View style={styles.listFooter}>
+                  <ActivityIndicator color={theme.link} />
+                </View>
+              ) : null
+            }
           />
         )
       ) : (
@@ -367,6 +382,10 @@ const styles = StyleSheet.create({
     paddingHorizontal: Spacing.xl,
     paddingTop: Spacing.lg,
   },
+  listFooter: {
+    paddingVertical: Spacing.xl,
+    alignItems: "center",
+  },
   guidesListContent: {
     paddingHorizontal: Spacing.xl,
     paddingTop: Spacing.lg,
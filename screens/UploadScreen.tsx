@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import {
   View,
   StyleSheet,
@@ -8,6 +8,9 @@ import {
   ActivityIndicator,
   Switch,
   Platform,
+  AppState,
+  Image,
+  ScrollView,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { useTranslation } from "react-i18next";
@@ -20,6 +23,26 @@ import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 import { useVideos } from "@/contexts/VideosContext";
 import { CATEGORIES } from "@/constants/categories";
+import { api, isStreamCancelled, VideoChapter, VideoUploadStatus } from "@/utils/api";
+import {
+  uploadVideo,
+  discardVideoUpload,
+  getPendingVideoUri,
+  VideoUploadHandle,
+} from "@/utils/videoUpload";
+import {
+  formatTimestamp,
+  parseTimestamp,
+  numberChapters,
+  MAX_CHAPTERS,
+  MAX_CHAPTER_TEXT_LENGTH,
+} from "@/utils/chapters";
+
+type UploadState = "idle" | "uploading" | "paused" | "done" | "error";
+
+// Thumbnails are generated after the upload completes; poll for a while
+const THUMBNAIL_POLL_MS = 2000;
+const MAX_THUMBNAIL_POLLS = 30;
 
 export default function UploadScreen() {
   const { t } = useTranslation();
@@ -34,10 +57,137 @@ export default function UploadScreen() {
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
   const [allowComments, setAllowComments] = useState(true);
+  const [autoCaptions, setAutoCaptions] = useState(true);
   const [isPublishing, setIsPublishing] = useState(false);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
   const [isGeneratingTags, setIsGeneratingTags] = useState(false);
   const [isGeneratingDesc, setIsGeneratingDesc] = useState(false);
+  const [uploadState, setUploadState] = useState<UploadState>("idle");
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [uploadId, setUploadId] = useState<string | null>(null);
+  const [thumbnailStatus, setThumbnailStatus] = useState<VideoUploadStatus["thumbnailStatus"] | null>(null);
+  const [thumbnailUrls, setThumbnailUrls] = useState<string[]>([]);
+  const [coverUrl, setCoverUrl] = useState<string | null>(null);
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+  const [chapters, setChapters] = useState<VideoChapter[]>([]);
+  const [chapterTimeInput, setChapterTimeInput] = useState("");
+  const [chapterTextInput, setChapterTextInput] = useState("");
+  const uploadRef = useRef<VideoUploadHandle | null>(null);
+
+  const applyThumbnails = useCallback((status: VideoUploadStatus) => {
+    setThumbnailStatus(status.thumbnailStatus);
+    setThumbnailUrls(status.thumbnailUrls);
+    setCoverUrl((current) =>
+      current && status.thumbnailUrls.includes(current) ? current : status.thumbnailUrl,
+    );
+  }, []);
+
+  const resetThumbnails = () => {
+    setThumbnailStatus(null);
+    setThumbnailUrls([]);
+    setCoverUrl(null);
+  };
+
+  const startUpload = useCallback((uri: string) => {
+    uploadRef.current?.cancel();
+    setUploadState("uploading");
+    setUploadError(null);
+
+    const handle = uploadVideo(uri, (sent, total) => {
+      setUploadProgress(total > 0 ? sent / total : 0);
+    });
+    uploadRef.current = handle;
+
+    handle.result
+      .then((status) => {
+        if (uploadRef.current !== handle) return;
+        setUploadId(status.uploadId);
+        setVideoDuration(status.duration);
+        applyThumbnails(status);
+        setUploadProgress(1);
+        setUploadState("done");
+      })
+      .catch((error: any) => {
+        if (uploadRef.current !== handle) return;
+        if (isStreamCancelled(error)) {
+          setUploadState("paused");
+          return;
+        }
+        console.log("[Upload] Failed:", error?.message || error);
+        setUploadError(error?.message || t("upload.uploadFailed"));
+        setUploadState("error");
+      });
+  }, [t, applyThumbnails]);
+
+  // Pick up an upload interrupted by a restart
+  useEffect(() => {
+    getPendingVideoUri().then((uri) => {
+      if (uri) {
+        setVideoUri((current) => current ?? uri);
+        startUpload(uri);
+      }
+    });
+    return () => uploadRef.current?.cancel();
+  }, [startUpload]);
+
+  // Sockets may die while backgrounded; resume from the server's offset
+  useEffect(() => {
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active" && videoUri && (uploadState === "paused" || uploadState === "error")) {
+        startUpload(videoUri);
+      } else if (state === "background" && uploadState === "uploading") {
+        uploadRef.current?.cancel();
+      }
+    });
+    return () => subscription.remove();
+  }, [videoUri, uploadState, startUpload]);
+
+  useEffect(() => {
+    if (uploadState !== "done" || !uploadId || thumbnailStatus !== "pending") return;
+
+    let polls = 0;
+    const interval = setInterval(async () => {
+      polls += 1;
+      try {
+        const status = await api.getVideoUpload(uploadId);
+        applyThumbnails(status);
+        if (status.thumbnailStatus !== "pending") clearInterval(interval);
+      } catch (error: any) {
+        console.log("[Upload] Thumbnail poll failed:", error?.message || error);
+      }
+      if (polls >= MAX_THUMBNAIL_POLLS) {
+        // Publishing still works; the server applies its default frame later
+        clearInterval(interval);
+        setThumbnailStatus("failed");
+      }
+    }, THUMBNAIL_POLL_MS);
+    return () => clearInterval(interval);
+  }, [uploadState, uploadId, thumbnailStatus, applyThumbnails]);
+
+  const selectVideo = async (uri: string) => {
+    await discardVideoUpload();
+    resetThumbnails();
+    setVideoDuration(null);
+    setUploadId(null);
+    setUploadProgress(0);
+    setVideoUri(uri);
+    startUpload(uri);
+  };
+
+  const removeVideo = async () => {
+    const handle = uploadRef.current;
+    uploadRef.current = null;
+    handle?.cancel();
+    await discardVideoUpload();
+    resetThumbnails();
+    setVideoDuration(null);
+    setVideoUri(null);
+    setUploadId(null);
+    setUploadProgress(0);
+    setUploadError(null);
+    setUploadState("idle");
+  };
 
   React.useLayoutEffect(() => {
     navigation.setOptions({
@@ -72,7 +222,7 @@ export default function UploadScreen() {
         </Pressable>
       ),
     });
-  }, [navigation, theme, t, isPublishing, title, selectedCategory]);
+  }, [navigation, theme, t, isPublishing, title, selectedCategory, uploadState, uploadId, videoUri, coverUrl, chapters, autoCaptions]);
 
   const pickVideo = async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -89,7 +239,7 @@ export default function UploadScreen() {
     });
 
     if (!result.canceled && result.assets[0]) {
-      setVideoUri(result.assets[0].uri);
+      selectVideo(result.assets[0].uri);
     }
   };
 
@@ -113,7 +263,7 @@ export default function UploadScreen() {
     });
 
     if (!result.canceled && result.assets[0]) {
-      setVideoUri(result.assets[0].uri);
+      selectVideo(result.assets[0].uri);
     }
   };
 
@@ -129,6 +279,27 @@ export default function UploadScreen() {
     setTags(tags.filter((tag) => tag !== tagToRemove));
   };
 
+  const addChapter = () => {
+    const text = chapterTextInput.trim();
+    const startTime = parseTimestamp(chapterTimeInput);
+    if (!text || chapters.length >= MAX_CHAPTERS) return;
+    if (startTime === null || (videoDuration !== null && startTime >= videoDuration)) {
+      Alert.alert(t("common.error"), t("upload.invalidChapterTime"));
+      return;
+    }
+    if (chapters.some((chapter) => chapter.startTime === startTime)) {
+      Alert.alert(t("common.error"), t("upload.duplicateChapterTime"));
+      return;
+    }
+    setChapters(numberChapters([...chapters, { startTime, text }]));
+    setChapterTimeInput("");
+    setChapterTextInput("");
+  };
+
+  const removeChapter = (stepNumber: number) => {
+    setChapters(numberChapters(chapters.filter((chapter) => chapter.stepNumber !== stepNumber)));
+  };
+
   const handleSuggestTags = async () => {
     if (!title.trim()) {
       Alert.alert(t("common.error"), t("upload.titleRequired"));
@@ -175,6 +346,14 @@ export default function UploadScreen() {
       Alert.alert(t("common.error"), t("upload.categoryRequired"));
       return;
     }
+    if (!videoUri) {
+      Alert.alert(t("common.error"), t("upload.videoRequired"));
+      return;
+    }
+    if (uploadState !== "done" || !uploadId) {
+      Alert.alert(t("common.error"), t("upload.waitForUpload"));
+      return;
+    }
 
     setIsPublishing(true);
 
@@ -184,8 +363,10 @@ export default function UploadScreen() {
         description: description.trim() || undefined,
         category: selectedCategory,
         tags,
-        videoUrl: videoUri || undefined,
-        duration: 45,
+        uploadId,
+        thumbnailUrl: coverUrl || undefined,
+        chapters: chapters.length > 0 ? chapters : undefined,
+        autoCaptions,
         commentsEnabled: allowComments,
       });
 
@@ -213,12 +394,45 @@ export default function UploadScreen() {
       <View style={styles.section}>
         {videoUri ? (
           <View style={[styles.videoPreview, { backgroundColor: theme.backgroundSecondary }]}>
-            <Feather name="video" size={40} color={theme.link} />
+            <Feather
+              name={uploadState === "done" ? "check-circle" : uploadState === "error" ? "alert-circle" : "video"}
+              size={40}
+              color={uploadState === "error" ? theme.error : theme.link}
+            />
             <ThemedText type="small" style={{ color: theme.textSecondary, marginTop: Spacing.sm }}>
-              Video selected
+              {uploadState === "done"
+                ? t("upload.uploadComplete")
+                : uploadState === "error"
+                  ? uploadError
+                  : uploadState === "paused"
+                    ? t("upload.uploadPaused")
+                    : t("upload.uploadingVideo", { percent: Math.round(uploadProgress * 100) })}
             </ThemedText>
+            {uploadState !== "done" && uploadState !== "error" ? (
+              <View style={[styles.progressTrack, { backgroundColor: theme.border }]}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { backgroundColor: theme.link, width: `${Math.round(uploadProgress * 100)}%` },
+                  ]}
+                />
+              </View>
+            ) : null}
+            {uploadState === "error" || uploadState === "paused" ? (
+              <Pressable
+                onPress={() => videoUri && startUpload(videoUri)}
+                style={({ pressed }) => [
+                  styles.retryButton,
+                  { backgroundColor: theme.link, opacity: pressed ? 0.8 : 1 },
+                ]}
+              >
+                <ThemedText type="small" style={{ color: "#FFFFFF", fontWeight: "600" }}>
+                  {t("common.retry")}
+                </ThemedText>
+              </Pressable>
+            ) : null}
             <Pressable
-              onPress={() => setVideoUri(null)}
+              onPress={removeVideo}
               style={({ pressed }) => [
                 styles.removeButton, 
                 { backgroundColor: theme.error, opacity: pressed ? 0.8 : 1 }
@@ -261,6 +475,42 @@ export default function UploadScreen() {
         )}
       </View>
 
+      {uploadState === "done" && (thumbnailStatus === "pending" || thumbnailUrls.length > 0) ? (
+        <View style={styles.section}>
+          <ThemedText type="small" style={[styles.label, { color: theme.text }]}>
+            {t("upload.coverFrame")}
+          </ThemedText>
+          {thumbnailStatus === "pending" ? (
+            <View style={styles.coverPending}>
+              <ActivityIndicator size="small" color={theme.link} />
+              <ThemedText type="small" style={{ color: theme.textSecondary, marginLeft: Spacing.sm }}>
+                {t("upload.generatingThumbnails")}
+              </ThemedText>
+            </View>
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.coverRow}>
+              {thumbnailUrls.map((url) => (
+                <Pressable
+                  key={url}
+                  onPress={() => setCoverUrl(url)}
+                  style={({ pressed }) => [
+                    styles.coverOption,
+                    { borderColor: coverUrl === url ? theme.link : "transparent", opacity: pressed ? 0.8 : 1 },
+                  ]}
+                >
+                  <Image source={{ uri: url }} style={styles.coverImage} resizeMode="cover" />
+                  {coverUrl === url ? (
+                    <View style={[styles.coverCheck, { backgroundColor: theme.link }]}>
+                      <Feather name="check" size={12} color="#FFFFFF" />
+                    </View>
+                  ) : null}
+                </Pressable>
+              ))}
+            </ScrollView>
+          )}
+        </View>
+      ) : null}
+
       <View style={styles.section}>
         <ThemedText type="small" style={[styles.label, { color: theme.text }]}>
           {t("upload.title")} *
@@ -447,6 +697,65 @@ export default function UploadScreen() {
         ) : null}
       </View>
 
+      <View style={styles.section}>
+        <ThemedText type="small" style={[styles.label, { color: theme.text }]}>
+          {t("upload.chapters")}
+        </ThemedText>
+        {chapters.map((chapter) => (
+          <View key={chapter.stepNumber} style={[styles.chapterRow, { backgroundColor: theme.backgroundSecondary }]}>
+            <ThemedText type="small" style={{ color: theme.link, fontWeight: "600" }}>
+              {formatTimestamp(chapter.startTime)}
+            </ThemedText>
+            <ThemedText type="small" style={styles.chapterText} numberOfLines={1}>
+              {chapter.text}
+            </ThemedText>
+            <Pressable
+              onPress={() => removeChapter(chapter.stepNumber)}
+              hitSlop={8}
+              style={({ pressed }) => ({ opacity: pressed ? 0.6 : 1 })}
+            >
+              <Feather name="x" size={14} color={theme.textSecondary} />
+            </Pressable>
+          </View>
+        ))}
+        {chapters.length < MAX_CHAPTERS ? (
+          <View style={styles.tagInputRow}>
+            <TextInput
+              style={[inputStyle, styles.chapterTimeInput]}
+              value={chapterTimeInput}
+              onChangeText={setChapterTimeInput}
+              placeholder="0:05"
+              placeholderTextColor={theme.placeholder}
+              keyboardType="numbers-and-punctuation"
+              maxLength={5}
+            />
+            <TextInput
+              style={[inputStyle, styles.tagInput]}
+              value={chapterTextInput}
+              onChangeText={setChapterTextInput}
+              placeholder={t("upload.chapterText")}
+              placeholderTextColor={theme.placeholder}
+              maxLength={MAX_CHAPTER_TEXT_LENGTH}
+              onSubmitEditing={addChapter}
+              returnKeyType="done"
+            />
+            <Pressable
+              onPress={addChapter}
+              disabled={!chapterTimeInput.trim() || !chapterTextInput.trim()}
+              style={({ pressed }) => [
+                styles.addTagButton,
+                {
+                  backgroundColor: theme.link,
+                  opacity: chapterTimeInput.trim() && chapterTextInput.trim() ? (pressed ? 0.8 : 1) : 0.5,
+                },
+              ]}
+            >
+              <Feather name="plus" size={20} color="#FFFFFF" />
+            </Pressable>
+          </View>
+        ) : null}
+      </View>
+
       <View style={[styles.toggleSection, { backgroundColor: theme.backgroundSecondary }]}>
         <View style={styles.toggleContent}>
           <Feather name="message-circle" size={20} color={theme.text} />
@@ -459,6 +768,19 @@ export default function UploadScreen() {
           thumbColor="#FFFFFF"
         />
       </View>
+
+      <View style={[styles.toggleSection, styles.toggleSpacing, { backgroundColor: theme.backgroundSecondary }]}>
+        <View style={styles.toggleContent}>
+          <Feather name="type" size={20} color={theme.text} />
+          <ThemedText type="body" style={{ marginLeft: Spacing.md }}>{t("upload.autoCaptions")}</ThemedText>
+        </View>
+        <Switch
+          value={autoCaptions}
+          onValueChange={setAutoCaptions}
+          trackColor={{ false: theme.border, true: theme.link }}
+          thumbColor="#FFFFFF"
+        />
+      </View>
     </ScreenKeyboardAwareScrollView>
   );
 }
@@ -552,6 +874,23 @@ const styles = StyleSheet.create({
     alignItems: "center",
     position: "relative",
   },
+  progressTrack: {
+    width: "60%",
+    height: 6,
+    borderRadius: 3,
+    marginTop: Spacing.md,
+    overflow: "hidden",
+  },
+  progressFill: {
+    height: "100%",
+    borderRadius: 3,
+  },
+  retryButton: {
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.full,
+  },
   removeButton: {
     position: "absolute",
     top: Spacing.md,
@@ -562,6 +901,34 @@ const styles = StyleSheet.create({
     justifyContent: "center",
     alignItems: "center",
   },
+  coverPending: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  coverRow: {
+    gap: Spacing.sm,
+  },
+  coverOption: {
+    width: 112,
+    aspectRatio: 16 / 9,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 2,
+    overflow: "hidden",
+  },
+  coverImage: {
+    width: "100%",
+    height: "100%",
+  },
+  coverCheck: {
+    position: "absolute",
+    top: 4,
+    right: 4,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    justifyContent: "center",
+    alignItems: "center",
+  },
   tagInputRow: {
     flexDirection: "row",
     gap: Spacing.sm,
@@ -590,6 +957,22 @@ const styles = StyleSheet.create({
     paddingVertical: Spacing.sm,
     borderRadius: BorderRadius.full,
   },
+  chapterRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    marginBottom: Spacing.sm,
+  },
+  chapterText: {
+    flex: 1,
+  },
+  chapterTimeInput: {
+    width: 72,
+    textAlign: "center",
+  },
   toggleSection: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -597,6 +980,9 @@ const styles = StyleSheet.create({
     padding: Spacing.lg,
     borderRadius: BorderRadius.md,
   },
+  toggleSpacing: {
+    marginTop: Spacing.md,
+  },
   toggleContent: {
     flexDirection: "row",
     alignItems: "center",
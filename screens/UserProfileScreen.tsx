@@ -10,9 +10,10 @@ import { ThemedText } from "@/components/ThemedText";
 import { ScreenScrollView } from "@/components/ScreenScrollView";
 import { Spacing, BorderRadius } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
+import { usePaginatedList, isCloseToEnd } from "@/hooks/usePaginatedList";
 import { useAuth } from "@/contexts/AuthContext";
 import { RootStackParamList } from "@/navigation/RootNavigator";
-import { Video, UserProfile, api as apiClient } from "@/utils/api";
+import { Video, UserProfile, api as apiClient, isApiError } from "@/utils/api";
 
 type UserProfileScreenNavigationProp = NativeStackNavigationProp<RootStackParamList>;
 type UserProfileScreenRouteProp = RouteProp<RootStackParamList, "UserProfile">;
@@ -32,13 +33,18 @@ export default function UserProfileScreen() {
   const { userId } = route.params;
 
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [userVideos, setUserVideos] = useState<Video[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isBlocking, setIsBlocking] = useState(false);
   const [isFollowing, setIsFollowing] = useState(false);
   const [isBlocked, setIsBlocked] = useState(false);
   const [isBlockedByUser, setIsBlockedByUser] = useState(false);
 
+  const {
+    items: userVideos,
+    hasMore: hasMoreVideos,
+    loadMore: loadMoreVideos,
+  } = usePaginatedList((cursor) => apiClient.getUserVideos(userId, { cursor }), [userId]);
+
   useEffect(() => {
     loadUserProfile();
   }, [userId]);
@@ -50,12 +56,9 @@ export default function UserProfileScreen() {
       setUserProfile(profile);
       setIsFollowing(profile.isFollowing ?? false);
       setIsBlocked(profile.isBlocked ?? false);
-      
-      const videos = await apiClient.getUserVideos(userId);
-      setUserVideos(videos ?? []);
     } catch (error: any) {
       console.log("Error loading user profile:", error);
-      if (error.message?.includes("User not available")) {
+      if (isApiError(error, "USER_BLOCKED")) {
         setIsBlockedByUser(true);
       }
     } finally {
@@ -216,7 +219,13 @@ export default function UserProfileScreen() {
   };
 
   return (
-    <ScreenScrollView contentContainerStyle={styles.content}>
+    <ScreenScrollView
+      contentContainerStyle={styles.content}
+      onScroll={(event) => {
+        if (isCloseToEnd(event)) loadMoreVideos();
+      }}
+      scrollEventThrottle={200}
+    >
       <View style={styles.profileHeader}>
         <View style={styles.avatarContainer}>
           {userProfile.avatarUrl ? (
@@ -270,7 +279,7 @@ export default function UserProfileScreen() {
           <View style={[styles.statDivider, { backgroundColor: theme.border }]} />
           <View style={styles.stat}>
             <ThemedText type="h3" style={{ fontWeight: "700" }}>
-              {userVideos.length}
+              {userVideos.length}{hasMoreVideos ? "+" : ""}
             </ThemedText>
             <ThemedText type="small" style={{ color: theme.textSecondary }}>
               {t("profile.videos")}
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from "react";
+import { View, StyleSheet, ActivityIndicator } from "react-native";
+import { useNavigation, useRoute, RouteProp } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
+import { useTranslation } from "react-i18next";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Button } from "@/components/Button";
+import { ScreenScrollView } from "@/components/ScreenScrollView";
+import { Spacing, BorderRadius } from "@/constants/theme";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/contexts/AuthContext";
+import { RootStackParamList } from "@/navigation/RootNavigator";
+import { api, EmailVerificationResult } from "@/utils/api";
+import { describeError } from "@/utils/errors";
+
+const RESULT_MESSAGES: Record<EmailVerificationResult["status"], string> = {
+  verified: "auth.emailVerifiedDone",
+  pending: "auth.emailChangeHalfDone",
+  changed: "auth.emailChangedDone",
+};
+
+export default function VerifyEmailScreen() {
+  const { t } = useTranslation();
+  const { theme } = useTheme();
+  const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
+  const route = useRoute<RouteProp<RootStackParamList, "VerifyEmail">>();
+  const { isAuthenticated, refreshUser } = useAuth();
+
+  const [result, setResult] = useState<EmailVerificationResult | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .verifyEmail(route.params.token)
+      .then((verification) => {
+        if (cancelled) return;
+        setResult(verification);
+        if (isAuthenticated) refreshUser();
+      })
+      .catch((err) => {
+        if (!cancelled) setError(describeError(t, err));
+      });
+    return () => {
+      cancelled = true;
+    };
+    // The token is single-use, so this runs once per link
+  }, [route.params.token]);
+
+  const handleDone = () => {
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    } else {
+      navigation.replace(isAuthenticated ? "MainTabs" : "Auth");
+    }
+  };
+
+  if (!result && !error) {
+    return (
+      <View style={[styles.centered, { backgroundColor: theme.backgroundRoot }]}>
+        <ActivityIndicator color={theme.link} />
+      </View>
+    );
+  }
+
+  return (
+    <ScreenScrollView contentContainerStyle={styles.content}>
+      <View style={[styles.iconContainer, { backgroundColor: error ? `${theme.error}15` : `${theme.link}15` }]}>
+        <Feather name={error ? "alert-circle" : "mail"} size={32} color={error ? theme.error : theme.link} />
+      </View>
+
+      <ThemedText type="h2" style={styles.title}>
+        {error ? t("auth.verifyEmailFailed") : t("auth.verifyEmail")}
+      </ThemedText>
+      <ThemedText type="body" style={[styles.message, { color: theme.textSecondary }]}>
+        {result ? t(RESULT_MESSAGES[result.status], { email: result.user.pendingEmail || result.user.email }) : error}
+      </ThemedText>
+
+      <Button onPress={handleDone} style={styles.button}>
+        {t("common.ok")}
+      </Button>
+    </ScreenScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  centered: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    paddingHorizontal: Spacing["2xl"],
+    alignItems: "center",
+  },
+  iconContainer: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    justifyContent: "center",
+    alignItems: "center",
+    marginTop: Spacing["3xl"],
+    marginBottom: Spacing["2xl"],
+  },
+  title: {
+    marginBottom: Spacing.md,
+    textAlign: "center",
+  },
+  message: {
+    textAlign: "center",
+    marginBottom: Spacing["3xl"],
+  },
+  button: {
+    alignSelf: "stretch",
+    borderRadius: BorderRadius.sm,
+  },
+});
@@ -21,6 +21,8 @@ import { useVideoPlayer, VideoView } from "expo-video";
 import { useEvent } from "expo";
 
 import { ThemedText } from "@/components/ThemedText";
+import { ChapterList, ChapterScrubber, useChapterPlayback } from "@/components/VideoChapters";
+import { CaptionOverlay, getActiveCue, useVideoCaptions } from "@/components/VideoCaptions";
 import ReportModal from "@/components/ReportModal";
 import { Spacing, BorderRadius, Colors } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
@@ -56,6 +58,15 @@ export default function VideoPlayerScreen() {
 
   const { isPlaying } = useEvent(player, 'playingChange', { isPlaying: player.playing });
 
+  const chapters = video.chapters ?? [];
+  const [showChapters, setShowChapters] = useState(false);
+  const { currentTime, activeIndex, completedSteps, seekTo, toggleStepComplete } =
+    useChapterPlayback(player, chapters);
+
+  const [captionsEnabled, setCaptionsEnabled] = useState(false);
+  const { available: hasCaptions, captions } = useVideoCaptions(video.id, captionsEnabled);
+  const activeCue = captionsEnabled && captions ? getActiveCue(captions.cues, currentTime) : null;
+
   const [isMuted, setIsMuted] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [showUI, setShowUI] = useState(true);
@@ -106,6 +117,18 @@ export default function VideoPlayerScreen() {
     loadComments();
   }, [video.id]);
 
+  // Swap a pending comment for the server's copy once the outbox sends it
+  useEffect(() => {
+    return api.onOutboxReplay((event) => {
+      if (event.entry.kind !== "video.comment" || event.entry.target !== video.id) return;
+      setComments((prev) =>
+        event.type === "replayed"
+          ? prev.map((comment) => (comment.id === event.entry.id ? event.data : comment))
+          : prev.filter((comment) => comment.id !== event.entry.id)
+      );
+    });
+  }, [video.id]);
+
   const loadComments = async () => {
     setIsLoadingComments(true);
     const loadedComments = await getComments(video.id);
@@ -186,6 +209,7 @@ export default function VideoPlayerScreen() {
         ) : null}
       </Pressable>
 
+      <CaptionOverlay cue={activeCue} bottom={showUI ? height * 0.3 : insets.bottom + Spacing["3xl"]} />
 
       {showUI ? (
         <>
@@ -198,6 +222,22 @@ export default function VideoPlayerScreen() {
               <Feather name="chevron-down" size={28} color="#FFFFFF" />
             </Pressable>
             <View style={styles.topRightButtons}>
+              {hasCaptions ? (
+                <Pressable
+                  onPress={() => setCaptionsEnabled(!captionsEnabled)}
+                  style={({ pressed }) => [styles.topButton, { opacity: pressed ? 0.6 : 1 }]}
+                  hitSlop={12}
+                  accessibilityLabel={t("player.captions")}
+                  accessibilityRole="switch"
+                  accessibilityState={{ checked: captionsEnabled }}
+                >
+                  <View style={[styles.ccBadge, captionsEnabled && styles.ccBadgeActive]}>
+                    <ThemedText type="caption" style={[styles.ccText, captionsEnabled && styles.ccTextActive]}>
+                      CC
+                    </ThemedText>
+                  </View>
+                </Pressable>
+              ) : null}
               <Pressable
                 onPress={toggleMute}
                 style={({ pressed }) => [styles.topButton, { opacity: pressed ? 0.6 : 1 }]}
@@ -332,6 +372,18 @@ export default function VideoPlayerScreen() {
                   </ThemedText>
                 </Pressable>
 
+                {chapters.length > 0 ? (
+                  <Pressable
+                    onPress={() => setShowChapters(true)}
+                    style={({ pressed }) => [styles.actionButton, { opacity: pressed ? 0.6 : 1 }]}
+                  >
+                    <Feather name="list" size={26} color="#FFFFFF" />
+                    <ThemedText type="small" style={styles.actionText}>
+                      {t("player.steps")}
+                    </ThemedText>
+                  </Pressable>
+                ) : null}
+
                 <Pressable
                   onPress={handleShare}
                   style={({ pressed }) => [styles.actionButton, { opacity: pressed ? 0.6 : 1 }]}
@@ -355,6 +407,17 @@ export default function VideoPlayerScreen() {
                 ) : null}
               </View>
             </View>
+
+            {chapters.length > 0 ? (
+              <ChapterScrubber
+                chapters={chapters}
+                duration={video.duration}
+                currentTime={currentTime}
+                activeIndex={activeIndex}
+                completedSteps={completedSteps}
+                onSeek={seekTo}
+              />
+            ) : null}
           </LinearGradient>
         </>
       ) : null}
@@ -379,7 +442,7 @@ export default function VideoPlayerScreen() {
               </ThemedText>
             }
             renderItem={({ item }) => (
-              <View style={styles.commentItem}>
+              <View style={[styles.commentItem, item.pending && styles.commentPending]}>
                 <View style={[styles.commentAvatar, { backgroundColor: theme.backgroundSecondary }]}>
                   <ThemedText type="small" style={{ fontWeight: "600" }}>
                     {(item.authorName ?? "U").charAt(0).toUpperCase()}
@@ -390,6 +453,11 @@ export default function VideoPlayerScreen() {
                     {item.authorName ?? "User"}
                   </ThemedText>
                   <ThemedText type="body">{item.content}</ThemedText>
+                  {item.pending ? (
+                    <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                      {t("sync.waitingToSend")}
+                    </ThemedText>
+                  ) : null}
                 </View>
               </View>
             )}
@@ -415,6 +483,17 @@ export default function VideoPlayerScreen() {
         </View>
       ) : null}
 
+      {showChapters ? (
+        <ChapterList
+          chapters={chapters}
+          activeIndex={activeIndex}
+          completedSteps={completedSteps}
+          onSeek={seekTo}
+          onToggleComplete={toggleStepComplete}
+          onClose={() => setShowChapters(false)}
+        />
+      ) : null}
+
       <ReportModal
         visible={showReportModal}
         onClose={() => setShowReportModal(false)}
@@ -493,6 +572,22 @@ const styles = StyleSheet.create({
   reportButton: {
     zIndex: 999,
   },
+  ccBadge: {
+    borderWidth: 1.5,
+    borderColor: "#FFFFFF",
+    borderRadius: 4,
+    paddingHorizontal: 4,
+  },
+  ccBadgeActive: {
+    backgroundColor: "#FFFFFF",
+  },
+  ccText: {
+    color: "#FFFFFF",
+    fontWeight: "700",
+  },
+  ccTextActive: {
+    color: "#000000",
+  },
   reportButtonInner: {
     width: 44,
     height: 44,
@@ -608,6 +703,9 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     marginBottom: Spacing.lg,
   },
+  commentPending: {
+    opacity: 0.6,
+  },
   commentAvatar: {
     width: 36,
     height: 36,
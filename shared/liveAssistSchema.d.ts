@@ -0,0 +1,104 @@
+export type RiskSeverity = "low" | "medium" | "high";
+
+export type SparePartPriority = "primary" | "optional";
+
+export interface LiveAssistStep {
+  stepNumber: number;
+  text: string;
+}
+
+export interface LiveAssistOverlay {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  stepIndex: number | null;
+  label: string;
+}
+
+export interface RiskEntry {
+  label: string;
+  severity: RiskSeverity;
+  recommendation: string;
+}
+
+export interface RiskOverlay {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  riskLabel: string;
+  severity: RiskSeverity;
+}
+
+export interface SparePart {
+  name: string;
+  category: string;
+  description: string;
+  specs: string[];
+  compatibility: string;
+  priority: SparePartPriority;
+  notes: string;
+  overlayIndex: number | null;
+}
+
+export interface LiveAssistAnalysis {
+  summary: string;
+  possibleIssue: string;
+  steps: LiveAssistStep[];
+  safetyNote: string;
+  overlays: LiveAssistOverlay[];
+  riskLevel: RiskSeverity;
+  riskSummary: string;
+  risks: RiskEntry[];
+  riskOverlays: RiskOverlay[];
+  spareParts: SparePart[];
+}
+
+export interface LiveAssistSessionStep {
+  id: string;
+  text: string;
+  detail: string;
+  tools: string[];
+  done?: boolean;
+}
+
+export interface LiveAssistYouTubeLink {
+  title: string;
+  url: string;
+}
+
+export interface LiveAssistSessionContent {
+  text: string;
+  steps: LiveAssistSessionStep[];
+  youtube_links: LiveAssistYouTubeLink[];
+  images_to_show: string[];
+  safety_warnings: string[];
+}
+
+/** A field that was corrected or dropped during validation */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult<T> {
+  /** null when the value could not be repaired at all */
+  value: T | null;
+  issues: SchemaIssue[];
+}
+
+export const SEVERITIES: RiskSeverity[];
+
+export function validateLiveAssistAnalysis(value: unknown): ValidationResult<LiveAssistAnalysis>;
+
+export function validateSessionMessage(value: unknown): ValidationResult<LiveAssistSessionContent>;
+
+export function validateSessionMessageField<K extends keyof LiveAssistSessionContent>(
+  name: K,
+  value: unknown,
+): ValidationResult<LiveAssistSessionContent[K]>;
+export function validateSessionMessageField(
+  name: string,
+  value: unknown,
+): ValidationResult<unknown> | null;
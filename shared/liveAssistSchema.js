@@ -0,0 +1,291 @@
+/**
+ * LiveAssist runtime schemas
+ * Shared by the backend (validating model output) and the app (validating
+ * API responses), so overlays, risks and spare parts are always well-formed.
+ *
+ * Validators coerce what they can (numeric strings, casing of enums),
+ * clamp coordinates to 0-1, drop array items that cannot be repaired and
+ * record every correction as an issue with the path of the field.
+ * Plain CommonJS so it runs in Node and in the Metro bundle. Types live in
+ * liveAssistSchema.d.ts.
+ */
+
+// Returned by a validator when a value cannot be repaired
+const INVALID = Symbol("invalid");
+
+const SEVERITIES = ["low", "medium", "high"];
+const SPARE_PART_PRIORITIES = ["primary", "optional"];
+
+function issue(ctx, message) {
+  ctx.issues.push({ path: ctx.path || "(root)", message });
+}
+
+function at(ctx, key) {
+  const path =
+    typeof key === "number" ? `${ctx.path}[${key}]` : ctx.path ? `${ctx.path}.${key}` : key;
+  return { path, issues: ctx.issues };
+}
+
+function string(fallback = "") {
+  return (value, ctx) => {
+    if (typeof value === "string") return value;
+    if (typeof value === "number") return String(value);
+    if (value !== undefined && value !== null) issue(ctx, "expected a string");
+    return fallback;
+  };
+}
+
+/**
+ * Number schema. `required` values that are missing or not numeric make the
+ * parent invalid; otherwise `fallback` is used.
+ */
+function number({ min = -Infinity, max = Infinity, fallback = null, required = false, integer = false } = {}) {
+  return (value, ctx) => {
+    const parsed = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+    if (typeof parsed !== "number" || !Number.isFinite(parsed)) {
+      if (required) {
+        issue(ctx, "expected a number");
+        return INVALID;
+      }
+      if (value !== undefined && value !== null) issue(ctx, "expected a number");
+      return fallback;
+    }
+    let result = integer ? Math.floor(parsed) : parsed;
+    if (result < min || result > max) {
+      issue(ctx, `out of range, clamped to ${min}-${max}`);
+      result = Math.max(min, Math.min(max, result));
+    }
+    return result;
+  };
+}
+
+function oneOf(values, fallback) {
+  return (value, ctx) => {
+    const normalized = typeof value === "string" ? value.trim().toLowerCase() : value;
+    if (values.includes(normalized)) return normalized;
+    if (value !== undefined && value !== null) {
+      issue(ctx, `expected one of ${values.join(", ")}`);
+    }
+    return fallback;
+  };
+}
+
+function array(item, { max = Infinity } = {}) {
+  return (value, ctx) => {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) {
+      issue(ctx, "expected an array");
+      return [];
+    }
+    const result = [];
+    value.forEach((entry, index) => {
+      const parsed = item(entry, at(ctx, index));
+      if (parsed !== INVALID) result.push(parsed);
+    });
+    if (result.length > max) {
+      issue(ctx, `too many items, kept the first ${max}`);
+      return result.slice(0, max);
+    }
+    return result;
+  };
+}
+
+/**
+ * Object schema. `refine` may adjust the validated object (cross-field rules)
+ * or return INVALID.
+ */
+function object(shape, refine) {
+  return (value, ctx) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      issue(ctx, "expected an object");
+      return INVALID;
+    }
+    const result = {};
+    for (const [key, field] of Object.entries(shape)) {
+      const parsed = field(value[key], at(ctx, key));
+      if (parsed === INVALID) {
+        issue(ctx, `dropped: invalid ${key}`);
+        return INVALID;
+      }
+      result[key] = parsed;
+    }
+    return refine ? refine(result, ctx) : result;
+  };
+}
+
+function nonEmptyString(field) {
+  return (value, ctx) => {
+    const parsed = string()(value, ctx);
+    if (!parsed.trim()) {
+      issue(ctx, `${field} is required`);
+      return INVALID;
+    }
+    return parsed;
+  };
+}
+
+const stringItem = (value, ctx) => {
+  if (typeof value === "string") return value;
+  issue(ctx, "expected a string");
+  return INVALID;
+};
+
+// Keeps a box inside the image: x + width and y + height never exceed 1
+function fitBox(box) {
+  box.width = Math.min(box.width, 1 - Math.min(box.x, 0.95));
+  box.height = Math.min(box.height, 1 - Math.min(box.y, 0.95));
+  box.x = Math.min(box.x, 1 - box.width);
+  box.y = Math.min(box.y, 1 - box.height);
+  return box;
+}
+
+const boxShape = (defaultSize) => ({
+  x: number({ min: 0, max: 1, required: true }),
+  y: number({ min: 0, max: 1, required: true }),
+  width: number({ min: 0.05, max: 1, fallback: defaultSize }),
+  height: number({ min: 0.05, max: 1, fallback: defaultSize }),
+});
+
+const overlaySchema = object(
+  {
+    ...boxShape(0.2),
+    stepIndex: number({ min: 1, integer: true, fallback: null }),
+    label: string(),
+  },
+  fitBox
+);
+
+const riskOverlaySchema = object(
+  {
+    ...boxShape(0.15),
+    riskLabel: string(),
+    severity: oneOf(SEVERITIES, "medium"),
+  },
+  fitBox
+);
+
+const riskSchema = object({
+  label: nonEmptyString("label"),
+  severity: oneOf(SEVERITIES, "medium"),
+  recommendation: string(),
+});
+
+const sparePartSchema = object({
+  name: nonEmptyString("name"),
+  category: string("part"),
+  description: string(),
+  specs: array(stringItem),
+  compatibility: string(),
+  priority: oneOf(SPARE_PART_PRIORITIES, "optional"),
+  notes: string(),
+  overlayIndex: number({ min: 1, integer: true, fallback: null }),
+});
+
+const analysisStepSchema = object({
+  stepNumber: number({ min: 1, integer: true, fallback: null }),
+  text: string(),
+});
+
+const liveAssistAnalysisSchema = object(
+  {
+    summary: string(),
+    possibleIssue: string(),
+    steps: array(analysisStepSchema),
+    safetyNote: string(),
+    overlays: array(overlaySchema),
+    riskLevel: oneOf(SEVERITIES, "low"),
+    riskSummary: string(),
+    risks: array(riskSchema),
+    riskOverlays: array(riskOverlaySchema),
+    spareParts: array(sparePartSchema),
+  },
+  (analysis, ctx) => {
+    analysis.steps = analysis.steps.map((step, idx) => ({
+      ...step,
+      stepNumber: step.stepNumber ?? idx + 1,
+    }));
+    // overlayIndex / stepIndex are 1-based references into other lists
+    analysis.overlays.forEach((overlay, idx) => {
+      if (overlay.stepIndex !== null && overlay.stepIndex > analysis.steps.length) {
+        issue(at(at(at(ctx, "overlays"), idx), "stepIndex"), "no such step");
+        overlay.stepIndex = null;
+      }
+    });
+    analysis.spareParts.forEach((part, idx) => {
+      if (part.overlayIndex !== null && part.overlayIndex > analysis.overlays.length) {
+        issue(at(at(at(ctx, "spareParts"), idx), "overlayIndex"), "no such overlay");
+        part.overlayIndex = null;
+      }
+    });
+    return analysis;
+  }
+);
+
+const sessionStepSchema = object({
+  id: string(),
+  text: string(),
+  detail: string(),
+  tools: array(stringItem),
+});
+
+const youtubeLinkSchema = object({
+  title: nonEmptyString("title"),
+  url: nonEmptyString("url"),
+});
+
+/**
+ * Validators for each field of a LiveAssist session reply; also used for
+ * fields streamed one at a time.
+ */
+const SESSION_MESSAGE_FIELDS = {
+  text: string(),
+  // Steps without an id get a positional one (s1, s2, ...)
+  steps: (value, ctx) =>
+    array(sessionStepSchema)(value, ctx).map((step, idx) => ({
+      ...step,
+      id: step.id || `s${idx + 1}`,
+    })),
+  youtube_links: array(youtubeLinkSchema),
+  images_to_show: array(stringItem),
+  safety_warnings: array(stringItem),
+};
+
+const sessionMessageSchema = object(SESSION_MESSAGE_FIELDS);
+
+function run(schema, value) {
+  const ctx = { path: "", issues: [] };
+  const result = schema(value, ctx);
+  return { value: result === INVALID ? null : result, issues: ctx.issues };
+}
+
+/**
+ * Validate a LiveAssist image analysis.
+ * @returns {{ value: object|null, issues: Array<{path: string, message: string}> }}
+ */
+function validateLiveAssistAnalysis(value) {
+  return run(liveAssistAnalysisSchema, value);
+}
+
+/**
+ * Validate a LiveAssist session reply (text, steps, links, warnings).
+ */
+function validateSessionMessage(value) {
+  return run(sessionMessageSchema, value);
+}
+
+/**
+ * Validate one field of a session reply. Unknown fields return null.
+ */
+function validateSessionMessageField(name, value) {
+  const field = SESSION_MESSAGE_FIELDS[name];
+  if (!field) return null;
+  const ctx = { path: name, issues: [] };
+  return { value: field(value, ctx), issues: ctx.issues };
+}
+
+module.exports = {
+  SEVERITIES,
+  validateLiveAssistAnalysis,
+  validateSessionMessage,
+  validateSessionMessageField,
+};
@@ -0,0 +1,446 @@
+/**
+ * Request and response shapes of the QuickFix API
+ *
+ * One set of types for both ends: the backend's serializers and routes are
+ * typed with them and utils/api.ts re-exports them to the app, so a field
+ * renamed on one side fails the other side's type check. Declarations only;
+ * nothing here exists at runtime.
+ *
+ * LiveAssist content types live with their runtime validators in
+ * shared/liveAssistSchema.
+ */
+import type {
+  LiveAssistStep,
+  LiveAssistOverlay,
+  RiskSeverity,
+  RiskEntry,
+  RiskOverlay,
+  SparePart,
+  LiveAssistSessionStep,
+  LiveAssistYouTubeLink,
+  SchemaIssue,
+} from "../liveAssistSchema";
+
+/**
+ * `code` of the error envelope every 4xx/5xx body carries (backend/errors.ts)
+ */
+export type ErrorCode =
+  | "VALIDATION_FAILED"
+  | "AUTH_REQUIRED"
+  | "AUTH_INVALID"
+  | "AUTH_EXPIRED"
+  | "FORBIDDEN"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "ACCOUNT_LINK_REQUIRED"
+  | "TOKEN_INVALID"
+  | "EMAIL_NOT_VERIFIED"
+  | "USER_BLOCKED"
+  | "IMAGE_DAY_LIMIT"
+  | "RATE_LIMITED"
+  | "AI_BUDGET_EXCEEDED"
+  | "AI_UNAVAILABLE"
+  | "AI_FAILED"
+  | "SERVICE_UNAVAILABLE"
+  | "SERVER_ERROR";
+
+export interface ErrorBody {
+  /** Same as message, for clients that predate codes */
+  error: string;
+  code: ErrorCode;
+  message: string;
+  /**
+   * Machine-readable context, e.g. { imagesUsed, limit } for IMAGE_DAY_LIMIT,
+   * { retryAfter } (seconds) for RATE_LIMITED, { spentUsd, budgetUsd, resetsAt }
+   * for AI_BUDGET_EXCEEDED
+   */
+  details?: Record<string, any>;
+  /** Whether the same request may succeed if sent again later */
+  retryable: boolean;
+}
+
+export interface User {
+  id: string;
+  email: string;
+  emailVerified: boolean;
+  pendingEmail?: string;
+  displayName: string;
+  bio?: string;
+  avatarUrl?: string;
+  expertiseCategories?: string[];
+  followersCount: number;
+  followingCount: number;
+  xp: number;
+  level: number;
+  nextLevelXp: number;
+  currentLevelXp: number;
+  createdAt?: string;
+  subscription_status?: string;
+  subscription_expiry?: string;
+  image_counter?: number;
+}
+
+// `pending`: one side of an email change is approved, the other link is still unopened
+export interface EmailVerificationResult {
+  status: "verified" | "pending" | "changed";
+  user: User;
+}
+
+export type OAuthProvider = "google" | "apple";
+
+// An Apple or Google sign-in linked to the account
+export interface LinkedIdentity {
+  provider: OAuthProvider;
+  email?: string;
+  createdAt: string;
+}
+
+export type SessionPlatform = "ios" | "android" | "web";
+
+// A device signed in to the account; `current` is the one asking
+export interface AuthSession {
+  id: string;
+  deviceName?: string;
+  platform?: SessionPlatform;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// Another user's public profile; email and XP stay private
+export interface UserProfile extends UserPreview {
+  expertiseCategories?: string[];
+  followersCount: number;
+  followingCount: number;
+  createdAt?: string;
+  isFollowing: boolean;
+  isBlocked?: boolean;
+}
+
+export interface UserPreview {
+  id: string;
+  displayName: string;
+  avatarUrl?: string;
+  bio?: string;
+}
+
+export interface Video {
+  id: string;
+  title: string;
+  description?: string;
+  category: string;
+  tags: string[];
+  videoUrl?: string;
+  thumbnailUrl?: string;
+  duration: number;
+  likesCount: number;
+  commentsEnabled: boolean;
+  authorId: string;
+  authorName: string;
+  authorAvatar?: string;
+  isLiked: boolean;
+  isSaved: boolean;
+  createdAt: string;
+  isYouTube?: boolean;
+  youtubeId?: string;
+  chapters?: VideoChapter[];
+  captionsStatus?: VideoCaptionsStatus;
+  // Set on videos from the recommended feed
+  reason?: RecommendationReason;
+  // Set on semantic search results
+  similarity?: number;
+  // Set on the video returned by createVideo
+  xpAwarded?: number;
+}
+
+// A video in the toolbox, with the folder it is filed in
+export interface SavedVideo extends Video {
+  folderId?: string;
+  folderName?: string;
+}
+
+export type FeedSection = "recommended" | "new" | "popular";
+
+/**
+ * Why the recommended feed picked a video. category is a category key;
+ * label is the scanned issue or the followed creator's name.
+ */
+export interface RecommendationReason {
+  type: "scan" | "saved" | "liked" | "watched" | "community" | "expertise" | "following" | "new" | "popular";
+  category?: string;
+  label?: string;
+}
+
+/**
+ * One page of a cursor-paginated list; pass nextCursor back to get the
+ * following page. null means this was the last page.
+ */
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface CreateVideoData {
+  title: string;
+  description?: string;
+  category: string;
+  tags?: string[];
+  // Finished upload; the server fills in videoUrl and duration from it
+  uploadId: string;
+  // One of the upload's thumbnailUrls (defaults to its pick)
+  thumbnailUrl?: string;
+  commentsEnabled?: boolean;
+  chapters?: VideoChapter[];
+  // Transcribe the uploaded video into captions (default true)
+  autoCaptions?: boolean;
+}
+
+export type VideoCaptionsStatus = "none" | "pending" | "ready" | "failed";
+
+export interface CaptionCue {
+  // Seconds from the start of the video
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface VideoCaptions {
+  language: string;
+  source: "upload" | "auto" | "translation";
+  cues: CaptionCue[];
+}
+
+export interface VideoCaptionTrackList {
+  status: VideoCaptionsStatus;
+  tracks: Omit<VideoCaptions, "cues">[];
+  // Languages that can be requested, including on-demand translations
+  languages: string[];
+}
+
+export interface VideoUploadStatus {
+  uploadId: string;
+  status: "uploading" | "processing" | "complete" | "failed" | "published";
+  totalSize: number;
+  receivedBytes: number;
+  chunkSize: number;
+  videoUrl: string | null;
+  duration: number | null;
+  // Candidate cover frames, generated in the background after completing
+  thumbnailStatus: "pending" | "ready" | "failed" | "unavailable";
+  thumbnailUrls: string[];
+  thumbnailUrl: string | null;
+}
+
+export interface Comment {
+  id: string;
+  content: string;
+  authorId: string;
+  authorName: string;
+  authorAvatar?: string;
+  createdAt: string;
+  /** Made offline and still waiting in the outbox */
+  pending?: boolean;
+}
+
+// Likes, saves and comments kept on the device while the API was unreachable
+export interface LocalActivity {
+  likedIds: string[];
+  savedIds: string[];
+  comments: { videoId: string; content: string; createdAt: string }[];
+}
+
+export interface Folder {
+  id: string;
+  name: string;
+  videoCount: number;
+  createdAt: string;
+}
+
+export interface Notification {
+  id: string;
+  type: string;
+  title: string;
+  message?: string;
+  isRead: boolean;
+  relatedUserId?: string;
+  relatedUserName?: string;
+  relatedUserAvatar?: string;
+  relatedVideoId?: string;
+  relatedVideoTitle?: string;
+  createdAt: string;
+}
+
+export interface GuideStep {
+  stepNumber: number;
+  text: string;
+}
+
+// Timestamped step in a video, so chapters render and check off like guide steps
+export interface VideoChapter extends GuideStep {
+  startTime: number;
+}
+
+export interface GuideImage {
+  url: string;
+  caption: string;
+}
+
+export interface AIGuide {
+  id?: string;
+  query: string;
+  steps: GuideStep[];
+  images: GuideImage[];
+  language: string;
+  createdAt?: string;
+}
+
+export interface CommunityPost {
+  id: string;
+  title: string;
+  description: string;
+  category: string;
+  imageUrl?: string;
+  status: "open" | "answered" | "solved";
+  commentsCount: number;
+  authorId: string;
+  authorName: string;
+  authorAvatar?: string;
+  createdAt: string;
+  updatedAt: string;
+  xpAwarded?: number;
+  totalXp?: number;
+  level?: number;
+  leveledUp?: boolean;
+  /** Made offline and still waiting in the outbox */
+  pending?: boolean;
+}
+
+export interface CreatePostData {
+  title: string;
+  description: string;
+  category: string;
+  imageUrl?: string;
+}
+
+export interface CommunityComment {
+  id: string;
+  content: string;
+  isSolution: boolean;
+  authorId: string;
+  authorName: string;
+  authorAvatar?: string;
+  linkedVideoId?: string;
+  linkedVideoTitle?: string;
+  linkedVideoThumbnail?: string;
+  createdAt: string;
+  xpAwarded?: number;
+  totalXp?: number;
+  level?: number;
+  leveledUp?: boolean;
+  /** Made offline and still waiting in the outbox */
+  pending?: boolean;
+}
+
+export interface LiveAssistResponse {
+  success: boolean;
+  analysis: {
+    summary: string;
+    possibleIssue: string;
+    steps: LiveAssistStep[];
+    safetyNote?: string;
+    overlays?: LiveAssistOverlay[];
+    riskLevel?: RiskSeverity;
+    riskSummary?: string;
+    risks?: RiskEntry[];
+    riskOverlays?: RiskOverlay[];
+    spareParts?: SparePart[];
+    rawResponse: string;
+  };
+  // Fields the schema corrected or dropped
+  validationErrors?: SchemaIssue[];
+  error?: string;
+  // Image allowance after this scan; null when signed out
+  subscription?: LiveAssistUsage | null;
+}
+
+export interface LiveAssistUsage {
+  isPremium: boolean;
+  imagesUsedToday: number;
+  // null for premium plans
+  dailyLimit: number | null;
+  remaining?: number;
+}
+
+// LiveAssist Session types for MVP conversation thread
+export interface LiveAssistSessionMessage {
+  id?: string;
+  text: string;
+  steps: LiveAssistSessionStep[];
+  youtube_links: LiveAssistYouTubeLink[];
+  images_to_show: string[];
+  safety_warnings: string[];
+  structured: boolean;
+  validationErrors?: SchemaIssue[];
+}
+
+export interface LiveAssistSessionSummary {
+  id: string;
+  title: string | null;
+  isPinned: boolean;
+  // An image was sent; thumbnailUrl is only set for linked images, not photos taken in the app
+  hasImage: boolean;
+  thumbnailUrl: string | null;
+  messageCount: number;
+  totalSteps: number;
+  completedSteps: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Everything stored for the signed-in account, from Settings > Download my data
+export interface DataExport {
+  exportedAt: string;
+  profile: User;
+  videos: Video[];
+  comments: ExportedComment[];
+  communityPosts: CommunityPost[];
+  communityComments: ExportedCommunityComment[];
+  liveAssistSessions: ExportedLiveAssistSession[];
+  xpHistory: XpHistoryEntry[];
+  notifications: Notification[];
+}
+
+export interface ExportedComment extends Comment {
+  videoId: string;
+}
+
+export interface ExportedCommunityComment extends CommunityComment {
+  postId: string;
+}
+
+export interface ExportedLiveAssistSession {
+  id: string;
+  title: string | null;
+  isPinned: boolean;
+  stepProgress: Record<string, boolean>;
+  createdAt: string;
+  updatedAt: string;
+  messages: ExportedLiveAssistMessage[];
+}
+
+export interface ExportedLiveAssistMessage {
+  id: string;
+  role: "user" | "assistant";
+  text: string;
+  imageUrls: string[];
+  analysisResult?: LiveAssistSessionMessage;
+  createdAt: string;
+}
+
+export type XpReason = "daily_login" | "community_answer";
+
+export interface XpHistoryEntry {
+  reason: XpReason;
+  postId?: string;
+  createdAt: string;
+}
@@ -1,9 +1,21 @@
 #!/usr/bin/env node
-const { spawn } = require('child_process');
+const { spawn, spawnSync } = require('child_process');
+const path = require('path');
 
 console.log('[QuickFix] Starting backend and Expo servers...');
 
-const backend = spawn('node', ['backend/index.js'], {
+// The backend refuses to start with pending migrations
+const migrations = spawnSync('node', ['backend/migrate.js', 'up'], {
+  stdio: 'inherit',
+  env: { ...process.env }
+});
+if (migrations.status !== 0) {
+  console.error('[QuickFix] Migrations failed (see above); the backend will not start until they pass.');
+}
+
+// The backend is TypeScript, run by tsx from its own dependencies
+const backend = spawn('npx', ['tsx', 'index.ts'], {
+  cwd: path.join(__dirname, 'backend'),
   stdio: 'inherit',
   env: { ...process.env }
 });
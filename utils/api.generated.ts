@@ -0,0 +1,1251 @@
+/**
+ * Typed operations of the QuickFix API
+ *
+ * Generated from the API document (backend/openapi/) by
+ * backend/openapi/generate-client.ts; do not edit. Run
+ * `npm run generate:client` in backend/ after changing the document.
+ * ApiClient in utils/api.ts calls the API through these.
+ */
+import type {
+  AIGuide,
+  AuthSession,
+  Comment,
+  CommunityComment,
+  CommunityPost,
+  CreatePostData,
+  CreateVideoData,
+  DataExport,
+  EmailVerificationResult,
+  FeedSection,
+  Folder,
+  LinkedIdentity,
+  LiveAssistResponse,
+  LiveAssistSessionMessage,
+  LiveAssistSessionSummary,
+  LocalActivity,
+  Notification,
+  OAuthProvider,
+  SavedVideo,
+  User,
+  UserProfile,
+  Video,
+  VideoCaptionTrackList,
+  VideoCaptions,
+  VideoCaptionsStatus,
+  VideoUploadStatus,
+} from "@/shared/types";
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export interface SignInResult {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+  user: User;
+  xpAwarded?: number | null;
+  leveledUp?: boolean | null;
+}
+
+export interface Message {
+  message: string;
+}
+
+export interface Success {
+  success: boolean;
+}
+
+export interface RevokedSessions {
+  revoked: number;
+}
+
+export interface VideoLike {
+  liked: boolean;
+  likesCount: number;
+}
+
+export interface VideoSave {
+  saved: boolean;
+}
+
+export interface VideoWatch {
+  success: boolean;
+  xpAwarded: number;
+  totalXp?: number | null;
+  level?: number | null;
+}
+
+export interface LocalActivityImport {
+  likesImported: number;
+  savesImported: number;
+  commentsImported: number;
+}
+
+export interface FollowState {
+  following: boolean;
+}
+
+export interface FolderList {
+  folders: Folder[];
+  uncategorizedCount: number;
+}
+
+export interface UnreadCount {
+  count: number;
+}
+
+export interface ReportReceipt {
+  success: boolean;
+  reportId: string;
+  createdAt: string;
+}
+
+export interface BlockResult {
+  status: string;
+  message?: string | null;
+}
+
+export interface CaptionTranscription {
+  status: VideoCaptionsStatus;
+}
+
+export interface SubscriptionStatus {
+  subscription: {
+    plan: "free" | "trial" | "paid";
+    status: string | null;
+    isActive: boolean;
+    isPremium: boolean;
+    trialEndsAt: string | null;
+    paidUntil: string | null;
+  };
+  usage: {
+    imagesUsedToday: number;
+    dailyImageLimit: number | null;
+    canUploadVideo: boolean;
+  };
+  config: {
+    priceSek: number;
+    trialDays: number;
+  };
+}
+
+export interface ImageLimitCheck {
+  allowed: boolean;
+  reason?: string | null;
+  isPremium?: boolean | null;
+  imagesUsed?: number | null;
+  limit?: number | null;
+  remaining?: number | null;
+  message?: string | null;
+}
+
+export interface TrialStarted {
+  success: boolean;
+  trialStartedAt: string;
+  trialEndsAt: string;
+  message: string;
+}
+
+export interface CheckoutSession {
+  url: string;
+  sessionId: string;
+}
+
+export interface SubscriptionChange {
+  success: boolean;
+  message: string;
+  accessUntil?: string | null;
+}
+
+export interface AIAnswer {
+  answer: string;
+}
+
+export interface LiveAssistSessionCreated {
+  sessionId: string;
+}
+
+export interface LiveAssistSessionList {
+  sessions: LiveAssistSessionSummary[];
+}
+
+export interface LiveAssistSessionUpdate {
+  id: string;
+  title: string | null;
+  isPinned: boolean;
+  updatedAt: string;
+}
+
+export interface LiveAssistThreadMessage {
+  id: string;
+  role: "user" | "assistant";
+  text: string;
+  imageUrls: string[];
+  createdAt: string;
+  analysisResult?: LiveAssistSessionMessage | null;
+}
+
+export interface LiveAssistThread {
+  messages: LiveAssistThreadMessage[];
+  stepProgress: Record<string, boolean>;
+}
+
+export interface LatestLiveAssistSession {
+  sessionId: string | null;
+}
+
+export interface LiveAssistStepProgress {
+  success: boolean;
+  stepId: string;
+  completed: boolean;
+}
+
+export interface LiveAssistMessageUpdate {
+  id: string;
+  sessionId: string;
+  sender: "user" | "assistant";
+  type: string;
+  content: string;
+  meta: LiveAssistSessionMessage;
+  createdAt: string;
+  status: string;
+}
+
+export interface TagSuggestions {
+  tags: string[];
+}
+
+export interface GeneratedDescription {
+  description: string;
+}
+
+export interface ModerationResult {
+  approved: boolean;
+  reason: string | null;
+}
+
+export interface Health {
+  status: string;
+  time: string;
+}
+
+export interface WebhookReceipt {
+  received: boolean;
+}
+
+export interface ApiOperations {
+  /** GET /health: Liveness check */
+  getHealth: {
+    request: {};
+    response: Health;
+  };
+  /** GET /openapi.json: This document */
+  getOpenApiDocument: {
+    request: {};
+    response: Record<string, unknown>;
+  };
+  /** GET /docs: This document, browsable (HTML) */
+  getApiDocs: {
+    request: {};
+    response: string;
+  };
+  /** POST /stripe/webhook/{uuid}: Stripe event delivery, checked against the stripe-signature header */
+  receiveStripeWebhook: {
+    request: {
+      params: {
+        uuid: string;
+      };
+      body: Blob;
+    };
+    response: WebhookReceipt;
+  };
+  /** POST /auth/register: Create an account and sign in */
+  register: {
+    request: {
+      body: {
+        email: string;
+        password: string;
+        displayName: string;
+        deviceName?: string | null;
+        platform?: string | null;
+      };
+    };
+    response: SignInResult;
+  };
+  /** POST /auth/login: Sign in with email and password */
+  login: {
+    request: {
+      body: {
+        email: string;
+        password: string;
+        deviceName?: string | null;
+        platform?: string | null;
+      };
+    };
+    response: SignInResult;
+  };
+  /** POST /auth/oauth/{provider}: Sign in with an Apple or Google ID token; 201 when the account is new. ACCOUNT_LINK_REQUIRED when the email has a password account, which `password` links. */
+  signInWithProvider: {
+    request: {
+      params: {
+        provider: OAuthProvider;
+      };
+      body: {
+        idToken: string;
+        displayName?: string | null;
+        password?: string | null;
+        deviceName?: string | null;
+        platform?: string | null;
+      };
+    };
+    response: SignInResult;
+  };
+  /** POST /auth/refresh: Trade a refresh token for a new token pair */
+  refreshSession: {
+    request: {
+      body: {
+        refreshToken: string;
+      };
+    };
+    response: SessionTokens;
+  };
+  /** POST /auth/logout: End the session of a refresh token */
+  logout: {
+    request: {
+      body?: {
+        refreshToken?: string | null;
+      };
+    };
+    response: Message;
+  };
+  /** POST /auth/forgot-password: Email a password reset link */
+  forgotPassword: {
+    request: {
+      body: {
+        email: string;
+      };
+    };
+    response: Message;
+  };
+  /** POST /auth/reset-password: Set a new password with an emailed reset token */
+  resetPassword: {
+    request: {
+      body: {
+        token: string;
+        newPassword: string;
+      };
+    };
+    response: Message;
+  };
+  /** GET /auth/me: The signed-in account */
+  getMe: {
+    request: {};
+    response: User;
+  };
+  /** PUT /auth/me: Change profile fields; missing fields are kept */
+  updateProfile: {
+    request: {
+      body?: {
+        displayName?: string | null;
+        bio?: string | null;
+        avatarUrl?: string | null;
+        expertiseCategories?: string[] | null;
+      };
+    };
+    response: User;
+  };
+  /** PUT /auth/password: Change the password */
+  changePassword: {
+    request: {
+      body: {
+        currentPassword: string;
+        newPassword: string;
+      };
+    };
+    response: Message;
+  };
+  /** POST /auth/verify-email: Open an emailed verification or email change link */
+  verifyEmail: {
+    request: {
+      body: {
+        token: string;
+      };
+    };
+    response: EmailVerificationResult;
+  };
+  /** POST /auth/verify-email/resend: Send the verification email again */
+  resendVerificationEmail: {
+    request: {};
+    response: Message;
+  };
+  /** POST /auth/change-email: Start an email change; it takes effect once both emailed links are opened */
+  changeEmail: {
+    request: {
+      body: {
+        newEmail: string;
+        password: string;
+      };
+    };
+    response: User;
+  };
+  /** DELETE /auth/change-email: Cancel a pending email change */
+  cancelEmailChange: {
+    request: {};
+    response: User;
+  };
+  /** GET /auth/identities: Apple and Google sign-ins linked to the account */
+  getLinkedIdentities: {
+    request: {};
+    response: LinkedIdentity[];
+  };
+  /** POST /auth/identities/{provider}: Link an Apple or Google sign-in */
+  linkIdentity: {
+    request: {
+      params: {
+        provider: OAuthProvider;
+      };
+      body: {
+        idToken: string;
+      };
+    };
+    response: LinkedIdentity[];
+  };
+  /** DELETE /auth/identities/{provider}: Unlink an Apple or Google sign-in */
+  unlinkIdentity: {
+    request: {
+      params: {
+        provider: OAuthProvider;
+      };
+    };
+    response: LinkedIdentity[];
+  };
+  /** GET /auth/sessions: Devices signed in to the account */
+  getSessions: {
+    request: {};
+    response: AuthSession[];
+  };
+  /** DELETE /auth/sessions: Sign out every device except this one */
+  revokeOtherSessions: {
+    request: {};
+    response: RevokedSessions;
+  };
+  /** DELETE /auth/sessions/{id}: Sign out one device */
+  revokeSession: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: RevokedSessions;
+  };
+  /** GET /videos: Browse and search videos */
+  getVideos: {
+    request: {
+      query?: {
+        category?: string;
+        tag?: string;
+        search?: string;
+        sort?: "recent" | "popular";
+        cursor?: string;
+        limit?: number;
+      };
+    };
+    response: {
+      items: Video[];
+      nextCursor: string | null;
+    };
+  };
+  /** POST /videos: Publish a video */
+  createVideo: {
+    request: {
+      body: CreateVideoData;
+    };
+    response: Video;
+  };
+  /** GET /videos/feed: A section of the home feed */
+  getFeed: {
+    request: {
+      query?: {
+        section?: FeedSection;
+        cursor?: string;
+        limit?: number;
+      };
+    };
+    response: {
+      items: Video[];
+      nextCursor: string | null;
+    };
+  };
+  /** POST /videos/import-local: Import likes, saves and comments made before signing in */
+  importLocalActivity: {
+    request: {
+      body: LocalActivity;
+    };
+    response: LocalActivityImport;
+  };
+  /** GET /videos/{id}: One video */
+  getVideo: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: Video;
+  };
+  /** DELETE /videos/{id}: Delete one of your videos */
+  deleteVideo: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: Message;
+  };
+  /** POST /videos/{id}/like: Like or unlike; toggles when `liked` is missing */
+  likeVideo: {
+    request: {
+      params: {
+        id: string;
+      };
+      body?: {
+        liked?: boolean | null;
+      };
+    };
+    response: VideoLike;
+  };
+  /** POST /videos/{id}/save: Save to or remove from the toolbox; toggles when `saved` is missing */
+  saveVideo: {
+    request: {
+      params: {
+        id: string;
+      };
+      body?: {
+        saved?: boolean | null;
+        folderId?: string | null;
+      };
+    };
+    response: VideoSave;
+  };
+  /** POST /videos/{id}/watch: Record a watch, awarding XP the first time */
+  recordVideoWatch: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: VideoWatch;
+  };
+  /** GET /videos/{id}/comments: Comments on a video */
+  getComments: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: Comment[];
+  };
+  /** POST /videos/{id}/comments: Comment on a video */
+  addComment: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        content: string;
+      };
+    };
+    response: Comment;
+  };
+  /** POST /videos/{id}/report: Report a video */
+  reportVideo: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        reason: string;
+        description?: string | null;
+      };
+    };
+    response: Message;
+  };
+  /** GET /videos/{videoId}/captions: Caption tracks of a video */
+  getVideoCaptionTracks: {
+    request: {
+      params: {
+        videoId: string;
+      };
+    };
+    response: VideoCaptionTrackList;
+  };
+  /** GET /videos/{videoId}/captions/{language}: Cues in one language, machine-translated on first request when signed in; WebVTT with ?format=vtt */
+  getVideoCaptions: {
+    request: {
+      params: {
+        videoId: string;
+        language: string;
+      };
+      query?: {
+        format?: "vtt";
+      };
+    };
+    response: VideoCaptions;
+  };
+  /** PUT /videos/{videoId}/captions/{language}: Replace a track with a WebVTT file */
+  uploadVideoCaptions: {
+    request: {
+      params: {
+        videoId: string;
+        language: string;
+      };
+      body: {
+        vtt: string;
+      };
+    };
+    response: VideoCaptions;
+  };
+  /** DELETE /videos/{videoId}/captions/{language}: Delete a track */
+  deleteVideoCaptions: {
+    request: {
+      params: {
+        videoId: string;
+        language: string;
+      };
+    };
+    response: Success;
+  };
+  /** POST /videos/{videoId}/captions/transcribe: Transcribe the video into captions in the background */
+  transcribeVideo: {
+    request: {
+      params: {
+        videoId: string;
+      };
+    };
+    response: CaptionTranscription;
+  };
+  /** POST /uploads: Start a resumable video upload */
+  createVideoUpload: {
+    request: {
+      body: {
+        totalSize: number;
+        fileName?: string | null;
+        mimeType?: string | null;
+      };
+    };
+    response: VideoUploadStatus;
+  };
+  /** GET /uploads/{uploadId}: Progress of an upload */
+  getVideoUpload: {
+    request: {
+      params: {
+        uploadId: string;
+      };
+    };
+    response: VideoUploadStatus;
+  };
+  /** DELETE /uploads/{uploadId}: Cancel an upload */
+  cancelVideoUpload: {
+    request: {
+      params: {
+        uploadId: string;
+      };
+    };
+    response: Success;
+  };
+  /** PUT /uploads/{uploadId}/chunk: Append raw bytes at the Upload-Offset header; CONFLICT with the current status as details on a mismatch */
+  uploadVideoChunk: {
+    request: {
+      params: {
+        uploadId: string;
+      };
+      body: Blob;
+    };
+    response: VideoUploadStatus;
+  };
+  /** POST /uploads/{uploadId}/complete: Finish an upload once every byte has arrived */
+  completeVideoUpload: {
+    request: {
+      params: {
+        uploadId: string;
+      };
+    };
+    response: VideoUploadStatus;
+  };
+  /** GET /users/me/export: Everything stored for the account, as a download */
+  exportData: {
+    request: {};
+    response: DataExport;
+  };
+  /** DELETE /users/me: Cancel any subscription and delete the account and everything in it */
+  deleteAccount: {
+    request: {};
+    response: Message;
+  };
+  /** GET /users/{id}: Someone's public profile */
+  getUser: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: UserProfile;
+  };
+  /** GET /users/{id}/videos: Someone's videos */
+  getUserVideos: {
+    request: {
+      params: {
+        id: string;
+      };
+      query?: {
+        cursor?: string;
+        limit?: number;
+      };
+    };
+    response: {
+      items: Video[];
+      nextCursor: string | null;
+    };
+  };
+  /** POST /users/{id}/follow: Follow or unfollow */
+  followUser: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: FollowState;
+  };
+  /** POST /block: Block a user */
+  blockUser: {
+    request: {
+      body: {
+        targetUserId: string;
+      };
+    };
+    response: BlockResult;
+  };
+  /** POST /unblock: Unblock a user */
+  unblockUser: {
+    request: {
+      body: {
+        targetUserId: string;
+      };
+    };
+    response: BlockResult;
+  };
+  /** GET /toolbox/saved: Saved videos, optionally of one folder */
+  getSavedVideos: {
+    request: {
+      query?: {
+        folderId?: string | "uncategorized";
+        cursor?: string;
+        limit?: number;
+      };
+    };
+    response: {
+      items: SavedVideo[];
+      nextCursor: string | null;
+    };
+  };
+  /** GET /toolbox/folders: Toolbox folders */
+  getFolders: {
+    request: {};
+    response: FolderList;
+  };
+  /** POST /toolbox/folders: Create a folder */
+  createFolder: {
+    request: {
+      body: {
+        name: string;
+      };
+    };
+    response: Folder;
+  };
+  /** PUT /toolbox/folders/{id}: Rename a folder */
+  updateFolder: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        name: string;
+      };
+    };
+    response: Folder;
+  };
+  /** DELETE /toolbox/folders/{id}: Delete a folder; its videos stay saved */
+  deleteFolder: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: Message;
+  };
+  /** PUT /toolbox/saved/{videoId}/folder: File a saved video in a folder, or none */
+  moveVideoToFolder: {
+    request: {
+      params: {
+        videoId: string;
+      };
+      body: {
+        folderId: string | null;
+      };
+    };
+    response: Message;
+  };
+  /** GET /notifications: Recent notifications */
+  getNotifications: {
+    request: {};
+    response: Notification[];
+  };
+  /** GET /notifications/unread-count: Number of unread notifications */
+  getUnreadCount: {
+    request: {};
+    response: UnreadCount;
+  };
+  /** PUT /notifications/{id}/read: Mark one notification read */
+  markNotificationRead: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: Message;
+  };
+  /** PUT /notifications/read-all: Mark every notification read */
+  markAllNotificationsRead: {
+    request: {};
+    response: Message;
+  };
+  /** DELETE /notifications/{id}: Delete a notification */
+  deleteNotification: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: Message;
+  };
+  /** GET /community: Questions, newest first */
+  getCommunityPosts: {
+    request: {
+      query?: {
+        category?: string;
+        status?: string;
+        limit?: number;
+        offset?: number;
+      };
+    };
+    response: CommunityPost[];
+  };
+  /** POST /community: Ask a question */
+  createCommunityPost: {
+    request: {
+      body: CreatePostData;
+    };
+    response: CommunityPost;
+  };
+  /** GET /community/{id}: One question */
+  getCommunityPost: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: CommunityPost;
+  };
+  /** GET /community/{id}/comments: Answers to a question */
+  getPostComments: {
+    request: {
+      params: {
+        id: string;
+      };
+    };
+    response: CommunityComment[];
+  };
+  /** POST /community/{id}/comments: Answer a question, optionally linking a video */
+  addPostComment: {
+    request: {
+      params: {
+        id: string;
+      };
+      body: {
+        content: string;
+        linkedVideoId?: string | null;
+      };
+    };
+    response: CommunityComment;
+  };
+  /** PUT /community/{postId}/comments/{commentId}/solution: Mark an answer to your question as the solution */
+  markCommentAsSolution: {
+    request: {
+      params: {
+        postId: string;
+        commentId: string;
+      };
+    };
+    response: Success;
+  };
+  /** POST /reports: Report a video, profile or comment */
+  submitReport: {
+    request: {
+      body: {
+        contentType: "video" | "profile" | "comment";
+        reason: string;
+        targetUserId?: string | null;
+        contentId?: string | null;
+        message?: string | null;
+      };
+    };
+    response: ReportReceipt;
+  };
+  /** GET /subscriptions/status: Plan, today's usage and prices */
+  getSubscriptionStatus: {
+    request: {};
+    response: SubscriptionStatus;
+  };
+  /** GET /subscriptions/check-image-limit: Whether another image may be analysed today */
+  checkImageLimit: {
+    request: {};
+    response: ImageLimitCheck;
+  };
+  /** POST /subscriptions/start-trial: Start the free trial */
+  startTrial: {
+    request: {};
+    response: TrialStarted;
+  };
+  /** POST /subscriptions/create-checkout: Stripe Checkout for the paid plan */
+  createCheckoutSession: {
+    request: {};
+    response: CheckoutSession;
+  };
+  /** POST /subscriptions/cancel: Cancel at the end of the paid period */
+  cancelSubscription: {
+    request: {};
+    response: SubscriptionChange;
+  };
+  /** POST /subscriptions/reactivate: Undo a cancellation before the period ends */
+  reactivateSubscription: {
+    request: {};
+    response: SubscriptionChange;
+  };
+  /** POST /ai/ask-ai: One-off question */
+  askAI: {
+    request: {
+      body: {
+        question: string;
+        language?: string | null;
+      };
+    };
+    response: AIAnswer;
+  };
+  /** POST /ai/chat: Chat reply; streamed as Server-Sent Events with Accept: text/event-stream */
+  chat: {
+    request: {
+      body: {
+        messages: {
+          role: string;
+          content: string;
+        }[];
+        language?: string | null;
+        imageBase64?: string | null;
+        videoFileName?: string | null;
+      };
+    };
+    response: AIAnswer;
+  };
+  /** POST /ai/liveassist: Analyse a photo of the problem */
+  liveAssist: {
+    request: {
+      body: {
+        imageBase64: string;
+        language?: string | null;
+      };
+    };
+    response: LiveAssistResponse;
+  };
+  /** POST /ai/liveassist/session: Start a LiveAssist conversation */
+  createLiveAssistSession: {
+    request: {
+      body?: {
+        title?: string | null;
+      };
+    };
+    response: LiveAssistSessionCreated;
+  };
+  /** GET /ai/liveassist/sessions: Your LiveAssist conversations, pinned first */
+  getLiveAssistSessions: {
+    request: {};
+    response: LiveAssistSessionList;
+  };
+  /** GET /ai/liveassist/latest-session: Your most recent LiveAssist conversation */
+  getLatestLiveAssistSession: {
+    request: {};
+    response: LatestLiveAssistSession;
+  };
+  /** PATCH /ai/liveassist/session/{sessionId}: Rename or pin a conversation */
+  updateLiveAssistSession: {
+    request: {
+      params: {
+        sessionId: string;
+      };
+      body?: {
+        title?: string | null;
+        isPinned?: boolean | null;
+      };
+    };
+    response: LiveAssistSessionUpdate;
+  };
+  /** DELETE /ai/liveassist/session/{sessionId}: Delete a conversation */
+  deleteLiveAssistSession: {
+    request: {
+      params: {
+        sessionId: string;
+      };
+    };
+    response: Message;
+  };
+  /** GET /ai/liveassist/session/{sessionId}/thumbnail: First photo of one of your conversations; redirects for linked images */
+  getLiveAssistSessionThumbnail: {
+    request: {
+      params: {
+        sessionId: string;
+      };
+    };
+    response: string;
+  };
+  /** GET /ai/liveassist/session/{sessionId}/messages: Messages of a conversation and its step progress */
+  getLiveAssistSessionMessages: {
+    request: {
+      params: {
+        sessionId: string;
+      };
+    };
+    response: LiveAssistThread;
+  };
+  /** POST /ai/liveassist/session/{sessionId}/message: Send text and photos; streamed as Server-Sent Events with Accept: text/event-stream */
+  sendLiveAssistMessage: {
+    request: {
+      params: {
+        sessionId: string;
+      };
+      body?: {
+        text?: string | null;
+        images?: string[] | null;
+        language?: string | null;
+      };
+    };
+    response: LiveAssistSessionMessage;
+  };
+  /** PATCH /ai/liveassist/session/{sessionId}/steps/{stepId}: Check off a step of a conversation */
+  updateLiveAssistStepProgress: {
+    request: {
+      params: {
+        sessionId: string;
+        stepId: string;
+      };
+      body?: {
+        completed?: boolean | null;
+      };
+    };
+    response: LiveAssistStepProgress;
+  };
+  /** PATCH /ai/liveassist/messages/{messageId}/steps/{stepIndex}: Set a step of a reply in one of your conversations done; toggles when `done` is missing */
+  toggleMessageStep: {
+    request: {
+      params: {
+        messageId: string;
+        stepIndex: number;
+      };
+      body?: {
+        done?: boolean | null;
+      };
+    };
+    response: LiveAssistMessageUpdate;
+  };
+  /** POST /ai/suggest-tags: Tags for a new video */
+  suggestTags: {
+    request: {
+      body: {
+        title: string;
+        description?: string | null;
+        category?: string | null;
+      };
+    };
+    response: TagSuggestions;
+  };
+  /** POST /ai/generate-description: Description for a new video */
+  generateDescription: {
+    request: {
+      body: {
+        title: string;
+        category?: string | null;
+        tags?: string[] | null;
+      };
+    };
+    response: GeneratedDescription;
+  };
+  /** POST /ai/moderate-content: Check a new video's text before publishing */
+  moderateContent: {
+    request: {
+      body?: {
+        title?: string | null;
+        description?: string | null;
+        tags?: string[] | null;
+      };
+    };
+    response: ModerationResult;
+  };
+  /** POST /ai/generate-guide: Step-by-step guide, with illustrations unless includeImages is false */
+  generateGuide: {
+    request: {
+      body: {
+        query: string;
+        language?: string | null;
+        includeImages?: boolean | null;
+      };
+    };
+    response: AIGuide;
+  };
+  /** POST /ai/semantic-search: Videos by meaning rather than keywords */
+  semanticSearch: {
+    request: {
+      body: {
+        query: string;
+        category?: string | null;
+        limit?: number | null;
+      };
+    };
+    response: Video[];
+  };
+}
+
+export type OperationName = keyof ApiOperations;
+export type OperationRequest<Name extends OperationName> = ApiOperations[Name]["request"];
+export type OperationResponse<Name extends OperationName> = ApiOperations[Name]["response"];
+
+/**
+ * Method, path template and auth requirement of each operation; `auth`
+ * is `optional` where signed-in callers see more (blocks, likes)
+ */
+export const apiOperations = {
+  getHealth: { method: "GET", path: "/health", auth: "none" },
+  getOpenApiDocument: { method: "GET", path: "/openapi.json", auth: "none" },
+  getApiDocs: { method: "GET", path: "/docs", auth: "none" },
+  receiveStripeWebhook: { method: "POST", path: "/stripe/webhook/{uuid}", auth: "none" },
+  register: { method: "POST", path: "/auth/register", auth: "none" },
+  login: { method: "POST", path: "/auth/login", auth: "none" },
+  signInWithProvider: { method: "POST", path: "/auth/oauth/{provider}", auth: "none" },
+  refreshSession: { method: "POST", path: "/auth/refresh", auth: "none" },
+  logout: { method: "POST", path: "/auth/logout", auth: "none" },
+  forgotPassword: { method: "POST", path: "/auth/forgot-password", auth: "none" },
+  resetPassword: { method: "POST", path: "/auth/reset-password", auth: "none" },
+  getMe: { method: "GET", path: "/auth/me", auth: "required" },
+  updateProfile: { method: "PUT", path: "/auth/me", auth: "required" },
+  changePassword: { method: "PUT", path: "/auth/password", auth: "required" },
+  verifyEmail: { method: "POST", path: "/auth/verify-email", auth: "none" },
+  resendVerificationEmail: { method: "POST", path: "/auth/verify-email/resend", auth: "required" },
+  changeEmail: { method: "POST", path: "/auth/change-email", auth: "required" },
+  cancelEmailChange: { method: "DELETE", path: "/auth/change-email", auth: "required" },
+  getLinkedIdentities: { method: "GET", path: "/auth/identities", auth: "required" },
+  linkIdentity: { method: "POST", path: "/auth/identities/{provider}", auth: "required" },
+  unlinkIdentity: { method: "DELETE", path: "/auth/identities/{provider}", auth: "required" },
+  getSessions: { method: "GET", path: "/auth/sessions", auth: "required" },
+  revokeOtherSessions: { method: "DELETE", path: "/auth/sessions", auth: "required" },
+  revokeSession: { method: "DELETE", path: "/auth/sessions/{id}", auth: "required" },
+  getVideos: { method: "GET", path: "/videos", auth: "optional" },
+  createVideo: { method: "POST", path: "/videos", auth: "required" },
+  getFeed: { method: "GET", path: "/videos/feed", auth: "optional" },
+  importLocalActivity: { method: "POST", path: "/videos/import-local", auth: "required" },
+  getVideo: { method: "GET", path: "/videos/{id}", auth: "optional" },
+  deleteVideo: { method: "DELETE", path: "/videos/{id}", auth: "required" },
+  likeVideo: { method: "POST", path: "/videos/{id}/like", auth: "required" },
+  saveVideo: { method: "POST", path: "/videos/{id}/save", auth: "required" },
+  recordVideoWatch: { method: "POST", path: "/videos/{id}/watch", auth: "required" },
+  getComments: { method: "GET", path: "/videos/{id}/comments", auth: "optional" },
+  addComment: { method: "POST", path: "/videos/{id}/comments", auth: "required" },
+  reportVideo: { method: "POST", path: "/videos/{id}/report", auth: "required" },
+  getVideoCaptionTracks: { method: "GET", path: "/videos/{videoId}/captions", auth: "optional" },
+  getVideoCaptions: { method: "GET", path: "/videos/{videoId}/captions/{language}", auth: "optional" },
+  uploadVideoCaptions: { method: "PUT", path: "/videos/{videoId}/captions/{language}", auth: "required" },
+  deleteVideoCaptions: { method: "DELETE", path: "/videos/{videoId}/captions/{language}", auth: "required" },
+  transcribeVideo: { method: "POST", path: "/videos/{videoId}/captions/transcribe", auth: "required" },
+  createVideoUpload: { method: "POST", path: "/uploads", auth: "required" },
+  getVideoUpload: { method: "GET", path: "/uploads/{uploadId}", auth: "required" },
+  cancelVideoUpload: { method: "DELETE", path: "/uploads/{uploadId}", auth: "required" },
+  uploadVideoChunk: { method: "PUT", path: "/uploads/{uploadId}/chunk", auth: "required" },
+  completeVideoUpload: { method: "POST", path: "/uploads/{uploadId}/complete", auth: "required" },
+  exportData: { method: "GET", path: "/users/me/export", auth: "required" },
+  deleteAccount: { method: "DELETE", path: "/users/me", auth: "required" },
+  getUser: { method: "GET", path: "/users/{id}", auth: "optional" },
+  getUserVideos: { method: "GET", path: "/users/{id}/videos", auth: "optional" },
+  followUser: { method: "POST", path: "/users/{id}/follow", auth: "required" },
+  blockUser: { method: "POST", path: "/block", auth: "required" },
+  unblockUser: { method: "POST", path: "/unblock", auth: "required" },
+  getSavedVideos: { method: "GET", path: "/toolbox/saved", auth: "required" },
+  getFolders: { method: "GET", path: "/toolbox/folders", auth: "required" },
+  createFolder: { method: "POST", path: "/toolbox/folders", auth: "required" },
+  updateFolder: { method: "PUT", path: "/toolbox/folders/{id}", auth: "required" },
+  deleteFolder: { method: "DELETE", path: "/toolbox/folders/{id}", auth: "required" },
+  moveVideoToFolder: { method: "PUT", path: "/toolbox/saved/{videoId}/folder", auth: "required" },
+  getNotifications: { method: "GET", path: "/notifications", auth: "required" },
+  getUnreadCount: { method: "GET", path: "/notifications/unread-count", auth: "required" },
+  markNotificationRead: { method: "PUT", path: "/notifications/{id}/read", auth: "required" },
+  markAllNotificationsRead: { method: "PUT", path: "/notifications/read-all", auth: "required" },
+  deleteNotification: { method: "DELETE", path: "/notifications/{id}", auth: "required" },
+  getCommunityPosts: { method: "GET", path: "/community", auth: "optional" },
+  createCommunityPost: { method: "POST", path: "/community", auth: "required" },
+  getCommunityPost: { method: "GET", path: "/community/{id}", auth: "optional" },
+  getPostComments: { method: "GET", path: "/community/{id}/comments", auth: "optional" },
+  addPostComment: { method: "POST", path: "/community/{id}/comments", auth: "required" },
+  markCommentAsSolution: { method: "PUT", path: "/community/{postId}/comments/{commentId}/solution", auth: "required" },
+  submitReport: { method: "POST", path: "/reports", auth: "required" },
+  getSubscriptionStatus: { method: "GET", path: "/subscriptions/status", auth: "required" },
+  checkImageLimit: { method: "GET", path: "/subscriptions/check-image-limit", auth: "required" },
+  startTrial: { method: "POST", path: "/subscriptions/start-trial", auth: "required" },
+  createCheckoutSession: { method: "POST", path: "/subscriptions/create-checkout", auth: "required" },
+  cancelSubscription: { method: "POST", path: "/subscriptions/cancel", auth: "required" },
+  reactivateSubscription: { method: "POST", path: "/subscriptions/reactivate", auth: "required" },
+  askAI: { method: "POST", path: "/ai/ask-ai", auth: "optional" },
+  chat: { method: "POST", path: "/ai/chat", auth: "optional" },
+  liveAssist: { method: "POST", path: "/ai/liveassist", auth: "optional" },
+  createLiveAssistSession: { method: "POST", path: "/ai/liveassist/session", auth: "optional" },
+  getLiveAssistSessions: { method: "GET", path: "/ai/liveassist/sessions", auth: "required" },
+  getLatestLiveAssistSession: { method: "GET", path: "/ai/liveassist/latest-session", auth: "required" },
+  updateLiveAssistSession: { method: "PATCH", path: "/ai/liveassist/session/{sessionId}", auth: "required" },
+  deleteLiveAssistSession: { method: "DELETE", path: "/ai/liveassist/session/{sessionId}", auth: "required" },
+  getLiveAssistSessionThumbnail: { method: "GET", path: "/ai/liveassist/session/{sessionId}/thumbnail", auth: "required" },
+  getLiveAssistSessionMessages: { method: "GET", path: "/ai/liveassist/session/{sessionId}/messages", auth: "optional" },
+  sendLiveAssistMessage: { method: "POST", path: "/ai/liveassist/session/{sessionId}/message", auth: "optional" },
+  updateLiveAssistStepProgress: { method: "PATCH", path: "/ai/liveassist/session/{sessionId}/steps/{stepId}", auth: "optional" },
+  toggleMessageStep: { method: "PATCH", path: "/ai/liveassist/messages/{messageId}/steps/{stepIndex}", auth: "required" },
+  suggestTags: { method: "POST", path: "/ai/suggest-tags", auth: "required" },
+  generateDescription: { method: "POST", path: "/ai/generate-description", auth: "required" },
+  moderateContent: { method: "POST", path: "/ai/moderate-content", auth: "required" },
+  generateGuide: { method: "POST", path: "/ai/generate-guide", auth: "optional" },
+  semanticSearch: { method: "POST", path: "/ai/semantic-search", auth: "optional" },
+} as const;
+
+/**
+ * The endpoint of an operation, below the /api base URL, with its path
+ * parameters filled in and its query appended. Empty query values are left out.
+ */
+export function operationEndpoint<Name extends OperationName>(name: Name, request: OperationRequest<Name>): string {
+  const { params = {}, query = {} } = request as {
+    params?: Record<string, string | number>;
+    query?: Record<string, string | number | boolean | null | undefined>;
+  };
+  const path = apiOperations[name].path.replace(/\{(\w+)\}/g, (_, key: string) =>
+    encodeURIComponent(String(params[key])),
+  );
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") search.set(key, String(value));
+  });
+  const queryString = search.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
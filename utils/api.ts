@@ -1,6 +1,107 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { Platform } from "react-native";
+import { AppState, Platform } from "react-native";
 import Constants from "expo-constants";
+import {
+  validateLiveAssistAnalysis,
+  validateSessionMessage,
+} from "@/shared/liveAssistSchema";
+import type {
+  ErrorCode,
+  User,
+  OAuthProvider,
+  UserPreview,
+  FeedSection,
+  CreateVideoData,
+  VideoUploadStatus,
+  LocalActivity,
+  CreatePostData,
+  LiveAssistResponse,
+  LiveAssistSessionMessage,
+} from "@/shared/types";
+import {
+  apiOperations,
+  operationEndpoint,
+  OperationName,
+  OperationRequest,
+  OperationResponse,
+  SessionTokens,
+} from "./api.generated";
+
+// LiveAssist types are defined next to their runtime schemas
+export type {
+  LiveAssistStep,
+  LiveAssistOverlay,
+  RiskSeverity,
+  RiskEntry,
+  RiskOverlay,
+  SparePartPriority,
+  SparePart,
+  LiveAssistSessionStep,
+  LiveAssistYouTubeLink,
+  SchemaIssue,
+} from "@/shared/liveAssistSchema";
+
+// Request and response shapes are shared with the backend
+export type {
+  ErrorCode,
+  ErrorBody,
+  User,
+  EmailVerificationResult,
+  OAuthProvider,
+  LinkedIdentity,
+  SessionPlatform,
+  AuthSession,
+  UserProfile,
+  UserPreview,
+  Video,
+  SavedVideo,
+  FeedSection,
+  RecommendationReason,
+  Page,
+  CreateVideoData,
+  VideoCaptionsStatus,
+  CaptionCue,
+  VideoCaptions,
+  VideoCaptionTrackList,
+  VideoUploadStatus,
+  Comment,
+  LocalActivity,
+  Folder,
+  Notification,
+  GuideStep,
+  VideoChapter,
+  GuideImage,
+  AIGuide,
+  CommunityPost,
+  CreatePostData,
+  CommunityComment,
+  LiveAssistResponse,
+  LiveAssistUsage,
+  LiveAssistSessionMessage,
+  LiveAssistSessionSummary,
+  DataExport,
+  ExportedComment,
+  ExportedCommunityComment,
+  ExportedLiveAssistSession,
+  ExportedLiveAssistMessage,
+  XpReason,
+  XpHistoryEntry,
+} from "@/shared/types";
+
+// Shapes only the API document describes (utils/api.generated.ts)
+export type {
+  ApiOperations,
+  OperationName,
+  OperationRequest,
+  OperationResponse,
+  SignInResult,
+  SubscriptionStatus,
+  ImageLimitCheck,
+  LiveAssistSessionUpdate,
+  LiveAssistThread,
+  LiveAssistThreadMessage,
+  LiveAssistMessageUpdate,
+} from "./api.generated";
 
 const BACKEND_PORT = 5000;
 
@@ -25,23 +126,267 @@ function getApiBaseUrl(): string {
 
 const API_BASE_URL = getApiBaseUrl();
 
+// Scheme and host of the API, which the server's own links start with
+const API_ORIGIN = API_BASE_URL.replace(/^(https?:\/\/[^/]+).*$/, "$1");
+
 console.log("[API] FULL API URL:", API_BASE_URL);
 
 interface ApiOptions {
   method?: "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
   body?: any;
   requireAuth?: boolean;
+  idempotencyKey?: string;
+}
+
+type MutationMethod = "POST" | "PUT" | "PATCH" | "DELETE";
+
+/**
+ * What a queued request does, so contexts can reconcile their optimistic state
+ */
+export type OutboxKind =
+  | "video.like"
+  | "video.save"
+  | "video.comment"
+  | "community.post"
+  | "community.comment"
+  | "community.status"
+  | "community.solution"
+  | "liveassist.step";
+
+/**
+ * A mutating request recorded while offline, replayed in order later
+ */
+export interface OutboxEntry {
+  /** Sent as the Idempotency-Key, so a replay the server already saw is not applied twice */
+  id: string;
+  kind: OutboxKind;
+  /** The video, post or step the request changes */
+  target: string;
+  method: MutationMethod;
+  endpoint: string;
+  body?: any;
+  createdAt: string;
+  attempts: number;
+}
+
+/**
+ * The answer to a mutation, or the outbox entry it is waiting in
+ */
+export type Queued<T> =
+  | { queued: false; data: T }
+  | { queued: true; entry: OutboxEntry };
+
+/**
+ * A queued request after replay: `replayed` with the server's answer, or
+ * `rejected` when the server refused it and it was dropped
+ */
+export type OutboxEvent =
+  | { type: "replayed"; entry: OutboxEntry; data: any }
+  | { type: "rejected"; entry: OutboxEntry; error: ApiError };
+
+const OUTBOX_KEY = "quickfix_outbox";
+const OUTBOX_RETRY_MIN_MS = 5000;
+const OUTBOX_RETRY_MAX_MS = 120000;
+
+const REFRESH_TOKEN_KEY = "refreshToken";
+const TOKEN_EXPIRES_KEY = "authTokenExpiresAt";
+// Renew the access token this long before it expires
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+
+// Shown on the signed-in devices screen
+function deviceInfo(): { deviceName: string; platform: string } {
+  const fallback = Platform.OS === "web" ? "Web browser" : Platform.OS;
+  return { deviceName: Constants.deviceName || fallback, platform: Platform.OS };
+}
+
+function createIdempotencyKey(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+}
+
+export interface StreamHandlers {
+  onDelta?: (text: string) => void;
+  onField?: (name: string, value: unknown) => void;
+}
+
+export interface StreamHandle<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+/**
+ * Codes from the server's error envelope, plus NETWORK_ERROR when no
+ * response arrived and STREAM_CANCELLED on cancel()
+ */
+export type ApiErrorCode = ErrorCode | "NETWORK_ERROR" | "STREAM_CANCELLED";
+
+// Codes for bodies without one, mirroring the server's fallback
+const STATUS_ERROR_CODES: Record<number, ApiErrorCode> = {
+  400: "VALIDATION_FAILED",
+  401: "AUTH_REQUIRED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  409: "CONFLICT",
+  413: "VALIDATION_FAILED",
+  429: "RATE_LIMITED",
+  503: "SERVICE_UNAVAILABLE",
+};
+
+/**
+ * A failed API call. Screens branch on `code`; `message` is the server's
+ * human-readable text and `details` its machine-readable context, e.g.
+ * { imagesUsed, limit } for IMAGE_DAY_LIMIT or { retryAfter } for RATE_LIMITED.
+ */
+export class ApiError extends Error {
+  /** HTTP status, 0 when no response arrived */
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly details?: Record<string, any>;
+  readonly retryable: boolean;
+  /** The response body as received */
+  readonly payload: unknown;
+
+  constructor(
+    status: number,
+    code: ApiErrorCode,
+    message: string,
+    options: { details?: Record<string, any>; retryable?: boolean; payload?: unknown } = {},
+  ) {
+    super(message);
+    // Keeps instanceof working when classes are compiled down to ES5
+    Object.setPrototypeOf(this, ApiError.prototype);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.details = options.details;
+    this.retryable = options.retryable ?? false;
+    this.payload = options.payload;
+  }
+
+  static fromResponse(status: number, payload: any): ApiError {
+    const code: ApiErrorCode =
+      payload?.code || STATUS_ERROR_CODES[status] || (status >= 500 ? "SERVER_ERROR" : "VALIDATION_FAILED");
+    return new ApiError(
+      status,
+      code,
+      payload?.message || payload?.error || `Request failed with status ${status}`,
+      {
+        details: payload?.details,
+        retryable: payload?.retryable ?? status >= 500,
+        payload,
+      },
+    );
+  }
+
+  static network(message: string): ApiError {
+    return new ApiError(0, "NETWORK_ERROR", message, { retryable: true });
+  }
+
+  get isNetworkError(): boolean {
+    return this.code === "NETWORK_ERROR";
+  }
+}
+
+/**
+ * Whether `error` is an ApiError, optionally with one of `codes`
+ */
+export function isApiError(error: unknown, ...codes: ApiErrorCode[]): error is ApiError {
+  return error instanceof ApiError && (codes.length === 0 || codes.includes(error.code));
+}
+
+function createCancelledError() {
+  return new ApiError(0, "STREAM_CANCELLED", "STREAM_CANCELLED");
+}
+
+export function isStreamCancelled(error: any): boolean {
+  return isApiError(error, "STREAM_CANCELLED");
+}
+
+function parseSseFrame(frame: string): { event: string; data: any } | null {
+  let event = "message";
+  const dataLines: string[] = [];
+  for (const line of frame.split("\n")) {
+    if (line.startsWith("event:")) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith("data:")) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+  if (dataLines.length === 0) return null;
+  try {
+    return { event, data: JSON.parse(dataLines.join("\n")) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a LiveAssist session reply against the shared schema.
+ * Unusable replies degrade to plain text instead of rendering broken steps.
+ */
+function validateSessionReply(reply: LiveAssistSessionMessage): LiveAssistSessionMessage {
+  const validated = validateSessionMessage(reply);
+  if (!validated.value) {
+    return {
+      id: reply?.id,
+      text: typeof reply?.text === "string" ? reply.text : "",
+      steps: [],
+      youtube_links: [],
+      images_to_show: [],
+      safety_warnings: [],
+      structured: false,
+      validationErrors: validated.issues,
+    };
+  }
+  return {
+    ...validated.value,
+    id: reply.id,
+    structured: reply.structured !== false,
+    validationErrors: [...(reply.validationErrors || []), ...validated.issues],
+  };
+}
+
+function pageQuery(page?: PageParams): { cursor?: string; limit?: number } {
+  return { cursor: page?.cursor || undefined, limit: page?.limit || undefined };
 }
 
 class ApiClient {
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private tokenExpiresAt: number | null = null;
+  private refreshing: Promise<string | null> | null = null;
+  private authExpiredHandler: (() => void) | null = null;
+  private outbox: OutboxEntry[] | null = null;
+  private outboxListeners = new Set<(entries: OutboxEntry[]) => void>();
+  private replayListeners = new Set<(event: OutboxEvent) => void>();
+  private flushing: Promise<void> | null = null;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushDelay = OUTBOX_RETRY_MIN_MS;
+
+  /**
+   * Called when the session has ended for good: the refresh token was
+   * revoked, expired or never issued, so only signing in again helps
+   */
+  onAuthExpired(handler: (() => void) | null) {
+    this.authExpiredHandler = handler;
+  }
+
+  private handleError(error: ApiError, sentToken: string | null): ApiError {
+    if (error.code === "AUTH_EXPIRED" && sentToken && sentToken === this.token) {
+      // Renew for the next call; refreshSession signs out if it cannot
+      this.refreshSession().catch(() => {});
+    }
+    return error;
+  }
 
   async setToken(token: string | null) {
     this.token = token;
     if (token) {
       await AsyncStorage.setItem("authToken", token);
     } else {
-      await AsyncStorage.removeItem("authToken");
+      // Dropping the access token ends the refresh session with it
+      this.refreshToken = null;
+      this.tokenExpiresAt = null;
+      await AsyncStorage.multiRemove(["authToken", REFRESH_TOKEN_KEY, TOKEN_EXPIRES_KEY]);
     }
   }
 
@@ -51,19 +396,125 @@ class ApiClient {
     return this.token;
   }
 
+  /**
+   * Keep the tokens from sign-in and /auth/refresh. The access token lasts
+   * minutes and is renewed with the refresh token, which the server
+   * replaces each time.
+   */
+  private async storeSession(tokens: SessionTokens) {
+    this.token = tokens.token;
+    this.refreshToken = tokens.refreshToken;
+    this.tokenExpiresAt = Date.now() + tokens.expiresIn * 1000;
+    await AsyncStorage.multiSet([
+      ["authToken", tokens.token],
+      [REFRESH_TOKEN_KEY, tokens.refreshToken],
+      [TOKEN_EXPIRES_KEY, String(this.tokenExpiresAt)],
+    ]);
+  }
+
+  private async getRefreshToken(): Promise<string | null> {
+    if (this.refreshToken) return this.refreshToken;
+    this.refreshToken = await AsyncStorage.getItem(REFRESH_TOKEN_KEY);
+    return this.refreshToken;
+  }
+
+  /**
+   * The access token, renewed first when it is about to expire
+   */
+  private async getFreshToken(): Promise<string | null> {
+    const token = await this.getToken();
+    if (!token || token.startsWith("local_")) return token;
+
+    if (this.tokenExpiresAt === null) {
+      const stored = await AsyncStorage.getItem(TOKEN_EXPIRES_KEY);
+      this.tokenExpiresAt = stored ? Number(stored) : null;
+    }
+    if (this.tokenExpiresAt === null || this.tokenExpiresAt - Date.now() > TOKEN_REFRESH_MARGIN_MS) {
+      return token;
+    }
+
+    try {
+      return await this.refreshSession();
+    } catch {
+      // Offline; send the old token and let the server decide
+      return token;
+    }
+  }
+
+  /**
+   * Trade the refresh token for a new token pair. Concurrent callers share
+   * one request, since each refresh token is accepted only once.
+   * @returns the new access token, or null when the session has ended and
+   * the auth-expired handler has been called
+   * @throws ApiError when the server cannot be reached
+   */
+  refreshSession(): Promise<string | null> {
+    if (this.refreshing) return this.refreshing;
+    this.refreshing = (async () => {
+      const refreshToken = await this.getRefreshToken();
+      if (!refreshToken) {
+        this.authExpiredHandler?.();
+        return null;
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${API_BASE_URL}${operationEndpoint("refreshSession", { body: { refreshToken } })}`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken }),
+        });
+      } catch (error: any) {
+        throw ApiError.network(`Network error: ${error.message || "Connection failed"}`);
+      }
+
+      const data = await response.json().catch(() => null);
+      // Signed out while the refresh was in flight
+      if (this.refreshToken !== refreshToken) return null;
+
+      if (!response.ok) {
+        const error = ApiError.fromResponse(response.status, data);
+        if (error.status !== 401) throw error;
+        console.log("[API] Refresh rejected:", error.message);
+        await this.setToken(null);
+        this.authExpiredHandler?.();
+        return null;
+      }
+
+      await this.storeSession(data as SessionTokens);
+      return this.token;
+    })().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
   async request<T>(endpoint: string, options: ApiOptions = {}): Promise<T> {
-    const { method = "GET", body, requireAuth = false } = options;
+    const token = options.requireAuth ? await this.getFreshToken() : null;
+    try {
+      return await this.fetchJson<T>(endpoint, options, token);
+    } catch (error) {
+      if (!token || !isApiError(error, "AUTH_EXPIRED")) throw error;
+      // The access token ran out in flight; renew it and try once more
+      const renewed = token === this.token ? await this.refreshSession() : this.token;
+      if (!renewed) throw error;
+      return this.fetchJson<T>(endpoint, options, renewed);
+    }
+  }
+
+  private async fetchJson<T>(endpoint: string, options: ApiOptions, token: string | null): Promise<T> {
+    const { method = "GET", body } = options;
     const url = `${API_BASE_URL}${endpoint}`;
 
     const headers: Record<string, string> = {
       "Content-Type": "application/json",
     };
 
-    if (requireAuth) {
-      const token = await this.getToken();
-      if (token) {
-        headers["Authorization"] = `Bearer ${token}`;
-      }
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+    if (options.idempotencyKey) {
+      headers["Idempotency-Key"] = options.idempotencyKey;
     }
 
     const config: RequestInit = {
@@ -75,195 +526,660 @@ class ApiClient {
       config.body = JSON.stringify(body);
     }
 
+    let response: Response;
     try {
       console.log(`[API] ${method} ${url}`);
-      const response = await fetch(url, config);
+      response = await fetch(url, config);
+    } catch (error: any) {
+      console.log(`[API] Network error for ${url}:`, error.message || error);
+      throw ApiError.network(`Network error: ${error.message || "Connection failed"}`);
+    }
 
-      if (!response.ok) {
-        const errorData = await response
-          .json()
-          .catch(() => ({ error: "Request failed" }));
-        console.log(
-          `[API] Error ${response.status}: ${JSON.stringify(errorData)}`,
-        );
-        throw new Error(
-          errorData.error || `Request failed with status ${response.status}`,
-        );
-      }
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      console.log(
+        `[API] Error ${response.status}: ${JSON.stringify(errorData)}`,
+      );
+      throw this.handleError(ApiError.fromResponse(response.status, errorData), token);
+    }
 
-      return response.json();
-    } catch (error: any) {
-      if (error.message?.includes("Request failed")) {
-        throw error;
+    // The server is reachable again; send anything queued while it was not
+    if (!this.flushing && this.outbox && this.outbox.length > 0) {
+      this.scheduleFlush(0);
+    }
+
+    return response.json();
+  }
+
+  /* ---------- OFFLINE OUTBOX ---------- */
+
+  private async loadOutbox(): Promise<OutboxEntry[]> {
+    if (this.outbox) return this.outbox;
+    try {
+      const stored = await AsyncStorage.getItem(OUTBOX_KEY);
+      this.outbox = stored ? JSON.parse(stored) : [];
+    } catch {
+      this.outbox = [];
+    }
+    return this.outbox!;
+  }
+
+  private async saveOutbox(entries: OutboxEntry[]) {
+    this.outbox = entries;
+    this.outboxListeners.forEach((listener) => listener(entries));
+    try {
+      await AsyncStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.log("[API] Failed to persist outbox:", error);
+    }
+  }
+
+  async getOutbox(): Promise<OutboxEntry[]> {
+    return this.loadOutbox();
+  }
+
+  /**
+   * Listen for the queued requests changing; called once right away
+   * @returns unsubscribe
+   */
+  subscribeOutbox(listener: (entries: OutboxEntry[]) => void): () => void {
+    this.outboxListeners.add(listener);
+    this.loadOutbox().then((entries) => {
+      if (this.outboxListeners.has(listener)) listener(entries);
+    });
+    return () => {
+      this.outboxListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen for queued requests being replayed or rejected
+   * @returns unsubscribe
+   */
+  onOutboxReplay(listener: (event: OutboxEvent) => void): () => void {
+    this.replayListeners.add(listener);
+    return () => {
+      this.replayListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a mutation now, or queue it when the server cannot be reached.
+   * Once anything is queued, later mutations queue behind it so the server
+   * sees them in the order they were made. Only signed-in server sessions
+   * queue; without one the network error is thrown as before.
+   */
+  async send<T>(
+    kind: OutboxKind,
+    target: string,
+    endpoint: string,
+    options: { method: MutationMethod; body?: any },
+  ): Promise<Queued<T>> {
+    const entry: OutboxEntry = {
+      id: createIdempotencyKey(),
+      kind,
+      target,
+      method: options.method,
+      endpoint,
+      body: options.body,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    const queue = await this.loadOutbox();
+    if (queue.length === 0) {
+      try {
+        const data = await this.request<T>(endpoint, {
+          method: options.method,
+          body: options.body,
+          requireAuth: true,
+          idempotencyKey: entry.id,
+        });
+        return { queued: false, data };
+      } catch (error) {
+        if (!isApiError(error, "NETWORK_ERROR")) throw error;
       }
-      console.log(`[API] Network error for ${url}:`, error.message || error);
-      throw new Error(`Network error: ${error.message || "Connection failed"}`);
     }
+
+    const token = await this.getToken();
+    if (!token || token.startsWith("local_")) {
+      throw ApiError.network("Network error: not signed in to the server");
+    }
+
+    console.log(`[API] Queued ${options.method} ${endpoint} for replay`);
+    await this.saveOutbox([...(await this.loadOutbox()), entry]);
+    this.scheduleFlush();
+    return { queued: true, entry };
+  }
+
+  private scheduleFlush(delay: number = this.flushDelay) {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flushOutbox();
+    }, delay);
+  }
+
+  /**
+   * Replay queued requests oldest first. Stops at the first one that fails
+   * for a reason that may pass (offline, server trouble, session expired)
+   * and tries again later with backoff; requests the server refuses are
+   * dropped and reported as `rejected`.
+   */
+  flushOutbox(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    this.flushing = (async () => {
+      while (true) {
+        const [entry] = await this.loadOutbox();
+        if (!entry) {
+          this.flushDelay = OUTBOX_RETRY_MIN_MS;
+          return;
+        }
+
+        try {
+          const data = await this.request(entry.endpoint, {
+            method: entry.method,
+            body: entry.body,
+            requireAuth: true,
+            idempotencyKey: entry.id,
+          });
+          await this.removeOutboxEntry(entry.id);
+          this.flushDelay = OUTBOX_RETRY_MIN_MS;
+          this.replayListeners.forEach((listener) => listener({ type: "replayed", entry, data }));
+        } catch (error) {
+          const apiError = isApiError(error) ? error : ApiError.network(String(error));
+          if (apiError.retryable || apiError.code === "AUTH_EXPIRED") {
+            await this.saveOutbox(
+              (await this.loadOutbox()).map((queued) =>
+                queued.id === entry.id ? { ...queued, attempts: queued.attempts + 1 } : queued,
+              ),
+            );
+            this.scheduleFlush();
+            this.flushDelay = Math.min(this.flushDelay * 2, OUTBOX_RETRY_MAX_MS);
+            return;
+          }
+          console.log(`[API] Dropped queued ${entry.method} ${entry.endpoint}:`, apiError.message);
+          await this.removeOutboxEntry(entry.id);
+          this.replayListeners.forEach((listener) => listener({ type: "rejected", entry, error: apiError }));
+        }
+      }
+    })().finally(() => {
+      this.flushing = null;
+    });
+    return this.flushing;
+  }
+
+  private async removeOutboxEntry(id: string) {
+    await this.saveOutbox((await this.loadOutbox()).filter((entry) => entry.id !== id));
+  }
+
+  /**
+   * POST a request that the server answers as Server-Sent Events.
+   * Uses XMLHttpRequest because React Native's fetch cannot read a body
+   * incrementally. If the server answers with plain JSON, or the connection
+   * fails before the first event, the blocking result is used instead. Both
+   * attempts carry one Idempotency-Key: when the stream did reach the server,
+   * the retry gets its stored answer instead of sending the message twice.
+   */
+  stream<T>(
+    endpoint: string,
+    body: any,
+    handlers: StreamHandlers = {},
+    requireAuth: boolean = false,
+  ): StreamHandle<T> {
+    const xhr = new XMLHttpRequest();
+    const idempotencyKey = createIdempotencyKey();
+    let cancelled = false;
+
+    // An async executor would leave the promise pending if the token lookup threw
+    const send = async (resolve: (value: T) => void, reject: (reason: unknown) => void) => {
+      const token = requireAuth ? await this.getFreshToken() : null;
+      if (cancelled) {
+        reject(createCancelledError());
+        return;
+      }
+
+      const url = `${API_BASE_URL}${endpoint}`;
+      let processed = 0;
+      let receivedEvent = false;
+      let finalPayload: T | undefined;
+      let streamError: ApiError | null = null;
+
+      const consume = () => {
+        const text = xhr.responseText || "";
+        let boundary = text.indexOf("\n\n", processed);
+        while (boundary !== -1) {
+          const frame = parseSseFrame(text.slice(processed, boundary));
+          processed = boundary + 2;
+          boundary = text.indexOf("\n\n", processed);
+          if (!frame) continue;
+
+          receivedEvent = true;
+          if (frame.event === "delta") {
+            handlers.onDelta?.(frame.data?.text || "");
+          } else if (frame.event === "field") {
+            handlers.onField?.(frame.data?.name, frame.data?.value);
+          } else if (frame.event === "done") {
+            finalPayload = frame.data as T;
+          } else if (frame.event === "error") {
+            // Headers already went out as 200; the envelope carries the code
+            streamError = ApiError.fromResponse(xhr.status, {
+              code: "AI_FAILED",
+              retryable: true,
+              message: frame.data?.error || "Stream failed",
+              ...frame.data,
+            });
+          }
+        }
+      };
+
+      xhr.open("POST", url);
+      xhr.setRequestHeader("Content-Type", "application/json");
+      xhr.setRequestHeader("Accept", "text/event-stream");
+      xhr.setRequestHeader("Idempotency-Key", idempotencyKey);
+      if (token) {
+        xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+      }
+
+      xhr.onprogress = consume;
+
+      xhr.onload = () => {
+        const contentType = xhr.getResponseHeader("Content-Type") || "";
+        if (!contentType.includes("text/event-stream")) {
+          // Blocking response (validation errors, limits, AI not configured)
+          let data: any = null;
+          try {
+            data = JSON.parse(xhr.responseText);
+          } catch {
+            data = null;
+          }
+          if (xhr.status >= 200 && xhr.status < 300 && data) {
+            resolve(data as T);
+          } else {
+            reject(this.handleError(ApiError.fromResponse(xhr.status, data), token));
+          }
+          return;
+        }
+
+        consume();
+        if (streamError) {
+          reject(streamError);
+        } else if (finalPayload !== undefined) {
+          resolve(finalPayload);
+        } else {
+          reject(ApiError.network("Stream ended unexpectedly"));
+        }
+      };
+
+      xhr.onerror = () => {
+        if (cancelled) return;
+        if (!receivedEvent) {
+          this.request<T>(endpoint, { method: "POST", body, requireAuth, idempotencyKey }).then(
+            resolve,
+            reject,
+          );
+          return;
+        }
+        reject(ApiError.network("Network error: stream interrupted"));
+      };
+
+      xhr.onabort = () => reject(createCancelledError());
+
+      xhr.send(JSON.stringify(body));
+    };
+    const result = new Promise<T>((resolve, reject) => {
+      send(resolve, reject).catch(reject);
+    });
+
+    return {
+      result,
+      cancel: () => {
+        cancelled = true;
+        xhr.abort();
+      },
+    };
+  }
+
+  /**
+   * Call an operation of the API document (see utils/api.generated.ts).
+   * The token goes along unless the operation takes none, so signed-in
+   * callers of optional-auth routes see their likes, blocks and allowance.
+   */
+  private call<Name extends OperationName>(
+    name: Name,
+    request: OperationRequest<Name>,
+  ): Promise<OperationResponse<Name>> {
+    const { method, auth } = apiOperations[name];
+    return this.request<OperationResponse<Name>>(operationEndpoint(name, request), {
+      method,
+      body: (request as { body?: unknown }).body,
+      requireAuth: auth !== "none",
+    });
+  }
+
+  /**
+   * send() for an operation of the API document
+   */
+  private sendOperation<Name extends OperationName>(
+    kind: OutboxKind,
+    target: string,
+    name: Name,
+    request: OperationRequest<Name>,
+  ): Promise<Queued<OperationResponse<Name>>> {
+    return this.send<OperationResponse<Name>>(kind, target, operationEndpoint(name, request), {
+      method: apiOperations[name].method as MutationMethod,
+      body: (request as { body?: unknown }).body,
+    });
   }
 
   async register(email: string, password: string, displayName: string) {
-    const result = await this.request<{ user: User; token: string }>(
-      "/auth/register",
-      {
-        method: "POST",
-        body: { email, password, displayName },
-      },
-    );
-    await this.setToken(result.token);
+    const result = await this.call("register", {
+      body: { email, password, displayName, ...deviceInfo() },
+    });
+    await this.storeSession(result);
     return result;
   }
 
   async login(email: string, password: string) {
-    const result = await this.request<{
-      user: User;
-      token: string;
-      xpAwarded?: number;
-      leveledUp?: boolean;
-    }>("/auth/login", {
-      method: "POST",
-      body: { email, password },
+    const result = await this.call("login", {
+      body: { email, password, ...deviceInfo() },
+    });
+    await this.storeSession(result);
+    return result;
+  }
+
+  /**
+   * Sign in with an Apple or Google ID token. Fails with
+   * ACCOUNT_LINK_REQUIRED when its email already has an account; sending
+   * that account's password links the two and signs in.
+   */
+  async signInWithProvider(
+    provider: OAuthProvider,
+    credential: { idToken: string; displayName?: string },
+    password?: string,
+  ) {
+    const result = await this.call("signInWithProvider", {
+      params: { provider },
+      body: { ...credential, password, ...deviceInfo() },
     });
-    await this.setToken(result.token);
+    await this.storeSession(result);
     return result;
   }
 
   async logout() {
+    const refreshToken = await this.getRefreshToken();
     await this.setToken(null);
+    // Queued changes belong to the account that made them
+    await this.saveOutbox([]);
+    if (refreshToken) {
+      // Ends the session on the server too; it lapses on its own if this fails
+      this.call("logout", { body: { refreshToken } }).catch(() => {});
+    }
+  }
+
+  /* ---------- SIGNED-IN DEVICES ---------- */
+
+  async getSessions() {
+    return this.call("getSessions", {});
+  }
+
+  async revokeSession(sessionId: string) {
+    return this.call("revokeSession", { params: { id: sessionId } });
+  }
+
+  /**
+   * Sign out every device except this one
+   */
+  async revokeOtherSessions() {
+    return this.call("revokeOtherSessions", {});
+  }
+
+  async getLinkedIdentities() {
+    return this.call("getLinkedIdentities", {});
+  }
+
+  async linkIdentity(provider: OAuthProvider, idToken: string) {
+    return this.call("linkIdentity", { params: { provider }, body: { idToken } });
+  }
+
+  async unlinkIdentity(provider: OAuthProvider) {
+    return this.call("unlinkIdentity", { params: { provider } });
   }
 
   async getMe() {
-    return this.request<User>("/auth/me", { requireAuth: true });
+    return this.call("getMe", {});
   }
 
   async updateProfile(data: Partial<User>) {
-    return this.request<User>("/auth/me", {
-      method: "PUT",
-      body: data,
-      requireAuth: true,
-    });
+    return this.call("updateProfile", { body: data });
+  }
+
+  // Cancels any subscription and deletes the account and everything in it
+  async deleteAccount() {
+    return this.call("deleteAccount", {});
+  }
+
+  async exportData() {
+    return this.call("exportData", {});
   }
 
   async changePassword(currentPassword: string, newPassword: string) {
-    return this.request<{ message: string }>("/auth/password", {
-      method: "PUT",
-      body: { currentPassword, newPassword },
-      requireAuth: true,
-    });
+    return this.call("changePassword", { body: { currentPassword, newPassword } });
+  }
+
+  /**
+   * Email a reset link; answers the same whether or not the address has an account
+   */
+  async forgotPassword(email: string) {
+    return this.call("forgotPassword", { body: { email } });
+  }
+
+  async resetPassword(token: string, newPassword: string) {
+    return this.call("resetPassword", { body: { token, newPassword } });
+  }
+
+  // Any emailed verification link; works signed in or not
+  async verifyEmail(token: string) {
+    return this.call("verifyEmail", { body: { token } });
+  }
+
+  async resendVerificationEmail() {
+    return this.call("resendVerificationEmail", {});
   }
 
-  async getFeed() {
-    return this.request<{
-      recommended: Video[];
-      new: Video[];
-      popular: Video[];
-    }>("/videos/feed", { requireAuth: true });
+  // Takes effect once the emailed links are opened; until then it is user.pendingEmail
+  async changeEmail(newEmail: string, password: string) {
+    return this.call("changeEmail", { body: { newEmail, password } });
+  }
+
+  async cancelEmailChange() {
+    return this.call("cancelEmailChange", {});
+  }
+
+  async getFeed(params?: { section?: FeedSection } & PageParams) {
+    return this.call("getFeed", { query: { section: params?.section, ...pageQuery(params) } });
   }
 
   async getVideos(params?: {
     category?: string;
+    tag?: string;
     search?: string;
-    sort?: string;
-  }) {
-    const query = new URLSearchParams();
-    if (params?.category) query.set("category", params.category);
-    if (params?.search) query.set("search", params.search);
-    if (params?.sort) query.set("sort", params.sort);
-
-    const queryString = query.toString();
-    return this.request<Video[]>(
-      `/videos${queryString ? `?${queryString}` : ""}`,
-      {
-        requireAuth: true,
+    sort?: "recent" | "popular";
+  } & PageParams) {
+    return this.call("getVideos", {
+      query: {
+        category: params?.category,
+        tag: params?.tag,
+        search: params?.search,
+        sort: params?.sort,
+        ...pageQuery(params),
       },
-    );
+    });
   }
 
   async getVideo(id: string) {
-    return this.request<Video>(`/videos/${id}`, { requireAuth: true });
+    return this.call("getVideo", { params: { id } });
   }
 
   async createVideo(data: CreateVideoData) {
-    return this.request<Video>("/videos", {
-      method: "POST",
-      body: data,
-      requireAuth: true,
+    return this.call("createVideo", { body: data });
+  }
+
+  // Caption tracks (see backend/routes/captions.ts)
+  async getVideoCaptionTracks(videoId: string) {
+    return this.call("getVideoCaptionTracks", { params: { videoId } });
+  }
+
+  /**
+   * Cues in the given language. Missing languages are machine-translated
+   * from the original track on first request when signed in, so this can
+   * take a moment.
+   */
+  async getVideoCaptions(videoId: string, language: string) {
+    return this.call("getVideoCaptions", { params: { videoId, language } });
+  }
+
+  async uploadVideoCaptions(videoId: string, language: string, vtt: string) {
+    return this.call("uploadVideoCaptions", { params: { videoId, language }, body: { vtt } });
+  }
+
+  async transcribeVideo(videoId: string) {
+    return this.call("transcribeVideo", { params: { videoId } });
+  }
+
+  // Resumable chunked video upload (see backend/routes/uploads.ts)
+  async createVideoUpload(data: {
+    fileName?: string;
+    mimeType?: string;
+    totalSize: number;
+  }): Promise<VideoUploadStatus> {
+    return this.call("createVideoUpload", { body: data });
+  }
+
+  async getVideoUpload(uploadId: string): Promise<VideoUploadStatus> {
+    return this.call("getVideoUpload", { params: { uploadId } });
+  }
+
+  /**
+   * Send one chunk as raw bytes. Uses XMLHttpRequest for upload progress.
+   * An offset mismatch rejects with a CONFLICT ApiError whose `details`
+   * are the server's current VideoUploadStatus, so the caller can continue
+   * from there.
+   */
+  uploadVideoChunk(
+    uploadId: string,
+    offset: number,
+    chunk: Blob,
+    onProgress?: (sentBytes: number) => void,
+  ): StreamHandle<VideoUploadStatus> {
+    const xhr = new XMLHttpRequest();
+    let cancelled = false;
+
+    // Not an async executor, as in stream()
+    const send = async (resolve: (value: VideoUploadStatus) => void, reject: (reason: unknown) => void) => {
+      const token = await this.getFreshToken();
+      if (cancelled) {
+        reject(createCancelledError());
+        return;
+      }
+
+      xhr.open("PUT", `${API_BASE_URL}${operationEndpoint("uploadVideoChunk", { params: { uploadId }, body: chunk })}`);
+      xhr.setRequestHeader("Content-Type", "application/octet-stream");
+      xhr.setRequestHeader("Upload-Offset", String(offset));
+      if (token) {
+        xhr.setRequestHeader("Authorization", `Bearer ${token}`);
+      }
+
+      xhr.upload.onprogress = (event) => onProgress?.(event.loaded);
+
+      xhr.onload = () => {
+        let data: any = null;
+        try {
+          data = JSON.parse(xhr.responseText);
+        } catch {
+          data = null;
+        }
+        if (xhr.status >= 200 && xhr.status < 300 && data) {
+          resolve(data as VideoUploadStatus);
+          return;
+        }
+        reject(ApiError.fromResponse(xhr.status, data));
+      };
+
+      xhr.onerror = () => reject(ApiError.network("Network error: chunk upload failed"));
+      xhr.onabort = () => reject(createCancelledError());
+
+      xhr.send(chunk);
+    };
+    const result = new Promise<VideoUploadStatus>((resolve, reject) => {
+      send(resolve, reject).catch(reject);
     });
+
+    return {
+      result,
+      cancel: () => {
+        cancelled = true;
+        xhr.abort();
+      },
+    };
+  }
+
+  async completeVideoUpload(uploadId: string): Promise<VideoUploadStatus> {
+    return this.call("completeVideoUpload", { params: { uploadId } });
+  }
+
+  async cancelVideoUpload(uploadId: string) {
+    return this.call("cancelVideoUpload", { params: { uploadId } });
   }
 
   async deleteVideo(id: string) {
-    return this.request<{ message: string }>(`/videos/${id}`, {
-      method: "DELETE",
-      requireAuth: true,
-    });
+    return this.call("deleteVideo", { params: { id } });
   }
 
-  async likeVideo(id: string) {
-    return this.request<{ liked: boolean; likesCount: number }>(
-      `/videos/${id}/like`,
-      {
-        method: "POST",
-        requireAuth: true,
-      },
-    );
+  async likeVideo(id: string, liked: boolean) {
+    return this.sendOperation("video.like", id, "likeVideo", { params: { id }, body: { liked } });
   }
 
-  async saveVideo(id: string, folderId?: string) {
-    return this.request<{ saved: boolean }>(`/videos/${id}/save`, {
-      method: "POST",
-      body: { folderId },
-      requireAuth: true,
-    });
+  async saveVideo(id: string, saved: boolean) {
+    return this.sendOperation("video.save", id, "saveVideo", { params: { id }, body: { saved } });
   }
 
   async recordVideoWatch(id: string) {
-    return this.request<{
-      success: boolean;
-      xpAwarded: number;
-      totalXp?: number;
-      level?: number;
-    }>(`/videos/${id}/watch`, {
-      method: "POST",
-      requireAuth: true,
-    });
+    return this.call("recordVideoWatch", { params: { id } });
   }
 
   async getComments(videoId: string) {
-    return this.request<Comment[]>(`/videos/${videoId}/comments`);
+    return this.call("getComments", { params: { id: videoId } });
   }
 
   async addComment(videoId: string, content: string) {
-    return this.request<Comment>(`/videos/${videoId}/comments`, {
-      method: "POST",
+    return this.sendOperation("video.comment", videoId, "addComment", {
+      params: { id: videoId },
       body: { content },
-      requireAuth: true,
     });
   }
 
   async reportVideo(videoId: string, reason: string, description?: string) {
-    return this.request<{ message: string }>(`/videos/${videoId}/report`, {
-      method: "POST",
-      body: { reason, description },
-      requireAuth: true,
-    });
+    return this.call("reportVideo", { params: { id: videoId }, body: { reason, description } });
+  }
+
+  async importLocalActivity(data: LocalActivity) {
+    return this.call("importLocalActivity", { body: data });
   }
 
   async getUser(id: string) {
-    return this.request<UserProfile>(`/users/${id}`, { requireAuth: true });
+    return this.call("getUser", { params: { id } });
   }
 
-  async getUserVideos(userId: string) {
-    return this.request<Video[]>(`/users/${userId}/videos`, {
-      requireAuth: true,
-    });
+  async getUserVideos(userId: string, page?: PageParams) {
+    return this.call("getUserVideos", { params: { id: userId }, query: pageQuery(page) });
   }
 
   async followUser(id: string) {
-    return this.request<{ following: boolean }>(`/users/${id}/follow`, {
-      method: "POST",
-      requireAuth: true,
-    });
+    return this.call("followUser", { params: { id } });
   }
 
+  // Not in the API document: the server has no follower lists yet, so these fail with NOT_FOUND
   async getFollowers(userId: string) {
     return this.request<UserPreview[]>(`/users/${userId}/followers`);
   }
@@ -272,115 +1188,60 @@ class ApiClient {
     return this.request<UserPreview[]>(`/users/${userId}/following`);
   }
 
-  async getSavedVideos(folderId?: string) {
-    const query = folderId ? `?folderId=${folderId}` : "";
-    return this.request<Video[]>(`/toolbox/saved${query}`, {
-      requireAuth: true,
-    });
+  async getSavedVideos(folderId?: string, page?: PageParams) {
+    return this.call("getSavedVideos", { query: { folderId, ...pageQuery(page) } });
   }
 
   async getFolders() {
-    return this.request<{ folders: Folder[]; uncategorizedCount: number }>(
-      "/toolbox/folders",
-      {
-        requireAuth: true,
-      },
-    );
+    return this.call("getFolders", {});
   }
 
   async createFolder(name: string) {
-    return this.request<Folder>("/toolbox/folders", {
-      method: "POST",
-      body: { name },
-      requireAuth: true,
-    });
+    return this.call("createFolder", { body: { name } });
   }
 
   async updateFolder(id: string, name: string) {
-    return this.request<Folder>(`/toolbox/folders/${id}`, {
-      method: "PUT",
-      body: { name },
-      requireAuth: true,
-    });
+    return this.call("updateFolder", { params: { id }, body: { name } });
   }
 
   async deleteFolder(id: string) {
-    return this.request<{ message: string }>(`/toolbox/folders/${id}`, {
-      method: "DELETE",
-      requireAuth: true,
-    });
+    return this.call("deleteFolder", { params: { id } });
   }
 
   async moveVideoToFolder(videoId: string, folderId: string | null) {
-    return this.request<{ message: string }>(
-      `/toolbox/saved/${videoId}/folder`,
-      {
-        method: "PUT",
-        body: { folderId },
-        requireAuth: true,
-      },
-    );
+    return this.call("moveVideoToFolder", { params: { videoId }, body: { folderId } });
   }
 
   async getNotifications() {
-    return this.request<Notification[]>("/notifications", {
-      requireAuth: true,
-    });
+    return this.call("getNotifications", {});
   }
 
   async getUnreadCount() {
-    return this.request<{ count: number }>("/notifications/unread-count", {
-      requireAuth: true,
-    });
+    return this.call("getUnreadCount", {});
   }
 
   async markNotificationRead(id: string) {
-    return this.request<{ message: string }>(`/notifications/${id}/read`, {
-      method: "PUT",
-      requireAuth: true,
-    });
+    return this.call("markNotificationRead", { params: { id } });
   }
 
   async markAllNotificationsRead() {
-    return this.request<{ message: string }>("/notifications/read-all", {
-      method: "PUT",
-      requireAuth: true,
-    });
+    return this.call("markAllNotificationsRead", {});
   }
 
   async suggestTags(title: string, description?: string, category?: string) {
-    return this.request<{ tags: string[] }>("/ai/suggest-tags", {
-      method: "POST",
-      body: { title, description, category },
-      requireAuth: true,
-    });
+    return this.call("suggestTags", { body: { title, description, category } });
   }
 
   async generateDescription(title: string, category?: string, tags?: string[]) {
-    return this.request<{ description: string }>("/ai/generate-description", {
-      method: "POST",
-      body: { title, category, tags },
-      requireAuth: true,
-    });
+    return this.call("generateDescription", { body: { title, category, tags } });
   }
 
   async moderateContent(title: string, description?: string, tags?: string[]) {
-    return this.request<{ approved: boolean; reason: string | null }>(
-      "/ai/moderate-content",
-      {
-        method: "POST",
-        body: { title, description, tags },
-        requireAuth: true,
-      },
-    );
+    return this.call("moderateContent", { body: { title, description, tags } });
   }
 
   async semanticSearch(query: string, category?: string) {
-    return this.request<Video[]>("/ai/semantic-search", {
-      method: "POST",
-      body: { query, category },
-      requireAuth: true,
-    });
+    return this.call("semanticSearch", { body: { query, category } });
   }
 
   async generateGuide(
@@ -388,18 +1249,11 @@ class ApiClient {
     language: string = "en",
     includeImages: boolean = true,
   ) {
-    return this.request<AIGuide>("/ai/generate-guide", {
-      method: "POST",
-      body: { query, language, includeImages },
-      requireAuth: true,
-    });
+    return this.call("generateGuide", { body: { query, language, includeImages } });
   }
 
   async askAI(question: string, language: string = "en") {
-    return this.request<{ answer: string }>("/ai/ask-ai", {
-      method: "POST",
-      body: { question, language },
-    });
+    return this.call("askAI", { body: { question, language } });
   }
 
   async chat(data: {
@@ -407,7 +1261,7 @@ class ApiClient {
     language?: string;
     imageBase64?: string;
     videoFileName?: string;
-  }): Promise<{ answer: string; rawResponse?: unknown; success?: boolean }> {
+  }): Promise<{ answer: string; success?: boolean }> {
     console.log("[API] chat called with:", {
       messageCount: data.messages?.length,
       language: data.language,
@@ -416,11 +1270,7 @@ class ApiClient {
     });
 
     try {
-      const response = await this.request<{
-        answer: string;
-        rawResponse?: unknown;
-      }>("/ai/chat", {
-        method: "POST",
+      const response = await this.call("chat", {
         body: {
           messages: data.messages,
           language: data.language || "en",
@@ -432,7 +1282,6 @@ class ApiClient {
       if (response && response.answer) {
         return {
           answer: response.answer,
-          rawResponse: response.rawResponse,
           success: true,
         };
       }
@@ -444,6 +1293,29 @@ class ApiClient {
     }
   }
 
+  chatStream(
+    data: {
+      messages: { role: string; content: string }[];
+      language?: string;
+      imageBase64?: string;
+      videoFileName?: string;
+    },
+    handlers: StreamHandlers,
+  ): StreamHandle<OperationResponse<"chat">> {
+    const body = {
+      messages: data.messages,
+      language: data.language || "en",
+      imageBase64: data.imageBase64,
+      videoFileName: data.videoFileName,
+    };
+    return this.stream<OperationResponse<"chat">>(
+      operationEndpoint("chat", { body }),
+      body,
+      handlers,
+      true,
+    );
+  }
+
   async liveAssist(
     imageBase64: string,
     language: string = "en",
@@ -455,46 +1327,27 @@ class ApiClient {
     });
 
     try {
-      const response = await this.request<{
-        success?: boolean;
-        analysis?: {
-          summary?: string;
-          possibleIssue?: string;
-          safetyNote?: string;
-          steps?: Array<{ stepNumber: number; text: string }>;
-          overlays?: LiveAssistOverlay[];
-          riskLevel?: RiskSeverity;
-          riskSummary?: string;
-          risks?: RiskEntry[];
-          riskOverlays?: RiskOverlay[];
-          spareParts?: SparePart[];
-          rawResponse?: string;
-        };
-        error?: string;
-        imagesUsed?: number;
-        limit?: number;
-        upgradeRequired?: boolean;
-      }>("/ai/liveassist", {
-        method: "POST",
-        body: { imageBase64, language },
-      });
-
-      if (response && response.analysis) {
+      const response = await this.call("liveAssist", { body: { imageBase64, language } });
+
+      // Re-validate so overlays and risks never render out-of-range data,
+      // even from an older backend
+      const validated = validateLiveAssistAnalysis(response?.analysis);
+      if (response && validated.value) {
+        const validationErrors = [
+          ...(response.validationErrors || []),
+          ...validated.issues,
+        ];
+        if (validationErrors.length > 0) {
+          console.log("[API] LiveAssist fields corrected:", validationErrors);
+        }
         return {
           success: true,
           analysis: {
-            summary: response.analysis.summary || "",
-            possibleIssue: response.analysis.possibleIssue || "",
-            safetyNote: response.analysis.safetyNote || "",
-            steps: response.analysis.steps || [],
-            overlays: response.analysis.overlays || [],
-            riskLevel: response.analysis.riskLevel,
-            riskSummary: response.analysis.riskSummary || "",
-            risks: response.analysis.risks || [],
-            riskOverlays: response.analysis.riskOverlays || [],
-            spareParts: response.analysis.spareParts || [],
-            rawResponse: response.analysis.rawResponse || "",
+            ...validated.value,
+            rawResponse: response.analysis?.rawResponse || "",
           },
+          validationErrors,
+          subscription: response.subscription,
         };
       }
 
@@ -502,22 +1355,10 @@ class ApiClient {
     } catch (error: any) {
       console.log("[API] LiveAssist error:", error?.message || error);
 
-      // Check for daily limit error and re-throw with response data attached
-      if (
-        error?.message?.includes("limit_exceeded") ||
-        error?.message?.includes("IMAGE_DAY_LIMIT") ||
-        error?.message?.includes("daily limit")
-      ) {
-        const customError: any = new Error("IMAGE_DAY_LIMIT");
-        customError.code = "IMAGE_DAY_LIMIT";
-        customError.response = {
-          error: "limit_exceeded",
-          code: "IMAGE_DAY_LIMIT",
-          imagesUsed: 2,
-          limit: 2,
-          upgradeRequired: true,
-        };
-        throw customError;
+      // The screen shows the upgrade prompt with the server's usage details,
+      // or why the scan was turned away when it is over a limit
+      if (isApiError(error, "IMAGE_DAY_LIMIT", "RATE_LIMITED", "AI_BUDGET_EXCEEDED")) {
+        throw error;
       }
 
       return {
@@ -538,40 +1379,40 @@ class ApiClient {
   }
 
   // LiveAssist Session API - MVP Conversation Thread
-  async createLiveAssistSession(): Promise<{ sessionId: string }> {
+  async createLiveAssistSession() {
     console.log("[API] createLiveAssistSession called");
-    return this.request<{ sessionId: string }>("/ai/liveassist/session", {
-      method: "POST",
-      body: {},
-      requireAuth: true,
-    });
+    return this.call("createLiveAssistSession", { body: {} });
+  }
+
+  async getLiveAssistSessions() {
+    return this.call("getLiveAssistSessions", {});
+  }
+
+  /**
+   * Image source for a session's thumbnailUrl. Photos taken in the app come
+   * from this API and need the access token; linked images are sent as is.
+   */
+  async getLiveAssistThumbnailSource(thumbnailUrl: string): Promise<ImageSource> {
+    const token = await this.getFreshToken();
+    if (!token || !thumbnailUrl.startsWith(`${API_ORIGIN}/`)) return { uri: thumbnailUrl };
+    return { uri: thumbnailUrl, headers: { Authorization: `Bearer ${token}` } };
+  }
+
+  async updateLiveAssistSession(
+    sessionId: string,
+    data: { title?: string; isPinned?: boolean },
+  ) {
+    return this.call("updateLiveAssistSession", { params: { sessionId }, body: data });
+  }
+
+  async deleteLiveAssistSession(sessionId: string) {
+    return this.call("deleteLiveAssistSession", { params: { sessionId } });
   }
 
   // Fix A: Get messages for existing session (includes id for step persistence)
-  async getLiveAssistSessionMessages(sessionId: string): Promise<{
-    messages: Array<{
-      id?: string;
-      role: string;
-      text?: string;
-      imageUrls?: string[];
-      analysisResult?: any;
-      createdAt?: string;
-    }>;
-  }> {
+  async getLiveAssistSessionMessages(sessionId: string) {
     console.log("[API] getLiveAssistSessionMessages called:", sessionId);
-    return this.request<{
-      messages: Array<{
-        id?: string;
-        role: string;
-        text?: string;
-        imageUrls?: string[];
-        analysisResult?: any;
-        createdAt?: string;
-      }>;
-    }>(`/ai/liveassist/session/${sessionId}/messages`, {
-      method: "GET",
-      requireAuth: true,
-    });
+    return this.call("getLiveAssistSessionMessages", { params: { sessionId } });
   }
 
   async sendLiveAssistMessage(
@@ -583,69 +1424,59 @@ class ApiClient {
       hasText: !!data.text,
       imageCount: data.images?.length || 0,
     });
-    return this.request<LiveAssistSessionMessage>(
-      `/ai/liveassist/session/${sessionId}/message`,
-      {
-        method: "POST",
-        body: {
-          text: data.text || "",
-          images: data.images || [],
-          language: data.language || "en",
-        },
-        requireAuth: true,
+    const reply = await this.call("sendLiveAssistMessage", {
+      params: { sessionId },
+      body: {
+        text: data.text || "",
+        images: data.images || [],
+        language: data.language || "en",
       },
+    });
+    return validateSessionReply(reply);
+  }
+
+  sendLiveAssistMessageStream(
+    sessionId: string,
+    data: { text?: string; images?: string[]; language?: string },
+    handlers: StreamHandlers,
+  ): StreamHandle<LiveAssistSessionMessage> {
+    const body = {
+      text: data.text || "",
+      images: data.images || [],
+      language: data.language || "en",
+    };
+    const handle = this.stream<OperationResponse<"sendLiveAssistMessage">>(
+      operationEndpoint("sendLiveAssistMessage", { params: { sessionId }, body }),
+      body,
+      handlers,
+      true,
     );
+    return { ...handle, result: handle.result.then(validateSessionReply) };
   }
 
   async updateLiveAssistStepProgress(
     sessionId: string,
     stepId: string,
     completed: boolean,
-  ): Promise<{ success: boolean }> {
-    return this.request<{ success: boolean }>(
-      `/ai/liveassist/session/${sessionId}/steps/${stepId}`,
-      {
-        method: "PATCH",
-        body: { completed },
-        requireAuth: true,
-      },
-    );
+  ) {
+    return this.sendOperation("liveassist.step", stepId, "updateLiveAssistStepProgress", {
+      params: { sessionId, stepId },
+      body: { completed },
+    });
   }
 
-  // Fix 1: Toggle step done state for a persisted message
+  // Fix 1: Set a step's done state in a persisted message
   async toggleMessageStep(
     messageId: string,
     stepIndex: number,
-  ): Promise<{
-    id: string;
-    sessionId: string;
-    sender: string;
-    type: string;
-    content: string;
-    meta: {
-      text?: string;
-      steps?: Array<{
-        id?: string;
-        text: string;
-        detail?: string;
-        tools?: string[];
-        done?: boolean;
-      }>;
-      youtube_links?: Array<{ title: string; url: string }>;
-      images_to_show?: string[];
-      safety_warnings?: string[];
-    };
-    createdAt: string;
-    status: string;
-  }> {
-    console.log("[API] toggleMessageStep called:", { messageId, stepIndex });
-    return this.request(
-      `/ai/liveassist/messages/${messageId}/steps/${stepIndex}`,
-      {
-        method: "PATCH",
-        requireAuth: true,
-      },
-    );
+    done: boolean,
+    stepKey: string,
+  ) {
+    console.log("[API] toggleMessageStep called:", { messageId, stepIndex, done });
+    return this.sendOperation("liveassist.step", stepKey, "toggleMessageStep", {
+      params: { messageId, stepIndex },
+      body: { done },
+    });
   }
 
   async checkAIServiceHealth(): Promise<boolean> {
@@ -676,50 +1507,35 @@ class ApiClient {
   }
 
   async getCommunityPosts(params?: { category?: string; status?: string }) {
-    const query = new URLSearchParams();
-    if (params?.category && params.category !== "all")
-      query.set("category", params.category);
-    if (params?.status && params.status !== "all")
-      query.set("status", params.status);
-
-    const queryString = query.toString();
-    return this.request<CommunityPost[]>(
-      `/community${queryString ? `?${queryString}` : ""}`,
-      {
-        requireAuth: true,
+    return this.call("getCommunityPosts", {
+      query: {
+        category: params?.category !== "all" ? params?.category : undefined,
+        status: params?.status !== "all" ? params?.status : undefined,
       },
-    );
+    });
   }
 
   async getCommunityPost(id: string) {
-    return this.request<CommunityPost>(`/community/${id}`, {
-      requireAuth: true,
-    });
+    return this.call("getCommunityPost", { params: { id } });
   }
 
   async createCommunityPost(data: CreatePostData) {
-    return this.request<CommunityPost>("/community", {
-      method: "POST",
-      body: data,
-      requireAuth: true,
-    });
+    return this.sendOperation("community.post", "", "createCommunityPost", { body: data });
   }
 
+  // Not in the API document: the server has no status route yet, so this is rejected with NOT_FOUND
   async updatePostStatus(
     postId: string,
     status: "open" | "answered" | "solved",
   ) {
-    return this.request<{ success: boolean }>(`/community/${postId}/status`, {
+    return this.send<{ success: boolean }>("community.status", postId, `/community/${postId}/status`, {
       method: "PUT",
       body: { status },
-      requireAuth: true,
     });
   }
 
   async getPostComments(postId: string) {
-    return this.request<CommunityComment[]>(`/community/${postId}/comments`, {
-      requireAuth: true,
-    });
+    return this.call("getPostComments", { params: { id: postId } });
   }
 
   async addPostComment(
@@ -727,21 +1543,16 @@ class ApiClient {
     content: string,
     linkedVideoId?: string,
   ) {
-    return this.request<CommunityComment>(`/community/${postId}/comments`, {
-      method: "POST",
+    return this.sendOperation("community.comment", postId, "addPostComment", {
+      params: { id: postId },
       body: { content, linkedVideoId },
-      requireAuth: true,
     });
   }
 
   async markCommentAsSolution(postId: string, commentId: string) {
-    return this.request<{ success: boolean }>(
-      `/community/${postId}/comments/${commentId}/solution`,
-      {
-        method: "PUT",
-        requireAuth: true,
-      },
-    );
+    return this.sendOperation("community.solution", postId, "markCommentAsSolution", {
+      params: { postId, commentId },
+    });
   }
 
   async submitReport(data: {
@@ -751,358 +1562,69 @@ class ApiClient {
     reason: string;
     message?: string;
   }) {
-    return this.request<{
-      success: boolean;
-      reportId: string;
-      createdAt: string;
-    }>("/reports", {
-      method: "POST",
-      body: data,
-      requireAuth: true,
-    });
+    return this.call("submitReport", { body: data });
   }
 
   async blockUser(targetUserId: string) {
-    return this.request<{ status: string }>("/block", {
-      method: "POST",
-      body: { targetUserId },
-      requireAuth: true,
-    });
+    return this.call("blockUser", { body: { targetUserId } });
   }
 
   async unblockUser(targetUserId: string) {
-    return this.request<{ status: string }>("/unblock", {
-      method: "POST",
-      body: { targetUserId },
-      requireAuth: true,
-    });
-  }
-
-  async getBlockedUsers() {
-    return this.request<{ blockedUserIds: string[] }>("/blocked", {
-      requireAuth: true,
-    });
+    return this.call("unblockUser", { body: { targetUserId } });
   }
 
   async getSubscriptionStatus() {
-    return this.request<{
-      subscription: {
-        plan: "free" | "trial" | "paid";
-        status: string;
-        isActive: boolean;
-        isPremium: boolean;
-        trialEndsAt: string | null;
-        paidUntil: string | null;
-      };
-      usage: {
-        imagesUsedToday: number;
-        dailyImageLimit: number | null;
-        canUploadVideo: boolean;
-      };
-      config: {
-        priceSek: number;
-        trialDays: number;
-      };
-    }>("/subscriptions/status", {
-      requireAuth: true,
-    });
+    return this.call("getSubscriptionStatus", {});
   }
 
   async checkImageLimit() {
-    return this.request<{
-      allowed: boolean;
-      isPremium: boolean;
-      imagesUsed: number;
-      limit: number;
-      remaining?: number;
-      message?: string;
-    }>("/subscriptions/check-image-limit", {
-      requireAuth: true,
-    });
+    return this.call("checkImageLimit", {});
   }
 
   async startTrial() {
-    return this.request<{
-      success: boolean;
-      trialStartedAt: string;
-      trialEndsAt: string;
-      message: string;
-    }>("/subscriptions/start-trial", {
-      method: "POST",
-      requireAuth: true,
-    });
+    return this.call("startTrial", {});
   }
 
   async createCheckoutSession() {
-    return this.request<{
-      url: string;
-      sessionId: string;
-    }>("/subscriptions/create-checkout", {
-      method: "POST",
-      requireAuth: true,
-    });
+    return this.call("createCheckoutSession", {});
   }
 
   async cancelSubscription() {
-    return this.request<{
-      success: boolean;
-      message: string;
-      accessUntil?: string;
-    }>("/subscriptions/cancel", {
-      method: "POST",
-      requireAuth: true,
-    });
+    return this.call("cancelSubscription", {});
   }
 
   async reactivateSubscription() {
-    return this.request<{
-      success: boolean;
-      message: string;
-    }>("/subscriptions/reactivate", {
-      method: "POST",
-      requireAuth: true,
-    });
+    return this.call("reactivateSubscription", {});
   }
 }
 
-export interface User {
-  id: string;
-  email: string;
-  displayName: string;
-  bio?: string;
-  avatarUrl?: string;
-  expertiseCategories?: string[];
-  followersCount: number;
-  followingCount: number;
-  xp: number;
-  level: number;
-  nextLevelXp: number;
-  currentLevelXp: number;
-  createdAt?: string;
-  subscription_status?: string;
-  subscription_expiry?: string;
-  image_counter?: number;
+/**
+ * Source of an image the API serves, as React Native's Image takes it
+ */
+export interface ImageSource {
+  uri: string;
+  headers?: Record<string, string>;
 }
 
-export interface UserProfile extends User {
-  isFollowing: boolean;
-  isBlocked?: boolean;
+export interface PageParams {
+  cursor?: string | null;
+  limit?: number;
 }
 
-export interface UserPreview {
-  id: string;
-  displayName: string;
-  avatarUrl?: string;
-  bio?: string;
-}
-
-export interface Video {
-  id: string;
-  title: string;
-  description?: string;
-  category: string;
-  tags: string[];
-  videoUrl?: string;
-  thumbnailUrl?: string;
-  duration: number;
-  likesCount: number;
-  commentsEnabled: boolean;
-  authorId: string;
-  authorName: string;
-  authorAvatar?: string;
-  isLiked: boolean;
-  isSaved: boolean;
-  createdAt: string;
-  isYouTube?: boolean;
-  youtubeId?: string;
-}
-
-export interface CreateVideoData {
-  title: string;
-  description?: string;
-  category: string;
-  tags?: string[];
-  videoUrl?: string;
-  thumbnailUrl?: string;
-  duration: number;
-  commentsEnabled?: boolean;
-}
-
-export interface Comment {
-  id: string;
-  content: string;
-  authorId: string;
-  authorName: string;
-  authorAvatar?: string;
-  createdAt: string;
-}
-
-export interface Folder {
-  id: string;
-  name: string;
-  videoCount: number;
-  createdAt: string;
-}
-
-export interface Notification {
-  id: string;
-  type: string;
-  title: string;
-  message?: string;
-  isRead: boolean;
-  relatedUserId?: string;
-  relatedUserName?: string;
-  relatedUserAvatar?: string;
-  relatedVideoId?: string;
-  relatedVideoTitle?: string;
-  createdAt: string;
-}
-
-export interface GuideStep {
-  stepNumber: number;
-  text: string;
-}
-
-export interface GuideImage {
-  url: string;
-  caption: string;
-}
-
-export interface AIGuide {
-  id?: string;
-  query: string;
-  steps: GuideStep[];
-  images: GuideImage[];
-  language: string;
-  createdAt?: string;
-}
-
-export interface CommunityPost {
-  id: string;
-  title: string;
-  description: string;
-  category: string;
-  imageUrl?: string;
-  status: "open" | "answered" | "solved";
-  commentsCount: number;
-  authorId: string;
-  authorName: string;
-  authorAvatar?: string;
-  createdAt: string;
-  updatedAt: string;
-  xpAwarded?: number;
-  totalXp?: number;
-  level?: number;
-  leveledUp?: boolean;
-}
-
-export interface CreatePostData {
-  title: string;
-  description: string;
-  category: string;
-  imageUrl?: string;
-}
-
-export interface CommunityComment {
-  id: string;
-  content: string;
-  isSolution: boolean;
-  authorId: string;
-  authorName: string;
-  authorAvatar?: string;
-  linkedVideoId?: string;
-  linkedVideoTitle?: string;
-  linkedVideoThumbnail?: string;
-  createdAt: string;
-  xpAwarded?: number;
-  totalXp?: number;
-  level?: number;
-  leveledUp?: boolean;
-}
-
-export interface LiveAssistStep {
-  stepNumber: number;
-  text: string;
-}
-
-export interface LiveAssistOverlay {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  stepIndex: number | null;
-  label: string;
-}
-
-export type RiskSeverity = "low" | "medium" | "high";
-
-export interface RiskEntry {
-  label: string;
-  severity: RiskSeverity;
-  recommendation: string;
-}
-
-export interface RiskOverlay {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  riskLabel: string;
-  severity: RiskSeverity;
-}
-
-export type SparePartPriority = "primary" | "optional";
-
-export interface SparePart {
-  name: string;
-  category: string;
-  description: string;
-  specs: string[];
-  compatibility: string;
-  priority: SparePartPriority;
-  notes: string;
-  overlayIndex: number | null;
-}
-
-export interface LiveAssistResponse {
-  success: boolean;
-  analysis: {
-    summary: string;
-    possibleIssue: string;
-    steps: LiveAssistStep[];
-    safetyNote?: string;
-    overlays?: LiveAssistOverlay[];
-    riskLevel?: RiskSeverity;
-    riskSummary?: string;
-    risks?: RiskEntry[];
-    riskOverlays?: RiskOverlay[];
-    spareParts?: SparePart[];
-    rawResponse: string;
-  };
-  error?: string;
-}
-
-// LiveAssist Session types for MVP conversation thread
-export interface LiveAssistSessionStep {
-  id: string;
-  text: string;
-  detail: string;
-  tools: string[];
-  done?: boolean;
-}
-
-export interface LiveAssistYouTubeLink {
-  title: string;
-  url: string;
-}
-
-export interface LiveAssistSessionMessage {
-  text: string;
-  steps: LiveAssistSessionStep[];
-  youtube_links: LiveAssistYouTubeLink[];
-  images_to_show: string[];
-  safety_warnings: string[];
-  structured: boolean;
-}
+/**
+ * Where a video list comes from, so screens further down (e.g. the swipe
+ * player) can keep paging the same list
+ */
+export type VideoSource =
+  | { type: "videos"; category?: string; tag?: string; search?: string; sort?: "recent" | "popular" }
+  | { type: "feed"; section?: FeedSection }
+  | { type: "user"; userId: string }
+  | { type: "saved"; folderId?: string };
 
 export const api = new ApiClient();
+
+// Replay anything queued in an earlier run, and again whenever the app returns
+api.flushOutbox();
+AppState.addEventListener("change", (state) => {
+  if (state === "active") api.flushOutbox();
+});
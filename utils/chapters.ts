@@ -0,0 +1,46 @@
+import { VideoChapter } from "@/utils/api";
+
+export const MAX_CHAPTERS = 10;
+export const MAX_CHAPTER_TEXT_LENGTH = 80;
+
+/**
+ * Format seconds as m:ss
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  const mins = Math.floor(whole / 60);
+  const secs = whole % 60;
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Parse "0:05", "1:20" or plain seconds ("20"). Returns null if invalid.
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2})$/);
+  if (!match) return null;
+  const mins = match[1] ? parseInt(match[1], 10) : 0;
+  const secs = parseInt(match[2], 10);
+  if (match[1] && secs >= 60) return null;
+  return mins * 60 + secs;
+}
+
+/**
+ * Sort chapters by start time and renumber them from 1
+ */
+export function numberChapters(chapters: Omit<VideoChapter, "stepNumber">[]): VideoChapter[] {
+  return [...chapters]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((chapter, index) => ({ ...chapter, stepNumber: index + 1 }));
+}
+
+/**
+ * Index of the chapter playing at `time`, or -1 before the first one
+ */
+export function getActiveChapterIndex(chapters: VideoChapter[], time: number): number {
+  let active = -1;
+  chapters.forEach((chapter, index) => {
+    if (chapter.startTime <= time) active = index;
+  });
+  return active;
+}
@@ -0,0 +1,49 @@
+import { TFunction } from "i18next";
+
+import { isApiError } from "@/utils/api";
+
+/**
+ * Text to show for a failed API call. Validation and conflict errors carry
+ * the server's own message; everything else maps its code to errors.*,
+ * or to `fallbackKey` for plain server and AI failures.
+ */
+export function describeError(
+  t: TFunction,
+  error: unknown,
+  fallbackKey: string = "errors.somethingWentWrong",
+): string {
+  if (!isApiError(error)) return t(fallbackKey);
+
+  switch (error.code) {
+    case "NETWORK_ERROR":
+      return t("errors.networkError");
+    case "AUTH_EXPIRED":
+      return t("errors.sessionExpired");
+    case "AUTH_REQUIRED":
+    case "AUTH_INVALID":
+      return t("errors.unauthorized");
+    case "FORBIDDEN":
+      return t("errors.forbidden");
+    case "NOT_FOUND":
+      return t("errors.notFound");
+    case "USER_BLOCKED":
+      return t("errors.userBlocked");
+    case "IMAGE_DAY_LIMIT":
+      return t("errors.imageDayLimit");
+    case "TOKEN_INVALID":
+      return t("errors.linkExpired");
+    case "EMAIL_NOT_VERIFIED":
+      return t("errors.emailNotVerified");
+    case "RATE_LIMITED":
+      return t("errors.rateLimited");
+    case "AI_BUDGET_EXCEEDED":
+      return t("errors.aiBudgetExceeded");
+    case "AI_UNAVAILABLE":
+      return t("errors.aiUnavailable");
+    case "VALIDATION_FAILED":
+    case "CONFLICT":
+      return error.message || t(fallbackKey);
+    default:
+      return t(fallbackKey);
+  }
+}
@@ -0,0 +1,55 @@
+import { TFunction } from "i18next";
+
+import { RecommendationReason, Video } from "@/utils/api";
+import { getCategoryLabel } from "@/constants/categories";
+
+/**
+ * Card text for a recommendation reason, e.g. "Because you scanned “Leaking faucet”"
+ */
+export function describeReason(t: TFunction, reason: RecommendationReason): string {
+  const category = reason.category ? t(getCategoryLabel(reason.category)) : "";
+  if (reason.type === "scan" && !reason.label) {
+    return t("recommendations.scanCategory", { category });
+  }
+  return t(`recommendations.${reason.type}`, { category, label: reason.label });
+}
+
+export interface LocalSignals {
+  likedIds: Set<string>;
+  savedIds: Set<string>;
+  expertiseCategories?: string[];
+}
+
+/**
+ * Offline stand-in for the server ranking: likes and saves on this device
+ * and the profile's expertise boost their categories, then popularity.
+ */
+export function rankLocally(videos: Video[], signals: LocalSignals): Video[] {
+  const affinity: Record<string, { score: number; reason: RecommendationReason["type"] }> = {};
+  const add = (category: string, score: number, reason: RecommendationReason["type"]) => {
+    const current = affinity[category];
+    affinity[category] = {
+      score: (current?.score ?? 0) + score,
+      reason: current && current.score >= score ? current.reason : reason,
+    };
+  };
+
+  videos.forEach((video) => {
+    if (signals.savedIds.has(video.id)) add(video.category, 2.5, "saved");
+    if (signals.likedIds.has(video.id)) add(video.category, 2, "liked");
+  });
+  (signals.expertiseCategories ?? []).forEach((category) => add(category, 2, "expertise"));
+
+  return videos
+    .map((video) => {
+      const interest = affinity[video.category];
+      const personal = interest ? Math.log1p(interest.score) : 0;
+      const popularity = 0.5 * Math.log1p(video.likesCount);
+      const reason: RecommendationReason = interest && personal >= popularity
+        ? { type: interest.reason, category: video.category }
+        : { type: "popular" };
+      return { video: { ...video, reason }, score: personal + popularity };
+    })
+    .sort((a, b) => b.score - a.score)
+    .map((entry) => entry.video);
+}
@@ -31,6 +31,12 @@ export const sampleVideos: Video[] = [
     videoUrl: DEMO_VIDEO_URL,
     thumbnailUrl: undefined,
     duration: 45,
+    chapters: [
+      { stepNumber: 1, startTime: 0, text: "Shut off the water under the sink" },
+      { stepNumber: 2, startTime: 8, text: "Remove the handle and retaining nut" },
+      { stepNumber: 3, startTime: 20, text: "Replace the worn cartridge" },
+      { stepNumber: 4, startTime: 35, text: "Reassemble and test for drips" },
+    ],
     likesCount: 892,
     commentsEnabled: true,
     authorId: "creator1",
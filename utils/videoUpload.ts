@@ -0,0 +1,196 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { api, isApiError, isStreamCancelled, VideoUploadStatus } from "@/utils/api";
+
+// The upload in progress, so it can resume after backgrounding or a restart
+const PENDING_UPLOAD_KEY = "quickfix_pending_video_upload";
+
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+interface PendingVideoUpload {
+  uploadId: string;
+  videoUri: string;
+  totalSize: number;
+}
+
+export interface VideoUploadHandle {
+  result: Promise<VideoUploadStatus>;
+  /** Stops sending; calling uploadVideo again with the same URI resumes */
+  cancel: () => void;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function guessMimeType(videoUri: string, blobType: string): string {
+  if (blobType.startsWith("video/")) return blobType;
+  return /\.mov$/i.test(videoUri) ? "video/quicktime" : "video/mp4";
+}
+
+async function loadPendingUpload(): Promise<PendingVideoUpload | null> {
+  const json = await AsyncStorage.getItem(PENDING_UPLOAD_KEY);
+  return json ? JSON.parse(json) : null;
+}
+
+export async function getPendingVideoUri(): Promise<string | null> {
+  const pending = await loadPendingUpload();
+  return pending?.videoUri || null;
+}
+
+/**
+ * Forget the pending upload and cancel it on the server
+ */
+export async function discardVideoUpload(): Promise<void> {
+  const pending = await loadPendingUpload();
+  await AsyncStorage.removeItem(PENDING_UPLOAD_KEY);
+  if (pending) {
+    api.cancelVideoUpload(pending.uploadId).catch((error) => {
+      console.log("[Upload] Cancel failed:", error?.message || error);
+    });
+  }
+}
+
+/**
+ * Complete a fully sent upload. When an earlier request (e.g. before a
+ * restart) is still completing it, waits for that one instead.
+ */
+async function completeUpload(
+  uploadId: string,
+  status: VideoUploadStatus,
+  checkCancelled: () => void,
+): Promise<VideoUploadStatus> {
+  let current = status;
+  for (;;) {
+    if (current.status === "complete") return current;
+    if (current.status !== "processing") {
+      try {
+        return await api.completeVideoUpload(uploadId);
+      } catch (error: any) {
+        if (!isApiError(error, "CONFLICT") || error.details?.status !== "processing") throw error;
+      }
+    }
+    await wait(RETRY_BASE_DELAY_MS);
+    checkCancelled();
+    current = await api.getVideoUpload(uploadId);
+  }
+}
+
+/**
+ * Upload a local video in chunks. Resumes the pending upload for the same
+ * file when there is one; failed chunks are retried with backoff from the
+ * offset the server reports.
+ */
+export function uploadVideo(
+  videoUri: string,
+  onProgress?: (sentBytes: number, totalBytes: number) => void,
+): VideoUploadHandle {
+  let cancelled = false;
+  let cancelChunk: (() => void) | null = null;
+
+  const checkCancelled = () => {
+    if (cancelled) {
+      const error: any = new Error("Upload cancelled");
+      error.code = "STREAM_CANCELLED";
+      throw error;
+    }
+  };
+
+  const run = async (): Promise<VideoUploadStatus> => {
+    const blob = await (await fetch(videoUri)).blob();
+    const totalSize = blob.size;
+    checkCancelled();
+
+    let status: VideoUploadStatus | null = null;
+    const pending = await loadPendingUpload();
+    if (pending && pending.videoUri === videoUri && pending.totalSize === totalSize) {
+      try {
+        status = await api.getVideoUpload(pending.uploadId);
+        console.log("[Upload] Resuming at", status.receivedBytes, "of", totalSize);
+      } catch {
+        status = null;
+      }
+      if (status && (status.status === "failed" || status.status === "published")) {
+        status = null;
+      }
+    }
+
+    if (!status) {
+      status = await api.createVideoUpload({
+        fileName: videoUri.split("/").pop(),
+        mimeType: guessMimeType(videoUri, blob.type || ""),
+        totalSize,
+      });
+      await AsyncStorage.setItem(
+        PENDING_UPLOAD_KEY,
+        JSON.stringify({ uploadId: status.uploadId, videoUri, totalSize }),
+      );
+    }
+
+    const { uploadId, chunkSize } = status;
+    let offset = status.receivedBytes;
+    let attempts = 0;
+    onProgress?.(offset, totalSize);
+
+    while (status.status === "uploading" && offset < totalSize) {
+      checkCancelled();
+      const chunk = blob.slice(offset, Math.min(offset + chunkSize, totalSize));
+      const chunkStart = offset;
+      const request = api.uploadVideoChunk(uploadId, offset, chunk, (sent) =>
+        onProgress?.(chunkStart + sent, totalSize),
+      );
+      cancelChunk = request.cancel;
+
+      try {
+        status = await request.result;
+        offset = status.receivedBytes;
+        attempts = 0;
+      } catch (error: any) {
+        if (isStreamCancelled(error)) throw error;
+
+        if (isApiError(error, "CONFLICT") && error.details?.uploadId) {
+          // Server already has a different amount; continue from there
+          status = error.details as VideoUploadStatus;
+          offset = status.receivedBytes;
+          continue;
+        }
+
+        attempts += 1;
+        if (attempts >= MAX_CHUNK_ATTEMPTS) throw error;
+        console.log(`[Upload] Chunk failed (attempt ${attempts}), retrying:`, error?.message);
+        await wait(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1));
+        checkCancelled();
+        try {
+          status = await api.getVideoUpload(uploadId);
+          offset = status.receivedBytes;
+        } catch {
+          // Still offline; the next attempt retries from the same offset
+        }
+      } finally {
+        cancelChunk = null;
+      }
+      onProgress?.(offset, totalSize);
+    }
+
+    checkCancelled();
+    try {
+      const completed = await completeUpload(uploadId, status, checkCancelled);
+      await AsyncStorage.removeItem(PENDING_UPLOAD_KEY);
+      return completed;
+    } catch (error: any) {
+      // Rejected by the server (too long, unsupported): the upload is gone.
+      // Network errors keep it so completing can be retried.
+      if (!isApiError(error, "NETWORK_ERROR")) {
+        await AsyncStorage.removeItem(PENDING_UPLOAD_KEY);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    result: run(),
+    cancel: () => {
+      cancelled = true;
+      cancelChunk?.();
+    },
+  };
+}